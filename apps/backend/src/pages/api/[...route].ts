@@ -2,10 +2,12 @@
 // CareConnect backend API — single catch-all route.
 // Storage-agnostic: uses the factory (Lightbase primary / SQLite fallback).
 import type { APIRoute } from 'astro';
-import { getStorage, getProviderName } from '@careconnect/db';
+import { getStorage, getProviderName, VersionConflictError, versionOf } from '@careconnect/db';
 import crypto from 'node:crypto';
 
 const SESSION_SECRET = process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
+// Access tokens are short-lived; the refresh token keeps an idle session alive this long.
+const ACCESS_TOKEN_EXPIRY = 15 * 60 * 1000;
 const SESSION_EXPIRY = 7 * 24 * 60 * 60 * 1000;
 const SEED_KEY = process.env.SEED_KEY || 'cc_seed_dev_key_change_in_production';
 const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
@@ -58,12 +60,16 @@ const SANITIZE_FIELDS = new Set<string>([
   'access_token',
   'encrypted_value',
   'data_base64',
+  'mfa_secret',
+  'mfa_backup_codes',
 ]);
 
 interface Session {
   userId: string;
   email: string;
   roles: string[];
+  /** Server-side session (session_tokens row) the token belongs to. */
+  sid: string;
   exp: number;
 }
 
@@ -88,15 +94,56 @@ function verifyToken(token: string): Session | null {
   }
 }
 
-function getSession(request: Request): Session | null {
+/** The request's session, if its token is valid and its server-side session has not been revoked. */
+async function getSession(request: Request, db: Awaited<ReturnType<typeof getStorage>>): Promise<Session | null> {
   const auth = request.headers.get('authorization');
-  if (auth?.startsWith('Bearer ')) return verifyToken(auth.slice(7));
-  const cookie = request.headers.get('cookie');
-  if (cookie) {
-    const match = cookie.match(/session=([^;]+)/);
-    if (match) return verifyToken(match[1]);
-  }
-  return null;
+  const cookie = request.headers.get('cookie')?.match(/session=([^;]+)/);
+  const token = auth?.startsWith('Bearer ') ? auth.slice(7) : cookie?.[1];
+  const session = token ? verifyToken(token) : null;
+  if (!session?.sid) return null;
+  const sessions = await import('../../services/sessions.ts');
+  return (await sessions.isSessionActive(db, session.sid, session.userId)) ? session : null;
+}
+
+/** Open a server-side session for a signed-in user; returns the token pair for the response body. */
+async function openSession(db: Awaited<ReturnType<typeof getStorage>>, user: any, request: Request, clientAddress: string) {
+  const sessions = await import('../../services/sessions.ts');
+  const throttle = await import('../../services/login-throttle.ts');
+  const { session, refreshToken } = await sessions.createSession(db, user.id, throttle.loginContext(request, clientAddress), SESSION_EXPIRY);
+  return { token: accessToken(user, session.id), refresh_token: refreshToken, expires_in: ACCESS_TOKEN_EXPIRY / 1000 };
+}
+
+/**
+ * Finish a sign-in once every factor has passed: remember the device, open a
+ * session and flag users whose role requires MFA they have not set up yet.
+ */
+async function completeSignIn(db: Awaited<ReturnType<typeof getStorage>>, user: any, request: Request, clientAddress: string) {
+  const throttle = await import('../../services/login-throttle.ts');
+  const mfa = await import('../../services/mfa.ts');
+  await throttle.noteLoginDevice(db, user, throttle.loginContext(request, clientAddress));
+  await db.update('users', user.id, { last_login: new Date().toISOString() });
+  const profiles = await db.find('profiles', { user_id: user.id });
+  const tokens = await openSession(db, user, request, clientAddress);
+  await db.insert('audit_logs', {
+    action: 'user_login',
+    entity_type: 'user',
+    entity_id: user.id,
+    user_email: user.email,
+    details: `User logged in: ${user.email}`,
+    created_at: new Date().toISOString(),
+  });
+  const enrolmentRequired = !user.mfa_enabled && (await mfa.isMFARequired(db, user));
+  return { user: sanitizeRecord(user), profile: profiles[0], ...tokens, mfa_enrollment_required: enrolmentRequired };
+}
+
+function accessToken(user: { id: string; email: string; user_type: string }, sid: string): string {
+  return createToken({
+    userId: user.id,
+    email: user.email,
+    roles: [user.user_type],
+    sid,
+    exp: Date.now() + ACCESS_TOKEN_EXPIRY,
+  });
 }
 
 async function hashPassword(password: string): Promise<string> {
@@ -129,14 +176,15 @@ function sanitizeRecords(records: any[]): any[] {
   return records.map(sanitizeRecord);
 }
 
-function json(data: any, status = 200): Response {
+function json(data: any, status = 200, contentType = 'application/json'): Response {
   return new Response(JSON.stringify(data), {
     status,
     headers: {
-      'Content-Type': 'application/json',
+      'Content-Type': contentType,
       'Access-Control-Allow-Origin': CORS_ORIGIN,
       'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, X-Active-Entity',
+      'Access-Control-Expose-Headers': 'ETag, Retry-After',
       'Access-Control-Allow-Credentials': 'true',
       Vary: 'Origin',
     },
@@ -147,27 +195,73 @@ function error(message: string, status = 400): Response {
   return json({ error: message }, status);
 }
 
-function parsePath(url: URL): string[] {
-  return url.pathname.replace('/api/', '').split('/').filter(Boolean);
+/** 429 for a throttled sign-in, with Retry-After in seconds. */
+function throttled(blocked: { message: string; retryAfter: number }): Response {
+  const res = json({ error: blocked.message, retry_after: blocked.retryAfter }, 429);
+  res.headers.set('Retry-After', String(blocked.retryAfter));
+  return res;
 }
 
-function getDefaultPermissions(userType: string): string[] {
-  const perms: Record<string, string[]> = {
-    super_admin: ['*'],
-    health_center: ['create_entity', 'update_entity', 'create_content', 'update_content', 'view_payments'],
-    pharmacy: ['create_entity', 'update_entity', 'create_content', 'update_content', 'view_payments'],
-    practitioner: ['create_entity', 'update_entity', 'create_content', 'update_content', 'view_payments'],
-    hospital_admin: ['manage_patients', 'view_patient_data', 'create_encounters', 'manage_encounters', 'manage_care_plans', 'manage_referrals', 'manage_beds', 'process_billing', 'manage_insurance_claims', 'obtain_consents', 'manage_access_grants', 'view_analytics'],
-    physician: ['manage_patients', 'view_patient_data', 'create_encounters', 'manage_encounters', 'record_vitals', 'manage_conditions', 'prescribe_medications', 'order_labs', 'view_lab_results', 'order_imaging', 'view_imaging_results', 'manage_care_plans', 'create_referrals', 'obtain_consents'],
-    nurse: ['view_patient_data', 'manage_encounters', 'record_vitals', 'manage_conditions', 'manage_care_plans', 'obtain_consents'],
-    pharmacist: ['view_patient_data', 'dispense_medications', 'manage_pharmacy_inventory'],
-    lab_tech: ['view_patient_data', 'view_lab_results', 'order_labs'],
-    imaging_tech: ['view_patient_data', 'view_imaging_results', 'order_imaging'],
-    billing_clerk: ['view_patient_data', 'process_billing', 'manage_insurance_claims', 'view_payments'],
-    patient: ['view_patient_data', 'manage_access_grants'],
-    public_user: [],
-  };
-  return perms[userType] || [];
+/**
+ * Routes a user who must enrol in MFA can still reach before enrolling:
+ * sign-in and session housekeeping, the enrolment endpoints, and the consent
+ * gate the client shows first.
+ */
+function reachableBeforeMFAEnrolment(segments: string[], method: string): boolean {
+  if (segments[0] === 'auth') return segments[1] !== 'invitations';
+  if (segments[0] === 'mfa') return true;
+  if (segments[0] === 'data' && segments[1] === 'system_settings') return method === 'GET';
+  return segments[0] === 'data' && segments[1] === 'consent_records';
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { Location: location, 'Cache-Control': 'no-store' } });
+}
+
+function eventStream(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'Access-Control-Allow-Origin': CORS_ORIGIN,
+      'Access-Control-Allow-Credentials': 'true',
+      Vary: 'Origin',
+    },
+  });
+}
+
+/** Single-record response carrying the record's version as a strong ETag. */
+function recordJson(record: any, status = 200): Response {
+  const res = json({ data: sanitizeRecord(record) }, status);
+  res.headers.set('ETag', `"${versionOf(record)}"`);
+  return res;
+}
+
+/**
+ * The version a PUT/PATCH was based on, from `If-Match: "3"` (weak tags are
+ * accepted). Undefined when the header is absent or `*`.
+ */
+function ifMatchVersion(request: Request): number | undefined {
+  const header = request.headers.get('If-Match')?.trim();
+  if (!header || header === '*') return undefined;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+  if (!match) throw new Error('If-Match must be an ETag returned by this API');
+  return Number(match[1]);
+}
+
+function fhirJson(resource: any, status = 200): Response {
+  return json(resource, status, 'application/fhir+json');
+}
+
+/** Entity the client is working at (the dashboard's entity switcher), if any. */
+function activeEntity(request: Request): string | null {
+  return request.headers.get('X-Active-Entity')?.trim() || null;
+}
+
+function parsePath(url: URL): string[] {
+  return url.pathname.replace('/api/', '').split('/').filter(Boolean);
 }
 
 export const prerender = false;
@@ -175,12 +269,13 @@ export const prerender = false;
 export const OPTIONS: APIRoute = () =>
   json({ ok: true });
 
-export const ALL: APIRoute = async ({ request }) => {
+export const ALL: APIRoute = async ({ request, clientAddress }) => {
   const url = new URL(request.url);
   const segments = parsePath(url);
   const method = request.method;
-  const session = getSession(request);
   const db = await getStorage();
+  const session = await getSession(request, db);
+  const requestId = request.headers.get('x-request-id') || crypto.randomUUID();
 
   try {
     // --- HEALTH CHECK ---
@@ -206,6 +301,18 @@ export const ALL: APIRoute = async ({ request }) => {
       });
     }
 
+    // --- MANDATORY MFA ---
+    // A role that requires MFA gets nothing else until the user enrols.
+    if (session && !reachableBeforeMFAEnrolment(segments, method)) {
+      const user = (await db.findById('users', session.userId)) as any;
+      if (user && !user.mfa_enabled) {
+        const mfa = await import('../../services/mfa.ts');
+        if (await mfa.isMFARequired(db, user)) {
+          return error('MFA enrolment required. Set up MFA to continue.', 403);
+        }
+      }
+    }
+
     // --- AUTH ROUTES ---
     if (segments[0] === 'auth') {
       if (segments[1] === 'register' && method === 'POST') {
@@ -217,6 +324,7 @@ export const ALL: APIRoute = async ({ request }) => {
         if (existing.length > 0) return error('User already exists', 409);
 
         const password_hash = await hashPassword(body.password);
+        const authz = await import('../../services/authorization.ts');
         let entityId: string | null = null;
 
         if (['health_center', 'pharmacy', 'practitioner'].includes(body.user_type)) {
@@ -248,7 +356,7 @@ export const ALL: APIRoute = async ({ request }) => {
           is_verified: false,
           is_active: true,
           entity_id: entityId,
-          permissions: getDefaultPermissions(body.user_type),
+          permissions: authz.getDefaultPermissions(body.user_type),
           created_at: new Date().toISOString(),
         });
 
@@ -273,18 +381,11 @@ export const ALL: APIRoute = async ({ request }) => {
           created_at: new Date().toISOString(),
         });
 
-        const token = createToken({
-          userId: user.id,
-          email: user.email,
-          roles: [user.user_type],
-          exp: Date.now() + SESSION_EXPIRY,
-        });
-
         return json(
           {
             user: sanitizeRecord(user),
             profile,
-            token,
+            ...(await openSession(db, user, request, clientAddress)),
           },
           201,
         );
@@ -295,38 +396,170 @@ export const ALL: APIRoute = async ({ request }) => {
         if (!body.email || !body.password) return error('email and password are required', 422);
         const users = await db.find('users', { email: body.email });
         const user = users[0];
-        if (!user) return error('Invalid credentials', 401);
+        // Unknown emails are throttled like real accounts so lockouts do not reveal which exist.
+        const throttle = await import('../../services/login-throttle.ts');
+        const context = throttle.loginContext(request, clientAddress);
+        const targets = [
+          { kind: 'account' as const, subject: String(body.email), userId: user?.id },
+          { kind: 'ip' as const, subject: context.ip },
+        ];
+        const blocked = await throttle.beginAttempt(db, targets, context);
+        if (blocked) return throttled(blocked);
+        if (!user) {
+          return error('Invalid credentials', 401);
+        }
         if (!user.is_active) return error('Account is deactivated', 403);
 
         const valid = await verifyPassword(body.password, user.password_hash);
-        if (!valid) return error('Invalid credentials', 401);
+        if (!valid) {
+          return error('Invalid credentials', 401);
+        }
+        await throttle.recordSuccess(db, targets);
 
-        await db.update('users', user.id, { last_login: new Date().toISOString() });
+        // Password alone is not enough with MFA on: hand back a challenge for /api/mfa/verify.
+        const mfa = await import('../../services/mfa.ts');
+        if (await mfa.isMFAEnabled(db, user.id)) {
+          const challenge = await mfa.createMFAChallenge(db, user.id);
+          return json({ mfa_required: true, challenge_token: challenge.token, expires_in: challenge.expiresIn });
+        }
 
-        const profiles = await db.find('profiles', { user_id: user.id });
-        const profile = profiles[0];
+        return json(await completeSignIn(db, user, request, clientAddress));
+      }
 
-        const token = createToken({
-          userId: user.id,
-          email: user.email,
-          roles: [user.user_type],
-          exp: Date.now() + SESSION_EXPIRY,
-        });
+      // POST /api/auth/refresh  { refresh_token } -> new access + refresh token (the old one stops working)
+      if (segments[1] === 'refresh' && method === 'POST') {
+        const body = await request.json();
+        const sessions = await import('../../services/sessions.ts');
+        const throttle = await import('../../services/login-throttle.ts');
+        try {
+          const { session: refreshed, refreshToken } = await sessions.refreshSession(db, body.refresh_token, throttle.loginContext(request, clientAddress), SESSION_EXPIRY);
+          const user = await db.findById('users', refreshed.user_id);
+          if (!user || !user.is_active) {
+            await sessions.revokeSession(db, refreshed.id, 'logout');
+            return error('Session expired. Please sign in again.', 401);
+          }
+          return json({ token: accessToken(user, refreshed.id), refresh_token: refreshToken, expires_in: ACCESS_TOKEN_EXPIRY / 1000 });
+        } catch (err: any) {
+          if (err.status) return error(err.message, err.status);
+          throw err;
+        }
+      }
 
-        await db.insert('audit_logs', {
-          action: 'user_login',
-          entity_type: 'user',
-          entity_id: user.id,
-          user_email: user.email,
-          details: `User logged in: ${user.email}`,
-          created_at: new Date().toISOString(),
-        });
+      // GET    /api/auth/sessions      — the caller's signed-in devices
+      // DELETE /api/auth/sessions      — sign out every other device
+      // DELETE /api/auth/sessions/:id  — sign out one device
+      if (segments[1] === 'sessions') {
+        if (!session) return error('Unauthorized', 401);
+        const sessions = await import('../../services/sessions.ts');
+        if (!segments[2] && method === 'GET') {
+          return json({ data: await sessions.listSessions(db, session.userId, session.sid) });
+        }
+        if (!segments[2] && method === 'DELETE') {
+          const revoked = await sessions.revokeUserSessions(db, session.userId, 'user_revoked', { exceptId: session.sid, byEmail: session.email });
+          return json({ data: { revoked } });
+        }
+        if (segments[2] && method === 'DELETE') {
+          try {
+            await sessions.revokeOwnSession(db, session.userId, segments[2]);
+          } catch (err: any) {
+            if (err.status) return error(err.message, err.status);
+            throw err;
+          }
+          return json({ success: true });
+        }
+      }
 
-        return json({
-          user: sanitizeRecord(user),
-          profile,
-          token,
-        });
+      // POST /api/auth/password-reset          { email }  — emails a reset link
+      // GET  /api/auth/password-reset?token=            — { valid }
+      // POST /api/auth/password-reset/confirm  { token, password }
+      if (segments[1] === 'password-reset') {
+        const reset = await import('../../services/password-reset.ts');
+        if (!segments[2] && method === 'POST') {
+          const body = await request.json();
+          if (!body.email) return error('email is required', 422);
+          await reset.requestPasswordReset(db, String(body.email));
+          return json({ success: true });
+        }
+        if (!segments[2] && method === 'GET') {
+          return json({ data: { valid: await reset.verifyPasswordResetToken(db, url.searchParams.get('token') || '') } });
+        }
+        if (segments[2] === 'confirm' && method === 'POST') {
+          const body = await request.json();
+          try {
+            await reset.completePasswordReset(db, String(body.token || ''), body.password, hashPassword);
+          } catch (err: any) {
+            if (err.status) return error(err.message, err.status);
+            throw err;
+          }
+          return json({ success: true });
+        }
+      }
+
+      // GET  /api/auth/sso/discover?email=|entity_id=  — SSO connections offered for a login
+      // GET  /api/auth/sso/:id/start                    — 302 to the identity provider
+      // GET  /api/auth/sso/:id/callback                 — OIDC redirect URI
+      // POST /api/auth/sso/:id/acs                      — SAML assertion consumer service
+      // GET  /api/auth/sso/:id/metadata                 — SAML SP metadata
+      // POST /api/auth/sso/exchange  { code }           — handoff code -> session (or MFA challenge)
+      if (segments[1] === 'sso') {
+        const sso = await import('../../services/sso.ts');
+        if (segments[2] === 'discover' && method === 'GET') {
+          const connections = await sso.discoverConnections(db, {
+            email: url.searchParams.get('email') || undefined,
+            entityId: url.searchParams.get('entity_id') || undefined,
+          });
+          return json({ data: connections });
+        }
+        if (segments[2] === 'exchange' && method === 'POST') {
+          const body = await request.json();
+          let userId: string;
+          try {
+            userId = await sso.redeemHandoff(db, String(body.code || ''));
+          } catch (err: any) {
+            if (err.status) return error(err.message, err.status);
+            throw err;
+          }
+          const user = (await db.findById('users', userId)) as any;
+          if (!user || !user.is_active) return error('Account is deactivated', 403);
+          // The IdP stands in for the password; CareConnect MFA still applies on top.
+          const mfa = await import('../../services/mfa.ts');
+          if (await mfa.isMFAEnabled(db, user.id)) {
+            const challenge = await mfa.createMFAChallenge(db, user.id);
+            return json({ mfa_required: true, challenge_token: challenge.token, expires_in: challenge.expiresIn });
+          }
+          return json(await completeSignIn(db, user, request, clientAddress));
+        }
+        if (segments[2] && segments[3] === 'metadata' && method === 'GET') {
+          return new Response(sso.spMetadata(segments[2]), { headers: { 'Content-Type': 'application/samlmetadata+xml' } });
+        }
+        if (segments[2] && segments[3] === 'start' && method === 'GET') {
+          try {
+            return redirect(await sso.startSignIn(db, segments[2]));
+          } catch (err: any) {
+            console.error('SSO start failed:', err);
+            return redirect(sso.failureUrl(err.status ? err.message : 'Single sign-on is unavailable right now.'));
+          }
+        }
+        const callback = segments[3] === 'callback' && method === 'GET';
+        const acs = segments[3] === 'acs' && method === 'POST';
+        if (segments[2] && (callback || acs)) {
+          try {
+            let user: any;
+            if (callback) {
+              user = await sso.completeOidcSignIn(db, segments[2], url.searchParams);
+            } else {
+              const form = await request.formData();
+              user = await sso.completeSamlSignIn(db, segments[2], {
+                SAMLResponse: String(form.get('SAMLResponse') || ''),
+                RelayState: String(form.get('RelayState') || ''),
+              });
+            }
+            return redirect(sso.completionUrl(await sso.createHandoff(db, user.id)));
+          } catch (err: any) {
+            console.error('SSO sign-in failed:', err);
+            return redirect(sso.failureUrl(err.status ? err.message : 'Single sign-on failed. Please try again.'));
+          }
+        }
       }
 
       if (segments[1] === 'me' && method === 'GET') {
@@ -337,7 +570,37 @@ export const ALL: APIRoute = async ({ request }) => {
         return json({ user: sanitizeRecord(user), profile: profiles[0] || null });
       }
 
+      // GET /api/auth/memberships — entities the user works at, with the role and permissions at each
+      if (segments[1] === 'memberships' && method === 'GET') {
+        if (!session) return error('Unauthorized', 401);
+        const authz = await import('../../services/authorization.ts');
+        const staff = await import('../../services/staff.ts');
+        const actor = await authz.loadActor(db, session.userId);
+        if (!actor) return error('Unauthorized', 401);
+        return json({ data: await staff.listMemberships(db, actor) });
+      }
+
+      // GET  /api/auth/invitations/:token          — invitation details for the acceptance page
+      // POST /api/auth/invitations/:token/accept   { license_number?, license_authority? }
+      if (segments[1] === 'invitations' && segments[2]) {
+        const staff = await import('../../services/staff.ts');
+        if (!segments[3] && method === 'GET') {
+          return json({ data: await staff.previewInvitation(db, segments[2]) });
+        }
+        if (segments[3] === 'accept' && method === 'POST') {
+          if (!session) return error('Unauthorized', 401);
+          const authz = await import('../../services/authorization.ts');
+          const actor = await authz.loadActor(db, session.userId);
+          if (!actor) return error('Unauthorized', 401);
+          return json({ data: await staff.acceptInvitation(db, actor, segments[2], await request.json()) });
+        }
+      }
+
       if (segments[1] === 'logout' && method === 'POST') {
+        if (session) {
+          const sessions = await import('../../services/sessions.ts');
+          await sessions.revokeSession(db, session.sid, 'logout');
+        }
         return json({ success: true });
       }
     }
@@ -347,8 +610,15 @@ export const ALL: APIRoute = async ({ request }) => {
       const mfa = await import('../../services/mfa.ts');
       if (segments[1] === 'status' && method === 'GET') {
         if (!session) return error('Unauthorized', 401);
-        const enabled = await mfa.isMFAEnabled(db, session.userId);
-        return json({ data: { enabled } });
+        const user = (await db.findById('users', session.userId)) as any;
+        if (!user) return error('User not found', 404);
+        return json({
+          data: {
+            enabled: await mfa.isMFAEnabled(db, session.userId),
+            required: await mfa.isMFARequired(db, user),
+            backup_codes_remaining: await mfa.backupCodesRemaining(db, session.userId),
+          },
+        });
       }
       if (segments[1] === 'setup' && method === 'POST') {
         if (!session) return error('Unauthorized', 401);
@@ -363,31 +633,73 @@ export const ALL: APIRoute = async ({ request }) => {
         if (!body.token) return error('token required', 422);
         const ok = await mfa.confirmMFA(db, session.userId, body.token);
         if (!ok) return error('Invalid TOTP code. Please try again.', 400);
-        return json({ data: { enabled: true } });
+        return json({ data: { enabled: true, backup_codes: await mfa.generateBackupCodes(db, session.userId) } });
+      }
+      // POST /api/mfa/backup-codes  { token } — replace the backup codes (needs a current TOTP)
+      if (segments[1] === 'backup-codes' && method === 'POST') {
+        if (!session) return error('Unauthorized', 401);
+        const body = await request.json();
+        if (!body.token) return error('token required', 422);
+        const throttle = await import('../../services/login-throttle.ts');
+        const targets = [{ kind: 'mfa' as const, subject: session.userId, userId: session.userId }];
+        const blocked = await throttle.beginAttempt(db, targets, throttle.loginContext(request, clientAddress));
+        if (blocked) return throttled(blocked);
+        if ((await mfa.verifyMFACode(db, session.userId, String(body.token))) !== 'totp') {
+          return error('Invalid TOTP code.', 400);
+        }
+        await throttle.recordSuccess(db, targets);
+        return json({ data: { backup_codes: await mfa.generateBackupCodes(db, session.userId) } });
       }
       if (segments[1] === 'disable' && method === 'POST') {
         if (!session) return error('Unauthorized', 401);
         const body = await request.json();
         if (!body.token) return error('token required', 422);
+        const current = (await db.findById('users', session.userId)) as any;
+        if (current && (await mfa.isMFARequired(db, current))) {
+          return error('MFA is mandatory for your account type and cannot be turned off.', 403);
+        }
+        const throttle = await import('../../services/login-throttle.ts');
+        const context = throttle.loginContext(request, clientAddress);
+        const targets = [{ kind: 'mfa' as const, subject: session.userId, userId: session.userId }];
+        const blocked = await throttle.beginAttempt(db, targets, context);
+        if (blocked) return throttled(blocked);
         const ok = await mfa.disableMFA(db, session.userId, body.token);
-        if (!ok) return error('Invalid TOTP code.', 400);
-        return json({ data: { enabled: false } });
+        if (!ok) {
+          return error('Invalid TOTP code.', 400);
+        }
+        await throttle.recordSuccess(db, targets);
+        // Every session is signed out; this device gets a fresh one.
+        const sessions = await import('../../services/sessions.ts');
+        await sessions.revokeUserSessions(db, session.userId, 'mfa_disabled', { byEmail: session.email });
+        const user = await db.findById('users', session.userId);
+        return json({ data: { enabled: false, ...(await openSession(db, user, request, clientAddress)) } });
       }
       if (segments[1] === 'verify' && method === 'POST') {
-        // Verify a TOTP during login step 2. Body: { userId, token }
+        // Login step 2. Body: { challenge_token, token } where token is a TOTP or a backup code.
         const body = await request.json();
-        if (!body.userId || !body.token) return error('userId and token required', 422);
-        const ok = await mfa.verifyUserTOTP(db, body.userId, body.token);
-        if (!ok) return error('Invalid TOTP code.', 401);
-        const user = (await db.findById('users', body.userId)) as any;
-        const profiles = await db.find('profiles', { user_id: body.userId });
-        const token = createToken({
-          userId: user.id,
-          email: user.email,
-          roles: [user.user_type],
-          exp: Date.now() + SESSION_EXPIRY,
+        if (!body.challenge_token || !body.token) return error('challenge_token and token required', 422);
+        const challenge = await mfa.getMFAChallenge(db, String(body.challenge_token));
+        if (!challenge) return error('Sign-in expired. Please enter your password again.', 401);
+        const throttle = await import('../../services/login-throttle.ts');
+        const context = throttle.loginContext(request, clientAddress);
+        const targets = [
+          { kind: 'mfa' as const, subject: challenge.user_id, userId: challenge.user_id },
+          { kind: 'ip' as const, subject: context.ip },
+        ];
+        const blocked = await throttle.beginAttempt(db, targets, context);
+        if (blocked) return throttled(blocked);
+        const factor = await mfa.verifyMFACode(db, challenge.user_id, String(body.token));
+        if (!factor) {
+          return error('Invalid verification code.', 401);
+        }
+        await throttle.recordSuccess(db, targets);
+        await mfa.consumeMFAChallenge(db, challenge.id);
+        const user = (await db.findById('users', challenge.user_id)) as any;
+        if (!user || !user.is_active) return error('Account is deactivated', 403);
+        return json({
+          ...(await completeSignIn(db, user, request, clientAddress)),
+          backup_codes_remaining: factor === 'backup_code' ? await mfa.backupCodesRemaining(db, user.id) : undefined,
         });
-        return json({ user: sanitizeRecord(user), profile: profiles[0] || null, token });
       }
     }
 
@@ -397,57 +709,590 @@ export const ALL: APIRoute = async ({ request }) => {
       if (!collection) return error('Collection name required');
 
       const isPublicRead = PUBLIC_READ_COLLECTIONS.has(collection);
+      const authz = await import('../../services/authorization.ts');
+      const trail = await import('../../services/audit-trail.ts');
+      // PHI fields are sealed at rest; clients send and receive plaintext.
+      const phi = await import('../../services/phi-encryption.ts');
+      const search = await import('../../services/patient-search.ts');
+      const actor = session ? await authz.loadActor(db, session.userId, activeEntity(request)) : null;
+      const audit = { requestId, actor };
+
+      // Permission + row-scope gate. Denials are audited and return 403.
+      const deny = async (verb: 'read' | 'create' | 'update' | 'delete', reason: string, record?: any) => {
+        await authz.recordDenial(db, session, collection, verb, segments[2], reason);
+        await trail.recordPhiDenial(db, audit, collection, verb, record || (segments[2] ? { id: segments[2] } : undefined), reason);
+        return error('Forbidden', 403);
+      };
 
       if (method === 'GET') {
         // Public collections: no auth. Private collections: auth required.
         if (!isPublicRead && !session) return error('Unauthorized', 401);
+        if (session && !actor) return error('Unauthorized', 401);
+        if (actor && !authz.hasPermission(actor, collection, 'read')) {
+          return deny('read', 'missing permission');
+        }
 
         if (segments[2]) {
           const item = await db.findById(collection, segments[2]);
           if (!item) return error('Not found', 404);
-          return json({ data: sanitizeRecord(item) });
+          if (actor && !authz.canAccessRecord(actor, collection, 'read', item)) {
+            return deny('read', 'record outside scope', item);
+          }
+          await trail.recordPhiAccess(db, audit, collection, 'read', [item]);
+          return recordJson(await phi.openRecord(db, collection, item));
         }
 
-        const filterParam = url.searchParams.get('filter');
-        let filter: Record<string, any> | undefined;
-        if (filterParam) {
-          try {
-            filter = JSON.parse(filterParam);
-          } catch {
-            return error('Invalid filter JSON', 422);
-          }
+        // Filters and sort run in the adapter; projection waits until
+        // row-level authorization has seen the full records.
+        const dataQuery = await import('../../services/data-query.ts');
+        let options;
+        try {
+          options = dataQuery.parseQueryOptions(url.searchParams, [...SANITIZE_FIELDS, ...authz.unqueryableFields(collection)]);
+        } catch (err: any) {
+          return error(err.message, 422);
         }
-        const data = await db.find(collection, filter);
-        return json({ data: sanitizeRecords(data) });
+        // Row scope is applied while paging, so pages and cursors only cover visible rows.
+        const { fields, ...query } = options;
+        const result = await dataQuery.queryReadable(db, collection, query, (record) =>
+          actor ? authz.canAccessRecord(actor, collection, 'read', record) : true,
+        );
+        const visible = result.data;
+        await trail.recordPhiAccess(db, audit, collection, 'list', visible);
+        const data = sanitizeRecords(await phi.openRecords(db, collection, dataQuery.projectRecords(visible, fields)));
+        if (!dataQuery.isPaged(options)) return json({ data });
+        return json({ data, page: { nextCursor: result.nextCursor, hasMore: result.hasMore } });
       }
 
       // All writes require authentication.
-      if (!session) return error('Unauthorized', 401);
+      if (!session || !actor) return error('Unauthorized', 401);
 
-      if (method === 'POST') {
-        const body = await request.json();
-        const item = await db.insert(collection, body);
-        return json({ data: sanitizeRecord(item) }, 201);
-      }
+      // Audit collections are append-only (or backend-owned) for everyone.
+      const verb = method === 'POST' ? 'create' : method === 'DELETE' ? 'delete' : 'update';
+      if (authz.isWriteLocked(collection, verb)) return deny(verb, 'collection is append-only');
 
-      if (segments[2] && method === 'PUT') {
+      if (method === 'POST') {
+        const owned = authz.isOwnerScoped(collection, 'create');
+        if (!owned && !authz.hasPermission(actor, collection, 'create')) return deny('create', 'missing permission');
         const body = await request.json();
-        const item = await db.update(collection, segments[2], body);
-        return json({ data: sanitizeRecord(item) });
+        if (!authz.canAccessRecord(actor, collection, 'create', body)) {
+          return deny('create', 'record outside scope', body);
+        }
+        const restricted = authz.protectedFieldViolations(actor, collection, body);
+        if (restricted.length > 0) return deny('create', `protected fields: ${restricted.join(', ')}`);
+        // Prescriptions need the prescriber's licence and insurance to be current.
+        if (collection === 'medication_requests') {
+          const credentials = await import('../../services/credentials.ts');
+          const lapsed = await credentials.findLapsedCredential(db, actor.userId);
+          if (lapsed) {
+            await authz.recordDenial(db, session, collection, 'create', undefined, `lapsed ${lapsed.credential_type}`);
+            return error(credentials.lapsedMessage(lapsed), 403);
+          }
+        }
+        const item = await db.insert(collection, await phi.sealRecord(db, collection, body));
+        await search.reindexFor(db, collection, item);
+        // Registration duplicate check: likely matches are queued for review.
+        if (collection === 'patients' || collection === 'patient_identifiers') {
+          const matching = await import('../../services/patient-matching.ts');
+          await matching.flagDuplicates(db, actor, collection === 'patients' ? item.id : item.patient_id);
+        }
+        await trail.recordPhiAccess(db, audit, collection, 'create', [item]);
+        return recordJson(await phi.openRecord(db, collection, item), 201);
       }
 
-      if (segments[2] && method === 'PATCH') {
+      if (segments[2] && (method === 'PUT' || method === 'PATCH')) {
         const body = await request.json();
-        const item = await db.update(collection, segments[2], body);
-        return json({ data: sanitizeRecord(item) });
+        const existing = await db.findById(collection, segments[2]);
+        if (!existing) return error('Not found', 404);
+        const owned = authz.isOwnerScoped(collection, 'update');
+        if (!owned && !authz.hasPermission(actor, collection, 'update')) return deny('update', 'missing permission');
+        if (
+          !authz.canAccessRecord(actor, collection, 'update', existing) ||
+          !authz.canAccessRecord(actor, collection, 'update', { ...existing, ...body })
+        ) {
+          return deny('update', 'record outside scope', existing);
+        }
+        const blocked = authz.protectedFieldViolations(actor, collection, body);
+        if (blocked.length > 0) return deny('update', `protected fields: ${blocked.join(', ')}`);
+        // Optimistic concurrency: a stale If-Match gets 409 with the current
+        // record (and its ETag) so the client can merge and retry.
+        let expectedVersion: number | undefined;
+        try {
+          expectedVersion = ifMatchVersion(request);
+        } catch (err: any) {
+          return error(err.message, 400);
+        }
+        try {
+          const item = await db.update(collection, segments[2], await phi.sealRecord(db, collection, body, existing), { expectedVersion });
+          await search.reindexFor(db, collection, item);
+          await trail.recordPhiAccess(db, audit, collection, 'update', [item], `fields ${Object.keys(body).join(',')}`);
+          return recordJson(await phi.openRecord(db, collection, item));
+        } catch (err: any) {
+          if (!(err instanceof VersionConflictError)) throw err;
+          const res = json({ error: 'Version conflict', current: sanitizeRecord(await phi.openRecord(db, collection, err.current)) }, 409);
+          res.headers.set('ETag', `"${versionOf(err.current)}"`);
+          return res;
+        }
       }
 
       if (segments[2] && method === 'DELETE') {
+        const existing = await db.findById(collection, segments[2]);
+        if (!existing) return error('Not found', 404);
+        const owned = authz.isOwnerScoped(collection, 'delete');
+        if (!owned && !authz.hasPermission(actor, collection, 'delete')) return deny('delete', 'missing permission');
+        if (!authz.canAccessRecord(actor, collection, 'delete', existing)) {
+          return deny('delete', 'record outside scope', existing);
+        }
         await db.delete(collection, segments[2]);
+        await search.reindexFor(db, collection, existing);
+        await trail.recordPhiAccess(db, audit, collection, 'delete', [existing]);
         return json({ success: true });
       }
     }
 
+    // --- FHIR R4 FACADE (read/search over the HMS collections) ---
+    if (segments[0] === 'fhir') {
+      const fhir = await import('../../services/fhir.ts');
+      const baseUrl = `${url.origin}/api/fhir`;
+      if (segments[1] === 'metadata' && method === 'GET') {
+        return fhirJson(fhir.capabilityStatement(baseUrl));
+      }
+      // FHIR resources are all PHI: same rule as private /api/data collections.
+      if (!session) return fhirJson(fhir.operationOutcome('login', 'Unauthorized'), 401);
+      if (method !== 'GET') {
+        return fhirJson(fhir.operationOutcome('not-supported', 'The FHIR facade is read-only'), 405);
+      }
+      const resourceType = segments[1];
+      if (!resourceType || !fhir.isSupportedResource(resourceType)) {
+        return fhirJson(fhir.operationOutcome('not-supported', `Unsupported resource type: ${resourceType || ''}`), 404);
+      }
+
+      const authz = await import('../../services/authorization.ts');
+      const actor = await authz.loadActor(db, session.userId, activeEntity(request));
+      if (!actor) return fhirJson(fhir.operationOutcome('login', 'Unauthorized'), 401);
+      const collection = fhir.collectionFor(resourceType);
+      const trail = await import('../../services/audit-trail.ts');
+      const phi = await import('../../services/phi-encryption.ts');
+      const audit = { requestId, actor };
+      const forbidden = async (reason: string, record?: any) => {
+        await authz.recordDenial(db, session, collection, 'read', segments[2], reason);
+        await trail.recordPhiDenial(db, audit, collection, segments[2] ? 'read' : 'list', record, `FHIR ${resourceType}: ${reason}`);
+        return fhirJson(fhir.operationOutcome('forbidden', 'Forbidden'), 403);
+      };
+      if (!authz.hasPermission(actor, collection, 'read')) return forbidden('missing permission');
+
+      if (segments[2]) {
+        const record = await fhir.readRecord(db, resourceType, segments[2]);
+        if (record && !authz.canAccessRecord(actor, collection, 'read', record)) {
+          return forbidden('record outside scope', record);
+        }
+        const resource = record && fhir.toResource(resourceType, sanitizeRecord(await phi.openRecord(db, collection, record)), segments[2]);
+        if (!resource) {
+          return fhirJson(fhir.operationOutcome('not-found', `${resourceType}/${segments[2]} not found`), 404);
+        }
+        await trail.recordPhiAccess(db, audit, collection, 'read', [record], `FHIR ${resourceType}`);
+        return fhirJson(resource);
+      }
+
+      const records = authz.filterReadable(actor, collection, await fhir.searchRecords(db, resourceType, url.searchParams));
+      await trail.recordPhiAccess(db, audit, collection, 'list', records, `FHIR ${resourceType} search`);
+      return fhirJson(fhir.toSearchBundle(resourceType, sanitizeRecords(await phi.openRecords(db, collection, records)), url.searchParams, baseUrl));
+    }
+
+    // --- REAL-TIME CHANGE FEED (SSE) ---
+    // GET /api/stream?collections=encounters,bed_management
+    if (segments[0] === 'stream' && method === 'GET') {
+      if (!session) return error('Unauthorized', 401);
+      const authz = await import('../../services/authorization.ts');
+      const actor = await authz.loadActor(db, session.userId, activeEntity(request));
+      if (!actor) return error('Unauthorized', 401);
+
+      const requested = (url.searchParams.get('collections') || '')
+        .split(',')
+        .map((c) => c.trim())
+        .filter(Boolean);
+      if (requested.length === 0) return error('collections is required', 422);
+      const forbidden = requested.filter((c) => !authz.hasPermission(actor, c, 'read'));
+      if (forbidden.length > 0) {
+        for (const c of forbidden) await authz.recordDenial(db, session, c, 'read', undefined, 'missing permission (stream)');
+        return error('Forbidden', 403);
+      }
+
+      const feed = await import('../../services/change-feed.ts');
+      const phi = await import('../../services/phi-encryption.ts');
+      const sessions = await import('../../services/sessions.ts');
+      const trail = await import('../../services/audit-trail.ts');
+      // The actor is reloaded on every re-check, so row checks follow
+      // membership and grant changes; lost access ends the stream.
+      let current = actor;
+      return eventStream(feed.createChangeStream({
+        collections: requested,
+        canRead: (collection, record) => authz.canAccessRecord(current, collection, 'read', record),
+        sanitize: async (collection, record) => sanitizeRecord(await phi.openRecord(db, collection, record)),
+        signal: request.signal,
+        audit: (collection, record) => trail.recordPhiAccess(db, { requestId, actor: current }, collection, 'read', [record], 'stream'),
+        stillAllowed: async () => {
+          if (Date.now() > session.exp || !(await sessions.isSessionActive(db, session.sid, session.userId))) return false;
+          const reloaded = await authz.loadActor(db, session.userId, activeEntity(request));
+          if (!reloaded || requested.some((c) => !authz.hasPermission(reloaded, c, 'read'))) return false;
+          current = reloaded;
+          return true;
+        },
+      }));
+    }
+
+    // --- PATIENT ACCESS REPORT ("who accessed my record") ---
+    // GET  /api/patient/access-report?patient_id=&from=&to=&limit=
+    // POST /api/patient/access-report/incidents  { entry_ids, reason }
+    if (segments[0] === 'patient' && segments[1] === 'access-report') {
+      if (!session) return error('Unauthorized', 401);
+      const authz = await import('../../services/authorization.ts');
+      const actor = await authz.loadActor(db, session.userId);
+      if (!actor) return error('Unauthorized', 401);
+      const patientId = url.searchParams.get('patient_id') || actor.patientIds[0];
+      if (!patientId || !actor.patientIds.includes(patientId)) return error('Forbidden', 403);
+      const patient = await db.findById('patients', patientId);
+      if (!patient) return error('Patient not found', 404);
+      const report = await import('../../services/access-report.ts');
+
+      try {
+        if (!segments[2] && method === 'GET') {
+          const limit = url.searchParams.get('limit') ? Number(url.searchParams.get('limit')) : undefined;
+          if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= 1000)) {
+            return error('limit must be between 1 and 1000', 422);
+          }
+          const entries = await report.buildAccessReport(db, patient, {
+            from: url.searchParams.get('from') || undefined,
+            to: url.searchParams.get('to') || undefined,
+            limit,
+          });
+          return json({ data: entries, incidents: await report.listPatientIncidents(db, patientId) });
+        }
+        if (segments[2] === 'incidents' && method === 'POST') {
+          const body = await request.json();
+          const incidents = await report.reportSuspiciousAccess(db, patient, session.userId, body);
+          return json({ data: incidents }, 201);
+        }
+      } catch (err: any) {
+        if (err.status) return error(err.message, err.status);
+        throw err;
+      }
+      return error('Not found', 404);
+    }
+
+    // --- PATIENT SEARCH (blind-index lookups over encrypted demographics) ---
+    // GET /api/patients/search?q=  or  ?surname=&dob=&phone=&mrn=  (&entity_id=&limit=)
+    if (segments[0] === 'patients' && segments[1] === 'search' && method === 'GET') {
+      if (!session) return error('Unauthorized', 401);
+      const authz = await import('../../services/authorization.ts');
+      const actor = await authz.loadActor(db, session.userId, activeEntity(request));
+      if (!actor) return error('Unauthorized', 401);
+      if (!authz.hasPermission(actor, 'patients', 'read')) {
+        await authz.recordDenial(db, session, 'patients', 'read', undefined, 'missing permission (search)');
+        return error('Forbidden', 403);
+      }
+      const limit = url.searchParams.get('limit') ? Number(url.searchParams.get('limit')) : undefined;
+      if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= 200)) {
+        return error('limit must be between 1 and 200', 422);
+      }
+      const search = await import('../../services/patient-search.ts');
+      const param = (name: string) => url.searchParams.get(name)?.trim() || undefined;
+      const criteria = {
+        ...search.parseQuery(param('q') || ''),
+        ...Object.fromEntries(['surname', 'dob', 'phone', 'mrn'].map((k) => [k, param(k)]).filter(([, v]) => v)),
+      };
+      const { results, records } = await search.searchPatients(db, criteria, {
+        entityId: param('entity_id'),
+        limit,
+        canRead: (patient) => authz.canAccessRecord(actor, 'patients', 'read', patient),
+      });
+      const trail = await import('../../services/audit-trail.ts');
+      await trail.recordPhiAccess(db, { requestId, actor }, 'patients', 'list', records, 'patient search');
+      return json({ data: results });
+    }
+
+    // --- ACCESS GRANT PIN CHECK ---
+    // POST /api/access-grants/verify-pin  { access_token, pin } -> { valid }
+    // The PIN is sealed at rest and never returned, so it is compared here.
+    // Guesses are throttled per grant and per caller; every wrong PIN is
+    // audited, and a grant whose counter locks is suspended for the patient
+    // to review.
+    if (segments[0] === 'access-grants' && segments[1] === 'verify-pin' && method === 'POST') {
+      if (!session) return error('Unauthorized', 401);
+      const body = await request.json();
+      if (!body.access_token || typeof body.pin !== 'string') return error('access_token and pin are required', 422);
+      const grant = (await db.find('access_grants', { access_token: body.access_token, status: 'active' }))[0] as any;
+      if (!grant) return error('Not found', 404);
+      if (!grant.pin_required || !grant.encrypted_pin) return json({ data: { valid: true } });
+      const throttle = await import('../../services/login-throttle.ts');
+      const context = throttle.loginContext(request, clientAddress);
+      const grantTarget = { kind: 'pin' as const, subject: `grant:${grant.id}` };
+      const targets = [grantTarget, { kind: 'pin' as const, subject: `user:${session.userId}`, userId: session.userId }];
+      const blocked = await throttle.beginAttempt(db, targets, context);
+      if (blocked) return throttled(blocked);
+      const phi = await import('../../services/phi-encryption.ts');
+      const valid = await phi.matchesSealed(db, 'access_grants', 'encrypted_pin', grant.encrypted_pin, body.pin);
+      if (valid) {
+        await throttle.recordSuccess(db, targets);
+        return json({ data: { valid } });
+      }
+      await db.insert('audit_logs', {
+        action: 'access_grant_pin_failed',
+        entity_type: 'access_grant',
+        entity_id: grant.id,
+        user_email: session.email,
+        details: `Wrong PIN for access grant ${grant.id} from ${context.ip}`,
+        created_at: new Date().toISOString(),
+      });
+      if (await throttle.isLocked(db, grantTarget)) {
+        await db.update('access_grants', grant.id, { status: 'suspended', updated_at: new Date().toISOString() });
+        await db.insert('audit_logs', {
+          action: 'access_grant_suspended',
+          entity_type: 'access_grant',
+          entity_id: grant.id,
+          user_email: session.email,
+          details: `Access grant ${grant.id} suspended after repeated wrong PINs`,
+          created_at: new Date().toISOString(),
+        });
+      }
+      return json({ data: { valid } });
+    }
+
+    // --- HMS WORKFLOWS (multi-document writes, each in one transaction) ---
+    if (segments[0] === 'hms') {
+      if (!session) return error('Unauthorized', 401);
+      const authz = await import('../../services/authorization.ts');
+      const actor = await authz.loadActor(db, session.userId, activeEntity(request));
+      if (!actor) return error('Unauthorized', 401);
+      const workflows = await import('../../services/hms-workflows.ts');
+      const trail = await import('../../services/audit-trail.ts');
+      const audit = { requestId, actor };
+      const by = { userId: actor.userId, email: actor.email };
+      const deny = async (collection: string, verb: 'read' | 'create' | 'update', recordId: string | undefined, reason: string) => {
+        await authz.recordDenial(db, session, collection, verb, recordId, reason);
+        return error('Forbidden', 403);
+      };
+
+      try {
+        // POST /api/hms/pharmacy/dispense
+        if (segments[1] === 'pharmacy' && segments[2] === 'dispense' && method === 'POST') {
+          const body = await request.json();
+          if (!body.medication_request_id || !body.pharmacy_entity_id || !body.patient_id) {
+            return error('medication_request_id, pharmacy_entity_id and patient_id are required', 422);
+          }
+          if (!authz.hasPermission(actor, 'medication_dispenses', 'create')) {
+            return deny('medication_dispenses', 'create', undefined, 'missing permission');
+          }
+          if (!authz.canAccessRecord(actor, 'pharmacy_inventory', 'update', { entity_id: body.pharmacy_entity_id })) {
+            return deny('medication_dispenses', 'create', undefined, 'pharmacy outside scope');
+          }
+          const dispense = await workflows.processMedicationDispense(db, body, by);
+          await trail.recordPhiAccess(db, audit, 'medication_dispenses', 'create', [dispense]);
+          await trail.recordPhiAccess(db, audit, 'medication_requests', 'update', [{ id: body.medication_request_id, patient_id: body.patient_id }], 'dispensed');
+          return json({ data: dispense }, 201);
+        }
+
+        // POST /api/hms/beds/transfers/:id/complete
+        if (segments[1] === 'beds' && segments[2] === 'transfers' && segments[3] && segments[4] === 'complete' && method === 'POST') {
+          if (!authz.hasPermission(actor, 'bed_management', 'update')) {
+            return deny('bed_management', 'update', segments[3], 'missing permission');
+          }
+          const transfer = await db.findById('bed_management', segments[3]);
+          if (!transfer) return error('Transfer not found', 404);
+          if (!authz.canAccessRecord(actor, 'bed_management', 'update', transfer)) {
+            return deny('bed_management', 'update', segments[3], 'record outside scope');
+          }
+          const completed = await workflows.completeBedTransfer(db, segments[3], by, (bed) =>
+            authz.canAccessRecord(actor, 'bed_management', 'update', bed));
+          return json({ data: completed });
+        }
+
+        // POST /api/hms/billing/invoices/:id/payments
+        if (segments[1] === 'billing' && segments[2] === 'invoices' && segments[3] && segments[4] === 'payments' && method === 'POST') {
+          if (!authz.hasPermission(actor, 'invoices', 'update')) {
+            return deny('invoices', 'update', segments[3], 'missing permission');
+          }
+          const invoice = await db.findById('invoices', segments[3]);
+          if (!invoice) return error('Invoice not found', 404);
+          if (!authz.canAccessRecord(actor, 'invoices', 'update', invoice)) {
+            return deny('invoices', 'update', segments[3], 'record outside scope');
+          }
+          const body = await request.json();
+          const updated = await workflows.recordPayment(db, segments[3], body, by);
+          await trail.recordPhiAccess(db, audit, 'invoices', 'update', [updated], 'payment recorded');
+          return json({ data: updated });
+        }
+
+        // POST /api/hms/break-glass                     { patient_id | patient_code, reason, duration_minutes }
+        // POST /api/hms/break-glass/:grantId/end
+        // GET  /api/hms/break-glass/reviews?status=pending
+        // POST /api/hms/break-glass/reviews/:id         { outcome: 'appropriate' | 'inappropriate', notes }
+        if (segments[1] === 'break-glass') {
+          const breakGlass = await import('../../services/break-glass.ts');
+          if (!segments[2] && method === 'POST') {
+            const result = await breakGlass.requestBreakGlass(db, actor, audit, await request.json());
+            return json({ data: result.grant, review: result.review }, result.review ? 201 : 200);
+          }
+          if (segments[2] === 'reviews' && !segments[3] && method === 'GET') {
+            return json({ data: await breakGlass.listReviews(db, actor, url.searchParams.get('status') || undefined) });
+          }
+          if (segments[2] === 'reviews' && segments[3] && method === 'POST') {
+            return json({ data: await breakGlass.completeReview(db, actor, segments[3], await request.json()) });
+          }
+          if (segments[2] && segments[3] === 'end' && method === 'POST') {
+            return json({ data: await breakGlass.endBreakGlass(db, actor, segments[2]) });
+          }
+        }
+
+        // POST /api/hms/patients/match                   { name, dob, sex, phones, identifiers, exclude_id }
+        // GET  /api/hms/patients/duplicates?status=open
+        // POST /api/hms/patients/duplicates/:id/dismiss  { notes }
+        // POST /api/hms/patients/merge                   { survivor_id, merged_id, flag_id, reason }
+        // GET  /api/hms/patients/merges?patient_id=
+        // POST /api/hms/patients/merges/:id/unmerge      { reason }
+        if (segments[1] === 'patients') {
+          const matching = await import('../../services/patient-matching.ts');
+          if (segments[2] === 'match' && method === 'POST') {
+            if (!authz.hasPermission(actor, 'patients', 'read')) return deny('patients', 'read', undefined, 'missing permission (duplicate check)');
+            const body = await request.json();
+            const { matches, records } = await matching.findMatches(db, {
+              name: body.name,
+              dob: body.dob,
+              sex: body.sex,
+              phones: Array.isArray(body.phones) ? body.phones : [],
+              identifiers: Array.isArray(body.identifiers) ? body.identifiers : [],
+            }, {
+              excludeId: body.exclude_id,
+              canRead: (patient) => authz.canAccessRecord(actor, 'patients', 'read', patient),
+            });
+            await trail.recordPhiAccess(db, audit, 'patients', 'list', records, 'duplicate check');
+            return json({ data: matches });
+          }
+          if (segments[2] === 'duplicates' && !segments[3] && method === 'GET') {
+            return json({ data: await matching.listDuplicateFlags(db, actor, url.searchParams.get('status') || undefined) });
+          }
+          if (segments[2] === 'duplicates' && segments[3] && segments[4] === 'dismiss' && method === 'POST') {
+            const body = await request.json();
+            return json({ data: await matching.dismissFlag(db, actor, segments[3], body.notes) });
+          }
+          if (segments[2] === 'merge' && method === 'POST') {
+            return json({ data: await matching.mergePatients(db, actor, audit, await request.json()) }, 201);
+          }
+          if (segments[2] === 'merges' && !segments[3] && method === 'GET') {
+            return json({ data: await matching.listMerges(db, actor, url.searchParams.get('patient_id') || undefined) });
+          }
+          if (segments[2] === 'merges' && segments[3] && segments[4] === 'unmerge' && method === 'POST') {
+            return json({ data: await matching.unmergePatients(db, actor, audit, segments[3], await request.json()) });
+          }
+        }
+
+        // GET    /api/hms/staff?entity_id=              — the entity's memberships (defaults to the active entity)
+        // PUT    /api/hms/staff/:id                     { role?, permissions?: string[] | null }
+        // PUT    /api/hms/staff/:id/status              { status: 'active' | 'suspended' | 'removed' }
+        // GET    /api/hms/staff/invitations?entity_id=  — pending invitations
+        // POST   /api/hms/staff/invitations             { entity_id, email, role } -> { invitation, entity_name, token }
+        // DELETE /api/hms/staff/invitations/:id
+        if (segments[1] === 'staff') {
+          const staff = await import('../../services/staff.ts');
+          if (segments[2] === 'invitations') {
+            if (!segments[3] && method === 'GET') {
+              const entityId = url.searchParams.get('entity_id') || actor.activeEntityId;
+              if (!entityId) return error('entity_id is required', 422);
+              return json({ data: await staff.listInvitations(db, actor, entityId) });
+            }
+            if (!segments[3] && method === 'POST') {
+              return json({ data: await staff.createInvitation(db, actor, await request.json()) }, 201);
+            }
+            if (segments[3] && method === 'DELETE') {
+              await staff.revokeInvitation(db, actor, segments[3]);
+              return json({ success: true });
+            }
+            return error('Not found', 404);
+          }
+          if (segments[2] && segments[3] === 'status' && method === 'PUT') {
+            const body = await request.json();
+            return json({ data: await staff.setMembershipStatus(db, actor, segments[2], String(body.status || '')) });
+          }
+          if (!segments[2] && method === 'GET') {
+            const entityId = url.searchParams.get('entity_id') || actor.activeEntityId;
+            if (!entityId) return error('entity_id is required', 422);
+            return json({ data: await staff.listEntityStaff(db, actor, entityId) });
+          }
+          if (segments[2] && !segments[3] && method === 'PUT') {
+            return json({ data: await staff.updateMembership(db, actor, segments[2], await request.json()) });
+          }
+        }
+
+        // GET  /api/hms/credentials/mine                     — the signed-in user's credentials
+        // GET  /api/hms/credentials?entity_id=&status=       — review queue (entity admins)
+        // POST /api/hms/credentials                          { entity_id, credential_type, issuing_body, number, issued_at, expires_at, documents }
+        // GET  /api/hms/credentials/:id/documents
+        // POST /api/hms/credentials/:id/review               { status: 'verified' | 'rejected', notes }
+        if (segments[1] === 'credentials') {
+          const credentials = await import('../../services/credentials.ts');
+          if (segments[2] === 'mine' && method === 'GET') {
+            return json({ data: await credentials.listMyCredentials(db, actor) });
+          }
+          if (!segments[2] && method === 'GET') {
+            const entityId = url.searchParams.get('entity_id') || actor.activeEntityId;
+            if (!entityId) return error('entity_id is required', 422);
+            return json({ data: await credentials.listCredentials(db, actor, entityId, url.searchParams.get('status') || undefined) });
+          }
+          if (!segments[2] && method === 'POST') {
+            return json({ data: await credentials.submitCredential(db, actor, await request.json()) }, 201);
+          }
+          if (segments[2] && segments[3] === 'documents' && method === 'GET') {
+            return json({ data: await credentials.getCredentialDocuments(db, actor, segments[2]) });
+          }
+          if (segments[2] && segments[3] === 'review' && method === 'POST') {
+            return json({ data: await credentials.reviewCredential(db, actor, segments[2], await request.json()) });
+          }
+        }
+
+        // GET    /api/hms/sso?entity_id=   — the entity's identity provider connections
+        // POST   /api/hms/sso              { entity_id, name, protocol, ... }
+        // PUT    /api/hms/sso/:id          (blank client_secret keeps the stored one)
+        // DELETE /api/hms/sso/:id
+        // GET    /api/hms/sso/domains?entity_id=       — email domains, verification state and TXT record
+        // POST   /api/hms/sso/domains/:id/check        — verify by DNS TXT lookup
+        // POST   /api/hms/sso/domains/:id/approve      — platform administrator approval
+        if (segments[1] === 'sso') {
+          const sso = await import('../../services/sso.ts');
+          if (segments[2] === 'domains') {
+            if (!segments[3] && method === 'GET') {
+              const entityId = url.searchParams.get('entity_id') || actor.activeEntityId;
+              if (!entityId) return error('entity_id is required', 422);
+              return json({ data: await sso.listDomains(db, actor, entityId) });
+            }
+            if (segments[3] && segments[4] === 'check' && method === 'POST') {
+              return json({ data: await sso.checkDomain(db, actor, segments[3]) });
+            }
+            if (segments[3] && segments[4] === 'approve' && method === 'POST') {
+              return json({ data: await sso.approveDomain(db, actor, segments[3]) });
+            }
+            return error('Not found', 404);
+          }
+          if (!segments[2] && method === 'GET') {
+            return json({ data: await sso.listConnections(db, actor, url.searchParams.get('entity_id') || undefined) });
+          }
+          if (!segments[2] && method === 'POST') {
+            return json({ data: await sso.saveConnection(db, actor, await request.json()) }, 201);
+          }
+          if (segments[2] && method === 'PUT') {
+            return json({ data: await sso.saveConnection(db, actor, await request.json(), segments[2]) });
+          }
+          if (segments[2] && method === 'DELETE') {
+            await sso.deleteConnection(db, actor, segments[2]);
+            return json({ success: true });
+          }
+        }
+      } catch (err: any) {
+        if (err.status) return error(err.message, err.status);
+        throw err;
+      }
+
+      return error('Not found', 404);
+    }
+
     // --- ADMIN ROUTES ---
     if (segments[0] === 'admin') {
       if (!session) return error('Unauthorized', 401);
@@ -472,14 +1317,99 @@ export const ALL: APIRoute = async ({ request }) => {
         return json({ data: sanitizeRecord(entity) });
       }
 
+      // GET /api/admin/audit-logs  — PHI audit trail, newest first.
+      //   ?patient_id= &actor=<user id or email> &from= &to= &action= &limit= &cursor=
+      //   ?source=platform returns the general audit_logs activity instead.
+      // GET /api/admin/audit-logs/verify — re-check the hash chain.
+      // GET /api/admin/audit-logs/export — full chain and head for `npm run audit:verify -- --file`.
       if (segments[1] === 'audit-logs' && method === 'GET') {
-        const logs = await db.get('audit_logs');
-        return json({
-          data: logs.sort(
+        const trail = await import('../../services/audit-trail.ts');
+        const params = url.searchParams;
+
+        if (segments[2] === 'verify') {
+          const { entries, head } = await trail.loadChain(db);
+          return json({ data: trail.verifyChain(entries, head) });
+        }
+        if (segments[2] === 'export') {
+          const { entries: chain, head } = await trail.loadChain(db);
+          await trail.appendTrail(db, { requestId, actor: { userId: user.id, email: user.email, userType: user.user_type } }, [
+            { action: 'export', collection: trail.AUDIT_TRAIL, details: `exported ${chain.length} entries` },
+          ]);
+          return json({ data: chain, head });
+        }
+
+        const limit = params.get('limit') ? Number(params.get('limit')) : undefined;
+        if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= 1000)) {
+          return error('limit must be between 1 and 1000', 422);
+        }
+        if (params.get('source') === 'platform') {
+          const logs = await db.get('audit_logs');
+          const from = params.get('from');
+          const to = params.get('to');
+          const actor = params.get('actor');
+          const filtered = logs.filter((l: any) =>
+            (!actor || l.user_id === actor || l.user_email === actor) &&
+            (!from || l.created_at >= from) &&
+            (!to || l.created_at <= (/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to)),
+          );
+          const sorted = filtered.sort(
             (a: any, b: any) =>
               new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
-          ),
+          );
+          return json({ data: limit ? sorted.slice(0, limit) : sorted });
+        }
+
+        const result = await trail.queryTrail(db, {
+          patientId: params.get('patient_id') || undefined,
+          actor: params.get('actor') || undefined,
+          from: params.get('from') || undefined,
+          to: params.get('to') || undefined,
+          action: params.get('action') || undefined,
+          limit,
+          cursor: params.get('cursor') || undefined,
         });
+        return json({ data: result.data, page: { nextCursor: result.nextCursor, hasMore: result.hasMore } });
+      }
+
+      // GET /api/admin/mfa-policy          — user_types that must use MFA
+      // PUT /api/admin/mfa-policy  { user_types: string[] }
+      if (segments[1] === 'mfa-policy') {
+        const mfa = await import('../../services/mfa.ts');
+        if (method === 'GET') return json({ data: { user_types: await mfa.getMFAPolicy(db) } });
+        if (method === 'PUT') {
+          const body = await request.json();
+          if (!Array.isArray(body.user_types)) return error('user_types must be an array', 422);
+          return json({ data: { user_types: await mfa.setMFAPolicy(db, body.user_types, user.email) } });
+        }
+      }
+
+      // POST /api/admin/force-logout  { user_id | email } — revoke every session the user has
+      if (segments[1] === 'force-logout' && method === 'POST') {
+        const body = await request.json();
+        const target = body.user_id
+          ? await db.findById('users', body.user_id)
+          : body.email ? (await db.find('users', { email: body.email }))[0] : null;
+        if (!target) return error('User not found', 404);
+        const sessions = await import('../../services/sessions.ts');
+        const revoked = await sessions.revokeUserSessions(db, target.id, 'admin_logout', { byEmail: user.email });
+        return json({ data: { user_id: target.id, revoked } });
+      }
+
+      // GET  /api/admin/lockouts              — locked sign-ins and keys with recent failures
+      // POST /api/admin/lockouts/:id/unlock
+      if (segments[1] === 'lockouts') {
+        const throttle = await import('../../services/login-throttle.ts');
+        if (!segments[2] && method === 'GET') {
+          return json({ data: await throttle.listLockouts(db) });
+        }
+        if (segments[2] && segments[3] === 'unlock' && method === 'POST') {
+          try {
+            return json({ data: await throttle.unlock(db, segments[2], { id: user.id, email: user.email }) });
+          } catch (err: any) {
+            if (err.status) return error(err.message, err.status);
+            throw err;
+          }
+        }
       }
 
       if (segments[1] === 'stats' && method === 'GET') {
@@ -650,13 +1580,49 @@ export const ALL: APIRoute = async ({ request }) => {
       return json({ data: result });
     }
 
+    // --- MIGRATIONS (db:push, protected by SEED_KEY) ---
+    // Applies pending storage migrations and reports them. Providers without
+    // versioned migrations (Lightbase) report nothing to apply.
+    if (segments[0] === 'migrate' && method === 'POST') {
+      const provided = request.headers.get('x-seed-key') || url.searchParams.get('key');
+      if (provided !== SEED_KEY) return error('Unauthorized', 401);
+      if (!db.migrate) {
+        return json({ data: { provider: getProviderName(), applied: [], supported: false } });
+      }
+      const applied = db.migrate();
+      return json({ data: { provider: getProviderName(), applied, version: db.getSchemaVersion?.(), supported: true } });
+    }
+
+    // --- PHI KEY ROTATION (keys:rotate, protected by SEED_KEY) ---
+    // Body { migrate_only?: boolean }. Rotates the PHI data keys and re-encrypts
+    // patients, patient_identifiers and access_grants; migrate_only keeps the
+    // current keys and only seals legacy/plaintext values.
+    if (segments[0] === 'encryption' && segments[1] === 'rotate' && method === 'POST') {
+      const provided = request.headers.get('x-seed-key') || url.searchParams.get('key');
+      if (provided !== SEED_KEY) return error('Unauthorized', 401);
+      const body = await request.json().catch(() => ({}));
+      const phi = await import('../../services/phi-encryption.ts');
+      const result = await phi.rotateKeys(db, { rotate: body.migrate_only !== true });
+      return json({ data: result });
+    }
+
+    // --- PATIENT SEARCH INDEX REBUILD (search:reindex, protected by SEED_KEY) ---
+    if (segments[0] === 'patients' && segments[1] === 'search-index' && method === 'POST') {
+      const provided = request.headers.get('x-seed-key') || url.searchParams.get('key');
+      if (provided !== SEED_KEY) return error('Unauthorized', 401);
+      const search = await import('../../services/patient-search.ts');
+      return json({ data: await search.rebuildSearchIndex(db) });
+    }
+
     // --- CRON (scheduled jobs, protected by SEED_KEY) ---
     // Consolidated entry point for all scheduled work:
     //   1. Booking reminders (24h before appointment)
     //   2. Re-verification reminders (30/7/1 day marks)
-    //   3. Newsletter processing (count of due newsletter emails)
-    //   4. Send all due scheduled_emails (the original cron behavior)
-    // Returns a summary: { emails: {sent,failed}, reminders: {booking,verification,newsletter} }
+    //   3. Staff credential expiry reminders (30/7/1 day marks, then expired)
+    //   4. Newsletter processing (count of due newsletter emails)
+    //   5. Expire lapsed break-the-glass grants
+    //   6. Send all due scheduled_emails (the original cron behavior)
+    // Returns a summary: { emails: {sent,failed}, reminders: {booking,verification,credential,newsletter}, break_glass_expired }
     if (segments[0] === 'cron' && method === 'POST') {
       const provided = request.headers.get('x-seed-key') || url.searchParams.get('key');
       if (provided !== SEED_KEY) return error('Unauthorized', 401);
@@ -686,7 +1652,17 @@ export const ALL: APIRoute = async ({ request }) => {
         errors.push(`verification_reminders: ${err.message}`);
       }
 
-      // 3. Newsletter processing — count due newsletter emails (no-op beyond counting).
+      // 3. Staff credential reminders — scheduled_emails at 30/7/1 day marks; lapsed ones marked expired.
+      let credentialScheduled = 0;
+      try {
+        const r = await cronJobs.processCredentialReminders(db);
+        credentialScheduled = r.scheduled;
+        errors.push(...r.errors);
+      } catch (err: any) {
+        errors.push(`credential_reminders: ${err.message}`);
+      }
+
+      // 4. Newsletter processing — count due newsletter emails (no-op beyond counting).
       let newsletterDue = 0;
       try {
         const r = await cronJobs.processNewsletterReminders(db);
@@ -696,7 +1672,18 @@ export const ALL: APIRoute = async ({ request }) => {
         errors.push(`newsletter: ${err.message}`);
       }
 
-      // 4. Send all due scheduled_emails (including those created above).
+      // 5. Break-the-glass grants past expires_at -> expired (loadActor already ignores them).
+      let breakGlassExpired = 0;
+      try {
+        const breakGlass = await import('../../services/break-glass.ts');
+        const r = await breakGlass.expireBreakGlassGrants(db);
+        breakGlassExpired = r.expired;
+        errors.push(...r.errors);
+      } catch (err: any) {
+        errors.push(`break_glass: ${err.message}`);
+      }
+
+      // 6. Send all due scheduled_emails (including those created above).
       let emailResult = { sent: 0, failed: 0 };
       try {
         emailResult = await emailSvc.processDueEmails(db);
@@ -710,8 +1697,10 @@ export const ALL: APIRoute = async ({ request }) => {
           reminders: {
             booking: bookingScheduled,
             verification: verificationScheduled,
+            credential: credentialScheduled,
             newsletter: newsletterDue,
           },
+          break_glass_expired: breakGlassExpired,
           errors,
           ran_at: new Date().toISOString(),
         },
@@ -729,6 +1718,7 @@ export const ALL: APIRoute = async ({ request }) => {
 
     return error('Not found', 404);
   } catch (err: any) {
+    if (err.status) return error(err.message, err.status);
     console.error('API Error:', err);
     return error(err.message || 'Internal server error', 500);
   }
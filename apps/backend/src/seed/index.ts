@@ -5,6 +5,9 @@
 // All seed accounts use the password: CareConnect2025!
 import crypto from 'node:crypto';
 import type { StorageAdapter } from '@careconnect/db';
+import { getDefaultPermissions } from '../services/authorization.ts';
+import { sealRecord } from '../services/phi-encryption.ts';
+import { indexPatient } from '../services/patient-search.ts';
 
 const SEED_PASSWORD = 'CareConnect2025!';
 const NOW = () => new Date().toISOString();
@@ -15,28 +18,6 @@ function hashPassword(password: string): string {
   return `${salt.toString('hex')}:${hash.toString('hex')}`;
 }
 
-function perms(userType: string): string[] {
-  const map: Record<string, string[]> = {
-    super_admin: ['*'],
-    health_center: ['create_entity', 'update_entity', 'create_content', 'update_content', 'view_payments'],
-    pharmacy: ['create_entity', 'update_entity', 'create_content', 'update_content', 'view_payments'],
-    practitioner: ['create_entity', 'update_entity', 'create_content', 'update_content', 'view_payments'],
-    hospital_admin: ['manage_patients', 'view_patient_data', 'create_encounters', 'manage_encounters', 'manage_care_plans', 'manage_referrals', 'manage_beds', 'process_billing', 'manage_insurance_claims', 'obtain_consents', 'manage_access_grants', 'view_analytics'],
-    physician: ['manage_patients', 'view_patient_data', 'create_encounters', 'manage_encounters', 'record_vitals', 'manage_conditions', 'prescribe_medications', 'order_labs', 'view_lab_results', 'order_imaging', 'view_imaging_results', 'manage_care_plans', 'create_referrals', 'obtain_consents'],
-    nurse: ['view_patient_data', 'manage_encounters', 'record_vitals', 'manage_conditions', 'manage_care_plans', 'obtain_consents'],
-    pharmacist: ['view_patient_data', 'dispense_medications', 'manage_pharmacy_inventory'],
-    lab_tech: ['view_patient_data', 'view_lab_results', 'order_labs'],
-    imaging_tech: ['view_patient_data', 'view_imaging_results', 'order_imaging'],
-    billing_clerk: ['view_patient_data', 'process_billing', 'manage_insurance_claims', 'view_payments'],
-    patient: ['view_patient_data', 'manage_access_grants'],
-    public_user: [],
-    compliance_officer: ['verify_entity', 'view_user_data', 'moderate_content', 'view_analytics', 'audit_logs'],
-    moderator: ['moderate_content', 'update_content', 'delete_content'],
-    support_agent: ['view_user_data', 'update_user', 'view_payments'],
-  };
-  return map[userType] || [];
-}
-
 export async function runSeed(db: StorageAdapter): Promise<Record<string, number>> {
   const counts: Record<string, number> = {};
   const password_hash = hashPassword(SEED_PASSWORD);
@@ -128,7 +109,7 @@ export async function runSeed(db: StorageAdapter): Promise<Record<string, number
   for (const u of users) {
     const user = await db.insert('users', {
       email: u.email, phone: u.phone, user_type: u.user_type, password_hash,
-      is_verified: true, is_active: true, entity_id: u.entity_id, permissions: perms(u.user_type),
+      is_verified: true, is_active: true, entity_id: u.entity_id, permissions: getDefaultPermissions(u.user_type),
       created_at: NOW(), updated_at: NOW(),
     });
     userIds[u.email] = user.id;
@@ -157,15 +138,16 @@ export async function runSeed(db: StorageAdapter): Promise<Record<string, number
   ];
   const patientIds: string[] = [];
   for (const p of patientDefs) {
-    const patient = await db.insert('patients', {
+    const patient = await db.insert('patients', await sealRecord(db, 'patients', {
       encrypted_name: p.name, encrypted_dob: p.dob, encrypted_sex: p.sex,
       encrypted_phones: [p.phone], encrypted_emails: [p.email], encrypted_address: p.address,
       encrypted_emergency_contacts: [],
       patient_code: p.code, primary_entity_id: hmsEntityId, user_id: p.user_id,
       preferences: { language: 'English', communication_method: 'sms', privacy_level: 'standard' },
       is_active: true, verification_status: 'verified', created_at: NOW(), updated_at: NOW(),
-    });
+    }));
     patientIds.push(patient.id);
+    await indexPatient(db, patient.id);
     await db.insert('patient_entity_links', {
       patient_id: patient.id, entity_id: hmsEntityId, relationship_type: 'primary_care', status: 'active', created_at: NOW(),
     });
@@ -208,8 +190,8 @@ export async function runSeed(db: StorageAdapter): Promise<Record<string, number
   for (const c of conditions) await db.insert('conditions', { ...c, created_at: NOW() });
   counts.conditions = conditions.length;
 
-  await db.insert('allergies', { patient_id: patientIds[0], entity_id: hmsEntityId, allergen: 'Penicillin', criticality: 'high', status: 'active', reaction: 'Rash', created_at: NOW() });
-  await db.insert('allergies', { patient_id: patientIds[2], entity_id: hmsEntityId, allergen: 'Sulfonamides', criticality: 'medium', status: 'active', reaction: 'Hives', created_at: NOW() });
+  await db.insert('allergies', { patient_id: patientIds[0], entity_id: hmsEntityId, allergen: 'Penicillin', allergen_code: '70618', code_system: 'RxNorm', category: 'medication', severity: 'severe', criticality: 'high', status: 'active', verification_status: 'confirmed', reaction: 'Rash', created_at: NOW() });
+  await db.insert('allergies', { patient_id: patientIds[2], entity_id: hmsEntityId, allergen: 'Sulfonamides', category: 'medication', severity: 'moderate', criticality: 'medium', status: 'active', verification_status: 'unconfirmed', reaction: 'Hives', created_at: NOW() });
   counts.allergies = 2;
 
   const medReq = await db.insert('medication_requests', {
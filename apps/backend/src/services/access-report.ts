@@ -0,0 +1,272 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Patient-facing "who accessed my record" report. Joins the PHI audit trail and
+// the caregiver access_logs for one patient with the grant or care relationship
+// that let each person in, and opens access_incidents cases when the patient
+// flags an access as suspicious.
+import type { StorageAdapter } from '@careconnect/db';
+import { queryTrail, isEmergencyEntry, type TrailEntry } from './audit-trail.ts';
+
+export const ACCESS_INCIDENTS = 'access_incidents';
+
+/** Report section per collection; names match AccessGrant scopes. */
+const SECTION_OF: Record<string, string> = {
+  patients: 'demographics',
+  patient_identifiers: 'demographics',
+  patient_entity_links: 'demographics',
+  encounters: 'medical_history',
+  triage_notes: 'medical_history',
+  vitals: 'medical_history',
+  conditions: 'medical_history',
+  allergies: 'medical_history',
+  care_plans: 'medical_history',
+  referrals: 'medical_history',
+  medication_requests: 'medications',
+  medication_dispenses: 'medications',
+  lab_orders: 'lab_results',
+  lab_results: 'lab_results',
+  imaging_orders: 'imaging',
+  billing_items: 'billing',
+  invoices: 'billing',
+  insurance_claims: 'billing',
+  consents: 'consents',
+  access_grants: 'consents',
+};
+
+/** Staff roles notified when a case is opened, besides the entity owner. */
+const ADMIN_STAFF_ROLES = new Set(['admin', 'hospital_admin']);
+
+export interface AccessBasis {
+  type: 'access_grant' | 'care_relationship' | 'none';
+  label: string;
+  grant_id?: string;
+  entity_id?: string;
+}
+
+export interface AccessReportEntry {
+  id: string;
+  source: 'audit_trail' | 'access_logs';
+  accessed_at: string;
+  accessor: { user_id: string; name: string; email: string | null; role: string | null };
+  section: string;
+  collection: string;
+  action: string;
+  outcome: 'success' | 'denied';
+  basis: AccessBasis;
+  emergency: boolean;
+}
+
+export interface AccessIncident {
+  id?: string;
+  patient_id: string;
+  entity_id: string | null;
+  reported_by: string;
+  reason: string;
+  entries: Array<{ entry_id: string; source: AccessReportEntry['source']; accessor_user_id: string; accessor_name: string; section: string; accessed_at: string }>;
+  status: 'open' | 'investigating' | 'resolved' | 'dismissed';
+  created_at?: string;
+}
+
+export interface ReportOptions {
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface Accessor {
+  name: string;
+  email: string | null;
+  role: string | null;
+  entityIds: string[];
+}
+
+function sectionOf(collection: string, resourceType?: string): string {
+  return SECTION_OF[collection] || resourceType || collection;
+}
+
+function isEmergencyGrant(grant: any): boolean {
+  return !!grant && (grant.emergency_only === true || grant.access_level === 'emergency_only');
+}
+
+async function loadAccessor(db: StorageAdapter, userId: string): Promise<Accessor> {
+  const user = (await db.findById('users', userId)) as any;
+  const profile = (await db.find('profiles', { user_id: userId }))[0] as any;
+  const staff = await db.find('entity_staff', { user_id: userId });
+  const name = `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim();
+  return {
+    name: name || user?.email || 'Unknown user',
+    email: user?.email || null,
+    role: staff.find((s: any) => s.role)?.role || user?.user_type || null,
+    entityIds: [user?.entity_id, ...staff.filter((s: any) => s.status !== 'removed').map((s: any) => s.entity_id)].filter(Boolean),
+  };
+}
+
+/** Entities that hold the patient in their care (primary registration plus active links). */
+async function careEntities(db: StorageAdapter, patient: any): Promise<string[]> {
+  const links = await db.find('patient_entity_links', { patient_id: patient.id });
+  return [patient.primary_entity_id, ...links.filter((l: any) => l.status !== 'inactive').map((l: any) => l.entity_id)].filter(Boolean);
+}
+
+/**
+ * Everyone other than the patient who touched the patient's record, newest
+ * first. Each entry carries the grant or care relationship that applied.
+ */
+export async function buildAccessReport(db: StorageAdapter, patient: any, options: ReportOptions = {}): Promise<AccessReportEntry[]> {
+  const limit = options.limit ?? 200;
+  const { data: trail } = await queryTrail(db, { patientId: patient.id, from: options.from, to: options.to, limit });
+  // A bare date means "through the end of that day", as in queryTrail.
+  const to = options.to && /^\d{4}-\d{2}-\d{2}$/.test(options.to) ? `${options.to}T23:59:59.999Z` : options.to;
+  const logs = (await db.find('access_logs', { patient_id: patient.id })).filter((l: any) =>
+    l.action !== 'login' &&
+    (!options.from || l.accessed_at >= options.from) &&
+    (!to || l.accessed_at <= to),
+  );
+  const grants = await db.find('access_grants', { patient_id: patient.id });
+  const patientEntities = await careEntities(db, patient);
+
+  const accessors = new Map<string, Accessor>();
+  const entityNames = new Map<string, string>();
+  const accessorOf = async (userId: string) => {
+    if (!accessors.has(userId)) accessors.set(userId, await loadAccessor(db, userId));
+    return accessors.get(userId)!;
+  };
+  const entityName = async (entityId: string) => {
+    if (!entityNames.has(entityId)) entityNames.set(entityId, ((await db.findById('entities', entityId)) as any)?.name || 'a care provider');
+    return entityNames.get(entityId)!;
+  };
+
+  const basisFor = async (userId: string, accessor: Accessor, grantId?: string): Promise<{ basis: AccessBasis; grant?: any }> => {
+    const grant = grantId
+      ? grants.find((g: any) => g.id === grantId)
+      : grants.find((g: any) => g.grantee_id === userId && g.status === 'active') || grants.find((g: any) => g.grantee_id === userId);
+    if (grant?.break_glass) {
+      return { basis: { type: 'access_grant', label: `Emergency access: "${grant.break_glass_reason}"`, grant_id: grant.id }, grant };
+    }
+    if (grant) {
+      const relationship = grant.relationship_to_patient || String(grant.grantee_type || '').replace(/_/g, ' ');
+      return { basis: { type: 'access_grant', label: `Access grant (${relationship})`, grant_id: grant.id }, grant };
+    }
+    const entityId = accessor.entityIds.find((e) => patientEntities.includes(e));
+    if (entityId) {
+      return { basis: { type: 'care_relationship', label: `Care team at ${await entityName(entityId)}`, entity_id: entityId } };
+    }
+    return { basis: { type: 'none', label: 'No recorded grant or care relationship' } };
+  };
+
+  const entries: AccessReportEntry[] = [];
+  for (const t of trail as TrailEntry[]) {
+    if (!t.user_id || t.user_id === patient.user_id) continue;
+    const accessor = await accessorOf(t.user_id);
+    const { basis, grant } = await basisFor(t.user_id, accessor);
+    entries.push({
+      id: String(t.id),
+      source: 'audit_trail',
+      accessed_at: t.logged_at,
+      accessor: { user_id: t.user_id, name: accessor.name, email: accessor.email, role: t.user_role || accessor.role },
+      section: sectionOf(t.entity_type),
+      collection: t.entity_type,
+      action: t.action,
+      outcome: t.outcome,
+      basis,
+      emergency: isEmergencyGrant(grant) || isEmergencyEntry(t),
+    });
+  }
+  for (const l of logs) {
+    if (!l.grantee_id || l.grantee_id === patient.user_id) continue;
+    const accessor = await accessorOf(l.grantee_id);
+    const { basis, grant } = await basisFor(l.grantee_id, accessor, l.access_grant_id);
+    entries.push({
+      id: String(l.id),
+      source: 'access_logs',
+      accessed_at: l.accessed_at,
+      accessor: { user_id: l.grantee_id, name: accessor.name, email: accessor.email, role: accessor.role },
+      section: sectionOf(l.resource_type || '', l.resource_type),
+      collection: l.resource_type || 'access_grants',
+      action: l.action,
+      outcome: l.success === false ? 'denied' : 'success',
+      basis,
+      emergency: isEmergencyGrant(grant),
+    });
+  }
+
+  entries.sort((a, b) => (a.accessed_at < b.accessed_at ? 1 : a.accessed_at > b.accessed_at ? -1 : 0));
+  return entries.slice(0, limit);
+}
+
+export async function listPatientIncidents(db: StorageAdapter, patientId: string): Promise<AccessIncident[]> {
+  const incidents = (await db.find(ACCESS_INCIDENTS, { patient_id: patientId })) as AccessIncident[];
+  return incidents.sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+}
+
+async function notifyEntityAdmins(db: StorageAdapter, incident: AccessIncident): Promise<void> {
+  if (!incident.entity_id) return;
+  const entity = (await db.findById('entities', incident.entity_id)) as any;
+  const staff = await db.find('entity_staff', { entity_id: incident.entity_id });
+  const recipients = new Set<string>(
+    [entity?.owner_user_id, ...staff.filter((s: any) => ADMIN_STAFF_ROLES.has(s.role) && s.status !== 'removed').map((s: any) => s.user_id)].filter(Boolean),
+  );
+  const who = Array.from(new Set(incident.entries.map((e) => e.accessor_name))).join(', ');
+  for (const userId of recipients) {
+    await db.insert('notifications', {
+      user_id: userId,
+      type: 'access_incident',
+      title: 'Suspicious record access reported',
+      message: `A patient reported ${incident.entries.length} access event(s) by ${who} as suspicious.`,
+      data: { incident_id: incident.id, patient_id: incident.patient_id },
+      is_read: false,
+      created_at: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Open a case for the flagged report entries, one per entity whose staff made
+ * the accesses (accesses with no entity go to the patient's primary entity),
+ * and notify each entity's admins.
+ */
+export async function reportSuspiciousAccess(
+  db: StorageAdapter,
+  patient: any,
+  reportedBy: string,
+  body: { entry_ids?: string[]; reason?: string },
+): Promise<AccessIncident[]> {
+  const ids = new Set(Array.isArray(body.entry_ids) ? body.entry_ids.map(String) : []);
+  const reason = String(body.reason || '').trim();
+  if (ids.size === 0 || !reason) {
+    throw Object.assign(new Error('entry_ids and reason are required'), { status: 422 });
+  }
+
+  const report = await buildAccessReport(db, patient, { limit: 1000 });
+  const flagged = report.filter((e) => ids.has(e.id));
+  if (flagged.length !== ids.size) {
+    throw Object.assign(new Error('Some entries are not in your access report'), { status: 422 });
+  }
+
+  const byEntity = new Map<string | null, AccessReportEntry[]>();
+  for (const entry of flagged) {
+    const accessor = await loadAccessor(db, entry.accessor.user_id);
+    const entityId = entry.basis.entity_id || accessor.entityIds[0] || patient.primary_entity_id || null;
+    byEntity.set(entityId, [...(byEntity.get(entityId) || []), entry]);
+  }
+
+  const incidents: AccessIncident[] = [];
+  for (const [entityId, entries] of byEntity) {
+    const incident = (await db.insert(ACCESS_INCIDENTS, {
+      patient_id: patient.id,
+      entity_id: entityId,
+      reported_by: reportedBy,
+      reason,
+      entries: entries.map((e) => ({
+        entry_id: e.id,
+        source: e.source,
+        accessor_user_id: e.accessor.user_id,
+        accessor_name: e.accessor.name,
+        section: e.section,
+        accessed_at: e.accessed_at,
+      })),
+      status: 'open',
+    })) as AccessIncident;
+    await notifyEntityAdmins(db, incident);
+    incidents.push(incident);
+  }
+  return incidents;
+}
@@ -0,0 +1,263 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Append-only, hash-chained audit trail for PHI access. Every read or write of
+// a patient-scoped collection through the API appends one entry per patient
+// touched. Each entry stores the hash of the previous one, so editing,
+// deleting or reordering entries breaks the chain and shows up in
+// verifyChain() and `npm run audit:verify`. The head (last seq and hash) is
+// also kept in its own record, so entries cut off the end are caught too.
+// Field names follow audit_logs so existing log views can render entries.
+import crypto from 'node:crypto';
+import type { StorageAdapter, StorageTransaction, QueryCondition } from '@careconnect/db';
+import { getPolicy, patientIdOf } from './authorization.ts';
+
+export const AUDIT_TRAIL = 'audit_trail';
+export const AUDIT_TRAIL_HEAD = 'audit_trail_head';
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type TrailAction = 'read' | 'list' | 'create' | 'update' | 'delete' | 'export';
+export type TrailOutcome = 'success' | 'denied';
+
+export interface TrailEntry {
+  id?: string;
+  seq: number;
+  /** Hashed timestamp. The adapters overwrite created_at on insert, so it is not hashed. */
+  logged_at: string;
+  created_at?: string;
+  request_id: string;
+  user_id: string | null;
+  user_email: string | null;
+  user_role: string | null;
+  action: TrailAction;
+  entity_type: string;
+  entity_id: string | null;
+  patient_id: string | null;
+  outcome: TrailOutcome;
+  details: string | null;
+  prev_hash: string;
+  hash: string;
+}
+
+/** The single audit_trail_head row: where the chain ended after the last append. */
+export interface TrailHead {
+  id?: string;
+  seq: number;
+  hash: string;
+  updated_at: string;
+}
+
+/** Who is acting and under which request; built once per API request. */
+export interface AuditContext {
+  requestId: string;
+  /** emergencyGrants (patient id -> grant id) flags accesses made under break-the-glass. */
+  actor: { userId: string; email: string; userType: string; emergencyGrants?: Record<string, string> } | null;
+}
+
+export interface TrailEvent {
+  action: TrailAction;
+  collection: string;
+  recordId?: string | null;
+  patientId?: string | null;
+  outcome?: TrailOutcome;
+  details?: string;
+}
+
+export interface TrailFilters {
+  patientId?: string;
+  /** A user id, or an email address (matched against user_email). */
+  actor?: string;
+  from?: string;
+  to?: string;
+  action?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ChainVerification {
+  ok: boolean;
+  checked: number;
+  /** seq of the first entry that fails, when !ok. */
+  brokenAt?: number;
+  reason?: string;
+}
+
+/** PHI = any collection whose rows are scoped to a patient. */
+export function isPhiCollection(collection: string): boolean {
+  return getPolicy(collection)?.scope === 'patient';
+}
+
+// The hashed fields, in order. scripts/audit-verify.mjs hashes the same list.
+const HASHED_FIELDS = [
+  'seq', 'logged_at', 'request_id', 'user_id', 'user_email', 'user_role', 'action',
+  'entity_type', 'entity_id', 'patient_id', 'outcome', 'details', 'prev_hash',
+] as const;
+
+export function entryHash(entry: Omit<TrailEntry, 'hash' | 'id' | 'created_at'>): string {
+  const canonical = JSON.stringify(HASHED_FIELDS.map((f) => entry[f] ?? null));
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/** Check a full chain, ordered by seq from 1, against the recorded head. */
+export function verifyChain(entries: TrailEntry[], head: TrailHead | null): ChainVerification {
+  let prev = GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    if (e.seq !== i + 1) return { ok: false, checked: i, brokenAt: e.seq, reason: `expected seq ${i + 1}` };
+    if (e.prev_hash !== prev) return { ok: false, checked: i, brokenAt: e.seq, reason: 'prev_hash does not match previous entry' };
+    if (entryHash(e) !== e.hash) return { ok: false, checked: i, brokenAt: e.seq, reason: 'entry hash mismatch (entry modified)' };
+    prev = e.hash;
+  }
+  if (!head) {
+    return entries.length === 0
+      ? { ok: true, checked: 0 }
+      : { ok: false, checked: entries.length, brokenAt: entries.length, reason: 'chain head record missing' };
+  }
+  if (head.seq !== entries.length || head.hash !== prev) {
+    return { ok: false, checked: entries.length, brokenAt: entries.length + 1, reason: `chain ends at seq ${entries.length} but the recorded head is seq ${head.seq} (entries removed from the end)` };
+  }
+  return { ok: true, checked: entries.length };
+}
+
+/** `details` for an entry made under a break-the-glass grant: "[break-glass <grant id>] ...". */
+export function emergencyDetails(grantId: string, details?: string | null): string {
+  return `[break-glass ${grantId}]${details ? ` ${details}` : ''}`;
+}
+
+export function isEmergencyEntry(entry: Pick<TrailEntry, 'details'>): boolean {
+  return !!entry.details?.startsWith('[break-glass ');
+}
+
+async function chainHead(tx: StorageTransaction): Promise<{ seq: number; hash: string }> {
+  const { data } = await tx.query<TrailEntry>(AUDIT_TRAIL, { sort: [{ field: 'seq', direction: 'desc' }], limit: 1 });
+  return data[0] ? { seq: data[0].seq, hash: data[0].hash } : { seq: 0, hash: GENESIS_HASH };
+}
+
+// Appends are serialised in-process; the transaction keeps SQLite writers from
+// other processes off the head while an append is in flight.
+let appendTail: Promise<unknown> = Promise.resolve();
+
+/** Append events to the chain, in order. */
+export async function appendTrail(db: StorageAdapter, ctx: AuditContext, events: TrailEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  const run = () =>
+    db.transaction(async (tx: StorageTransaction) => {
+      let head = await chainHead(tx);
+      for (const event of events) {
+        const emergencyGrant = event.patientId ? ctx.actor?.emergencyGrants?.[event.patientId] : undefined;
+        const details = emergencyGrant && !isEmergencyEntry({ details: event.details ?? null })
+          ? emergencyDetails(emergencyGrant, event.details)
+          : event.details ?? null;
+        const entry: Omit<TrailEntry, 'hash' | 'created_at'> = {
+          seq: head.seq + 1,
+          logged_at: new Date().toISOString(),
+          request_id: ctx.requestId,
+          user_id: ctx.actor?.userId ?? null,
+          user_email: ctx.actor?.email ?? null,
+          user_role: ctx.actor?.userType ?? null,
+          action: event.action,
+          entity_type: event.collection,
+          entity_id: event.recordId ?? null,
+          patient_id: event.patientId ?? null,
+          outcome: event.outcome || 'success',
+          details,
+          prev_hash: head.hash,
+        };
+        const hash = entryHash(entry);
+        await tx.insert(AUDIT_TRAIL, { ...entry, hash });
+        head = { seq: entry.seq, hash };
+      }
+      const anchor = (await tx.find(AUDIT_TRAIL_HEAD, {}))[0] as TrailHead | undefined;
+      const update = { seq: head.seq, hash: head.hash, updated_at: new Date().toISOString() };
+      if (anchor) await tx.update(AUDIT_TRAIL_HEAD, anchor.id!, update);
+      else await tx.insert(AUDIT_TRAIL_HEAD, update);
+    });
+  const next = appendTail.then(run, run);
+  appendTail = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Record access to PHI records: one entry per patient touched (list reads
+ * carry the record ids in `details`). No-op for non-PHI collections.
+ */
+export async function recordPhiAccess(
+  db: StorageAdapter,
+  ctx: AuditContext,
+  collection: string,
+  action: TrailAction,
+  records: any[],
+  details?: string,
+): Promise<void> {
+  if (!isPhiCollection(collection) || records.length === 0) return;
+  if (action !== 'list') {
+    await appendTrail(db, ctx, records.map((r) => ({
+      action, collection, recordId: r.id, patientId: patientIdOf(collection, r) ?? null, details,
+    })));
+    return;
+  }
+  const byPatient = new Map<string | null, string[]>();
+  for (const r of records) {
+    const patientId = patientIdOf(collection, r) ?? null;
+    byPatient.set(patientId, [...(byPatient.get(patientId) || []), String(r.id)]);
+  }
+  await appendTrail(db, ctx, [...byPatient].map(([patientId, ids]) => ({
+    action, collection, patientId, details: `${details ? `${details}; ` : ''}records ${ids.join(',')}`,
+  })));
+}
+
+/** Record a denied PHI request. */
+export async function recordPhiDenial(
+  db: StorageAdapter,
+  ctx: AuditContext,
+  collection: string,
+  action: TrailAction,
+  record: any | undefined,
+  reason: string,
+): Promise<void> {
+  if (!isPhiCollection(collection)) return;
+  await appendTrail(db, ctx, [{
+    action,
+    collection,
+    recordId: record?.id ?? null,
+    patientId: record ? patientIdOf(collection, record) ?? null : null,
+    outcome: 'denied',
+    details: reason,
+  }]);
+}
+
+function trailConditions(filters: TrailFilters): QueryCondition[] {
+  const where: QueryCondition[] = [];
+  if (filters.patientId) where.push({ field: 'patient_id', op: 'eq', value: filters.patientId });
+  if (filters.actor) {
+    where.push({ field: filters.actor.includes('@') ? 'user_email' : 'user_id', op: 'eq', value: filters.actor });
+  }
+  if (filters.action) where.push({ field: 'action', op: 'eq', value: filters.action });
+  if (filters.from) where.push({ field: 'logged_at', op: 'gte', value: filters.from });
+  if (filters.to) {
+    // A bare date means "through the end of that day".
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(filters.to) ? `${filters.to}T23:59:59.999Z` : filters.to;
+    where.push({ field: 'logged_at', op: 'lte', value: to });
+  }
+  return where;
+}
+
+/** Newest-first page of the trail for the admin view. */
+export async function queryTrail(db: StorageAdapter, filters: TrailFilters) {
+  return db.query<TrailEntry>(AUDIT_TRAIL, {
+    where: trailConditions(filters),
+    sort: [{ field: 'seq', direction: 'desc' }],
+    limit: filters.limit ?? 100,
+    cursor: filters.cursor,
+  });
+}
+
+/**
+ * The whole chain in seq order and the recorded head (null before the first
+ * append), read together so an append in between cannot make them disagree.
+ */
+export async function loadChain(db: StorageAdapter): Promise<{ entries: TrailEntry[]; head: TrailHead | null }> {
+  return db.transaction(async (tx: StorageTransaction) => {
+    const { data } = await tx.query<TrailEntry>(AUDIT_TRAIL, { sort: [{ field: 'seq', direction: 'asc' }] });
+    const head = ((await tx.find(AUDIT_TRAIL_HEAD, {}))[0] as TrailHead | undefined) ?? null;
+    return { entries: data, head };
+  });
+}
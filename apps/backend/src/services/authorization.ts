@@ -0,0 +1,612 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Backend authorization — declarative collection policies for /api/data.
+// Each collection maps a verb to the permissions that unlock it (any-of), plus
+// a row scope: patients see only their own PHI rows, staff only rows for the
+// entities they are linked to through entity_staff. Collections without a
+// policy are closed to everyone but super admins. Each entity_staff row is a
+// membership with its own role and permissions, so a clinician's access at one
+// entity says nothing about another; X-Active-Entity narrows a request to one.
+import type { StorageAdapter } from '@careconnect/db';
+
+export type Verb = 'read' | 'create' | 'update' | 'delete';
+
+/**
+ * Row scope applied after the permission check.
+ * - patient: PHI row keyed by patient_id (or id for `patients`).
+ * - entity:  operational row keyed by an entity field (beds, inventory).
+ * - owner:   row belongs to a user; holders of the verb's permission see all rows.
+ * - owner_entity: row belongs to a user and an entity (bookings); the owner,
+ *   or staff whose membership at the entity grants the verb.
+ * Verbs without a permission list are open to any session and are not scoped.
+ */
+export type RowScope = 'patient' | 'entity' | 'owner' | 'owner_entity';
+
+/** A field only some permissions may set; anyone allowed the write may still set the `allow` values. */
+export interface FieldRule {
+  permissions: string[];
+  allow?: unknown[];
+}
+
+export interface CollectionPolicy {
+  /** Any-of permission lists per verb. A missing verb means any authenticated user. */
+  read?: string[];
+  create?: string[];
+  update?: string[];
+  delete?: string[];
+  scope?: RowScope;
+  /** Field holding the owning user id when scope is 'owner'. */
+  ownerField?: string;
+  /** Fields an owner may not change on their own row without the update permission. */
+  protectedFields?: string[];
+  /** Fields that need a permission beyond the verb's, checked on create and update. */
+  fieldPermissions?: Record<string, FieldRule>;
+  /** Fields no one writes through /api/data, not even super admins (credentials have their own endpoints). */
+  lockedFields?: string[];
+  /** Platform permissions that read and update every row regardless of scope (e.g. verification reviewers). */
+  reviewers?: string[];
+  /**
+   * Write restriction that no permission (not even super admin) lifts:
+   * 'append' allows create only, 'none' leaves the collection to the backend.
+   */
+  writes?: 'append' | 'none';
+}
+
+/** A user's role and permission set at one entity. */
+export interface Membership {
+  role: string;
+  permissions: string[];
+}
+
+export interface Actor {
+  userId: string;
+  email: string;
+  userType: string;
+  /** Permissions in effect: the active entity's membership, or every role the user holds. */
+  permissions: string[];
+  /** Entities the actor works at; only the active entity when one is selected. */
+  entityIds: string[];
+  /** Role and permissions per entity (entity_staff rows plus users.entity_id). */
+  memberships: Record<string, Membership>;
+  /** Entity selected with X-Active-Entity, or null. */
+  activeEntityId: string | null;
+  /** Patient records owned by the actor (patients.user_id). */
+  patientIds: string[];
+  /** Patients linked to any of the actor's entities. */
+  linkedPatientIds: string[];
+  /** Entities each linked patient is linked through. */
+  linkedPatients: Record<string, string[]>;
+  /** Patients opened through an active break-the-glass grant: patient id -> grant id. Read-only. */
+  emergencyGrants: Record<string, string>;
+}
+
+const SUPER = '*';
+const PHI_READ = ['view_patient_data', 'manage_patients'];
+const CONTENT = { create: ['create_content'], update: ['update_content'], delete: ['delete_content'] };
+
+/** Rows a user keeps for themselves; `staff` may write anyone's. */
+const ownRows = (ownerField = 'user_id', staff: string[] = [SUPER]): CollectionPolicy => ({
+  create: [SUPER], update: staff, delete: staff, scope: 'owner', ownerField,
+});
+
+/** Own rows nobody else may read either; `staff` read and write anyone's. */
+const privateRows = (ownerField = 'user_id', staff: string[] = [SUPER]): CollectionPolicy => ({
+  ...ownRows(ownerField, staff), read: staff,
+});
+
+/** Fields that tie a record to an entity, in lookup order. */
+const ENTITY_FIELDS = ['entity_id', 'primary_entity_id', 'pharmacy_entity_id', 'from_entity_id', 'to_entity_id'];
+
+/** User types that are scoped to their own patient records rather than an entity. */
+const PATIENT_USER_TYPES = new Set(['patient', 'caregiver']);
+
+export const COLLECTION_POLICIES: Record<string, CollectionPolicy> = {
+  // Patient registry
+  patients: { read: PHI_READ, create: ['manage_patients'], update: ['manage_patients'], delete: [SUPER], scope: 'patient' },
+  patient_identifiers: { read: PHI_READ, create: ['manage_patients'], update: ['manage_patients'], delete: ['manage_patients'], scope: 'patient' },
+  patient_entity_links: { read: PHI_READ, create: ['manage_patients'], update: ['manage_patients'], delete: ['manage_patients'], scope: 'patient' },
+
+  // Clinical records
+  encounters: { read: PHI_READ, create: ['create_encounters'], update: ['manage_encounters'], delete: [SUPER], scope: 'patient' },
+  triage_notes: { read: PHI_READ, create: ['manage_encounters', 'record_vitals'], update: ['manage_encounters', 'record_vitals'], delete: [SUPER], scope: 'patient' },
+  vitals: { read: PHI_READ, create: ['record_vitals'], update: ['record_vitals'], delete: [SUPER], scope: 'patient' },
+  early_warning_scores: { read: PHI_READ, create: ['record_vitals'], update: ['record_vitals'], delete: [SUPER], scope: 'patient' },
+  conditions: { read: PHI_READ, create: ['manage_conditions'], update: ['manage_conditions'], delete: [SUPER], scope: 'patient' },
+  allergies: { read: PHI_READ, create: ['manage_conditions'], update: ['manage_conditions'], delete: [SUPER], scope: 'patient' },
+  care_plans: { read: PHI_READ, create: ['manage_care_plans'], update: ['manage_care_plans'], delete: [SUPER], scope: 'patient' },
+  consents: { read: PHI_READ, create: ['obtain_consents'], update: ['obtain_consents'], delete: [SUPER], scope: 'patient' },
+  access_grants: { read: [...PHI_READ, 'manage_access_grants'], create: ['manage_access_grants'], update: ['manage_access_grants'], delete: ['manage_access_grants'], scope: 'patient' },
+  referrals: { read: [...PHI_READ, 'manage_referrals'], create: ['create_referrals', 'manage_referrals'], update: ['create_referrals', 'manage_referrals'], delete: [SUPER], scope: 'patient' },
+
+  // Medications
+  medications: { read: [...PHI_READ, 'dispense_medications'], create: ['prescribe_medications'], update: ['prescribe_medications'], delete: [SUPER], scope: 'patient' },
+  medication_requests: { read: [...PHI_READ, 'dispense_medications'], create: ['prescribe_medications'], update: ['prescribe_medications', 'dispense_medications'], delete: [SUPER], scope: 'patient' },
+  medication_dispenses: { read: [...PHI_READ, 'dispense_medications'], create: ['dispense_medications'], update: ['dispense_medications'], delete: [SUPER], scope: 'patient' },
+  prescriptions: { read: [...PHI_READ, 'dispense_medications'], create: ['prescribe_medications'], update: ['prescribe_medications'], delete: [SUPER], scope: 'patient' },
+  medication_administrations: { read: [...PHI_READ, 'dispense_medications'], create: ['record_vitals'], update: ['record_vitals'], delete: [SUPER], scope: 'patient' },
+  pharmacy_inventory: { read: ['dispense_medications', 'manage_pharmacy_inventory'], create: ['manage_pharmacy_inventory'], update: ['manage_pharmacy_inventory', 'dispense_medications'], delete: ['manage_pharmacy_inventory'], scope: 'entity' },
+  pharmacy_orders: { read: ['dispense_medications', 'manage_pharmacy_inventory'], create: ['manage_pharmacy_inventory'], update: ['manage_pharmacy_inventory'], delete: ['manage_pharmacy_inventory'], scope: 'entity' },
+  // Platform-wide drug knowledge base used by the medication-safety checks; imported by platform admins.
+  drug_dictionaries: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+
+  // Diagnostics
+  lab_orders: { read: [...PHI_READ, 'view_lab_results'], create: ['order_labs'], update: ['order_labs', 'view_lab_results'], delete: [SUPER], scope: 'patient' },
+  lab_results: { read: [...PHI_READ, 'view_lab_results'], create: ['order_labs'], update: ['order_labs'], delete: [SUPER], scope: 'patient' },
+  imaging_orders: { read: [...PHI_READ, 'view_imaging_results'], create: ['order_imaging'], update: ['order_imaging'], delete: [SUPER], scope: 'patient' },
+
+  // Operations
+  bed_management: { read: [...PHI_READ, 'manage_beds'], create: ['manage_beds'], update: ['manage_beds'], delete: ['manage_beds'], scope: 'entity' },
+  billing_items: { read: ['process_billing', 'manage_insurance_claims'], create: ['process_billing'], update: ['process_billing'], delete: [SUPER], scope: 'patient' },
+  invoices: { read: ['process_billing', 'manage_insurance_claims', 'view_payments'], create: ['process_billing'], update: ['process_billing'], delete: [SUPER], scope: 'patient' },
+  insurance_claims: { read: ['process_billing', 'manage_insurance_claims'], create: ['manage_insurance_claims'], update: ['manage_insurance_claims'], delete: [SUPER], scope: 'patient' },
+
+  // Platform
+  // Memberships carry per-entity roles and permissions; changed through /api/hms/staff only.
+  entity_staff: { create: [SUPER], update: [SUPER], delete: [SUPER], scope: 'entity' },
+  audit_logs: { read: ['audit_logs'], writes: 'append' },
+  access_logs: { read: ['audit_logs', 'manage_access_grants'], writes: 'append' },
+  audit_trail: { read: ['audit_logs'], writes: 'none' },
+  audit_trail_head: { read: ['audit_logs'], writes: 'none' },
+  // Queued by break-the-glass access; completed through /api/hms/break-glass/reviews.
+  break_glass_reviews: { read: ['audit_logs', 'update_entity'], create: [SUPER], update: [SUPER], delete: [SUPER], scope: 'entity' },
+  // Wrapped PHI data keys; managed by phi-encryption.ts and keys:rotate only.
+  encryption_keys: { read: [SUPER], writes: 'none' },
+  // Keyed-hash patient search terms; maintained by patient-search.ts.
+  patient_search_index: { read: [SUPER], writes: 'none' },
+  // Sign-in throttling state and remembered devices; maintained by login-throttle.ts.
+  login_attempts: { read: [SUPER], writes: 'none' },
+  login_devices: { read: [SUPER], writes: 'none' },
+  // Sessions and password reset tokens hold token hashes; users see their devices via /api/auth/sessions.
+  session_tokens: { read: [SUPER], writes: 'none' },
+  // Queued by the registration duplicate check and merges; worked through /api/hms/patients/*.
+  patient_duplicate_flags: { read: ['manage_patients'], create: [SUPER], update: [SUPER], delete: [SUPER], scope: 'entity' },
+  patient_merges: { read: [SUPER], writes: 'none' },
+  // Opened by patients through /api/patient/access-report; worked by entity admins.
+  access_incidents: { read: ['audit_logs', 'update_entity'], create: [SUPER], update: ['audit_logs', 'update_entity'], delete: [SUPER], scope: 'entity' },
+  // Entity identity providers; managed through /api/hms/sso so client secrets are sealed.
+  sso_connections: { read: ['update_entity'], create: [SUPER], update: [SUPER], delete: [SUPER], scope: 'entity' },
+  // IdP subject links and pending SSO sign-ins; maintained by sso.ts.
+  sso_identities: { read: [SUPER], writes: 'none' },
+  sso_states: { read: [SUPER], writes: 'none' },
+  // Email-domain ownership proofs; verified through /api/hms/sso/domains only.
+  sso_domains: { read: ['update_entity'], writes: 'none', scope: 'entity' },
+  // Invitation tokens (hashed); issued and accepted through staff.ts.
+  staff_invitations: { read: [SUPER], writes: 'none' },
+  // Licences, certifications and insurance with their scans; submitted and reviewed through credentials.ts.
+  staff_credentials: { read: [SUPER], writes: 'none' },
+  credential_documents: { read: [SUPER], writes: 'none' },
+
+  // Entities: owners and their staff edit their own; verification is for platform reviewers.
+  entities: {
+    create: ['create_entity'], update: ['update_entity'], delete: [SUPER],
+    scope: 'entity', reviewers: ['verify_entity'],
+    fieldPermissions: {
+      verification_status: { permissions: ['verify_entity'], allow: ['pending', 'under_review', 'documents_submitted'] },
+      verified_at: { permissions: ['verify_entity'] },
+      badges: { permissions: ['verify_entity'] },
+      is_featured: { permissions: [SUPER] },
+      owner_user_id: { permissions: [SUPER] },
+      rating: { permissions: [SUPER] },
+      review_count: { permissions: [SUPER] },
+      subscription_tier: { permissions: [SUPER] },
+    },
+  },
+  entity_verification: { create: ['update_entity'], update: ['verify_entity'], delete: [SUPER], scope: 'entity', reviewers: ['verify_entity'] },
+  verification_requests: { create: ['update_entity'], update: ['verify_entity'], delete: [SUPER], scope: 'entity', reviewers: ['verify_entity'] },
+  verification_documents: { create: ['update_entity'], update: ['verify_entity'], delete: [SUPER], scope: 'entity', reviewers: ['verify_entity'] },
+  verification_queue: { create: ['update_entity'], update: ['verify_entity'], delete: [SUPER], scope: 'entity', reviewers: ['verify_entity'] },
+  entity_services: { create: ['update_entity'], update: ['update_entity'], delete: ['update_entity'], scope: 'entity' },
+  entity_locations: { create: ['update_entity'], update: ['update_entity'], delete: ['update_entity'], scope: 'entity' },
+  appointment_slots: { create: ['update_entity'], update: ['update_entity'], delete: ['update_entity'], scope: 'entity' },
+  entity_specialties: { create: ['update_entity'], update: ['update_entity'], delete: ['update_entity'], scope: 'entity' },
+  // Staff see their own shifts; entity admins manage everyone's.
+  staff_schedules: {
+    read: ['update_entity'], create: ['update_entity'], update: ['update_entity'], delete: ['update_entity'],
+    scope: 'owner_entity', ownerField: 'user_id',
+  },
+  documents: { read: [...PHI_READ, 'view_imaging_results'], create: ['order_imaging', 'manage_encounters'], update: ['order_imaging', 'manage_encounters'], delete: [SUPER], scope: 'patient' },
+  // Platform configuration, including the mandatory-MFA policy.
+  system_settings: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+  feature_flags: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+  specialties: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+  languages: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+  insurance_providers: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+  user_roles: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+  permissions: { create: [SUPER], update: [SUPER], delete: [SUPER] },
+
+  // Bookings and commerce: the customer books, the entity's staff manage.
+  bookings: {
+    create: ['update_entity'], update: ['update_entity', 'manage_encounters'], delete: [SUPER],
+    scope: 'owner_entity', ownerField: 'user_id',
+    fieldPermissions: { payment_status: { permissions: [SUPER], allow: ['pending'] } },
+  },
+  orders: { ...ownRows(), fieldPermissions: { payment_status: { permissions: [SUPER], allow: ['pending'] } } },
+  order_items: ownRows(),
+  donations: { ...ownRows(), fieldPermissions: { payment_status: { permissions: [SUPER], allow: ['pending'] } } },
+  carts: ownRows(),
+  user_carts: privateRows(),
+  // Queued by the booking flow at booking time; the entity's staff read and manage them.
+  booking_reminders: { read: ['update_entity'], update: ['update_entity'], delete: ['update_entity'], scope: 'entity' },
+  // Money moves through /api/payments and billing; gateway state is the backend's.
+  payments: { create: ['process_billing'], update: ['process_billing'], delete: [SUPER], scope: 'entity' },
+  payment_intents: { writes: 'none' },
+  payment_methods: { writes: 'none' },
+  subscriptions: { writes: 'none' },
+  disbursements: { writes: 'none' },
+  chargebacks: { writes: 'none' },
+  webhook_events: { writes: 'none' },
+  booking_payments: { read: ['process_billing', 'view_payments'], writes: 'none', scope: 'entity' },
+
+  // Personal rows
+  // Anyone may notify anyone; only the recipient marks read or dismisses.
+  notifications: { update: [SUPER], delete: [SUPER], scope: 'owner', ownerField: 'user_id' },
+  user_preferences: privateRows(),
+  bookmarks: privateRows(),
+  likes: ownRows(),
+  job_saved: privateRows(),
+  job_alerts: privateRows(),
+  course_enrollments: ownRows(),
+  course_progress: ownRows(),
+  certificates: ownRows(),
+  consent_records: privateRows(),
+  unsubscribe_records: privateRows(),
+  slot_locks: ownRows(),
+  encrypted_keys: ownRows(),
+  tool_results: privateRows(),
+  messages: privateRows(),
+  conversations: privateRows(),
+  ai_chat_sessions: privateRows('userId'),
+  chat_sessions: privateRows('userId'),
+  ai_consultations: privateRows(),
+  ai_family_genetics: privateRows(),
+  ai_health_goals: privateRows(),
+  ai_photo_analyses: privateRows(),
+  ai_chatbot_support: privateRows(),
+  ai_care_coordination: privateRows(),
+  data_export_requests: privateRows('user_id', ['view_user_data']),
+  data_deletion_requests: privateRows('user_id', ['view_user_data']),
+  // Applicants see their own; employers review them with their job postings.
+  job_applications: privateRows('applicant_id', ['update_content']),
+  // Outbound mail queues; sent by the cron job.
+  scheduled_emails: { read: [SUPER], update: [SUPER], delete: [SUPER] },
+  newsletter_subscriptions: { read: [SUPER], update: [SUPER], delete: [SUPER] },
+  // AI output shared by everyone who asks the same question (not personal).
+  ai_care_paths: { update: [SUPER], delete: [SUPER] },
+  ai_lab_explanations: { update: [SUPER], delete: [SUPER] },
+  ai_procedure_navigators: { update: [SUPER], delete: [SUPER] },
+  // Generated from a user's own health details by /api/ai; kept by the backend only.
+  ai_emergency_plans: { read: [SUPER], writes: 'none' },
+  ai_medical_timelines: { read: [SUPER], writes: 'none' },
+  ai_cultural_guidance: { read: [SUPER], writes: 'none' },
+
+  // Community posts: authors edit their own, moderators any.
+  forum_questions: { ...ownRows('author_id', ['moderate_content']), create: undefined },
+  forum_answers: { ...ownRows('author_id', ['moderate_content']), create: undefined },
+  forum_posts: { ...ownRows('userId', ['moderate_content']), create: undefined },
+  forum_replies: { ...ownRows('userId', ['moderate_content']), create: undefined },
+  comments: { ...ownRows('user_id', ['moderate_content']), create: undefined },
+  reviews: { ...ownRows('user_id', ['moderate_content']), create: undefined },
+  ratings: { ...ownRows('user_id', ['moderate_content']), create: undefined },
+  forum_interactions: { ...ownRows('user_id', ['moderate_content']), create: undefined },
+  moderation_queue: { update: ['moderate_content'], delete: ['moderate_content'] },
+  analytics_events: { writes: 'append' },
+  search_analytics: { writes: 'append' },
+  error_logs: { read: [SUPER], writes: 'append' },
+
+  // Editorial content
+  blog_posts: CONTENT,
+  podcasts: CONTENT,
+  podcast_series: CONTENT,
+  podcast_episodes: CONTENT,
+  podcast_rss_feeds: CONTENT,
+  news_articles: CONTENT,
+  news_sources: CONTENT,
+  weekly_tips: CONTENT,
+  timeless_facts: CONTENT,
+  health_tools: CONTENT,
+  courses: CONTENT,
+  course_modules: CONTENT,
+  course_lessons: CONTENT,
+  causes: CONTENT,
+  cause_updates: CONTENT,
+  products: CONTENT,
+  tool_versions: CONTENT,
+  course_quizzes: CONTENT,
+  services: CONTENT,
+  job_postings: CONTENT,
+  forum_categories: { create: ['moderate_content'], update: ['moderate_content'], delete: ['moderate_content'] },
+  job_categories: { create: ['moderate_content'], update: ['moderate_content'], delete: ['moderate_content'] },
+
+  users: {
+    create: [SUPER], update: ['update_user'], delete: ['delete_user'],
+    scope: 'owner', ownerField: 'id',
+    protectedFields: [
+      'user_type', 'permissions', 'entity_id', 'is_verified', 'is_active', 'password_hash', 'email',
+      'mfa_enabled', 'mfa_secret', 'mfa_backup_codes',
+    ],
+    // update_user (support agents) covers profile and status fields, not roles or sign-in identity.
+    fieldPermissions: {
+      user_type: { permissions: [SUPER] },
+      permissions: { permissions: [SUPER] },
+      entity_id: { permissions: [SUPER] },
+      email: { permissions: [SUPER] },
+    },
+    lockedFields: ['password_hash', 'mfa_enabled', 'mfa_secret', 'mfa_backup_codes'],
+  },
+  profiles: { update: ['update_user'], delete: ['delete_user'], scope: 'owner', ownerField: 'user_id', protectedFields: ['user_id'] },
+};
+
+const HMS_ADMIN = ['manage_patients', 'view_patient_data', 'create_encounters', 'manage_encounters', 'manage_care_plans', 'manage_referrals', 'manage_beds', 'process_billing', 'manage_insurance_claims', 'obtain_consents', 'manage_access_grants', 'view_analytics'];
+const ENTITY_OWNER = ['create_entity', 'update_entity', 'create_content', 'update_content', 'view_payments'];
+
+/** Roles an entity can give its staff through a membership; platform roles are not among them. */
+export const STAFF_ROLES = ['hospital_admin', 'practitioner', 'physician', 'nurse', 'pharmacist', 'lab_tech', 'imaging_tech', 'billing_clerk'];
+
+/** Default permissions granted to a user_type at registration. */
+export function getDefaultPermissions(userType: string): string[] {
+  const perms: Record<string, string[]> = {
+    super_admin: [SUPER],
+    health_center: [...ENTITY_OWNER, ...HMS_ADMIN],
+    pharmacy: [...ENTITY_OWNER, 'view_patient_data', 'dispense_medications', 'manage_pharmacy_inventory'],
+    practitioner: [...ENTITY_OWNER, ...HMS_ADMIN, 'record_vitals', 'manage_conditions', 'prescribe_medications', 'order_labs', 'view_lab_results', 'order_imaging', 'view_imaging_results', 'create_referrals'],
+    hospital_admin: HMS_ADMIN,
+    physician: ['manage_patients', 'view_patient_data', 'create_encounters', 'manage_encounters', 'record_vitals', 'manage_conditions', 'prescribe_medications', 'order_labs', 'view_lab_results', 'order_imaging', 'view_imaging_results', 'manage_care_plans', 'create_referrals', 'obtain_consents'],
+    nurse: ['view_patient_data', 'create_encounters', 'manage_encounters', 'record_vitals', 'manage_conditions', 'manage_care_plans', 'obtain_consents'],
+    pharmacist: ['view_patient_data', 'dispense_medications', 'manage_pharmacy_inventory'],
+    lab_tech: ['view_patient_data', 'view_lab_results', 'order_labs'],
+    imaging_tech: ['view_patient_data', 'view_imaging_results', 'order_imaging'],
+    billing_clerk: ['view_patient_data', 'process_billing', 'manage_insurance_claims', 'view_payments'],
+    patient: ['view_patient_data', 'manage_access_grants'],
+    caregiver: ['view_patient_data'],
+    compliance_officer: ['verify_entity', 'view_user_data', 'moderate_content', 'view_analytics', 'audit_logs'],
+    moderator: ['moderate_content', 'update_content', 'delete_content'],
+    support_agent: ['view_user_data', 'update_user', 'view_payments'],
+    public_user: [],
+  };
+  return perms[userType] || [];
+}
+
+/** Rows still granting access; invited, suspended and removed members have none. */
+export function isActiveMembership(row: any): boolean {
+  return !row.status || row.status === 'active';
+}
+
+/**
+ * A membership's permissions: its own list when set, else its role's
+ * defaults, else (roles such as privacy_officer) the user's own. Never super admin.
+ */
+function membershipPermissions(row: any, userPermissions: string[]): string[] {
+  const defaults = getDefaultPermissions(row.role);
+  const permissions = Array.isArray(row.permissions) && row.permissions.length ? row.permissions : defaults.length ? defaults : userPermissions;
+  return permissions.filter((p: string) => p !== SUPER);
+}
+
+function denyActiveEntity(): never {
+  throw Object.assign(new Error('You are not an active member of the selected entity'), { status: 403 });
+}
+
+/**
+ * Build the actor for a session: stored permissions merged with the role
+ * defaults, the per-entity memberships, and the patient links used for row
+ * scoping. With `activeEntityId` the actor is narrowed to that membership;
+ * throws 403 when the user holds none there.
+ */
+export async function loadActor(db: StorageAdapter, userId: string, activeEntityId?: string | null): Promise<Actor | null> {
+  const user = (await db.findById('users', userId)) as any;
+  if (!user || user.is_active === false) return null;
+
+  const userType = user.user_type || 'public_user';
+  const userPermissions = Array.from(new Set([...(user.permissions || []), ...getDefaultPermissions(userType)]));
+  const superAdmin = userPermissions.includes(SUPER);
+
+  const memberships: Record<string, Membership> = {};
+  if (user.entity_id) memberships[user.entity_id] = { role: userType, permissions: userPermissions.filter((p) => p !== SUPER) };
+  for (const row of await db.find('entity_staff', { user_id: userId })) {
+    if (!isActiveMembership(row)) continue;
+    memberships[row.entity_id] = { role: row.role || userType, permissions: membershipPermissions(row, userPermissions) };
+  }
+
+  let entityIds = Object.keys(memberships);
+  let permissions = Array.from(new Set([...userPermissions, ...entityIds.flatMap((e) => memberships[e].permissions)]));
+  if (activeEntityId && !superAdmin) {
+    if (!memberships[activeEntityId]) denyActiveEntity();
+    entityIds = [activeEntityId];
+    permissions = memberships[activeEntityId].permissions;
+  }
+
+  const patientIds = (await db.find('patients', { user_id: userId })).map((p: any) => p.id);
+
+  const linkedPatients: Record<string, string[]> = {};
+  const link = (patientId: string, entityId: string) => {
+    const entities = (linkedPatients[patientId] ||= []);
+    if (!entities.includes(entityId)) entities.push(entityId);
+  };
+  for (const entityId of entityIds) {
+    const links = await db.find('patient_entity_links', { entity_id: entityId });
+    for (const l of links) if (l.status !== 'inactive') link(l.patient_id, entityId);
+    const registered = await db.find('patients', { primary_entity_id: entityId });
+    for (const p of registered) link(p.id, entityId);
+  }
+
+  const now = new Date().toISOString();
+  const emergencyGrants: Record<string, string> = {};
+  for (const g of await db.find('access_grants', { grantee_id: userId, break_glass: true, status: 'active' })) {
+    if (g.expires_at && g.expires_at > now) emergencyGrants[g.patient_id] = g.id;
+  }
+
+  return {
+    userId,
+    email: user.email,
+    userType,
+    permissions,
+    entityIds,
+    memberships,
+    activeEntityId: activeEntityId && !superAdmin ? activeEntityId : null,
+    patientIds,
+    linkedPatientIds: Object.keys(linkedPatients),
+    linkedPatients,
+    emergencyGrants,
+  };
+}
+
+export function isSuperAdmin(actor: Actor): boolean {
+  return actor.permissions.includes(SUPER);
+}
+
+export function getPolicy(collection: string): CollectionPolicy | undefined {
+  return COLLECTION_POLICIES[collection];
+}
+
+/** True if the collection's write restriction rules out the verb for everyone. */
+export function isWriteLocked(collection: string, verb: Verb): boolean {
+  const writes = getPolicy(collection)?.writes;
+  if (!writes || verb === 'read') return false;
+  return writes === 'none' || verb !== 'create';
+}
+
+/** True if the actor reviews every row of the collection for this verb. */
+function isReviewer(actor: Actor, policy: CollectionPolicy | undefined, verb: Verb): boolean {
+  if (verb !== 'read' && verb !== 'update') return false;
+  return !!policy?.reviewers?.some((p) => actor.permissions.includes(p));
+}
+
+/**
+ * True if the actor holds one of the permissions the verb requires. A
+ * collection without a policy is closed to everyone but super admins. Anyone
+ * may read an owner-scoped collection; canAccessRecord narrows it to their rows.
+ */
+export function hasPermission(actor: Actor, collection: string, verb: Verb): boolean {
+  if (isSuperAdmin(actor)) return true;
+  const policy = getPolicy(collection);
+  if (!policy) return false;
+  if (isReviewer(actor, policy, verb)) return true;
+  if (verb === 'read' && isOwnerScoped(collection, 'read')) return true;
+  const required = policy[verb];
+  if (!required) return true;
+  return required.some((p) => p !== SUPER && actor.permissions.includes(p));
+}
+
+/**
+ * True where a user may write their own rows without the verb's permission.
+ * Rows keyed by their own id (users) cannot be created that way.
+ */
+export function isOwnerScoped(collection: string, verb: Verb): boolean {
+  const policy = getPolicy(collection);
+  if (policy?.scope !== 'owner' && policy?.scope !== 'owner_entity') return false;
+  return verb !== 'create' || policy.ownerField !== 'id';
+}
+
+/** True if the actor's membership at `entityId` grants any of `permissions`. */
+export function hasEntityPermission(actor: Actor, entityId: string, permissions: string | string[]): boolean {
+  if (isSuperAdmin(actor)) return true;
+  if (!actor.entityIds.includes(entityId)) return false;
+  const held = actor.memberships[entityId]?.permissions || [];
+  return (Array.isArray(permissions) ? permissions : [permissions]).some((p) => p !== SUPER && held.includes(p));
+}
+
+export function patientIdOf(collection: string, record: any): string | undefined {
+  return collection === 'patients' ? record.id : record.patient_id;
+}
+
+function entityIdsOf(collection: string, record: any): string[] {
+  if (collection === 'entities') return record.id ? [record.id] : [];
+  return ENTITY_FIELDS.map((f) => record[f]).filter(Boolean);
+}
+
+/** Row-level check: may the actor touch this particular record? */
+export function canAccessRecord(actor: Actor, collection: string, verb: Verb, record: any): boolean {
+  if (isSuperAdmin(actor)) return true;
+  const policy = getPolicy(collection);
+  if (!policy?.scope || !record) return true;
+  // Verbs left open by the policy are not row-scoped either.
+  const required = policy[verb];
+  if (!required) return true;
+  if (isReviewer(actor, policy, verb)) return true;
+
+  if (policy.scope === 'owner') {
+    if (required.some((p) => actor.permissions.includes(p))) return true;
+    return record[policy.ownerField || 'user_id'] === actor.userId;
+  }
+
+  if (policy.scope === 'owner_entity') {
+    if (record[policy.ownerField || 'user_id'] === actor.userId) return true;
+    return entityIdsOf(collection, record).some((e) => hasEntityPermission(actor, e, required));
+  }
+
+  if (policy.scope === 'patient' && PATIENT_USER_TYPES.has(actor.userType)) {
+    const patientId = patientIdOf(collection, record);
+    return !!patientId && actor.patientIds.includes(patientId);
+  }
+
+  if (policy.scope === 'patient' && verb === 'read') {
+    const patientId = patientIdOf(collection, record);
+    if (patientId && actor.emergencyGrants[patientId]) return true;
+  }
+
+  // A new entity has no members yet; create_entity alone decides.
+  if (collection === 'entities' && verb === 'create') return true;
+
+  // Staff rows: the membership at the record's entity must itself grant the verb.
+  const entities = entityIdsOf(collection, record);
+  if (entities.length > 0) return entities.some((e) => hasEntityPermission(actor, e, required));
+  if (policy.scope === 'patient') {
+    const patientId = patientIdOf(collection, record);
+    return !!patientId && (actor.linkedPatients[patientId] || []).some((e) => hasEntityPermission(actor, e, required));
+  }
+  return false;
+}
+
+/** Drop the rows of a list read that fall outside the actor's scope. */
+export function filterReadable(actor: Actor, collection: string, records: any[]): any[] {
+  return records.filter((r) => canAccessRecord(actor, collection, 'read', r));
+}
+
+/**
+ * Fields of a create or update body the actor may not set: locked fields,
+ * protected fields on a row they only own, and fields whose permission they
+ * lack. Returns the offending field names (empty when the write is allowed).
+ */
+export function protectedFieldViolations(actor: Actor, collection: string, body: Record<string, any>): string[] {
+  const policy = getPolicy(collection);
+  if (!policy) return [];
+  const locked = (policy.lockedFields || []).filter((f) => f in body);
+  if (isSuperAdmin(actor)) return locked;
+  const blocked = new Set(locked);
+  if (policy.protectedFields && !hasPermission(actor, collection, 'update')) {
+    for (const f of policy.protectedFields) if (f in body) blocked.add(f);
+  }
+  for (const [field, rule] of Object.entries(policy.fieldPermissions || {})) {
+    if (!(field in body) || rule.allow?.includes(body[field])) continue;
+    if (!rule.permissions.some((p) => p !== SUPER && actor.permissions.includes(p))) blocked.add(field);
+  }
+  return [...blocked];
+}
+
+/**
+ * Protected fields that list queries may not filter or sort by: whether a row
+ * comes back would otherwise reveal them. The owner field stays queryable; row
+ * scope already restricts it.
+ */
+export function unqueryableFields(collection: string): string[] {
+  const policy = getPolicy(collection);
+  return (policy?.protectedFields || []).filter((f) => f !== policy?.ownerField);
+}
+
+/** Record a denied request in audit_logs. */
+export async function recordDenial(
+  db: StorageAdapter,
+  actor: { userId: string; email: string } | null,
+  collection: string,
+  verb: Verb,
+  recordId: string | undefined,
+  reason: string,
+): Promise<void> {
+  await db.insert('audit_logs', {
+    action: 'access_denied',
+    entity_type: collection,
+    entity_id: recordId || null,
+    user_id: actor?.userId || null,
+    user_email: actor?.email || null,
+    details: `Denied ${verb} on ${collection}${recordId ? `/${recordId}` : ''}: ${reason}`,
+    created_at: new Date().toISOString(),
+  });
+}
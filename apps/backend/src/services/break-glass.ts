@@ -0,0 +1,267 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Break-the-glass emergency access. A clinician states a reason and receives a
+// time-boxed, read-only grant to a patient outside their care scope. The grant
+// is an access_grants row (break_glass: true), so loadActor and the patient's
+// access report see it. Accesses under it are flagged in the audit trail, the
+// patient and the entity's privacy officer are notified, and a retrospective
+// review is queued in break_glass_reviews.
+import type { StorageAdapter } from '@careconnect/db';
+import { appendTrail, emergencyDetails, type AuditContext } from './audit-trail.ts';
+import { hasEntityPermission, type Actor } from './authorization.ts';
+import { escapeHtml, scheduleEmail } from './email.ts';
+
+export const BREAK_GLASS_REVIEWS = 'break_glass_reviews';
+
+const DEFAULT_MINUTES = 60;
+const MAX_MINUTES = Number(process.env.BREAK_GLASS_MAX_MINUTES || 240);
+const MIN_REASON_LENGTH = 15;
+/** Reviews are due this long after the grant ends. */
+const REVIEW_DUE_HOURS = 72;
+const CLINICAL_PERMISSIONS = ['view_patient_data', 'manage_patients'];
+const REVIEW_PERMISSIONS = ['audit_logs', 'update_entity'];
+const NON_CLINICAL_USER_TYPES = new Set(['patient', 'caregiver', 'public_user']);
+
+export interface BreakGlassRequest {
+  patient_id?: string;
+  patient_code?: string;
+  reason?: string;
+  duration_minutes?: number;
+  entity_id?: string;
+}
+
+export interface BreakGlassReview {
+  id?: string;
+  grant_id: string;
+  patient_id: string;
+  entity_id: string | null;
+  clinician_id: string;
+  clinician_email: string;
+  reason: string;
+  granted_at: string;
+  expires_at: string;
+  due_at: string;
+  status: 'pending' | 'completed';
+  outcome?: 'appropriate' | 'inappropriate';
+  reviewer_id?: string;
+  review_notes?: string;
+  reviewed_at?: string;
+}
+
+function fail(message: string, status: number): never {
+  throw Object.assign(new Error(message), { status });
+}
+
+function isActive(grant: any, now = new Date().toISOString()): boolean {
+  return grant.status === 'active' && (!grant.expires_at || grant.expires_at > now);
+}
+
+/** Privacy officers at the entity; the entity owner when none is assigned. */
+async function privacyOfficers(db: StorageAdapter, entityId: string | null): Promise<string[]> {
+  if (!entityId) return [];
+  const staff = await db.find('entity_staff', { entity_id: entityId, role: 'privacy_officer' });
+  const officers = staff.filter((s: any) => s.status !== 'removed').map((s: any) => s.user_id);
+  if (officers.length > 0) return officers;
+  const entity = (await db.findById('entities', entityId)) as any;
+  return entity?.owner_user_id ? [entity.owner_user_id] : [];
+}
+
+/** In-app notification plus email. Messages carry the free-text reason, so the email HTML is escaped. */
+async function notify(db: StorageAdapter, userId: string, title: string, message: string, data: Record<string, any>): Promise<void> {
+  await db.insert('notifications', {
+    user_id: userId,
+    type: 'break_glass_access',
+    title,
+    message,
+    data,
+    is_read: false,
+    created_at: new Date().toISOString(),
+  });
+  const user = (await db.findById('users', userId)) as any;
+  if (!user?.email) return;
+  await scheduleEmail(db, {
+    to: user.email,
+    subject: title,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #b91c1c;">${escapeHtml(title)}</h2>
+        <p>${escapeHtml(message)}</p>
+        <p style="color: #6b7280; font-size: 12px; margin-top: 24px;">Sent by CareConnect.</p>
+      </div>
+    `,
+    text: message,
+    scheduled_for: new Date().toISOString(),
+  });
+}
+
+/**
+ * Open a break-the-glass grant for the actor. Rejected when the patient is
+ * already in the actor's scope; an existing active grant is returned as is.
+ */
+export async function requestBreakGlass(
+  db: StorageAdapter,
+  actor: Actor,
+  audit: AuditContext,
+  body: BreakGlassRequest,
+): Promise<{ grant: any; review: BreakGlassReview | null }> {
+  if (NON_CLINICAL_USER_TYPES.has(actor.userType) || !CLINICAL_PERMISSIONS.some((p) => actor.permissions.includes(p))) {
+    fail('Only clinical staff can use emergency access', 403);
+  }
+  const reason = String(body.reason || '').trim();
+  if (reason.length < MIN_REASON_LENGTH) fail(`reason must be at least ${MIN_REASON_LENGTH} characters`, 422);
+  const minutes = body.duration_minutes === undefined ? DEFAULT_MINUTES : Number(body.duration_minutes);
+  if (!Number.isInteger(minutes) || minutes < 5 || minutes > MAX_MINUTES) {
+    fail(`duration_minutes must be between 5 and ${MAX_MINUTES}`, 422);
+  }
+
+  const patient = body.patient_id
+    ? ((await db.findById('patients', body.patient_id)) as any)
+    : body.patient_code
+      ? ((await db.find('patients', { patient_code: body.patient_code }))[0] as any)
+      : fail('patient_id or patient_code is required', 422);
+  if (!patient) fail('Patient not found', 404);
+  if (actor.patientIds.includes(patient.id) || actor.linkedPatientIds.includes(patient.id)) {
+    fail('Patient is already in your care scope; emergency access is not needed', 409);
+  }
+
+  const existing = (await db.find('access_grants', { patient_id: patient.id, grantee_id: actor.userId, break_glass: true }))
+    .find((g: any) => isActive(g));
+  if (existing) return { grant: existing, review: null };
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + minutes * 60_000).toISOString();
+  const entityId = body.entity_id && actor.entityIds.includes(body.entity_id) ? body.entity_id : actor.entityIds[0] || null;
+  const grant = await db.insert('access_grants', {
+    patient_id: patient.id,
+    entity_id: entityId,
+    grantee_type: 'healthcare_provider',
+    grantee_id: actor.userId,
+    grantee_name: actor.email,
+    access_level: 'emergency_only',
+    scope: ['all'],
+    can_view_records: true,
+    can_schedule_appointments: false,
+    can_receive_notifications: false,
+    can_communicate_with_providers: false,
+    granted_at: now.toISOString(),
+    expires_at: expiresAt,
+    pin_required: false,
+    status: 'active',
+    emergency_only: true,
+    require_patient_approval: false,
+    break_glass: true,
+    break_glass_reason: reason,
+    granted_by: actor.userId,
+  });
+
+  await appendTrail(db, audit, [{
+    action: 'create',
+    collection: 'access_grants',
+    recordId: grant.id,
+    patientId: patient.id,
+    details: emergencyDetails(grant.id, reason),
+  }]);
+
+  const review = (await db.insert(BREAK_GLASS_REVIEWS, {
+    grant_id: grant.id,
+    patient_id: patient.id,
+    entity_id: entityId,
+    clinician_id: actor.userId,
+    clinician_email: actor.email,
+    reason,
+    granted_at: grant.granted_at,
+    expires_at: expiresAt,
+    due_at: new Date(new Date(expiresAt).getTime() + REVIEW_DUE_HOURS * 3_600_000).toISOString(),
+    status: 'pending',
+  })) as BreakGlassReview;
+
+  const until = new Date(expiresAt).toLocaleString();
+  if (patient.user_id) {
+    await notify(db, patient.user_id, 'Emergency access to your health record',
+      `A clinician (${actor.email}) used emergency access to open your record until ${until}. Reason given: "${reason}". ` +
+      'You can see everything they viewed under Privacy & Consents, and report it if it looks wrong.',
+      { grant_id: grant.id, patient_id: patient.id });
+  }
+  for (const officer of await privacyOfficers(db, entityId)) {
+    await notify(db, officer, 'Break-the-glass access needs review',
+      `${actor.email} used emergency access to a patient outside their care scope until ${until}. Reason: "${reason}". ` +
+      `A retrospective review is due by ${new Date(review.due_at).toLocaleDateString()}.`,
+      { grant_id: grant.id, review_id: review.id, patient_id: patient.id });
+  }
+
+  return { grant, review };
+}
+
+/** End a grant before it expires. Only the clinician who opened it (or a super admin) may. */
+export async function endBreakGlass(db: StorageAdapter, actor: Actor, grantId: string): Promise<any> {
+  const grant = (await db.findById('access_grants', grantId)) as any;
+  if (!grant || !grant.break_glass) fail('Emergency access grant not found', 404);
+  if (grant.grantee_id !== actor.userId && !actor.permissions.includes('*')) fail('Forbidden', 403);
+  if (!isActive(grant)) return grant;
+  return db.update('access_grants', grantId, { status: 'expired', ended_at: new Date().toISOString() });
+}
+
+function canReview(actor: Actor, review: BreakGlassReview): boolean {
+  if (actor.permissions.includes('*')) return true;
+  if (review.clinician_id === actor.userId) return false;
+  return !!review.entity_id && hasEntityPermission(actor, review.entity_id, REVIEW_PERMISSIONS);
+}
+
+/** Reviews the actor may work on, oldest due first. */
+export async function listReviews(db: StorageAdapter, actor: Actor, status?: string): Promise<BreakGlassReview[]> {
+  const reviews = (await db.find(BREAK_GLASS_REVIEWS, status ? { status } : {})) as BreakGlassReview[];
+  return reviews.filter((r) => canReview(actor, r)).sort((a, b) => a.due_at.localeCompare(b.due_at));
+}
+
+/**
+ * Record the retrospective review. An "inappropriate" outcome also revokes
+ * the grant if it is still running.
+ */
+export async function completeReview(
+  db: StorageAdapter,
+  actor: Actor,
+  reviewId: string,
+  body: { outcome?: string; notes?: string },
+): Promise<BreakGlassReview> {
+  const review = (await db.findById(BREAK_GLASS_REVIEWS, reviewId)) as BreakGlassReview | null;
+  if (!review) fail('Review not found', 404);
+  if (!canReview(actor, review)) fail('Forbidden', 403);
+  if (review.status === 'completed') fail('Review already completed', 409);
+  if (body.outcome !== 'appropriate' && body.outcome !== 'inappropriate') fail("outcome must be 'appropriate' or 'inappropriate'", 422);
+
+  if (body.outcome === 'inappropriate') {
+    const grant = (await db.findById('access_grants', review.grant_id)) as any;
+    if (grant && isActive(grant)) {
+      await db.update('access_grants', grant.id, {
+        status: 'revoked',
+        revoked_by: actor.userId,
+        revoked_at: new Date().toISOString(),
+        revoke_reason: 'Break-the-glass review found the access inappropriate',
+      });
+    }
+  }
+  return (await db.update(BREAK_GLASS_REVIEWS, reviewId, {
+    status: 'completed',
+    outcome: body.outcome,
+    review_notes: body.notes || '',
+    reviewer_id: actor.userId,
+    reviewed_at: new Date().toISOString(),
+  })) as BreakGlassReview;
+}
+
+/** Cron: mark lapsed break-the-glass grants expired. */
+export async function expireBreakGlassGrants(db: StorageAdapter): Promise<{ expired: number; errors: string[] }> {
+  const errors: string[] = [];
+  let expired = 0;
+  const now = new Date().toISOString();
+  const grants = await db.find('access_grants', { break_glass: true, status: 'active' });
+  for (const grant of grants) {
+    if (!grant.expires_at || grant.expires_at > now) continue;
+    try {
+      await db.update('access_grants', grant.id, { status: 'expired' });
+      expired++;
+    } catch (err: any) {
+      errors.push(`grant ${grant.id}: ${err.message}`);
+    }
+  }
+  return { expired, errors };
+}
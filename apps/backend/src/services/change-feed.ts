@@ -0,0 +1,104 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Server-Sent Events change feed behind GET /api/stream. Relays the storage
+// adapters' insert/update/delete events for the requested collections, letting
+// through only the records the caller could read via /api/data. The caller's
+// access is re-checked periodically, so a stream does not outlive a sign-out,
+// a revoked session or a removed membership.
+import { onChange } from '@careconnect/db';
+import type { ChangeEvent } from '@careconnect/db';
+
+const HEARTBEAT_MS = 25_000;
+const RECHECK_MS = 30_000;
+
+export interface ChangeFeedOptions {
+  collections: string[];
+  /** Row-level read check, applied to every event before it is sent. */
+  canRead: (collection: string, record: any) => boolean;
+  /** Strips secrets from (and opens sealed PHI in) records before they leave the server. */
+  sanitize: (collection: string, record: any) => any | Promise<any>;
+  /** Aborted when the client disconnects. */
+  signal: AbortSignal;
+  /** Records the delivery of a record (PHI access audit); a record whose audit fails is not sent. */
+  audit?: (collection: string, record: any) => Promise<void>;
+  /** Run every RECHECK_MS; the stream is closed once it resolves false (or throws). */
+  stillAllowed?: () => Promise<boolean>;
+}
+
+function frame(event: string, data: unknown, id?: number): string {
+  return `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Open the feed. Sends `ready` first (clients should refetch then, since events
+ * missed while disconnected are not replayed), then one `change` event per
+ * visible write, plus a comment heartbeat to keep proxies from timing out.
+ * When access lapses a final `closed` event is sent before the stream ends;
+ * the client's reconnect then gets the 401 or 403 that applies.
+ */
+export function createChangeStream(options: ChangeFeedOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const wanted = new Set(options.collections);
+  let seq = 0;
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Events are prepared one after another so they go out in write order.
+      let queue = Promise.resolve();
+      const unsubscribe = onChange((event: ChangeEvent) => {
+        if (!wanted.has(event.collection)) return;
+        if (!options.canRead(event.collection, event.record)) return;
+        queue = queue.then(async () => {
+          if (event.type !== 'delete') await options.audit?.(event.collection, event.record);
+          send(frame('change', {
+            collection: event.collection,
+            type: event.type,
+            id: event.id,
+            // Deletes only need the id; the snapshot was used for the read check.
+            record: event.type === 'delete' ? null : await options.sanitize(event.collection, event.record),
+            at: event.at,
+          }, ++seq));
+        }).catch(() => {
+          // a record that cannot be prepared is not sent
+        });
+      });
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+      let checking = false;
+      const recheck = options.stillAllowed && setInterval(async () => {
+        if (checking) return;
+        checking = true;
+        const allowed = await options.stillAllowed!().catch(() => false);
+        checking = false;
+        if (allowed) return;
+        send(frame('closed', { reason: 'access_revoked' }));
+        cleanup();
+      }, RECHECK_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        if (recheck) clearInterval(recheck);
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+        cleanup = () => {};
+      };
+      options.signal.addEventListener('abort', () => cleanup(), { once: true });
+
+      send(frame('ready', { collections: [...wanted] }));
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
@@ -0,0 +1,192 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Staff credentials: practising licences, board certifications and
+// malpractice insurance. A clinician submits a credential (issuing body,
+// number, expiry and the scanned documents) to an entity they work at; an
+// admin of that entity verifies or rejects it. Verified credentials carry
+// expiry reminders (cron-jobs.ts) and, once lapsed, stop the holder from
+// signing prescriptions until a current one is verified.
+import type { StorageAdapter } from '@careconnect/db';
+import { hasEntityPermission, isSuperAdmin, type Actor } from './authorization.ts';
+
+export const STAFF_CREDENTIALS = 'staff_credentials';
+export const CREDENTIAL_DOCUMENTS = 'credential_documents';
+
+export const CREDENTIAL_TYPES = ['license', 'board_certification', 'malpractice_insurance', 'other'];
+
+/** Types whose lapse blocks prescribing. */
+const PRESCRIBING_CREDENTIALS = ['license', 'malpractice_insurance'];
+
+const REVIEW_PERMISSION = 'update_entity';
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+const MAX_DOCUMENTS = 5;
+
+export interface CredentialDocumentInput {
+  file_name: string;
+  content_type?: string;
+  base64_content: string;
+}
+
+export interface CredentialInput {
+  entity_id?: string;
+  credential_type?: string;
+  issuing_body?: string;
+  number?: string;
+  issued_at?: string | null;
+  expires_at?: string | null;
+  documents?: CredentialDocumentInput[];
+}
+
+function fail(message: string, status: number): never {
+  throw Object.assign(new Error(message), { status });
+}
+
+function validDate(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const time = Date.parse(String(value));
+  if (Number.isNaN(time)) fail(`Invalid date '${value}'`, 422);
+  return new Date(time).toISOString();
+}
+
+function canReview(actor: Actor, credential: any): boolean {
+  return isSuperAdmin(actor) || hasEntityPermission(actor, credential.entity_id, REVIEW_PERMISSION);
+}
+
+/** The signed-in user's credentials across entities, newest first. */
+export async function listMyCredentials(db: StorageAdapter, actor: Actor) {
+  const rows = (await db.find(STAFF_CREDENTIALS, { user_id: actor.userId })) as any[];
+  return rows.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/** Review queue for an entity, with each holder's email and name. */
+export async function listCredentials(db: StorageAdapter, actor: Actor, entityId: string, status?: string) {
+  if (!isSuperAdmin(actor) && !hasEntityPermission(actor, entityId, REVIEW_PERMISSION)) fail('Forbidden', 403);
+  const rows = (await db.find(STAFF_CREDENTIALS, status ? { entity_id: entityId, status } : { entity_id: entityId })) as any[];
+  const out = [];
+  for (const row of rows.sort((a, b) => b.created_at.localeCompare(a.created_at))) {
+    const user = (await db.findById('users', row.user_id)) as any;
+    const profile = (await db.find('profiles', { user_id: row.user_id }))[0] as any;
+    out.push({
+      ...row,
+      holder_email: user?.email || null,
+      holder_name: `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || null,
+    });
+  }
+  return out;
+}
+
+/** Submit a credential for review at an entity the actor works at. */
+export async function submitCredential(db: StorageAdapter, actor: Actor, body: CredentialInput) {
+  const entityId = String(body.entity_id || actor.activeEntityId || '');
+  const type = String(body.credential_type || '');
+  const issuingBody = String(body.issuing_body || '').trim();
+  const number = String(body.number || '').trim();
+  if (!entityId) fail('entity_id is required', 422);
+  if (!actor.memberships[entityId]) fail('You can only submit credentials to an entity you work at', 403);
+  if (!CREDENTIAL_TYPES.includes(type)) fail(`credential_type must be one of ${CREDENTIAL_TYPES.join(', ')}`, 422);
+  if (!issuingBody || !number) fail('issuing_body and number are required', 422);
+  const issuedAt = validDate(body.issued_at);
+  const expiresAt = validDate(body.expires_at);
+  if (PRESCRIBING_CREDENTIALS.includes(type) && !expiresAt) fail('An expiry date is required for this credential', 422);
+  if (issuedAt && expiresAt && expiresAt <= issuedAt) fail('expires_at must be after issued_at', 422);
+
+  const documents = Array.isArray(body.documents) ? body.documents : [];
+  if (documents.length > MAX_DOCUMENTS) fail(`At most ${MAX_DOCUMENTS} documents per credential`, 422);
+  for (const doc of documents) {
+    if (!doc?.file_name || typeof doc.base64_content !== 'string') fail('Each document needs file_name and base64_content', 422);
+    if (Buffer.byteLength(doc.base64_content, 'base64') > MAX_DOCUMENT_BYTES) fail(`${doc.file_name} is larger than 5 MB`, 413);
+  }
+
+  const now = new Date().toISOString();
+  const credential = await db.insert(STAFF_CREDENTIALS, {
+    user_id: actor.userId,
+    entity_id: entityId,
+    credential_type: type,
+    issuing_body: issuingBody,
+    number,
+    issued_at: issuedAt,
+    expires_at: expiresAt,
+    status: 'pending',
+    document_count: documents.length,
+    reminders: {},
+    created_at: now,
+    updated_at: now,
+  });
+  for (const doc of documents) {
+    await db.insert(CREDENTIAL_DOCUMENTS, {
+      credential_id: credential.id,
+      user_id: actor.userId,
+      file_name: doc.file_name,
+      content_type: doc.content_type || 'application/octet-stream',
+      file_size: Buffer.byteLength(doc.base64_content, 'base64'),
+      base64_content: doc.base64_content,
+      uploaded_at: now,
+    });
+  }
+  return credential;
+}
+
+/** Documents of a credential, for its holder or a reviewer. */
+export async function getCredentialDocuments(db: StorageAdapter, actor: Actor, id: string) {
+  const credential = (await db.findById(STAFF_CREDENTIALS, id)) as any;
+  if (!credential) fail('Credential not found', 404);
+  if (credential.user_id !== actor.userId && !canReview(actor, credential)) fail('Forbidden', 403);
+  return db.find(CREDENTIAL_DOCUMENTS, { credential_id: id });
+}
+
+/** Verify or reject a pending credential. Reviewers cannot verify their own. */
+export async function reviewCredential(
+  db: StorageAdapter,
+  actor: Actor,
+  id: string,
+  body: { status?: string; notes?: string },
+) {
+  const credential = (await db.findById(STAFF_CREDENTIALS, id)) as any;
+  if (!credential) fail('Credential not found', 404);
+  if (!canReview(actor, credential)) fail('Forbidden', 403);
+  if (credential.user_id === actor.userId) fail('You cannot review your own credential', 403);
+  if (credential.status !== 'pending') fail('Only pending credentials can be reviewed', 409);
+  if (body.status !== 'verified' && body.status !== 'rejected') fail("status must be 'verified' or 'rejected'", 422);
+  if (body.status === 'rejected' && !String(body.notes || '').trim()) fail('Give a reason when rejecting a credential', 422);
+  if (body.status === 'verified' && credential.expires_at && Date.parse(credential.expires_at) <= Date.now()) {
+    fail('This credential has already expired', 422);
+  }
+
+  const now = new Date().toISOString();
+  const updated = await db.update(STAFF_CREDENTIALS, id, {
+    status: body.status,
+    reviewed_by: actor.userId,
+    reviewed_at: now,
+    review_notes: String(body.notes || '').trim() || null,
+    updated_at: now,
+  });
+  await db.insert('audit_logs', {
+    action: `credential_${body.status}`,
+    entity_type: 'entity',
+    entity_id: credential.entity_id,
+    user_email: actor.email,
+    details: `${credential.credential_type} ${credential.number} (${credential.issuing_body}) for user ${credential.user_id}`,
+    created_at: now,
+  });
+  return updated;
+}
+
+/**
+ * The credential that stops this user prescribing, if any: for each
+ * prescribing credential type, the latest-expiring verified (or expired) one
+ * is current, and it must not have passed its expiry date.
+ */
+export async function findLapsedCredential(db: StorageAdapter, userId: string, at = new Date()): Promise<any | null> {
+  const rows = (await db.find(STAFF_CREDENTIALS, { user_id: userId })) as any[];
+  for (const type of PRESCRIBING_CREDENTIALS) {
+    const held = rows
+      .filter((r) => r.credential_type === type && (r.status === 'verified' || r.status === 'expired') && r.expires_at)
+      .sort((a, b) => b.expires_at.localeCompare(a.expires_at));
+    if (held[0] && Date.parse(held[0].expires_at) <= at.getTime()) return held[0];
+  }
+  return null;
+}
+
+export function lapsedMessage(credential: any): string {
+  const label = credential.credential_type.replace(/_/g, ' ');
+  return `Your ${label} (${credential.number}) expired on ${String(credential.expires_at).slice(0, 10)}. Prescribing is blocked until a current ${label} is verified.`;
+}
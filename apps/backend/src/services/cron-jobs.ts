@@ -1,6 +1,6 @@
 // Bismillah Ar-Rahman Ar-Raheem.
-// Cron job helpers — booking reminders, re-verification reminders, and
-// newsletter processing. Each returns a small summary that the /api/cron
+// Cron job helpers — booking reminders, re-verification reminders, staff
+// credential expiry reminders, and newsletter processing. Each returns a small summary that the /api/cron
 // endpoint can aggregate and return to the caller.
 //
 // All scheduling works by creating `scheduled_emails` rows that
@@ -12,7 +12,7 @@ import { scheduleEmail } from './email.ts';
 
 export interface CronSummary {
   emails: { sent: number; failed: number };
-  reminders: { booking: number; verification: number; newsletter: number };
+  reminders: { booking: number; verification: number; credential: number; newsletter: number };
   errors: string[];
 }
 
@@ -225,6 +225,137 @@ export async function processVerificationReminders(db: StorageAdapter): Promise<
   return { scheduled, errors };
 }
 
+/**
+ * Staff credential reminders: for every verified staff_credentials record with
+ * an `expires_at`, email the holder at 30, 7 and 1 day(s) before expiry. Once
+ * the date passes the credential is marked `expired` and both the holder and
+ * the entity are told (a lapsed licence blocks prescribing). Tracks sent
+ * reminders via `reminders.{thirtyDays,sevenDays,oneDay,expired}`.
+ */
+export async function processCredentialReminders(db: StorageAdapter): Promise<{ scheduled: number; errors: string[] }> {
+  const errors: string[] = [];
+  let scheduled = 0;
+
+  let credentials: any[] = [];
+  try {
+    credentials = await db.find('staff_credentials', { status: 'verified' });
+  } catch (err: any) {
+    errors.push(`staff_credentials fetch failed: ${err.message}`);
+    return { scheduled, errors };
+  }
+
+  const now = Date.now();
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  for (const c of credentials) {
+    try {
+      if (!c || !c.expires_at) continue;
+      const expiry = new Date(c.expires_at).getTime();
+      if (Number.isNaN(expiry)) continue;
+
+      const daysUntilExpiry = Math.ceil((expiry - now) / dayMs);
+      const reminders = c.reminders || {};
+
+      let holderEmail: string | undefined;
+      let holderName = 'there';
+      try {
+        const user = await db.findById('users', c.user_id);
+        holderEmail = user?.email;
+        const profile = (await db.find('profiles', { user_id: c.user_id }))[0];
+        if (profile?.first_name) holderName = profile.first_name;
+      } catch (err: any) {
+        errors.push(`holder lookup ${c.user_id}: ${err.message}`);
+      }
+
+      const label = String(c.credential_type || 'credential').replace(/_/g, ' ');
+      const expiryStr = new Date(expiry).toLocaleDateString();
+
+      // Lapsed: mark expired, tell the holder and the entity once (unless a
+      // later renewal of the same credential is already verified).
+      if (daysUntilExpiry <= 0) {
+        const renewed = credentials.some(
+          (o) => o.id !== c.id && o.user_id === c.user_id && o.credential_type === c.credential_type && o.expires_at > c.expires_at,
+        );
+        if (!reminders.expired && !renewed) {
+          let entityEmail: string | undefined;
+          let entityName = 'your entity';
+          try {
+            const entity = await db.findById('entities', c.entity_id);
+            if (entity) {
+              entityName = entity.name || entityName;
+              entityEmail = entity.email;
+            }
+          } catch (err: any) {
+            errors.push(`entity lookup ${c.entity_id}: ${err.message}`);
+          }
+          for (const to of [holderEmail, entityEmail].filter(Boolean) as string[]) {
+            await scheduleEmail(db, {
+              to,
+              subject: `Credential expired: ${label} ${c.number}`,
+              html: `
+                <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+                  <h2 style="color: #B91C1C;">Credential Expired</h2>
+                  <p>The ${label} <strong>${c.number}</strong> (${c.issuing_body}) held by ${holderEmail || c.user_id} at ${entityName} expired on <strong>${expiryStr}</strong>.</p>
+                  <p>Prescribing is blocked until a current ${label} is submitted and verified.</p>
+                  <p style="margin-top: 16px;"><a href="/dashboard/hms/credentials" style="background:#047857;color:#fff;padding:10px 16px;border-radius:6px;text-decoration:none;">Update credentials</a></p>
+                  <p style="color: #6b7280; font-size: 12px; margin-top: 24px;">Sent by CareConnect.</p>
+                </div>
+              `,
+              text: `The ${label} ${c.number} held by ${holderEmail || c.user_id} at ${entityName} expired on ${expiryStr}. Prescribing is blocked until a current one is verified.`,
+              scheduled_for: new Date().toISOString(),
+            });
+            scheduled++;
+          }
+          reminders.expired = new Date().toISOString();
+        }
+        await db.update('staff_credentials', c.id, { status: 'expired', reminders, updated_at: new Date().toISOString() });
+        continue;
+      }
+
+      const marks: Array<{ key: 'thirtyDays' | 'sevenDays' | 'oneDay'; days: number; label: string }> = [
+        { key: 'thirtyDays', days: 30, label: '30 days' },
+        { key: 'sevenDays', days: 7, label: '7 days' },
+        { key: 'oneDay', days: 1, label: '1 day' },
+      ];
+
+      // One email for the nearest threshold crossed; earlier thresholds it
+      // passes over (e.g. a credential verified with 5 days left) are marked too.
+      const crossed = marks.filter((m) => daysUntilExpiry <= m.days && !reminders[m.key]);
+      const mark = crossed[crossed.length - 1];
+      let updated = false;
+      if (mark && holderEmail) {
+        await scheduleEmail(db, {
+          to: holderEmail,
+          subject: `Your ${label} expires in ${mark.label}`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2 style="color: #047857;">Credential Expiry Reminder</h2>
+              <p>Dear ${holderName},</p>
+              <p>Your ${label} <strong>${c.number}</strong> (${c.issuing_body}) expires on <strong>${expiryStr}</strong> (in ${mark.label}).</p>
+              <p>Please upload the renewed document before then so your administrator can verify it. A lapsed licence blocks prescribing.</p>
+              <p style="margin-top: 16px;"><a href="/dashboard/hms/credentials" style="background:#047857;color:#fff;padding:10px 16px;border-radius:6px;text-decoration:none;">Upload renewal</a></p>
+              <p style="color: #6b7280; font-size: 12px; margin-top: 24px;">Sent by CareConnect.</p>
+            </div>
+          `,
+          text: `Your ${label} ${c.number} expires on ${expiryStr} (in ${mark.label}). Please upload the renewal for verification.`,
+          scheduled_for: new Date().toISOString(),
+        });
+        for (const m of crossed) reminders[m.key] = new Date().toISOString();
+        scheduled++;
+        updated = true;
+      }
+
+      if (updated) {
+        await db.update('staff_credentials', c.id, { reminders });
+      }
+    } catch (err: any) {
+      errors.push(`credential ${c?.id}: ${err.message}`);
+    }
+  }
+
+  return { scheduled, errors };
+}
+
 /**
  * Newsletter processing: any scheduled_emails with type 'newsletter' that are
  * pending and due will be picked up by `processDueEmails` in the email
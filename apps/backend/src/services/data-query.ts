@@ -0,0 +1,128 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Query-string parsing for GET /api/data/:collection.
+//   ?where={"status":"active","created_at":{"gte":"2025-01-01"},"type":{"in":["a","b"]}}
+//   &sort=-scheduled_start,id  &limit=50  &offset=100 | &cursor=<nextCursor>
+//   &fields=id,patient_id,status
+// The legacy exact-match ?filter={...} is still accepted and merged into where.
+import { normalizeWhere, parseSort, projectRecord, encodeCursor, decodeCursor, MAX_QUERY_LIMIT } from '@careconnect/db';
+import type { QueryOptions, QueryResult, StorageAdapter } from '@careconnect/db';
+
+function parseJsonParam(params: URLSearchParams, name: string): Record<string, any> | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`Invalid ${name} JSON`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${name} must be a JSON object`);
+  }
+  return parsed;
+}
+
+function parseInteger(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw == null || raw === '') return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${name} must be a non-negative integer`);
+  return n;
+}
+
+/**
+ * Parse /api/data query params into adapter QueryOptions. Throws with a
+ * client-facing message. `hiddenFields` (secrets and protected fields) may not
+ * be filtered or sorted by, since matching rows would leak their values.
+ */
+export function parseQueryOptions(params: URLSearchParams, hiddenFields: Iterable<string> = []): QueryOptions {
+  const filter = parseJsonParam(params, 'filter');
+  const where = parseJsonParam(params, 'where');
+
+  const conditions = [
+    ...Object.entries(filter || {}).map(([field, value]) => ({ field, op: 'eq' as const, value })),
+    ...normalizeWhere(where),
+  ];
+  normalizeWhere(conditions);
+
+  const sort = parseSort(params.get('sort') || undefined);
+  const hidden = new Set(hiddenFields);
+  for (const { field } of [...conditions, ...sort]) {
+    if (hidden.has(field.split('.')[0])) throw new Error(`Cannot filter or sort by ${field}`);
+  }
+
+  const limit = parseInteger(params, 'limit');
+  if (limit !== undefined && (limit < 1 || limit > MAX_QUERY_LIMIT)) {
+    throw new Error(`limit must be between 1 and ${MAX_QUERY_LIMIT}`);
+  }
+  const offset = parseInteger(params, 'offset');
+  const cursor = params.get('cursor') || undefined;
+  if (cursor && offset !== undefined) throw new Error('Use either offset or cursor, not both');
+
+  const fields = params.get('fields')
+    ?.split(',')
+    .map((f) => f.trim())
+    .filter(Boolean);
+
+  return {
+    where: conditions,
+    sort,
+    limit,
+    offset,
+    cursor,
+    fields: fields?.length ? fields : undefined,
+  };
+}
+
+/** True when the caller asked for a page rather than the whole collection. */
+export function isPaged(options: QueryOptions): boolean {
+  return options.limit !== undefined || !!options.cursor;
+}
+
+/**
+ * Run a list query and keep only the rows the caller may read. Pages are
+ * filled from visible rows: the adapter is read in batches until the page is
+ * full, offsets count visible rows, and the cursor (the adapter's cursor for
+ * the batch plus the rows to skip in it) points at the next visible row, so
+ * hasMore never reveals rows outside the caller's scope.
+ */
+export async function queryReadable(
+  db: StorageAdapter,
+  collection: string,
+  options: QueryOptions,
+  canRead: (record: any) => boolean,
+): Promise<QueryResult<any>> {
+  const { limit, offset, cursor, ...query } = options;
+  if (!isPaged(options)) {
+    const all = await db.query(collection, { ...query, offset });
+    return { data: all.data.filter(canRead), nextCursor: null, hasMore: false };
+  }
+
+  const start = (decodeCursor(cursor).n || {}) as { c?: string; s?: number };
+  const batchSize = Math.min(MAX_QUERY_LIMIT, Math.max(2 * (limit || 0), 100));
+  let batchCursor = start.c;
+  let skipRows = start.s || 0;
+  let skipVisible = cursor ? 0 : offset || 0;
+  const data: any[] = [];
+  for (;;) {
+    const batch = await db.query(collection, { ...query, limit: batchSize, cursor: batchCursor });
+    for (let i = skipRows; i < batch.data.length; i++) {
+      if (!canRead(batch.data[i])) continue;
+      if (skipVisible > 0) {
+        skipVisible--;
+      } else if (data.length === limit) {
+        return { data, nextCursor: encodeCursor({ n: { c: batchCursor, s: i } }), hasMore: true };
+      } else {
+        data.push(batch.data[i]);
+      }
+    }
+    if (!batch.hasMore || !batch.nextCursor) return { data, nextCursor: null, hasMore: false };
+    batchCursor = batch.nextCursor;
+    skipRows = 0;
+  }
+}
+
+/** Apply a field projection after row-level authorization has seen the full records. */
+export function projectRecords(records: any[], fields: string[] | undefined): any[] {
+  return fields?.length ? records.map((r) => projectRecord(r, fields)) : records;
+}
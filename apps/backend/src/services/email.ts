@@ -32,6 +32,11 @@ export interface ScheduledEmailRecord {
   created_at: string;
 }
 
+/** Escape text from users or request headers before it goes into email HTML. */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
 /** Send an email immediately. Returns true on success. */
 export async function sendEmail(msg: EmailMessage): Promise<boolean> {
   if (!EMAIL_ENABLED) {
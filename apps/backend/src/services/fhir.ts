@@ -0,0 +1,583 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// FHIR R4 facade — read-only mapping of the HMS collections to FHIR resources.
+// Records keep their CareConnect JSON shape in storage; this module only
+// translates them on the way out so other hospital systems can consume them.
+import type { StorageAdapter } from '@careconnect/db';
+
+export const FHIR_VERSION = '4.0.1';
+const CC_SYSTEM = 'urn:careconnect';
+const LEGACY_PHI_SUFFIX = '|careconnect-healthcare-2025';
+
+type FhirResource = Record<string, any>;
+
+interface ResourceMapping {
+  collection: string;
+  /** Record field holding the patient id (for `patient=` / `subject=` search). */
+  patientField: string;
+  toResources(record: any): FhirResource[];
+}
+
+/** Map HMS status values (snake_case) to FHIR codes (kebab-case). */
+function code(value: string | undefined, fallback: string): string {
+  return (value || fallback).replace(/_/g, '-');
+}
+
+function ref(type: string, id: string | undefined | null): { reference: string } | undefined {
+  return id ? { reference: `${type}/${id}` } : undefined;
+}
+
+function meta(record: any): { lastUpdated: string } | undefined {
+  const ts = record.updated_at || record.created_at;
+  return ts ? { lastUpdated: ts } : undefined;
+}
+
+/** Remove undefined/null/empty-array keys so resources stay minimal. */
+function compact<T extends FhirResource>(obj: T): T {
+  const out: any = {};
+  for (const [k, v] of Object.entries(obj)) {
+    if (v === undefined || v === null || v === '') continue;
+    if (Array.isArray(v) && v.length === 0) continue;
+    out[k] = v;
+  }
+  return out;
+}
+
+/**
+ * Read a patient PHI field. Values may be stored as plain JSON (seeded data),
+ * or as the legacy client-side base64 format produced by `src/lib/encryption.ts`.
+ */
+function readPHI(value: any): any {
+  if (value == null || typeof value !== 'string') return value;
+  let text = value;
+  try {
+    const decoded = Buffer.from(value, 'base64').toString('utf8');
+    if (decoded.endsWith(LEGACY_PHI_SUFFIX)) text = decoded.slice(0, -LEGACY_PHI_SUFFIX.length);
+  } catch {
+    // not base64 — treat as plain text
+  }
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+function asList(value: any): string[] {
+  const v = readPHI(value);
+  if (Array.isArray(v)) return v.filter(Boolean).map(String);
+  return v ? [String(v)] : [];
+}
+
+// ---------------------------------------------------------------------------
+// Resource mappers
+// ---------------------------------------------------------------------------
+
+function toPatient(p: any): FhirResource {
+  const name = readPHI(p.encrypted_name);
+  const address = readPHI(p.encrypted_address);
+  const sex = String(readPHI(p.encrypted_sex) || '').toLowerCase();
+  return compact({
+    resourceType: 'Patient',
+    id: p.id,
+    meta: meta(p),
+    identifier: [
+      { use: 'usual', system: `${CC_SYSTEM}:patient-code`, value: p.patient_code },
+    ],
+    active: p.is_active !== false,
+    name: name ? [{ text: String(name) }] : undefined,
+    gender: ['male', 'female', 'other'].includes(sex) ? sex : sex ? 'unknown' : undefined,
+    birthDate: readPHI(p.encrypted_dob) || undefined,
+    telecom: [
+      ...asList(p.encrypted_phones).map((value) => ({ system: 'phone', value })),
+      ...asList(p.encrypted_emails).map((value) => ({ system: 'email', value })),
+    ],
+    address: address
+      ? [
+          typeof address === 'string'
+            ? { text: address }
+            : compact({
+                line: address.street ? [address.street] : undefined,
+                city: address.city,
+                state: address.state,
+                postalCode: address.postal_code,
+                country: address.country,
+              }),
+        ]
+      : undefined,
+    managingOrganization: ref('Organization', p.primary_entity_id),
+  });
+}
+
+const ENCOUNTER_CLASS: Record<string, { code: string; display: string }> = {
+  opd: { code: 'AMB', display: 'ambulatory' },
+  emergency: { code: 'EMER', display: 'emergency' },
+  inpatient: { code: 'IMP', display: 'inpatient encounter' },
+  telehealth: { code: 'VR', display: 'virtual' },
+  lab: { code: 'AMB', display: 'ambulatory' },
+  imaging: { code: 'AMB', display: 'ambulatory' },
+};
+
+const ENCOUNTER_STATUS: Record<string, string> = {
+  scheduled: 'planned',
+  in_progress: 'in-progress',
+  completed: 'finished',
+  cancelled: 'cancelled',
+  no_show: 'cancelled',
+};
+
+function toEncounter(e: any): FhirResource {
+  const cls = ENCOUNTER_CLASS[e.type] || ENCOUNTER_CLASS.opd;
+  return compact({
+    resourceType: 'Encounter',
+    id: e.id,
+    meta: meta(e),
+    identifier: [{ system: `${CC_SYSTEM}:encounter-code`, value: e.encounter_code }],
+    status: ENCOUNTER_STATUS[e.status] || 'unknown',
+    class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', ...cls },
+    priority: e.priority ? { text: e.priority } : undefined,
+    subject: ref('Patient', e.patient_id),
+    participant: [
+      e.attending_physician_id && { type: [{ text: 'attender' }], individual: ref('Practitioner', e.attending_physician_id) },
+      e.assigned_nurse_id && { type: [{ text: 'participant' }], individual: ref('Practitioner', e.assigned_nurse_id) },
+    ].filter(Boolean),
+    period: compact({ start: e.actual_start || e.scheduled_start, end: e.actual_end }),
+    reasonCode: [e.chief_complaint || e.reason_for_visit].filter(Boolean).map((text) => ({ text })),
+    hospitalization: e.discharge_disposition
+      ? { dischargeDisposition: { text: e.discharge_disposition } }
+      : undefined,
+    serviceProvider: ref('Organization', e.entity_id),
+  });
+}
+
+// LOINC codes for the vital types recorded by ObservationService.
+const VITAL_LOINC: Record<string, { code: string; display: string; ucum?: string }> = {
+  blood_pressure: { code: '85354-9', display: 'Blood pressure panel', ucum: 'mm[Hg]' },
+  heart_rate: { code: '8867-4', display: 'Heart rate', ucum: '/min' },
+  respiratory_rate: { code: '9279-1', display: 'Respiratory rate', ucum: '/min' },
+  temperature: { code: '8310-5', display: 'Body temperature', ucum: 'Cel' },
+  oxygen_saturation: { code: '59408-5', display: 'Oxygen saturation by pulse oximetry', ucum: '%' },
+  consciousness: { code: '80288-4', display: 'Level of consciousness' },
+  height: { code: '8302-2', display: 'Body height', ucum: 'cm' },
+  weight: { code: '29463-7', display: 'Body weight', ucum: 'kg' },
+  bmi: { code: '39156-5', display: 'Body mass index', ucum: 'kg/m2' },
+  pain_scale: { code: '72514-3', display: 'Pain severity', ucum: '{score}' },
+  glucose: { code: '2339-0', display: 'Glucose [Mass/volume] in Blood', ucum: 'mg/dL' },
+};
+
+const ABNORMAL_INTERPRETATION: Record<string, string> = {
+  high: 'H',
+  low: 'L',
+  critical_high: 'HH',
+  critical_low: 'LL',
+  critical: 'AA',
+};
+
+function quantity(value: number, unit: string | undefined, ucum?: string) {
+  return compact({ value, unit, system: ucum ? 'http://unitsofmeasure.org' : undefined, code: ucum });
+}
+
+function toObservation(v: any): FhirResource {
+  const loinc = VITAL_LOINC[v.type];
+  const isBP = v.type === 'blood_pressure' && v.systolic != null && v.diastolic != null;
+  return compact({
+    resourceType: 'Observation',
+    id: v.id,
+    meta: meta(v),
+    status: v.status || 'final',
+    category: [
+      {
+        coding: [
+          {
+            system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+            code: 'vital-signs',
+            display: 'Vital Signs',
+          },
+        ],
+      },
+    ],
+    code: {
+      coding: loinc ? [{ system: 'http://loinc.org', code: loinc.code, display: loinc.display }] : undefined,
+      text: v.display_name || v.type,
+    },
+    subject: ref('Patient', v.patient_id),
+    encounter: ref('Encounter', v.encounter_id),
+    effectiveDateTime: v.measured_at,
+    performer: [ref('Practitioner', v.performer_id)].filter(Boolean),
+    valueQuantity:
+      !isBP && typeof v.value_quantity === 'number'
+        ? quantity(v.value_quantity, v.unit, loinc?.ucum)
+        : undefined,
+    valueString: !isBP && v.value_quantity == null ? v.value_string : undefined,
+    component: isBP
+      ? [
+          {
+            code: { coding: [{ system: 'http://loinc.org', code: '8480-6', display: 'Systolic blood pressure' }] },
+            valueQuantity: quantity(v.systolic, v.unit || 'mmHg', 'mm[Hg]'),
+          },
+          {
+            code: { coding: [{ system: 'http://loinc.org', code: '8462-4', display: 'Diastolic blood pressure' }] },
+            valueQuantity: quantity(v.diastolic, v.unit || 'mmHg', 'mm[Hg]'),
+          },
+        ]
+      : undefined,
+    interpretation: v.abnormal_flag
+      ? [
+          {
+            coding: [
+              {
+                system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation',
+                code: ABNORMAL_INTERPRETATION[v.abnormal_flag] || 'A',
+              },
+            ],
+          },
+        ]
+      : undefined,
+    bodySite: v.body_site ? { text: v.body_site } : undefined,
+    method: v.method ? { text: v.method } : undefined,
+    note: v.notes ? [{ text: v.notes }] : undefined,
+  });
+}
+
+function toCondition(c: any): FhirResource {
+  return compact({
+    resourceType: 'Condition',
+    id: c.id,
+    meta: meta(c),
+    clinicalStatus: {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+          code: code(c.clinical_status, 'active'),
+        },
+      ],
+    },
+    verificationStatus: {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+          code: code(c.verification_status, 'provisional'),
+        },
+      ],
+    },
+    category: [
+      {
+        coding: [
+          {
+            system: 'http://terminology.hl7.org/CodeSystem/condition-category',
+            code: c.category === 'problem_list' ? 'problem-list-item' : 'encounter-diagnosis',
+          },
+        ],
+      },
+    ],
+    severity: c.severity ? { text: c.severity } : undefined,
+    code: {
+      coding: c.code
+        ? [
+            {
+              system: /icd-?10/i.test(c.code_system || '') ? 'http://hl7.org/fhir/sid/icd-10' : c.code_system,
+              code: c.code,
+              display: c.condition_name,
+            },
+          ]
+        : undefined,
+      text: c.condition_name,
+    },
+    subject: ref('Patient', c.patient_id),
+    encounter: ref('Encounter', c.encounter_id),
+    onsetDateTime: c.onset_date,
+    abatementDateTime: c.resolution_date,
+    recordedDate: c.created_at,
+    recorder: ref('Practitioner', c.recorded_by || c.created_by),
+  });
+}
+
+/**
+ * A CareConnect medication request holds several medication lines; FHIR
+ * expects one MedicationRequest per medication. Each line becomes its own
+ * resource (`<record id>-<line>`) sharing the prescription number as
+ * `groupIdentifier`.
+ */
+function toMedicationRequests(m: any): FhirResource[] {
+  const lines: any[] = Array.isArray(m.medications) ? m.medications : [];
+  return lines.map((med, i) =>
+    compact({
+      resourceType: 'MedicationRequest',
+      id: `${m.id}-${i + 1}`,
+      meta: meta(m),
+      groupIdentifier: { system: `${CC_SYSTEM}:prescription-number`, value: m.prescription_number },
+      status: code(m.status, 'active'),
+      intent: code(m.intent, 'order'),
+      priority: m.priority,
+      medicationCodeableConcept: {
+        text: [med.drug_name, med.strength, med.form].filter(Boolean).join(' '),
+        coding: med.generic_name ? [{ display: med.generic_name }] : undefined,
+      },
+      subject: ref('Patient', m.patient_id),
+      encounter: ref('Encounter', m.encounter_id),
+      authoredOn: m.authored_on,
+      requester: ref('Practitioner', m.prescriber_id),
+      reasonCode: med.indication ? [{ text: med.indication }] : undefined,
+      note: m.notes ? [{ text: m.notes }] : undefined,
+      dosageInstruction: [
+        compact({
+          text: med.instructions,
+          timing: med.frequency ? { code: { text: med.frequency } } : undefined,
+          route: med.route ? { text: med.route } : undefined,
+        }),
+      ],
+      dispenseRequest: compact({
+        numberOfRepeatsAllowed: typeof med.refills === 'number' ? med.refills : undefined,
+        quantity: med.quantity != null ? { value: Number(med.quantity) || undefined, unit: med.form } : undefined,
+        validityPeriod: m.validity_period ? compact({ start: m.validity_period.start, end: m.validity_period.end }) : undefined,
+        performer: ref('Organization', m.pharmacy_entity_id),
+      }),
+    }),
+  );
+}
+
+function toDiagnosticReport(r: any): FhirResource {
+  const analytes: any[] = Array.isArray(r.analytes) ? r.analytes : [];
+  const contained = analytes.map((a, i) =>
+    compact({
+      resourceType: 'Observation',
+      id: `analyte-${i + 1}`,
+      status: r.status === 'final' ? 'final' : 'preliminary',
+      code: { text: a.name },
+      valueQuantity: typeof a.value === 'number' ? compact({ value: a.value, unit: a.unit }) : undefined,
+      valueString: typeof a.value === 'number' ? undefined : a.value != null ? String(a.value) : undefined,
+      referenceRange: a.reference_range ? [{ text: a.reference_range }] : undefined,
+      interpretation: a.flag
+        ? [
+            {
+              coding: [
+                {
+                  system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation',
+                  code: ABNORMAL_INTERPRETATION[a.flag] || 'A',
+                },
+              ],
+            },
+          ]
+        : undefined,
+    }),
+  );
+  return compact({
+    resourceType: 'DiagnosticReport',
+    id: r.id,
+    meta: meta(r),
+    contained,
+    identifier: [{ system: `${CC_SYSTEM}:lab-order`, value: r.lab_order_id }],
+    status: code(r.status, 'preliminary'),
+    category: [
+      {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'LAB', display: 'Laboratory' }],
+      },
+    ],
+    code: { text: r.test_name },
+    subject: ref('Patient', r.patient_id),
+    effectiveDateTime: r.collected_at || r.created_at,
+    issued: r.resulted_at || r.updated_at || r.created_at,
+    performer: [ref('Practitioner', r.resulted_by)].filter(Boolean),
+    result: contained.map((o) => ({ reference: `#${o.id}`, display: o.code.text })),
+    conclusion: r.interpretation || r.comments,
+  });
+}
+
+const ALLERGY_CLINICAL: Record<string, string> = { active: 'active', inactive: 'inactive', resolved: 'resolved' };
+const ALLERGEN_CODE_SYSTEMS: Record<string, string> = {
+  RxNorm: 'http://www.nlm.nih.gov/research/umls/rxnorm',
+  'SNOMED CT': 'http://snomed.info/sct',
+};
+
+function toAllergyIntolerance(a: any): FhirResource {
+  return compact({
+    resourceType: 'AllergyIntolerance',
+    id: a.id,
+    meta: meta(a),
+    clinicalStatus: {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical',
+          code: ALLERGY_CLINICAL[a.status] || 'active',
+        },
+      ],
+    },
+    verificationStatus: a.verification_status
+      ? {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification',
+              code: a.verification_status.replace(/_/g, '-'),
+            },
+          ],
+        }
+      : undefined,
+    category: a.category ? [a.category] : undefined,
+    criticality: a.criticality === 'high' || a.criticality === 'low' ? a.criticality : 'unable-to-assess',
+    code: {
+      coding: a.allergen_code
+        ? [{ system: ALLERGEN_CODE_SYSTEMS[a.code_system] || a.code_system, code: a.allergen_code, display: a.allergen }]
+        : undefined,
+      text: a.allergen,
+    },
+    patient: ref('Patient', a.patient_id),
+    onsetDateTime: a.onset_date,
+    recordedDate: a.recorded_at || a.created_at,
+    recorder: ref('Practitioner', a.recorded_by),
+    reaction: a.reaction ? [{ manifestation: [{ text: a.reaction }], severity: a.severity }] : undefined,
+  });
+}
+
+const RESOURCES: Record<string, ResourceMapping> = {
+  Patient: { collection: 'patients', patientField: 'id', toResources: (r) => [toPatient(r)] },
+  Encounter: { collection: 'encounters', patientField: 'patient_id', toResources: (r) => [toEncounter(r)] },
+  Observation: { collection: 'vitals', patientField: 'patient_id', toResources: (r) => [toObservation(r)] },
+  Condition: { collection: 'conditions', patientField: 'patient_id', toResources: (r) => [toCondition(r)] },
+  MedicationRequest: {
+    collection: 'medication_requests',
+    patientField: 'patient_id',
+    toResources: toMedicationRequests,
+  },
+  DiagnosticReport: { collection: 'lab_results', patientField: 'patient_id', toResources: (r) => [toDiagnosticReport(r)] },
+  AllergyIntolerance: { collection: 'allergies', patientField: 'patient_id', toResources: (r) => [toAllergyIntolerance(r)] },
+};
+
+/** Whether the given FHIR resource type is served by the facade. */
+export function isSupportedResource(resourceType: string): boolean {
+  return Object.prototype.hasOwnProperty.call(RESOURCES, resourceType);
+}
+
+/** The storage collection that backs a FHIR resource type. */
+export function collectionFor(resourceType: string): string {
+  return RESOURCES[resourceType].collection;
+}
+
+/** Strip a `Patient/` prefix from a reference-style search value. */
+function patientIdFrom(value: string): string {
+  return value.replace(/^Patient\//, '');
+}
+
+/**
+ * Load the storage record behind a FHIR read (GET /fhir/:type/:id). Returns
+ * null when the record is missing.
+ */
+export async function readRecord(db: StorageAdapter, resourceType: string, id: string): Promise<any | null> {
+  const mapping = RESOURCES[resourceType];
+  if (resourceType === 'MedicationRequest') {
+    const m = id.match(/^(.+)-(\d+)$/);
+    if (!m) return null;
+    return db.findById(mapping.collection, m[1]);
+  }
+  return db.findById(mapping.collection, id);
+}
+
+/** Map a record loaded by `readRecord` to the FHIR resource with the given id. */
+export function toResource(resourceType: string, record: any, id: string): FhirResource | null {
+  const resources = RESOURCES[resourceType].toResources(record);
+  if (resourceType === 'MedicationRequest') return resources.find((r) => r.id === id) || null;
+  return resources[0] || null;
+}
+
+/** Load the storage records that a FHIR search would return (before mapping). */
+export async function searchRecords(
+  db: StorageAdapter,
+  resourceType: string,
+  params: URLSearchParams,
+): Promise<any[]> {
+  const mapping = RESOURCES[resourceType];
+  const patient = params.get('patient') || params.get('subject');
+  const encounter = params.get('encounter');
+  const id = params.get('_id');
+
+  let records: any[];
+  if (resourceType === 'Patient') {
+    const pid = id || (patient ? patientIdFrom(patient) : null);
+    if (pid) {
+      const rec = await db.findById(mapping.collection, pid);
+      records = rec ? [rec] : [];
+    } else {
+      records = await db.find(mapping.collection, {});
+      const identifier = params.get('identifier');
+      if (identifier) {
+        const value = identifier.split('|').pop();
+        records = records.filter((r) => r.patient_code === value);
+      }
+    }
+  } else {
+    const filter: Record<string, any> = {};
+    if (patient) filter[mapping.patientField] = patientIdFrom(patient);
+    if (encounter && resourceType !== 'DiagnosticReport' && resourceType !== 'AllergyIntolerance') {
+      filter.encounter_id = encounter.replace(/^Encounter\//, '');
+    }
+    records = await db.find(mapping.collection, filter);
+    if (id) records = records.filter((r) => String(r.id) === id);
+  }
+  return records;
+}
+
+/** Map storage records to a FHIR searchset Bundle, honouring `_count`. */
+export function toSearchBundle(
+  resourceType: string,
+  records: any[],
+  params: URLSearchParams,
+  baseUrl: string,
+): FhirResource {
+  const mapping = RESOURCES[resourceType];
+  const resources = records.flatMap((r) => mapping.toResources(r));
+  const count = Math.max(0, parseInt(params.get('_count') || '', 10) || resources.length);
+  const page = resources.slice(0, count);
+  const query = params.toString();
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    timestamp: new Date().toISOString(),
+    total: resources.length,
+    link: [{ relation: 'self', url: `${baseUrl}/${resourceType}${query ? `?${query}` : ''}` }],
+    entry: page.map((resource) => ({
+      fullUrl: `${baseUrl}/${resourceType}/${resource.id}`,
+      resource,
+      search: { mode: 'match' },
+    })),
+  };
+}
+
+/** Minimal CapabilityStatement advertising the read/search interactions. */
+export function capabilityStatement(baseUrl: string): FhirResource {
+  return {
+    resourceType: 'CapabilityStatement',
+    status: 'active',
+    date: new Date().toISOString(),
+    kind: 'instance',
+    software: { name: 'CareConnect FHIR facade' },
+    implementation: { description: 'CareConnect HMS', url: baseUrl },
+    fhirVersion: FHIR_VERSION,
+    format: ['application/fhir+json', 'json'],
+    rest: [
+      {
+        mode: 'server',
+        security: { description: 'Bearer session token or session cookie, as for /api/data.' },
+        resource: Object.keys(RESOURCES).map((type) => ({
+          type,
+          interaction: [{ code: 'read' }, { code: 'search-type' }],
+          searchParam: [
+            { name: '_id', type: 'token' },
+            { name: '_count', type: 'number' },
+            ...(type === 'Patient'
+              ? [{ name: 'identifier', type: 'token' }]
+              : [{ name: 'patient', type: 'reference' }, { name: 'subject', type: 'reference' }]),
+          ],
+        })),
+      },
+    ],
+  };
+}
+
+/** FHIR error payload. */
+export function operationOutcome(codeValue: string, diagnostics: string): FhirResource {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: [{ severity: 'error', code: codeValue, diagnostics }],
+  };
+}
@@ -0,0 +1,258 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Multi-document HMS workflows that must not stop halfway: dispensing
+// (stock + dispense + request), bed transfers (two beds + transfer record) and
+// invoice payments (invoice + payment). Each runs inside db.transaction().
+import type { StorageAdapter, StorageTransaction } from '@careconnect/db';
+
+export interface WorkflowActor {
+  userId: string;
+  email: string;
+}
+
+export interface DispenseInput {
+  medication_request_id: string;
+  pharmacy_entity_id: string;
+  patient_id: string;
+  medications: Array<{
+    drug_name: string;
+    quantity_dispensed: number;
+    lot_number?: string;
+    expiry_date?: string;
+  }>;
+  counseling_provided?: boolean;
+  pickup_method?: 'in_person' | 'delivery' | 'mail' | 'curbside';
+  notes?: string;
+  /** Set when the pharmacist dispensed despite major or contraindicated safety alerts. */
+  safety_override?: { reason: string; alerts: Array<{ description: string; severity: string }> } | null;
+}
+
+export interface PaymentInput {
+  amount: number;
+  payment_method: string;
+  payment_reference?: string;
+  payment_date?: string;
+  notes?: string;
+}
+
+/** Business-rule failure; `status` is used as the HTTP status by the route. */
+function fail(message: string, status = 409): never {
+  const err = new Error(message);
+  (err as any).status = status;
+  throw err;
+}
+
+function auditRow(action: string, entityType: string, entityId: string, actor: WorkflowActor, details: string) {
+  return {
+    action,
+    entity_type: entityType,
+    entity_id: entityId,
+    user_id: actor.userId,
+    user_email: actor.email,
+    details,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/** Decrement stock, record the dispense and close the request as one unit. */
+export async function processMedicationDispense(
+  db: StorageAdapter,
+  input: DispenseInput,
+  actor: WorkflowActor,
+): Promise<any> {
+  if (!input.medications?.length) fail('medications required', 422);
+  if (input.safety_override && !String(input.safety_override.reason || '').trim()) fail('safety_override needs a reason', 422);
+  for (const med of input.medications) {
+    if (!med.drug_name || !(med.quantity_dispensed > 0)) fail('each medication needs drug_name and a positive quantity_dispensed', 422);
+  }
+
+  return db.transaction(async (tx: StorageTransaction) => {
+    const now = new Date().toISOString();
+
+    // The body names the patient and pharmacy; the request is what the
+    // prescriber actually ordered, so the two must agree. A request without a
+    // routed pharmacy is dispensed by its own facility.
+    const medRequest = await tx.findById('medication_requests', input.medication_request_id);
+    if (!medRequest) fail('Medication request not found', 404);
+    if (medRequest.patient_id !== input.patient_id) fail('Medication request is for a different patient', 403);
+    if ((medRequest.pharmacy_entity_id || medRequest.entity_id) !== input.pharmacy_entity_id) {
+      fail('Medication request is not routed to this pharmacy', 403);
+    }
+    if (['completed', 'cancelled', 'stopped', 'entered_in_error'].includes(medRequest.status)) {
+      fail(`Medication request is ${medRequest.status}`);
+    }
+
+    for (const med of input.medications) {
+      const [inventory] = await tx.find('pharmacy_inventory', {
+        entity_id: input.pharmacy_entity_id,
+        drug_name: med.drug_name,
+        is_active: true,
+      });
+      if (!inventory || inventory.quantity_on_hand < med.quantity_dispensed) {
+        fail(`Insufficient inventory for ${med.drug_name}`);
+      }
+      const newQuantity = inventory.quantity_on_hand - med.quantity_dispensed;
+      await tx.update('pharmacy_inventory', inventory.id, { quantity_on_hand: newQuantity, updated_at: now });
+
+      if (newQuantity <= (inventory.reorder_point ?? 0)) {
+        await tx.insert('notifications', {
+          recipient_type: 'entity',
+          recipient_id: inventory.entity_id,
+          type: 'low_stock_alert',
+          title: 'Low Stock Alert',
+          message: `${inventory.drug_name} is running low (${newQuantity} ${inventory.unit_of_measure || 'units'} remaining)`,
+          data: { inventory_id: inventory.id, drug_name: inventory.drug_name, current_quantity: newQuantity, reorder_point: inventory.reorder_point },
+          priority: 'medium',
+          is_read: false,
+          created_at: now,
+        });
+      }
+    }
+
+    const dispense = await tx.insert('medication_dispenses', {
+      medication_request_id: input.medication_request_id,
+      pharmacy_entity_id: input.pharmacy_entity_id,
+      patient_id: input.patient_id,
+      status: 'completed',
+      dispensed_medications: input.medications.map((med) => ({
+        drug_name: med.drug_name,
+        quantity_dispensed: med.quantity_dispensed,
+        lot_number: med.lot_number,
+        expiry_date: med.expiry_date,
+      })),
+      dispenser_id: actor.userId,
+      counseling_provided: !!input.counseling_provided,
+      pickup_method: input.pickup_method || 'in_person',
+      patient_acknowledged: true,
+      dispensed_at: now,
+      notes: input.notes,
+      safety_override: input.safety_override ? { ...input.safety_override, overridden_by: actor.userId, overridden_at: now } : null,
+      created_at: now,
+      updated_at: now,
+    });
+
+    await tx.update('medication_requests', input.medication_request_id, {
+      status: 'completed',
+      dispense_id: dispense.id,
+      dispensed_at: now,
+      updated_at: now,
+    });
+
+    await tx.insert('audit_logs', auditRow(
+      'medication_dispensed', 'medication_dispenses', dispense.id, actor,
+      `Dispensed ${input.medications.length} item(s) for request ${input.medication_request_id}`,
+    ));
+    if (input.safety_override) {
+      await tx.insert('audit_logs', auditRow(
+        'medication_safety_override', 'medication_dispenses', dispense.id, actor,
+        `Overrode ${input.safety_override.alerts?.length || 0} safety alert(s): ${input.safety_override.reason}`,
+      ));
+    }
+    return dispense;
+  });
+}
+
+/**
+ * Release the source bed, occupy the target bed and complete the transfer
+ * together. `canUpdateBed` is the caller's scope check, applied to the target
+ * bed as read inside the transaction.
+ */
+export async function completeBedTransfer(
+  db: StorageAdapter,
+  transferId: string,
+  actor: WorkflowActor,
+  canUpdateBed: (bed: any) => boolean,
+): Promise<any> {
+  return db.transaction(async (tx: StorageTransaction) => {
+    const now = new Date().toISOString();
+    const transfer = await tx.findById('bed_management', transferId);
+    if (!transfer) fail('Transfer not found', 404);
+    if (transfer.status === 'completed') fail('Transfer already completed');
+
+    const target = await tx.findById('bed_management', transfer.to_bed_id);
+    if (!target) fail('Target bed not found', 404);
+    if (!canUpdateBed(target)) fail('Target bed is outside your entities', 403);
+    if (target.status !== 'available' && target.current_patient_id !== transfer.patient_id) {
+      fail('Target bed is no longer available');
+    }
+
+    if (transfer.from_bed_id) {
+      await tx.update('bed_management', transfer.from_bed_id, {
+        status: 'cleaning',
+        current_encounter_id: null,
+        current_patient_id: null,
+        occupied_since: null,
+        updated_at: now,
+      });
+    }
+
+    await tx.update('bed_management', transfer.to_bed_id, {
+      status: 'occupied',
+      current_encounter_id: transfer.encounter_id,
+      current_patient_id: transfer.patient_id,
+      occupied_since: now,
+      updated_at: now,
+    });
+
+    const completed = await tx.update('bed_management', transferId, {
+      status: 'completed',
+      completed_at: now,
+      completed_by: actor.userId,
+      updated_at: now,
+    });
+
+    await tx.insert('audit_logs', auditRow(
+      'bed_transfer_completed', 'bed_management', transferId, actor,
+      `Patient ${transfer.patient_id} moved ${transfer.from_bed_id || 'admission'} -> ${transfer.to_bed_id}`,
+    ));
+    return completed;
+  });
+}
+
+/** Apply a payment to an invoice and record the payment row together. */
+export async function recordPayment(
+  db: StorageAdapter,
+  invoiceId: string,
+  input: PaymentInput,
+  actor: WorkflowActor,
+): Promise<any> {
+  if (!(input.amount > 0)) fail('amount must be positive', 422);
+  if (!input.payment_method) fail('payment_method required', 422);
+
+  return db.transaction(async (tx: StorageTransaction) => {
+    const now = new Date().toISOString();
+    const invoice = await tx.findById('invoices', invoiceId);
+    if (!invoice) fail('Invoice not found', 404);
+    if (invoice.status === 'cancelled') fail('Invoice is cancelled');
+
+    const amountPaid = (invoice.amount_paid || 0) + input.amount;
+    const balanceDue = (invoice.total_amount || 0) - amountPaid;
+    const status = balanceDue <= 0 ? 'paid' : amountPaid > 0 ? 'partially_paid' : invoice.status;
+
+    const updated = await tx.update('invoices', invoiceId, {
+      amount_paid: amountPaid,
+      balance_due: balanceDue,
+      status,
+      updated_at: now,
+    });
+
+    await tx.insert('payments', {
+      invoice_id: invoiceId,
+      patient_id: invoice.patient_id,
+      entity_id: invoice.entity_id,
+      amount: input.amount,
+      payment_method: input.payment_method,
+      payment_reference: input.payment_reference,
+      payment_date: input.payment_date || now,
+      status: 'completed',
+      notes: input.notes,
+      recorded_by: actor.userId,
+      created_at: now,
+    });
+
+    await tx.insert('audit_logs', auditRow(
+      'payment_recorded', 'invoices', invoiceId, actor,
+      `Payment of ${input.amount} via ${input.payment_method}`,
+    ));
+    return updated;
+  });
+}
@@ -0,0 +1,385 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Brute-force protection for password login, TOTP verification and
+// access-grant PINs. Every attempt is counted per account, per MFA user, per
+// client IP and per grant and PIN user in
+// login_attempts before the credential is checked (a success takes it back), so
+// parallel guesses cannot slip past the limit; after a few free failures each further attempt waits an
+// exponentially growing delay, and too many failures lock the key for a while.
+// Lockouts, admin unlocks and sign-ins from a new device are emailed to the
+// account holder.
+import crypto from 'node:crypto';
+import { VersionConflictError, versionOf } from '@careconnect/db';
+import type { StorageAdapter, StorageTransaction } from '@careconnect/db';
+import { escapeHtml, sendEmail } from './email.ts';
+
+export const LOGIN_ATTEMPTS = 'login_attempts';
+export const LOGIN_DEVICES = 'login_devices';
+
+export type ThrottleKind = 'account' | 'mfa' | 'ip' | 'pin';
+
+interface ThrottlePolicy {
+  /** Failures allowed before backoff starts. */
+  free: number;
+  /** Failures (within the window) that trigger a lockout. */
+  lockAfter: number;
+  /** First lockout length; each repeat within a day doubles it. */
+  lockMinutes: number;
+}
+
+const POLICIES: Record<ThrottleKind, ThrottlePolicy> = {
+  account: { free: 3, lockAfter: 10, lockMinutes: 15 },
+  mfa: { free: 2, lockAfter: 5, lockMinutes: 15 },
+  // Shared by everyone behind one address, so more lenient.
+  ip: { free: 10, lockAfter: 50, lockMinutes: 30 },
+  // Grant PINs are short, so few guesses; a locked grant is also suspended.
+  pin: { free: 2, lockAfter: 5, lockMinutes: 60 },
+};
+
+const MAX_BACKOFF_SECONDS = 300;
+const MAX_LOCK_MINUTES = 24 * 60;
+/** Failures older than this (since the last one) are forgotten. */
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+/** Repeat-lockout doubling resets after a quiet day. */
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+/** Attempts that lose a write race (Lightbase cannot serialise transactions) are retried. */
+const MAX_CONFLICT_RETRIES = 5;
+
+export interface LoginAttemptRecord {
+  id?: string;
+  key: string;
+  kind: ThrottleKind;
+  /** Account email (account keys) or user id (mfa keys); the address for ip keys; grant:<id> or user:<id> for pin keys. */
+  subject: string;
+  user_id: string | null;
+  failures: number;
+  last_failure_at: string | null;
+  locked_until: string | null;
+  lockouts: number;
+  last_locked_at: string | null;
+  last_ip: string | null;
+  updated_at?: string;
+}
+
+export interface ThrottleTarget {
+  kind: ThrottleKind;
+  subject: string;
+  userId?: string | null;
+}
+
+export interface Throttled {
+  locked: boolean;
+  retryAfter: number;
+  message: string;
+}
+
+export interface LoginContext {
+  ip: string;
+  userAgent: string;
+}
+
+function keyOf(target: ThrottleTarget): string {
+  return `${target.kind}:${target.subject.trim().toLowerCase()}`;
+}
+
+/** Reverse proxies (comma-separated addresses) whose forwarding headers are believed. */
+const TRUSTED_PROXIES = new Set(
+  (process.env.TRUSTED_PROXIES || '').split(',').map((address) => normaliseIp(address)).filter(Boolean),
+);
+
+function normaliseIp(address: string | undefined): string {
+  const trimmed = (address || '').trim().toLowerCase();
+  return trimmed.startsWith('::ffff:') ? trimmed.slice(7) : trimmed;
+}
+
+/**
+ * Client address for throttling and device history. X-Forwarded-For and
+ * X-Real-IP are set by whoever sends the request, so they are only read when
+ * the socket peer is a configured trusted proxy; the client is then the
+ * right-most forwarded hop that is not itself a trusted proxy.
+ */
+export function clientIp(request: Request, socketAddress?: string): string {
+  const peer = normaliseIp(socketAddress);
+  if (!peer) return 'unknown';
+  if (!TRUSTED_PROXIES.has(peer)) return peer;
+
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(normaliseIp).filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!TRUSTED_PROXIES.has(hops[i])) return hops[i];
+  }
+  return hops[0] || normaliseIp(request.headers.get('x-real-ip') || '') || peer;
+}
+
+export function loginContext(request: Request, socketAddress?: string): LoginContext {
+  return { ip: clientIp(request, socketAddress), userAgent: request.headers.get('user-agent') || '' };
+}
+
+async function load(db: StorageAdapter | StorageTransaction, target: ThrottleTarget): Promise<LoginAttemptRecord | null> {
+  const rows = (await db.find(LOGIN_ATTEMPTS, { key: keyOf(target) })) as LoginAttemptRecord[];
+  return rows[0] || null;
+}
+
+function backoffSeconds(kind: ThrottleKind, failures: number): number {
+  const over = failures - POLICIES[kind].free;
+  return over <= 0 ? 0 : Math.min(MAX_BACKOFF_SECONDS, 2 ** (over - 1));
+}
+
+function describeWait(seconds: number): string {
+  return seconds >= 90 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+}
+
+/** The longest lock or backoff delay among the targets' counters, if any. */
+function throttledBy(rows: Array<LoginAttemptRecord | null>, now: number): Throttled | null {
+  let worst: Throttled | null = null;
+  for (const row of rows) {
+    if (!row) continue;
+    let wait = 0;
+    let locked = false;
+    if (row.locked_until && Date.parse(row.locked_until) > now) {
+      wait = Math.ceil((Date.parse(row.locked_until) - now) / 1000);
+      locked = true;
+    } else if (row.last_failure_at && now - Date.parse(row.last_failure_at) < FAILURE_WINDOW_MS) {
+      wait = Math.ceil((Date.parse(row.last_failure_at) + backoffSeconds(row.kind, row.failures) * 1000 - now) / 1000);
+    }
+    if (wait > 0 && (!worst || wait > worst.retryAfter)) {
+      worst = {
+        locked,
+        retryAfter: wait,
+        message: locked
+          ? `Too many failed attempts. This sign-in is locked; try again in ${describeWait(wait)}.`
+          : `Too many failed attempts. Try again in ${describeWait(wait)}.`,
+      };
+    }
+  }
+  return worst;
+}
+
+/**
+ * Run a read-modify-write of the counters in a transaction. Updates carry the
+ * version they read, so where the adapter cannot serialise transactions a
+ * concurrent attempt makes one of them retry instead of losing an increment.
+ */
+async function withCounters<R>(db: StorageAdapter, fn: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await db.transaction(fn);
+    } catch (err) {
+      if (!(err instanceof VersionConflictError) || attempt >= MAX_CONFLICT_RETRIES) throw err;
+    }
+  }
+}
+
+/** Count one failure against a target's counter; returns the saved row and whether it just locked. */
+async function countFailure(
+  tx: StorageTransaction,
+  target: ThrottleTarget,
+  row: LoginAttemptRecord | null,
+  context: LoginContext,
+  now: Date,
+): Promise<{ saved: LoginAttemptRecord; locked: boolean }> {
+  const policy = POLICIES[target.kind];
+  const recent = row?.last_failure_at && now.getTime() - Date.parse(row.last_failure_at) < FAILURE_WINDOW_MS;
+  const repeat = row?.last_locked_at && now.getTime() - Date.parse(row.last_locked_at) < LOCKOUT_MEMORY_MS;
+  const failures = (recent ? row!.failures : 0) + 1;
+  const lockouts = repeat ? row!.lockouts : 0;
+  const update: Partial<LoginAttemptRecord> = {
+    failures,
+    last_failure_at: now.toISOString(),
+    last_ip: context.ip,
+    lockouts,
+    updated_at: now.toISOString(),
+  };
+  const locked = failures >= policy.lockAfter;
+  if (locked) {
+    const minutes = Math.min(MAX_LOCK_MINUTES, policy.lockMinutes * 2 ** lockouts);
+    Object.assign(update, {
+      failures: 0,
+      locked_until: new Date(now.getTime() + minutes * 60000).toISOString(),
+      lockouts: lockouts + 1,
+      last_locked_at: now.toISOString(),
+    });
+  }
+  const saved = row
+    ? ((await tx.update(LOGIN_ATTEMPTS, row.id!, update, { expectedVersion: versionOf(row) })) as LoginAttemptRecord)
+    : ((await tx.insert(LOGIN_ATTEMPTS, {
+      key: keyOf(target),
+      kind: target.kind,
+      subject: target.subject.trim().toLowerCase(),
+      user_id: target.userId || null,
+      locked_until: null,
+      last_locked_at: null,
+      ...update,
+    })) as LoginAttemptRecord);
+  return { saved, locked };
+}
+
+/**
+ * Start a sign-in or code attempt. Refused (with the wait) while any target is
+ * locked or inside its backoff delay, so a locked account stays locked even
+ * for the right password. Otherwise the attempt is counted as a failure
+ * against every target before the password or code is checked, in the same
+ * transaction as the check: parallel guesses each see the ones before them.
+ * recordSuccess takes the count back when the attempt succeeds.
+ */
+export async function beginAttempt(db: StorageAdapter, targets: ThrottleTarget[], context: LoginContext): Promise<Throttled | null> {
+  const { blocked, locked } = await withCounters(db, async (tx) => {
+    const now = new Date();
+    const rows: Array<LoginAttemptRecord | null> = [];
+    for (const target of targets) rows.push(await load(tx, target));
+    const blocked = throttledBy(rows, now.getTime());
+    const locked: LoginAttemptRecord[] = [];
+    if (blocked) return { blocked, locked };
+    for (let i = 0; i < targets.length; i++) {
+      const result = await countFailure(tx, targets[i], rows[i], context, now);
+      if (result.locked) locked.push(result.saved);
+    }
+    return { blocked, locked };
+  });
+  for (const row of locked) await onLocked(db, row, context);
+  return blocked;
+}
+
+/**
+ * A successful attempt clears the account and MFA counters; the IP counter
+ * keeps running but gets back the failure beginAttempt counted.
+ */
+export async function recordSuccess(db: StorageAdapter, targets: ThrottleTarget[]): Promise<void> {
+  await withCounters(db, async (tx) => {
+    const updatedAt = new Date().toISOString();
+    for (const target of targets) {
+      const row = await load(tx, target);
+      if (!row) continue;
+      const options = { expectedVersion: versionOf(row) };
+      if (target.kind === 'ip') {
+        if (row.failures > 0) await tx.update(LOGIN_ATTEMPTS, row.id!, { failures: row.failures - 1, updated_at: updatedAt }, options);
+      } else if (row.failures > 0 || row.locked_until) {
+        await tx.update(LOGIN_ATTEMPTS, row.id!, { failures: 0, last_failure_at: null, locked_until: null, updated_at: updatedAt }, options);
+      }
+    }
+  });
+}
+
+async function auditRow(db: StorageAdapter, action: string, userId: string | null, email: string, details: string): Promise<void> {
+  await db.insert('audit_logs', {
+    action,
+    entity_type: 'user',
+    entity_id: userId,
+    user_email: email,
+    details,
+    created_at: new Date().toISOString(),
+  });
+}
+
+async function accountOf(db: StorageAdapter, row: LoginAttemptRecord): Promise<any | null> {
+  if (row.user_id) return db.findById('users', row.user_id);
+  if (row.kind === 'account') return (await db.find('users', { email: row.subject }))[0] || null;
+  return null;
+}
+
+async function onLocked(db: StorageAdapter, row: LoginAttemptRecord, context: LoginContext): Promise<void> {
+  const what = row.kind === 'mfa' ? 'verification code' : row.kind === 'ip' ? 'sign-in' : row.kind === 'pin' ? 'access PIN' : 'password';
+  await auditRow(db, 'login_locked', row.user_id, row.kind === 'account' ? row.subject : '', `${row.kind} ${row.subject} locked until ${row.locked_until} after repeated ${what} failures from ${context.ip}`);
+  // A PIN lock is not a sign-in lock; the grant side is handled by the caller.
+  if (row.kind === 'pin') return;
+  const user = await accountOf(db, row);
+  if (!user?.email) return;
+  const until = new Date(row.locked_until!).toUTCString();
+  await sendEmail({
+    to: user.email,
+    subject: 'Your CareConnect sign-in has been temporarily locked',
+    html: `<p>We blocked sign-in to your CareConnect account after several incorrect ${what} attempts (last from ${escapeHtml(context.ip)}).</p>
+<p>You can try again after ${until}. If this wasn't you, reset your password once the lock ends, or contact your administrator to unlock the account sooner.</p>`,
+    text: `We blocked sign-in to your CareConnect account after several incorrect ${what} attempts (last from ${context.ip}). You can try again after ${until}.`,
+  });
+}
+
+/** Whether a target is locked right now (not merely backing off). */
+export async function isLocked(db: StorageAdapter, target: ThrottleTarget): Promise<boolean> {
+  const row = await load(db, target);
+  return !!row?.locked_until && Date.parse(row.locked_until) > Date.now();
+}
+
+/** Current lockouts and keys with recent failures, worst first. */
+export async function listLockouts(db: StorageAdapter): Promise<Array<LoginAttemptRecord & { locked: boolean; email: string | null }>> {
+  const now = Date.now();
+  const rows = (await db.find(LOGIN_ATTEMPTS, {})) as LoginAttemptRecord[];
+  const out = [];
+  for (const row of rows) {
+    const locked = !!row.locked_until && Date.parse(row.locked_until) > now;
+    const recent = !!row.last_failure_at && now - Date.parse(row.last_failure_at) < FAILURE_WINDOW_MS && row.failures > 0;
+    if (!locked && !recent) continue;
+    const user = await accountOf(db, row);
+    out.push({ ...row, locked, email: user?.email || null });
+  }
+  return out.sort((a, b) => Number(b.locked) - Number(a.locked) || String(b.last_failure_at).localeCompare(String(a.last_failure_at)));
+}
+
+/** Admin unlock: clears the counters and tells the account holder. */
+export async function unlock(db: StorageAdapter, id: string, admin: { id: string; email: string }): Promise<LoginAttemptRecord> {
+  const row = (await db.findById(LOGIN_ATTEMPTS, id)) as LoginAttemptRecord | null;
+  if (!row) throw Object.assign(new Error('Lockout not found'), { status: 404 });
+  const updated = (await db.update(LOGIN_ATTEMPTS, id, {
+    failures: 0,
+    last_failure_at: null,
+    locked_until: null,
+    lockouts: 0,
+    updated_at: new Date().toISOString(),
+  })) as LoginAttemptRecord;
+  await auditRow(db, 'login_unlocked', row.user_id, admin.email, `${row.kind} ${row.subject} unlocked by ${admin.email}`);
+  const user = await accountOf(db, row);
+  if (user?.email) {
+    await sendEmail({
+      to: user.email,
+      subject: 'Your CareConnect sign-in has been unlocked',
+      html: '<p>An administrator unlocked sign-in to your CareConnect account. You can sign in again now.</p><p>If you did not ask for this, contact your administrator.</p>',
+      text: 'An administrator unlocked sign-in to your CareConnect account. You can sign in again now.',
+    });
+  }
+  return updated;
+}
+
+/** Coarse device description ("Chrome on Windows") so browser updates do not look like new devices. */
+export function describeDevice(userAgent: string): string {
+  const ua = userAgent.toLowerCase();
+  const browser =
+    ua.includes('edg/') ? 'Edge'
+      : ua.includes('opr/') || ua.includes('opera') ? 'Opera'
+        : ua.includes('firefox/') ? 'Firefox'
+          : ua.includes('chrome/') ? 'Chrome'
+            : ua.includes('safari/') ? 'Safari'
+              : ua ? 'Other browser' : 'Unknown client';
+  const os =
+    ua.includes('android') ? 'Android'
+      : ua.includes('iphone') || ua.includes('ipad') ? 'iOS'
+        : ua.includes('windows') ? 'Windows'
+          : ua.includes('mac os') ? 'macOS'
+            : ua.includes('linux') ? 'Linux'
+              : 'unknown OS';
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Remember the device a user signed in from and email them when it is one
+ * not seen before (except on their very first sign-in).
+ */
+export async function noteLoginDevice(db: StorageAdapter, user: { id: string; email?: string }, context: LoginContext): Promise<boolean> {
+  const label = describeDevice(context.userAgent);
+  const fingerprint = crypto.createHash('sha256').update(label).digest('hex').slice(0, 32);
+  const now = new Date().toISOString();
+  const known = await db.find(LOGIN_DEVICES, { user_id: user.id });
+  const device = known.find((d: any) => d.fingerprint === fingerprint);
+  if (device) {
+    await db.update(LOGIN_DEVICES, device.id, { last_seen_at: now, last_ip: context.ip });
+    return false;
+  }
+  await db.insert(LOGIN_DEVICES, { user_id: user.id, fingerprint, label, first_seen_at: now, last_seen_at: now, last_ip: context.ip });
+  if (known.length === 0 || !user.email) return false;
+  await auditRow(db, 'login_new_device', user.id, user.email, `Sign-in from new device ${label} (${context.ip})`);
+  await sendEmail({
+    to: user.email,
+    subject: 'New sign-in to your CareConnect account',
+    html: `<p>Your CareConnect account was just signed in from a new device: <strong>${label}</strong> (${escapeHtml(context.ip)}) at ${new Date(now).toUTCString()}.</p>
+<p>If this was you, no action is needed. If not, change your password immediately and contact your administrator.</p>`,
+    text: `Your CareConnect account was just signed in from a new device: ${label} (${context.ip}). If this wasn't you, change your password immediately.`,
+  });
+  return true;
+}
@@ -1,6 +1,8 @@
 // Bismillah Ar-Rahman Ar-Raheem.
 // Backend MFA/TOTP service — RFC 6238 Time-based One-Time Password.
 // Uses HMAC-SHA1 (no external deps). Secrets are stored encrypted in the DB.
+// Also owns the login second step (short-lived challenge tokens), single-use
+// backup codes and the per-user_type mandatory MFA policy.
 import crypto from 'node:crypto';
 import type { StorageAdapter } from '@careconnect/db';
 
@@ -8,6 +10,11 @@ const BASE32_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
 const STEP_SECONDS = 30;
 const DIGITS = 6;
 const WINDOW = 1; // allow 1 step before/after for clock drift
+const CHALLENGE_EXPIRY_MS = 5 * 60 * 1000;
+const BACKUP_CODE_COUNT = 10;
+
+/** system_settings key holding the user_types that must use MFA. */
+export const MFA_POLICY_KEY = 'mfa_required_user_types';
 
 /** Decode a Base32 string into a Buffer (RFC 4648). */
 function base32Decode(input: string): Buffer {
@@ -166,6 +173,7 @@ export async function disableMFA(
   await db.update('users', userId, {
     mfa_enabled: false,
     mfa_secret: null,
+    mfa_backup_codes: [],
     updated_at: new Date().toISOString(),
   });
   await db.insert('audit_logs', {
@@ -195,3 +203,120 @@ export async function verifyUserTOTP(
   if (!user || !user.mfa_enabled || !user.mfa_secret) return false;
   return verifyTOTP(user.mfa_secret, token);
 }
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/** Backup codes are compared without dashes, spaces or case. */
+function normalizeBackupCode(code: string): string {
+  return code.replace(/[^a-z0-9]/gi, '').toLowerCase();
+}
+
+/**
+ * Issue a fresh set of single-use backup codes, replacing any earlier set.
+ * Only hashes are stored; the plain codes are returned once for the user to save.
+ */
+export async function generateBackupCodes(db: StorageAdapter, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await db.update('users', userId, {
+    mfa_backup_codes: codes.map((code) => hashCode(normalizeBackupCode(code))),
+    updated_at: new Date().toISOString(),
+  });
+  return codes;
+}
+
+export async function backupCodesRemaining(db: StorageAdapter, userId: string): Promise<number> {
+  const user = (await db.findById('users', userId)) as any;
+  return Array.isArray(user?.mfa_backup_codes) ? user.mfa_backup_codes.length : 0;
+}
+
+/**
+ * Check a second-factor code: a TOTP from the authenticator app, or one of the
+ * user's backup codes (which is burned on use). Returns how it was satisfied.
+ */
+export async function verifyMFACode(
+  db: StorageAdapter,
+  userId: string,
+  code: string,
+): Promise<'totp' | 'backup_code' | null> {
+  const user = (await db.findById('users', userId)) as any;
+  if (!user || !user.mfa_enabled || !user.mfa_secret) return null;
+  const trimmed = String(code || '').trim();
+  if (/^\d{6}$/.test(trimmed)) return verifyTOTP(user.mfa_secret, trimmed) ? 'totp' : null;
+
+  const hashes: string[] = Array.isArray(user.mfa_backup_codes) ? user.mfa_backup_codes : [];
+  const hash = hashCode(normalizeBackupCode(trimmed));
+  if (!hashes.includes(hash)) return null;
+  await db.update('users', userId, { mfa_backup_codes: hashes.filter((h) => h !== hash) });
+  await db.insert('audit_logs', {
+    action: 'mfa_backup_code_used',
+    entity_type: 'user',
+    entity_id: userId,
+    user_email: user.email || '',
+    details: `Backup code used to sign in; ${hashes.length - 1} remaining`,
+    created_at: new Date().toISOString(),
+  });
+  return 'backup_code';
+}
+
+/**
+ * Start the second login step after a correct password. The returned token
+ * names the user for /api/mfa/verify and is stored only as a hash.
+ */
+export async function createMFAChallenge(db: StorageAdapter, userId: string): Promise<{ token: string; expiresIn: number }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await db.insert('session_tokens', {
+    user_id: userId,
+    token: hashCode(token),
+    type: 'mfa_challenge',
+    expires_at: new Date(Date.now() + CHALLENGE_EXPIRY_MS).toISOString(),
+    used: false,
+    created_at: new Date().toISOString(),
+  });
+  return { token, expiresIn: CHALLENGE_EXPIRY_MS / 1000 };
+}
+
+/** The live challenge for a token, or null if it is unknown, used or expired. */
+export async function getMFAChallenge(db: StorageAdapter, token: string): Promise<{ id: string; user_id: string } | null> {
+  if (!token) return null;
+  const row = (await db.find('session_tokens', { type: 'mfa_challenge', token: hashCode(token) }))[0] as any;
+  return row && !row.used && Date.parse(row.expires_at) > Date.now() ? row : null;
+}
+
+export async function consumeMFAChallenge(db: StorageAdapter, challengeId: string): Promise<void> {
+  await db.update('session_tokens', challengeId, { used: true });
+}
+
+/** The user_types that must enrol in MFA (empty when no policy is set). */
+export async function getMFAPolicy(db: StorageAdapter): Promise<string[]> {
+  const row = (await db.find('system_settings', { key: MFA_POLICY_KEY }))[0] as any;
+  return Array.isArray(row?.value) ? row.value : [];
+}
+
+export async function setMFAPolicy(db: StorageAdapter, userTypes: string[], byEmail: string): Promise<string[]> {
+  const value = [...new Set(userTypes.map(String))];
+  const row = (await db.find('system_settings', { key: MFA_POLICY_KEY }))[0] as any;
+  if (row) {
+    await db.update('system_settings', row.id, { value, updated_at: new Date().toISOString() });
+  } else {
+    await db.insert('system_settings', { key: MFA_POLICY_KEY, value, category: 'security', created_at: new Date().toISOString() });
+  }
+  await db.insert('audit_logs', {
+    action: 'mfa_policy_updated',
+    entity_type: 'system_settings',
+    entity_id: MFA_POLICY_KEY,
+    user_email: byEmail,
+    details: value.length ? `MFA required for: ${value.join(', ')}` : 'MFA optional for all user types',
+    created_at: new Date().toISOString(),
+  });
+  return value;
+}
+
+/** Whether policy obliges this user to use MFA. */
+export async function isMFARequired(db: StorageAdapter, user: { user_type?: string }): Promise<boolean> {
+  return !!user.user_type && (await getMFAPolicy(db)).includes(user.user_type);
+}
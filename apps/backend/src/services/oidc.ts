@@ -0,0 +1,164 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// OpenID Connect relying party — authorization code flow with PKCE (S256), no
+// external deps. Discovery documents and JWKS are cached in memory; ID tokens
+// are verified (RS256/384/512, PS256, ES256/384) against the issuer's JWKS and
+// checked for issuer, audience, expiry and nonce.
+import crypto from 'node:crypto';
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_S = 180;
+
+export interface OidcProviderConfig {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+const discoveryCache = new Map<string, { config: OidcProviderConfig; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+function fail(message: string, status = 401): never {
+  throw Object.assign(new Error(`OIDC: ${message}`), { status });
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const res = await fetch(url, init);
+  const body = await res.json().catch(() => null);
+  if (!res.ok) fail(`${url} returned ${res.status}${body?.error ? ` (${body.error})` : ''}`, 502);
+  return body;
+}
+
+/** The issuer's /.well-known/openid-configuration. */
+export async function discover(issuer: string): Promise<OidcProviderConfig> {
+  const key = issuer.replace(/\/$/, '');
+  const cached = discoveryCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.config;
+  const config = (await fetchJson(`${key}/.well-known/openid-configuration`)) as OidcProviderConfig;
+  if (config.issuer?.replace(/\/$/, '') !== key) fail('discovery document is for another issuer', 502);
+  discoveryCache.set(key, { config, fetchedAt: Date.now() });
+  return config;
+}
+
+/** A PKCE verifier and its S256 challenge. */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  return { verifier, challenge: crypto.createHash('sha256').update(verifier).digest('base64url') };
+}
+
+export function buildAuthorizationUrl(
+  config: OidcProviderConfig,
+  params: { clientId: string; redirectUri: string; scope: string; state: string; nonce: string; codeChallenge: string },
+): string {
+  const url = new URL(config.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', params.scope);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+/** Swap the authorization code for tokens; confidential clients authenticate with their secret. */
+export async function exchangeCode(
+  config: OidcProviderConfig,
+  params: { code: string; clientId: string; clientSecret?: string; redirectUri: string; codeVerifier: string },
+): Promise<{ id_token: string; access_token?: string }> {
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+    client_id: params.clientId,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  if (params.clientSecret) {
+    if (config.token_endpoint_auth_methods_supported?.includes('client_secret_post')) {
+      form.set('client_secret', params.clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(params.clientId)}:${encodeURIComponent(params.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+  }
+  const tokens = await fetchJson(config.token_endpoint, { method: 'POST', headers, body: form.toString() });
+  if (!tokens?.id_token) fail('token response has no id_token', 502);
+  return tokens;
+}
+
+async function signingKey(jwksUri: string, kid: string | undefined): Promise<any> {
+  const pick = (keys: any[]) => keys.find((k) => (!kid || k.kid === kid) && (!k.use || k.use === 'sig'));
+  const cached = jwksCache.get(jwksUri);
+  let key = cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS ? pick(cached.keys) : undefined;
+  if (!key) {
+    // Unknown kid usually means the IdP rotated keys; refetch once.
+    const { keys } = await fetchJson(jwksUri);
+    jwksCache.set(jwksUri, { keys: keys || [], fetchedAt: Date.now() });
+    key = pick(keys || []);
+  }
+  if (!key) fail('no matching signing key');
+  return key;
+}
+
+const JWS_ALGORITHMS: Record<string, { hash: string; options?: Partial<crypto.VerifyKeyObjectInput> }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+  ES256: { hash: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', options: { dsaEncoding: 'ieee-p1363' } },
+};
+
+/** Verify an ID token's signature and standard claims; returns its claims. */
+export async function verifyIdToken(
+  idToken: string,
+  expected: { issuer: string; clientId: string; nonce: string; jwksUri: string; now?: number },
+): Promise<IdTokenClaims> {
+  const parts = String(idToken).split('.');
+  if (parts.length !== 3) fail('malformed id_token');
+  const [headerPart, payloadPart, signaturePart] = parts;
+  const header = JSON.parse(Buffer.from(headerPart, 'base64url').toString('utf8'));
+  const algorithm = JWS_ALGORITHMS[header.alg];
+  if (!algorithm) fail(`unsupported id_token algorithm ${header.alg}`);
+
+  const jwk = await signingKey(expected.jwksUri, header.kid);
+  const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  const ok = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    { key, ...algorithm.options } as crypto.VerifyKeyObjectInput,
+    Buffer.from(signaturePart, 'base64url'),
+  );
+  if (!ok) fail('id_token signature is invalid');
+
+  const claims = JSON.parse(Buffer.from(payloadPart, 'base64url').toString('utf8')) as IdTokenClaims;
+  const now = Math.floor((expected.now ?? Date.now()) / 1000);
+  if (claims.iss?.replace(/\/$/, '') !== expected.issuer.replace(/\/$/, '')) fail('id_token is from another issuer');
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.clientId)) fail('id_token is for another client');
+  if (audiences.length > 1 && claims.azp !== expected.clientId) fail('id_token azp does not match');
+  if (!claims.exp || claims.exp + CLOCK_SKEW_S <= now) fail('id_token expired');
+  if (claims.iat && claims.iat - CLOCK_SKEW_S > now) fail('id_token issued in the future');
+  if (claims.nonce !== expected.nonce) fail('id_token nonce mismatch');
+  if (!claims.sub) fail('id_token has no subject');
+  return claims;
+}
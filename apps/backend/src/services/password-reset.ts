@@ -0,0 +1,82 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Backend password reset. Reset tokens are single-use, valid for an hour and
+// stored only as a hash in session_tokens (type 'password_reset'); the link is
+// emailed server-side so the token never reaches the requesting browser.
+// A completed reset signs the user out of every session.
+import crypto from 'node:crypto';
+import type { StorageAdapter } from '@careconnect/db';
+import { sendEmail } from './email.ts';
+import { revokeUserSessions, SESSION_TOKENS } from './sessions.ts';
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+const RESET_TOKEN_EXPIRY_MS = 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+async function findValidToken(db: StorageAdapter, token: string): Promise<any | null> {
+  if (!token) return null;
+  const rows = await db.find(SESSION_TOKENS, { type: 'password_reset', token: hashToken(token) });
+  const row = rows[0];
+  return row && !row.used && Date.parse(row.expires_at) > Date.now() ? row : null;
+}
+
+/** Email a reset link. Unknown addresses are ignored silently so the endpoint does not reveal accounts. */
+export async function requestPasswordReset(db: StorageAdapter, email: string): Promise<void> {
+  const user = (await db.find('users', { email }))[0];
+  if (!user) return;
+  for (const row of await db.find(SESSION_TOKENS, { user_id: user.id, type: 'password_reset' })) {
+    if (!row.used) await db.update(SESSION_TOKENS, row.id, { used: true });
+  }
+  const token = crypto.randomBytes(32).toString('hex');
+  await db.insert(SESSION_TOKENS, {
+    user_id: user.id,
+    email: user.email,
+    token: hashToken(token),
+    type: 'password_reset',
+    expires_at: new Date(Date.now() + RESET_TOKEN_EXPIRY_MS).toISOString(),
+    used: false,
+    created_at: new Date().toISOString(),
+  });
+  const url = `${APP_URL}/reset-password?token=${token}`;
+  await sendEmail({
+    to: user.email,
+    subject: 'Reset Your CareConnect Password',
+    html: `<p>We received a request to reset your CareConnect account password.</p><p>Click the link below to reset it (valid for 1 hour):</p><p><a href="${url}">${url}</a></p><p>If you did not request this, you can safely ignore this email.</p>`,
+    text: `Reset your CareConnect password (valid for 1 hour): ${url}`,
+  });
+}
+
+export async function verifyPasswordResetToken(db: StorageAdapter, token: string): Promise<boolean> {
+  return !!(await findValidToken(db, token));
+}
+
+/**
+ * Set the new password (already hashed by the caller), burn the token and
+ * revoke every session so a stolen login stops working.
+ */
+export async function completePasswordReset(
+  db: StorageAdapter,
+  token: string,
+  password: string,
+  hashPassword: (password: string) => Promise<string>,
+): Promise<void> {
+  if (String(password || '').length < MIN_PASSWORD_LENGTH) {
+    throw Object.assign(new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`), { status: 422 });
+  }
+  const row = await findValidToken(db, token);
+  if (!row) throw Object.assign(new Error('Invalid or expired reset token'), { status: 400 });
+  await db.update('users', row.user_id, { password_hash: await hashPassword(password), updated_at: new Date().toISOString() });
+  await db.update(SESSION_TOKENS, row.id, { used: true });
+  await revokeUserSessions(db, row.user_id, 'password_reset', { byEmail: row.email });
+  await db.insert('notifications', {
+    user_id: row.user_id,
+    type: 'security',
+    title: 'Password Changed',
+    message: 'Your password has been reset and all devices were signed out. If you did not make this change, please contact support immediately.',
+    is_read: false,
+    created_at: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,558 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Duplicate patient detection and merge. Candidates come from the blind search
+// index (same surname, given name, DOB, phone, MRN or national ID) and are
+// scored on name similarity (Jaro-Winkler), DOB, sex, phone and identifiers.
+// New registrations are checked automatically and likely pairs are queued in
+// patient_duplicate_flags. A merge re-points the duplicate's clinical records
+// to the surviving patient in one transaction and keeps what it moved in
+// patient_merges, so it can be undone.
+import type { StorageAdapter, StorageTransaction } from '@careconnect/db';
+import { appendTrail, type AuditContext, type TrailEvent } from './audit-trail.ts';
+import { canAccessRecord, hasPermission, type Actor } from './authorization.ts';
+import { openRecord } from './phi-encryption.ts';
+import { indexPatient, listOf, lookup, nameSnippet } from './patient-search.ts';
+
+export const DUPLICATE_FLAGS = 'patient_duplicate_flags';
+export const PATIENT_MERGES = 'patient_merges';
+
+/** Collections re-pointed from the merged patient to the survivor. */
+export const MERGE_RELINKED = [
+  'encounters',
+  'vitals',
+  'conditions',
+  'lab_orders',
+  'medication_requests',
+  'care_plans',
+  'referrals',
+  'allergies',
+  'triage_notes',
+  'lab_results',
+  'imaging_orders',
+  'medication_dispenses',
+  'medication_administrations',
+  'early_warning_scores',
+  'patient_identifiers',
+  'consents',
+  'access_grants',
+  'documents',
+  'invoices',
+  'billing_items',
+  'insurance_claims',
+  'medications',
+];
+
+const WEIGHTS = { name: 0.3, dob: 0.25, sex: 0.05, phone: 0.15, identifier: 0.35 };
+/** Scores at or above these are reported as likely / possible duplicates. */
+const LIKELY = 0.7;
+const POSSIBLE = 0.5;
+/** Name similarity below this earns no name weight. */
+const MIN_NAME_SIMILARITY = 0.75;
+
+export interface Demographics {
+  name?: string;
+  dob?: string;
+  sex?: string;
+  phones?: string[];
+  identifiers?: Array<{ type: string; value: string; issuer?: string }>;
+}
+
+export interface MatchScore {
+  score: number;
+  level: 'likely' | 'possible' | 'unlikely';
+  reasons: string[];
+}
+
+export interface MatchCandidate extends MatchScore {
+  patient_id: string;
+  patient_code: string;
+  name_snippet: string;
+  primary_entity_id: string | null;
+}
+
+export interface DuplicateFlag {
+  id?: string;
+  patient_id: string;
+  candidate_id: string;
+  entity_id: string | null;
+  score: number;
+  level: 'likely' | 'possible';
+  reasons: string[];
+  status: 'open' | 'merged' | 'dismissed';
+  resolved_by?: string;
+  resolved_at?: string;
+  notes?: string;
+  created_at?: string;
+}
+
+export interface PatientMerge {
+  id?: string;
+  survivor_id: string;
+  merged_id: string;
+  flag_id: string | null;
+  reason: string;
+  /** Record ids re-pointed per collection, restored on unmerge. */
+  moved: Record<string, string[]>;
+  /** Entity links re-pointed to the survivor, and ones deactivated because the survivor already had that entity. */
+  links_moved: string[];
+  links_deactivated: string[];
+  /** Portal account moved to the survivor because it had none; handed back on unmerge. */
+  user_id_moved?: string | null;
+  status: 'merged' | 'unmerged';
+  merged_by: string;
+  merged_at: string;
+  unmerged_by?: string;
+  unmerged_at?: string;
+  unmerge_reason?: string;
+}
+
+function fail(message: string, status: number): never {
+  throw Object.assign(new Error(message), { status });
+}
+
+function jaro(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j++]) transpositions++;
+  }
+  return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+}
+
+function jaroWinkler(a: string, b: string): number {
+  const sim = jaro(a, b);
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return sim + prefix * 0.1 * (1 - sim);
+}
+
+function nameTokens(name?: string): string[] {
+  return String(name || '').normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .split(/\s+/).map((w) => w.replace(/[^a-z]/g, '')).filter(Boolean);
+}
+
+/** Similarity of two full names, tolerating swapped given name / surname. */
+function nameSimilarity(a?: string, b?: string): number {
+  const x = nameTokens(a);
+  const y = nameTokens(b);
+  if (x.length === 0 || y.length === 0) return 0;
+  const direct = jaroWinkler(x.join(' '), y.join(' '));
+  const swapped = jaroWinkler([...x].reverse().join(' '), y.join(' '));
+  return Math.max(direct, swapped);
+}
+
+function digits(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-10);
+}
+
+function idValue(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/** Score how likely two people are the same; reasons are shown to the reviewer. */
+export function scoreMatch(a: Demographics, b: Demographics): MatchScore {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const name = nameSimilarity(a.name, b.name);
+  if (name >= MIN_NAME_SIMILARITY) {
+    score += WEIGHTS.name * name;
+    reasons.push(name === 1 ? 'same name' : `name ${Math.round(name * 100)}% similar`);
+  }
+
+  if (a.dob && b.dob) {
+    const [ay, am, ad] = a.dob.slice(0, 10).split('-');
+    const [by, bm, bd] = b.dob.slice(0, 10).split('-');
+    if (a.dob.slice(0, 10) === b.dob.slice(0, 10)) {
+      score += WEIGHTS.dob;
+      reasons.push('same date of birth');
+    } else if (ay === by && am === bd && ad === bm) {
+      score += WEIGHTS.dob * 0.5;
+      reasons.push('date of birth with day and month swapped');
+    } else {
+      score -= WEIGHTS.dob * 0.4;
+    }
+  }
+
+  if (a.sex && b.sex) {
+    if (a.sex.toLowerCase() === b.sex.toLowerCase()) {
+      score += WEIGHTS.sex;
+    } else {
+      score -= WEIGHTS.sex * 3;
+      reasons.push('different sex');
+    }
+  }
+
+  const phones = new Set((a.phones || []).map(digits).filter((p) => p.length >= 7));
+  if ((b.phones || []).some((p) => phones.has(digits(p)))) {
+    score += WEIGHTS.phone;
+    reasons.push('shared phone number');
+  }
+
+  for (const type of ['national_id', 'mrn']) {
+    const ours = (a.identifiers || []).filter((i) => i.type === type);
+    const theirs = (b.identifiers || []).filter((i) => i.type === type);
+    if (ours.length === 0 || theirs.length === 0) continue;
+    const same = ours.some((x) => theirs.some((y) =>
+      idValue(x.value) === idValue(y.value) && (type !== 'mrn' || !x.issuer || !y.issuer || x.issuer === y.issuer)));
+    const label = type === 'mrn' ? 'MRN' : 'national ID';
+    if (same) {
+      score += WEIGHTS.identifier;
+      reasons.push(`same ${label}`);
+    } else if (type === 'national_id') {
+      score -= WEIGHTS.identifier;
+      reasons.push(`different ${label}`);
+    }
+  }
+
+  score = Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+  return { score, level: score >= LIKELY ? 'likely' : score >= POSSIBLE ? 'possible' : 'unlikely', reasons };
+}
+
+/** Decrypted demographics of a stored patient, with its identifiers. */
+async function demographicsOf(db: StorageAdapter, stored: any): Promise<Demographics> {
+  const patient = await openRecord(db, 'patients', stored);
+  const identifiers = [];
+  for (const row of await db.find('patient_identifiers', { patient_id: stored.id })) {
+    const identifier = await openRecord(db, 'patient_identifiers', row);
+    identifiers.push({ type: identifier.type, value: String(identifier.encrypted_value || ''), issuer: identifier.issuer });
+  }
+  return {
+    name: patient.encrypted_name,
+    dob: patient.encrypted_dob,
+    sex: patient.encrypted_sex,
+    phones: listOf(patient.encrypted_phones),
+    identifiers,
+  };
+}
+
+/** Blocking: patients sharing at least one indexed term with the probe. */
+async function candidateIds(db: StorageAdapter, probe: Demographics): Promise<Set<string>> {
+  const ids = new Set<string>();
+  const add = (set: Set<string>) => set.forEach((id) => ids.add(id));
+  const words = nameTokens(probe.name);
+  if (words.length > 0) {
+    add(await lookup(db, 'surname', words[words.length - 1]));
+    add(await lookup(db, 'given', words[0]));
+  }
+  if (probe.dob) add(await lookup(db, 'dob', probe.dob));
+  for (const phone of probe.phones || []) add(await lookup(db, 'phone', phone));
+  for (const identifier of probe.identifiers || []) {
+    if (identifier.type === 'mrn' || identifier.type === 'national_id') add(await lookup(db, identifier.type, identifier.value));
+  }
+  return ids;
+}
+
+/** Possible and likely duplicates of the probe among patients the caller can read, best first. */
+export async function findMatches(
+  db: StorageAdapter,
+  probe: Demographics,
+  options: { excludeId?: string; canRead: (patient: any) => boolean },
+): Promise<{ matches: MatchCandidate[]; records: any[] }> {
+  const matches: MatchCandidate[] = [];
+  const records: any[] = [];
+  for (const id of await candidateIds(db, probe)) {
+    if (id === options.excludeId) continue;
+    const stored = await db.findById('patients', id);
+    if (!stored || stored.is_active === false || stored.merged_into || !options.canRead(stored)) continue;
+    const demographics = await demographicsOf(db, stored);
+    const result = scoreMatch(probe, demographics);
+    if (result.level === 'unlikely') continue;
+    records.push(stored);
+    matches.push({
+      ...result,
+      patient_id: stored.id,
+      patient_code: stored.patient_code,
+      name_snippet: nameSnippet(demographics.name),
+      primary_entity_id: stored.primary_entity_id || null,
+    });
+  }
+  matches.sort((x, y) => y.score - x.score);
+  return { matches, records };
+}
+
+/**
+ * Registration check: flag each possible duplicate of a newly created patient
+ * (or one that just gained an identifier) for review. Pairs already flagged
+ * either way round are skipped.
+ */
+export async function flagDuplicates(db: StorageAdapter, actor: Actor, patientId: string): Promise<DuplicateFlag[]> {
+  const stored = await db.findById('patients', patientId);
+  if (!stored || stored.merged_into) return [];
+  const { matches } = await findMatches(db, await demographicsOf(db, stored), {
+    excludeId: patientId,
+    canRead: (p) => canAccessRecord(actor, 'patients', 'read', p),
+  });
+  const flags: DuplicateFlag[] = [];
+  for (const match of matches) {
+    const existing = [
+      ...(await db.find(DUPLICATE_FLAGS, { patient_id: patientId, candidate_id: match.patient_id })),
+      ...(await db.find(DUPLICATE_FLAGS, { patient_id: match.patient_id, candidate_id: patientId })),
+    ];
+    if (existing.length > 0) continue;
+    flags.push((await db.insert(DUPLICATE_FLAGS, {
+      patient_id: patientId,
+      candidate_id: match.patient_id,
+      entity_id: stored.primary_entity_id || null,
+      score: match.score,
+      level: match.level as DuplicateFlag['level'],
+      reasons: match.reasons,
+      status: 'open' as const,
+    })) as DuplicateFlag);
+  }
+  return flags;
+}
+
+function canManage(actor: Actor, patient: any): boolean {
+  return hasPermission(actor, 'patients', 'update') && canAccessRecord(actor, 'patients', 'update', patient);
+}
+
+async function summary(db: StorageAdapter, patientId: string) {
+  const stored = await db.findById('patients', patientId);
+  if (!stored) return null;
+  const patient = await openRecord(db, 'patients', stored);
+  return {
+    id: stored.id,
+    patient_code: stored.patient_code,
+    name_snippet: nameSnippet(patient.encrypted_name),
+    primary_entity_id: stored.primary_entity_id || null,
+    is_active: stored.is_active !== false,
+    created_at: stored.created_at,
+  };
+}
+
+/** Flags on patients the actor can manage, with a safe summary of each side. */
+export async function listDuplicateFlags(db: StorageAdapter, actor: Actor, status = 'open'): Promise<any[]> {
+  const flags = (await db.find(DUPLICATE_FLAGS, { status })) as DuplicateFlag[];
+  const out = [];
+  for (const flag of flags) {
+    const patient = await db.findById('patients', flag.patient_id);
+    const candidate = await db.findById('patients', flag.candidate_id);
+    if (!patient || !candidate || !canManage(actor, patient) || !canManage(actor, candidate)) continue;
+    out.push({ ...flag, patient: await summary(db, patient.id), candidate: await summary(db, candidate.id) });
+  }
+  return out.sort((a, b) => b.score - a.score);
+}
+
+export async function dismissFlag(db: StorageAdapter, actor: Actor, flagId: string, notes?: string): Promise<DuplicateFlag> {
+  const flag = (await db.findById(DUPLICATE_FLAGS, flagId)) as DuplicateFlag | null;
+  if (!flag) fail('Duplicate flag not found', 404);
+  const patient = await db.findById('patients', flag.patient_id);
+  if (!patient || !canManage(actor, patient)) fail('Forbidden', 403);
+  if (flag.status !== 'open') fail('Duplicate flag already resolved', 409);
+  return (await db.update(DUPLICATE_FLAGS, flagId, {
+    status: 'dismissed',
+    resolved_by: actor.userId,
+    resolved_at: new Date().toISOString(),
+    notes: notes || '',
+  })) as DuplicateFlag;
+}
+
+/**
+ * Merge `merged_id` into `survivor_id`. Clinical, consent and billing records,
+ * identifiers and entity links move to the survivor, as does the merged
+ * record's portal account when the survivor has none; the merged record is
+ * deactivated with merged_into set. Every moved record is written to the
+ * audit trail.
+ */
+export async function mergePatients(
+  db: StorageAdapter,
+  actor: Actor,
+  audit: AuditContext,
+  body: { survivor_id?: string; merged_id?: string; flag_id?: string; reason?: string },
+): Promise<PatientMerge> {
+  if (!body.survivor_id || !body.merged_id) fail('survivor_id and merged_id are required', 422);
+  if (body.survivor_id === body.merged_id) fail('A patient cannot be merged into itself', 422);
+  const survivor = await db.findById('patients', body.survivor_id);
+  const merged = await db.findById('patients', body.merged_id);
+  if (!survivor || !merged) fail('Patient not found', 404);
+  if (!canManage(actor, survivor) || !canManage(actor, merged)) fail('Forbidden', 403);
+  if (survivor.merged_into || merged.merged_into) fail('One of the patients has already been merged', 409);
+
+  const now = new Date().toISOString();
+  const record = await db.transaction(async (tx: StorageTransaction) => {
+    const moved: Record<string, string[]> = {};
+    for (const collection of MERGE_RELINKED) {
+      const rows = await tx.find(collection, { patient_id: merged.id });
+      for (const row of rows) await tx.update(collection, row.id, { patient_id: survivor.id, updated_at: now });
+      if (rows.length > 0) moved[collection] = rows.map((r: any) => r.id);
+    }
+
+    const survivorEntities = new Set(
+      (await tx.find('patient_entity_links', { patient_id: survivor.id })).filter((l: any) => l.status !== 'inactive').map((l: any) => l.entity_id),
+    );
+    const linksMoved: string[] = [];
+    const linksDeactivated: string[] = [];
+    for (const link of await tx.find('patient_entity_links', { patient_id: merged.id })) {
+      if (link.status === 'inactive') continue;
+      if (survivorEntities.has(link.entity_id)) {
+        await tx.update('patient_entity_links', link.id, { status: 'inactive', updated_at: now });
+        linksDeactivated.push(link.id);
+      } else {
+        await tx.update('patient_entity_links', link.id, { patient_id: survivor.id, updated_at: now });
+        linksMoved.push(link.id);
+      }
+    }
+
+    const userIdMoved = !survivor.user_id && merged.user_id ? merged.user_id : null;
+    if (userIdMoved) await tx.update('patients', survivor.id, { user_id: userIdMoved, updated_at: now });
+    await tx.update('patients', merged.id, {
+      is_active: false,
+      merged_into: survivor.id,
+      merged_at: now,
+      ...(userIdMoved ? { user_id: null } : {}),
+      updated_at: now,
+    });
+    for (const flag of [
+      ...(await tx.find(DUPLICATE_FLAGS, { patient_id: merged.id, candidate_id: survivor.id })),
+      ...(await tx.find(DUPLICATE_FLAGS, { patient_id: survivor.id, candidate_id: merged.id })),
+    ]) {
+      if (flag.status === 'open') await tx.update(DUPLICATE_FLAGS, flag.id, { status: 'merged', resolved_by: actor.userId, resolved_at: now });
+    }
+
+    return (await tx.insert(PATIENT_MERGES, {
+      survivor_id: survivor.id,
+      merged_id: merged.id,
+      flag_id: body.flag_id || null,
+      reason: String(body.reason || '').trim(),
+      moved,
+      links_moved: linksMoved,
+      links_deactivated: linksDeactivated,
+      user_id_moved: userIdMoved,
+      status: 'merged' as const,
+      merged_by: actor.userId,
+      merged_at: now,
+    })) as PatientMerge;
+  });
+
+  await appendTrail(db, audit, mergeTrail(record, 'merge'));
+  await indexPatient(db, survivor.id);
+  await indexPatient(db, merged.id);
+  return record;
+}
+
+/** Trail entries for a merge or unmerge: the merge record, both patients and every moved record. */
+function mergeTrail(merge: PatientMerge, kind: 'merge' | 'unmerge'): TrailEvent[] {
+  const owner = kind === 'merge' ? merge.survivor_id : merge.merged_id;
+  const from = kind === 'merge' ? merge.merged_id : merge.survivor_id;
+  const note = `${kind} ${merge.id}: moved from patient ${from} to ${owner}`;
+  const events: TrailEvent[] = [
+    { action: kind === 'merge' ? 'create' : 'update', collection: PATIENT_MERGES, recordId: merge.id, patientId: merge.survivor_id, details: `${kind} of patient ${merge.merged_id} into ${merge.survivor_id}` },
+    { action: 'update', collection: 'patients', recordId: merge.merged_id, patientId: merge.merged_id, details: kind === 'merge' ? `merged into patient ${merge.survivor_id}` : `restored from patient ${merge.survivor_id}` },
+    { action: 'update', collection: 'patients', recordId: merge.survivor_id, patientId: merge.survivor_id, details: kind === 'merge' ? `absorbed patient ${merge.merged_id}` : `patient ${merge.merged_id} split off` },
+  ];
+  if (merge.user_id_moved) {
+    events.push({ action: 'update', collection: 'patients', recordId: owner, patientId: owner, details: `${note}: portal account ${merge.user_id_moved}` });
+  }
+  for (const [collection, ids] of Object.entries(merge.moved)) {
+    for (const id of ids) events.push({ action: 'update', collection, recordId: id, patientId: owner, details: note });
+  }
+  for (const id of merge.links_moved) {
+    events.push({ action: 'update', collection: 'patient_entity_links', recordId: id, patientId: owner, details: note });
+  }
+  return events;
+}
+
+/**
+ * Undo a merge: records it moved go back to the restored patient (unless they
+ * have since been moved elsewhere), deactivated links are reactivated, a
+ * moved portal account goes back and the merged record is active again. Records created on the survivor after the
+ * merge stay with the survivor.
+ */
+export async function unmergePatients(
+  db: StorageAdapter,
+  actor: Actor,
+  audit: AuditContext,
+  mergeId: string,
+  body: { reason?: string },
+): Promise<PatientMerge> {
+  const merge = (await db.findById(PATIENT_MERGES, mergeId)) as PatientMerge | null;
+  if (!merge) fail('Merge not found', 404);
+  if (merge.status !== 'merged') fail('Merge already undone', 409);
+  const survivor = await db.findById('patients', merge.survivor_id);
+  const merged = await db.findById('patients', merge.merged_id);
+  if (!survivor || !merged) fail('Patient not found', 404);
+  if (!canManage(actor, survivor)) fail('Forbidden', 403);
+  if (merged.merged_into !== survivor.id) fail('The merged patient has changed since the merge', 409);
+  const reason = String(body.reason || '').trim();
+  if (!reason) fail('reason is required', 422);
+
+  const now = new Date().toISOString();
+  const restored = await db.transaction(async (tx: StorageTransaction) => {
+    const moved: Record<string, string[]> = {};
+    for (const [collection, ids] of Object.entries(merge.moved)) {
+      for (const id of ids) {
+        const row = await tx.findById(collection, id);
+        if (!row || row.patient_id !== survivor.id) continue;
+        await tx.update(collection, id, { patient_id: merged.id, updated_at: now });
+        (moved[collection] ||= []).push(id);
+      }
+    }
+    const linksMoved: string[] = [];
+    for (const id of merge.links_moved) {
+      const link = await tx.findById('patient_entity_links', id);
+      if (!link || link.patient_id !== survivor.id) continue;
+      await tx.update('patient_entity_links', id, { patient_id: merged.id, updated_at: now });
+      linksMoved.push(id);
+    }
+    for (const id of merge.links_deactivated) {
+      if (await tx.findById('patient_entity_links', id)) await tx.update('patient_entity_links', id, { status: 'active', updated_at: now });
+    }
+    // The account goes back only if the survivor still has the one it was given.
+    const userIdMoved = merge.user_id_moved && survivor.user_id === merge.user_id_moved ? merge.user_id_moved : null;
+    if (userIdMoved) await tx.update('patients', survivor.id, { user_id: null, updated_at: now });
+    await tx.update('patients', merged.id, {
+      is_active: true,
+      merged_into: null,
+      merged_at: null,
+      ...(userIdMoved ? { user_id: userIdMoved } : {}),
+      updated_at: now,
+    });
+    if (merge.flag_id && (await tx.findById(DUPLICATE_FLAGS, merge.flag_id))) {
+      await tx.update(DUPLICATE_FLAGS, merge.flag_id, { status: 'dismissed', notes: `Unmerged: ${reason}`, resolved_by: actor.userId, resolved_at: now });
+    }
+    const updated = (await tx.update(PATIENT_MERGES, mergeId, {
+      status: 'unmerged',
+      unmerged_by: actor.userId,
+      unmerged_at: now,
+      unmerge_reason: reason,
+    })) as PatientMerge;
+    return { ...updated, moved, links_moved: linksMoved, user_id_moved: userIdMoved };
+  });
+
+  await appendTrail(db, audit, mergeTrail(restored, 'unmerge'));
+  await indexPatient(db, survivor.id);
+  await indexPatient(db, merged.id);
+  return (await db.findById(PATIENT_MERGES, mergeId)) as PatientMerge;
+}
+
+/** Merges involving patients the actor can manage, newest first. */
+export async function listMerges(db: StorageAdapter, actor: Actor, patientId?: string): Promise<PatientMerge[]> {
+  const merges = patientId
+    ? [
+      ...(await db.find(PATIENT_MERGES, { survivor_id: patientId })),
+      ...(await db.find(PATIENT_MERGES, { merged_id: patientId })),
+    ]
+    : await db.find(PATIENT_MERGES, {});
+  const out: PatientMerge[] = [];
+  for (const merge of merges as PatientMerge[]) {
+    const survivor = await db.findById('patients', merge.survivor_id);
+    if (survivor && canManage(actor, survivor)) out.push(merge);
+  }
+  return out.sort((a, b) => b.merged_at.localeCompare(a.merged_at));
+}
@@ -0,0 +1,300 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Blind-index patient search. Searchable demographics are kept in
+// patient_search_index as keyed hashes (HMAC-SHA256 under PHI_INDEX_KEY) of
+// their normalized form: surname, given name, date of birth, phone digits, MRN
+// and national ID (the last is used by duplicate matching). A search hashes its terms the same way and intersects indexed lookups,
+// so only the matched patients are decrypted, and only for the name snippet.
+import crypto from 'node:crypto';
+import type { StorageAdapter } from '@careconnect/db';
+import { openRecord } from './phi-encryption.ts';
+
+export const PATIENT_SEARCH_INDEX = 'patient_search_index';
+
+export type SearchTerm = 'surname' | 'given' | 'dob' | 'phone' | 'mrn' | 'national_id';
+
+/** Structured search; every criterion given must match. */
+export interface SearchCriteria {
+  /** Name words, each matched against surname or given name. */
+  names?: string[];
+  surname?: string;
+  dob?: string;
+  phone?: string;
+  mrn?: string;
+  /** MRN, patient code or patient id. */
+  identifier?: string;
+}
+
+export interface PatientSearchResult {
+  id: string;
+  patient_code: string;
+  name_snippet: string;
+  primary_entity_id: string;
+  is_active: boolean;
+}
+
+export interface SearchOptions {
+  entityId?: string;
+  limit?: number;
+  /** Row-level read check applied to every candidate. */
+  canRead: (patient: any) => boolean;
+}
+
+const DEFAULT_LIMIT = 50;
+const DEV_INDEX_SEED = 'careconnect-dev-phi-index-key';
+/** Local part of a phone number; drops country and trunk prefixes. */
+const PHONE_DIGITS = 10;
+const MIN_PHONE_DIGITS = 7;
+
+let indexKey: Buffer | null = null;
+
+/** PHI_INDEX_KEY (hex or base64, at least 32 bytes); a fixed development key outside production. */
+function loadIndexKey(): Buffer {
+  if (indexKey) return indexKey;
+  const value = process.env.PHI_INDEX_KEY;
+  if (value) {
+    indexKey = /^[0-9a-f]+$/i.test(value) && value.length % 2 === 0 ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+    if (indexKey.length < 32) throw new Error('PHI_INDEX_KEY must be at least 32 bytes');
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('PHI_INDEX_KEY is not configured');
+  } else {
+    console.warn('[patient-search] PHI_INDEX_KEY is not set; using the development index key');
+    indexKey = crypto.createHash('sha256').update(DEV_INDEX_SEED).digest();
+  }
+  return indexKey;
+}
+
+function normalizeName(value: string): string {
+  return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/** YYYY-MM-DD from ISO dates or day-first DD/MM/YYYY (DD-MM-YYYY, DD.MM.YYYY). */
+function normalizeDob(value: string): string {
+  const text = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(text);
+  if (dayFirst) return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  return '';
+}
+
+function normalizePhone(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-PHONE_DIGITS) : '';
+}
+
+function normalizeMrn(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+const NORMALIZE: Record<SearchTerm, (value: string) => string> = {
+  surname: normalizeName,
+  given: normalizeName,
+  dob: normalizeDob,
+  phone: normalizePhone,
+  mrn: normalizeMrn,
+  national_id: normalizeMrn,
+};
+
+/** Keyed hash of a normalized term, or null when the value normalizes to nothing. */
+export function blindIndex(term: SearchTerm, value: unknown): string | null {
+  if (value == null) return null;
+  const normalized = NORMALIZE[term](String(value));
+  if (!normalized) return null;
+  return crypto.createHmac('sha256', loadIndexKey()).update(`${term}:${normalized}`).digest('hex').slice(0, 32);
+}
+
+function isDate(token: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(token) || /^\d{1,2}[/.-]\d{1,2}[/.-]\d{4}$/.test(token);
+}
+
+/**
+ * Free-text query to criteria: a phone number (digits with spacing or +()-),
+ * dates of birth, name words, and anything else as an MRN / patient code / id.
+ */
+export function parseQuery(query: string): SearchCriteria {
+  const text = query.trim();
+  if (!text) return {};
+  if (/^[\d\s+()-]+$/.test(text) && normalizePhone(text) && !isDate(text)) {
+    const compact = text.replace(/\s/g, '');
+    return /^\+|\s|\(/.test(text) ? { phone: compact } : { identifier: compact };
+  }
+  const criteria: SearchCriteria = {};
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    if (isDate(token)) criteria.dob = token;
+    else if (/^[\p{L}'’-]+$/u.test(token)) (criteria.names ||= []).push(token);
+    else criteria.identifier = token;
+  }
+  return criteria;
+}
+
+function hasCriteria(criteria: SearchCriteria): boolean {
+  return !!(criteria.names?.length || criteria.surname || criteria.dob || criteria.phone || criteria.mrn || criteria.identifier);
+}
+
+/** Patient ids whose index holds the term. */
+export async function lookup(db: StorageAdapter, term: SearchTerm, value: unknown): Promise<Set<string>> {
+  const hash = blindIndex(term, value);
+  if (!hash) return new Set();
+  const rows = await db.find(PATIENT_SEARCH_INDEX, { hash });
+  return new Set(rows.map((r: any) => r.patient_id));
+}
+
+function union(...sets: Set<string>[]): Set<string> {
+  return new Set(sets.flatMap((s) => [...s]));
+}
+
+/** Patient ids matching every criterion given. */
+async function matchingIds(db: StorageAdapter, criteria: SearchCriteria): Promise<Set<string>> {
+  const sets: Set<string>[] = [];
+  for (const name of criteria.names || []) {
+    sets.push(union(await lookup(db, 'surname', name), await lookup(db, 'given', name)));
+  }
+  if (criteria.surname) sets.push(await lookup(db, 'surname', criteria.surname));
+  if (criteria.dob) sets.push(await lookup(db, 'dob', criteria.dob));
+  if (criteria.phone) sets.push(await lookup(db, 'phone', criteria.phone));
+  if (criteria.mrn) sets.push(await lookup(db, 'mrn', criteria.mrn));
+  if (criteria.identifier) {
+    const token = criteria.identifier;
+    const byCode = await db.find('patients', { patient_code: token.toUpperCase() });
+    const byId = await db.findById('patients', token);
+    sets.push(union(
+      await lookup(db, 'mrn', token),
+      await lookup(db, 'phone', token),
+      new Set([...byCode.map((p: any) => p.id), ...(byId ? [byId.id] : [])]),
+    ));
+  }
+  return sets.reduce((acc, set) => new Set([...acc].filter((id) => set.has(id))));
+}
+
+export function listOf(value: any): string[] {
+  if (value == null || value === '') return [];
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' && value.startsWith('[')) {
+    try {
+      return (JSON.parse(value) as any[]).map(String);
+    } catch {
+      return [value];
+    }
+  }
+  return [String(value)];
+}
+
+function nameWords(name: unknown): string[] {
+  return String(name || '').trim().split(/\s+/).filter(Boolean);
+}
+
+export function nameSnippet(name: unknown): string {
+  const words = nameWords(name);
+  if (words.length === 0) return '***';
+  return words.length > 1 ? `${words[0]} ${words[words.length - 1][0]}***` : `${words[0].substring(0, 3)}***`;
+}
+
+/** Rebuild one patient's index rows from the decrypted record and its MRN / national ID identifiers. */
+export async function indexPatient(db: StorageAdapter, patientId: string): Promise<number> {
+  const existing = await db.find(PATIENT_SEARCH_INDEX, { patient_id: patientId });
+  const stored = await db.findById('patients', patientId);
+  const wanted = new Map<string, SearchTerm>();
+  // Merged-away records drop out of search; unmerge re-indexes them.
+  if (stored && !stored.merged_into) {
+    const patient = await openRecord(db, 'patients', stored);
+    const add = (term: SearchTerm, value: unknown) => {
+      const hash = blindIndex(term, value);
+      if (hash) wanted.set(hash, term);
+    };
+    const words = nameWords(patient.encrypted_name);
+    if (words.length > 0) add('surname', words[words.length - 1]);
+    if (words.length > 1) add('given', words[0]);
+    add('dob', patient.encrypted_dob);
+    for (const phone of listOf(patient.encrypted_phones)) add('phone', phone);
+    for (const identifier of await db.find('patient_identifiers', { patient_id: patientId })) {
+      if (identifier.type !== 'mrn' && identifier.type !== 'national_id') continue;
+      add(identifier.type, (await openRecord(db, 'patient_identifiers', identifier)).encrypted_value);
+    }
+  }
+  for (const row of existing) {
+    if (wanted.has(row.hash)) wanted.delete(row.hash);
+    else await db.delete(PATIENT_SEARCH_INDEX, row.id);
+  }
+  for (const [hash, term] of wanted) {
+    await db.insert(PATIENT_SEARCH_INDEX, { patient_id: patientId, term, hash });
+  }
+  return stored && !stored.merged_into ? existing.length + wanted.size : 0;
+}
+
+/** Keep the index current after a /api/data write to a patient or identifier. */
+export async function reindexFor(db: StorageAdapter, collection: string, record: any): Promise<void> {
+  if (collection === 'patients' && record?.id) await indexPatient(db, record.id);
+  else if (collection === 'patient_identifiers' && record?.patient_id) await indexPatient(db, record.patient_id);
+}
+
+/** search:reindex. Re-derives every patient's index rows (after migration or an index key change). */
+export async function rebuildSearchIndex(db: StorageAdapter): Promise<{ patients: number; errors: string[] }> {
+  const errors: string[] = [];
+  let patients = 0;
+  const all = await db.find('patients', {});
+  for (const patient of all) {
+    try {
+      await indexPatient(db, patient.id);
+      patients++;
+    } catch (err: any) {
+      errors.push(`patient ${patient.id}: ${err.message}`);
+    }
+  }
+  const known = new Set(all.map((p: any) => p.id));
+  for (const row of await db.find(PATIENT_SEARCH_INDEX, {})) {
+    if (!known.has(row.patient_id)) await db.delete(PATIENT_SEARCH_INDEX, row.id);
+  }
+  return { patients, errors };
+}
+
+/**
+ * Active patients matching the criteria (all of the entity's patients when
+ * none are given), restricted to `entityId` and to what the caller may read.
+ */
+export async function searchPatients(
+  db: StorageAdapter,
+  criteria: SearchCriteria,
+  options: SearchOptions,
+): Promise<{ results: PatientSearchResult[]; records: any[] }> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const linked = options.entityId
+    ? new Set((await db.find('patient_entity_links', { entity_id: options.entityId, status: 'active' })).map((l: any) => l.patient_id))
+    : new Set<string>();
+  const inEntity = (p: any) => !options.entityId || p.primary_entity_id === options.entityId || linked.has(p.id);
+
+  let candidates: any[];
+  if (hasCriteria(criteria)) {
+    candidates = [];
+    for (const id of await matchingIds(db, criteria)) {
+      const patient = await db.findById('patients', id);
+      if (patient) candidates.push(patient);
+    }
+  } else if (options.entityId) {
+    candidates = await db.find('patients', { primary_entity_id: options.entityId });
+    for (const id of linked) {
+      if (!candidates.some((p) => p.id === id)) {
+        const patient = await db.findById('patients', id);
+        if (patient) candidates.push(patient);
+      }
+    }
+  } else {
+    candidates = [];
+  }
+
+  const records = candidates
+    .filter((p) => p.is_active !== false && inEntity(p) && options.canRead(p))
+    .sort((a, b) => String(a.patient_code).localeCompare(String(b.patient_code)))
+    .slice(0, limit);
+  const results: PatientSearchResult[] = [];
+  for (const record of records) {
+    const patient = await openRecord(db, 'patients', record);
+    results.push({
+      id: record.id,
+      patient_code: record.patient_code,
+      name_snippet: nameSnippet(patient.encrypted_name),
+      primary_entity_id: record.primary_entity_id,
+      is_active: record.is_active !== false,
+    });
+  }
+  return { results, records };
+}
@@ -0,0 +1,325 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Field-level envelope encryption for patient PHI. Each entity (or the whole
+// tenant, with PHI_KEY_SCOPE=tenant) gets an AES-256-GCM data key, stored in
+// encryption_keys wrapped by the master key from PHI_MASTER_KEY. A sealed value
+// reads `enc:v1:<data key id>:<iv|tag|ciphertext as base64url>` and its record
+// carries the key id in encryption_key_id. /api/data seals on write and opens on
+// read, so clients only see plaintext. Values in the legacy client-side base64
+// format (src/lib/encryption.ts) are opened as-is and sealed by rotateKeys.
+import crypto from 'node:crypto';
+import type { StorageAdapter } from '@careconnect/db';
+
+export const ENCRYPTION_KEYS = 'encryption_keys';
+
+/** Sealed fields per collection. */
+export const ENCRYPTED_FIELDS: Record<string, string[]> = {
+  patients: [
+    'encrypted_name',
+    'encrypted_dob',
+    'encrypted_sex',
+    'encrypted_phones',
+    'encrypted_emails',
+    'encrypted_address',
+    'encrypted_emergency_contacts',
+  ],
+  patient_identifiers: ['encrypted_value'],
+  access_grants: ['encrypted_grantee_contact', 'encrypted_pin'],
+  sso_connections: ['encrypted_client_secret'],
+};
+
+const PREFIX = 'enc:v1:';
+const LEGACY_SUFFIX = '|careconnect-healthcare-2025';
+const TENANT_SCOPE = 'tenant';
+const PER_TENANT = process.env.PHI_KEY_SCOPE === 'tenant';
+const DEV_MASTER_SEED = 'careconnect-dev-phi-master-key';
+
+export interface EncryptionKeyRecord {
+  id?: string;
+  /** `entity:<id>` or `tenant`. */
+  scope: string;
+  wrapped_key: string;
+  master_key_id: string;
+  status: 'active' | 'retired';
+  created_at?: string;
+  retired_at?: string;
+}
+
+export interface RotationSummary {
+  retired_keys: number;
+  rewrapped_keys: number;
+  collections: Record<string, { scanned: number; resealed: number; legacy_values: number }>;
+  errors: string[];
+}
+
+interface DataKey {
+  id: string;
+  key: Buffer;
+}
+
+interface MasterKeys {
+  current: { id: string; key: Buffer };
+  all: Map<string, Buffer>;
+}
+
+let masterKeys: MasterKeys | null = null;
+/** Unwrapped data keys by id. */
+const dataKeys = new Map<string, Buffer>();
+/** Active data key per scope; a pending promise so concurrent writers share one new key. */
+const activeKeys = new Map<string, Promise<DataKey>>();
+
+function parseKey(value: string, name: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) throw new Error(`${name} must be 32 bytes (64 hex characters or base64)`);
+  return key;
+}
+
+/**
+ * The current master key (PHI_MASTER_KEY, id PHI_MASTER_KEY_ID) plus previous
+ * ones from PHI_PREVIOUS_MASTER_KEYS="id:key,..." that still unwrap data keys
+ * until a rotation re-wraps them. Outside production a fixed development key
+ * stands in when PHI_MASTER_KEY is unset.
+ */
+function loadMasterKeys(): MasterKeys {
+  if (masterKeys) return masterKeys;
+  const all = new Map<string, Buffer>();
+  for (const entry of (process.env.PHI_PREVIOUS_MASTER_KEYS || '').split(',').map((e) => e.trim()).filter(Boolean)) {
+    const at = entry.indexOf(':');
+    if (at < 1) throw new Error('PHI_PREVIOUS_MASTER_KEYS entries must look like <id>:<key>');
+    all.set(entry.slice(0, at), parseKey(entry.slice(at + 1), `PHI_PREVIOUS_MASTER_KEYS ${entry.slice(0, at)}`));
+  }
+  let current: MasterKeys['current'];
+  if (process.env.PHI_MASTER_KEY) {
+    current = { id: process.env.PHI_MASTER_KEY_ID || 'master-1', key: parseKey(process.env.PHI_MASTER_KEY, 'PHI_MASTER_KEY') };
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('PHI_MASTER_KEY is not configured');
+  } else {
+    console.warn('[phi-encryption] PHI_MASTER_KEY is not set; using the development master key');
+    current = { id: 'dev', key: crypto.createHash('sha256').update(DEV_MASTER_SEED).digest() };
+  }
+  all.set(current.id, current.key);
+  masterKeys = { current, all };
+  return masterKeys;
+}
+
+function sealBytes(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function openBytes(key: Buffer, sealed: string, aad: string): Buffer {
+  const buf = Buffer.from(sealed, 'base64url');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, buf.subarray(0, 12));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(buf.subarray(12, 28));
+  return Buffer.concat([decipher.update(buf.subarray(28)), decipher.final()]);
+}
+
+function wrapAad(scope: string): string {
+  return `${ENCRYPTION_KEYS}:${scope}`;
+}
+
+/** Binds a sealed value to its field, so ciphertext cannot be moved between fields. */
+function fieldAad(collection: string, field: string): string {
+  return `${collection}.${field}`;
+}
+
+function unwrap(record: EncryptionKeyRecord): Buffer {
+  const master = loadMasterKeys().all.get(record.master_key_id);
+  if (!master) throw new Error(`Master key ${record.master_key_id} for data key ${record.id} is not configured`);
+  return openBytes(master, record.wrapped_key, wrapAad(record.scope));
+}
+
+async function keyById(db: StorageAdapter, id: string): Promise<Buffer> {
+  const cached = dataKeys.get(id);
+  if (cached) return cached;
+  const record = (await db.findById(ENCRYPTION_KEYS, id)) as EncryptionKeyRecord | null;
+  if (!record) throw new Error(`Unknown PHI data key ${id}`);
+  const key = unwrap(record);
+  dataKeys.set(id, key);
+  return key;
+}
+
+async function createDataKey(db: StorageAdapter, scope: string): Promise<DataKey> {
+  const master = loadMasterKeys().current;
+  const key = crypto.randomBytes(32);
+  const record = await db.insert(ENCRYPTION_KEYS, {
+    scope,
+    wrapped_key: sealBytes(master.key, key, wrapAad(scope)),
+    master_key_id: master.id,
+    status: 'active' as const,
+  });
+  dataKeys.set(record.id, key);
+  return { id: record.id, key };
+}
+
+function activeKey(db: StorageAdapter, scope: string): Promise<DataKey> {
+  let pending = activeKeys.get(scope);
+  if (!pending) {
+    pending = (async () => {
+      const records = (await db.find(ENCRYPTION_KEYS, { scope, status: 'active' })) as EncryptionKeyRecord[];
+      const latest = records.sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))[0];
+      if (!latest?.id) return createDataKey(db, scope);
+      return { id: latest.id, key: await keyById(db, latest.id) };
+    })();
+    pending.catch(() => activeKeys.delete(scope));
+    activeKeys.set(scope, pending);
+  }
+  return pending;
+}
+
+/** Key scope for a record: its entity (directly or through the patient), else the tenant. */
+async function scopeOf(db: StorageAdapter, collection: string, record: any): Promise<string> {
+  if (PER_TENANT) return TENANT_SCOPE;
+  let entityId = collection === 'patients' ? record.primary_entity_id : record.entity_id;
+  if (!entityId && record.patient_id) {
+    entityId = ((await db.findById('patients', record.patient_id)) as any)?.primary_entity_id;
+  }
+  return entityId ? `entity:${entityId}` : TENANT_SCOPE;
+}
+
+/** Text stored in the legacy client-side format (base64 of `text|SECRET_KEY`), or null. */
+function legacyPlaintext(value: string): string | null {
+  if (value.length % 4 !== 0 || !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) return null;
+  // btoa() only accepts Latin-1, so latin1 decoding restores the original string.
+  const decoded = Buffer.from(value, 'base64').toString('latin1');
+  return decoded.endsWith(LEGACY_SUFFIX) ? decoded.slice(0, -LEGACY_SUFFIX.length) : null;
+}
+
+/** Plaintext for a stored value that is not sealed yet (legacy, plain string or seeded JSON). */
+function plaintextOf(value: any): string {
+  if (typeof value !== 'string') return JSON.stringify(value);
+  return legacyPlaintext(value) ?? value;
+}
+
+export function isSealed(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+function keyIdOf(value: unknown): string | null {
+  if (!isSealed(value)) return null;
+  const rest = value.slice(PREFIX.length);
+  return rest.slice(0, rest.indexOf(':'));
+}
+
+function sealValue(dataKey: DataKey, collection: string, field: string, plaintext: string): string {
+  return `${PREFIX}${dataKey.id}:${sealBytes(dataKey.key, Buffer.from(plaintext, 'utf8'), fieldAad(collection, field))}`;
+}
+
+/**
+ * Seal the PHI fields present in `record` (a new record or an update patch)
+ * under the active key of the record's scope, tagging it with the key id.
+ * `existing` supplies the scope fields a patch does not repeat.
+ */
+export async function sealRecord<T extends Record<string, any>>(
+  db: StorageAdapter,
+  collection: string,
+  record: T,
+  existing?: any,
+): Promise<T> {
+  const fields = ENCRYPTED_FIELDS[collection];
+  if (!fields) return record;
+  const out: any = { ...record };
+  delete out.encryption_key_id;
+  const pending = fields.filter((f) => out[f] != null && out[f] !== '' && !isSealed(out[f]));
+  if (pending.length === 0) return out;
+  const dataKey = await activeKey(db, await scopeOf(db, collection, { ...existing, ...record }));
+  for (const f of pending) out[f] = sealValue(dataKey, collection, f, plaintextOf(out[f]));
+  out.encryption_key_id = dataKey.id;
+  return out;
+}
+
+/** Plaintext of a stored PHI value; legacy and not-yet-sealed values pass through decoded. */
+export async function openValue(db: StorageAdapter, collection: string, field: string, value: any): Promise<any> {
+  if (typeof value !== 'string') return value;
+  if (!isSealed(value)) return legacyPlaintext(value) ?? value;
+  const rest = value.slice(PREFIX.length);
+  const at = rest.indexOf(':');
+  const key = await keyById(db, rest.slice(0, at));
+  return openBytes(key, rest.slice(at + 1), fieldAad(collection, field)).toString('utf8');
+}
+
+export async function openRecord<T = any>(db: StorageAdapter, collection: string, record: T): Promise<T> {
+  const fields = ENCRYPTED_FIELDS[collection];
+  if (!fields || !record || typeof record !== 'object') return record;
+  const out: any = { ...record };
+  for (const f of fields) {
+    if (f in out) out[f] = await openValue(db, collection, f, out[f]);
+  }
+  return out;
+}
+
+export async function openRecords<T = any>(db: StorageAdapter, collection: string, records: T[]): Promise<T[]> {
+  if (!ENCRYPTED_FIELDS[collection]) return records;
+  const out: T[] = [];
+  for (const record of records) out.push(await openRecord(db, collection, record));
+  return out;
+}
+
+/** Constant-time comparison of a sealed secret (e.g. a grant PIN) with a candidate. */
+export async function matchesSealed(db: StorageAdapter, collection: string, field: string, stored: any, candidate: string): Promise<boolean> {
+  const plaintext = String(await openValue(db, collection, field, stored));
+  const digest = (s: string) => crypto.createHash('sha256').update(s).digest();
+  return crypto.timingSafeEqual(digest(plaintext), digest(candidate));
+}
+
+/**
+ * keys:rotate. Unless `rotate` is false every active data key is retired (new
+ * ones are created on first use), and keys wrapped by a previous master key are
+ * re-wrapped under the current one. Then every row of the ENCRYPTED_FIELDS
+ * collections is resealed under its scope's active key, which also seals
+ * legacy base64 and plaintext values. Rows already under the active key are
+ * skipped, so an interrupted run can simply be repeated.
+ */
+export async function rotateKeys(db: StorageAdapter, options: { rotate?: boolean } = {}): Promise<RotationSummary> {
+  const summary: RotationSummary = { retired_keys: 0, rewrapped_keys: 0, collections: {}, errors: [] };
+  const master = loadMasterKeys().current;
+  const now = new Date().toISOString();
+
+  for (const record of (await db.find(ENCRYPTION_KEYS, {})) as EncryptionKeyRecord[]) {
+    if (!record.id) continue;
+    try {
+      const patch: Partial<EncryptionKeyRecord> = {};
+      if (options.rotate !== false && record.status === 'active') {
+        Object.assign(patch, { status: 'retired', retired_at: now });
+        summary.retired_keys++;
+      }
+      if (record.master_key_id !== master.id) {
+        const key = await keyById(db, record.id);
+        Object.assign(patch, { wrapped_key: sealBytes(master.key, key, wrapAad(record.scope)), master_key_id: master.id });
+        summary.rewrapped_keys++;
+      }
+      if (Object.keys(patch).length > 0) await db.update(ENCRYPTION_KEYS, record.id, patch);
+    } catch (err: any) {
+      summary.errors.push(`${ENCRYPTION_KEYS} ${record.id}: ${err.message}`);
+    }
+  }
+  activeKeys.clear();
+
+  for (const [collection, fields] of Object.entries(ENCRYPTED_FIELDS)) {
+    const stats = { scanned: 0, resealed: 0, legacy_values: 0 };
+    for (const row of await db.find(collection, {})) {
+      stats.scanned++;
+      try {
+        const dataKey = await activeKey(db, await scopeOf(db, collection, row));
+        const patch: Record<string, string> = {};
+        for (const f of fields) {
+          const value = row[f];
+          if (value == null || value === '' || keyIdOf(value) === dataKey.id) continue;
+          if (typeof value === 'string' && !isSealed(value) && legacyPlaintext(value) !== null) stats.legacy_values++;
+          const plaintext = isSealed(value) ? await openValue(db, collection, f, value) : plaintextOf(value);
+          patch[f] = sealValue(dataKey, collection, f, plaintext);
+        }
+        if (Object.keys(patch).length === 0) continue;
+        await db.update(collection, row.id, { ...patch, encryption_key_id: dataKey.id });
+        stats.resealed++;
+      } catch (err: any) {
+        summary.errors.push(`${collection} ${row.id}: ${err.message}`);
+      }
+    }
+    summary.collections[collection] = stats;
+  }
+  return summary;
+}
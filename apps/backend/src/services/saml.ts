@@ -0,0 +1,417 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// SAML 2.0 service-provider protocol — no external deps. Builds HTTP-Redirect
+// AuthnRequests and SP metadata, and validates HTTP-POST Responses: a strict
+// XML parser (no DTDs, so no entity expansion or XXE), exclusive XML
+// canonicalization and XML-DSig verification against the IdP certificate.
+// Only the element the signature covers is read, which defeats signature
+// wrapping; encrypted assertions are not supported.
+import crypto from 'node:crypto';
+import zlib from 'node:zlib';
+
+const NS = {
+  protocol: 'urn:oasis:names:tc:SAML:2.0:protocol',
+  assertion: 'urn:oasis:names:tc:SAML:2.0:assertion',
+  dsig: 'http://www.w3.org/2000/09/xmldsig#',
+  metadata: 'urn:oasis:names:tc:SAML:2.0:metadata',
+  xml: 'http://www.w3.org/XML/1998/namespace',
+};
+
+const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+const ENVELOPED = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': 'sha256',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512': 'sha512',
+  'http://www.w3.org/2000/09/xmldsig#rsa-sha1': 'sha1',
+};
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'sha256',
+  'http://www.w3.org/2001/04/xmlenc#sha512': 'sha512',
+  'http://www.w3.org/2000/09/xmldsig#sha1': 'sha1',
+};
+const STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+const BEARER = 'urn:oasis:names:tc:SAML:2.0:cm:bearer';
+const CLOCK_SKEW_MS = 3 * 60 * 1000;
+
+export interface XmlAttribute {
+  prefix: string | null;
+  local: string;
+  value: string;
+}
+
+export interface XmlElement {
+  prefix: string | null;
+  local: string;
+  attributes: XmlAttribute[];
+  /** xmlns declarations on this element; '' is the default namespace. */
+  namespaces: Record<string, string>;
+  children: Array<XmlElement | string>;
+  parent: XmlElement | null;
+}
+
+export interface SamlAssertion {
+  issuer: string;
+  nameId: string;
+  sessionIndex: string | null;
+  /** Attribute values keyed by Name (and FriendlyName when present). */
+  attributes: Record<string, string[]>;
+}
+
+export interface SamlResponseOptions {
+  idpCertificate: string;
+  idpEntityId?: string;
+  spEntityId: string;
+  acsUrl: string;
+  /** ID of the AuthnRequest this response answers. */
+  requestId: string;
+  now?: number;
+}
+
+function fail(message: string): never {
+  throw Object.assign(new Error(`SAML: ${message}`), { status: 401 });
+}
+
+// --- XML parsing ---
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (whole, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    if (!(ref in ENTITIES)) fail(`unknown entity ${whole}`);
+    return ENTITIES[ref];
+  });
+}
+
+function splitName(name: string): { prefix: string | null; local: string } {
+  const at = name.indexOf(':');
+  return at === -1 ? { prefix: null, local: name } : { prefix: name.slice(0, at), local: name.slice(at + 1) };
+}
+
+/** Parse a document into its root element. Comments and processing instructions are dropped. */
+export function parseXml(source: string): XmlElement {
+  const xml = source.replace(/\r\n?/g, '\n');
+  if (/<!DOCTYPE|<!ENTITY/i.test(xml)) fail('DTDs are not allowed');
+  let pos = 0;
+  let root: XmlElement | null = null;
+  let current: XmlElement | null = null;
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const textEnd = lt === -1 ? xml.length : lt;
+    if (textEnd > pos) {
+      const text = xml.slice(pos, textEnd);
+      if (current) current.children.push(decodeEntities(text));
+      else if (text.trim()) fail('text outside the root element');
+    }
+    if (lt === -1) break;
+
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt);
+      if (end === -1) fail('unterminated comment');
+      pos = end + 3;
+    } else if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt);
+      if (end === -1 || !current) fail('bad CDATA section');
+      current.children.push(xml.slice(lt + 9, end));
+      pos = end + 3;
+    } else if (xml.startsWith('<?', lt)) {
+      const end = xml.indexOf('?>', lt);
+      if (end === -1) fail('unterminated processing instruction');
+      pos = end + 2;
+    } else if (xml[lt + 1] === '/') {
+      const end = xml.indexOf('>', lt);
+      const name = xml.slice(lt + 2, end).trim();
+      const { prefix, local } = splitName(name);
+      if (!current || current.prefix !== prefix || current.local !== local) fail(`mismatched </${name}>`);
+      current = current.parent;
+      pos = end + 1;
+    } else {
+      const tag = /^<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(lt));
+      if (!tag) fail('malformed tag');
+      const element: XmlElement = { ...splitName(tag[1]), attributes: [], namespaces: {}, children: [], parent: current };
+      const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attr: RegExpExecArray | null;
+      while ((attr = attrPattern.exec(tag[2]))) {
+        // Attribute-value normalization: literal tabs and newlines read as spaces.
+        const value = decodeEntities((attr[2] ?? attr[3]).replace(/[\t\n]/g, ' '));
+        if (attr[1] === 'xmlns') element.namespaces[''] = value;
+        else if (attr[1].startsWith('xmlns:')) element.namespaces[attr[1].slice(6)] = value;
+        else element.attributes.push({ ...splitName(attr[1]), value });
+      }
+      if (current) current.children.push(element);
+      else if (root) fail('more than one root element');
+      else root = element;
+      if (!tag[3]) current = element;
+      pos = lt + tag[0].length;
+    }
+  }
+  if (!root || current) fail('incomplete document');
+  return root;
+}
+
+/** Namespace URI bound to `prefix` ('' for the default namespace) at `element`. */
+function namespaceOf(element: XmlElement, prefix: string): string {
+  if (prefix === 'xml') return NS.xml;
+  for (let el: XmlElement | null = element; el; el = el.parent) {
+    if (prefix in el.namespaces) return el.namespaces[prefix];
+  }
+  return '';
+}
+
+function is(element: XmlElement, ns: string, local: string): boolean {
+  return element.local === local && namespaceOf(element, element.prefix ?? '') === ns;
+}
+
+function childElements(element: XmlElement, ns?: string, local?: string): XmlElement[] {
+  return element.children.filter(
+    (c): c is XmlElement => typeof c !== 'string' && (!local || is(c, ns!, local)),
+  );
+}
+
+function child(element: XmlElement, ns: string, local: string): XmlElement | null {
+  return childElements(element, ns, local)[0] || null;
+}
+
+function descendants(element: XmlElement, ns: string, local: string, out: XmlElement[] = []): XmlElement[] {
+  for (const c of childElements(element)) {
+    if (is(c, ns, local)) out.push(c);
+    descendants(c, ns, local, out);
+  }
+  return out;
+}
+
+function attribute(element: XmlElement | null, local: string): string | null {
+  return element?.attributes.find((a) => a.prefix === null && a.local === local)?.value ?? null;
+}
+
+function textOf(element: XmlElement | null): string {
+  if (!element) return '';
+  return element.children.map((c) => (typeof c === 'string' ? c : textOf(c))).join('').trim();
+}
+
+// --- Exclusive canonicalization (xml-exc-c14n#, without comments) ---
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;');
+}
+
+/**
+ * Canonical form of `element`'s subtree. `rendered` holds the namespace
+ * bindings already output by canonical ancestors; `exclude` is the enveloped
+ * Signature to leave out.
+ */
+function canonicalize(
+  element: XmlElement,
+  inclusive: string[] = [],
+  exclude: XmlElement | null = null,
+  rendered: Map<string, string> = new Map(),
+): string {
+  const qname = (prefix: string | null, local: string) => (prefix ? `${prefix}:${local}` : local);
+  const used = new Set<string>([element.prefix ?? '']);
+  for (const a of element.attributes) if (a.prefix && a.prefix !== 'xml') used.add(a.prefix);
+  for (const prefix of inclusive) {
+    const key = prefix === '#default' ? '' : prefix;
+    if (namespaceOf(element, key)) used.add(key);
+  }
+
+  const scope = new Map(rendered);
+  const declarations: string[] = [];
+  for (const prefix of [...used].sort()) {
+    const uri = namespaceOf(element, prefix);
+    if ((scope.get(prefix) ?? '') === uri) continue;
+    scope.set(prefix, uri);
+    declarations.push(prefix ? ` xmlns:${prefix}="${escapeAttribute(uri)}"` : ` xmlns="${escapeAttribute(uri)}"`);
+  }
+
+  const attributes = element.attributes
+    .map((a) => ({ a, uri: a.prefix ? namespaceOf(element, a.prefix) : '' }))
+    .sort((x, y) => (x.uri === y.uri ? (x.a.local < y.a.local ? -1 : 1) : x.uri < y.uri ? -1 : 1))
+    .map(({ a }) => ` ${qname(a.prefix, a.local)}="${escapeAttribute(a.value)}"`);
+
+  let out = `<${qname(element.prefix, element.local)}${declarations.join('')}${attributes.join('')}>`;
+  for (const c of element.children) {
+    if (typeof c === 'string') out += escapeText(c);
+    else if (c !== exclude) out += canonicalize(c, inclusive, exclude, scope);
+  }
+  return `${out}</${qname(element.prefix, element.local)}>`;
+}
+
+// --- XML signature ---
+
+function certificateKey(certificate: string): crypto.KeyObject {
+  const body = certificate.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+  const pem = `-----BEGIN CERTIFICATE-----\n${body.match(/.{1,64}/g)?.join('\n')}\n-----END CERTIFICATE-----\n`;
+  return new crypto.X509Certificate(pem).publicKey;
+}
+
+function inclusivePrefixes(transformOrMethod: XmlElement): string[] {
+  const inclusive = childElements(transformOrMethod).find((c) => c.local === 'InclusiveNamespaces');
+  return (inclusive && attribute(inclusive, 'PrefixList')?.split(/\s+/).filter(Boolean)) || [];
+}
+
+/**
+ * Verify the enveloped signature directly under `signed` and return true if it
+ * covers `signed` itself. The referenced ID must be unique in the document.
+ */
+function verifyEnvelopedSignature(document: XmlElement, signed: XmlElement, certificate: string): boolean {
+  const signature = child(signed, NS.dsig, 'Signature');
+  if (!signature) return false;
+  const signedInfo = child(signature, NS.dsig, 'SignedInfo');
+  const signatureValue = textOf(child(signature, NS.dsig, 'SignatureValue'));
+  if (!signedInfo || !signatureValue) fail('incomplete signature');
+
+  const c14nMethod = child(signedInfo, NS.dsig, 'CanonicalizationMethod');
+  if (attribute(c14nMethod, 'Algorithm') !== EXC_C14N) fail('unsupported canonicalization');
+  const hash = SIGNATURE_ALGORITHMS[attribute(child(signedInfo, NS.dsig, 'SignatureMethod'), 'Algorithm') || ''];
+  if (!hash) fail('unsupported signature algorithm');
+
+  const references = childElements(signedInfo, NS.dsig, 'Reference');
+  if (references.length !== 1) fail('expected exactly one signature reference');
+  const reference = references[0];
+  const id = attribute(signed, 'ID');
+  if (!id || attribute(reference, 'URI') !== `#${id}`) fail('signature does not reference the signed element');
+  const sameId = [document, ...descendantsAll(document)].filter((el) => attribute(el, 'ID') === id);
+  if (sameId.length !== 1) fail('duplicate ID attribute');
+
+  let inclusive: string[] = [];
+  const transforms = child(reference, NS.dsig, 'Transforms');
+  for (const transform of transforms ? childElements(transforms, NS.dsig, 'Transform') : []) {
+    const algorithm = attribute(transform, 'Algorithm');
+    if (algorithm === EXC_C14N) inclusive = inclusivePrefixes(transform);
+    else if (algorithm !== ENVELOPED) fail(`unsupported transform ${algorithm}`);
+  }
+  const digestAlgorithm = DIGEST_ALGORITHMS[attribute(child(reference, NS.dsig, 'DigestMethod'), 'Algorithm') || ''];
+  if (!digestAlgorithm) fail('unsupported digest algorithm');
+  const digest = crypto.createHash(digestAlgorithm).update(canonicalize(signed, inclusive, signature)).digest('base64');
+  if (digest !== textOf(child(reference, NS.dsig, 'DigestValue')).replace(/\s+/g, '')) fail('digest mismatch');
+
+  const canonicalSignedInfo = canonicalize(signedInfo, inclusivePrefixes(c14nMethod!));
+  const ok = crypto.verify(hash, Buffer.from(canonicalSignedInfo), certificateKey(certificate), Buffer.from(signatureValue.replace(/\s+/g, ''), 'base64'));
+  if (!ok) fail('signature verification failed');
+  return true;
+}
+
+function descendantsAll(element: XmlElement, out: XmlElement[] = []): XmlElement[] {
+  for (const c of childElements(element)) {
+    out.push(c);
+    descendantsAll(c, out);
+  }
+  return out;
+}
+
+// --- Protocol ---
+
+function checkWindow(notBefore: string | null, notOnOrAfter: string | null, now: number, what: string): void {
+  if (notBefore && Date.parse(notBefore) - CLOCK_SKEW_MS > now) fail(`${what} not yet valid`);
+  if (notOnOrAfter && Date.parse(notOnOrAfter) + CLOCK_SKEW_MS <= now) fail(`${what} expired`);
+}
+
+/**
+ * Validate a base64 SAMLResponse from the ACS POST and return its assertion.
+ * The assertion (or the whole response) must carry a valid signature, answer
+ * `requestId`, be addressed to this SP and be inside its validity window.
+ */
+export function validateSamlResponse(samlResponse: string, options: SamlResponseOptions): SamlAssertion {
+  const now = options.now ?? Date.now();
+  const document = parseXml(Buffer.from(samlResponse, 'base64').toString('utf8'));
+  if (!is(document, NS.protocol, 'Response')) fail('not a SAML Response');
+
+  const statusCode = child(child(document, NS.protocol, 'Status') || document, NS.protocol, 'StatusCode');
+  if (!statusCode || attribute(statusCode, 'Value') !== STATUS_SUCCESS) {
+    const message = textOf(child(child(document, NS.protocol, 'Status') || document, NS.protocol, 'StatusMessage'));
+    fail(`identity provider refused the sign-in${message ? `: ${message}` : ''}`);
+  }
+  const destination = attribute(document, 'Destination');
+  if (destination && destination !== options.acsUrl) fail('response sent to another destination');
+  if (child(document, NS.assertion, 'EncryptedAssertion')) fail('encrypted assertions are not supported');
+
+  const assertions = childElements(document, NS.assertion, 'Assertion');
+  if (assertions.length !== 1) fail('expected exactly one assertion');
+  const assertion = assertions[0];
+  const signed =
+    verifyEnvelopedSignature(document, assertion, options.idpCertificate) ||
+    verifyEnvelopedSignature(document, document, options.idpCertificate);
+  if (!signed) fail('response is not signed');
+
+  const issuer = textOf(child(assertion, NS.assertion, 'Issuer'));
+  if (options.idpEntityId && issuer !== options.idpEntityId) fail('unexpected issuer');
+
+  const conditions = child(assertion, NS.assertion, 'Conditions');
+  if (conditions) {
+    checkWindow(attribute(conditions, 'NotBefore'), attribute(conditions, 'NotOnOrAfter'), now, 'assertion');
+    const audiences = descendants(conditions, NS.assertion, 'Audience').map(textOf);
+    if (audiences.length && !audiences.includes(options.spEntityId)) fail('assertion is for another audience');
+  }
+
+  const subject = child(assertion, NS.assertion, 'Subject');
+  const nameId = textOf(subject && child(subject, NS.assertion, 'NameID'));
+  if (!subject || !nameId) fail('assertion has no subject');
+  const bearer = childElements(subject, NS.assertion, 'SubjectConfirmation').find((c) => attribute(c, 'Method') === BEARER);
+  const confirmation = bearer && child(bearer, NS.assertion, 'SubjectConfirmationData');
+  if (!confirmation) fail('missing bearer subject confirmation');
+  if (attribute(confirmation, 'Recipient') !== options.acsUrl) fail('subject confirmed for another recipient');
+  if (attribute(confirmation, 'InResponseTo') !== options.requestId) fail('response does not answer this sign-in');
+  checkWindow(attribute(confirmation, 'NotBefore'), attribute(confirmation, 'NotOnOrAfter'), now, 'subject confirmation');
+
+  const attributes: Record<string, string[]> = {};
+  for (const statement of childElements(assertion, NS.assertion, 'AttributeStatement')) {
+    for (const attr of childElements(statement, NS.assertion, 'Attribute')) {
+      const values = childElements(attr, NS.assertion, 'AttributeValue').map(textOf);
+      for (const key of [attribute(attr, 'Name'), attribute(attr, 'FriendlyName')]) {
+        if (key) attributes[key] = [...(attributes[key] || []), ...values];
+      }
+    }
+  }
+  const authn = child(assertion, NS.assertion, 'AuthnStatement');
+  return { issuer, nameId, sessionIndex: authn && attribute(authn, 'SessionIndex'), attributes };
+}
+
+function escapeXml(value: string): string {
+  return escapeAttribute(value).replace(/>/g, '&gt;');
+}
+
+/** HTTP-Redirect binding URL for a new AuthnRequest; keep `requestId` to check InResponseTo. */
+export function buildAuthnRequestUrl(options: {
+  idpSsoUrl: string;
+  spEntityId: string;
+  acsUrl: string;
+  relayState: string;
+}): { url: string; requestId: string } {
+  const requestId = `_${crypto.randomBytes(20).toString('hex')}`;
+  const xml =
+    `<samlp:AuthnRequest xmlns:samlp="${NS.protocol}" xmlns:saml="${NS.assertion}" ID="${requestId}" Version="2.0"` +
+    ` IssueInstant="${new Date().toISOString()}" Destination="${escapeXml(options.idpSsoUrl)}"` +
+    ` AssertionConsumerServiceURL="${escapeXml(options.acsUrl)}" ProtocolBinding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST">` +
+    `<saml:Issuer>${escapeXml(options.spEntityId)}</saml:Issuer>` +
+    `<samlp:NameIDPolicy Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress" AllowCreate="true"/>` +
+    `</samlp:AuthnRequest>`;
+  const url = new URL(options.idpSsoUrl);
+  url.searchParams.set('SAMLRequest', zlib.deflateRawSync(Buffer.from(xml)).toString('base64'));
+  url.searchParams.set('RelayState', options.relayState);
+  return { url: url.toString(), requestId };
+}
+
+/** SP metadata document for the IdP administrator. */
+export function buildSpMetadata(options: { spEntityId: string; acsUrl: string }): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<md:EntityDescriptor xmlns:md="${NS.metadata}" entityID="${escapeXml(options.spEntityId)}">` +
+    `<md:SPSSODescriptor AuthnRequestsSigned="false" WantAssertionsSigned="true" protocolSupportEnumeration="${NS.protocol}">` +
+    `<md:NameIDFormat>urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress</md:NameIDFormat>` +
+    `<md:AssertionConsumerService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="${escapeXml(options.acsUrl)}" index="0" isDefault="true"/>` +
+    `</md:SPSSODescriptor></md:EntityDescriptor>\n`
+  );
+}
@@ -0,0 +1,185 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Server-side sessions. Each sign-in opens a session row in session_tokens
+// (type 'session') that records the device and holds the hash of a refresh
+// token. The short-lived access token names the session, so revoking the row
+// signs the device out on its next request. Refresh tokens rotate on every use;
+// presenting an already-rotated token revokes the session as likely stolen.
+import crypto from 'node:crypto';
+import type { StorageAdapter } from '@careconnect/db';
+import { describeDevice, type LoginContext } from './login-throttle.ts';
+
+export const SESSION_TOKENS = 'session_tokens';
+
+/** Hard cap on a session's life, however often it is refreshed. */
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type RevokeReason = 'logout' | 'user_revoked' | 'admin_logout' | 'password_reset' | 'mfa_disabled' | 'refresh_reuse';
+
+export interface SessionRecord {
+  id: string;
+  user_id: string;
+  type: 'session';
+  /** sha256 of the current refresh token. */
+  token: string;
+  /** sha256 of the refresh token it replaced, kept to detect reuse. */
+  previous_token: string | null;
+  device_label: string;
+  user_agent: string;
+  ip: string;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  revoked_reason: RevokeReason | null;
+}
+
+/** What the device list shows; token hashes never leave the backend. */
+export interface SessionSummary {
+  id: string;
+  device_label: string;
+  user_agent: string;
+  ip: string;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+function fail(message: string, status: number): never {
+  throw Object.assign(new Error(message), { status });
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken(sessionId: string): string {
+  return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function isLive(row: any, now = Date.now()): row is SessionRecord {
+  return !!row && row.type === 'session' && !row.revoked_at && Date.parse(row.expires_at) > now;
+}
+
+/** Open a session for a successful sign-in. `ttlMs` is how long the refresh token stays valid unused. */
+export async function createSession(
+  db: StorageAdapter,
+  userId: string,
+  context: LoginContext,
+  ttlMs: number,
+): Promise<{ session: SessionRecord; refreshToken: string }> {
+  const now = new Date();
+  const session = (await db.insert(SESSION_TOKENS, {
+    user_id: userId,
+    type: 'session',
+    token: '',
+    previous_token: null,
+    device_label: describeDevice(context.userAgent),
+    user_agent: context.userAgent.slice(0, 300),
+    ip: context.ip,
+    created_at: now.toISOString(),
+    last_used_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+    revoked_at: null,
+    revoked_reason: null,
+  })) as SessionRecord;
+  const refreshToken = newRefreshToken(session.id);
+  const saved = (await db.update(SESSION_TOKENS, session.id, { token: hashToken(refreshToken) })) as SessionRecord;
+  return { session: saved, refreshToken };
+}
+
+/**
+ * Swap a refresh token for a new one. The session's idle expiry slides
+ * forward (up to the 30-day cap). Replaying the previous token revokes the
+ * session, since either the client or an attacker holds a stolen copy.
+ */
+export async function refreshSession(
+  db: StorageAdapter,
+  refreshToken: string,
+  context: LoginContext,
+  ttlMs: number,
+): Promise<{ session: SessionRecord; refreshToken: string }> {
+  const sessionId = String(refreshToken || '').split('.')[0];
+  const row = sessionId ? ((await db.findById(SESSION_TOKENS, sessionId)) as SessionRecord | null) : null;
+  if (!isLive(row)) fail('Session expired. Please sign in again.', 401);
+  const presented = hashToken(refreshToken);
+  if (row.previous_token && presented === row.previous_token) {
+    await revokeSession(db, row.id, 'refresh_reuse');
+    fail('Session expired. Please sign in again.', 401);
+  }
+  if (presented !== row.token) fail('Session expired. Please sign in again.', 401);
+
+  const now = Date.now();
+  const next = newRefreshToken(row.id);
+  const session = (await db.update(SESSION_TOKENS, row.id, {
+    token: hashToken(next),
+    previous_token: presented,
+    last_used_at: new Date(now).toISOString(),
+    ip: context.ip,
+    expires_at: new Date(Math.min(now + ttlMs, Date.parse(row.created_at) + SESSION_MAX_AGE_MS)).toISOString(),
+  })) as SessionRecord;
+  return { session, refreshToken: next };
+}
+
+/** Whether an access token's session is still live for that user. */
+export async function isSessionActive(db: StorageAdapter, sessionId: string, userId: string): Promise<boolean> {
+  const row = await db.findById(SESSION_TOKENS, sessionId);
+  return isLive(row) && row.user_id === userId;
+}
+
+/** The user's live sessions, most recently used first. */
+export async function listSessions(db: StorageAdapter, userId: string, currentId?: string): Promise<SessionSummary[]> {
+  const rows = await db.find(SESSION_TOKENS, { user_id: userId, type: 'session' });
+  const now = Date.now();
+  return rows
+    .filter((row: any) => isLive(row, now))
+    .map((row: SessionRecord) => ({
+      id: row.id,
+      device_label: row.device_label,
+      user_agent: row.user_agent,
+      ip: row.ip,
+      created_at: row.created_at,
+      last_used_at: row.last_used_at,
+      expires_at: row.expires_at,
+      current: row.id === currentId,
+    }))
+    .sort((a: SessionSummary, b: SessionSummary) => b.last_used_at.localeCompare(a.last_used_at));
+}
+
+export async function revokeSession(db: StorageAdapter, sessionId: string, reason: RevokeReason): Promise<void> {
+  const row = await db.findById(SESSION_TOKENS, sessionId);
+  if (!row || row.type !== 'session' || row.revoked_at) return;
+  await db.update(SESSION_TOKENS, sessionId, { revoked_at: new Date().toISOString(), revoked_reason: reason });
+}
+
+/** Revoke one of the user's own sessions from the device list. */
+export async function revokeOwnSession(db: StorageAdapter, userId: string, sessionId: string): Promise<void> {
+  const row = await db.findById(SESSION_TOKENS, sessionId);
+  if (!row || row.type !== 'session' || row.user_id !== userId) fail('Session not found', 404);
+  await revokeSession(db, sessionId, 'user_revoked');
+}
+
+/** Sign the user out everywhere (optionally keeping one session). Returns how many were revoked. */
+export async function revokeUserSessions(
+  db: StorageAdapter,
+  userId: string,
+  reason: RevokeReason,
+  options: { exceptId?: string; byEmail?: string } = {},
+): Promise<number> {
+  const rows = await db.find(SESSION_TOKENS, { user_id: userId, type: 'session' });
+  let revoked = 0;
+  for (const row of rows) {
+    if (row.id === options.exceptId || !isLive(row)) continue;
+    await revokeSession(db, row.id, reason);
+    revoked++;
+  }
+  await db.insert('audit_logs', {
+    action: 'sessions_revoked',
+    entity_type: 'user',
+    entity_id: userId,
+    user_email: options.byEmail || '',
+    details: `${revoked} session(s) revoked (${reason})`,
+    created_at: new Date().toISOString(),
+  });
+  return revoked;
+}
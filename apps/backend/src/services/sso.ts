@@ -0,0 +1,535 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Single sign-on for entity staff. Each entity configures OIDC or SAML
+// connections to its identity provider (sso_connections). A sign-in starts at
+// /api/auth/sso/:id/start, returns to the callback (OIDC) or ACS (SAML), and
+// provisions the user just-in-time: a users/profiles row on first sign-in, an
+// entity_staff row for the connection's entity, and a role taken from the
+// IdP groups via the connection's group -> user_type mappings. The browser
+// gets a one-minute handoff code, swapped for tokens at /api/auth/sso/exchange.
+// An existing account is only linked when the entity has proved it owns the
+// account's email domain (sso_domains: a DNS TXT record or platform approval).
+import crypto from 'node:crypto';
+import { resolveTxt } from 'node:dns/promises';
+import type { StorageAdapter } from '@careconnect/db';
+import { getDefaultPermissions, hasEntityPermission, isSuperAdmin, STAFF_ROLES, type Actor } from './authorization.ts';
+import { openValue, sealRecord } from './phi-encryption.ts';
+import * as oidc from './oidc.ts';
+import * as saml from './saml.ts';
+
+export const SSO_CONNECTIONS = 'sso_connections';
+export const SSO_IDENTITIES = 'sso_identities';
+export const SSO_STATES = 'sso_states';
+export const SSO_DOMAINS = 'sso_domains';
+
+const API_URL = (process.env.API_URL || 'http://localhost:4321').replace(/\/$/, '');
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+const STATE_EXPIRY_MS = 10 * 60 * 1000;
+const HANDOFF_EXPIRY_MS = 60 * 1000;
+
+export interface SsoConnection {
+  id: string;
+  entity_id: string;
+  name: string;
+  protocol: 'oidc' | 'saml';
+  enabled: boolean;
+  /** Email domains offered this connection; existing accounts are linked only once the domain is verified. */
+  email_domains: string[];
+  issuer?: string;
+  client_id?: string;
+  encrypted_client_secret?: string;
+  scopes?: string;
+  idp_entity_id?: string;
+  idp_sso_url?: string;
+  idp_certificate?: string;
+  /** Claim (OIDC) or attribute (SAML) carrying the user's groups. */
+  groups_attribute: string;
+  /** First matching group wins. */
+  role_mappings: Array<{ group: string; user_type: string }>;
+  default_user_type: string | null;
+  jit_provisioning: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface SsoDomain {
+  id: string;
+  entity_id: string;
+  domain: string;
+  /** Published as a TXT record to prove ownership. */
+  token: string;
+  status: 'pending' | 'verified';
+  method: 'dns_txt' | 'admin_approval' | null;
+  verified_at: string | null;
+  verified_by: string | null;
+  created_at: string;
+}
+
+interface IdentityClaims {
+  subject: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  groups: string[];
+}
+
+function fail(message: string, status: number): never {
+  throw Object.assign(new Error(message), { status });
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function spUrls(connectionId: string) {
+  const base = `${API_URL}/api/auth/sso/${connectionId}`;
+  return { redirect_uri: `${base}/callback`, acs_url: `${base}/acs`, entity_id: `${base}/metadata`, metadata_url: `${base}/metadata` };
+}
+
+/** A connection as shown to its administrators: no secret, plus the URLs to give the IdP. */
+export function describeConnection(connection: SsoConnection) {
+  const { encrypted_client_secret, ...rest } = connection;
+  return { ...rest, has_client_secret: !!encrypted_client_secret, sp: spUrls(connection.id) };
+}
+
+function canManage(actor: Actor, entityId: string): boolean {
+  return hasEntityPermission(actor, entityId, 'update_entity');
+}
+
+async function loadConnection(db: StorageAdapter, id: string): Promise<SsoConnection> {
+  const connection = (await db.findById(SSO_CONNECTIONS, id)) as SsoConnection | null;
+  if (!connection) fail('SSO connection not found', 404);
+  return connection;
+}
+
+export async function listConnections(db: StorageAdapter, actor: Actor, entityId?: string) {
+  const rows = (await db.find(SSO_CONNECTIONS, entityId ? { entity_id: entityId } : {})) as SsoConnection[];
+  return rows.filter((c) => canManage(actor, c.entity_id)).map(describeConnection);
+}
+
+function validateConnection(connection: Partial<SsoConnection>): void {
+  if (!connection.entity_id || !connection.name) fail('entity_id and name are required', 422);
+  if (connection.protocol === 'oidc') {
+    if (!connection.issuer || !connection.client_id) fail('OIDC connections need issuer and client_id', 422);
+    if (!/^https?:\/\//.test(connection.issuer)) fail('issuer must be a URL', 422);
+  } else if (connection.protocol === 'saml') {
+    if (!connection.idp_sso_url || !connection.idp_certificate) fail('SAML connections need idp_sso_url and idp_certificate', 422);
+    try {
+      const body = connection.idp_certificate.replace(/-----(BEGIN|END) CERTIFICATE-----|\s+/g, '');
+      new crypto.X509Certificate(`-----BEGIN CERTIFICATE-----\n${body.match(/.{1,64}/g)?.join('\n')}\n-----END CERTIFICATE-----\n`);
+    } catch {
+      fail('idp_certificate is not a valid X.509 certificate', 422);
+    }
+  } else {
+    fail("protocol must be 'oidc' or 'saml'", 422);
+  }
+  const userTypes = [...(connection.role_mappings || []).map((m) => m.user_type), connection.default_user_type].filter(Boolean);
+  const invalid = userTypes.find((t) => !STAFF_ROLES.includes(t as string));
+  if (invalid) fail(`SSO cannot grant the '${invalid}' role`, 422);
+}
+
+/** Create (no id) or update a connection. A blank client_secret keeps the stored one. */
+export async function saveConnection(db: StorageAdapter, actor: Actor, body: any, id?: string) {
+  const existing = id ? await loadConnection(db, id) : null;
+  const entityId = existing?.entity_id || body.entity_id;
+  if (!canManage(actor, entityId)) fail('Forbidden', 403);
+
+  const now = new Date().toISOString();
+  const fields: Partial<SsoConnection> = {
+    entity_id: entityId,
+    name: String(body.name ?? existing?.name ?? '').trim(),
+    protocol: body.protocol ?? existing?.protocol,
+    enabled: body.enabled ?? existing?.enabled ?? true,
+    email_domains: (body.email_domains ?? existing?.email_domains ?? []).map((d: string) => String(d).trim().toLowerCase().replace(/^@/, '')).filter(Boolean),
+    issuer: body.issuer ?? existing?.issuer,
+    client_id: body.client_id ?? existing?.client_id,
+    scopes: body.scopes ?? existing?.scopes ?? 'openid email profile',
+    idp_entity_id: body.idp_entity_id ?? existing?.idp_entity_id,
+    idp_sso_url: body.idp_sso_url ?? existing?.idp_sso_url,
+    idp_certificate: body.idp_certificate ?? existing?.idp_certificate,
+    groups_attribute: body.groups_attribute || existing?.groups_attribute || 'groups',
+    role_mappings: (body.role_mappings ?? existing?.role_mappings ?? [])
+      .filter((m: any) => m?.group && m?.user_type)
+      .map((m: any) => ({ group: String(m.group), user_type: String(m.user_type) })),
+    default_user_type: body.default_user_type !== undefined ? body.default_user_type || null : existing?.default_user_type ?? null,
+    jit_provisioning: body.jit_provisioning ?? existing?.jit_provisioning ?? true,
+    updated_at: now,
+  };
+  validateConnection(fields);
+  const record = body.client_secret
+    ? await sealRecord(db, SSO_CONNECTIONS, { ...fields, encrypted_client_secret: String(body.client_secret) })
+    : fields;
+
+  const saved = (existing
+    ? await db.update(SSO_CONNECTIONS, existing.id, record)
+    : await db.insert(SSO_CONNECTIONS, { ...record, created_by: actor.userId, created_at: now })) as SsoConnection;
+  await db.insert('audit_logs', {
+    action: existing ? 'sso_connection_updated' : 'sso_connection_created',
+    entity_type: 'entity',
+    entity_id: entityId,
+    user_email: actor.email,
+    details: `${saved.protocol.toUpperCase()} connection "${saved.name}" ${saved.enabled ? 'enabled' : 'disabled'}`,
+    created_at: now,
+  });
+  return describeConnection(saved);
+}
+
+export async function deleteConnection(db: StorageAdapter, actor: Actor, id: string): Promise<void> {
+  const connection = await loadConnection(db, id);
+  if (!canManage(actor, connection.entity_id)) fail('Forbidden', 403);
+  await db.delete(SSO_CONNECTIONS, id);
+  await db.insert('audit_logs', {
+    action: 'sso_connection_deleted',
+    entity_type: 'entity',
+    entity_id: connection.entity_id,
+    user_email: actor.email,
+    details: `${connection.protocol.toUpperCase()} connection "${connection.name}" deleted`,
+    created_at: new Date().toISOString(),
+  });
+}
+
+function txtRecord(domain: SsoDomain) {
+  return { txt_name: `_careconnect-verification.${domain.domain}`, txt_value: `careconnect-verification=${domain.token}` };
+}
+
+/** The entity's ownership record for a domain, created pending if there is none yet. */
+async function ensureDomain(db: StorageAdapter, entityId: string, domain: string): Promise<SsoDomain> {
+  const existing = (await db.find(SSO_DOMAINS, { entity_id: entityId, domain }))[0] as SsoDomain | undefined;
+  if (existing) return existing;
+  return (await db.insert(SSO_DOMAINS, {
+    entity_id: entityId,
+    domain,
+    token: crypto.randomBytes(16).toString('hex'),
+    status: 'pending',
+    method: null,
+    verified_at: null,
+    verified_by: null,
+    created_at: new Date().toISOString(),
+  })) as SsoDomain;
+}
+
+/**
+ * The email domains on the entity's connections with their verification state
+ * and the TXT record to publish. Domains seen for the first time get a pending
+ * record (and token) here.
+ */
+export async function listDomains(db: StorageAdapter, actor: Actor, entityId: string) {
+  if (!canManage(actor, entityId)) fail('Forbidden', 403);
+  const connections = (await db.find(SSO_CONNECTIONS, { entity_id: entityId })) as SsoConnection[];
+  const domains = [...new Set(connections.flatMap((c) => c.email_domains || []))].sort();
+  const rows: SsoDomain[] = [];
+  for (const domain of domains) rows.push(await ensureDomain(db, entityId, domain));
+  return rows.map((row) => ({ ...row, ...txtRecord(row) }));
+}
+
+async function markVerified(db: StorageAdapter, actor: Actor, row: SsoDomain, method: 'dns_txt' | 'admin_approval') {
+  // A domain proves ownership for one entity only; otherwise two entities could each link its accounts.
+  const claimed = ((await db.find(SSO_DOMAINS, { domain: row.domain, status: 'verified' })) as SsoDomain[])
+    .find((other) => other.entity_id !== row.entity_id);
+  if (claimed) fail(`${row.domain} is already verified by another organisation`, 409);
+  const now = new Date().toISOString();
+  const saved = (await db.update(SSO_DOMAINS, row.id, { status: 'verified', method, verified_at: now, verified_by: actor.userId })) as SsoDomain;
+  await db.insert('audit_logs', {
+    action: 'sso_domain_verified',
+    entity_type: 'entity',
+    entity_id: row.entity_id,
+    user_email: actor.email,
+    details: `${row.domain} verified by ${method === 'dns_txt' ? 'DNS TXT record' : 'platform administrator'}`,
+    created_at: now,
+  });
+  return { ...saved, ...txtRecord(saved) };
+}
+
+/** Look up the domain's TXT record and mark it verified when the token is published. */
+export async function checkDomain(db: StorageAdapter, actor: Actor, id: string) {
+  const row = (await db.findById(SSO_DOMAINS, id)) as SsoDomain | null;
+  if (!row) fail('Domain not found', 404);
+  if (!canManage(actor, row.entity_id)) fail('Forbidden', 403);
+  if (row.status === 'verified') return { ...row, ...txtRecord(row) };
+  const { txt_name, txt_value } = txtRecord(row);
+  let records: string[][] = [];
+  try {
+    records = await resolveTxt(txt_name);
+  } catch {
+    // NXDOMAIN / no data: treated the same as a missing record.
+  }
+  if (!records.some((chunks) => chunks.join('') === txt_value)) {
+    fail(`No TXT record "${txt_value}" found at ${txt_name} yet. DNS changes can take a while to appear.`, 422);
+  }
+  return markVerified(db, actor, row, 'dns_txt');
+}
+
+/** Platform administrators can vouch for a domain without DNS (e.g. after checking paperwork). */
+export async function approveDomain(db: StorageAdapter, actor: Actor, id: string) {
+  if (!isSuperAdmin(actor) && !actor.permissions.includes('verify_entity')) fail('Forbidden', 403);
+  const row = (await db.findById(SSO_DOMAINS, id)) as SsoDomain | null;
+  if (!row) fail('Domain not found', 404);
+  if (row.status === 'verified') return { ...row, ...txtRecord(row) };
+  return markVerified(db, actor, row, 'admin_approval');
+}
+
+async function isDomainVerified(db: StorageAdapter, entityId: string, domain: string): Promise<boolean> {
+  const rows = (await db.find(SSO_DOMAINS, { entity_id: entityId, domain })) as SsoDomain[];
+  return rows.some((row) => row.status === 'verified');
+}
+
+/** Enabled connections offered on the login page for an email domain or an entity. */
+export async function discoverConnections(db: StorageAdapter, query: { email?: string; entityId?: string }) {
+  const domain = query.email?.split('@')[1]?.toLowerCase();
+  if (!domain && !query.entityId) return [];
+  const rows = (await db.find(SSO_CONNECTIONS, query.entityId ? { entity_id: query.entityId } : {})) as SsoConnection[];
+  return rows
+    .filter((c) => c.enabled && (query.entityId || (c.email_domains || []).includes(domain!)))
+    .map((c) => ({ id: c.id, name: c.name, protocol: c.protocol, entity_id: c.entity_id }));
+}
+
+/** Where to send the browser to sign in with the connection's IdP. */
+export async function startSignIn(db: StorageAdapter, connectionId: string): Promise<string> {
+  const connection = await loadConnection(db, connectionId);
+  if (!connection.enabled) fail('This sign-in method is disabled', 403);
+  const state = crypto.randomBytes(24).toString('base64url');
+  const urls = spUrls(connection.id);
+  const row: Record<string, any> = {
+    connection_id: connection.id,
+    state: hashToken(state),
+    expires_at: new Date(Date.now() + STATE_EXPIRY_MS).toISOString(),
+    used: false,
+    created_at: new Date().toISOString(),
+  };
+
+  let url: string;
+  if (connection.protocol === 'oidc') {
+    const config = await oidc.discover(connection.issuer!);
+    const pkce = oidc.createPkcePair();
+    row.nonce = crypto.randomBytes(16).toString('base64url');
+    row.code_verifier = pkce.verifier;
+    url = oidc.buildAuthorizationUrl(config, {
+      clientId: connection.client_id!,
+      redirectUri: urls.redirect_uri,
+      scope: connection.scopes || 'openid email profile',
+      state,
+      nonce: row.nonce,
+      codeChallenge: pkce.challenge,
+    });
+  } else {
+    const request = saml.buildAuthnRequestUrl({ idpSsoUrl: connection.idp_sso_url!, spEntityId: urls.entity_id, acsUrl: urls.acs_url, relayState: state });
+    row.request_id = request.requestId;
+    url = request.url;
+  }
+  await db.insert(SSO_STATES, row);
+  return url;
+}
+
+/** The pending sign-in for a returned state, burned so it cannot be replayed. */
+async function takeState(db: StorageAdapter, connectionId: string, state: string | null): Promise<any> {
+  const row = state ? (await db.find(SSO_STATES, { state: hashToken(state) }))[0] : null;
+  if (!row || row.used || row.connection_id !== connectionId || Date.parse(row.expires_at) <= Date.now()) {
+    fail('Sign-in expired or was started elsewhere. Please try again.', 401);
+  }
+  await db.update(SSO_STATES, row.id, { used: true });
+  return row;
+}
+
+function asList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return typeof value === 'string' && value ? value.split(',').map((v) => v.trim()) : [];
+}
+
+export async function completeOidcSignIn(db: StorageAdapter, connectionId: string, params: URLSearchParams): Promise<any> {
+  const connection = await loadConnection(db, connectionId);
+  if (params.get('error')) fail(`Identity provider refused the sign-in: ${params.get('error_description') || params.get('error')}`, 401);
+  const pending = await takeState(db, connection.id, params.get('state'));
+  const code = params.get('code');
+  if (!code || connection.protocol !== 'oidc') fail('Invalid sign-in response', 400);
+
+  const config = await oidc.discover(connection.issuer!);
+  const clientSecret = connection.encrypted_client_secret
+    ? await openValue(db, SSO_CONNECTIONS, 'encrypted_client_secret', connection.encrypted_client_secret)
+    : undefined;
+  const tokens = await oidc.exchangeCode(config, {
+    code,
+    clientId: connection.client_id!,
+    clientSecret,
+    redirectUri: spUrls(connection.id).redirect_uri,
+    codeVerifier: pending.code_verifier,
+  });
+  const claims = await oidc.verifyIdToken(tokens.id_token, {
+    issuer: config.issuer,
+    clientId: connection.client_id!,
+    nonce: pending.nonce,
+    jwksUri: config.jwks_uri,
+  });
+  if (claims.email_verified !== true) fail('Your identity provider has not verified your email address.', 403);
+  const [first, ...rest] = String(claims.name || '').split(' ');
+  return provision(db, connection, {
+    subject: claims.sub,
+    email: String(claims.email || ''),
+    firstName: String(claims.given_name || first || ''),
+    lastName: String(claims.family_name || rest.join(' ')),
+    groups: asList(claims[connection.groups_attribute]),
+  });
+}
+
+const SAML_EMAIL = ['email', 'mail', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'];
+const SAML_GIVEN_NAME = ['givenName', 'firstName', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname'];
+const SAML_SURNAME = ['sn', 'surname', 'lastName', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname'];
+
+export async function completeSamlSignIn(db: StorageAdapter, connectionId: string, form: { SAMLResponse?: string; RelayState?: string }): Promise<any> {
+  const connection = await loadConnection(db, connectionId);
+  if (connection.protocol !== 'saml' || !form.SAMLResponse) fail('Invalid sign-in response', 400);
+  // IdP-initiated responses carry no RelayState and are refused.
+  const pending = await takeState(db, connection.id, form.RelayState || null);
+  const urls = spUrls(connection.id);
+  const assertion = saml.validateSamlResponse(form.SAMLResponse, {
+    idpCertificate: connection.idp_certificate!,
+    idpEntityId: connection.idp_entity_id,
+    spEntityId: urls.entity_id,
+    acsUrl: urls.acs_url,
+    requestId: pending.request_id,
+  });
+  const first = (names: string[]) => names.map((n) => assertion.attributes[n]?.[0]).find(Boolean) || '';
+  const email = first(SAML_EMAIL) || (assertion.nameId.includes('@') ? assertion.nameId : '');
+  return provision(db, connection, {
+    subject: assertion.nameId,
+    email,
+    firstName: first(SAML_GIVEN_NAME),
+    lastName: first(SAML_SURNAME),
+    groups: assertion.attributes[connection.groups_attribute] || [],
+  });
+}
+
+function mapRole(connection: SsoConnection, groups: string[]): string | null {
+  const mapping = (connection.role_mappings || []).find((m) => groups.includes(m.group));
+  return mapping?.user_type || connection.default_user_type || null;
+}
+
+/**
+ * Find or create the CareConnect user for an IdP identity and bring their
+ * staff membership and role in line with the IdP groups. Existing accounts are
+ * only linked when the entity has verified ownership of their email domain, so
+ * an IdP cannot take over accounts just by asserting someone else's address.
+ */
+async function provision(db: StorageAdapter, connection: SsoConnection, identity: IdentityClaims): Promise<any> {
+  if (!identity.email) fail('Your identity provider did not send an email address.', 403);
+  const now = new Date().toISOString();
+  const role = mapRole(connection, identity.groups);
+  let link = (await db.find(SSO_IDENTITIES, { connection_id: connection.id, subject: identity.subject }))[0];
+  let user = link ? await db.findById('users', link.user_id) : null;
+
+  if (!user) {
+    const existing = (await db.find('users', { email: identity.email }))[0];
+    if (existing) {
+      const domain = identity.email.split('@')[1]?.toLowerCase();
+      if (!(connection.email_domains || []).includes(domain) || !(await isDomainVerified(db, connection.entity_id, domain))) {
+        fail('An account with this email already exists. Ask your administrator to link it to single sign-on.', 409);
+      }
+      user = existing;
+    } else {
+      if (!connection.jit_provisioning) fail('No CareConnect account exists for you yet. Ask your administrator for access.', 403);
+      if (!role) fail('Your identity provider groups do not map to a CareConnect role.', 403);
+      user = await db.insert('users', {
+        email: identity.email,
+        phone: '',
+        user_type: role,
+        password_hash: '',
+        is_verified: true,
+        is_active: true,
+        entity_id: connection.entity_id,
+        permissions: getDefaultPermissions(role),
+        created_at: now,
+      });
+      await db.insert('profiles', {
+        user_id: user.id,
+        first_name: identity.firstName,
+        last_name: identity.lastName,
+        bio: '',
+        specialties: [],
+        languages: ['English'],
+        license_number: '',
+        preferences: { notifications: true, marketing_emails: false, data_sharing: false },
+        created_at: now,
+      });
+      await db.insert('audit_logs', {
+        action: 'sso_user_provisioned',
+        entity_type: 'user',
+        entity_id: user.id,
+        user_email: identity.email,
+        details: `Provisioned as ${role} by SSO connection "${connection.name}"`,
+        created_at: now,
+      });
+    }
+    link = await db.insert(SSO_IDENTITIES, {
+      connection_id: connection.id,
+      entity_id: connection.entity_id,
+      user_id: user.id,
+      subject: identity.subject,
+      email: identity.email,
+      provisioned: !existing,
+      created_at: now,
+    });
+  }
+  if (!user.is_active) fail('Account is deactivated', 403);
+
+  const staff = (await db.find('entity_staff', { entity_id: connection.entity_id, user_id: user.id }))[0];
+  if (staff && (staff.status === 'removed' || staff.status === 'suspended')) {
+    fail('Your access to this organisation has been removed. Contact your administrator.', 403);
+  }
+  if (role) {
+    if (!staff) {
+      await db.insert('entity_staff', { entity_id: connection.entity_id, user_id: user.id, role, status: 'active', source: 'sso', created_at: now });
+    } else if (staff.role !== role) {
+      await db.update('entity_staff', staff.id, { role, updated_at: now });
+    }
+    // Accounts SSO created follow the IdP; pre-existing accounts keep their own user_type.
+    if (link.provisioned && user.user_type !== role) {
+      user = await db.update('users', user.id, { user_type: role, permissions: getDefaultPermissions(role), updated_at: now });
+    }
+  } else if (!staff && user.entity_id !== connection.entity_id) {
+    fail('Your identity provider groups do not map to a CareConnect role.', 403);
+  }
+
+  await db.update(SSO_IDENTITIES, link.id, { email: identity.email, last_login_at: now });
+  await db.insert('audit_logs', {
+    action: 'sso_login',
+    entity_type: 'user',
+    entity_id: user.id,
+    user_email: user.email,
+    details: `Signed in through ${connection.protocol.toUpperCase()} connection "${connection.name}"${role ? ` as ${role}` : ''}`,
+    created_at: now,
+  });
+  return user;
+}
+
+/** One-time code the SPA swaps for a session, so tokens never appear in a URL. */
+export async function createHandoff(db: StorageAdapter, userId: string): Promise<string> {
+  const code = crypto.randomBytes(32).toString('base64url');
+  await db.insert('session_tokens', {
+    user_id: userId,
+    type: 'sso_handoff',
+    token: hashToken(code),
+    expires_at: new Date(Date.now() + HANDOFF_EXPIRY_MS).toISOString(),
+    used: false,
+    created_at: new Date().toISOString(),
+  });
+  return code;
+}
+
+export async function redeemHandoff(db: StorageAdapter, code: string): Promise<string> {
+  const row = code ? (await db.find('session_tokens', { type: 'sso_handoff', token: hashToken(code) }))[0] : null;
+  if (!row || row.used || Date.parse(row.expires_at) <= Date.now()) fail('Sign-in expired. Please try again.', 401);
+  await db.update('session_tokens', row.id, { used: true });
+  return row.user_id;
+}
+
+/** Where the browser lands after the IdP: the SPA's completion page, or the login page with the error. */
+export function completionUrl(code: string): string {
+  return `${APP_URL}/sso/complete?code=${encodeURIComponent(code)}`;
+}
+
+export function failureUrl(message: string): string {
+  return `${APP_URL}/login?sso_error=${encodeURIComponent(message)}`;
+}
+
+export function spMetadata(connectionId: string): string {
+  const urls = spUrls(connectionId);
+  return saml.buildSpMetadata({ spEntityId: urls.entity_id, acsUrl: urls.acs_url });
+}
@@ -0,0 +1,289 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Staff memberships (entity_staff). A membership gives a user a role at one
+// entity and, optionally, a custom permission set in place of the role's
+// defaults; loadActor turns them into per-entity access. Users list their own
+// memberships to choose the active entity; entity admins (update_entity at
+// that entity) see and change the roles of their staff.
+//
+// Staff join through invitations: an admin invites an email with a role, the
+// invitee signs in (or registers) with that email and accepts before the
+// token expires. Clinical roles must give a licence number on acceptance.
+// Tokens are stored only as a hash; the admin's browser emails the link.
+import crypto from 'node:crypto';
+import type { StorageAdapter } from '@careconnect/db';
+import { getDefaultPermissions, hasEntityPermission, isSuperAdmin, STAFF_ROLES, type Actor } from './authorization.ts';
+
+export const ENTITY_STAFF = 'entity_staff';
+export const STAFF_INVITATIONS = 'staff_invitations';
+
+/** Roles that treat patients or handle their samples and medicines; they must record a licence. */
+export const CLINICAL_ROLES = ['practitioner', 'physician', 'nurse', 'pharmacist', 'lab_tech', 'imaging_tech'];
+
+const INVITATION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+const MEMBERSHIP_STATUSES = ['active', 'suspended', 'removed'];
+
+/** Permissions a membership may carry: everything some staff role gets by default. */
+const ASSIGNABLE_PERMISSIONS = new Set(STAFF_ROLES.flatMap((role) => getDefaultPermissions(role)));
+
+export interface MembershipSummary {
+  entity_id: string;
+  entity_name: string;
+  entity_type: string | null;
+  role: string;
+  permissions: string[];
+  /** The entity on users.entity_id (registered with or provisioned into). */
+  home: boolean;
+}
+
+function fail(message: string, status: number): never {
+  throw Object.assign(new Error(message), { status });
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function normalizeEmail(email: unknown): string {
+  return String(email || '').trim().toLowerCase();
+}
+
+async function audit(db: StorageAdapter, actor: Actor, action: string, entityId: string, details: string) {
+  await db.insert('audit_logs', {
+    action,
+    entity_type: 'entity',
+    entity_id: entityId,
+    user_email: actor.email,
+    details,
+    created_at: new Date().toISOString(),
+  });
+}
+
+/** Invitation fields safe to return: never the token hash. */
+function describeInvitation(row: any) {
+  const { token: _token, ...rest } = row;
+  return { ...rest, expired: row.status === 'pending' && Date.parse(row.expires_at) <= Date.now() };
+}
+
+/** The actor's memberships, home entity first, for the active-entity switcher. */
+export async function listMemberships(db: StorageAdapter, actor: Actor): Promise<MembershipSummary[]> {
+  const user = (await db.findById('users', actor.userId)) as any;
+  const out: MembershipSummary[] = [];
+  for (const [entityId, membership] of Object.entries(actor.memberships)) {
+    const entity = (await db.findById('entities', entityId)) as any;
+    out.push({
+      entity_id: entityId,
+      entity_name: entity?.name || 'Unknown entity',
+      entity_type: entity?.entity_type || null,
+      role: membership.role,
+      permissions: membership.permissions,
+      home: user?.entity_id === entityId,
+    });
+  }
+  return out.sort((a, b) => Number(b.home) - Number(a.home) || a.entity_name.localeCompare(b.entity_name));
+}
+
+/** An entity's memberships with each member's email and name. */
+export async function listEntityStaff(db: StorageAdapter, actor: Actor, entityId: string) {
+  if (!hasEntityPermission(actor, entityId, 'update_entity')) fail('Forbidden', 403);
+  const rows = (await db.find(ENTITY_STAFF, { entity_id: entityId })) as any[];
+  const out = [];
+  for (const row of rows.filter((r) => r.status !== 'removed')) {
+    const user = (await db.findById('users', row.user_id)) as any;
+    const profile = (await db.find('profiles', { user_id: row.user_id }))[0] as any;
+    out.push({
+      ...row,
+      email: user?.email || null,
+      name: `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || null,
+      effective_permissions: Array.isArray(row.permissions) && row.permissions.length ? row.permissions : getDefaultPermissions(row.role),
+    });
+  }
+  return out;
+}
+
+/**
+ * Change a member's role or permission set. `permissions: null` goes back to
+ * the role's defaults. Admins cannot edit their own membership or grant a
+ * permission they do not hold at that entity themselves.
+ */
+export async function updateMembership(db: StorageAdapter, actor: Actor, id: string, body: { role?: string; permissions?: string[] | null }) {
+  const row = (await db.findById(ENTITY_STAFF, id)) as any;
+  if (!row || row.status === 'removed') fail('Staff membership not found', 404);
+  if (!hasEntityPermission(actor, row.entity_id, 'update_entity')) fail('Forbidden', 403);
+  if (row.user_id === actor.userId && !isSuperAdmin(actor)) fail('You cannot change your own membership', 403);
+
+  const patch: Record<string, any> = { updated_at: new Date().toISOString() };
+  if (body.role !== undefined) {
+    if (!STAFF_ROLES.includes(body.role)) fail(`Unknown staff role '${body.role}'`, 422);
+    patch.role = body.role;
+  }
+  if (body.permissions !== undefined) {
+    if (body.permissions === null) {
+      patch.permissions = null;
+    } else {
+      if (!Array.isArray(body.permissions)) fail('permissions must be a list or null', 422);
+      const permissions = Array.from(new Set(body.permissions.map(String)));
+      const unknown = permissions.find((p) => !ASSIGNABLE_PERMISSIONS.has(p));
+      if (unknown) fail(`Permission '${unknown}' cannot be given to staff`, 422);
+      const notHeld = permissions.find((p) => !hasEntityPermission(actor, row.entity_id, p));
+      if (notHeld) fail(`You cannot grant '${notHeld}', which you do not hold here`, 403);
+      patch.permissions = permissions;
+    }
+  }
+
+  const updated = await db.update(ENTITY_STAFF, id, patch);
+  const member = (await db.findById('users', row.user_id)) as any;
+  await audit(db, actor, 'staff_membership_updated', row.entity_id, `${member?.email || row.user_id}: role ${row.role} -> ${updated.role}${
+    body.permissions !== undefined ? `, permissions ${patch.permissions ? patch.permissions.join(', ') : 'role defaults'}` : ''
+  }`);
+  return updated;
+}
+
+/**
+ * Suspend, reinstate or remove a member. Suspended and removed memberships
+ * stop granting access on the member's next request; removal is final (the
+ * person has to be invited again).
+ */
+export async function setMembershipStatus(db: StorageAdapter, actor: Actor, id: string, status: string) {
+  if (!MEMBERSHIP_STATUSES.includes(status)) fail(`status must be one of ${MEMBERSHIP_STATUSES.join(', ')}`, 422);
+  const row = (await db.findById(ENTITY_STAFF, id)) as any;
+  if (!row || row.status === 'removed') fail('Staff membership not found', 404);
+  if (!hasEntityPermission(actor, row.entity_id, 'update_entity')) fail('Forbidden', 403);
+  if (row.user_id === actor.userId) fail('You cannot change your own membership', 403);
+
+  const now = new Date().toISOString();
+  const updated = await db.update(ENTITY_STAFF, id, {
+    status,
+    updated_at: now,
+    ...(status === 'active' ? { suspended_at: null } : {}),
+    ...(status === 'suspended' ? { suspended_at: now } : {}),
+    ...(status === 'removed' ? { removed_at: now } : {}),
+  });
+  const member = (await db.findById('users', row.user_id)) as any;
+  await audit(db, actor, `staff_membership_${status === 'active' ? 'reinstated' : status}`, row.entity_id, `${member?.email || row.user_id} (${row.role})`);
+  return updated;
+}
+
+/** Pending invitations for an entity, newest first. */
+export async function listInvitations(db: StorageAdapter, actor: Actor, entityId: string) {
+  if (!hasEntityPermission(actor, entityId, 'update_entity')) fail('Forbidden', 403);
+  const rows = (await db.find(STAFF_INVITATIONS, { entity_id: entityId, status: 'pending' })) as any[];
+  return rows.sort((a, b) => b.created_at.localeCompare(a.created_at)).map(describeInvitation);
+}
+
+/**
+ * Invite an email to join an entity with a role. A newer invitation to the
+ * same email replaces any pending one. Returns the raw token once so the
+ * caller can email the acceptance link.
+ */
+export async function createInvitation(db: StorageAdapter, actor: Actor, body: { entity_id?: string; email?: string; role?: string }) {
+  const entityId = String(body.entity_id || actor.activeEntityId || '');
+  const email = normalizeEmail(body.email);
+  const role = String(body.role || '');
+  if (!entityId) fail('entity_id is required', 422);
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) fail('A valid email is required', 422);
+  if (!STAFF_ROLES.includes(role)) fail(`Unknown staff role '${role}'`, 422);
+  if (!hasEntityPermission(actor, entityId, 'update_entity')) fail('Forbidden', 403);
+  const entity = (await db.findById('entities', entityId)) as any;
+  if (!entity) fail('Entity not found', 404);
+
+  const existingUser = (await db.find('users', { email }))[0] as any;
+  if (existingUser) {
+    const member = existingUser.entity_id === entityId
+      || ((await db.find(ENTITY_STAFF, { user_id: existingUser.id, entity_id: entityId })) as any[]).some((r) => r.status !== 'removed');
+    if (member) fail(`${email} is already a member of ${entity.name}`, 409);
+  }
+
+  const now = new Date();
+  for (const row of (await db.find(STAFF_INVITATIONS, { entity_id: entityId, email, status: 'pending' })) as any[]) {
+    await db.update(STAFF_INVITATIONS, row.id, { status: 'revoked', updated_at: now.toISOString() });
+  }
+  const token = crypto.randomBytes(32).toString('hex');
+  const invitation = await db.insert(STAFF_INVITATIONS, {
+    entity_id: entityId,
+    email,
+    role,
+    token: hashToken(token),
+    status: 'pending',
+    license_required: CLINICAL_ROLES.includes(role),
+    invited_by: actor.userId,
+    invited_by_email: actor.email,
+    expires_at: new Date(now.getTime() + INVITATION_EXPIRY_MS).toISOString(),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  });
+  await audit(db, actor, 'staff_invited', entityId, `${email} as ${role}`);
+  return { invitation: describeInvitation(invitation), entity_name: entity.name, token };
+}
+
+export async function revokeInvitation(db: StorageAdapter, actor: Actor, id: string) {
+  const row = (await db.findById(STAFF_INVITATIONS, id)) as any;
+  if (!row || row.status !== 'pending') fail('Invitation not found', 404);
+  if (!hasEntityPermission(actor, row.entity_id, 'update_entity')) fail('Forbidden', 403);
+  await db.update(STAFF_INVITATIONS, id, { status: 'revoked', updated_at: new Date().toISOString() });
+  await audit(db, actor, 'staff_invitation_revoked', row.entity_id, `${row.email} as ${row.role}`);
+}
+
+async function findPendingInvitation(db: StorageAdapter, token: string) {
+  const row = token ? ((await db.find(STAFF_INVITATIONS, { token: hashToken(token) }))[0] as any) : null;
+  if (!row || row.status !== 'pending') fail('This invitation is no longer valid', 404);
+  if (Date.parse(row.expires_at) <= Date.now()) fail('This invitation has expired; ask your administrator for a new one', 410);
+  return row;
+}
+
+/** What the invitee sees before accepting. Needs only the token. */
+export async function previewInvitation(db: StorageAdapter, token: string) {
+  const row = await findPendingInvitation(db, token);
+  const entity = (await db.findById('entities', row.entity_id)) as any;
+  const hasAccount = ((await db.find('users', { email: row.email })) as any[]).length > 0;
+  return {
+    email: row.email,
+    role: row.role,
+    entity_id: row.entity_id,
+    entity_name: entity?.name || 'Unknown entity',
+    license_required: !!row.license_required,
+    expires_at: row.expires_at,
+    has_account: hasAccount,
+  };
+}
+
+/**
+ * Accept an invitation as the signed-in user, whose email must be the one
+ * invited. Creates the membership, or brings back a removed one with the new
+ * role. Returns the membership and who to tell about it.
+ */
+export async function acceptInvitation(
+  db: StorageAdapter,
+  actor: Actor,
+  token: string,
+  body: { license_number?: string; license_authority?: string },
+) {
+  const row = await findPendingInvitation(db, token);
+  if (normalizeEmail(actor.email) !== row.email) fail(`This invitation was sent to ${row.email}; sign in with that email to accept it`, 403);
+
+  const licenseNumber = String(body.license_number || '').trim();
+  const licenseAuthority = String(body.license_authority || '').trim();
+  if (row.license_required && !licenseNumber) fail('A licence number is required for this role', 422);
+
+  const now = new Date().toISOString();
+  const fields = {
+    role: row.role,
+    permissions: null,
+    status: 'active',
+    license_number: licenseNumber || null,
+    license_authority: licenseAuthority || null,
+    invitation_id: row.id,
+    joined_at: now,
+    updated_at: now,
+  };
+  const existing = ((await db.find(ENTITY_STAFF, { user_id: actor.userId, entity_id: row.entity_id })) as any[])[0];
+  if (existing && existing.status !== 'removed') fail('You are already a member of this entity', 409);
+  const membership = existing
+    ? await db.update(ENTITY_STAFF, existing.id, { ...fields, removed_at: null, suspended_at: null })
+    : await db.insert(ENTITY_STAFF, { user_id: actor.userId, entity_id: row.entity_id, ...fields, created_at: now });
+
+  await db.update(STAFF_INVITATIONS, row.id, { status: 'accepted', accepted_by: actor.userId, accepted_at: now, updated_at: now });
+  await audit(db, actor, 'staff_invitation_accepted', row.entity_id, `${row.email} as ${row.role}${licenseNumber ? `, licence ${licenseNumber}` : ''}`);
+
+  const entity = (await db.findById('entities', row.entity_id)) as any;
+  return { membership, entity_name: entity?.name || 'Unknown entity', invited_by_email: row.invited_by_email };
+}
@@ -2,6 +2,33 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import crypto from 'node:crypto';
+import {
+  clampLimit,
+  decodeCursor,
+  encodeCursor,
+  isValidField,
+  normalizeWhere,
+  projectRecord,
+  type QueryCondition,
+  type QueryOptions,
+  type QueryResult,
+} from './query.ts';
+import { validateDocument, type SchemaDefinition } from './schema.ts';
+import type { StorageTransaction } from './transaction.ts';
+import { applyVersionedUpdate, type UpdateOptions } from './concurrency.ts';
+import { emitChange, type ChangeEvent, type ChangeType } from './changes.ts';
+import { MIGRATIONS, type AppliedMigration, type Migration, type MigrationContext } from './migrations/index.ts';
+
+export type { FieldType, SchemaDefinition } from './schema.ts';
+export type { AppliedMigration, Migration } from './migrations/index.ts';
+export type { StorageTransaction } from './transaction.ts';
+export type { UpdateOptions } from './concurrency.ts';
+export { VersionConflictError, versionOf } from './concurrency.ts';
+export type { ChangeEvent, ChangeListener, ChangeType } from './changes.ts';
+export { onChange } from './changes.ts';
+export { COLLECTION_SCHEMAS } from './schemas.ts';
+export type { QueryCondition, QueryOperator, QueryOptions, QueryResult, QuerySort } from './query.ts';
+export { normalizeWhere, parseSort, projectRecord, isValidField, encodeCursor, decodeCursor, MAX_QUERY_LIMIT } from './query.ts';
 
 const DB_DIR = path.resolve(process.cwd(), 'data');
 const DB_PATH = path.join(DB_DIR, 'careconnect.db');
@@ -41,6 +68,12 @@ db.exec(`
   INSERT OR IGNORE INTO schema_version (version) VALUES (1);
 `);
 
+// schema_version predates named migrations; add the column in place.
+if (!(db.prepare('PRAGMA table_info(schema_version)').all() as Array<{ name: string }>).some((c) => c.name === 'name')) {
+  db.exec("ALTER TABLE schema_version ADD COLUMN name TEXT");
+  db.exec("UPDATE schema_version SET name = 'baseline' WHERE version = 1");
+}
+
 const stmts = {
   getAll: db.prepare('SELECT data FROM collections WHERE collection = ?'),
   getByUid: db.prepare('SELECT id, data FROM collections WHERE uid = ? AND collection = ?'),
@@ -50,9 +83,104 @@ const stmts = {
   deleteByKey: db.prepare('DELETE FROM collections WHERE (id = ? OR uid = ?) AND collection = ?'),
   deleteAll: db.prepare('DELETE FROM collections WHERE collection = ?'),
   countCol: db.prepare('SELECT COUNT(*) as count FROM collections WHERE collection = ?'),
+  getAllRows: db.prepare('SELECT id, data FROM collections WHERE collection = ?'),
+  deleteById: db.prepare('DELETE FROM collections WHERE id = ?'),
+  appliedVersions: db.prepare('SELECT version, name, applied_at FROM schema_version ORDER BY version'),
+  recordVersion: db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)'),
   maxId: db.prepare('SELECT MAX(CAST(id AS INTEGER)) as max_id FROM collections WHERE collection = ?'),
 };
 
+// Dynamic query statements, cached by SQL text.
+const queryStmts = new Map<string, Database.Statement>();
+
+function prepareQuery(sql: string): Database.Statement {
+  let stmt = queryStmts.get(sql);
+  if (!stmt) {
+    stmt = db.prepare(sql);
+    queryStmts.set(sql, stmt);
+  }
+  return stmt;
+}
+
+/** Create the (collection, json field) expression index for a declared field. */
+function createJsonIndex(field: string): void {
+  if (!isValidField(field)) throw new Error(`Invalid index field: ${field}`);
+  const name = `idx_col_json_${field.replace(/\./g, '_')}`;
+  db.exec(`CREATE INDEX IF NOT EXISTS ${name} ON collections(collection, json_extract(data, '$.${field}'))`);
+}
+
+/** Helpers handed to each migration; all writes go through the raw prepared statements. */
+const migrationContext: MigrationContext = {
+  transform(collection, fn) {
+    let changed = 0;
+    const rows = stmts.getAllRows.all(collection) as Array<{ id: number; data: string }>;
+    for (const row of rows) {
+      const next = fn(JSON.parse(row.data));
+      if (next === undefined) continue;
+      if (next === null) stmts.deleteById.run(row.id);
+      else stmts.replaceAll.run(JSON.stringify(next), row.id, collection);
+      changed++;
+    }
+    return changed;
+  },
+  createIndex: createJsonIndex,
+  exec(sql) {
+    db.exec(sql);
+  },
+};
+
+/** SQL expression for a JSON field. Field names are validated by normalizeWhere/parseSort. */
+function jsonPath(field: string): string {
+  return `json_extract(data, '$.${field}')`;
+}
+
+/** better-sqlite3 cannot bind booleans or objects; json_extract yields 1/0 and JSON text for those. */
+function bindValue(value: any): any {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+function compileCondition(c: QueryCondition, params: any[]): string {
+  const expr = jsonPath(c.field);
+  switch (c.op) {
+    case 'eq':
+      if (c.value == null) return `${expr} IS NULL`;
+      params.push(bindValue(c.value));
+      return `${expr} = ?`;
+    case 'ne':
+      if (c.value == null) return `${expr} IS NOT NULL`;
+      params.push(bindValue(c.value));
+      return `(${expr} IS NULL OR ${expr} != ?)`;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const sqlOp = { gt: '>', gte: '>=', lt: '<', lte: '<=' }[c.op];
+      params.push(bindValue(c.value));
+      return `${expr} ${sqlOp} ?`;
+    }
+    case 'in':
+    case 'nin': {
+      const values = (c.value as any[]).map(bindValue);
+      if (values.length === 0) return c.op === 'in' ? '0' : '1';
+      params.push(...values);
+      const list = values.map(() => '?').join(', ');
+      return c.op === 'in' ? `${expr} IN (${list})` : `(${expr} IS NULL OR ${expr} NOT IN (${list}))`;
+    }
+    case 'exists':
+      return `json_type(data, '$.${c.field}') IS ${c.value ? 'NOT NULL' : 'NULL'}`;
+    default:
+      throw new Error(`Unsupported query operator: ${(c as any).op}`);
+  }
+}
+
+// Async transaction state: the tail of the transaction queue, whether one is
+// open, and the change events it will emit once it commits.
+let txTail: Promise<unknown> = Promise.resolve();
+let txActive = false;
+let txChanges: Array<[string, ChangeType, any]> | null = null;
+
 const txInsertMany = db.transaction((collection: string, items: Array<{ uid: string; data: string }>) => {
   for (const item of items) {
     stmts.insert.run(item.uid, collection, item.data);
@@ -72,12 +200,6 @@ export interface DBRecord {
   [key: string]: any;
 }
 
-export interface SchemaDefinition {
-  required?: string[];
-  types?: Record<string, string>;
-  defaults?: Record<string, any>;
-}
-
 export class SQLiteAdapter {
   private schemas: Record<string, SchemaDefinition> = {};
   private subscribers: Record<string, Function[]> = {};
@@ -88,6 +210,48 @@ export class SQLiteAdapter {
 
   setSchemas(schemas: Record<string, SchemaDefinition>) {
     this.schemas = schemas;
+    this.ensureIndexes();
+  }
+
+  /** Create the JSON indexes declared by the current schemas (idempotent). */
+  ensureIndexes(): string[] {
+    const fields = new Set<string>();
+    for (const schema of Object.values(this.schemas)) {
+      for (const field of schema.indexes || []) fields.add(field);
+    }
+    for (const field of fields) createJsonIndex(field);
+    return [...fields];
+  }
+
+  getAppliedMigrations(): AppliedMigration[] {
+    return stmts.appliedVersions.all() as AppliedMigration[];
+  }
+
+  getSchemaVersion(): number {
+    return Math.max(0, ...this.getAppliedMigrations().map((m) => m.version));
+  }
+
+  getPendingMigrations(migrations: Migration[] = MIGRATIONS): Migration[] {
+    const applied = new Set(this.getAppliedMigrations().map((m) => m.version));
+    return migrations.filter((m) => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations in version order. Each runs in its own
+   * transaction together with its schema_version row, so a failure leaves
+   * earlier migrations applied and the failing one rolled back.
+   */
+  migrate(migrations: Migration[] = MIGRATIONS): AppliedMigration[] {
+    const applied: AppliedMigration[] = [];
+    for (const m of this.getPendingMigrations(migrations)) {
+      db.transaction(() => {
+        m.up(migrationContext);
+        stmts.recordVersion.run(m.version, m.name);
+      })();
+      applied.push({ version: m.version, name: m.name, applied_at: new Date().toISOString() });
+      console.log(`SQLite: applied migration ${m.version} ${m.name}`);
+    }
+    return applied;
   }
 
   async get<T = any>(collection: string, _force?: boolean): Promise<T[]> {
@@ -105,18 +269,68 @@ export class SQLiteAdapter {
   }
 
   async find<T = any>(collection: string, filter?: ((item: T) => boolean) | Record<string, any>): Promise<T[]> {
-    const arr = await this.get<T>(collection);
-    if (!filter) return arr;
-    if (typeof filter === 'function') return arr.filter(filter);
-    return arr.filter(record => {
-      for (const [key, value] of Object.entries(filter)) {
-        if ((record as any)[key] !== value) return false;
-      }
-      return true;
-    });
+    if (!filter) return this.get<T>(collection);
+    if (typeof filter === 'function') return (await this.get<T>(collection)).filter(filter);
+    const entries = Object.entries(filter);
+    if (!entries.every(([key]) => isValidField(key))) {
+      return (await this.get<T>(collection)).filter(record => entries.every(([key, value]) => (record as any)[key] === value));
+    }
+    // Exact-match object filters compile to json_extract so the idx_col_data_* indexes apply.
+    const where = entries.map(([field, value]) => ({ field, op: 'eq' as const, value }));
+    const res = await this.query<T>(collection, { where });
+    return res.data;
+  }
+
+  /**
+   * Structured query: conditions, sort and paging run in SQL; projection is
+   * applied to the decoded rows. Cursors encode the next offset.
+   */
+  async query<T = any>(collection: string, options: QueryOptions = {}): Promise<QueryResult<T>> {
+    const params: any[] = [collection];
+    const clauses = ['collection = ?'];
+    for (const c of normalizeWhere(options.where)) clauses.push(compileCondition(c, params));
+
+    const order = (options.sort || []).map((s) => `${jsonPath(s.field)} ${s.direction === 'desc' ? 'DESC' : 'ASC'}`);
+    order.push('id ASC');
+
+    const limit = clampLimit(options.limit);
+    const offset = decodeCursor(options.cursor).o ?? options.offset ?? 0;
+    let sql = `SELECT data FROM collections WHERE ${clauses.join(' AND ')} ORDER BY ${order.join(', ')}`;
+    if (limit) {
+      // Fetch one extra row to know whether another page exists.
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(limit + 1, offset);
+    } else if (offset) {
+      sql += ' LIMIT -1 OFFSET ?';
+      params.push(offset);
+    }
+
+    const rows = prepareQuery(sql).all(...params) as Array<{ data: string }>;
+    const hasMore = !!limit && rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+    return {
+      data: page.map((row) => projectRecord(JSON.parse(row.data), options.fields)) as T[],
+      nextCursor: hasMore ? encodeCursor({ o: offset + (limit as number) }) : null,
+      hasMore,
+    };
   }
 
   async insert<T = any>(collection: string, item: Partial<T>): Promise<T & { id: string; uid: string }> {
+    await this.writeGate();
+    return this.insertNow(collection, item);
+  }
+
+  async update<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): Promise<T> {
+    await this.writeGate();
+    return this.updateNow(collection, key, updates, options);
+  }
+
+  async delete<T = any>(collection: string, key: string): Promise<void> {
+    await this.writeGate();
+    this.deleteNow(collection, key);
+  }
+
+  private insertNow<T = any>(collection: string, item: Partial<T>): T & { id: string; uid: string } {
     const schema = this.schemas[collection];
     if (schema?.defaults) item = { ...schema.defaults, ...item };
     this.validateSchema(collection, item);
@@ -124,37 +338,51 @@ export class SQLiteAdapter {
     const maxRow = stmts.maxId.get(collection) as { max_id: number | null };
     const id = ((maxRow.max_id || 0) + 1).toString();
     const uid = crypto.randomUUID();
-    const newItem = { ...item, id, uid, created_at: new Date().toISOString() } as T & { id: string; uid: string };
+    const newItem = { ...item, id, uid, version: 1, created_at: new Date().toISOString() } as T & { id: string; uid: string };
 
     stmts.insert.run(uid, collection, JSON.stringify(newItem));
     this.notifySubscribers(collection);
+    this.recordChange(collection, 'insert', newItem);
     return newItem;
   }
 
-  async update<T = any>(collection: string, key: string, updates: Partial<T>): Promise<T> {
+  private updateNow<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): T {
     let row = stmts.getById.get(key, collection) as { id: number; data: string } | undefined;
     if (!row) {
       row = stmts.getByUid.get(key, collection) as { id: number; data: string } | undefined;
     }
     if (!row) throw new Error(`Item with key "${key}" not found in collection "${collection}".`);
 
+    // Read, version check and write run synchronously, so no other write can interleave.
     const existing = JSON.parse(row.data);
-    const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
+    const updated = applyVersionedUpdate(collection, key, existing, updates as Record<string, any>, options);
     this.validateSchema(collection, updated);
 
     stmts.replaceAll.run(JSON.stringify(updated), row.id, collection);
     this.notifySubscribers(collection);
+    this.recordChange(collection, 'update', updated);
     return updated;
   }
 
-  async delete<T = any>(collection: string, key: string): Promise<void> {
+  private deleteNow(collection: string, key: string): void {
     const numId = parseInt(key, 10);
     const keyToUse = isNaN(numId) ? 0 : numId;
+    const row = (stmts.getById.get(keyToUse, collection) || stmts.getByUid.get(key, collection)) as
+      | { id: number; data: string }
+      | undefined;
     stmts.deleteByKey.run(keyToUse, key, collection);
     this.notifySubscribers(collection);
+    if (row) this.recordChange(collection, 'delete', JSON.parse(row.data));
+  }
+
+  /** Emit a change event now, or after COMMIT when inside a transaction. */
+  private recordChange(collection: string, type: ChangeType, record: any): void {
+    if (txChanges) txChanges.push([collection, type, record]);
+    else emitChange(collection, type, record);
   }
 
   async save<T = any>(collection: string, data: T[]): Promise<T[]> {
+    await this.writeGate();
     const items = data.map((item: any) => ({
       id: item.id,
       data: JSON.stringify(item)
@@ -164,6 +392,55 @@ export class SQLiteAdapter {
     return data;
   }
 
+  /**
+   * Run `fn` atomically: every write made through `tx` commits together or
+   * rolls back if `fn` throws. better-sqlite3's db.transaction() wrapper is
+   * synchronous and cannot span awaits, so this drives BEGIN IMMEDIATE /
+   * COMMIT on the shared connection directly. Transactions are serialised and
+   * writes from outside the callback wait until the open one settles.
+   */
+  async transaction<R>(fn: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+    const run = async (): Promise<R> => {
+      txActive = true;
+      txChanges = [];
+      db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await fn(this.transactionHandle());
+        db.exec('COMMIT');
+        const committed = txChanges;
+        txChanges = null;
+        for (const [collection, type, record] of committed) emitChange(collection, type, record);
+        return result;
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      } finally {
+        txActive = false;
+        txChanges = null;
+      }
+    };
+    const next = txTail.then(run, run);
+    txTail = next.catch(() => undefined);
+    return next;
+  }
+
+  private transactionHandle(): StorageTransaction {
+    return {
+      get: (collection) => this.get(collection),
+      find: (collection, filter) => this.find(collection, filter),
+      findById: (collection, id) => this.findById(collection, id),
+      query: (collection, options) => this.query(collection, options),
+      insert: async (collection, item) => this.insertNow(collection, item),
+      update: async (collection, key, updates, options) => this.updateNow(collection, key, updates, options),
+      delete: async (collection, key) => this.deleteNow(collection, key),
+    };
+  }
+
+  /** Hold writes issued outside a transaction until the open one settles. */
+  private async writeGate(): Promise<void> {
+    while (txActive) await txTail;
+  }
+
   async initializeAllCollections(): Promise<void> {
     const allCollections = [
       ...Object.keys(this.schemas),
@@ -186,8 +463,8 @@ export class SQLiteAdapter {
       'forum_questions', 'forum_answers', 'forum_categories',
       'job_postings', 'job_applications', 'job_categories', 'job_saved', 'job_alerts',
       'patients', 'patient_identifiers', 'patient_entity_links',
-      'encounters', 'vitals', 'conditions', 'allergies',
-      'medication_requests', 'medication_dispenses',
+      'encounters', 'vitals', 'early_warning_scores', 'conditions', 'allergies',
+      'medication_requests', 'medication_dispenses', 'medication_administrations',
       'lab_orders', 'lab_results', 'imaging_orders',
       'documents', 'care_plans', 'referrals',
       'bed_management', 'staff_schedules', 'triage_notes',
@@ -235,11 +512,7 @@ export class SQLiteAdapter {
   }
 
   private validateSchema(collection: string, item: any): void {
-    const schema = this.schemas[collection];
-    if (!schema) return;
-    (schema.required || []).forEach(r => {
-      if (!(r in item)) throw new Error(`Missing required field: ${r}`);
-    });
+    validateDocument(collection, this.schemas[collection], item);
   }
 
   getRawDB(): Database.Database {
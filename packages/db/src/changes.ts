@@ -0,0 +1,40 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Process-wide change events emitted by the adapters after each committed
+// insert, update or delete. The backend's /api/stream SSE feed listens here.
+// Events only cover writes made by this process; a multi-instance deployment
+// needs a shared bus in front of this.
+
+export type ChangeType = 'insert' | 'update' | 'delete';
+
+export interface ChangeEvent {
+  collection: string;
+  type: ChangeType;
+  id: string;
+  /** The record after the write; for deletes, the record as it was. */
+  record: any;
+  at: string;
+}
+
+export type ChangeListener = (event: ChangeEvent) => void;
+
+const listeners = new Set<ChangeListener>();
+
+/** Listen for committed changes in any collection. Returns an unsubscribe function. */
+export function onChange(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitChange(collection: string, type: ChangeType, record: any): void {
+  if (!record || listeners.size === 0) return;
+  const event: ChangeEvent = { collection, type, id: String(record.id), record, at: new Date().toISOString() };
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err: any) {
+      console.error(`[db] change listener failed: ${err.message}`);
+    }
+  }
+}
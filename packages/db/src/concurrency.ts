@@ -0,0 +1,47 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Optimistic concurrency shared by both adapters. Every record carries an
+// integer `version`, set to 1 on insert and bumped on each update. Callers that
+// read a record before writing it pass that version back as `expectedVersion`;
+// if someone else has written in between, the update is rejected.
+
+export interface UpdateOptions {
+  /** Reject the update unless the stored record is still at this version. */
+  expectedVersion?: number;
+}
+
+export class VersionConflictError extends Error {
+  readonly status = 409;
+
+  constructor(
+    readonly collection: string,
+    readonly key: string,
+    /** The record as currently stored, so callers can offer a merge. */
+    readonly current: any,
+  ) {
+    super(`Version conflict on ${collection}/${key}: record is at version ${versionOf(current)}`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/** Records written before versioning was introduced count as version 0. */
+export function versionOf(record: any): number {
+  return Number.isInteger(record?.version) ? record.version : 0;
+}
+
+/**
+ * Merge `updates` into `current` for an update, enforcing `expectedVersion`
+ * and bumping the version. A `version` inside `updates` is ignored.
+ */
+export function applyVersionedUpdate(
+  collection: string,
+  key: string,
+  current: any,
+  updates: Record<string, any>,
+  options?: UpdateOptions,
+): any {
+  if (options?.expectedVersion !== undefined && versionOf(current) !== options.expectedVersion) {
+    throw new VersionConflictError(collection, key, current);
+  }
+  const { version: _ignored, ...changes } = updates;
+  return { ...current, ...changes, version: versionOf(current) + 1, updated_at: new Date().toISOString() };
+}
@@ -2,10 +2,24 @@
 // @careconnect/db — storage factory selecting between Lightbase (cloud, primary)
 // and better-sqlite3 (local, fallback) via the STORAGE_PROVIDER env var.
 import { LightbaseStorageAdapter } from './lightbase-adapter.ts';
-import type { DBRecord, SchemaDefinition } from './adapter.ts';
+import type { DBRecord } from './adapter.ts';
+import type { FieldType, SchemaDefinition } from './schema.ts';
+import type { AppliedMigration, Migration } from './migrations/index.ts';
+import type { StorageTransaction } from './transaction.ts';
+import type { UpdateOptions } from './concurrency.ts';
+import { COLLECTION_SCHEMAS } from './schemas.ts';
+import type { QueryCondition, QueryOperator, QueryOptions, QueryResult, QuerySort } from './query.ts';
 
-export type { DBRecord, SchemaDefinition };
+export type { DBRecord, FieldType, SchemaDefinition };
+export type { AppliedMigration, Migration };
+export type { StorageTransaction, UpdateOptions };
+export { VersionConflictError, versionOf } from './concurrency.ts';
+export type { ChangeEvent, ChangeListener, ChangeType } from './changes.ts';
+export { onChange } from './changes.ts';
+export { COLLECTION_SCHEMAS };
+export type { QueryCondition, QueryOperator, QueryOptions, QueryResult, QuerySort };
 export { LightbaseStorageAdapter };
+export { normalizeWhere, parseSort, projectRecord, isValidField, encodeCursor, decodeCursor, MAX_QUERY_LIMIT } from './query.ts';
 
 /**
  * Common storage interface implemented by both adapters so the backend can
@@ -18,13 +32,25 @@ export interface StorageAdapter {
     filter?: ((item: T) => boolean) | Record<string, any>,
   ): Promise<T[]>;
   findById<T = any>(collection: string, id: string): Promise<T | null>;
+  /** Filter/sort/paginate/project server-side (see query.ts). */
+  query<T = any>(collection: string, options?: QueryOptions): Promise<QueryResult<T>>;
   insert<T = any>(collection: string, item: Partial<T>): Promise<T & DBRecord>;
-  update<T = any>(collection: string, key: string, updates: Partial<T>): Promise<T>;
+  /** Bumps the record's `version`; throws VersionConflictError if `expectedVersion` is stale. */
+  update<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): Promise<T>;
   delete<T = any>(collection: string, key: string): Promise<void>;
   save<T = any>(collection: string, data: T[]): Promise<T[]>;
+  /**
+   * Run several reads/writes as one unit. SQLite commits atomically; Lightbase
+   * compensates (undoes applied writes) when the callback throws.
+   */
+  transaction<R>(fn: (tx: StorageTransaction) => Promise<R>): Promise<R>;
   initializeAllCollections(): Promise<void>;
   setSchemas(schemas: Record<string, SchemaDefinition>): void;
   subscribe?(collection: string, callback: Function): () => void;
+  /** Versioned migrations (SQLite only). */
+  getSchemaVersion?(): number;
+  getPendingMigrations?(): Migration[];
+  migrate?(): AppliedMigration[];
 }
 
 let _storage: StorageAdapter | null = null;
@@ -61,6 +87,12 @@ export async function getStorage(): Promise<StorageAdapter> {
     _storage = new LightbaseStorageAdapter({ baseUrl, apiKey, projectId, tenant });
   }
 
+  _storage.setSchemas(COLLECTION_SCHEMAS);
+  const pending = _storage.getPendingMigrations?.() || [];
+  if (pending.length) {
+    console.warn(`[storage] ${pending.length} pending migration(s) — run \`npm run db:push\``);
+  }
+
   console.log(`[storage] provider = ${_provider}`);
   return _storage;
 }
@@ -3,6 +3,21 @@
 // Envelope model: each document = { record: <full record json>, <indexed filter fields> }.
 // Matches the SQLiteAdapter interface so the backend can switch providers via env.
 import crypto from 'node:crypto';
+import {
+  applyQuery,
+  clampLimit,
+  decodeCursor,
+  encodeCursor,
+  normalizeWhere,
+  projectRecord,
+  type QueryCondition,
+  type QueryOptions,
+  type QueryResult,
+} from './query.ts';
+import { validateDocument, type SchemaDefinition } from './schema.ts';
+import type { StorageTransaction } from './transaction.ts';
+import { applyVersionedUpdate, type UpdateOptions } from './concurrency.ts';
+import { emitChange } from './changes.ts';
 
 export interface DBRecord {
   id: string;
@@ -10,11 +25,7 @@ export interface DBRecord {
   [key: string]: any;
 }
 
-export interface SchemaDefinition {
-  required?: string[];
-  types?: Record<string, string>;
-  defaults?: Record<string, any>;
-}
+export type { SchemaDefinition };
 
 // Fields duplicated at the top level (indexed) for efficient server-side filtering.
 // All other record fields live inside the `record` json envelope.
@@ -161,11 +172,17 @@ export class LightbaseStorageAdapter {
 
   async get<T = any>(collection: string, _force?: boolean): Promise<T[]> {
     await this.ensureCollection(collection);
+    return this.fetchAll<T>(collection);
+  }
+
+  /** Page through every document matching an optional server-side filter. */
+  private async fetchAll<T = any>(collection: string, lbFilter?: any): Promise<T[]> {
     const all: any[] = [];
     let cursor: any = null;
     let pages = 0;
     do {
       const params = new URLSearchParams({ limit: String(PAGE_LIMIT) });
+      if (lbFilter) params.set('filter', JSON.stringify(lbFilter));
       if (cursor) params.set('cursor', JSON.stringify(cursor));
       const res = await this.request<any>(
         'GET',
@@ -181,6 +198,13 @@ export class LightbaseStorageAdapter {
     return all.map((d) => this.docToRecord(d)) as T[];
   }
 
+  /** Build a Lightbase filter from equality conditions on indexed fields. */
+  private toServerFilter(conditions: QueryCondition[]): any {
+    const parts = conditions.map((c) => ({ field: c.field, op: 'eq', value: String(c.value) }));
+    if (parts.length === 0) return undefined;
+    return parts.length === 1 ? parts[0] : { and: parts };
+  }
+
   async findById<T = any>(collection: string, id: string): Promise<T | null> {
     await this.ensureCollection(collection);
     // Try direct GET by Lightbase document id first.
@@ -227,25 +251,7 @@ export class LightbaseStorageAdapter {
         entries.length === 1
           ? { field: entries[0][0], op: 'eq', value: entries[0][1] }
           : { and: entries.map(([field, value]) => ({ field, op: 'eq', value })) };
-      const all: any[] = [];
-      let cursor: any = null;
-      let pages = 0;
-      do {
-        const params = new URLSearchParams({
-          limit: String(PAGE_LIMIT),
-          filter: JSON.stringify(lbFilter),
-        });
-        if (cursor) params.set('cursor', JSON.stringify(cursor));
-        const res = await this.request<any>(
-          'GET',
-          `/projects/${this.projectId}/collections/${collection}/docs?${params.toString()}`,
-        );
-        all.push(...(res.data || []));
-        cursor = res.hasMore ? res.nextCursor : null;
-        pages++;
-        if (pages > 1000) break;
-      } while (cursor);
-      return all.map((d) => this.docToRecord(d)) as T[];
+      return this.fetchAll<T>(collection, lbFilter);
     }
 
     // Mixed/non-indexed filter: fetch all and filter client-side (correct, less efficient).
@@ -258,6 +264,42 @@ export class LightbaseStorageAdapter {
     });
   }
 
+  /**
+   * Structured query. Equality on indexed envelope fields is pushed to
+   * Lightbase; with nothing left to evaluate and no sort, pages come straight
+   * from the server cursor. Otherwise the narrowed set is filtered, sorted and
+   * paged in memory.
+   */
+  async query<T = any>(collection: string, options: QueryOptions = {}): Promise<QueryResult<T>> {
+    await this.ensureCollection(collection);
+    const where = normalizeWhere(options.where);
+    const pushed = where.filter((c) => c.op === 'eq' && c.value != null && isIndexed(c.field));
+    const residual = where.filter((c) => !pushed.includes(c));
+    const lbFilter = this.toServerFilter(pushed);
+    const limit = clampLimit(options.limit);
+    const cursor = decodeCursor(options.cursor);
+
+    const native = residual.length === 0 && !options.sort?.length && !options.offset && cursor.o == null;
+    if (native && limit) {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (lbFilter) params.set('filter', JSON.stringify(lbFilter));
+      if (cursor.n) params.set('cursor', JSON.stringify(cursor.n));
+      const res = await this.request<any>(
+        'GET',
+        `/projects/${this.projectId}/collections/${collection}/docs?${params.toString()}`,
+      );
+      const hasMore = !!res.hasMore;
+      return {
+        data: (res.data || []).map((d: any) => projectRecord(this.docToRecord(d), options.fields)),
+        nextCursor: hasMore ? encodeCursor({ n: res.nextCursor }) : null,
+        hasMore,
+      };
+    }
+
+    const records = await this.fetchAll<T>(collection, lbFilter);
+    return applyQuery(records, { ...options, where: residual });
+  }
+
   async insert<T = any>(collection: string, item: Partial<T>): Promise<T & DBRecord> {
     await this.ensureCollection(collection);
     const schema = this.schemas[collection];
@@ -269,7 +311,7 @@ export class LightbaseStorageAdapter {
     const now = new Date().toISOString();
     // Do not store `id` inside record — Lightbase provides the canonical id.
     const { id: _omit, ...recordWithoutId } = record;
-    const storedRecord = { ...recordWithoutId, uid, created_at: now };
+    const storedRecord = { ...recordWithoutId, uid, version: 1, created_at: now };
     const envelope = {
       record: storedRecord,
       ...this.extractFilterFields(storedRecord),
@@ -283,17 +325,19 @@ export class LightbaseStorageAdapter {
     const doc = res.document || res;
     const inserted = { ...storedRecord, id: doc.id } as T & DBRecord;
     this.notifySubscribers(collection);
+    emitChange(collection, 'insert', inserted);
     return inserted;
   }
 
-  async update<T = any>(collection: string, key: string, updates: Partial<T>): Promise<T> {
+  async update<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): Promise<T> {
     await this.ensureCollection(collection);
     // Resolve the Lightbase document id (and current record) for the given key.
     const { docId, current } = await this.resolveDoc(collection, key);
     if (!docId) throw new Error(`Item with key "${key}" not found in collection "${collection}".`);
 
-    const now = new Date().toISOString();
-    const merged: any = { ...current, ...updates, updated_at: now };
+    // Lightbase has no conditional PATCH, so the version check is best-effort:
+    // it catches stale edits but not two writers racing within one round trip.
+    const merged: any = applyVersionedUpdate(collection, key, current, updates as Record<string, any>, options);
     this.validateSchema(collection, merged);
     const { id: _omit, ...recordWithoutId } = merged;
     const envelope = {
@@ -307,18 +351,21 @@ export class LightbaseStorageAdapter {
       envelope,
     );
     this.notifySubscribers(collection);
-    return { ...recordWithoutId, id: docId } as T;
+    const updated = { ...recordWithoutId, id: docId };
+    emitChange(collection, 'update', updated);
+    return updated as T;
   }
 
   async delete<T = any>(collection: string, key: string): Promise<void> {
     await this.ensureCollection(collection);
-    const { docId } = await this.resolveDoc(collection, key);
+    const { docId, current } = await this.resolveDoc(collection, key);
     if (!docId) return; // idempotent: deleting missing item is a no-op
     await this.request<any>(
       'DELETE',
       `/projects/${this.projectId}/collections/${collection}/${encodeURIComponent(docId)}`,
     );
     this.notifySubscribers(collection);
+    emitChange(collection, 'delete', { ...current, id: docId });
   }
 
   async save<T = any>(collection: string, data: T[]): Promise<T[]> {
@@ -344,6 +391,67 @@ export class LightbaseStorageAdapter {
     return data;
   }
 
+  /**
+   * Lightbase has no multi-document transactions, so this is compensating:
+   * each write made through `tx` records its inverse, and if `fn` throws the
+   * inverses run in reverse order before the error is rethrown. Restored
+   * deletes come back under a new document id (the uid is preserved).
+   */
+  async transaction<R>(fn: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+    const undo: Array<() => Promise<void>> = [];
+    const tx: StorageTransaction = {
+      get: (collection) => this.get(collection),
+      find: (collection, filter) => this.find(collection, filter),
+      findById: (collection, id) => this.findById(collection, id),
+      query: (collection, options) => this.query(collection, options),
+      insert: async (collection, item) => {
+        const inserted = await this.insert(collection, item);
+        undo.push(() => this.delete(collection, inserted.id));
+        return inserted;
+      },
+      update: async (collection, key, updates, options) => {
+        const { docId, current } = await this.resolveDoc(collection, key);
+        if (!docId) throw new Error(`Item with key "${key}" not found in collection "${collection}".`);
+        const updated = await this.update(collection, docId, updates, options);
+        undo.push(() => this.writeRecord(collection, docId, current));
+        return updated;
+      },
+      delete: async (collection, key) => {
+        const { docId, current } = await this.resolveDoc(collection, key);
+        if (!docId) return;
+        await this.delete(collection, docId);
+        undo.push(async () => {
+          await this.insert(collection, current);
+        });
+      },
+    };
+
+    try {
+      return await fn(tx);
+    } catch (err) {
+      for (const step of undo.reverse()) {
+        try {
+          await step();
+        } catch (undoErr: any) {
+          console.error(`[lightbase] transaction compensation failed: ${undoErr.message}`);
+        }
+      }
+      throw err;
+    }
+  }
+
+  /** Overwrite a document with an exact record (no merge), used to undo updates. */
+  private async writeRecord(collection: string, docId: string, record: any): Promise<void> {
+    const { id: _omit, ...recordWithoutId } = record;
+    await this.request<any>(
+      'PATCH',
+      `/projects/${this.projectId}/collections/${collection}/${encodeURIComponent(docId)}`,
+      { record: recordWithoutId, ...this.extractFilterFields(recordWithoutId) },
+    );
+    this.notifySubscribers(collection);
+    emitChange(collection, 'update', { ...recordWithoutId, id: docId });
+  }
+
   subscribe(collection: string, callback: Function): () => void {
     if (!this.subscribers[collection]) this.subscribers[collection] = [];
     this.subscribers[collection].push(callback);
@@ -397,11 +505,7 @@ export class LightbaseStorageAdapter {
   }
 
   private validateSchema(collection: string, item: any): void {
-    const schema = this.schemas[collection];
-    if (!schema) return;
-    (schema.required || []).forEach((r) => {
-      if (!(r in item)) throw new Error(`Missing required field: ${r}`);
-    });
+    validateDocument(collection, this.schemas[collection], item);
   }
 
   /** Health probe used by /api/health. */
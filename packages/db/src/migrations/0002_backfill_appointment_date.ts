@@ -0,0 +1,18 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Bookings created through the booking-complete flow only carry `booking_date`,
+// while the booking service and the declared index query `appointment_date`.
+import type { Migration } from './index.ts';
+
+const migration: Migration = {
+  version: 2,
+  name: 'backfill_bookings_appointment_date',
+  up(ctx) {
+    ctx.transform('bookings', (doc) => {
+      if (doc.appointment_date || !doc.booking_date) return undefined;
+      return { ...doc, appointment_date: doc.booking_date };
+    });
+    ctx.createIndex('appointment_date');
+  },
+};
+
+export default migration;
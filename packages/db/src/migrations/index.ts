@@ -0,0 +1,33 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Versioned storage migrations. Version 1 is the baseline `collections` table
+// created by the SQLite adapter; each later migration is applied once, in
+// order, inside a transaction, and recorded in `schema_version`.
+import backfillAppointmentDate from './0002_backfill_appointment_date.ts';
+
+export interface MigrationContext {
+  /**
+   * Rewrite every document of a collection. Return the new document to save
+   * it, `null` to delete it, or `undefined` to leave it untouched.
+   * Returns the number of documents changed.
+   */
+  transform(collection: string, fn: (doc: any) => any | null | undefined): number;
+  /** Create an expression index on (collection, json_extract(data, field)). */
+  createIndex(field: string): void;
+  /** Run raw SQL for structural changes the helpers do not cover. */
+  exec(sql: string): void;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  /** Migrations run synchronously so they can share one SQLite transaction. */
+  up(ctx: MigrationContext): void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export const MIGRATIONS: Migration[] = [backfillAppointmentDate];
@@ -0,0 +1,182 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Structured query model shared by both storage adapters.
+// SQLite compiles it to json_extract SQL; Lightbase pushes what it can to the
+// server and evaluates the rest in memory with the helpers below.
+
+export type QueryOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'exists';
+
+export interface QueryCondition {
+  field: string;
+  op: QueryOperator;
+  value: any;
+}
+
+export interface QuerySort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface QueryOptions {
+  where?: QueryCondition[];
+  sort?: QuerySort[];
+  limit?: number;
+  offset?: number;
+  /** Opaque cursor returned as `nextCursor` by a previous page. */
+  cursor?: string;
+  /** Projection: only these fields (plus id/uid/version) are returned. */
+  fields?: string[];
+}
+
+export interface QueryResult<T = any> {
+  data: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export const QUERY_OPERATORS: QueryOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'exists'];
+export const MAX_QUERY_LIMIT = 1000;
+
+/** Field names are inlined into SQL JSON paths, so keep them to a safe charset. */
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+export function isValidField(field: string): boolean {
+  return FIELD_PATTERN.test(field);
+}
+
+/**
+ * Normalise a Mongo-style where object into conditions:
+ *   { status: 'active', created_at: { gte: '2025-01-01' }, type: { in: ['a', 'b'] } }
+ * Throws on unknown operators or unsafe field names.
+ */
+export function normalizeWhere(where: Record<string, any> | QueryCondition[] | undefined): QueryCondition[] {
+  if (!where) return [];
+  if (Array.isArray(where)) {
+    for (const c of where) assertCondition(c);
+    return where;
+  }
+  const out: QueryCondition[] = [];
+  for (const [field, spec] of Object.entries(where)) {
+    const isOperatorMap =
+      spec && typeof spec === 'object' && !Array.isArray(spec) &&
+      Object.keys(spec).length > 0 && Object.keys(spec).every((k) => (QUERY_OPERATORS as string[]).includes(k));
+    if (isOperatorMap) {
+      for (const [op, value] of Object.entries(spec)) out.push({ field, op: op as QueryOperator, value });
+    } else {
+      out.push({ field, op: 'eq', value: spec });
+    }
+  }
+  for (const c of out) assertCondition(c);
+  return out;
+}
+
+function assertCondition(c: QueryCondition): void {
+  if (!isValidField(c.field)) throw new Error(`Invalid query field: ${c.field}`);
+  if (!(QUERY_OPERATORS as string[]).includes(c.op)) throw new Error(`Unsupported query operator: ${c.op}`);
+  if ((c.op === 'in' || c.op === 'nin') && !Array.isArray(c.value)) {
+    throw new Error(`Operator "${c.op}" on ${c.field} requires an array`);
+  }
+}
+
+/** Parse `-created_at,name` into sort keys (leading `-` = descending). */
+export function parseSort(sort: string | undefined): QuerySort[] {
+  if (!sort) return [];
+  return sort
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const direction: QuerySort['direction'] = s.startsWith('-') ? 'desc' : 'asc';
+      const field = s.replace(/^[-+]/, '');
+      if (!isValidField(field)) throw new Error(`Invalid sort field: ${field}`);
+      return { field, direction };
+    });
+}
+
+/** Read a (possibly dotted) field from a record. */
+export function readField(record: any, field: string): any {
+  if (!field.includes('.')) return record?.[field];
+  return field.split('.').reduce((acc, key) => (acc == null ? undefined : acc[key]), record);
+}
+
+function compare(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+export function matchesCondition(record: any, c: QueryCondition): boolean {
+  const v = readField(record, c.field);
+  switch (c.op) {
+    case 'eq': return c.value === null ? v == null : v === c.value;
+    case 'ne': return c.value === null ? v != null : v !== c.value;
+    case 'gt': return v != null && compare(v, c.value) > 0;
+    case 'gte': return v != null && compare(v, c.value) >= 0;
+    case 'lt': return v != null && compare(v, c.value) < 0;
+    case 'lte': return v != null && compare(v, c.value) <= 0;
+    case 'in': return (c.value as any[]).includes(v);
+    case 'nin': return !(c.value as any[]).includes(v);
+    case 'exists': return c.value ? v !== undefined : v === undefined;
+    default: return false;
+  }
+}
+
+export function matchesAll(record: any, conditions: QueryCondition[]): boolean {
+  return conditions.every((c) => matchesCondition(record, c));
+}
+
+export function sortRecords<T>(records: T[], sort: QuerySort[]): T[] {
+  if (!sort.length) return records;
+  return [...records].sort((a, b) => {
+    for (const s of sort) {
+      const d = compare(readField(a, s.field), readField(b, s.field));
+      if (d !== 0) return s.direction === 'desc' ? -d : d;
+    }
+    return 0;
+  });
+}
+
+export function projectRecord(record: any, fields: string[] | undefined): any {
+  if (!fields?.length) return record;
+  const out: any = {};
+  for (const f of ['id', 'uid', 'version', ...fields]) {
+    if (f in record) out[f] = record[f];
+  }
+  return out;
+}
+
+export function clampLimit(limit: number | undefined): number | undefined {
+  if (limit == null || Number.isNaN(limit)) return undefined;
+  return Math.max(1, Math.min(MAX_QUERY_LIMIT, Math.floor(limit)));
+}
+
+/** Cursors are opaque to callers: an offset, or an adapter-native cursor. */
+export function encodeCursor(cursor: { o?: number; n?: any }): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string | undefined): { o?: number; n?: any } {
+  if (!cursor) return {};
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
+
+/** Evaluate a full query in memory (filter, sort, page, project). */
+export function applyQuery<T = any>(records: T[], options: QueryOptions): QueryResult<T> {
+  const where = options.where || [];
+  const filtered = where.length ? records.filter((r) => matchesAll(r, where)) : records;
+  const sorted = sortRecords(filtered, options.sort || []);
+  const limit = clampLimit(options.limit);
+  const offset = decodeCursor(options.cursor).o ?? options.offset ?? 0;
+  const page = limit ? sorted.slice(offset, offset + limit) : sorted.slice(offset);
+  const hasMore = limit ? offset + limit < sorted.length : false;
+  return {
+    data: page.map((r) => projectRecord(r, options.fields)),
+    nextCursor: hasMore ? encodeCursor({ o: offset + (limit || 0) }) : null,
+    hasMore,
+  };
+}
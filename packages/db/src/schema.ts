@@ -0,0 +1,90 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Collection schema definitions and document validation shared by both adapters.
+// `types` accepts the original string shorthand ('string', 'number', ...) plus
+// structured specs for enums, nested objects and typed arrays.
+
+export type PrimitiveType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'date' | 'any';
+
+export type FieldType =
+  | PrimitiveType
+  | { type: 'enum'; values: Array<string | number>; nullable?: boolean }
+  | { type: 'object'; fields: Record<string, FieldType>; required?: string[]; nullable?: boolean }
+  | { type: 'array'; items?: FieldType; nullable?: boolean }
+  | { type: Exclude<PrimitiveType, 'object' | 'array'>; nullable?: boolean };
+
+export interface SchemaDefinition {
+  required?: string[];
+  types?: Record<string, FieldType>;
+  defaults?: Record<string, any>;
+  /** JSON fields to index (SQLite: expression index on collection + json_extract). */
+  indexes?: string[];
+}
+
+function describe(t: FieldType): string {
+  if (typeof t === 'string') return t;
+  if (t.type === 'enum') return `one of ${t.values.join(', ')}`;
+  return t.type;
+}
+
+function checkPrimitive(type: PrimitiveType, value: any): boolean {
+  switch (type) {
+    case 'any': return true;
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && !Number.isNaN(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && !Array.isArray(value);
+    case 'date': return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    default: return true;
+  }
+}
+
+/** Validate one value against a field type; returns an error message or null. */
+function checkField(path: string, type: FieldType, value: any): string | null {
+  // Absent/null values are only checked by `required`; types constrain present values.
+  if (value === undefined) return null;
+  if (value === null) return typeof type === 'string' || type.nullable !== false ? null : `${path} may not be null`;
+
+  if (typeof type === 'string') {
+    return checkPrimitive(type, value) ? null : `${path} must be ${describe(type)}`;
+  }
+
+  switch (type.type) {
+    case 'enum':
+      return type.values.includes(value) ? null : `${path} must be ${describe(type)}`;
+    case 'object': {
+      if (!checkPrimitive('object', value)) return `${path} must be object`;
+      for (const r of type.required || []) {
+        if (!(r in value)) return `${path}.${r} is required`;
+      }
+      for (const [k, t] of Object.entries(type.fields)) {
+        const err = checkField(`${path}.${k}`, t, value[k]);
+        if (err) return err;
+      }
+      return null;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return `${path} must be array`;
+      if (!type.items) return null;
+      for (let i = 0; i < value.length; i++) {
+        const err = checkField(`${path}[${i}]`, type.items, value[i]);
+        if (err) return err;
+      }
+      return null;
+    }
+    default:
+      return checkPrimitive(type.type, value) ? null : `${path} must be ${describe(type)}`;
+  }
+}
+
+/** Throws if `item` violates the collection schema (required fields, then types). */
+export function validateDocument(collection: string, schema: SchemaDefinition | undefined, item: any): void {
+  if (!schema) return;
+  for (const r of schema.required || []) {
+    if (!(r in item)) throw new Error(`Missing required field: ${r}`);
+  }
+  for (const [field, type] of Object.entries(schema.types || {})) {
+    const err = checkField(field, type, item[field]);
+    if (err) throw new Error(`Invalid ${collection} document: ${err}`);
+  }
+}
@@ -0,0 +1,224 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Declared collection schemas for the backend: validation rules and the JSON
+// fields each collection is queried by. Applied by getStorage() on startup.
+import type { SchemaDefinition } from './schema.ts';
+
+const ENCOUNTER_STATUS = ['scheduled', 'in_progress', 'completed', 'cancelled', 'no_show'];
+const ENCOUNTER_TYPE = ['opd', 'emergency', 'inpatient', 'telehealth', 'lab', 'imaging'];
+const PRIORITY = ['routine', 'urgent', 'emergency'];
+const LAB_STATUS = ['draft', 'requested', 'received', 'in_progress', 'completed', 'cancelled', 'entered_in_error'];
+const LAB_PRIORITY = ['routine', 'urgent', 'asap', 'stat'];
+
+export const COLLECTION_SCHEMAS: Record<string, SchemaDefinition> = {
+  users: {
+    required: ['email'],
+    types: { email: 'string', user_type: 'string', is_verified: 'boolean', is_active: 'boolean', permissions: { type: 'array', items: 'string' } },
+    indexes: ['user_type'],
+  },
+  patients: {
+    types: {
+      patient_code: 'string',
+      is_active: 'boolean',
+      preferences: {
+        type: 'object',
+        fields: { language: 'string', communication_method: 'string', privacy_level: 'string' },
+      },
+    },
+    indexes: ['patient_code', 'primary_entity_id'],
+  },
+  patient_entity_links: {
+    required: ['patient_id', 'entity_id'],
+  },
+  encounters: {
+    required: ['patient_id', 'entity_id'],
+    types: {
+      status: { type: 'enum', values: ENCOUNTER_STATUS },
+      type: { type: 'enum', values: ENCOUNTER_TYPE },
+      priority: { type: 'enum', values: PRIORITY },
+      scheduled_start: 'date',
+    },
+    indexes: ['scheduled_start', 'encounter_id'],
+  },
+  vitals: {
+    required: ['patient_id'],
+    types: { measured_at: 'date', is_abnormal: 'boolean' },
+    indexes: ['encounter_id', 'measured_at'],
+  },
+  triage_notes: {
+    required: ['patient_id', 'encounter_id', 'acuity_level', 'chief_complaint'],
+    types: {
+      scale: { type: 'enum', values: ['esi', 'manchester'] },
+      acuity_rank: 'number',
+      target_minutes: 'number',
+      status: { type: 'enum', values: ['waiting', 'seen', 'left'] },
+      arrived_at: 'date',
+      triaged_at: 'date',
+      provider_seen_at: 'date',
+      left_at: 'date',
+      superseded: 'boolean',
+    },
+    indexes: ['encounter_id', 'entity_id'],
+  },
+  early_warning_scores: {
+    required: ['patient_id', 'encounter_id', 'scale', 'total', 'risk'],
+    types: {
+      scale: { type: 'enum', values: ['news2', 'pews'] },
+      total: 'number',
+      risk: { type: 'enum', values: ['low', 'low_medium', 'medium', 'high'] },
+      escalated: 'boolean',
+      escalated_at: 'date',
+      acknowledged_at: 'date',
+      response_minutes: 'number',
+    },
+    indexes: ['encounter_id', 'entity_id'],
+  },
+  lab_orders: {
+    required: ['patient_id', 'order_number'],
+    types: {
+      order_number: 'string',
+      status: { type: 'enum', values: LAB_STATUS },
+      priority: { type: 'enum', values: LAB_PRIORITY },
+      tests: {
+        type: 'array',
+        items: { type: 'object', required: ['test_name'], fields: { test_code: 'string', test_name: 'string', specimen_type: 'string' } },
+      },
+    },
+    indexes: ['order_number', 'encounter_id'],
+  },
+  lab_results: {
+    required: ['lab_order_id', 'patient_id'],
+    indexes: ['lab_order_id'],
+  },
+  medication_requests: {
+    required: ['patient_id'],
+    indexes: ['encounter_id', 'pharmacy_entity_id'],
+  },
+  medication_administrations: {
+    required: ['patient_id', 'encounter_id', 'medication_request_id', 'status', 'administered_at'],
+    types: {
+      medication_index: 'number',
+      prn: 'boolean',
+      status: { type: 'enum', values: ['given', 'held', 'refused'] },
+      administered_at: 'date',
+      effectiveness_due_at: 'date',
+    },
+    indexes: ['encounter_id', 'medication_request_id'],
+  },
+  drug_dictionaries: {
+    required: ['name', 'version', 'dictionary', 'status'],
+    types: { dictionary: 'object', drug_count: 'number', interaction_count: 'number', status: { type: 'enum', values: ['active', 'superseded'] }, imported_at: 'date' },
+    indexes: ['status'],
+  },
+  bookings: {
+    types: { appointment_date: 'string', booking_date: 'string' },
+    indexes: ['appointment_date', 'booking_date'],
+  },
+  audit_logs: {
+    indexes: ['action', 'created_at'],
+  },
+  audit_trail: {
+    required: ['seq', 'logged_at', 'action', 'entity_type', 'prev_hash', 'hash'],
+    types: { seq: 'number', logged_at: 'date', prev_hash: 'string', hash: 'string', outcome: { type: 'enum', values: ['success', 'denied'] } },
+    indexes: ['seq', 'patient_id', 'user_id', 'user_email', 'logged_at'],
+  },
+  audit_trail_head: {
+    required: ['seq', 'hash'],
+    types: { seq: 'number', hash: 'string', updated_at: 'date' },
+  },
+  break_glass_reviews: {
+    required: ['grant_id', 'patient_id', 'clinician_id', 'reason', 'due_at'],
+    types: { due_at: 'date', expires_at: 'date', status: { type: 'enum', values: ['pending', 'completed'] }, outcome: { type: 'enum', values: ['appropriate', 'inappropriate'] } },
+    indexes: ['grant_id', 'due_at'],
+  },
+  encryption_keys: {
+    required: ['scope', 'wrapped_key', 'master_key_id', 'status'],
+    types: { scope: 'string', wrapped_key: 'string', master_key_id: 'string', status: { type: 'enum', values: ['active', 'retired'] } },
+    indexes: ['scope', 'status'],
+  },
+  patient_search_index: {
+    required: ['patient_id', 'term', 'hash'],
+    types: { term: { type: 'enum', values: ['surname', 'given', 'dob', 'phone', 'mrn', 'national_id'] }, hash: 'string' },
+    indexes: ['hash', 'patient_id'],
+  },
+  login_attempts: {
+    required: ['key', 'kind', 'subject', 'failures'],
+    types: { key: 'string', kind: { type: 'enum', values: ['account', 'mfa', 'ip'] }, failures: 'number', lockouts: 'number' },
+    indexes: ['key'],
+  },
+  login_devices: {
+    required: ['user_id', 'fingerprint', 'label'],
+    types: { fingerprint: 'string', label: 'string' },
+    indexes: ['user_id'],
+  },
+  session_tokens: {
+    required: ['user_id', 'type', 'token'],
+    types: { type: { type: 'enum', values: ['session', 'password_reset', 'mfa_pending', 'mfa_challenge', 'sso_handoff'] }, token: 'string', expires_at: 'date' },
+    indexes: ['user_id', 'token'],
+  },
+  sso_connections: {
+    required: ['entity_id', 'name', 'protocol', 'enabled'],
+    types: {
+      protocol: { type: 'enum', values: ['oidc', 'saml'] },
+      enabled: 'boolean',
+      email_domains: { type: 'array', items: 'string' },
+      role_mappings: { type: 'array', items: 'object' },
+      jit_provisioning: 'boolean',
+    },
+    indexes: ['entity_id'],
+  },
+  sso_identities: {
+    required: ['connection_id', 'user_id', 'subject'],
+    types: { provisioned: 'boolean', last_login_at: 'date' },
+    indexes: ['connection_id', 'user_id', 'subject'],
+  },
+  sso_states: {
+    required: ['connection_id', 'state', 'expires_at'],
+    types: { expires_at: 'date', used: 'boolean' },
+    indexes: ['state'],
+  },
+  sso_domains: {
+    required: ['entity_id', 'domain', 'token', 'status'],
+    types: { status: { type: 'enum', values: ['pending', 'verified'] }, verified_at: 'date' },
+    indexes: ['entity_id', 'domain'],
+  },
+  entity_staff: {
+    required: ['user_id', 'entity_id', 'role'],
+    types: { permissions: { type: 'array', items: 'string' }, status: { type: 'enum', values: ['active', 'suspended', 'removed'] }, joined_at: 'date' },
+    indexes: ['user_id', 'entity_id'],
+  },
+  staff_invitations: {
+    required: ['entity_id', 'email', 'role', 'token', 'status', 'expires_at'],
+    types: { expires_at: 'date', license_required: 'boolean', status: { type: 'enum', values: ['pending', 'accepted', 'revoked'] } },
+    indexes: ['entity_id', 'email', 'token'],
+  },
+  staff_credentials: {
+    required: ['user_id', 'entity_id', 'credential_type', 'issuing_body', 'number', 'status'],
+    types: {
+      credential_type: { type: 'enum', values: ['license', 'board_certification', 'malpractice_insurance', 'other'] },
+      status: { type: 'enum', values: ['pending', 'verified', 'rejected', 'expired'] },
+      issued_at: 'date',
+      expires_at: 'date',
+      reminders: 'object',
+    },
+    indexes: ['user_id', 'entity_id', 'status'],
+  },
+  credential_documents: {
+    required: ['credential_id', 'file_name', 'base64_content'],
+    types: { file_size: 'number' },
+    indexes: ['credential_id'],
+  },
+  patient_duplicate_flags: {
+    required: ['patient_id', 'candidate_id', 'score', 'level', 'status'],
+    types: { score: 'number', reasons: { type: 'array', items: 'string' }, level: { type: 'enum', values: ['likely', 'possible'] }, status: { type: 'enum', values: ['open', 'merged', 'dismissed'] } },
+    indexes: ['patient_id', 'candidate_id', 'status'],
+  },
+  patient_merges: {
+    required: ['survivor_id', 'merged_id', 'moved', 'status', 'merged_by', 'merged_at'],
+    types: { moved: 'object', merged_at: 'date', status: { type: 'enum', values: ['merged', 'unmerged'] } },
+    indexes: ['survivor_id', 'merged_id'],
+  },
+  access_incidents: {
+    required: ['patient_id', 'reason', 'entries'],
+    types: { reason: 'string', entries: { type: 'array', items: 'object' }, status: { type: 'enum', values: ['open', 'investigating', 'resolved', 'dismissed'] } },
+  },
+};
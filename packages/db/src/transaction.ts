@@ -0,0 +1,16 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// The handle passed to StorageAdapter.transaction() callbacks. Reads and
+// writes made through it commit or roll back together.
+import type { DBRecord } from './adapter.ts';
+import type { QueryOptions, QueryResult } from './query.ts';
+import type { UpdateOptions } from './concurrency.ts';
+
+export interface StorageTransaction {
+  get<T = any>(collection: string): Promise<T[]>;
+  find<T = any>(collection: string, filter?: ((item: T) => boolean) | Record<string, any>): Promise<T[]>;
+  findById<T = any>(collection: string, id: string): Promise<T | null>;
+  query<T = any>(collection: string, options?: QueryOptions): Promise<QueryResult<T>>;
+  insert<T = any>(collection: string, item: Partial<T>): Promise<T & DBRecord>;
+  update<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): Promise<T>;
+  delete(collection: string, key: string): Promise<void>;
+}
@@ -0,0 +1,76 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// audit:verify — recomputes the PHI audit trail hash chain offline and reports
+// the first entry that was modified, removed or reordered, and checks the chain
+// ends at the recorded head (audit_trail_head). Reads the local SQLite store,
+// or an export saved from GET /api/admin/audit-logs/export.
+// Usage: npm run audit:verify [-- --file trail-export.json]
+// Must hash exactly like apps/backend/src/services/audit-trail.ts.
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const GENESIS_HASH = '0'.repeat(64);
+const HASHED_FIELDS = [
+  'seq', 'logged_at', 'request_id', 'user_id', 'user_email', 'user_role', 'action',
+  'entity_type', 'entity_id', 'patient_id', 'outcome', 'details', 'prev_hash',
+];
+
+function entryHash(entry) {
+  const canonical = JSON.stringify(HASHED_FIELDS.map((f) => entry[f] ?? null));
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+async function loadEntries() {
+  const fileIdx = process.argv.indexOf('--file');
+  if (fileIdx !== -1) {
+    const file = process.argv[fileIdx + 1];
+    if (!file) throw new Error('--file needs a path');
+    const body = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return { source: file, entries: Array.isArray(body) ? body : body.data || [], head: body.head ?? null };
+  }
+  const dbPath = path.resolve(process.cwd(), 'data', 'careconnect.db');
+  if (!fs.existsSync(dbPath)) throw new Error(`${dbPath} not found (use --file for Lightbase exports)`);
+  const { default: Database } = await import('better-sqlite3');
+  const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  try {
+    const rows = db.prepare(`SELECT data FROM collections WHERE collection = 'audit_trail'`).all();
+    const headRow = db.prepare(`SELECT data FROM collections WHERE collection = 'audit_trail_head'`).get();
+    return { source: dbPath, entries: rows.map((r) => JSON.parse(r.data)), head: headRow ? JSON.parse(headRow.data) : null };
+  } finally {
+    db.close();
+  }
+}
+
+async function main() {
+  const { source, entries, head } = await loadEntries();
+  entries.sort((a, b) => a.seq - b.seq);
+  console.log(`[audit:verify] checking ${entries.length} entries from ${source} ...`);
+
+  let prev = GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    let reason = null;
+    if (e.seq !== i + 1) reason = `expected seq ${i + 1}`;
+    else if (e.prev_hash !== prev) reason = 'prev_hash does not match previous entry';
+    else if (entryHash(e) !== e.hash) reason = 'entry hash mismatch (entry modified)';
+    if (reason) {
+      console.error(`[audit:verify] BROKEN at seq ${e.seq}: ${reason} (${i} entries verified before it)`);
+      process.exit(1);
+    }
+    prev = e.hash;
+  }
+  if (entries.length > 0 && !head) {
+    console.error('[audit:verify] BROKEN: chain head record missing');
+    process.exit(1);
+  }
+  if (head && (head.seq !== entries.length || head.hash !== prev)) {
+    console.error(`[audit:verify] BROKEN: chain ends at seq ${entries.length} but the recorded head is seq ${head.seq} (entries removed from the end)`);
+    process.exit(1);
+  }
+  console.log(`[audit:verify] OK — ${entries.length} entries, chain intact.`);
+}
+
+main().catch((err) => {
+  console.error('[audit:verify] error:', err.message);
+  process.exit(1);
+});
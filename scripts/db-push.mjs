@@ -1,11 +1,37 @@
 // Bismillah Ar-Rahman Ar-Raheem.
-// db:push — for Lightbase, collections are created lazily on first write, so
-// this is a no-op that exits successfully. For SQLite, the adapter auto-creates
-// its schema on import. This stub satisfies the sandbox dev.sh pipeline.
+// db:push — applies pending storage migrations through the backend /api/migrate
+// endpoint and reports them. For Lightbase, collections are created lazily on
+// first write and there are no versioned migrations, so this is a no-op.
+// Usage: npm run db:push   (SQLite: backend must be running on :4321)
 const provider = process.env.STORAGE_PROVIDER || 'lightbase';
-if (provider === 'lightbase') {
-  console.log('[db:push] Lightbase mode — collections are created lazily. Nothing to push.');
-} else {
-  console.log('[db:push] SQLite mode — schema is auto-created on adapter import. Nothing to push.');
+const BACKEND = process.env.SEED_BACKEND || 'http://localhost:4321';
+const SEED_KEY = process.env.SEED_KEY || 'cc_seed_dev_key_change_in_production';
+
+async function main() {
+  if (provider === 'lightbase') {
+    console.log('[db:push] Lightbase mode — collections are created lazily. Nothing to push.');
+    return;
+  }
+  console.log(`[db:push] applying migrations at ${BACKEND}/api/migrate ...`);
+  const res = await fetch(`${BACKEND}/api/migrate`, {
+    method: 'POST',
+    headers: { 'x-seed-key': SEED_KEY, 'Content-Type': 'application/json' },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error('[db:push] FAILED:', res.status, body.error || body);
+    process.exit(1);
+  }
+  const { applied = [], version } = body.data || {};
+  if (applied.length === 0) {
+    console.log(`[db:push] schema is up to date (version ${version}).`);
+    return;
+  }
+  for (const m of applied) console.log(`[db:push] applied ${m.version} ${m.name}`);
+  console.log(`[db:push] ${applied.length} migration(s) applied; schema version ${version}.`);
 }
-process.exit(0);
+
+main().catch((err) => {
+  console.error('[db:push] error:', err.message);
+  process.exit(1);
+});
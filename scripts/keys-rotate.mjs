@@ -0,0 +1,38 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// keys:rotate — rotates the PHI data keys through the backend /api/encryption/rotate
+// endpoint and re-encrypts patients, patient_identifiers and access_grants under
+// the new keys. Legacy base64 values are sealed on the way. With --migrate-only
+// the current keys are kept and only unsealed values are encrypted.
+// Usage: npm run keys:rotate [-- --migrate-only]   (backend must be running on :4321)
+const BACKEND = process.env.SEED_BACKEND || 'http://localhost:4321';
+const SEED_KEY = process.env.SEED_KEY || 'cc_seed_dev_key_change_in_production';
+
+async function main() {
+  const migrateOnly = process.argv.includes('--migrate-only');
+  console.log(`[keys:rotate] ${migrateOnly ? 'sealing legacy values' : 'rotating PHI data keys'} at ${BACKEND}/api/encryption/rotate ...`);
+  const res = await fetch(`${BACKEND}/api/encryption/rotate`, {
+    method: 'POST',
+    headers: { 'x-seed-key': SEED_KEY, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ migrate_only: migrateOnly }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error('[keys:rotate] FAILED:', res.status, body.error || body);
+    process.exit(1);
+  }
+  const { retired_keys = 0, rewrapped_keys = 0, collections = {}, errors = [] } = body.data || {};
+  console.log(`[keys:rotate] retired ${retired_keys} data key(s), re-wrapped ${rewrapped_keys} under the current master key.`);
+  for (const [name, s] of Object.entries(collections)) {
+    console.log(`[keys:rotate] ${name}: ${s.resealed}/${s.scanned} re-encrypted (${s.legacy_values} legacy value(s) migrated)`);
+  }
+  if (errors.length > 0) {
+    for (const e of errors) console.error(`[keys:rotate] ${e}`);
+    console.error(`[keys:rotate] ${errors.length} record(s) failed; fix and re-run (finished rows are skipped).`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('[keys:rotate] error:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// search:reindex — rebuilds the blind-index patient search terms through the
+// backend /api/patients/search-index endpoint. Run after `keys:rotate
+// --migrate-only` on existing data, or after changing PHI_INDEX_KEY.
+// Usage: npm run search:reindex   (backend must be running on :4321)
+const BACKEND = process.env.SEED_BACKEND || 'http://localhost:4321';
+const SEED_KEY = process.env.SEED_KEY || 'cc_seed_dev_key_change_in_production';
+
+async function main() {
+  console.log(`[search:reindex] rebuilding at ${BACKEND}/api/patients/search-index ...`);
+  const res = await fetch(`${BACKEND}/api/patients/search-index`, {
+    method: 'POST',
+    headers: { 'x-seed-key': SEED_KEY, 'Content-Type': 'application/json' },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error('[search:reindex] FAILED:', res.status, body.error || body);
+    process.exit(1);
+  }
+  const { patients = 0, errors = [] } = body.data || {};
+  console.log(`[search:reindex] indexed ${patients} patient(s).`);
+  if (errors.length > 0) {
+    for (const e of errors) console.error(`[search:reindex] ${e}`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('[search:reindex] error:', err.message);
+  process.exit(1);
+});
@@ -10,6 +10,7 @@ import { initializeTheme } from './lib/theme';
 import { LMSService } from './lib/lms';
 import { startScheduler as startConsolidatedScheduler } from './lib/consolidated-scheduler';
 import ConsentAcceptanceModal from './components/auth/ConsentAcceptanceModal';
+import MFAEnrollmentGate from './components/auth/MFAEnrollmentGate';
 
 // Layout Components
 import Header from './components/layout/Header';
@@ -22,6 +23,8 @@ import HomePage from './pages/HomePage';
 import LoginPage from './pages/auth/LoginPage';
 import RegisterPage from './pages/auth/RegisterPage';
 import ResetPasswordPage from './pages/auth/ResetPasswordPage';
+import SsoCallbackPage from './pages/auth/SsoCallbackPage';
+import AcceptInvitationPage from './pages/auth/AcceptInvitationPage';
 import PaymentCallbackPage from './pages/PaymentCallbackPage';
 import DirectoryPage from './pages/directory/DirectoryPage';
 import EntityDetailPage from './pages/directory/EntityDetailPage';
@@ -220,6 +223,9 @@ function App() {
           authenticated user hasn't accepted the current platform consent
           version. Blocks interaction until the user accepts or logs out. */}
       <ConsentAcceptanceModal />
+      {/* Mandatory MFA gate: users whose type the admin MFA policy covers
+          must enrol before using the app. */}
+      <MFAEnrollmentGate />
       <Router>
         <div className="min-h-screen bg-gradient-to-br from-light to-white dark:from-gray-900 dark:to-gray-800 flex flex-col transition-colors duration-300">
         <Header />
@@ -234,6 +240,8 @@ function App() {
               <Route path="/login" element={<LoginPage />} />
               <Route path="/register" element={<RegisterPage />} />
               <Route path="/reset-password" element={<ResetPasswordPage />} />
+              <Route path="/sso/complete" element={<SsoCallbackPage />} />
+              <Route path="/invite/accept" element={<AcceptInvitationPage />} />
               <Route path="/payment/callback" element={<PaymentCallbackPage />} />
               <Route path="/payment/cancelled" element={<PaymentCallbackPage />} />
               <Route path="/directory" element={<DirectoryPage />} />
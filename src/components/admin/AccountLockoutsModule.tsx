@@ -0,0 +1,198 @@
+// Account Lockouts Admin Interface - sign-ins locked by repeated failures, with unlock and force sign-out
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiClient } from '../../lib/api-client';
+import { usesBackend } from '../../lib/database';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { Lock, Unlock, RefreshCw, LogOut } from 'lucide-react';
+
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : typeof err === 'string' ? err : 'Unknown error';
+
+interface LoginLockout {
+  id: string;
+  kind: 'account' | 'mfa' | 'ip';
+  subject: string;
+  email: string | null;
+  failures: number;
+  last_failure_at: string | null;
+  locked_until: string | null;
+  lockouts: number;
+  last_ip: string | null;
+  locked: boolean;
+}
+
+const KIND_LABELS: Record<LoginLockout['kind'], string> = {
+  account: 'Password',
+  mfa: 'Verification code',
+  ip: 'IP address'
+};
+
+const AccountLockoutsModule: React.FC = () => {
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [logoutEmail, setLogoutEmail] = useState('');
+  const [loggingOut, setLoggingOut] = useState(false);
+  const [logoutResult, setLogoutResult] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!usesBackend) {
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      setLockouts(await apiClient.getLoginLockouts());
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const unlock = async (lockout: LoginLockout) => {
+    try {
+      setUnlockingId(lockout.id);
+      await apiClient.unlockLogin(lockout.id);
+      await load();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setUnlockingId(null);
+    }
+  };
+
+  const forceLogout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!logoutEmail.trim()) return;
+    try {
+      setLoggingOut(true);
+      setLogoutResult(null);
+      const { revoked } = await apiClient.forceLogout({ email: logoutEmail.trim() });
+      setLogoutResult(`Signed ${logoutEmail.trim()} out of ${revoked} session${revoked === 1 ? '' : 's'}.`);
+      setLogoutEmail('');
+    } catch (err) {
+      setLogoutResult(errorMessage(err));
+    } finally {
+      setLoggingOut(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-dark">Account Lockouts</h2>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Lock className="h-5 w-5" />
+            <span>Locked and throttled sign-ins</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!usesBackend ? (
+            <p className="text-sm text-gray-500">Sign-in throttling runs on the CareConnect backend, which is not configured.</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : lockouts.length === 0 ? (
+            <p className="text-sm text-gray-500">No locked accounts or recent failed sign-ins.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-2 font-medium text-gray-700">Account / address</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-700">Type</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-700">Status</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-700">Last failure</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lockouts.map((lockout) => (
+                    <tr key={lockout.id} className="border-b border-gray-100">
+                      <td className="py-3 px-2">
+                        <p className="font-medium text-dark">{lockout.email || lockout.subject}</p>
+                        {lockout.last_ip && lockout.kind !== 'ip' && (
+                          <p className="text-xs text-gray-500">from {lockout.last_ip}</p>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-gray-600">{KIND_LABELS[lockout.kind]}</td>
+                      <td className="py-3 px-2">
+                        {lockout.locked ? (
+                          <Badge variant="destructive">
+                            Locked until {new Date(lockout.locked_until!).toLocaleTimeString()}
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">{lockout.failures} failed attempts</Badge>
+                        )}
+                        {lockout.lockouts > 1 && (
+                          <p className="text-xs text-gray-500 mt-1">{lockout.lockouts} lockouts today</p>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-gray-600">
+                        {lockout.last_failure_at ? new Date(lockout.last_failure_at).toLocaleString() : '—'}
+                      </td>
+                      <td className="py-3 px-2">
+                        <Button size="sm" variant="outline" disabled={unlockingId === lockout.id} onClick={() => unlock(lockout)}>
+                          <Unlock className="h-4 w-4 mr-1" />
+                          {unlockingId === lockout.id ? 'Unlocking...' : 'Unlock'}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {usesBackend && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <LogOut className="h-5 w-5" />
+              <span>Force sign-out</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500 mb-3">Revoke every session on an account, e.g. after a reported compromise. The user must sign in again on all devices.</p>
+            <form onSubmit={forceLogout} className="flex items-center gap-2">
+              <Input
+                type="email"
+                value={logoutEmail}
+                onChange={(e) => setLogoutEmail(e.target.value)}
+                placeholder="user@example.com"
+                className="max-w-sm"
+              />
+              <Button type="submit" variant="destructive" disabled={loggingOut || !logoutEmail.trim()}>
+                {loggingOut ? 'Signing out...' : 'Sign out everywhere'}
+              </Button>
+            </form>
+            {logoutResult && <p className="text-sm text-gray-600 mt-2">{logoutResult}</p>}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AccountLockoutsModule;
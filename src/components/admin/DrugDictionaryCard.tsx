@@ -0,0 +1,88 @@
+// Drug Dictionary Admin Card - import the drug knowledge base used by the
+// prescribing and dispensing safety checks
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../lib/auth';
+import { DrugKnowledgeBase } from '../../lib/drug-knowledge';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Pill } from 'lucide-react';
+
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : typeof err === 'string' ? err : 'Unknown error';
+
+type DictionaryInfo = Awaited<ReturnType<typeof DrugKnowledgeBase.getActiveDictionaryInfo>>;
+
+const DrugDictionaryCard: React.FC = () => {
+  const { user } = useAuth();
+  const [info, setInfo] = useState<DictionaryInfo | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadInfo = () =>
+    DrugKnowledgeBase.getActiveDictionaryInfo()
+      .then(setInfo)
+      .catch((err) => setMessage(errorMessage(err)));
+
+  useEffect(() => {
+    loadInfo();
+  }, []);
+
+  const handleImport = async () => {
+    if (!file || !user) return;
+    try {
+      setImporting(true);
+      setMessage(null);
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not valid JSON');
+      }
+      const dictionary = await DrugKnowledgeBase.importDictionary(raw, user.id);
+      setMessage(`Imported ${dictionary.name} ${dictionary.version}. New safety checks use it straight away.`);
+      setFile(null);
+      await loadInfo();
+    } catch (err) {
+      setMessage(errorMessage(err));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Pill className="h-5 w-5" />
+          <span>Drug Dictionary</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-3">
+          Drugs, ingredients, classes, interaction rules and allergy cross-sensitivities used to screen prescriptions
+          and dispenses. Importing a dictionary replaces the one in use.
+        </p>
+        {info && (
+          <p className="text-sm text-gray-700 mb-3">
+            In use: <strong>{info.name}</strong> {info.version} ({info.drugs} drugs, {info.interactions} interaction rules)
+          </p>
+        )}
+        <div className="flex items-center gap-3">
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="text-sm"
+          />
+          <Button onClick={handleImport} disabled={importing || !file}>
+            {importing ? 'Importing...' : 'Import Dictionary'}
+          </Button>
+        </div>
+        {message && <p className="text-sm text-gray-600 mt-2">{message}</p>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DrugDictionaryCard;
@@ -0,0 +1,98 @@
+// MFA Policy Admin Card - choose the user types that must enrol in MFA
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '../../lib/api-client';
+import { usesBackend } from '../../lib/database';
+import { UserType } from '../../lib/auth';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { ShieldCheck } from 'lucide-react';
+
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : typeof err === 'string' ? err : 'Unknown error';
+
+// Roles with access to PHI, prescribing or platform administration.
+const SUGGESTED: string[] = [UserType.PHYSICIAN, UserType.PHARMACIST, UserType.HOSPITAL_ADMIN, UserType.SUPER_ADMIN];
+
+const MFAPolicyCard: React.FC = () => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saved, setSaved] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!usesBackend) {
+      setLoading(false);
+      return;
+    }
+    apiClient
+      .getMfaPolicy()
+      .then((types) => {
+        setSelected(types);
+        setSaved(types);
+      })
+      .catch((err) => setMessage(errorMessage(err)))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggle = (type: string) =>
+    setSelected((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+
+  const save = async () => {
+    try {
+      setSaving(true);
+      setMessage(null);
+      const types = await apiClient.setMfaPolicy(selected);
+      setSelected(types);
+      setSaved(types);
+      setMessage('MFA policy saved. Affected users must enrol at their next visit.');
+    } catch (err) {
+      setMessage(errorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dirty = selected.length !== saved.length || selected.some((t) => !saved.includes(t));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Mandatory MFA</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!usesBackend ? (
+          <p className="text-sm text-gray-500">MFA enforcement runs on the CareConnect backend, which is not configured.</p>
+        ) : loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-3">
+              Users of the selected types must set up MFA before they can use CareConnect and cannot turn it off.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
+              {Object.values(UserType).map((type) => (
+                <label key={type} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={selected.includes(type)} onChange={() => toggle(type)} />
+                  <span className="capitalize">{type.replace(/_/g, ' ')}</span>
+                  {SUGGESTED.includes(type) && !selected.includes(type) && (
+                    <span className="text-xs text-amber-600">recommended</span>
+                  )}
+                </label>
+              ))}
+            </div>
+            <Button onClick={save} disabled={saving || !dirty}>
+              {saving ? 'Saving...' : 'Save Policy'}
+            </Button>
+            {message && <p className="text-sm text-gray-600 mt-2">{message}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MFAPolicyCard;
@@ -0,0 +1,66 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// MFAEnrollmentGate — shown when the admin MFA policy requires MFA for the
+// signed-in user's type and they have not enrolled yet. Blocks the main app
+// with MFASetup until enrolment completes or the user logs out.
+//
+// Enrolment status comes from /api/mfa/status, re-checked whenever the user
+// changes. Waits for the consent gate so only one modal shows at a time.
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '../../lib/auth';
+import { apiClient } from '../../lib/api-client';
+import { usesBackend } from '../../lib/database';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import MFASetup from './MFASetup';
+
+const MFAEnrollmentGate: React.FC = () => {
+  const { user, requiresConsent, logout } = useAuth();
+  const [enrolmentRequired, setEnrolmentRequired] = useState(false);
+
+  useEffect(() => {
+    if (!user || !usesBackend) {
+      setEnrolmentRequired(false);
+      return;
+    }
+    let cancelled = false;
+    apiClient
+      .getMfaStatus()
+      .then((status) => {
+        if (!cancelled) setEnrolmentRequired(status.required && !status.enabled);
+      })
+      .catch((e) => console.warn('MFAEnrollmentGate: status check failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const open = !!user && !requiresConsent && enrolmentRequired;
+
+  return (
+    <Dialog open={open} onOpenChange={() => { /* prevent dismiss by overlay click */ }}>
+      <DialogContent showCloseButton={false} className="max-w-2xl">
+        <DialogHeader>
+          <div className="flex items-center gap-2 mb-1">
+            <ShieldAlert className="w-6 h-6 text-amber-600" aria-hidden="true" />
+            <DialogTitle className="text-xl">Set Up Multi-Factor Authentication</DialogTitle>
+          </div>
+          <DialogDescription>
+            Your organisation requires MFA for {user?.user_type?.replace(/_/g, ' ') || 'your'} accounts. Set it up
+            to continue.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && <MFASetup onEnrolled={() => setEnrolmentRequired(false)} />}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={logout} className="w-full sm:w-auto">
+            Log Out
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MFAEnrollmentGate;
@@ -1,39 +1,27 @@
 // Bismillah Ar-Rahman Ar-Raheem.
 // MFA/TOTP setup + management component for user security settings.
-// Uses the backend /api/mfa/* endpoints. No external QR dependency — renders
+// Uses the backend /api/mfa/* endpoints through apiClient. No external QR dependency — renders
 // the otpauth URI as a clickable link + manual secret entry.
+//
+// When the admin MFA policy covers the user's type, MFA cannot be disabled and
+// `onEnrolled` fires once setup completes (used by MFAEnrollmentGate).
+// After enrolment the single-use backup codes are shown once.
 import { useState, useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
+import { apiClient } from '../../lib/api-client';
 import LoadingSpinner from '../ui/LoadingSpinner';
 
-const API_BASE = (import.meta as any).env?.VITE_API_BASE_URL || '/api';
-
-function getToken(): string | null {
-  try {
-    return localStorage.getItem('careconnect_api_token');
-  } catch {
-    return null;
-  }
-}
-
-async function mfaFetch(path: string, body?: any) {
-  const token = getToken();
-  const res = await fetch(`${API_BASE}/mfa${path}`, {
-    method: body ? 'POST' : 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    },
-    body: body ? JSON.stringify(body) : undefined,
-  });
-  const data = await res.json();
-  if (!res.ok) throw new Error(data.error || `MFA request failed: ${res.status}`);
-  return data;
+interface MFASetupProps {
+  /** Called after the user finishes enrolment and dismisses the backup codes. */
+  onEnrolled?: () => void;
 }
 
-export default function MFASetup() {
+export default function MFASetup({ onEnrolled }: MFASetupProps = {}) {
   const { user } = useAuth();
   const [enabled, setEnabled] = useState(false);
+  const [required, setRequired] = useState(false);
+  const [backupCodesRemaining, setBackupCodesRemaining] = useState(0);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [setupData, setSetupData] = useState<{ secret: string; uri: string } | null>(null);
   const [token, setToken] = useState('');
@@ -44,8 +32,12 @@ export default function MFASetup() {
     let cancelled = false;
     (async () => {
       try {
-        const res = await mfaFetch('/status');
-        if (!cancelled) setEnabled(res.data.enabled);
+        const status = await apiClient.getMfaStatus();
+        if (!cancelled) {
+          setEnabled(status.enabled);
+          setRequired(status.required);
+          setBackupCodesRemaining(status.backup_codes_remaining);
+        }
       } catch (e: any) {
         if (!cancelled) setError(e.message);
       } finally {
@@ -62,8 +54,7 @@ export default function MFASetup() {
     setSuccess('');
     setToken('');
     try {
-      const res = await mfaFetch('/setup', {});
-      setSetupData(res.data);
+      setSetupData(await apiClient.setupMfa());
     } catch (e: any) {
       setError(e.message);
     }
@@ -77,10 +68,12 @@ export default function MFASetup() {
       return;
     }
     try {
-      await mfaFetch('/confirm', { token });
+      const result = await apiClient.confirmMfa(token);
       setEnabled(true);
       setSetupData(null);
       setToken('');
+      setBackupCodes(result.backup_codes);
+      setBackupCodesRemaining(result.backup_codes.length);
       setSuccess('MFA has been enabled. You will need a TOTP code on future logins.');
     } catch (e: any) {
       setError(e.message);
@@ -95,15 +88,38 @@ export default function MFASetup() {
       return;
     }
     try {
-      await mfaFetch('/disable', { token });
+      await apiClient.disableMfa(token);
       setEnabled(false);
       setToken('');
-      setSuccess('MFA has been disabled.');
+      setSuccess('MFA has been disabled and your other devices were signed out.');
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setError('');
+    setSuccess('');
+    if (!token || token.length !== 6) {
+      setError('Enter your current 6-digit TOTP code to create new backup codes.');
+      return;
+    }
+    try {
+      const codes = await apiClient.regenerateBackupCodes(token);
+      setBackupCodes(codes);
+      setBackupCodesRemaining(codes.length);
+      setToken('');
+      setSuccess('New backup codes created. Your previous codes no longer work.');
     } catch (e: any) {
       setError(e.message);
     }
   };
 
+  const handleCodesSaved = () => {
+    setBackupCodes(null);
+    onEnrolled?.();
+  };
+
   if (loading) return <LoadingSpinner />;
 
   return (
@@ -114,6 +130,12 @@ export default function MFASetup() {
         like Google Authenticator, Authy, or 1Password.
       </p>
 
+      {required && !enabled && (
+        <div className="mb-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 text-sm">
+          MFA is required for your account type. Set it up to continue using CareConnect.
+        </div>
+      )}
+
       {error && <div className="mb-4 bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>}
       {success && <div className="mb-4 bg-emerald-50 border border-emerald-200 text-emerald-700 rounded-lg p-3 text-sm">{success}</div>}
 
@@ -157,9 +179,31 @@ export default function MFASetup() {
         </div>
       )}
 
-      {enabled && (
+      {backupCodes && (
+        <div className="mb-4 bg-gray-50 rounded-lg p-4">
+          <p className="text-sm font-medium text-dark mb-1">Save your backup codes</p>
+          <p className="text-xs text-gray-500 mb-3">
+            Each code signs you in once if you lose your authenticator. Store them somewhere safe — they won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {backupCodes.map((code) => (
+              <code key={code} className="bg-white border border-gray-200 rounded p-2 text-sm text-center text-gray-700">{code}</code>
+            ))}
+          </div>
+          <button onClick={handleCodesSaved} className="px-4 py-2 bg-primary text-white rounded-lg text-sm hover:bg-primary/90">
+            I've saved these codes
+          </button>
+        </div>
+      )}
+
+      {enabled && !backupCodes && (
         <div className="space-y-3">
-          <p className="text-sm text-gray-600">MFA is active on your account. Enter your current TOTP code to disable it.</p>
+          <p className="text-sm text-gray-600">
+            MFA is active on your account. {backupCodesRemaining} backup code{backupCodesRemaining === 1 ? '' : 's'} left.{' '}
+            {required
+              ? 'Your account type requires MFA, so it cannot be turned off. Enter your current TOTP code to create new backup codes.'
+              : 'Enter your current TOTP code to disable it or create new backup codes.'}
+          </p>
           <input
             type="text"
             value={token}
@@ -168,8 +212,11 @@ export default function MFASetup() {
             className="w-32 p-2 border border-gray-300 rounded-lg text-center text-lg tracking-widest"
             maxLength={6}
           />
-          <div>
-            <button onClick={handleDisable} className="px-4 py-2 bg-rose-600 text-white rounded-lg text-sm hover:bg-rose-700">Disable MFA</button>
+          <div className="flex gap-2">
+            <button onClick={handleRegenerate} className="px-4 py-2 border border-gray-300 text-gray-600 rounded-lg text-sm hover:bg-gray-50">New Backup Codes</button>
+            {!required && (
+              <button onClick={handleDisable} className="px-4 py-2 bg-rose-600 text-white rounded-lg text-sm hover:bg-rose-700">Disable MFA</button>
+            )}
           </div>
         </div>
       )}
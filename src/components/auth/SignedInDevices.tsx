@@ -0,0 +1,126 @@
+// Bismillah Ar-Rahman Ar-Raheem.
+// Signed-in devices list for user security settings. Shows every live session
+// on the account (device, IP, last activity) with per-device sign-out and a
+// "sign out everywhere else" action. Backed by /api/auth/sessions.
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient } from '../../lib/api-client';
+import { usesBackend } from '../../lib/database';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface DeviceSession {
+  id: string;
+  device_label: string;
+  ip: string;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
+export default function SignedInDevices() {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setSessions(await apiClient.getSessions());
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (usesBackend) load();
+    else setLoading(false);
+  }, [load]);
+
+  const handleRevoke = async (session: DeviceSession) => {
+    setError('');
+    setSuccess('');
+    setBusyId(session.id);
+    try {
+      await apiClient.revokeSession(session.id);
+      setSuccess(`Signed out ${session.device_label}.`);
+      await load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setError('');
+    setSuccess('');
+    setBusyId('others');
+    try {
+      const revoked = await apiClient.revokeOtherSessions();
+      setSuccess(revoked ? `Signed out ${revoked} other device${revoked === 1 ? '' : 's'}.` : 'No other devices were signed in.');
+      await load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-dark mb-2">Signed-in Devices</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        These devices are signed in to your account. Sign out any you don't recognise, then change your password.
+      </p>
+
+      {error && <div className="mb-4 bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>}
+      {success && <div className="mb-4 bg-emerald-50 border border-emerald-200 text-emerald-700 rounded-lg p-3 text-sm">{success}</div>}
+
+      {!usesBackend ? (
+        <p className="text-sm text-gray-500">Device management requires the CareConnect backend.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 mb-4">
+            {sessions.map((session) => (
+              <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-dark">
+                    {session.device_label}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-emerald-100 text-emerald-700">This device</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ip} · last active {new Date(session.last_used_at).toLocaleString()} · signed in {new Date(session.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={busyId === session.id}
+                    className="px-3 py-1.5 border border-gray-300 text-gray-600 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {busyId === session.id ? 'Signing out...' : 'Sign out'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {sessions.some((session) => !session.current) && (
+            <button
+              onClick={handleRevokeOthers}
+              disabled={busyId === 'others'}
+              className="px-4 py-2 bg-rose-600 text-white rounded-lg text-sm hover:bg-rose-700 disabled:opacity-50"
+            >
+              Sign out all other devices
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
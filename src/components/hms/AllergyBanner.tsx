@@ -0,0 +1,114 @@
+// Allergy Banner - the patient's allergy status, shown on every clinical screen.
+// Red with the current allergies, green for an attested "no known allergies",
+// amber when nothing has been recorded. Pass `summary` when the caller already
+// loaded it (e.g. one batch for a whole board); otherwise the banner loads it.
+// Props: { patientId, entityId?, summary?, editable?, compact?, onChange? }
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ShieldCheck, HelpCircle } from 'lucide-react';
+import { AllergyService, AllergySummary, describeAllergy } from '@/lib/allergies';
+import AllergyManagerDialog from './AllergyManagerDialog';
+
+export interface AllergyBannerProps {
+  patientId: string;
+  /** Entity the allergy is recorded at; required when `editable`. */
+  entityId?: string;
+  summary?: AllergySummary;
+  /** Show the Update button that opens the allergy manager. */
+  editable?: boolean;
+  /** One line, for cards and lists. */
+  compact?: boolean;
+  /** Called with the new summary when the allergy manager closes after a change. */
+  onChange?: (summary: AllergySummary) => void;
+}
+
+const AllergyBanner: React.FC<AllergyBannerProps> = ({
+  patientId,
+  entityId,
+  summary: provided,
+  editable = false,
+  compact = false,
+  onChange
+}) => {
+  const [loaded, setLoaded] = useState<AllergySummary | null>(null);
+  const [managerOpen, setManagerOpen] = useState(false);
+  const [changed, setChanged] = useState(false);
+  const summary = loaded || provided || null;
+
+  const load = useCallback(async () => {
+    if (!patientId) return;
+    try {
+      setLoaded(await AllergyService.getAllergySummary(patientId));
+    } catch (error) {
+      console.error('Failed to load allergies:', error);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    setLoaded(null);
+    if (!provided) load();
+  }, [patientId]);
+
+  // The caller hears about changes once the manager closes, so a caller that
+  // re-renders its list does not close the dialog mid-edit
+  const handleManagerOpenChange = (open: boolean) => {
+    setManagerOpen(open);
+    if (!open && changed && loaded) onChange?.(loaded);
+    if (!open) setChanged(false);
+  };
+
+  if (!summary) {
+    return <div className={`${compact ? 'h-6' : 'h-10'} rounded-md bg-gray-100 animate-pulse`} />;
+  }
+
+  const styles = {
+    allergic: { box: 'border-red-300 bg-red-50 text-red-800', Icon: AlertTriangle },
+    nka: { box: 'border-green-300 bg-green-50 text-green-800', Icon: ShieldCheck },
+    unknown: { box: 'border-amber-300 bg-amber-50 text-amber-800', Icon: HelpCircle }
+  }[summary.status];
+
+  const text =
+    summary.status === 'allergic'
+      ? summary.allergies.map(describeAllergy).join(' • ')
+      : summary.status === 'nka'
+        ? `No known allergies (attested ${new Date(summary.attestation!.recorded_at).toLocaleDateString()})`
+        : 'Allergies not recorded';
+
+  return (
+    <>
+      <div
+        role="alert"
+        className={`flex items-center justify-between gap-2 rounded-md border ${styles.box} ${compact ? 'px-2 py-1 text-xs' : 'px-3 py-2 text-sm'}`}
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          <styles.Icon className={compact ? 'h-3 w-3 shrink-0' : 'h-4 w-4 shrink-0'} />
+          <span className={compact ? 'truncate' : ''}>
+            {summary.status === 'allergic' && <strong>Allergies: </strong>}
+            {text}
+          </span>
+        </div>
+        {editable && entityId && (
+          <Button
+            size="sm"
+            variant="outline"
+            className={compact ? 'h-6 px-2 text-xs' : ''}
+            onClick={() => setManagerOpen(true)}
+          >
+            Update
+          </Button>
+        )}
+      </div>
+      {editable && entityId && (
+        <AllergyManagerDialog
+          open={managerOpen}
+          onOpenChange={handleManagerOpenChange}
+          patientId={patientId}
+          entityId={entityId}
+          onChange={() => load().then(() => setChanged(true))}
+        />
+      )}
+    </>
+  );
+};
+
+export default AllergyBanner;
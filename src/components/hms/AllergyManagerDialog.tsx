@@ -0,0 +1,290 @@
+// Allergy Manager Dialog - record, verify and retire a patient's allergies, or
+// attest that they have no known allergies. Opened from the allergy banner.
+// Props: { open, onOpenChange, patientId, entityId, onChange? }
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useAuth } from '@/lib/auth';
+import {
+  AllergyService,
+  Allergy,
+  AllergyCategory,
+  AllergySeverity,
+  AllergyVerificationStatus,
+  ALLERGY_CATEGORIES,
+  ALLERGY_CODE_SYSTEMS,
+  COMMON_ALLERGENS,
+  isCurrentAllergy
+} from '@/lib/allergies';
+import { Loader2, Plus, ShieldCheck } from 'lucide-react';
+
+export interface AllergyManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patientId: string;
+  entityId: string;
+  /** Called after any change so the banner can reload. */
+  onChange?: () => void;
+}
+
+const EMPTY_FORM = {
+  allergen: '',
+  allergen_code: '',
+  code_system: '',
+  category: 'medication' as AllergyCategory,
+  reaction: '',
+  severity: '' as AllergySeverity | '',
+  verification_status: 'unconfirmed' as AllergyVerificationStatus,
+  onset_date: ''
+};
+
+const selectClass =
+  'w-full h-10 px-3 py-2 rounded-md border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 text-sm';
+
+const AllergyManagerDialog: React.FC<AllergyManagerDialogProps> = ({ open, onOpenChange, patientId, entityId, onChange }) => {
+  const { user } = useAuth();
+  const [allergies, setAllergies] = useState<Allergy[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const load = useCallback(async () => {
+    setAllergies(await AllergyService.getPatientAllergies(patientId));
+  }, [patientId]);
+
+  useEffect(() => {
+    if (open) {
+      setForm(EMPTY_FORM);
+      setMessage('');
+      load();
+    }
+  }, [open, load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (!user) return;
+    try {
+      setSaving(true);
+      setMessage('');
+      await action();
+      await load();
+      onChange?.();
+    } catch (error) {
+      setMessage(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pickCommonAllergen = (name: string) => {
+    const common = COMMON_ALLERGENS.find((a) => a.allergen === name);
+    if (common) setForm((p) => ({ ...p, ...common }));
+  };
+
+  const handleAdd = () =>
+    run(async () => {
+      await AllergyService.addAllergy({
+        patient_id: patientId,
+        entity_id: entityId,
+        allergen: form.allergen,
+        allergen_code: form.allergen_code.trim() || undefined,
+        code_system: form.allergen_code.trim() ? form.code_system : undefined,
+        category: form.category,
+        reaction: form.reaction.trim() || undefined,
+        severity: form.severity || undefined,
+        verification_status: form.verification_status,
+        onset_date: form.onset_date || undefined,
+        recorded_by: user!.id
+      });
+      setForm(EMPTY_FORM);
+    });
+
+  const handleAttestNka = () =>
+    run(() => AllergyService.recordNoKnownAllergies({ patient_id: patientId, entity_id: entityId, recorded_by: user!.id }));
+
+  const setStatus = (allergy: Allergy, updates: Parameters<typeof AllergyService.updateAllergy>[1]) =>
+    run(() => AllergyService.updateAllergy(allergy, updates, user!.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Allergies & Intolerances</DialogTitle>
+          <DialogDescription>
+            Allergies recorded here are shown on every clinical screen and checked when medications are prescribed
+            and dispensed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2 max-h-60 overflow-y-auto">
+            {allergies.length === 0 && <p className="text-sm text-muted-foreground">No allergies on record.</p>}
+            {allergies.map((allergy) => (
+              <div key={allergy.id} className="flex items-center justify-between border rounded-md p-2 text-sm">
+                <div className={isCurrentAllergy(allergy) ? '' : 'text-muted-foreground line-through'}>
+                  <span className="font-medium">{allergy.allergen}</span>
+                  {allergy.allergen_code && (
+                    <span className="text-xs text-muted-foreground"> ({allergy.code_system} {allergy.allergen_code})</span>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {' '}• {allergy.category || 'medication'}
+                    {allergy.reaction && ` • ${allergy.reaction}`}
+                    {allergy.severity && ` • ${allergy.severity}`}
+                    {allergy.onset_date && ` • onset ${new Date(allergy.onset_date).toLocaleDateString()}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{(allergy.verification_status || 'unconfirmed').replace(/_/g, ' ')}</Badge>
+                  {isCurrentAllergy(allergy) && (
+                    <>
+                      {allergy.verification_status !== 'confirmed' && (
+                        <Button size="sm" variant="outline" disabled={saving} onClick={() => setStatus(allergy, { verification_status: 'confirmed' })}>
+                          Confirm
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" disabled={saving} onClick={() => setStatus(allergy, { status: 'resolved' })}>
+                        Resolve
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={saving} onClick={() => setStatus(allergy, { verification_status: 'refuted' })}>
+                        Refute
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={saving} onClick={() => setStatus(allergy, { verification_status: 'entered_in_error' })}>
+                        Entered in Error
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t pt-4 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-common">Common Allergen</Label>
+                <select id="allergy-common" value="" onChange={(e) => pickCommonAllergen(e.target.value)} className={selectClass}>
+                  <option value="">Pick one, or type below</option>
+                  {COMMON_ALLERGENS.map((a) => (
+                    <option key={a.allergen} value={a.allergen}>{a.allergen}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-allergen">Allergen *</Label>
+                <Input
+                  id="allergy-allergen"
+                  value={form.allergen}
+                  onChange={(e) => setForm((p) => ({ ...p, allergen: e.target.value }))}
+                  placeholder="e.g. Penicillin, peanuts"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-code">Code</Label>
+                <Input
+                  id="allergy-code"
+                  value={form.allergen_code}
+                  onChange={(e) => setForm((p) => ({ ...p, allergen_code: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-system">Code System</Label>
+                <select
+                  id="allergy-system"
+                  value={form.code_system}
+                  onChange={(e) => setForm((p) => ({ ...p, code_system: e.target.value }))}
+                  className={selectClass}
+                >
+                  <option value="">—</option>
+                  {ALLERGY_CODE_SYSTEMS.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-category">Category</Label>
+                <select
+                  id="allergy-category"
+                  value={form.category}
+                  onChange={(e) => setForm((p) => ({ ...p, category: e.target.value as AllergyCategory }))}
+                  className={selectClass}
+                >
+                  {ALLERGY_CATEGORIES.map((c) => (
+                    <option key={c.value} value={c.value}>{c.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-reaction">Reaction</Label>
+                <Input
+                  id="allergy-reaction"
+                  value={form.reaction}
+                  onChange={(e) => setForm((p) => ({ ...p, reaction: e.target.value }))}
+                  placeholder="e.g. Hives, anaphylaxis"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-severity">Severity</Label>
+                <select
+                  id="allergy-severity"
+                  value={form.severity}
+                  onChange={(e) => setForm((p) => ({ ...p, severity: e.target.value as AllergySeverity | '' }))}
+                  className={selectClass}
+                >
+                  <option value="">—</option>
+                  <option value="mild">Mild</option>
+                  <option value="moderate">Moderate</option>
+                  <option value="severe">Severe</option>
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-verification">Verification</Label>
+                <select
+                  id="allergy-verification"
+                  value={form.verification_status}
+                  onChange={(e) => setForm((p) => ({ ...p, verification_status: e.target.value as AllergyVerificationStatus }))}
+                  className={selectClass}
+                >
+                  <option value="unconfirmed">Unconfirmed</option>
+                  <option value="confirmed">Confirmed</option>
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="allergy-onset">Onset</Label>
+                <Input
+                  id="allergy-onset"
+                  type="date"
+                  value={form.onset_date}
+                  onChange={(e) => setForm((p) => ({ ...p, onset_date: e.target.value }))}
+                />
+              </div>
+            </div>
+            {message && <p className="text-sm text-red-600">{message}</p>}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleAttestNka} disabled={saving}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            No Known Allergies
+          </Button>
+          <Button onClick={handleAdd} disabled={saving || !form.allergen.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Allergy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AllergyManagerDialog;
@@ -0,0 +1,90 @@
+// Break-the-Glass Review Panel - Privacy officer queue of emergency accesses
+// waiting for their retrospective review. Renders nothing when the queue is empty.
+// Props: { entityId?: string; reviewerId: string }
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+import { BreakGlassService, BreakGlassReview } from '@/lib/break-glass';
+
+export interface BreakGlassReviewPanelProps {
+  /** Entity whose reviews to show (GitHub storage mode; the backend scopes by membership). */
+  entityId?: string;
+  /** User recording the review outcome. */
+  reviewerId: string;
+}
+
+const BreakGlassReviewPanel: React.FC<BreakGlassReviewPanelProps> = ({ entityId, reviewerId }) => {
+  const [reviews, setReviews] = useState<BreakGlassReview[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setReviews(await BreakGlassService.getPendingReviews(entityId));
+  }, [entityId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const complete = async (review: BreakGlassReview, outcome: 'appropriate' | 'inappropriate') => {
+    try {
+      setSavingId(review.id);
+      await BreakGlassService.completeReview(review, outcome, notes[review.id] || '', reviewerId);
+      setReviews((prev) => prev.filter((r) => r.id !== review.id));
+    } catch (error) {
+      console.error('Failed to complete emergency access review:', error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (reviews.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 border border-red-100">
+      <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+        <ShieldAlert className="h-5 w-5 text-red-600" />
+        <span>Emergency Access Reviews ({reviews.length})</span>
+      </h3>
+      <div className="space-y-4">
+        {reviews.map((review) => {
+          const overdue = new Date(review.due_at) < new Date();
+          return (
+            <div key={review.id} className="border-b border-gray-100 pb-4 last:border-b-0 last:pb-0">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="font-medium">{review.clinician_email}</p>
+                  <p className="text-sm text-gray-600">"{review.reason}"</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(review.granted_at).toLocaleString()} – {new Date(review.expires_at).toLocaleTimeString()}
+                    {' • '}Patient {review.patient_id.slice(-6)}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs ${overdue ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                  {overdue ? 'Overdue' : `Due ${new Date(review.due_at).toLocaleDateString()}`}
+                </span>
+              </div>
+              <textarea
+                className="w-full p-2 border rounded-md mt-2 text-sm"
+                rows={2}
+                placeholder="Review notes"
+                value={notes[review.id] || ''}
+                onChange={(e) => setNotes({ ...notes, [review.id]: e.target.value })}
+              />
+              <div className="flex space-x-2 mt-2">
+                <Button size="sm" disabled={savingId === review.id} onClick={() => complete(review, 'appropriate')}>
+                  Appropriate
+                </Button>
+                <Button size="sm" variant="destructive" disabled={savingId === review.id} onClick={() => complete(review, 'inappropriate')}>
+                  Inappropriate
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BreakGlassReviewPanel;
@@ -0,0 +1,159 @@
+// Duplicate Patients Panel - Registration desk queue of patients that look like
+// existing records. Each pair can be merged (choosing which record survives) or
+// kept apart; recent merges can be undone. Renders nothing when both lists are empty.
+// Props: { onChange?: () => void }
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Users } from 'lucide-react';
+import { PatientMergeService, DuplicateFlag, PatientMerge } from '@/lib/patient-merge';
+
+export interface DuplicatePatientsPanelProps {
+  /** Called after a merge or unmerge so the caller can reload its patient list. */
+  onChange?: () => void;
+}
+
+const DuplicatePatientsPanel: React.FC<DuplicatePatientsPanelProps> = ({ onChange }) => {
+  const [flags, setFlags] = useState<DuplicateFlag[]>([]);
+  const [merges, setMerges] = useState<PatientMerge[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const load = useCallback(async () => {
+    const [open, recent] = await Promise.all([PatientMergeService.getDuplicateFlags('open'), PatientMergeService.getMerges()]);
+    setFlags(open);
+    setMerges(recent.filter((m) => m.status === 'merged').slice(0, 5));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (id: string, action: () => Promise<unknown>) => {
+    try {
+      setSavingId(id);
+      setMessage('');
+      await action();
+      await load();
+      onChange?.();
+    } catch (error) {
+      setMessage(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // The earlier registration survives unless the reviewer picks the other one.
+  const merge = (flag: DuplicateFlag, keep: 'patient' | 'candidate') => {
+    const survivor = flag[keep];
+    const merged = keep === 'patient' ? flag.candidate : flag.patient;
+    if (!window.confirm(`Merge ${merged.patient_code} into ${survivor.patient_code}? Its records will move to ${survivor.patient_code}.`)) return;
+    return run(flag.id, () => PatientMergeService.merge({
+      survivor_id: survivor.id,
+      merged_id: merged.id,
+      flag_id: flag.id,
+      reason: reasons[flag.id] || `Duplicate registration (${flag.reasons.join(', ')})`
+    }));
+  };
+
+  const unmerge = (merge: PatientMerge) => {
+    const reason = reasons[merge.id]?.trim();
+    if (!reason) {
+      setMessage('Give a reason for undoing the merge');
+      return;
+    }
+    return run(merge.id, () => PatientMergeService.unmerge(merge.id, reason));
+  };
+
+  if (flags.length === 0 && merges.length === 0) return null;
+
+  const renderPatient = (label: string, patient: DuplicateFlag['patient']) => (
+    <div className="text-sm">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="font-medium">{patient.name_snippet}</p>
+      <p className="text-xs text-gray-500">
+        {patient.patient_code} • registered {new Date(patient.created_at).toLocaleDateString()}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 border border-yellow-100">
+      <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+        <Users className="h-5 w-5 text-yellow-600" />
+        <span>Possible Duplicate Patients ({flags.length})</span>
+      </h3>
+      {message && <p className="text-sm text-red-600 mb-3">{message}</p>}
+      <div className="space-y-4">
+        {flags.map((flag) => (
+          <div key={flag.id} className="border-b border-gray-100 pb-4 last:border-b-0 last:pb-0">
+            <div className="flex justify-between items-start">
+              <div className="grid grid-cols-2 gap-6">
+                {renderPatient('Existing', flag.candidate)}
+                {renderPatient('New registration', flag.patient)}
+              </div>
+              <span className={`px-2 py-1 rounded-full text-xs ${flag.level === 'likely' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                {Math.round(flag.score * 100)}% {flag.level}
+              </span>
+            </div>
+            <p className="text-xs text-gray-600 mt-1">{flag.reasons.join(' • ')}</p>
+            <input
+              className="w-full p-2 border rounded-md mt-2 text-sm"
+              placeholder="Notes (optional)"
+              value={reasons[flag.id] || ''}
+              onChange={(e) => setReasons({ ...reasons, [flag.id]: e.target.value })}
+            />
+            <div className="flex space-x-2 mt-2">
+              <Button size="sm" disabled={savingId === flag.id} onClick={() => merge(flag, 'candidate')}>
+                Merge into existing
+              </Button>
+              <Button size="sm" variant="outline" disabled={savingId === flag.id} onClick={() => merge(flag, 'patient')}>
+                Keep new record
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={savingId === flag.id}
+                onClick={() => run(flag.id, () => PatientMergeService.dismissFlag(flag.id, reasons[flag.id]))}
+              >
+                Different people
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {merges.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Recent merges</h4>
+          <div className="space-y-3">
+            {merges.map((merge) => (
+              <div key={merge.id} className="flex items-center justify-between space-x-2 text-sm">
+                <div>
+                  <p>
+                    Patient {merge.merged_id.slice(-6)} → {merge.survivor_id.slice(-6)}
+                    {' • '}{Object.values(merge.moved).reduce((n, ids) => n + ids.length, 0)} records moved
+                  </p>
+                  <p className="text-xs text-gray-500">{new Date(merge.merged_at).toLocaleString()} • {merge.reason}</p>
+                </div>
+                <div className="flex space-x-2">
+                  <input
+                    className="p-1 border rounded-md text-xs"
+                    placeholder="Reason to undo"
+                    value={reasons[merge.id] || ''}
+                    onChange={(e) => setReasons({ ...reasons, [merge.id]: e.target.value })}
+                  />
+                  <Button size="sm" variant="outline" disabled={savingId === merge.id} onClick={() => unmerge(merge)}>
+                    Unmerge
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatePatientsPanel;
@@ -0,0 +1,36 @@
+// Early Warning Badge - a patient's latest NEWS2/PEWS score, coloured by risk.
+// Shows a pulsing dot while an escalation is waiting to be acknowledged.
+// Props: { score, onClick?, className? }
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { EarlyWarningScore, EarlyWarningRisk, RISK_LABELS } from '@/lib/early-warning';
+
+export const RISK_STYLES: Record<EarlyWarningRisk, string> = {
+  low: 'bg-green-100 text-green-800 border-green-300',
+  low_medium: 'bg-amber-100 text-amber-800 border-amber-300',
+  medium: 'bg-orange-100 text-orange-800 border-orange-300',
+  high: 'bg-red-600 text-white border-red-700'
+};
+
+export interface EarlyWarningBadgeProps {
+  score: Pick<EarlyWarningScore, 'scale' | 'total' | 'risk' | 'escalated' | 'acknowledged_at'>;
+  onClick?: () => void;
+  className?: string;
+}
+
+const EarlyWarningBadge: React.FC<EarlyWarningBadgeProps> = ({ score, onClick, className }) => {
+  const awaitingAcknowledgement = score.escalated && !score.acknowledged_at;
+  return (
+    <Badge
+      variant="outline"
+      onClick={onClick}
+      className={`${RISK_STYLES[score.risk]} ${onClick ? 'cursor-pointer' : ''} ${className || ''}`}
+      title={`${RISK_LABELS[score.risk]} risk${awaitingAcknowledgement ? ' — escalation not yet acknowledged' : ''}`}
+    >
+      {awaitingAcknowledgement && <span className="mr-1 h-2 w-2 rounded-full bg-current animate-pulse" />}
+      {score.scale === 'news2' ? 'NEWS2' : 'PEWS'} {score.total}
+    </Badge>
+  );
+};
+
+export default EarlyWarningBadge;
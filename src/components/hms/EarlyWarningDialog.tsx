@@ -0,0 +1,327 @@
+// Early Warning Dialog - an encounter's NEWS2/PEWS trend, the latest score's
+// breakdown and clinical response, open escalations to acknowledge, and a form
+// to record a full set of bedside observations.
+// Props: { open, onOpenChange, encounter, onChange? }
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useAuth, Permission } from '@/lib/auth';
+import { ObservationService } from '@/lib/observations';
+import { PatientService } from '@/lib/patients';
+import {
+  EarlyWarningService,
+  EarlyWarningScore,
+  Consciousness,
+  CONSCIOUSNESS_LEVELS,
+  CLINICAL_RESPONSES,
+  PARAMETER_LABELS,
+  RISK_LABELS,
+  ageInYears
+} from '@/lib/early-warning';
+import EarlyWarningBadge, { RISK_STYLES } from './EarlyWarningBadge';
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+
+export interface EarlyWarningDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  encounter: { id: string; patient_id: string; encounter_code?: string; patient_name?: string; entity_id?: string };
+  /** Called with the latest score after observations are recorded or an escalation acknowledged. */
+  onChange?: (latest: EarlyWarningScore | null) => void;
+}
+
+const EMPTY_FORM = {
+  respiratory_rate: '',
+  oxygen_saturation: '',
+  on_supplemental_oxygen: false,
+  spo2_scale_2: false,
+  systolic: '',
+  diastolic: '',
+  heart_rate: '',
+  consciousness: 'A' as Consciousness,
+  temperature: ''
+};
+
+const selectClass =
+  'w-full h-10 px-3 py-2 rounded-md border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 text-sm';
+
+const RISK_POINT_COLOURS: Record<string, string> = {
+  low: '#16a34a',
+  low_medium: '#d97706',
+  medium: '#ea580c',
+  high: '#dc2626'
+};
+
+const numberOrUndefined = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+// Line chart of the total score over time, with the medium and high thresholds marked
+const ScoreTrend: React.FC<{ scores: EarlyWarningScore[] }> = ({ scores }) => {
+  const width = 560;
+  const height = 140;
+  const pad = 24;
+  const [medium, high] = scores[scores.length - 1]?.scale === 'pews' ? [3, 6] : [5, 7];
+  const max = Math.max(high + 2, ...scores.map(s => s.total));
+  const x = (i: number) => pad + (scores.length === 1 ? (width - 2 * pad) / 2 : (i * (width - 2 * pad)) / (scores.length - 1));
+  const y = (total: number) => height - pad - (total * (height - 2 * pad)) / max;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-36" role="img" aria-label="Early warning score trend">
+      {[[medium, '#fdba74'], [high, '#fca5a5']].map(([level, colour]) => (
+        <g key={level}>
+          <line x1={pad} x2={width - pad} y1={y(level as number)} y2={y(level as number)} stroke={colour as string} strokeDasharray="4 4" />
+          <text x={width - pad + 4} y={y(level as number) + 4} fontSize="10" fill="#6b7280">{level}</text>
+        </g>
+      ))}
+      <polyline
+        fill="none"
+        stroke="#6b7280"
+        strokeWidth="1.5"
+        points={scores.map((s, i) => `${x(i)},${y(s.total)}`).join(' ')}
+      />
+      {scores.map((s, i) => (
+        <g key={s.id}>
+          <circle cx={x(i)} cy={y(s.total)} r="4" fill={RISK_POINT_COLOURS[s.risk]}>
+            <title>{`${s.total} (${RISK_LABELS[s.risk]}) at ${new Date(s.measured_at).toLocaleString()}`}</title>
+          </circle>
+          {(i === 0 || i === scores.length - 1) && (
+            <text x={x(i)} y={height - 6} fontSize="10" textAnchor="middle" fill="#6b7280">
+              {new Date(s.measured_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const EarlyWarningDialog: React.FC<EarlyWarningDialogProps> = ({ open, onOpenChange, encounter, onChange }) => {
+  const { user, hasPermission } = useAuth();
+  const canRecord = hasPermission(Permission.RECORD_VITALS);
+  const [scores, setScores] = useState<EarlyWarningScore[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [acknowledgementNotes, setAcknowledgementNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const load = useCallback(async () => {
+    const loaded = await EarlyWarningService.getEncounterScores(encounter.id);
+    setScores(loaded);
+    return loaded;
+  }, [encounter.id]);
+
+  useEffect(() => {
+    if (open) {
+      setForm(EMPTY_FORM);
+      setAcknowledgementNotes('');
+      setMessage('');
+      load().then((loaded) => {
+        const latest = loaded[loaded.length - 1];
+        if (latest) setForm((p) => ({ ...p, spo2_scale_2: latest.spo2_scale === 2 }));
+      });
+    }
+  }, [open, load]);
+
+  const latest = scores[scores.length - 1] || null;
+  const openEscalations = scores.filter((s) => s.escalated && !s.acknowledged_at);
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (!user) return;
+    try {
+      setSaving(true);
+      setMessage('');
+      await action();
+      const loaded = await load();
+      onChange?.(loaded[loaded.length - 1] || null);
+    } catch (error) {
+      setMessage(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The scale follows the patient's age; look it up once, then later scores reuse it
+  const patientAge = async (): Promise<number | undefined> => {
+    if (latest?.age_years !== undefined) return latest.age_years;
+    const patient = await PatientService.getPatientDetails(encounter.patient_id, user!.id);
+    return patient?.dob ? ageInYears(patient.dob) : undefined;
+  };
+
+  const handleRecord = () =>
+    run(async () => {
+      const { score } = await ObservationService.recordObservationSet(
+        {
+          patient_id: encounter.patient_id,
+          encounter_id: encounter.id,
+          entity_id: encounter.entity_id || latest?.entity_id || '',
+          performer_id: user!.id,
+          respiratory_rate: numberOrUndefined(form.respiratory_rate),
+          oxygen_saturation: numberOrUndefined(form.oxygen_saturation),
+          on_supplemental_oxygen: form.on_supplemental_oxygen,
+          systolic: numberOrUndefined(form.systolic),
+          diastolic: numberOrUndefined(form.diastolic),
+          heart_rate: numberOrUndefined(form.heart_rate),
+          consciousness: form.consciousness,
+          temperature: numberOrUndefined(form.temperature)
+        },
+        { age_years: await patientAge(), spo2_scale: form.spo2_scale_2 ? 2 : 1 }
+      );
+      setForm((p) => ({ ...EMPTY_FORM, spo2_scale_2: p.spo2_scale_2 }));
+      if (score?.escalated) {
+        setMessage(`${RISK_LABELS[score.risk]} risk: the care team has been notified.`);
+      }
+    });
+
+  const handleAcknowledge = (score: EarlyWarningScore) =>
+    run(async () => {
+      await EarlyWarningService.acknowledgeEscalation(score, user!.id, acknowledgementNotes);
+      setAcknowledgementNotes('');
+    });
+
+  const numberField = (id: keyof typeof EMPTY_FORM, label: string, placeholder: string, step = '1') => (
+    <div className="space-y-1.5">
+      <Label htmlFor={`ews-${id}`}>{label}</Label>
+      <Input
+        id={`ews-${id}`}
+        type="number"
+        step={step}
+        value={form[id] as string}
+        onChange={(e) => setForm((p) => ({ ...p, [id]: e.target.value }))}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Observations & Early Warning Score</DialogTitle>
+          <DialogDescription>
+            {encounter.patient_name || 'Patient'}
+            {encounter.encounter_code && ` • ${encounter.encounter_code}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {latest ? (
+            <div className={`rounded-md border p-3 ${RISK_STYLES[latest.risk]}`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <EarlyWarningBadge score={latest} />
+                  <span className="font-medium">{RISK_LABELS[latest.risk]} risk</span>
+                </div>
+                <span className="text-xs">{new Date(latest.measured_at).toLocaleString()}</span>
+              </div>
+              <p className="mt-1 text-sm">{CLINICAL_RESPONSES[latest.risk]}</p>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {latest.parameters.map((p) => (
+                  <Badge key={p.parameter} variant="outline" className="bg-white/70 text-gray-800">
+                    {PARAMETER_LABELS[p.parameter]}: {typeof p.value === 'boolean' ? (p.value ? 'oxygen' : 'air') : p.value} ({p.score})
+                  </Badge>
+                ))}
+              </div>
+              {latest.missing.length > 0 && (
+                <p className="mt-1 text-xs">Not scored (no recent observation): {latest.missing.map((m) => PARAMETER_LABELS[m]).join(', ')}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No early warning score yet. Record a set of observations to calculate one.</p>
+          )}
+
+          {openEscalations.map((score) => (
+            <div key={score.id} className="rounded-md border border-red-300 bg-red-50 p-3 space-y-2">
+              <div className="flex items-center gap-2 text-sm text-red-800">
+                <AlertTriangle className="h-4 w-4" />
+                Escalated {new Date(score.escalated_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} at{' '}
+                {RISK_LABELS[score.risk].toLowerCase()} risk ({score.total}); not yet acknowledged
+              </div>
+              {canRecord && (
+                <div className="flex gap-2">
+                  <Input
+                    value={acknowledgementNotes}
+                    onChange={(e) => setAcknowledgementNotes(e.target.value)}
+                    placeholder="Response, e.g. reviewed at bedside, fluids started"
+                  />
+                  <Button size="sm" disabled={saving} onClick={() => handleAcknowledge(score)}>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {scores.length > 1 && (
+            <div>
+              <h4 className="text-sm font-medium mb-1">Trend</h4>
+              <ScoreTrend scores={scores.slice(-20)} />
+            </div>
+          )}
+
+          {canRecord && (
+            <div className="border-t pt-4 space-y-3">
+              <h4 className="text-sm font-medium">Record Observations</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {numberField('respiratory_rate', 'Resp. rate', '/min')}
+                {numberField('oxygen_saturation', 'SpO2', '%')}
+                {numberField('systolic', 'Systolic BP', 'mmHg')}
+                {numberField('diastolic', 'Diastolic BP', 'mmHg')}
+                {numberField('heart_rate', 'Pulse', '/min')}
+                {numberField('temperature', 'Temperature', '°C', '0.1')}
+                <div className="space-y-1.5 col-span-2">
+                  <Label htmlFor="ews-consciousness">Consciousness (ACVPU)</Label>
+                  <select
+                    id="ews-consciousness"
+                    value={form.consciousness}
+                    onChange={(e) => setForm((p) => ({ ...p, consciousness: e.target.value as Consciousness }))}
+                    className={selectClass}
+                  >
+                    {CONSCIOUSNESS_LEVELS.map((c) => (
+                      <option key={c.value} value={c.value}>{c.value} — {c.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-6 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={form.on_supplemental_oxygen}
+                    onChange={(e) => setForm((p) => ({ ...p, on_supplemental_oxygen: e.target.checked }))}
+                  />
+                  On supplemental oxygen
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={form.spo2_scale_2}
+                    onChange={(e) => setForm((p) => ({ ...p, spo2_scale_2: e.target.checked }))}
+                  />
+                  SpO2 scale 2 (prescribed target 88–92%)
+                </label>
+              </div>
+              {message && <p className="text-sm text-red-600">{message}</p>}
+              <div className="flex justify-end">
+                <Button onClick={handleRecord} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Record & Score
+                </Button>
+              </div>
+            </div>
+          )}
+          {!canRecord && message && <p className="text-sm text-red-600">{message}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EarlyWarningDialog;
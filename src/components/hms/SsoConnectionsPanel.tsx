@@ -0,0 +1,291 @@
+// SSO Connections Panel - the entity's identity providers (OIDC or SAML) for
+// staff single sign-on, with the IdP group -> CareConnect role mappings used
+// when accounts are provisioned, and the email domains the entity must prove it
+// owns (DNS TXT record) before existing accounts are linked. Backend mode only.
+// Props: { entityId: string }
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { KeyRound, Plus, Trash2 } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { usesBackend } from '@/lib/database';
+
+export interface SsoConnectionsPanelProps {
+  entityId: string;
+}
+
+interface RoleMapping {
+  group: string;
+  user_type: string;
+}
+
+// Staff roles an IdP group can map to (STAFF_ROLES in the backend authorization service).
+const ROLES = ['hospital_admin', 'practitioner', 'physician', 'nurse', 'pharmacist', 'lab_tech', 'imaging_tech', 'billing_clerk'];
+
+const EMPTY = {
+  name: '',
+  protocol: 'oidc' as 'oidc' | 'saml',
+  enabled: true,
+  email_domains: '',
+  issuer: '',
+  client_id: '',
+  client_secret: '',
+  idp_entity_id: '',
+  idp_sso_url: '',
+  idp_certificate: '',
+  groups_attribute: 'groups',
+  role_mappings: [] as RoleMapping[],
+  default_user_type: '',
+  jit_provisioning: true,
+};
+
+const inputClass = 'w-full p-2 border rounded-md text-sm';
+
+const SsoConnectionsPanel: React.FC<SsoConnectionsPanelProps> = ({ entityId }) => {
+  const [connections, setConnections] = useState<any[]>([]);
+  const [domains, setDomains] = useState<any[]>([]);
+  const [editing, setEditing] = useState<{ id?: string; form: typeof EMPTY } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setConnections(await apiClient.getSsoConnections(entityId));
+      setDomains(await apiClient.getSsoDomains(entityId));
+    } catch (error) {
+      console.error('Failed to load SSO connections:', error);
+    }
+  }, [entityId]);
+
+  useEffect(() => {
+    if (usesBackend) load();
+  }, [load]);
+
+  const edit = (connection?: any) => {
+    setMessage(null);
+    setEditing({
+      id: connection?.id,
+      form: connection
+        ? {
+            ...EMPTY,
+            ...connection,
+            email_domains: (connection.email_domains || []).join(', '),
+            client_secret: '',
+            default_user_type: connection.default_user_type || '',
+          }
+        : EMPTY,
+    });
+  };
+
+  const update = (patch: Partial<typeof EMPTY>) => setEditing((prev) => prev && { ...prev, form: { ...prev.form, ...patch } });
+
+  const setMapping = (index: number, patch: Partial<RoleMapping>) =>
+    update({ role_mappings: editing!.form.role_mappings.map((m, i) => (i === index ? { ...m, ...patch } : m)) });
+
+  const save = async () => {
+    if (!editing) return;
+    try {
+      setSaving(true);
+      setMessage(null);
+      const { form } = editing;
+      await apiClient.saveSsoConnection(
+        {
+          ...form,
+          entity_id: entityId,
+          email_domains: form.email_domains.split(/[,\s]+/).filter(Boolean),
+          default_user_type: form.default_user_type || null,
+        },
+        editing.id,
+      );
+      setEditing(null);
+      await load();
+    } catch (error: any) {
+      setMessage(error.message || 'Failed to save connection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (connection: any) => {
+    if (!window.confirm(`Delete "${connection.name}"? Staff will no longer be able to sign in with it.`)) return;
+    try {
+      await apiClient.deleteSsoConnection(connection.id);
+      await load();
+    } catch (error: any) {
+      setMessage(error.message || 'Failed to delete connection');
+    }
+  };
+
+  const checkDomain = async (domain: any) => {
+    try {
+      setMessage(null);
+      await apiClient.checkSsoDomain(domain.id);
+      await load();
+    } catch (error: any) {
+      setMessage(error.message || 'Failed to verify domain');
+    }
+  };
+
+  if (!usesBackend) return null;
+
+  const form = editing?.form;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center space-x-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          <span>Single Sign-On</span>
+        </h3>
+        {!editing && (
+          <Button size="sm" onClick={() => edit()}>
+            <Plus className="h-4 w-4 mr-1" /> Add Connection
+          </Button>
+        )}
+      </div>
+      {message && <p className="text-sm text-red-600 mb-3">{message}</p>}
+
+      {!editing && (
+        <div className="space-y-3">
+          {connections.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Connect your identity provider so staff sign in with their hospital account instead of a separate password.
+            </p>
+          )}
+          {connections.map((connection) => (
+            <div key={connection.id} className="border-b border-gray-100 pb-3 last:border-b-0 last:pb-0">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="font-medium">
+                    {connection.name}{' '}
+                    <span className="text-xs text-gray-500 uppercase">{connection.protocol}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {(connection.email_domains || []).join(', ') || 'No email domains'} • {connection.role_mappings.length} role mapping(s)
+                  </p>
+                  <p className="text-xs text-gray-500 break-all">
+                    {connection.protocol === 'oidc' ? `Redirect URI: ${connection.sp.redirect_uri}` : `ACS URL: ${connection.sp.acs_url} • Entity ID: ${connection.sp.entity_id}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className={`px-2 py-1 rounded-full text-xs ${connection.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                    {connection.enabled ? 'Enabled' : 'Disabled'}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => edit(connection)}>Edit</Button>
+                  <Button size="sm" variant="destructive" onClick={() => remove(connection)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+          {domains.length > 0 && (
+            <div className="pt-2">
+              <p className="text-sm font-medium mb-1">Email domains</p>
+              <p className="text-xs text-gray-500 mb-2">
+                Existing accounts are linked to single sign-on only on verified domains. Publish the TXT record, then check it,
+                or ask a platform administrator to approve the domain.
+              </p>
+              {domains.map((domain) => (
+                <div key={domain.id} className="flex justify-between items-start py-1">
+                  <div>
+                    <p className="text-sm">{domain.domain}</p>
+                    {domain.status !== 'verified' && (
+                      <p className="text-xs text-gray-500 break-all font-mono">
+                        {domain.txt_name} TXT "{domain.txt_value}"
+                      </p>
+                    )}
+                  </div>
+                  {domain.status === 'verified' ? (
+                    <span className="px-2 py-1 rounded-full text-xs bg-green-100 text-green-800">Verified</span>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => checkDomain(domain)}>Check DNS</Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {form && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input className={inputClass} placeholder="Name (e.g. Hospital Azure AD)" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+            <select className={inputClass} value={form.protocol} onChange={(e) => update({ protocol: e.target.value as 'oidc' | 'saml' })}>
+              <option value="oidc">OpenID Connect</option>
+              <option value="saml">SAML 2.0</option>
+            </select>
+            <input className={inputClass} placeholder="Email domains (e.g. hospital.org)" value={form.email_domains} onChange={(e) => update({ email_domains: e.target.value })} />
+            <input className={inputClass} placeholder="Groups claim / attribute" value={form.groups_attribute} onChange={(e) => update({ groups_attribute: e.target.value })} />
+          </div>
+
+          {form.protocol === 'oidc' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input className={inputClass} placeholder="Issuer URL" value={form.issuer} onChange={(e) => update({ issuer: e.target.value })} />
+              <input className={inputClass} placeholder="Client ID" value={form.client_id} onChange={(e) => update({ client_id: e.target.value })} />
+              <input
+                className={inputClass}
+                type="password"
+                placeholder={editing?.id ? 'Client secret (leave blank to keep)' : 'Client secret (optional with PKCE)'}
+                value={form.client_secret}
+                onChange={(e) => update({ client_secret: e.target.value })}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input className={inputClass} placeholder="IdP entity ID" value={form.idp_entity_id} onChange={(e) => update({ idp_entity_id: e.target.value })} />
+              <input className={inputClass} placeholder="IdP sign-on URL" value={form.idp_sso_url} onChange={(e) => update({ idp_sso_url: e.target.value })} />
+              <textarea
+                className={`${inputClass} md:col-span-2 font-mono`}
+                rows={4}
+                placeholder="IdP signing certificate (PEM)"
+                value={form.idp_certificate}
+                onChange={(e) => update({ idp_certificate: e.target.value })}
+              />
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-medium mb-2">Group → role mappings (first match wins)</p>
+            {form.role_mappings.map((mapping, index) => (
+              <div key={index} className="flex space-x-2 mb-2">
+                <input className={inputClass} placeholder="IdP group" value={mapping.group} onChange={(e) => setMapping(index, { group: e.target.value })} />
+                <select className={inputClass} value={mapping.user_type} onChange={(e) => setMapping(index, { user_type: e.target.value })}>
+                  {ROLES.map((role) => <option key={role} value={role}>{role.replace(/_/g, ' ')}</option>)}
+                </select>
+                <Button size="sm" variant="outline" onClick={() => update({ role_mappings: form.role_mappings.filter((_, i) => i !== index) })}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button size="sm" variant="outline" onClick={() => update({ role_mappings: [...form.role_mappings, { group: '', user_type: 'nurse' }] })}>
+              <Plus className="h-4 w-4 mr-1" /> Add Mapping
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center">
+            <select className={inputClass} value={form.default_user_type} onChange={(e) => update({ default_user_type: e.target.value })}>
+              <option value="">No role for unmapped groups</option>
+              {ROLES.map((role) => <option key={role} value={role}>Default: {role.replace(/_/g, ' ')}</option>)}
+            </select>
+            <label className="flex items-center space-x-2 text-sm">
+              <input type="checkbox" checked={form.jit_provisioning} onChange={(e) => update({ jit_provisioning: e.target.checked })} />
+              <span>Create accounts on first sign-in</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm">
+              <input type="checkbox" checked={form.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+              <span>Enabled</span>
+            </label>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button onClick={save} disabled={saving}>{saving ? 'Saving...' : 'Save Connection'}</Button>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SsoConnectionsPanel;
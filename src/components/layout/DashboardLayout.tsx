@@ -1,6 +1,7 @@
 // Dashboard Layout Wrapper Component
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useAuth } from '../../lib/auth';
+import { useActiveEntity } from '../../lib/memberships';
 import DashboardHeader from './DashboardHeader';
 import DashboardFooter from './DashboardFooter';
 import Sidebar from './Sidebar';
@@ -11,6 +12,12 @@ interface DashboardLayoutProps {
 
 const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const { user } = useAuth();
+  const loadMemberships = useActiveEntity(state => state.loadMemberships);
+
+  // Memberships drive the sidebar's entity switcher and the entity HMS pages work in
+  useEffect(() => {
+    if (user) loadMemberships(user);
+  }, [user?.id, loadMemberships]);
 
   if (!user) return null;
 
@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth, UserType } from '../../lib/auth';
+import { useActiveEntity, useActiveMembership } from '../../lib/memberships';
 import {
   LayoutDashboard,
   Users,
@@ -29,6 +30,8 @@ import {
 
 const Sidebar: React.FC = () => {
   const { user } = useAuth();
+  const { memberships, activeEntityId, setActiveEntity } = useActiveEntity();
+  const activeMembership = useActiveMembership();
   const location = useLocation();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
@@ -51,8 +54,27 @@ const Sidebar: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Navigation follows the role held at the active entity, not the account's own type
+  const role = activeMembership?.role || user.user_type;
+
+  const hmsItems = [
+    { name: '── HMS ──', href: '', icon: Stethoscope, isHeader: true },
+    { name: 'Patient Registry', href: '/dashboard/hms/patients', icon: Users },
+    { name: 'Encounters', href: '/dashboard/hms/encounters', icon: Calendar },
+    { name: 'ED Triage', href: '/dashboard/hms/triage', icon: Heart },
+    { name: 'Lab Orders', href: '/dashboard/hms/labs', icon: FileText },
+    { name: 'Imaging Orders', href: '/dashboard/hms/imaging', icon: FileText },
+    { name: 'Pharmacy', href: '/dashboard/hms/pharmacy', icon: Heart },
+    { name: 'eMAR', href: '/dashboard/hms/mar', icon: FileText },
+    { name: 'Billing (HMS)', href: '/dashboard/hms/billing', icon: CreditCard },
+    { name: 'Bed Management', href: '/dashboard/hms/beds', icon: Building },
+    { name: 'Referrals', href: '/dashboard/hms/referrals', icon: Users },
+    { name: 'Reports (HMS)', href: '/dashboard/hms/reports', icon: BarChart3 },
+    { name: 'Credentials', href: '/dashboard/hms/credentials', icon: Shield },
+  ];
+
   const getNavigationItems = () => {
-    switch (user.user_type) {
+    switch (role) {
       case UserType.PUBLIC_USER:
         return [
           { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
@@ -87,24 +109,27 @@ const Sidebar: React.FC = () => {
         ];
 
         // Add HMS items for healthcare entities
-        const isHealthcareEntity = ['health_center', 'hospital', 'clinic'].includes(user.user_type);
+        const isHealthcareEntity = ['health_center', 'hospital', 'clinic'].includes(role);
         if (isHealthcareEntity) {
-          const hmsItems = [
-            { name: '── HMS ──', href: '', icon: Stethoscope, isHeader: true },
-            { name: 'Patient Registry', href: '/dashboard/hms/patients', icon: Users },
-            { name: 'Encounters', href: '/dashboard/hms/encounters', icon: Calendar },
-            { name: 'Lab Orders', href: '/dashboard/hms/labs', icon: FileText },
-            { name: 'Imaging Orders', href: '/dashboard/hms/imaging', icon: FileText },
-            { name: 'Pharmacy', href: '/dashboard/hms/pharmacy', icon: Heart },
-            { name: 'Billing (HMS)', href: '/dashboard/hms/billing', icon: CreditCard },
-            { name: 'Bed Management', href: '/dashboard/hms/beds', icon: Building },
-            { name: 'Referrals', href: '/dashboard/hms/referrals', icon: Users },
-            { name: 'Reports (HMS)', href: '/dashboard/hms/reports', icon: BarChart3 },
-          ];
           entityItems.splice(1, 0, ...hmsItems);
         }
 
         return entityItems;
+
+      case UserType.HOSPITAL_ADMIN:
+      case UserType.PHYSICIAN:
+      case UserType.NURSE:
+      case UserType.PHARMACIST:
+      case UserType.LAB_TECH:
+      case UserType.IMAGING_TECH:
+      case UserType.BILLING_CLERK:
+        return [
+          { name: 'Dashboard', href: '/dashboard/hms', icon: LayoutDashboard },
+          ...hmsItems,
+          ...(role === UserType.HOSPITAL_ADMIN
+            ? [{ name: 'Team & Staff', href: '/dashboard/entity/team', icon: Users }]
+            : []),
+        ];
         
       case UserType.SUPER_ADMIN:
         return [
@@ -172,11 +197,29 @@ const Sidebar: React.FC = () => {
                   {user.profile ? `${user.profile.first_name} ${user.profile.last_name}` : user.email.split('@')[0]}
                 </p>
                 <p className="text-xs text-gray-500 capitalize">
-                  {user.user_type.replace('_', ' ')}
+                  {role.replace('_', ' ')}
                 </p>
               </div>
             )}
           </div>
+          {/* Active entity switcher, for staff who work at more than one entity */}
+          {!isCollapsed && memberships.length > 1 && (
+            <select
+              value={activeEntityId || ''}
+              onChange={(e) => setActiveEntity(e.target.value)}
+              className="mt-3 w-full p-2 border border-gray-200 rounded-md text-xs bg-white"
+              title="Active entity"
+            >
+              {memberships.map((membership) => (
+                <option key={membership.entity_id} value={membership.entity_id}>
+                  {membership.entity_name} ({membership.role.replace('_', ' ')})
+                </option>
+              ))}
+            </select>
+          )}
+          {!isCollapsed && memberships.length === 1 && activeMembership && (
+            <p className="mt-2 text-xs text-gray-500 truncate">{activeMembership.entity_name}</p>
+          )}
         </div>
 
         {/* Navigation */}
@@ -12,7 +12,7 @@ import { logger } from '../../lib/observability';
 interface Notification {
   id: string;
   user_id: string;
-  type: 'booking_confirmation' | 'appointment_reminder' | 'health_alert' | 'system_update' | 'message' | 'payment' | 'general';
+  type: 'booking_confirmation' | 'appointment_reminder' | 'health_alert' | 'early_warning_escalation' | 'system_update' | 'message' | 'payment' | 'general';
   title: string;
   message: string;
   data?: Record<string, any>;
@@ -148,6 +148,7 @@ const NotificationsPanel: React.FC<{ onClose?: () => void }> = ({ onClose }) =>
       case 'message':
         return <MessageSquare {...iconProps} />;
       case 'health_alert':
+      case 'early_warning_escalation':
         return <AlertTriangle {...iconProps} />;
       case 'payment':
         return <Heart {...iconProps} />;
@@ -333,6 +334,17 @@ const NotificationsPanel: React.FC<{ onClose?: () => void }> = ({ onClose }) =>
                     </div>
                   )}
 
+                  {notification.type === 'early_warning_escalation' && notification.data?.encounter_id && (
+                    <div className="mt-3 pt-3 border-t border-gray-100">
+                      <a
+                        href="/dashboard/hms/encounters"
+                        className="block w-full rounded-md border border-gray-300 px-3 py-1.5 text-center text-sm font-medium hover:bg-gray-50"
+                      >
+                        Review Patient
+                      </a>
+                    </div>
+                  )}
+
                   {notification.type === 'booking_confirmation' && notification.data?.booking_id && (
                     <div className="mt-3 pt-3 border-t border-gray-100">
                       <Button variant="outline" size="sm" className="w-full" asChild>
@@ -1,10 +1,12 @@
-// Patient Search Component - Encrypted-aware search with safe results
+// Patient Search Component - Encrypted-aware search with safe results.
+// With the backend, terms are matched exactly through blind indexes: surname,
+// surname + date of birth, phone, MRN or patient ID.
 import React, { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { PatientService } from '@/lib/patients';
-import { useAuth } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { Search, User, X, Loader2 } from 'lucide-react';
 
 interface PatientSearchResult {
@@ -26,13 +28,13 @@ interface PatientSearchProps {
 
 export default function PatientSearch({
   onPatientSelect,
-  placeholder = "Search patients by name or ID...",
+  placeholder = "Surname, date of birth, phone, MRN or patient ID...",
   entityId,
   className = "",
   maxResults = 10,
   showSelectedPatient = true
 }: PatientSearchProps) {
-  const { user } = useAuth();
+  const activeEntityId = useActiveEntityId();
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<PatientSearchResult[]>([]);
   const [loading, setLoading] = useState(false);
@@ -72,7 +74,7 @@ export default function PatientSearch({
       setLoading(true);
       const searchResults = await PatientService.searchPatients(
         query.trim(),
-        entityId || user?.entity_id,
+        entityId || activeEntityId,
         maxResults
       );
       setResults(searchResults);
@@ -176,11 +178,12 @@ export default function PatientSearch({
             <div className="p-4 text-center">
               <User className="h-8 w-8 text-gray-300 mx-auto mb-2" />
               <p className="text-sm text-gray-500">No patients found</p>
-              <p className="text-xs text-gray-400">Try adjusting your search terms</p>
+              <p className="text-xs text-gray-400">Names, dates (YYYY-MM-DD) and numbers must match exactly</p>
             </div>
           ) : (
             <div className="p-4 text-center">
               <p className="text-sm text-gray-500">Type at least 2 characters to search</p>
+              <p className="text-xs text-gray-400">e.g. "Bello 1985-03-15", a phone number or an MRN</p>
             </div>
           )}
         </div>
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { apiClient } from '@/lib/api-client';
+import { usesBackend } from '@/lib/database';
+
+export interface LiveChange {
+  collection: string;
+  type: 'insert' | 'update' | 'delete';
+  id: string;
+  /** The record after the write; null for deletes. */
+  record: any | null;
+  at: string;
+}
+
+interface LiveUpdateHandlers {
+  /** Changes arriving close together are delivered as one batch. */
+  onChanges?: (changes: LiveChange[]) => void;
+  /** Fired after a reconnect: changes missed while offline are not replayed, so refetch. */
+  onResync?: () => void;
+}
+
+const BATCH_MS = 300;
+const MAX_RETRY_MS = 30_000;
+
+/**
+ * Live updates from the backend's /api/stream feed for the given collections.
+ * Only records the user may read are delivered. Does nothing in GitHub
+ * storage mode, where there is no backend to push changes.
+ */
+export function useLiveUpdates(collections: string[], handlers: LiveUpdateHandlers, enabled = true) {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const key = collections.join(',');
+
+  useEffect(() => {
+    if (!usesBackend || !enabled || !key) return;
+
+    const controller = new AbortController();
+    let pending: LiveChange[] = [];
+    let batchTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryMs = 1000;
+    let connectedBefore = false;
+
+    const flush = () => {
+      const batch = pending;
+      pending = [];
+      if (batch.length) handlersRef.current.onChanges?.(batch);
+    };
+
+    const connect = async () => {
+      try {
+        await apiClient.streamChanges(key.split(','), (event, data) => {
+          if (event === 'ready') {
+            setConnected(true);
+            retryMs = 1000;
+            if (connectedBefore) handlersRef.current.onResync?.();
+            connectedBefore = true;
+          } else if (event === 'change') {
+            pending.push(data as LiveChange);
+            clearTimeout(batchTimer);
+            batchTimer = setTimeout(flush, BATCH_MS);
+          }
+        }, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('Live updates disconnected:', error);
+      }
+      if (controller.signal.aborted) return;
+      setConnected(false);
+      retryTimer = setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+    };
+
+    connect();
+    return () => {
+      controller.abort();
+      clearTimeout(batchTimer);
+      clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [key, enabled]);
+
+  return { connected };
+}
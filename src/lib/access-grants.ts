@@ -1,7 +1,8 @@
 // Access Grant Management Service for Hospital Management System
-import { githubDB, collections } from './database';
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
 import { logger } from './observability';
-import { encrypt, decrypt } from './encryption';
+import { encryptPHI, decryptPHI } from './encryption';
 
 // Access Grant Interface
 export interface AccessGrant {
@@ -85,6 +86,44 @@ export interface AccessLog {
   created_at: string;
 }
 
+// One access to a patient's record, as shown in the patient's access report
+export interface AccessReportEntry {
+  id: string;
+  source: 'audit_trail' | 'access_logs';
+  accessed_at: string;
+  accessor: { user_id: string; name: string; email: string | null; role: string | null };
+  section: string; // demographics, medical_history, medications, lab_results, imaging, billing, consents
+  collection: string;
+  action: string;
+  outcome: 'success' | 'denied';
+  basis: {
+    type: 'access_grant' | 'care_relationship' | 'none';
+    label: string;
+    grant_id?: string;
+    entity_id?: string;
+  };
+  emergency: boolean;
+}
+
+// Case opened when a patient reports an access as suspicious
+export interface AccessIncident {
+  id: string;
+  patient_id: string;
+  entity_id: string | null;
+  reported_by: string;
+  reason: string;
+  entries: Array<{
+    entry_id: string;
+    source: AccessReportEntry['source'];
+    accessor_user_id: string;
+    accessor_name: string;
+    section: string;
+    accessed_at: string;
+  }>;
+  status: 'open' | 'investigating' | 'resolved' | 'dismissed';
+  created_at: string;
+}
+
 export class AccessGrantService {
   
   // Create access grant
@@ -111,8 +150,8 @@ export class AccessGrantService {
   }): Promise<AccessGrant> {
     try {
       // Encrypt sensitive data
-      const encryptedContact = await encrypt(grantData.grantee_contact);
-      const encryptedPin = grantData.pin ? await encrypt(grantData.pin) : undefined;
+      const encryptedContact = await encryptPHI(grantData.grantee_contact);
+      const encryptedPin = grantData.pin ? await encryptPHI(grantData.pin) : undefined;
       
       // Generate access token
       const accessToken = await this.generateAccessToken();
@@ -255,8 +294,8 @@ export class AccessGrantService {
         };
       }
       
-      // Check PIN if required
-      if (grant.pin_required && grant.encrypted_pin) {
+      // Check PIN if required (the backend never returns the sealed PIN, so it compares it)
+      if (grant.pin_required && (usesBackend || grant.encrypted_pin)) {
         if (!pin) {
           return {
             valid: false,
@@ -264,8 +303,10 @@ export class AccessGrantService {
           };
         }
         
-        const decryptedPin = await decrypt(grant.encrypted_pin);
-        if (pin !== decryptedPin) {
+        const pinMatches = usesBackend
+          ? await apiClient.verifyAccessGrantPin(accessToken, pin)
+          : pin === decryptPHI(grant.encrypted_pin);
+        if (!pinMatches) {
           return {
             valid: false,
             reason: 'Invalid PIN'
@@ -402,6 +443,90 @@ export class AccessGrantService {
     }
   }
   
+  // Get who accessed the patient's record (backend: full PHI audit trail; otherwise grant access logs only)
+  static async getAccessReport(patientId: string, filters: { from?: string; to?: string } = {}): Promise<{
+    entries: AccessReportEntry[];
+    incidents: AccessIncident[];
+  }> {
+    try {
+      if (usesBackend) {
+        const res = await apiClient.getAccessReport({ patient_id: patientId, ...filters });
+        return { entries: res.data, incidents: res.incidents };
+      }
+
+      const grants = await this.getPatientAccessGrants(patientId);
+      const logs = await githubDB.find(collections.access_logs, { patient_id: patientId });
+      const entries: AccessReportEntry[] = logs
+        .filter(log => log.action !== 'login' && log.grantee_id)
+        .filter(log => (!filters.from || log.accessed_at >= filters.from) && (!filters.to || log.accessed_at <= `${filters.to}T23:59:59.999Z`))
+        .map(log => {
+          const grant = grants.find(g => g.id === log.access_grant_id);
+          return {
+            id: log.id,
+            source: 'access_logs' as const,
+            accessed_at: log.accessed_at,
+            accessor: { user_id: log.grantee_id, name: grant?.grantee_name || 'Unknown', email: null, role: grant?.grantee_type || null },
+            section: log.resource_type || 'records',
+            collection: log.resource_type || 'access_grants',
+            action: log.action,
+            outcome: log.success === false ? 'denied' as const : 'success' as const,
+            basis: grant
+              ? { type: 'access_grant' as const, label: `Access grant (${grant.relationship_to_patient || grant.grantee_type.replace(/_/g, ' ')})`, grant_id: grant.id }
+              : { type: 'none' as const, label: 'No recorded grant or care relationship' },
+            emergency: !!grant && (grant.emergency_only || grant.access_level === 'emergency_only')
+          };
+        })
+        .sort((a, b) => new Date(b.accessed_at).getTime() - new Date(a.accessed_at).getTime());
+      const incidents = await githubDB.find(collections.access_incidents, { patient_id: patientId });
+
+      return {
+        entries,
+        incidents: incidents.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      };
+    } catch (error) {
+      logger.error('get_access_report_failed', 'Failed to get access report', {
+        patient_id: patientId,
+        error: error.message
+      });
+      return { entries: [], incidents: [] };
+    }
+  }
+
+  // Report accesses as suspicious; opens a case for the entity's admins
+  static async reportSuspiciousAccess(patientId: string, entries: AccessReportEntry[], reason: string, reportedBy: string): Promise<AccessIncident[]> {
+    try {
+      if (usesBackend) {
+        return await apiClient.reportSuspiciousAccess(entries.map(e => e.id), reason, patientId);
+      }
+
+      const patient = await githubDB.findById(collections.patients, patientId);
+      const incident = await githubDB.insert(collections.access_incidents, {
+        patient_id: patientId,
+        entity_id: patient?.primary_entity_id || null,
+        reported_by: reportedBy,
+        reason,
+        entries: entries.map(e => ({
+          entry_id: e.id,
+          source: e.source,
+          accessor_user_id: e.accessor.user_id,
+          accessor_name: e.accessor.name,
+          section: e.section,
+          accessed_at: e.accessed_at
+        })),
+        status: 'open' as const,
+        created_at: new Date().toISOString()
+      });
+
+      return [incident];
+    } catch (error) {
+      logger.error('report_suspicious_access_failed', 'Failed to report suspicious access', {
+        patient_id: patientId,
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
   // Get expiring grants
   static async getExpiringGrants(daysAhead: number = 7): Promise<AccessGrant[]> {
     try {
@@ -0,0 +1,317 @@
+// Allergy Management Service for Hospital Management System
+// Allergies and intolerances recorded against a patient. An allergen is either
+// coded (RxNorm for drugs, SNOMED CT for other substances) or free text. A
+// patient with nothing recorded is "unknown", which is not the same as a
+// clinician attesting "no known allergies"; that attestation is kept as its own
+// allergies row (SNOMED 716186003) and is retired when an allergy is added.
+import { githubDB, collections } from './database';
+import { logger } from './observability';
+
+export type AllergyCategory = 'medication' | 'food' | 'environment' | 'biologic';
+export type AllergySeverity = 'mild' | 'moderate' | 'severe';
+export type AllergyVerificationStatus = 'unconfirmed' | 'confirmed' | 'refuted' | 'entered_in_error';
+export type AllergyClinicalStatus = 'active' | 'inactive' | 'resolved';
+
+export interface Allergy {
+  id: string;
+  patient_id: string;
+  entity_id: string;
+
+  // Allergen, coded or free text
+  allergen: string;
+  allergen_code?: string;
+  code_system?: string;
+  category: AllergyCategory;
+
+  // Reaction
+  reaction?: string;
+  severity?: AllergySeverity;
+  criticality: 'low' | 'medium' | 'high';
+
+  // Status
+  status: AllergyClinicalStatus;
+  verification_status: AllergyVerificationStatus;
+  onset_date?: string;
+  notes?: string;
+
+  // Set on the "no known allergies" attestation row only
+  no_known_allergies?: boolean;
+
+  // Metadata
+  recorded_by: string;
+  recorded_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AllergySummary {
+  // unknown: nothing recorded; nka: attested no known allergies; allergic: at least one current allergy
+  status: 'unknown' | 'nka' | 'allergic';
+  allergies: Allergy[];
+  attestation?: Allergy;
+}
+
+export const ALLERGY_CATEGORIES: Array<{ value: AllergyCategory; label: string }> = [
+  { value: 'medication', label: 'Medication' },
+  { value: 'food', label: 'Food' },
+  { value: 'environment', label: 'Environment' },
+  { value: 'biologic', label: 'Biologic' }
+];
+
+export const ALLERGY_CODE_SYSTEMS = ['RxNorm', 'SNOMED CT'];
+
+const NKA_CODE = '716186003';
+
+// Common allergens with their codes
+export const COMMON_ALLERGENS: Array<{ allergen: string; allergen_code: string; code_system: string; category: AllergyCategory }> = [
+  { allergen: 'Penicillin', allergen_code: '70618', code_system: 'RxNorm', category: 'medication' },
+  { allergen: 'Amoxicillin', allergen_code: '723', code_system: 'RxNorm', category: 'medication' },
+  { allergen: 'Sulfamethoxazole', allergen_code: '10180', code_system: 'RxNorm', category: 'medication' },
+  { allergen: 'Aspirin', allergen_code: '1191', code_system: 'RxNorm', category: 'medication' },
+  { allergen: 'Ibuprofen', allergen_code: '5640', code_system: 'RxNorm', category: 'medication' },
+  { allergen: 'Codeine', allergen_code: '2670', code_system: 'RxNorm', category: 'medication' },
+  { allergen: 'Peanut', allergen_code: '762952008', code_system: 'SNOMED CT', category: 'food' },
+  { allergen: 'Egg', allergen_code: '102263004', code_system: 'SNOMED CT', category: 'food' },
+  { allergen: "Cow's milk", allergen_code: '3718001', code_system: 'SNOMED CT', category: 'food' },
+  { allergen: 'Latex', allergen_code: '111088007', code_system: 'SNOMED CT', category: 'environment' },
+  { allergen: 'Bee venom', allergen_code: '288328004', code_system: 'SNOMED CT', category: 'environment' }
+];
+
+const SEVERITY_ORDER: Record<string, number> = { severe: 3, moderate: 2, mild: 1 };
+
+// An allergy still relevant to care: active and not refuted or entered in error
+export function isCurrentAllergy(allergy: Allergy): boolean {
+  return (
+    !allergy.no_known_allergies &&
+    allergy.status === 'active' &&
+    allergy.verification_status !== 'refuted' &&
+    allergy.verification_status !== 'entered_in_error'
+  );
+}
+
+// One line per allergy, e.g. "Penicillin (severe; rash; unconfirmed)"
+export function describeAllergy(allergy: Allergy): string {
+  const details = [
+    allergy.severity,
+    allergy.reaction,
+    allergy.verification_status === 'unconfirmed' ? 'unconfirmed' : ''
+  ].filter(Boolean);
+  return details.length ? `${allergy.allergen} (${details.join('; ')})` : allergy.allergen;
+}
+
+// The free-text allergy line carried on referrals
+export function formatAllergySummary(summary: AllergySummary): string {
+  if (summary.status === 'nka') {
+    return `No known allergies (attested ${summary.attestation!.recorded_at.slice(0, 10)})`;
+  }
+  if (summary.status === 'unknown') return 'Allergies not recorded';
+  return summary.allergies.map(describeAllergy).join('; ');
+}
+
+function criticalityFor(severity?: AllergySeverity): Allergy['criticality'] {
+  if (severity === 'severe') return 'high';
+  if (severity === 'mild') return 'low';
+  return 'medium';
+}
+
+function summarize(rows: Allergy[]): AllergySummary {
+  const allergies = rows
+    .filter(isCurrentAllergy)
+    .sort((a, b) => (SEVERITY_ORDER[b.severity || ''] || 0) - (SEVERITY_ORDER[a.severity || ''] || 0));
+  if (allergies.length > 0) return { status: 'allergic', allergies };
+  const attestation = rows.find(r => r.no_known_allergies && r.status === 'active');
+  return attestation ? { status: 'nka', allergies: [], attestation } : { status: 'unknown', allergies: [] };
+}
+
+export class AllergyService {
+
+  // Record an allergy; this retires any "no known allergies" attestation
+  static async addAllergy(allergyData: {
+    patient_id: string;
+    entity_id: string;
+    allergen: string;
+    allergen_code?: string;
+    code_system?: string;
+    category: AllergyCategory;
+    reaction?: string;
+    severity?: AllergySeverity;
+    verification_status?: AllergyVerificationStatus;
+    onset_date?: string;
+    notes?: string;
+    recorded_by: string;
+  }): Promise<Allergy> {
+    if (!allergyData.allergen.trim()) throw new Error('An allergen is required');
+    if (allergyData.allergen_code && !allergyData.code_system) throw new Error('Give the code system for a coded allergen');
+
+    try {
+      const now = new Date().toISOString();
+      const allergy = await githubDB.insert(collections.allergies, {
+        ...allergyData,
+        allergen: allergyData.allergen.trim(),
+        criticality: criticalityFor(allergyData.severity),
+        status: 'active',
+        verification_status: allergyData.verification_status || 'unconfirmed',
+        recorded_at: now,
+        created_at: now,
+        updated_at: now
+      });
+
+      const rows = await githubDB.find(collections.allergies, { patient_id: allergyData.patient_id });
+      for (const row of rows.filter((r: Allergy) => r.no_known_allergies && r.status === 'active')) {
+        await githubDB.update(collections.allergies, row.id, { status: 'inactive', updated_at: now });
+      }
+
+      await this.logAuditEvent('allergy_added', allergy.id, allergyData.recorded_by, {
+        patient_id: allergyData.patient_id,
+        allergen: allergy.allergen
+      });
+
+      logger.info('allergy_added', 'Allergy recorded', {
+        allergy_id: allergy.id,
+        patient_id: allergyData.patient_id,
+        category: allergyData.category
+      });
+
+      return allergy as Allergy;
+    } catch (error) {
+      logger.error('allergy_add_failed', 'Failed to record allergy', { error: error.message });
+      throw error;
+    }
+  }
+
+  // Update an allergy; marking it refuted or entered in error takes it off the banner
+  static async updateAllergy(allergy: Allergy, updates: Partial<{
+    allergen: string;
+    allergen_code: string;
+    code_system: string;
+    category: AllergyCategory;
+    reaction: string;
+    severity: AllergySeverity;
+    status: AllergyClinicalStatus;
+    verification_status: AllergyVerificationStatus;
+    onset_date: string;
+    notes: string;
+  }>, updatedBy: string): Promise<Allergy> {
+    if (allergy.no_known_allergies) throw new Error('A "no known allergies" attestation cannot be edited');
+
+    try {
+      const updated = await githubDB.update(collections.allergies, allergy.id, {
+        ...updates,
+        ...(updates.severity ? { criticality: criticalityFor(updates.severity) } : {}),
+        updated_at: new Date().toISOString()
+      });
+
+      await this.logAuditEvent('allergy_updated', allergy.id, updatedBy, updates);
+
+      logger.info('allergy_updated', 'Allergy updated', {
+        allergy_id: allergy.id,
+        updated_by: updatedBy
+      });
+
+      return { ...allergy, ...updated };
+    } catch (error) {
+      logger.error('allergy_update_failed', 'Failed to update allergy', {
+        allergy_id: allergy.id,
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  // Attest that the patient has no known allergies. Refused while a current
+  // allergy is on record; those must be refuted or resolved first.
+  static async recordNoKnownAllergies(attestation: {
+    patient_id: string;
+    entity_id: string;
+    recorded_by: string;
+  }): Promise<Allergy> {
+    const rows: Allergy[] = await githubDB.find(collections.allergies, { patient_id: attestation.patient_id });
+    if (rows.some(isCurrentAllergy)) {
+      throw new Error('This patient has recorded allergies. Resolve or refute them before attesting no known allergies.');
+    }
+
+    try {
+      const now = new Date().toISOString();
+      for (const row of rows.filter(r => r.no_known_allergies && r.status === 'active')) {
+        await githubDB.update(collections.allergies, row.id, { status: 'inactive', updated_at: now });
+      }
+      const record = await githubDB.insert(collections.allergies, {
+        ...attestation,
+        allergen: 'No known allergies',
+        allergen_code: NKA_CODE,
+        code_system: 'SNOMED CT',
+        category: 'medication',
+        criticality: 'low',
+        status: 'active',
+        verification_status: 'confirmed',
+        no_known_allergies: true,
+        recorded_at: now,
+        created_at: now,
+        updated_at: now
+      });
+
+      await this.logAuditEvent('allergy_nka_attested', record.id, attestation.recorded_by, {
+        patient_id: attestation.patient_id
+      });
+
+      return record as Allergy;
+    } catch (error) {
+      logger.error('allergy_nka_failed', 'Failed to record no known allergies', { error: error.message });
+      throw error;
+    }
+  }
+
+  // Every allergy on record for a patient, newest first (attestations excluded)
+  static async getPatientAllergies(patientId: string): Promise<Allergy[]> {
+    try {
+      const rows: Allergy[] = await githubDB.find(collections.allergies, { patient_id: patientId });
+      return rows
+        .filter(r => !r.no_known_allergies)
+        .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+    } catch (error) {
+      logger.error('get_patient_allergies_failed', 'Failed to get patient allergies', {
+        patient_id: patientId,
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  // Current allergies (most severe first) and the patient's allergy status
+  static async getAllergySummary(patientId: string): Promise<AllergySummary> {
+    const rows: Allergy[] = await githubDB.find(collections.allergies, { patient_id: patientId });
+    return summarize(rows);
+  }
+
+  // Summaries for several patients at once, keyed by patient id
+  static async getAllergySummaries(patientIds: string[]): Promise<Record<string, AllergySummary>> {
+    const unique = [...new Set(patientIds.filter(Boolean))];
+    const summaries: Record<string, AllergySummary> = {};
+    await Promise.all(
+      unique.map(async (id) => {
+        summaries[id] = await this.getAllergySummary(id);
+      })
+    );
+    return summaries;
+  }
+
+  // Log audit events
+  private static async logAuditEvent(action: string, allergyId: string, userId: string, metadata?: any): Promise<void> {
+    try {
+      await githubDB.insert(collections.audit_logs, {
+        action,
+        resource_type: 'allergy',
+        resource_id: allergyId,
+        user_id: userId,
+        metadata: metadata || {},
+        timestamp: new Date().toISOString(),
+        ip_address: 'unknown',
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown'
+      });
+    } catch (error) {
+      logger.error('audit_log_failed', 'Failed to log audit event', { error: error.message });
+    }
+  }
+}
+
+export default AllergyService;
@@ -1,3 +1,5 @@
+import { VersionConflictError } from './version-conflict';
+
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4321/api';
 
 function getToken(): string | null {
@@ -10,18 +12,76 @@ function setToken(token: string): void {
 
 function clearToken(): void {
   localStorage.removeItem('careconnect_api_token');
+  localStorage.removeItem('careconnect_refresh_token');
+  localStorage.removeItem('careconnect_active_entity');
+}
+
+/** Entity chosen in the dashboard switcher; sent as X-Active-Entity so the backend scopes to that membership. */
+function getActiveEntity(): string | null {
+  return localStorage.getItem('careconnect_active_entity');
+}
+
+function setActiveEntity(entityId: string | null): void {
+  if (entityId) localStorage.setItem('careconnect_active_entity', entityId);
+  else localStorage.removeItem('careconnect_active_entity');
+}
+
+/** Store the access/refresh pair returned by sign-in, refresh and MFA changes. */
+function storeTokens(res: { token?: string; refresh_token?: string }): void {
+  if (res.token) setToken(res.token);
+  if (res.refresh_token) localStorage.setItem('careconnect_refresh_token', res.refresh_token);
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+/** Credential checks whose 401 means a wrong password or code, not an expired token. */
+const NO_REFRESH_PATHS = ['/auth/login', '/mfa/verify', '/auth/sso/exchange'];
+
+/**
+ * Swap the refresh token for a new access token. Concurrent 401s share one
+ * refresh, since each refresh token only works once.
+ */
+function refreshTokens(): Promise<boolean> {
+  const refreshToken = localStorage.getItem('careconnect_refresh_token');
+  if (!refreshToken) return Promise.resolve(false);
+  refreshing ??= (async () => {
+    try {
+      const res = await fetch(`${API_BASE}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      });
+      if (!res.ok) {
+        clearToken();
+        return false;
+      }
+      storeTokens(await res.json());
+      return true;
+    } catch {
+      return false;
+    } finally {
+      refreshing = null;
+    }
+  })();
+  return refreshing;
 }
 
-async function request<T = any>(path: string, options: RequestInit = {}): Promise<T> {
+async function request<T = any>(path: string, options: RequestInit = {}, retried = false): Promise<T> {
   const token = getToken();
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     ...(options.headers as Record<string, string> || {}),
   };
   if (token) headers['Authorization'] = `Bearer ${token}`;
+  const activeEntity = getActiveEntity();
+  if (activeEntity) headers['X-Active-Entity'] = activeEntity;
 
   const res = await fetch(`${API_BASE}${path}`, { ...options, headers });
+  if (res.status === 401 && token && !retried && !NO_REFRESH_PATHS.includes(path) && (await refreshTokens())) {
+    return request(path, options, true);
+  }
   const data = await res.json();
+  if (res.status === 409 && data.current) throw new VersionConflictError(data.error || 'Version conflict', data.current);
   if (!res.ok) throw new Error(data.error || `API error: ${res.status}`);
   return data;
 }
@@ -29,13 +89,14 @@ async function request<T = any>(path: string, options: RequestInit = {}): Promis
 export const apiClient = {
   async register(userData: any): Promise<{ user: any; profile: any; token: string }> {
     const res = await request('/auth/register', { method: 'POST', body: JSON.stringify(userData) });
-    if (res.token) setToken(res.token);
+    storeTokens(res);
     return res;
   },
 
-  async login(email: string, password: string): Promise<{ user: any; profile: any; token: string }> {
+  /** With MFA on, resolves to `{ mfa_required, challenge_token }` instead; finish with verifyMfaLogin. */
+  async login(email: string, password: string): Promise<{ user: any; profile: any; token: string; mfa_required?: boolean; challenge_token?: string }> {
     const res = await request('/auth/login', { method: 'POST', body: JSON.stringify({ email, password }) });
-    if (res.token) setToken(res.token);
+    storeTokens(res);
     return res;
   },
 
@@ -48,6 +109,98 @@ export const apiClient = {
     return request('/auth/me');
   },
 
+  /** Login step 2: a TOTP or backup code for the challenge returned by login. */
+  async verifyMfaLogin(challengeToken: string, code: string): Promise<{ user: any; profile: any; token: string; backup_codes_remaining?: number }> {
+    const res = await request('/mfa/verify', { method: 'POST', body: JSON.stringify({ challenge_token: challengeToken, token: code }) });
+    storeTokens(res);
+    return res;
+  },
+
+  /** Entities the signed-in user works at, with their role and permissions at each. */
+  async getMemberships(): Promise<Array<{ entity_id: string; entity_name: string; entity_type: string | null; role: string; permissions: string[]; home: boolean }>> {
+    const res = await request('/auth/memberships');
+    return res.data;
+  },
+
+  /** Single sign-on connections offered for an email's domain. */
+  async discoverSso(email: string): Promise<Array<{ id: string; name: string; protocol: 'oidc' | 'saml'; entity_id: string }>> {
+    const res = await request(`/auth/sso/discover?email=${encodeURIComponent(email)}`);
+    return res.data;
+  },
+
+  /** Full-page URL that starts a sign-in with the connection's identity provider. */
+  ssoStartUrl(connectionId: string): string {
+    return `${API_BASE}/auth/sso/${encodeURIComponent(connectionId)}/start`;
+  },
+
+  /** Swap the code from /sso/complete for a session; may return an MFA challenge like login. */
+  async exchangeSsoCode(code: string): Promise<{ user: any; profile: any; token: string; mfa_required?: boolean; challenge_token?: string }> {
+    const res = await request('/auth/sso/exchange', { method: 'POST', body: JSON.stringify({ code }) });
+    storeTokens(res);
+    return res;
+  },
+
+  refreshSession(): Promise<boolean> {
+    return refreshTokens();
+  },
+
+  /** The signed-in user's devices; `current` marks this one. */
+  async getSessions(): Promise<any[]> {
+    const res = await request('/auth/sessions');
+    return res.data;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await request(`/auth/sessions/${sessionId}`, { method: 'DELETE' });
+  },
+
+  /** Sign out every device except this one; resolves to how many were signed out. */
+  async revokeOtherSessions(): Promise<number> {
+    const res = await request('/auth/sessions', { method: 'DELETE' });
+    return res.data.revoked;
+  },
+
+  async getMfaStatus(): Promise<{ enabled: boolean; required: boolean; backup_codes_remaining: number }> {
+    const res = await request('/mfa/status');
+    return res.data;
+  },
+
+  async setupMfa(): Promise<{ secret: string; uri: string }> {
+    const res = await request('/mfa/setup', { method: 'POST', body: '{}' });
+    return res.data;
+  },
+
+  /** Resolves with the one-time display of the new backup codes. */
+  async confirmMfa(token: string): Promise<{ enabled: boolean; backup_codes: string[] }> {
+    const res = await request('/mfa/confirm', { method: 'POST', body: JSON.stringify({ token }) });
+    return res.data;
+  },
+
+  async regenerateBackupCodes(token: string): Promise<string[]> {
+    const res = await request('/mfa/backup-codes', { method: 'POST', body: JSON.stringify({ token }) });
+    return res.data.backup_codes;
+  },
+
+  /** Turning MFA off signs out every device; this one receives a fresh session. */
+  async disableMfa(token: string): Promise<{ enabled: boolean }> {
+    const res = await request('/mfa/disable', { method: 'POST', body: JSON.stringify({ token }) });
+    storeTokens(res.data);
+    return { enabled: res.data.enabled };
+  },
+
+  async requestPasswordReset(email: string): Promise<void> {
+    await request('/auth/password-reset', { method: 'POST', body: JSON.stringify({ email }) });
+  },
+
+  async verifyPasswordResetToken(token: string): Promise<boolean> {
+    const res = await request(`/auth/password-reset?token=${encodeURIComponent(token)}`);
+    return !!res.data?.valid;
+  },
+
+  async confirmPasswordReset(token: string, password: string): Promise<void> {
+    await request('/auth/password-reset/confirm', { method: 'POST', body: JSON.stringify({ token, password }) });
+  },
+
   async getCollection<T = any>(collection: string, filter?: Record<string, any>): Promise<T[]> {
     const query = filter ? `?filter=${encodeURIComponent(JSON.stringify(filter))}` : '';
     const res = await request(`/data/${collection}${query}`);
@@ -64,8 +217,10 @@ export const apiClient = {
     return res.data;
   },
 
-  async updateItem<T = any>(collection: string, id: string, updates: any): Promise<T> {
-    const res = await request(`/data/${collection}/${id}`, { method: 'PUT', body: JSON.stringify(updates) });
+  /** Pass `expectedVersion` to reject the update (VersionConflictError) if the record changed since it was read. */
+  async updateItem<T = any>(collection: string, id: string, updates: any, expectedVersion?: number): Promise<T> {
+    const headers: Record<string, string> = expectedVersion !== undefined ? { 'If-Match': `"${expectedVersion}"` } : {};
+    const res = await request(`/data/${collection}/${id}`, { method: 'PUT', headers, body: JSON.stringify(updates) });
     return res.data;
   },
 
@@ -73,12 +228,298 @@ export const apiClient = {
     await request(`/data/${collection}/${id}`, { method: 'DELETE' });
   },
 
+  /**
+   * Read the /api/stream change feed until `signal` aborts or the server ends it.
+   * Uses fetch instead of EventSource so the token travels in a header, not the URL.
+   * An expired token is refreshed once, as request() does.
+   */
+  async streamChanges(collections: string[], onEvent: (event: string, data: any) => void, signal: AbortSignal, retried = false): Promise<void> {
+    const token = getToken();
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const activeEntity = getActiveEntity();
+    if (activeEntity) headers['X-Active-Entity'] = activeEntity;
+    const res = await fetch(`${API_BASE}/stream?collections=${encodeURIComponent(collections.join(','))}`, { headers, signal });
+    if (res.status === 401 && token && !retried && (await refreshTokens())) {
+      return apiClient.streamChanges(collections, onEvent, signal, true);
+    }
+    if (!res.ok || !res.body) throw new Error(`Change stream failed: ${res.status}`);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+        }
+        if (data.length) onEvent(event, JSON.parse(data.join('\n')));
+      }
+    }
+  },
+
+  async dispenseMedication<T = any>(dispense: any): Promise<T> {
+    const res = await request('/hms/pharmacy/dispense', { method: 'POST', body: JSON.stringify(dispense) });
+    return res.data;
+  },
+
+  async completeBedTransfer<T = any>(transferId: string): Promise<T> {
+    const res = await request(`/hms/beds/transfers/${transferId}/complete`, { method: 'POST' });
+    return res.data;
+  },
+
+  async recordInvoicePayment<T = any>(invoiceId: string, payment: any): Promise<T> {
+    const res = await request(`/hms/billing/invoices/${invoiceId}/payments`, { method: 'POST', body: JSON.stringify(payment) });
+    return res.data;
+  },
+
+  /** The signed-in patient's "who accessed my record" report and their open cases. */
+  async getAccessReport(filters: { patient_id?: string; from?: string; to?: string; limit?: number } = {}): Promise<{ data: any[]; incidents: any[] }> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const query = params.toString();
+    return request(`/patient/access-report${query ? `?${query}` : ''}`);
+  },
+
+  async reportSuspiciousAccess(entryIds: string[], reason: string, patientId?: string): Promise<any[]> {
+    const query = patientId ? `?patient_id=${encodeURIComponent(patientId)}` : '';
+    const res = await request(`/patient/access-report/incidents${query}`, {
+      method: 'POST',
+      body: JSON.stringify({ entry_ids: entryIds, reason }),
+    });
+    return res.data;
+  },
+
+  async searchPatients<T = any>(params: { q?: string; surname?: string; dob?: string; phone?: string; mrn?: string; entity_id?: string; limit?: number }): Promise<T[]> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') query.set(key, String(value));
+    }
+    const res = await request(`/patients/search?${query.toString()}`);
+    return res.data;
+  },
+
+  async verifyAccessGrantPin(accessToken: string, pin: string): Promise<boolean> {
+    const res = await request('/access-grants/verify-pin', {
+      method: 'POST',
+      body: JSON.stringify({ access_token: accessToken, pin }),
+    });
+    return !!res.data?.valid;
+  },
+
+  async requestBreakGlass<T = any>(body: { patient_id?: string; patient_code?: string; reason: string; duration_minutes: number; entity_id?: string }): Promise<T> {
+    const res = await request('/hms/break-glass', { method: 'POST', body: JSON.stringify(body) });
+    return res.data;
+  },
+
+  async endBreakGlass<T = any>(grantId: string): Promise<T> {
+    const res = await request(`/hms/break-glass/${grantId}/end`, { method: 'POST' });
+    return res.data;
+  },
+
+  async getBreakGlassReviews<T = any>(status?: string): Promise<T[]> {
+    const res = await request(`/hms/break-glass/reviews${status ? `?status=${encodeURIComponent(status)}` : ''}`);
+    return res.data;
+  },
+
+  async completeBreakGlassReview<T = any>(reviewId: string, outcome: string, notes?: string): Promise<T> {
+    const res = await request(`/hms/break-glass/reviews/${reviewId}`, { method: 'POST', body: JSON.stringify({ outcome, notes }) });
+    return res.data;
+  },
+
+  async matchPatients<T = any>(body: { name?: string; dob?: string; sex?: string; phones?: string[]; identifiers?: Array<{ type: string; value: string; issuer?: string }>; exclude_id?: string }): Promise<T[]> {
+    const res = await request('/hms/patients/match', { method: 'POST', body: JSON.stringify(body) });
+    return res.data;
+  },
+
+  async getDuplicatePatients<T = any>(status?: string): Promise<T[]> {
+    const res = await request(`/hms/patients/duplicates${status ? `?status=${encodeURIComponent(status)}` : ''}`);
+    return res.data;
+  },
+
+  async dismissDuplicatePatient<T = any>(flagId: string, notes?: string): Promise<T> {
+    const res = await request(`/hms/patients/duplicates/${flagId}/dismiss`, { method: 'POST', body: JSON.stringify({ notes }) });
+    return res.data;
+  },
+
+  async mergePatients<T = any>(body: { survivor_id: string; merged_id: string; flag_id?: string; reason: string }): Promise<T> {
+    const res = await request('/hms/patients/merge', { method: 'POST', body: JSON.stringify(body) });
+    return res.data;
+  },
+
+  async getPatientMerges<T = any>(patientId?: string): Promise<T[]> {
+    const res = await request(`/hms/patients/merges${patientId ? `?patient_id=${encodeURIComponent(patientId)}` : ''}`);
+    return res.data;
+  },
+
+  async unmergePatients<T = any>(mergeId: string, reason: string): Promise<T> {
+    const res = await request(`/hms/patients/merges/${mergeId}/unmerge`, { method: 'POST', body: JSON.stringify({ reason }) });
+    return res.data;
+  },
+
   async verifyEntity(entityId: string, status: string, notes?: string): Promise<any> {
     return request('/admin/verify-entity', { method: 'POST', body: JSON.stringify({ entity_id: entityId, status, notes }) });
   },
 
-  async getAuditLogs(): Promise<any[]> {
-    const res = await request('/admin/audit-logs');
+  /**
+   * PHI audit trail (newest first). `actor` is a user id or email; `from`/`to`
+   * are ISO dates. Pass `source: 'platform'` for the general activity log.
+   */
+  async getAuditLogs(filters: {
+    patient_id?: string;
+    actor?: string;
+    from?: string;
+    to?: string;
+    action?: string;
+    source?: 'trail' | 'platform';
+    limit?: number;
+  } = {}): Promise<any[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const query = params.toString();
+    const res = await request(`/admin/audit-logs${query ? `?${query}` : ''}`);
+    return res.data;
+  },
+
+  /** Locked sign-ins and accounts, devices or IPs with recent failed attempts (super admin). */
+  async getLoginLockouts(): Promise<any[]> {
+    const res = await request('/admin/lockouts');
+    return res.data;
+  },
+
+  async unlockLogin(lockoutId: string): Promise<any> {
+    const res = await request(`/admin/lockouts/${lockoutId}/unlock`, { method: 'POST' });
+    return res.data;
+  },
+
+  async getMfaPolicy(): Promise<string[]> {
+    const res = await request('/admin/mfa-policy');
+    return res.data.user_types;
+  },
+
+  /** Make MFA mandatory for these user types (super admin). */
+  async setMfaPolicy(userTypes: string[]): Promise<string[]> {
+    const res = await request('/admin/mfa-policy', { method: 'PUT', body: JSON.stringify({ user_types: userTypes }) });
+    return res.data.user_types;
+  },
+
+  /** Revoke every session a user has (super admin). */
+  async forceLogout(target: { user_id?: string; email?: string }): Promise<{ user_id: string; revoked: number }> {
+    const res = await request('/admin/force-logout', { method: 'POST', body: JSON.stringify(target) });
+    return res.data;
+  },
+
+  /** Staff memberships at an entity (entity admins). */
+  async getEntityStaff(entityId: string): Promise<any[]> {
+    const res = await request(`/hms/staff?entity_id=${encodeURIComponent(entityId)}`);
+    return res.data;
+  },
+
+  /** Change a member's role, or set `permissions` (null = the role's defaults). */
+  async updateStaffMembership(id: string, patch: { role?: string; permissions?: string[] | null }): Promise<any> {
+    const res = await request(`/hms/staff/${id}`, { method: 'PUT', body: JSON.stringify(patch) });
+    return res.data;
+  },
+
+  /** Suspend, reinstate or remove a member. */
+  async setStaffMembershipStatus(id: string, status: 'active' | 'suspended' | 'removed'): Promise<any> {
+    const res = await request(`/hms/staff/${id}/status`, { method: 'PUT', body: JSON.stringify({ status }) });
+    return res.data;
+  },
+
+  async getStaffInvitations(entityId: string): Promise<any[]> {
+    const res = await request(`/hms/staff/invitations?entity_id=${encodeURIComponent(entityId)}`);
+    return res.data;
+  },
+
+  /** Returns the invitation plus the one-time token for the acceptance link. */
+  async inviteStaff(body: { entity_id: string; email: string; role: string }): Promise<{ invitation: any; entity_name: string; token: string }> {
+    const res = await request('/hms/staff/invitations', { method: 'POST', body: JSON.stringify(body) });
+    return res.data;
+  },
+
+  async revokeStaffInvitation(id: string): Promise<void> {
+    await request(`/hms/staff/invitations/${id}`, { method: 'DELETE' });
+  },
+
+  /** Invitation details for the acceptance page (no sign-in needed). */
+  async getInvitation(token: string): Promise<any> {
+    const res = await request(`/auth/invitations/${encodeURIComponent(token)}`);
+    return res.data;
+  },
+
+  async acceptInvitation(token: string, body: { license_number?: string; license_authority?: string }): Promise<{ membership: any; entity_name: string; invited_by_email: string }> {
+    const res = await request(`/auth/invitations/${encodeURIComponent(token)}/accept`, { method: 'POST', body: JSON.stringify(body) });
+    return res.data;
+  },
+
+  async getMyCredentials(): Promise<any[]> {
+    const res = await request('/hms/credentials/mine');
+    return res.data;
+  },
+
+  /** An entity's credential review queue, optionally filtered by status. */
+  async getCredentials(entityId: string, status?: string): Promise<any[]> {
+    const res = await request(`/hms/credentials?entity_id=${encodeURIComponent(entityId)}${status ? `&status=${status}` : ''}`);
+    return res.data;
+  },
+
+  async submitCredential(body: any): Promise<any> {
+    const res = await request('/hms/credentials', { method: 'POST', body: JSON.stringify(body) });
+    return res.data;
+  },
+
+  async getCredentialDocuments(id: string): Promise<any[]> {
+    const res = await request(`/hms/credentials/${id}/documents`);
+    return res.data;
+  },
+
+  async reviewCredential(id: string, status: 'verified' | 'rejected', notes?: string): Promise<any> {
+    const res = await request(`/hms/credentials/${id}/review`, { method: 'POST', body: JSON.stringify({ status, notes }) });
+    return res.data;
+  },
+
+  async getSsoConnections(entityId?: string): Promise<any[]> {
+    const res = await request(`/hms/sso${entityId ? `?entity_id=${encodeURIComponent(entityId)}` : ''}`);
+    return res.data;
+  },
+
+  /** Create (no id) or update an SSO connection; a blank client_secret keeps the stored one. */
+  async saveSsoConnection(connection: any, id?: string): Promise<any> {
+    const res = await request(id ? `/hms/sso/${id}` : '/hms/sso', { method: id ? 'PUT' : 'POST', body: JSON.stringify(connection) });
+    return res.data;
+  },
+
+  async deleteSsoConnection(id: string): Promise<void> {
+    await request(`/hms/sso/${id}`, { method: 'DELETE' });
+  },
+
+  /** The entity's SSO email domains with their ownership verification state and TXT record. */
+  async getSsoDomains(entityId: string): Promise<any[]> {
+    const res = await request(`/hms/sso/domains?entity_id=${encodeURIComponent(entityId)}`);
+    return res.data;
+  },
+
+  async checkSsoDomain(id: string): Promise<any> {
+    const res = await request(`/hms/sso/domains/${id}/check`, { method: 'POST' });
+    return res.data;
+  },
+
+  async verifyAuditChain(): Promise<{ ok: boolean; checked: number; brokenAt?: number; reason?: string }> {
+    const res = await request('/admin/audit-logs/verify');
     return res.data;
   },
 
@@ -96,6 +537,8 @@ export const apiClient = {
   },
 
   getToken,
+  getActiveEntity,
+  setActiveEntity,
   setToken,
   clearToken,
 };
@@ -151,7 +151,12 @@ interface AuthState {
   // Consent versioning state
   requiresConsent: boolean;
   currentConsentVersion: string | null;
+  // Second login step: set while a password has passed but the MFA code is pending
+  mfaChallenge: string | null;
   login: (email: string, password: string, rememberMe?: boolean) => Promise<boolean>;
+  verifyMfa: (code: string) => Promise<boolean>;
+  completeSso: (code: string) => Promise<boolean>;
+  cancelMfa: () => void;
   register: (userData: any) => Promise<boolean>;
   logout: () => void;
   updateProfile: (updates: Partial<UserProfile>) => Promise<boolean>;
@@ -163,6 +168,63 @@ interface AuthState {
   acceptConsent: (version: string) => Promise<boolean>;
 }
 
+type SetAuthState = (partial: Partial<AuthState>) => void;
+
+// Shared tail of password and MFA sign-in: store the session marker, publish
+// the user, send the login alert and check platform consent.
+async function completeLogin(set: SetAuthState, get: () => AuthState, user: any, profile: any, rememberMe: boolean) {
+  const sessionData = {
+    userId: user.id,
+    expires: Date.now() + 7 * 24 * 60 * 60 * 1000,
+    rememberMe,
+  };
+  try {
+    localStorage.setItem('careconnect_token', encrypt(JSON.stringify(sessionData)));
+  } catch {}
+
+  const cleanUser = { ...user };
+  delete cleanUser.password_hash;
+
+  set({
+    user: cleanUser,
+    profile,
+    isAuthenticated: true,
+    isLoading: false,
+    mfaChallenge: null,
+  });
+
+  // Trigger login alert for security monitoring
+  try {
+    await emailEventHandler.trigger(EmailEvent.USER_LOGIN, {
+      userEmail: user.email,
+      userName: `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || 'User',
+      eventData: {
+        loginTime: new Date().toLocaleString(),
+        location: 'Unknown',
+        device: navigator.userAgent,
+        ipAddress: 'N/A',
+      },
+    });
+  } catch (emailError) {
+    console.warn('Failed to send login notification:', emailError);
+  }
+
+  // Consent versioning: check whether the user has accepted the current
+  // platform consent version. Sets `requiresConsent` accordingly. Runs
+  // after `set()` so the user is already authenticated; the modal is
+  // rendered by App.tsx as a gate on top of the main app. Errors here
+  // must NOT block login — fall back to requiring consent.
+  try {
+    await get().checkConsent(cleanUser.id);
+  } catch (consentErr) {
+    console.warn('Login: consent check failed, defaulting to required:', consentErr);
+    set({ requiresConsent: true });
+  }
+}
+
+// Remember-me choice carried from the password step to the MFA step.
+let pendingRememberMe = false;
+
 export const useAuth = create<AuthState>((set, get) => ({
   user: null,
   profile: null,
@@ -170,6 +232,7 @@ export const useAuth = create<AuthState>((set, get) => ({
   isAuthenticated: false,
   requiresConsent: false,
   currentConsentVersion: null,
+  mfaChallenge: null,
 
   login: async (email: string, password: string, rememberMe: boolean = false) => {
     set({ isLoading: true });
@@ -179,21 +242,18 @@ export const useAuth = create<AuthState>((set, get) => ({
       let profile: any;
 
       if (USE_BACKEND_AUTH) {
-        // Backend auth: PBKDF2 password verification + signed session token.
+        // Backend auth: PBKDF2 password verification + server-side session.
         const res = await apiClient.login(email, password);
+        if (res.mfa_required) {
+          // Password accepted; the session is issued once verifyMfa succeeds.
+          pendingRememberMe = rememberMe;
+          set({ mfaChallenge: res.challenge_token ?? null, isLoading: false });
+          return false;
+        }
+        // apiClient stores the backend tokens; careconnect_token is kept as
+        // an encrypted marker for code that checks for a session presence.
         user = res.user;
         profile = res.profile;
-        // apiClient stores the backend token as careconnect_api_token.
-        // Also keep an encrypted marker in careconnect_token for compatibility
-        // with any code that checks for a session presence.
-        const sessionData = {
-          userId: user.id,
-          expires: Date.now() + 7 * 24 * 60 * 60 * 1000,
-          rememberMe,
-        };
-        try {
-          localStorage.setItem('careconnect_token', encrypt(JSON.stringify(sessionData)));
-        } catch {}
       } else {
         // Legacy client-side auth (github mode): SHA-256 comparison.
         const users = await dbHelpers.find(collections.users, { email });
@@ -207,58 +267,52 @@ export const useAuth = create<AuthState>((set, get) => ({
         });
         const profiles = await dbHelpers.find(collections.profiles, { user_id: user.id });
         profile = profiles[0];
-        const sessionData = {
-          userId: user.id,
-          expires: Date.now() + 7 * 24 * 60 * 60 * 1000,
-          rememberMe,
-        };
-        localStorage.setItem('careconnect_token', encrypt(JSON.stringify(sessionData)));
         sessionStorage.removeItem('careconnect_token');
       }
 
-      const cleanUser = { ...user };
-      delete cleanUser.password_hash;
+      await completeLogin(set, get, user, profile, rememberMe);
+      return true;
+    } catch (error) {
+      console.error('Login error:', error);
+      set({ isLoading: false });
+      return false;
+    }
+  },
 
-      set({
-        user: cleanUser,
-        profile,
-        isAuthenticated: true,
-        isLoading: false,
-      });
+  verifyMfa: async (code: string) => {
+    const challenge = get().mfaChallenge;
+    if (!challenge) return false;
+    set({ isLoading: true });
+    try {
+      const res = await apiClient.verifyMfaLogin(challenge, code);
+      await completeLogin(set, get, res.user, res.profile, pendingRememberMe);
+      return true;
+    } catch (error: any) {
+      // An expired challenge means starting over from the password step.
+      if (/expired/i.test(error?.message || '')) set({ mfaChallenge: null });
+      set({ isLoading: false });
+      throw error;
+    }
+  },
 
-      // Trigger login alert for security monitoring
-      try {
-        await emailEventHandler.trigger(EmailEvent.USER_LOGIN, {
-          userEmail: user.email,
-          userName: `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || 'User',
-          eventData: {
-            loginTime: new Date().toLocaleString(),
-            location: 'Unknown',
-            device: navigator.userAgent,
-            ipAddress: 'N/A',
-          },
-        });
-      } catch (emailError) {
-        console.warn('Failed to send login notification:', emailError);
-      }
+  cancelMfa: () => set({ mfaChallenge: null }),
 
-      // Consent versioning: check whether the user has accepted the current
-      // platform consent version. Sets `requiresConsent` accordingly. Runs
-      // after `set()` so the user is already authenticated; the modal is
-      // rendered by App.tsx as a gate on top of the main app. Errors here
-      // must NOT block login — fall back to requiring consent.
-      try {
-        await get().checkConsent(cleanUser.id);
-      } catch (consentErr) {
-        console.warn('Login: consent check failed, defaulting to required:', consentErr);
-        set({ requiresConsent: true });
+  // Single sign-on return: the identity provider stood in for the password, so
+  // this either signs in or leaves an MFA challenge like login does.
+  completeSso: async (code: string) => {
+    set({ isLoading: true });
+    try {
+      const res = await apiClient.exchangeSsoCode(code);
+      if (res.mfa_required) {
+        pendingRememberMe = false;
+        set({ mfaChallenge: res.challenge_token ?? null, isLoading: false });
+        return false;
       }
-
+      await completeLogin(set, get, res.user, res.profile, false);
       return true;
     } catch (error) {
-      console.error('Login error:', error);
       set({ isLoading: false });
-      return false;
+      throw error;
     }
   },
 
@@ -392,6 +446,7 @@ export const useAuth = create<AuthState>((set, get) => ({
       isAuthenticated: false,
       isLoading: false,
       requiresConsent: false,
+      mfaChallenge: null,
     });
   },
 
@@ -601,7 +656,7 @@ async function hashPassword(password: string): Promise<string> {
   return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-function getDefaultPermissions(userType: UserType): Permission[] {
+export function getDefaultPermissions(userType: UserType): Permission[] {
   switch (userType) {
     case UserType.SUPER_ADMIN:
       return Object.values(Permission);
@@ -677,6 +732,7 @@ function getDefaultPermissions(userType: UserType): Permission[] {
     case UserType.NURSE:
       return [
         Permission.VIEW_PATIENT_DATA,
+        Permission.CREATE_ENCOUNTERS,
         Permission.MANAGE_ENCOUNTERS,
         Permission.RECORD_VITALS,
         Permission.MANAGE_CONDITIONS,
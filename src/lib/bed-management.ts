@@ -1,5 +1,6 @@
 // Bed Management Service for Hospital Management System
-import { githubDB, collections } from './database';
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
 import { logger } from './observability';
 
 // Bed Interface
@@ -251,29 +252,54 @@ export class BedService {
   // Complete bed transfer
   static async completeBedTransfer(transferId: string, completedBy: string): Promise<BedTransfer> {
     try {
-      const transfer = await githubDB.findById(collections.bed_management, transferId);
-      if (!transfer) throw new Error('Transfer not found');
-      
-      // Release old bed if exists
-      if (transfer.from_bed_id) {
-        await this.releaseBed(transfer.from_bed_id);
+      if (usesBackend) {
+        // Both beds and the transfer record are written in one backend transaction.
+        const completedTransfer = await apiClient.completeBedTransfer<BedTransfer>(transferId);
+        logger.info('bed_transfer_completed', 'Bed transfer completed', {
+          transfer_id: transferId,
+          completed_by: completedBy
+        });
+        return completedTransfer;
       }
-      
-      // Allocate new bed
-      await githubDB.update(collections.bed_management, transfer.to_bed_id, {
-        status: 'occupied',
-        current_encounter_id: transfer.encounter_id,
-        current_patient_id: transfer.patient_id,
-        occupied_since: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      });
-      
-      // Update transfer status
-      const completedTransfer = await githubDB.update(collections.bed_management, transferId, {
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        completed_by: completedBy,
-        updated_at: new Date().toISOString()
+
+      const completedTransfer = await githubDB.transaction(async (tx) => {
+        const transfer = await tx.findById(collections.bed_management, transferId);
+        if (!transfer) throw new Error('Transfer not found');
+        if (transfer.status === 'completed') throw new Error('Transfer already completed');
+
+        const targetBed = await tx.findById(collections.bed_management, transfer.to_bed_id);
+        if (!targetBed) throw new Error('Target bed not found');
+        if (targetBed.status !== 'available' && targetBed.current_patient_id !== transfer.patient_id) {
+          throw new Error('Target bed is no longer available');
+        }
+        
+        // Release old bed if exists (beds need cleaning before becoming available)
+        if (transfer.from_bed_id) {
+          await tx.update(collections.bed_management, transfer.from_bed_id, {
+            status: 'cleaning',
+            current_encounter_id: null,
+            current_patient_id: null,
+            occupied_since: null,
+            updated_at: new Date().toISOString()
+          });
+        }
+        
+        // Allocate new bed
+        await tx.update(collections.bed_management, transfer.to_bed_id, {
+          status: 'occupied',
+          current_encounter_id: transfer.encounter_id,
+          current_patient_id: transfer.patient_id,
+          occupied_since: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        });
+        
+        // Update transfer status
+        return tx.update<BedTransfer>(collections.bed_management, transferId, {
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          completed_by: completedBy,
+          updated_at: new Date().toISOString()
+        });
       });
       
       await this.logAuditEvent('bed_transfer_completed', transferId, completedBy);
@@ -1,5 +1,6 @@
 // Billing Management Service for Hospital Management System
-import { githubDB, collections } from './database';
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
 import { logger } from './observability';
 import PaymentService from './payments-enhanced';
 
@@ -318,39 +319,51 @@ export class BillingService {
     recorded_by: string;
   }): Promise<Invoice> {
     try {
-      const invoice = await githubDB.findById(collections.invoices, invoiceId);
-      if (!invoice) throw new Error('Invoice not found');
-      
-      const newAmountPaid = invoice.amount_paid + paymentData.amount;
-      const newBalanceDue = invoice.total_amount - newAmountPaid;
-      
-      let newStatus = invoice.status;
-      if (newBalanceDue <= 0) {
-        newStatus = 'paid';
-      } else if (newAmountPaid > 0) {
-        newStatus = 'partially_paid';
+      if (!(paymentData.amount > 0)) throw new Error('Payment amount must be positive');
+
+      if (usesBackend) {
+        // The invoice balance and the payment row are written in one backend transaction.
+        const { recorded_by, ...payment } = paymentData;
+        return await apiClient.recordInvoicePayment<Invoice>(invoiceId, payment);
       }
-      
-      const updatedInvoice = await githubDB.update(collections.invoices, invoiceId, {
-        amount_paid: newAmountPaid,
-        balance_due: newBalanceDue,
-        status: newStatus,
-        updated_at: new Date().toISOString()
-      });
-      
-      // Record payment transaction
-      await githubDB.insert(collections.payments, {
-        invoice_id: invoiceId,
-        patient_id: invoice.patient_id,
-        entity_id: invoice.entity_id,
-        amount: paymentData.amount,
-        payment_method: paymentData.payment_method,
-        payment_reference: paymentData.payment_reference,
-        payment_date: paymentData.payment_date || new Date().toISOString(),
-        status: 'completed',
-        notes: paymentData.notes,
-        recorded_by: paymentData.recorded_by,
-        created_at: new Date().toISOString()
+
+      const updatedInvoice = await githubDB.transaction(async (tx) => {
+        const invoice = await tx.findById(collections.invoices, invoiceId);
+        if (!invoice) throw new Error('Invoice not found');
+        
+        const newAmountPaid = invoice.amount_paid + paymentData.amount;
+        const newBalanceDue = invoice.total_amount - newAmountPaid;
+        
+        let newStatus = invoice.status;
+        if (newBalanceDue <= 0) {
+          newStatus = 'paid';
+        } else if (newAmountPaid > 0) {
+          newStatus = 'partially_paid';
+        }
+        
+        const updated = await tx.update<Invoice>(collections.invoices, invoiceId, {
+          amount_paid: newAmountPaid,
+          balance_due: newBalanceDue,
+          status: newStatus,
+          updated_at: new Date().toISOString()
+        });
+        
+        // Record payment transaction
+        await tx.insert(collections.payments, {
+          invoice_id: invoiceId,
+          patient_id: invoice.patient_id,
+          entity_id: invoice.entity_id,
+          amount: paymentData.amount,
+          payment_method: paymentData.payment_method,
+          payment_reference: paymentData.payment_reference,
+          payment_date: paymentData.payment_date || new Date().toISOString(),
+          status: 'completed',
+          notes: paymentData.notes,
+          recorded_by: paymentData.recorded_by,
+          created_at: new Date().toISOString()
+        });
+        
+        return updated;
       });
       
       await this.logAuditEvent('payment_recorded', invoiceId, paymentData.recorded_by, {
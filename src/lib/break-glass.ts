@@ -0,0 +1,225 @@
+// Break-the-Glass Emergency Access Service for Hospital Management System
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
+import { logger } from './observability';
+import { AccessGrant } from './access-grants';
+
+// Emergency grant: an access grant opened by a clinician without consent
+export interface BreakGlassGrant extends AccessGrant {
+  entity_id?: string | null;
+  break_glass: true;
+  break_glass_reason: string;
+  ended_at?: string;
+}
+
+// Retrospective review queued for every emergency grant
+export interface BreakGlassReview {
+  id: string;
+  grant_id: string;
+  patient_id: string;
+  entity_id: string | null;
+  clinician_id: string;
+  clinician_email: string;
+  reason: string;
+  granted_at: string;
+  expires_at: string;
+  due_at: string;
+  status: 'pending' | 'completed';
+  outcome?: 'appropriate' | 'inappropriate';
+  reviewer_id?: string;
+  review_notes?: string;
+  reviewed_at?: string;
+}
+
+export const BREAK_GLASS_DURATIONS = [30, 60, 120, 240];
+export const BREAK_GLASS_MIN_REASON = 15;
+
+export class BreakGlassService {
+
+  // Open time-boxed emergency access to a patient outside the clinician's care scope
+  static async requestAccess(request: {
+    patient_id?: string;
+    patient_code?: string;
+    reason: string;
+    duration_minutes: number;
+    entity_id?: string;
+  }, clinician: { id: string; email: string }): Promise<BreakGlassGrant> {
+    try {
+      if (request.reason.trim().length < BREAK_GLASS_MIN_REASON) {
+        throw new Error(`Please describe the emergency (at least ${BREAK_GLASS_MIN_REASON} characters)`);
+      }
+
+      if (usesBackend) {
+        return await apiClient.requestBreakGlass(request);
+      }
+
+      const patient = request.patient_id
+        ? await githubDB.findById(collections.patients, request.patient_id)
+        : (await githubDB.find(collections.patients, { patient_code: request.patient_code }))[0];
+      if (!patient) throw new Error('Patient not found');
+
+      const existing = await this.getActiveGrant(patient.id, clinician.id);
+      if (existing) return existing;
+
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + request.duration_minutes * 60000).toISOString();
+      const grant = await githubDB.insert(collections.access_grants, {
+        patient_id: patient.id,
+        entity_id: request.entity_id || null,
+        grantee_type: 'healthcare_provider',
+        grantee_id: clinician.id,
+        grantee_name: clinician.email,
+        encrypted_grantee_contact: '',
+        access_level: 'emergency_only',
+        scope: ['all'],
+        can_view_records: true,
+        can_schedule_appointments: false,
+        can_receive_notifications: false,
+        can_communicate_with_providers: false,
+        granted_at: now.toISOString(),
+        expires_at: expiresAt,
+        pin_required: false,
+        status: 'active',
+        emergency_only: true,
+        require_patient_approval: false,
+        break_glass: true,
+        break_glass_reason: request.reason.trim(),
+        granted_by: clinician.id,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      });
+
+      await githubDB.insert(collections.break_glass_reviews, {
+        grant_id: grant.id,
+        patient_id: patient.id,
+        entity_id: request.entity_id || null,
+        clinician_id: clinician.id,
+        clinician_email: clinician.email,
+        reason: request.reason.trim(),
+        granted_at: now.toISOString(),
+        expires_at: expiresAt,
+        due_at: new Date(new Date(expiresAt).getTime() + 72 * 3600000).toISOString(),
+        status: 'pending'
+      });
+
+      if (patient.user_id) {
+        await githubDB.insert(collections.notifications, {
+          user_id: patient.user_id,
+          type: 'break_glass_access',
+          title: 'Emergency access to your health record',
+          message: `A clinician (${clinician.email}) used emergency access to open your record until ${new Date(expiresAt).toLocaleString()}.`,
+          data: { grant_id: grant.id, patient_id: patient.id },
+          is_read: false
+        });
+      }
+
+      await githubDB.insert(collections.audit_logs, {
+        action: 'break_glass_access_granted',
+        resource_type: 'patient',
+        resource_id: patient.id,
+        user_id: clinician.id,
+        metadata: { access_grant_id: grant.id, reason: request.reason.trim(), expires_at: expiresAt },
+        timestamp: now.toISOString(),
+        ip_address: 'unknown',
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown'
+      });
+
+      logger.warn('break_glass_access_granted', 'Emergency access granted', {
+        grant_id: grant.id,
+        patient_id: patient.id,
+        clinician_id: clinician.id
+      });
+
+      return grant as BreakGlassGrant;
+    } catch (error) {
+      logger.error('break_glass_request_failed', 'Failed to grant emergency access', { error: error.message });
+      throw error;
+    }
+  }
+
+  // Active (unexpired) emergency grant the user holds for the patient, if any
+  static async getActiveGrant(patientId: string, userId: string): Promise<BreakGlassGrant | null> {
+    if (!patientId || !userId) return null;
+    try {
+      const grants = await githubDB.find(collections.access_grants, {
+        patient_id: patientId,
+        grantee_id: userId,
+        break_glass: true,
+        status: 'active'
+      });
+      const now = new Date().toISOString();
+      return (grants.find(grant => grant.expires_at && grant.expires_at > now) as BreakGlassGrant) || null;
+    } catch (error) {
+      logger.error('get_break_glass_grant_failed', 'Failed to check emergency access', {
+        patient_id: patientId,
+        error: error.message
+      });
+      return null;
+    }
+  }
+
+  // End emergency access before it expires
+  static async endAccess(grantId: string): Promise<void> {
+    try {
+      if (usesBackend) {
+        await apiClient.endBreakGlass(grantId);
+        return;
+      }
+      await githubDB.update(collections.access_grants, grantId, {
+        status: 'expired',
+        ended_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('break_glass_end_failed', 'Failed to end emergency access', { grant_id: grantId, error: error.message });
+      throw error;
+    }
+  }
+
+  // Reviews waiting for the privacy officer, oldest due first
+  static async getPendingReviews(entityId?: string): Promise<BreakGlassReview[]> {
+    try {
+      const reviews: BreakGlassReview[] = usesBackend
+        ? await apiClient.getBreakGlassReviews('pending')
+        : await githubDB.find(collections.break_glass_reviews, entityId ? { entity_id: entityId, status: 'pending' } : { status: 'pending' });
+      return reviews.sort((a, b) => a.due_at.localeCompare(b.due_at));
+    } catch (error) {
+      logger.error('get_break_glass_reviews_failed', 'Failed to get emergency access reviews', { error: error.message });
+      return [];
+    }
+  }
+
+  // Record the retrospective review; an inappropriate outcome revokes a still-running grant
+  static async completeReview(review: BreakGlassReview, outcome: 'appropriate' | 'inappropriate', notes: string, reviewerId: string): Promise<BreakGlassReview> {
+    try {
+      if (usesBackend) {
+        return await apiClient.completeBreakGlassReview(review.id, outcome, notes);
+      }
+      if (outcome === 'inappropriate') {
+        const grant = await githubDB.findById(collections.access_grants, review.grant_id);
+        if (grant?.status === 'active') {
+          await githubDB.update(collections.access_grants, grant.id, {
+            status: 'revoked',
+            revoked_by: reviewerId,
+            revoked_at: new Date().toISOString(),
+            revoke_reason: 'Break-the-glass review found the access inappropriate',
+            updated_at: new Date().toISOString()
+          });
+        }
+      }
+      return await githubDB.update<BreakGlassReview>(collections.break_glass_reviews, review.id, {
+        status: 'completed',
+        outcome,
+        review_notes: notes,
+        reviewer_id: reviewerId,
+        reviewed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('break_glass_review_failed', 'Failed to complete emergency access review', {
+        review_id: review.id,
+        error: error.message
+      });
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 // Care Plan Management Service for Hospital Management System
 import { githubDB, collections } from './database';
 import { logger } from './observability';
+import { versionOf } from './version-conflict';
 
 // Care Plan Interface
 export interface CarePlan {
@@ -77,6 +78,7 @@ export interface CarePlan {
   created_by: string;
   created_at: string;
   updated_at: string;
+  version?: number;
 }
 
 export class CarePlanService {
@@ -132,12 +134,15 @@ export class CarePlanService {
         updated_at: new Date().toISOString()
       };
       
+      // Appending to notes is a read-modify-write, so it must not race another edit.
+      let expectedVersion: number | undefined;
       if (notes) {
         const existingPlan = await githubDB.findById(collections.care_plans, planId);
         updates.notes = existingPlan?.notes ? `${existingPlan.notes}\n---\n${notes}` : notes;
+        expectedVersion = existingPlan ? versionOf(existingPlan) : undefined;
       }
       
-      const plan = await githubDB.update(collections.care_plans, planId, updates);
+      const plan = await githubDB.update(collections.care_plans, planId, updates, { expectedVersion });
       
       await this.logAuditEvent('care_plan_status_updated', planId, updatedBy, {
         new_status: status,
@@ -175,7 +180,7 @@ export class CarePlanService {
       const updatedPlan = await githubDB.update(collections.care_plans, planId, {
         goals: updatedGoals,
         updated_at: new Date().toISOString()
-      });
+      }, { expectedVersion: versionOf(plan) });
       
       await this.logAuditEvent('care_plan_goal_updated', planId, updatedBy || 'system', {
         goal_id: goalId,
@@ -214,7 +219,7 @@ export class CarePlanService {
       const updatedPlan = await githubDB.update(collections.care_plans, planId, {
         activities: updatedActivities,
         updated_at: new Date().toISOString()
-      });
+      }, { expectedVersion: versionOf(plan) });
       
       await this.logAuditEvent('care_plan_activity_updated', planId, updatedBy || 'system', {
         activity_id: activityId,
@@ -346,7 +351,7 @@ export class CarePlanService {
       const updatedPlan = await githubDB.update(collections.care_plans, planId, {
         goals: updatedGoals,
         updated_at: new Date().toISOString()
-      });
+      }, { expectedVersion: versionOf(plan) });
       
       await this.logAuditEvent('care_plan_goal_added', planId, addedBy, {
         goal_id: newGoal.id,
@@ -379,7 +384,7 @@ export class CarePlanService {
       const updatedPlan = await githubDB.update(collections.care_plans, planId, {
         activities: updatedActivities,
         updated_at: new Date().toISOString()
-      });
+      }, { expectedVersion: versionOf(plan) });
       
       await this.logAuditEvent('care_plan_activity_added', planId, addedBy, {
         activity_id: newActivity.id,
@@ -1,6 +1,7 @@
 // Consent Management Service for Hospital Management System
 import { githubDB, collections } from './database';
 import { logger } from './observability';
+import { BreakGlassService, BreakGlassGrant } from './break-glass';
 
 // Consent Interface
 export interface Consent {
@@ -229,9 +230,11 @@ export class ConsentService {
   }
   
   // Check if patient has valid consent
-  static async hasValidConsent(patientId: string, entityId: string, consentType: Consent['consent_type'], scope?: string): Promise<{
+  // Pass requestingUserId to let an active break-the-glass grant stand in for missing consent
+  static async hasValidConsent(patientId: string, entityId: string, consentType: Consent['consent_type'], scope?: string, requestingUserId?: string): Promise<{
     hasConsent: boolean;
     consent?: Consent;
+    emergencyGrant?: BreakGlassGrant;
     reason?: string;
   }> {
     try {
@@ -248,13 +251,6 @@ export class ConsentService {
       
       const consents = await githubDB.find(collections.consents, filters);
       
-      if (consents.length === 0) {
-        return {
-          hasConsent: false,
-          reason: 'No consent found'
-        };
-      }
-      
       // Check if any consent is still valid (not expired)
       const now = new Date();
       const validConsent = consents.find(consent => {
@@ -263,9 +259,21 @@ export class ConsentService {
       });
       
       if (!validConsent) {
+        // Emergency override: break-the-glass access stands in for consent until it expires
+        const emergencyGrant = requestingUserId
+          ? await BreakGlassService.getActiveGrant(patientId, requestingUserId)
+          : null;
+        if (emergencyGrant) {
+          return {
+            hasConsent: true,
+            emergencyGrant,
+            reason: 'Emergency access (break-the-glass)'
+          };
+        }
+        
         return {
           hasConsent: false,
-          reason: 'Consent expired'
+          reason: consents.length === 0 ? 'No consent found' : 'Consent expired'
         };
       }
       
@@ -0,0 +1,230 @@
+// Staff Credentials for the Hospital Management System
+// Practising licences, board certifications and malpractice insurance held by
+// individual clinicians. A clinician submits a credential with its documents
+// to an entity they work at, and an admin of that entity verifies or rejects
+// it. Once a verified licence or insurance policy lapses the holder cannot
+// sign prescriptions (enforced by the backend in backend mode).
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
+
+export type CredentialType = 'license' | 'board_certification' | 'malpractice_insurance' | 'other';
+export type CredentialStatus = 'pending' | 'verified' | 'rejected' | 'expired';
+
+export const CREDENTIAL_TYPES: Array<{ value: CredentialType; label: string }> = [
+  { value: 'license', label: 'Practising Licence' },
+  { value: 'board_certification', label: 'Board Certification' },
+  { value: 'malpractice_insurance', label: 'Malpractice Insurance' },
+  { value: 'other', label: 'Other' }
+];
+
+// Credentials whose lapse blocks prescribing; these need an expiry date
+export const PRESCRIBING_CREDENTIALS: CredentialType[] = ['license', 'malpractice_insurance'];
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_DOCUMENTS = 5;
+
+export interface StaffCredential {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  credential_type: CredentialType;
+  issuing_body: string;
+  number: string;
+  issued_at: string | null;
+  expires_at: string | null;
+  status: CredentialStatus;
+  document_count: number;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Review queue only
+  holder_email?: string | null;
+  holder_name?: string | null;
+}
+
+export interface CredentialDocument {
+  id: string;
+  credential_id: string;
+  file_name: string;
+  content_type: string;
+  file_size: number;
+  base64_content: string;
+  uploaded_at: string;
+}
+
+export class CredentialService {
+  // Submit a credential with its scanned documents for review
+  static async submitCredential(
+    credential: {
+      entity_id: string;
+      credential_type: CredentialType;
+      issuing_body: string;
+      number: string;
+      issued_at?: string;
+      expires_at?: string;
+    },
+    files: File[],
+    userId: string
+  ): Promise<StaffCredential> {
+    if (files.length > MAX_DOCUMENTS) throw new Error(`At most ${MAX_DOCUMENTS} documents per credential`);
+    for (const file of files) {
+      if (file.size > MAX_FILE_SIZE) throw new Error(`${file.name} is larger than 5MB`);
+    }
+    if (PRESCRIBING_CREDENTIALS.includes(credential.credential_type) && !credential.expires_at) {
+      throw new Error('An expiry date is required for this credential');
+    }
+
+    const documents = [];
+    for (const file of files) {
+      documents.push({
+        file_name: file.name,
+        content_type: file.type || 'application/octet-stream',
+        base64_content: await this.fileToBase64(file)
+      });
+    }
+
+    if (usesBackend) return apiClient.submitCredential({ ...credential, documents });
+
+    const now = new Date().toISOString();
+    const created = await githubDB.insert(collections.staff_credentials, {
+      ...credential,
+      user_id: userId,
+      issued_at: credential.issued_at ? new Date(credential.issued_at).toISOString() : null,
+      expires_at: credential.expires_at ? new Date(credential.expires_at).toISOString() : null,
+      status: 'pending',
+      document_count: documents.length,
+      reminders: {},
+      created_at: now,
+      updated_at: now
+    });
+    for (const doc of documents) {
+      await githubDB.insert(collections.credential_documents, {
+        ...doc,
+        credential_id: created.id,
+        user_id: userId,
+        file_size: Math.floor((doc.base64_content.length * 3) / 4),
+        uploaded_at: now
+      });
+    }
+    return created as StaffCredential;
+  }
+
+  // The user's own credentials, newest first
+  static async getMyCredentials(userId: string): Promise<StaffCredential[]> {
+    if (usesBackend) return apiClient.getMyCredentials();
+    const rows = await githubDB.find(collections.staff_credentials, { user_id: userId });
+    return rows.sort((a: any, b: any) => b.created_at.localeCompare(a.created_at));
+  }
+
+  // Credentials submitted to an entity, with each holder's name and email
+  static async getReviewQueue(entityId: string, status?: CredentialStatus): Promise<StaffCredential[]> {
+    if (usesBackend) return apiClient.getCredentials(entityId, status);
+    const rows = await githubDB.find(collections.staff_credentials, status ? { entity_id: entityId, status } : { entity_id: entityId });
+    const queue: StaffCredential[] = [];
+    for (const row of rows.sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))) {
+      const user = await githubDB.findById(collections.users, row.user_id);
+      const [profile] = await githubDB.find(collections.profiles, { user_id: row.user_id });
+      queue.push({
+        ...row,
+        holder_email: user?.email || null,
+        holder_name: `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || null
+      });
+    }
+    return queue;
+  }
+
+  static async getDocuments(credentialId: string): Promise<CredentialDocument[]> {
+    if (usesBackend) return apiClient.getCredentialDocuments(credentialId);
+    return githubDB.find(collections.credential_documents, { credential_id: credentialId });
+  }
+
+  // Verify or reject a pending credential; a rejection needs a reason
+  static async reviewCredential(
+    credential: StaffCredential,
+    status: 'verified' | 'rejected',
+    reviewer: { id: string; email: string },
+    notes?: string
+  ): Promise<StaffCredential> {
+    if (usesBackend) return apiClient.reviewCredential(credential.id, status, notes);
+
+    if (credential.user_id === reviewer.id) throw new Error('You cannot review your own credential');
+    if (status === 'rejected' && !notes?.trim()) throw new Error('Give a reason when rejecting a credential');
+    if (status === 'verified' && credential.expires_at && new Date(credential.expires_at) <= new Date()) {
+      throw new Error('This credential has already expired');
+    }
+    const now = new Date().toISOString();
+    const updated = await githubDB.update(collections.staff_credentials, credential.id, {
+      status,
+      reviewed_by: reviewer.id,
+      reviewed_at: now,
+      review_notes: notes?.trim() || null,
+      updated_at: now
+    });
+    await githubDB.insert(collections.audit_logs, {
+      action: `credential_${status}`,
+      entity_type: 'entity',
+      entity_id: credential.entity_id,
+      user_email: reviewer.email,
+      details: `${credential.credential_type} ${credential.number} (${credential.issuing_body}) for user ${credential.user_id}`,
+      created_at: now
+    });
+    return { ...credential, ...updated };
+  }
+
+  // The lapsed licence or insurance stopping this user prescribing, if any.
+  // Per type, the latest-expiring verified (or expired) credential is current.
+  static async findLapsedCredential(userId: string): Promise<StaffCredential | null> {
+    const rows: StaffCredential[] = await githubDB.find(collections.staff_credentials, { user_id: userId });
+    const now = new Date().toISOString();
+    for (const type of PRESCRIBING_CREDENTIALS) {
+      const held = rows
+        .filter(r => r.credential_type === type && (r.status === 'verified' || r.status === 'expired') && r.expires_at)
+        .sort((a, b) => b.expires_at!.localeCompare(a.expires_at!));
+      if (held[0] && held[0].expires_at! <= now) return held[0];
+    }
+    return null;
+  }
+
+  // Throws when the prescriber's licence or insurance has lapsed. The backend
+  // enforces this on every medication request insert in backend mode.
+  static async assertCanPrescribe(prescriberId: string): Promise<void> {
+    if (usesBackend) return;
+    const lapsed = await this.findLapsedCredential(prescriberId);
+    if (lapsed) {
+      const label = lapsed.credential_type.replace(/_/g, ' ');
+      throw new Error(
+        `Your ${label} (${lapsed.number}) expired on ${lapsed.expires_at!.slice(0, 10)}. Prescribing is blocked until a current ${label} is verified.`
+      );
+    }
+  }
+
+  static downloadDocument(doc: CredentialDocument): void {
+    const byteChars = atob(doc.base64_content);
+    const byteArray = new Uint8Array(byteChars.length);
+    for (let i = 0; i < byteChars.length; i++) {
+      byteArray[i] = byteChars.charCodeAt(i);
+    }
+    const url = URL.createObjectURL(new Blob([byteArray], { type: doc.content_type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = doc.file_name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  // Raw base64 without the data: URL prefix, as the backend expects
+  private static fileToBase64(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+  }
+}
+
+export default CredentialService;
@@ -1,5 +1,5 @@
 // Updated Database Configuration using Real GitHub DB SDK
-import { githubDB } from './github-db-sdk';
+import { githubDB, usesBackend } from './github-db-sdk';
 
 // Database Collections Schema
 export const collections = {
@@ -14,6 +14,9 @@ export const collections = {
   entity_verification: 'entity_verification',
   entity_locations: 'entity_locations',
   entity_staff: 'entity_staff',
+  staff_invitations: 'staff_invitations',
+  staff_credentials: 'staff_credentials',
+  credential_documents: 'credential_documents',
   entity_services: 'entity_services',
   entity_specialties: 'entity_specialties',
   coaching_programs: 'coaching_programs',
@@ -116,10 +119,13 @@ export const collections = {
   patient_entity_links: 'patient_entity_links',
   encounters: 'encounters',
   vitals: 'vitals',
+  early_warning_scores: 'early_warning_scores',
   conditions: 'conditions',
   allergies: 'allergies',
+  medications: 'medications',
   medication_requests: 'medication_requests',
   medication_dispenses: 'medication_dispenses',
+  medication_administrations: 'medication_administrations',
   lab_orders: 'lab_orders',
   lab_results: 'lab_results',
   imaging_orders: 'imaging_orders',
@@ -131,10 +137,18 @@ export const collections = {
   triage_notes: 'triage_notes',
   pharmacy_inventory: 'pharmacy_inventory',
   pharmacy_orders: 'pharmacy_orders',
+  drug_dictionaries: 'drug_dictionaries',
   insurance_claims: 'insurance_claims',
   billing_items: 'billing_items',
+  invoices: 'invoices',
   consents: 'consents',
   access_grants: 'access_grants',
+  access_logs: 'access_logs',
+  access_incidents: 'access_incidents',
+  break_glass_reviews: 'break_glass_reviews',
+  patient_duplicate_flags: 'patient_duplicate_flags',
+  patient_merges: 'patient_merges',
+  sso_connections: 'sso_connections',
   
   // AI Chatbot
   ai_chatbot_support: 'ai_chatbot_support',
@@ -194,5 +208,5 @@ export const initializeDatabase = async () => {
   }
 };
 
-export { githubDB };
+export { githubDB, usesBackend };
 export const dbHelpers = githubDB; // Alias for backward compatibility
\ No newline at end of file
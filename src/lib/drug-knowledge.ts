@@ -0,0 +1,344 @@
+// Drug Knowledge Base for the medication-safety checks
+// A drug dictionary lists each drug's generic and brand names, its active
+// ingredients and its drug classes, plus ingredient- or class-level
+// interaction rules and the classes that cross-react in allergic patients.
+// The dictionary comes from a provider: by default the latest one a platform
+// admin imported (drug_dictionaries), falling back to the small built-in set.
+// Deployments with a commercial knowledge base can plug in their own provider.
+import { githubDB, collections } from './database';
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major' | 'contraindicated';
+
+export const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  minor: 1,
+  moderate: 2,
+  major: 3,
+  contraindicated: 4
+};
+
+export interface DrugEntry {
+  id: string;
+  generic_name: string;
+  brand_names: string[];
+  ingredients: string[];
+  classes: string[];
+}
+
+export interface DrugClass {
+  id: string;
+  name: string;
+  // Other names an allergy may be recorded under (e.g. "sulfa")
+  aliases?: string[];
+  // An allergy to one member is treated as an allergy to the whole class
+  cross_reactive?: boolean;
+  // Two drugs of this class at once count as duplicate therapy
+  duplicate_therapy?: boolean;
+}
+
+// `between` holds ingredient names or `class:<id>` references
+export interface InteractionRule {
+  between: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+  management?: string;
+}
+
+export interface CrossSensitivityRule {
+  classes: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export interface DrugDictionary {
+  name: string;
+  version: string;
+  classes: DrugClass[];
+  drugs: DrugEntry[];
+  interactions: InteractionRule[];
+  cross_sensitivities: CrossSensitivityRule[];
+}
+
+export interface DrugKnowledgeProvider {
+  name: string;
+  loadDictionary(): Promise<DrugDictionary>;
+}
+
+// A name resolved against the dictionary. Unknown names resolve to
+// themselves as a single ingredient so exact matches still work.
+export interface ResolvedDrug {
+  name: string;
+  entry: DrugEntry | null;
+  ingredients: string[];
+  classes: string[];
+}
+
+export interface DrugIndex {
+  dictionary: DrugDictionary;
+  resolve(name: string): ResolvedDrug;
+  // Classes an allergen names directly ("penicillins", "sulfa")
+  classesNamed(name: string): string[];
+  className(id: string): string;
+  isCrossReactiveClass(id: string): boolean;
+  isDuplicateTherapyClass(id: string): boolean;
+}
+
+const normalise = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Starter dictionary covering common primary-care and inpatient drugs
+export const BUILT_IN_DICTIONARY: DrugDictionary = {
+  name: 'CareConnect starter dictionary',
+  version: '1.0.0',
+  classes: [
+    { id: 'penicillins', name: 'Penicillins', aliases: ['penicillin'], cross_reactive: true },
+    { id: 'cephalosporins', name: 'Cephalosporins', aliases: ['cephalosporin'], cross_reactive: true },
+    { id: 'carbapenems', name: 'Carbapenems', aliases: ['carbapenem'], cross_reactive: true },
+    { id: 'sulfonamide_antibiotics', name: 'Sulfonamide antibiotics', aliases: ['sulfa', 'sulfonamide', 'sulfonamides', 'sulphonamides'], cross_reactive: true },
+    { id: 'macrolides', name: 'Macrolides', aliases: ['macrolide'], cross_reactive: true },
+    { id: 'fluoroquinolones', name: 'Fluoroquinolones', aliases: ['quinolones'], cross_reactive: true },
+    { id: 'nsaids', name: 'NSAIDs', aliases: ['nsaid', 'non-steroidal anti-inflammatory'], duplicate_therapy: true, cross_reactive: true },
+    { id: 'anticoagulants', name: 'Anticoagulants', duplicate_therapy: true },
+    { id: 'antiplatelets', name: 'Antiplatelets' },
+    { id: 'ace_inhibitors', name: 'ACE inhibitors', aliases: ['ace inhibitor'], duplicate_therapy: true },
+    { id: 'arbs', name: 'Angiotensin receptor blockers', aliases: ['arb'], duplicate_therapy: true },
+    { id: 'statins', name: 'Statins', aliases: ['statin'], duplicate_therapy: true },
+    { id: 'ssris', name: 'SSRIs', aliases: ['ssri'], duplicate_therapy: true },
+    { id: 'opioids', name: 'Opioids', aliases: ['opiates', 'opioid'], duplicate_therapy: true, cross_reactive: true },
+    { id: 'benzodiazepines', name: 'Benzodiazepines', aliases: ['benzodiazepine'], duplicate_therapy: true },
+    { id: 'proton_pump_inhibitors', name: 'Proton pump inhibitors', aliases: ['ppi'], duplicate_therapy: true },
+    { id: 'loop_diuretics', name: 'Loop diuretics' },
+    { id: 'potassium_sparing_diuretics', name: 'Potassium-sparing diuretics' },
+    { id: 'cardiac_glycosides', name: 'Cardiac glycosides' },
+    { id: 'biguanides', name: 'Biguanides' },
+    { id: 'sulfonylureas', name: 'Sulfonylureas', duplicate_therapy: true },
+    { id: 'antimalarials', name: 'Antimalarials' },
+    { id: 'iodinated_contrast', name: 'Iodinated contrast media', aliases: ['contrast dye', 'contrast', 'iodine'], cross_reactive: true }
+  ],
+  drugs: [
+    { id: 'amoxicillin', generic_name: 'Amoxicillin', brand_names: ['Amoxil'], ingredients: ['amoxicillin'], classes: ['penicillins'] },
+    { id: 'co-amoxiclav', generic_name: 'Amoxicillin/Clavulanate', brand_names: ['Augmentin', 'Co-amoxiclav'], ingredients: ['amoxicillin', 'clavulanic acid'], classes: ['penicillins'] },
+    { id: 'ampicillin', generic_name: 'Ampicillin', brand_names: [], ingredients: ['ampicillin'], classes: ['penicillins'] },
+    { id: 'benzylpenicillin', generic_name: 'Benzylpenicillin', brand_names: ['Penicillin G'], ingredients: ['benzylpenicillin'], classes: ['penicillins'] },
+    { id: 'cefalexin', generic_name: 'Cefalexin', brand_names: ['Keflex', 'Cephalexin'], ingredients: ['cefalexin'], classes: ['cephalosporins'] },
+    { id: 'ceftriaxone', generic_name: 'Ceftriaxone', brand_names: ['Rocephin'], ingredients: ['ceftriaxone'], classes: ['cephalosporins'] },
+    { id: 'meropenem', generic_name: 'Meropenem', brand_names: ['Merrem'], ingredients: ['meropenem'], classes: ['carbapenems'] },
+    { id: 'co-trimoxazole', generic_name: 'Sulfamethoxazole/Trimethoprim', brand_names: ['Bactrim', 'Septrin', 'Co-trimoxazole'], ingredients: ['sulfamethoxazole', 'trimethoprim'], classes: ['sulfonamide_antibiotics'] },
+    { id: 'azithromycin', generic_name: 'Azithromycin', brand_names: ['Zithromax'], ingredients: ['azithromycin'], classes: ['macrolides'] },
+    { id: 'clarithromycin', generic_name: 'Clarithromycin', brand_names: ['Klacid', 'Biaxin'], ingredients: ['clarithromycin'], classes: ['macrolides'] },
+    { id: 'ciprofloxacin', generic_name: 'Ciprofloxacin', brand_names: ['Cipro', 'Ciproxin'], ingredients: ['ciprofloxacin'], classes: ['fluoroquinolones'] },
+    { id: 'ibuprofen', generic_name: 'Ibuprofen', brand_names: ['Advil', 'Nurofen', 'Brufen'], ingredients: ['ibuprofen'], classes: ['nsaids'] },
+    { id: 'diclofenac', generic_name: 'Diclofenac', brand_names: ['Voltaren', 'Cataflam'], ingredients: ['diclofenac'], classes: ['nsaids'] },
+    { id: 'naproxen', generic_name: 'Naproxen', brand_names: ['Naprosyn', 'Aleve'], ingredients: ['naproxen'], classes: ['nsaids'] },
+    { id: 'aspirin', generic_name: 'Aspirin', brand_names: ['Disprin', 'Ecotrin'], ingredients: ['acetylsalicylic acid'], classes: ['antiplatelets', 'nsaids'] },
+    { id: 'clopidogrel', generic_name: 'Clopidogrel', brand_names: ['Plavix'], ingredients: ['clopidogrel'], classes: ['antiplatelets'] },
+    { id: 'paracetamol', generic_name: 'Paracetamol', brand_names: ['Panadol', 'Tylenol', 'Acetaminophen'], ingredients: ['paracetamol'], classes: [] },
+    { id: 'warfarin', generic_name: 'Warfarin', brand_names: ['Coumadin'], ingredients: ['warfarin'], classes: ['anticoagulants'] },
+    { id: 'rivaroxaban', generic_name: 'Rivaroxaban', brand_names: ['Xarelto'], ingredients: ['rivaroxaban'], classes: ['anticoagulants'] },
+    { id: 'enoxaparin', generic_name: 'Enoxaparin', brand_names: ['Clexane', 'Lovenox'], ingredients: ['enoxaparin'], classes: ['anticoagulants'] },
+    { id: 'lisinopril', generic_name: 'Lisinopril', brand_names: ['Zestril', 'Prinivil'], ingredients: ['lisinopril'], classes: ['ace_inhibitors'] },
+    { id: 'enalapril', generic_name: 'Enalapril', brand_names: ['Vasotec'], ingredients: ['enalapril'], classes: ['ace_inhibitors'] },
+    { id: 'losartan', generic_name: 'Losartan', brand_names: ['Cozaar'], ingredients: ['losartan'], classes: ['arbs'] },
+    { id: 'atorvastatin', generic_name: 'Atorvastatin', brand_names: ['Lipitor'], ingredients: ['atorvastatin'], classes: ['statins'] },
+    { id: 'simvastatin', generic_name: 'Simvastatin', brand_names: ['Zocor'], ingredients: ['simvastatin'], classes: ['statins'] },
+    { id: 'sertraline', generic_name: 'Sertraline', brand_names: ['Zoloft', 'Lustral'], ingredients: ['sertraline'], classes: ['ssris'] },
+    { id: 'fluoxetine', generic_name: 'Fluoxetine', brand_names: ['Prozac'], ingredients: ['fluoxetine'], classes: ['ssris'] },
+    { id: 'tramadol', generic_name: 'Tramadol', brand_names: ['Ultram'], ingredients: ['tramadol'], classes: ['opioids'] },
+    { id: 'morphine', generic_name: 'Morphine', brand_names: ['MST', 'Oramorph'], ingredients: ['morphine'], classes: ['opioids'] },
+    { id: 'codeine', generic_name: 'Codeine', brand_names: [], ingredients: ['codeine'], classes: ['opioids'] },
+    { id: 'diazepam', generic_name: 'Diazepam', brand_names: ['Valium'], ingredients: ['diazepam'], classes: ['benzodiazepines'] },
+    { id: 'omeprazole', generic_name: 'Omeprazole', brand_names: ['Losec', 'Prilosec'], ingredients: ['omeprazole'], classes: ['proton_pump_inhibitors'] },
+    { id: 'furosemide', generic_name: 'Furosemide', brand_names: ['Lasix'], ingredients: ['furosemide'], classes: ['loop_diuretics'] },
+    { id: 'spironolactone', generic_name: 'Spironolactone', brand_names: ['Aldactone'], ingredients: ['spironolactone'], classes: ['potassium_sparing_diuretics'] },
+    { id: 'digoxin', generic_name: 'Digoxin', brand_names: ['Lanoxin'], ingredients: ['digoxin'], classes: ['cardiac_glycosides'] },
+    { id: 'metformin', generic_name: 'Metformin', brand_names: ['Glucophage'], ingredients: ['metformin'], classes: ['biguanides'] },
+    { id: 'glibenclamide', generic_name: 'Glibenclamide', brand_names: ['Daonil', 'Glyburide'], ingredients: ['glibenclamide'], classes: ['sulfonylureas'] },
+    { id: 'artemether-lumefantrine', generic_name: 'Artemether/Lumefantrine', brand_names: ['Coartem'], ingredients: ['artemether', 'lumefantrine'], classes: ['antimalarials'] },
+    { id: 'contrast-dye', generic_name: 'Iodinated contrast', brand_names: ['Contrast dye', 'Omnipaque'], ingredients: ['iohexol'], classes: ['iodinated_contrast'] }
+  ],
+  interactions: [
+    { between: ['warfarin', 'class:nsaids'], severity: 'major', description: 'Increased risk of bleeding', management: 'Avoid the combination or monitor INR closely and add gastroprotection' },
+    { between: ['warfarin', 'class:antiplatelets'], severity: 'major', description: 'Increased risk of bleeding', management: 'Monitor INR closely, consider alternative antiplatelet' },
+    { between: ['warfarin', 'clarithromycin'], severity: 'major', description: 'Clarithromycin raises warfarin levels', management: 'Reduce the warfarin dose and check INR within 3-5 days' },
+    { between: ['warfarin', 'sulfamethoxazole'], severity: 'major', description: 'Sulfamethoxazole markedly potentiates warfarin', management: 'Choose another antibiotic or monitor INR closely' },
+    { between: ['class:anticoagulants', 'class:anticoagulants'], severity: 'contraindicated', description: 'Two anticoagulants together carry a high bleeding risk', management: 'Stop one anticoagulant; overlap only during a planned switch' },
+    { between: ['metformin', 'class:iodinated_contrast'], severity: 'major', description: 'Risk of lactic acidosis', management: 'Discontinue metformin before contrast procedures' },
+    { between: ['digoxin', 'class:loop_diuretics'], severity: 'moderate', description: 'Increased digoxin toxicity risk due to hypokalemia', management: 'Monitor potassium and digoxin levels' },
+    { between: ['digoxin', 'clarithromycin'], severity: 'major', description: 'Clarithromycin raises digoxin levels', management: 'Monitor digoxin levels or use another antibiotic' },
+    { between: ['class:ace_inhibitors', 'class:potassium_sparing_diuretics'], severity: 'major', description: 'Risk of hyperkalemia', management: 'Monitor potassium and renal function' },
+    { between: ['class:ace_inhibitors', 'class:arbs'], severity: 'major', description: 'Dual RAAS blockade raises the risk of hyperkalemia and renal failure', management: 'Avoid the combination' },
+    { between: ['simvastatin', 'clarithromycin'], severity: 'contraindicated', description: 'Clarithromycin raises simvastatin levels, risking rhabdomyolysis', management: 'Suspend simvastatin during the course' },
+    { between: ['class:ssris', 'tramadol'], severity: 'major', description: 'Risk of serotonin syndrome and seizures', management: 'Use another analgesic or monitor closely' },
+    { between: ['class:opioids', 'class:benzodiazepines'], severity: 'major', description: 'Additive respiratory depression', management: 'Use the lowest doses and monitor breathing and sedation' },
+    { between: ['clopidogrel', 'omeprazole'], severity: 'moderate', description: 'Omeprazole reduces the antiplatelet effect of clopidogrel', management: 'Use pantoprazole instead' },
+    { between: ['ciprofloxacin', 'class:nsaids'], severity: 'moderate', description: 'Increased risk of seizures', management: 'Monitor, especially in patients with epilepsy' }
+  ],
+  cross_sensitivities: [
+    { classes: ['penicillins', 'cephalosporins'], severity: 'major', description: 'Cephalosporins can cross-react in penicillin-allergic patients' },
+    { classes: ['penicillins', 'carbapenems'], severity: 'moderate', description: 'Carbapenems carry a small cross-reactivity risk in penicillin-allergic patients' },
+    { classes: ['sulfonamide_antibiotics', 'sulfonylureas'], severity: 'minor', description: 'Possible cross-reactivity between sulfonamide antibiotics and sulfonylureas' }
+  ]
+};
+
+// The built-in dictionary only
+export const builtInProvider: DrugKnowledgeProvider = {
+  name: 'built-in',
+  loadDictionary: async () => BUILT_IN_DICTIONARY
+};
+
+// The active imported dictionary, else the built-in one
+export const importedDictionaryProvider: DrugKnowledgeProvider = {
+  name: 'imported',
+  loadDictionary: async () => {
+    const rows = await githubDB.find(collections.drug_dictionaries, { status: 'active' });
+    const latest = rows.sort((a: any, b: any) => b.imported_at.localeCompare(a.imported_at))[0];
+    return latest ? DrugKnowledgeBase.validateDictionary(latest.dictionary) : BUILT_IN_DICTIONARY;
+  }
+};
+
+function buildIndex(dictionary: DrugDictionary): DrugIndex {
+  const byName = new Map<string, DrugEntry>();
+  const byIngredient = new Map<string, DrugEntry>();
+  const classAliases = new Map<string, string>();
+  const classes = new Map(dictionary.classes.map(c => [c.id, c]));
+
+  for (const drug of dictionary.drugs) {
+    for (const name of [drug.id, drug.generic_name, ...drug.brand_names]) byName.set(normalise(name), drug);
+    // Single-ingredient products are also found by their ingredient name
+    if (drug.ingredients.length === 1 && !byIngredient.has(normalise(drug.ingredients[0]))) {
+      byIngredient.set(normalise(drug.ingredients[0]), drug);
+    }
+  }
+  for (const cls of dictionary.classes) {
+    for (const alias of [cls.id, cls.name, ...(cls.aliases || [])]) classAliases.set(normalise(alias), cls.id);
+  }
+
+  const lookup = (name: string): DrugEntry | null => {
+    const key = normalise(name);
+    if (byName.has(key) || byIngredient.has(key)) return byName.get(key) || byIngredient.get(key)!;
+    // "Amoxicillin 500mg capsules" -> "amoxicillin"
+    const firstWord = key.split(' ')[0];
+    return byName.get(firstWord) || byIngredient.get(firstWord) || null;
+  };
+
+  return {
+    dictionary,
+    resolve(name: string): ResolvedDrug {
+      const entry = lookup(name);
+      return entry
+        ? { name, entry, ingredients: entry.ingredients.map(normalise), classes: [...entry.classes] }
+        : { name, entry: null, ingredients: [normalise(name)], classes: [] };
+    },
+    classesNamed(name: string): string[] {
+      const id = classAliases.get(normalise(name));
+      return id ? [id] : [];
+    },
+    className: (id: string) => classes.get(id)?.name || id,
+    isCrossReactiveClass: (id: string) => !!classes.get(id)?.cross_reactive,
+    isDuplicateTherapyClass: (id: string) => !!classes.get(id)?.duplicate_therapy
+  };
+}
+
+export class DrugKnowledgeBase {
+  private static provider: DrugKnowledgeProvider = importedDictionaryProvider;
+  private static index: Promise<DrugIndex> | null = null;
+
+  // Swap the knowledge source (e.g. a commercial drug database adapter)
+  static useProvider(provider: DrugKnowledgeProvider): void {
+    this.provider = provider;
+    this.index = null;
+  }
+
+  static getProviderName(): string {
+    return this.provider.name;
+  }
+
+  static async getIndex(): Promise<DrugIndex> {
+    if (!this.index) {
+      this.index = this.provider.loadDictionary().then(buildIndex);
+      // Retry on the next call rather than caching a failed load
+      this.index.catch(() => { this.index = null; });
+    }
+    return this.index;
+  }
+
+  static async resolve(name: string): Promise<ResolvedDrug> {
+    return (await this.getIndex()).resolve(name);
+  }
+
+  // Check an uploaded dictionary's shape; throws with the first problem found
+  static validateDictionary(raw: any): DrugDictionary {
+    if (!raw || typeof raw !== 'object') throw new Error('Dictionary must be a JSON object');
+    if (!raw.name || !raw.version) throw new Error('Dictionary needs a name and version');
+    for (const key of ['classes', 'drugs', 'interactions', 'cross_sensitivities']) {
+      if (!Array.isArray(raw[key] ?? [])) throw new Error(`${key} must be an array`);
+    }
+    const classIds = new Set((raw.classes || []).map((c: any) => c?.id));
+    const severities = Object.keys(SEVERITY_RANK);
+
+    (raw.classes || []).forEach((c: any, i: number) => {
+      if (!c?.id || !c?.name) throw new Error(`classes[${i}] needs an id and name`);
+    });
+    (raw.drugs || []).forEach((d: any, i: number) => {
+      if (!d?.id || !d?.generic_name) throw new Error(`drugs[${i}] needs an id and generic_name`);
+      if (!Array.isArray(d.ingredients) || d.ingredients.length === 0) throw new Error(`drugs[${i}] (${d.id}) needs at least one ingredient`);
+      const unknown = (d.classes || []).find((c: string) => !classIds.has(c));
+      if (unknown) throw new Error(`drugs[${i}] (${d.id}) refers to unknown class '${unknown}'`);
+    });
+    (raw.interactions || []).forEach((r: any, i: number) => {
+      if (!Array.isArray(r?.between) || r.between.length !== 2) throw new Error(`interactions[${i}] needs a two-item 'between'`);
+      if (!severities.includes(r.severity)) throw new Error(`interactions[${i}] has unknown severity '${r.severity}'`);
+      const unknown = r.between.find((ref: string) => ref.startsWith('class:') && !classIds.has(ref.slice(6)));
+      if (unknown) throw new Error(`interactions[${i}] refers to unknown class '${unknown}'`);
+    });
+    (raw.cross_sensitivities || []).forEach((r: any, i: number) => {
+      if (!Array.isArray(r?.classes) || r.classes.length !== 2 || r.classes.some((c: string) => !classIds.has(c))) {
+        throw new Error(`cross_sensitivities[${i}] needs two known classes`);
+      }
+      if (!severities.includes(r.severity)) throw new Error(`cross_sensitivities[${i}] has unknown severity '${r.severity}'`);
+    });
+
+    return {
+      name: String(raw.name),
+      version: String(raw.version),
+      classes: raw.classes || [],
+      drugs: (raw.drugs || []).map((d: any) => ({ ...d, brand_names: d.brand_names || [], classes: d.classes || [] })),
+      interactions: raw.interactions || [],
+      cross_sensitivities: raw.cross_sensitivities || []
+    };
+  }
+
+  // Import a dictionary (platform admins); it replaces the active one
+  static async importDictionary(raw: any, importedBy: string): Promise<DrugDictionary> {
+    const dictionary = this.validateDictionary(raw);
+    const now = new Date().toISOString();
+    for (const row of await githubDB.find(collections.drug_dictionaries, { status: 'active' })) {
+      await githubDB.update(collections.drug_dictionaries, row.id, { status: 'superseded', updated_at: now });
+    }
+    await githubDB.insert(collections.drug_dictionaries, {
+      name: dictionary.name,
+      version: dictionary.version,
+      drug_count: dictionary.drugs.length,
+      interaction_count: dictionary.interactions.length,
+      dictionary,
+      status: 'active',
+      imported_by: importedBy,
+      imported_at: now,
+      updated_at: now
+    });
+    this.index = null;
+    return dictionary;
+  }
+
+  // Summary of the dictionary in use
+  static async getActiveDictionaryInfo(): Promise<{ provider: string; name: string; version: string; drugs: number; interactions: number }> {
+    const { dictionary } = await this.getIndex();
+    return {
+      provider: this.provider.name,
+      name: dictionary.name,
+      version: dictionary.version,
+      drugs: dictionary.drugs.length,
+      interactions: dictionary.interactions.length
+    };
+  }
+}
+
+export default DrugKnowledgeBase;
@@ -0,0 +1,554 @@
+// Early Warning Scores for Hospital Management System
+// Aggregate deterioration scores worked out from an encounter's latest vitals:
+// NEWS2 (Royal College of Physicians, 2017) for adults and a vitals-based PEWS
+// for children under 16. Each score is stored; when the risk band rises the
+// attending physician and assigned nurse are notified, and the time until
+// someone acknowledges it is kept for reporting.
+import { githubDB, collections } from './database';
+import { logger } from './observability';
+import type { Vital } from './observations';
+
+export type EarlyWarningScale = 'news2' | 'pews';
+export type EarlyWarningRisk = 'low' | 'low_medium' | 'medium' | 'high';
+export type Consciousness = 'A' | 'C' | 'V' | 'P' | 'U';
+export type EarlyWarningParameter =
+  | 'respiratory_rate'
+  | 'oxygen_saturation'
+  | 'supplemental_oxygen'
+  | 'systolic_bp'
+  | 'heart_rate'
+  | 'consciousness'
+  | 'temperature';
+
+// The latest value of each scored parameter
+export interface EarlyWarningObservations {
+  respiratory_rate?: number;
+  oxygen_saturation?: number;
+  on_supplemental_oxygen?: boolean;
+  systolic_bp?: number;
+  heart_rate?: number;
+  consciousness?: Consciousness;
+  temperature?: number;
+}
+
+export interface ParameterScore {
+  parameter: EarlyWarningParameter;
+  value: number | string | boolean;
+  score: number;
+}
+
+export interface EarlyWarningResult {
+  scale: EarlyWarningScale;
+  total: number;
+  risk: EarlyWarningRisk;
+  parameters: ParameterScore[];
+  // Parameters with no recent observation; they score nothing
+  missing: EarlyWarningParameter[];
+}
+
+export interface EarlyWarningScore extends EarlyWarningResult {
+  id: string;
+  patient_id: string;
+  encounter_id: string;
+  entity_id: string;
+  spo2_scale: 1 | 2;
+  age_years?: number;
+  vital_ids: string[];
+  measured_at: string;
+
+  // Escalation, when this score moved the patient into a higher risk band
+  escalated: boolean;
+  escalated_at?: string;
+  notified_user_ids?: string[];
+  acknowledged_at?: string;
+  acknowledged_by?: string;
+  acknowledgement_notes?: string;
+  response_minutes?: number;
+
+  calculated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EscalationStats {
+  escalations: number;
+  acknowledged: number;
+  pending: number;
+  median_response_minutes: number | null;
+  within_target_rate: number | null;
+  by_risk: Record<string, { escalations: number; acknowledged: number; median_response_minutes: number | null }>;
+}
+
+export const PARAMETER_LABELS: Record<EarlyWarningParameter, string> = {
+  respiratory_rate: 'Respiration rate',
+  oxygen_saturation: 'SpO2',
+  supplemental_oxygen: 'Air or oxygen',
+  systolic_bp: 'Systolic BP',
+  heart_rate: 'Pulse',
+  consciousness: 'Consciousness',
+  temperature: 'Temperature'
+};
+
+export const CONSCIOUSNESS_LEVELS: Array<{ value: Consciousness; label: string }> = [
+  { value: 'A', label: 'Alert' },
+  { value: 'C', label: 'New confusion' },
+  { value: 'V', label: 'Responds to voice' },
+  { value: 'P', label: 'Responds to pain' },
+  { value: 'U', label: 'Unresponsive' }
+];
+
+export const RISK_LABELS: Record<EarlyWarningRisk, string> = {
+  low: 'Low',
+  low_medium: 'Low-medium',
+  medium: 'Medium',
+  high: 'High'
+};
+
+// NEWS2 clinical response for each risk band
+export const CLINICAL_RESPONSES: Record<EarlyWarningRisk, string> = {
+  low: 'Continue routine monitoring (4–12 hourly); registered nurse to assess',
+  low_medium: 'Urgent ward-based response: hourly observations and inform the medical team',
+  medium: 'Key threshold: hourly observations and urgent review by a clinician competent in acute illness',
+  high: 'Emergency response: continuous monitoring and emergency assessment by a critical care team'
+};
+
+// How quickly an escalation should be acknowledged, for reporting
+export const RESPONSE_TARGET_MINUTES: Record<Exclude<EarlyWarningRisk, 'low'>, number> = {
+  low_medium: 60,
+  medium: 30,
+  high: 15
+};
+
+export const RISK_RANK: Record<EarlyWarningRisk, number> = { low: 0, low_medium: 1, medium: 2, high: 3 };
+
+// Vitals that feed the score; recording any of these re-scores the encounter
+export const EARLY_WARNING_VITALS: Vital['type'][] = [
+  'respiratory_rate',
+  'oxygen_saturation',
+  'blood_pressure',
+  'heart_rate',
+  'consciousness',
+  'temperature'
+];
+
+// Observations older than this are not scored
+const OBSERVATION_WINDOW_HOURS = 12;
+// NEWS2 is not validated under 16; younger patients are scored on PEWS
+const PAEDIATRIC_AGE_YEARS = 16;
+
+const PARAMETERS: EarlyWarningParameter[] = [
+  'respiratory_rate',
+  'oxygen_saturation',
+  'supplemental_oxygen',
+  'systolic_bp',
+  'heart_rate',
+  'consciousness',
+  'temperature'
+];
+
+function band(value: number, bands: Array<[number, number]>): number {
+  // bands: [upper bound inclusive, score], ascending
+  for (const [upper, score] of bands) {
+    if (value <= upper) return score;
+  }
+  return bands[bands.length - 1][1];
+}
+
+function temperatureScore(t: number): number {
+  return band(t, [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1], [Infinity, 2]]);
+}
+
+function riskFor(scale: EarlyWarningScale, total: number, parameters: ParameterScore[]): EarlyWarningRisk {
+  const [medium, high] = scale === 'news2' ? [5, 7] : [3, 6];
+  if (total >= high) return 'high';
+  if (total >= medium) return 'medium';
+  if (parameters.some(p => p.score >= 3)) return 'low_medium';
+  return 'low';
+}
+
+function result(scale: EarlyWarningScale, parameters: ParameterScore[]): EarlyWarningResult {
+  const total = parameters.reduce((sum, p) => sum + p.score, 0);
+  return {
+    scale,
+    total,
+    risk: riskFor(scale, total, parameters),
+    parameters,
+    missing: PARAMETERS.filter(p => !parameters.some(s => s.parameter === p))
+  };
+}
+
+/**
+ * NEWS2. SpO2 scale 2 is for patients with hypercapnic respiratory failure
+ * and a prescribed target of 88–92%; it should be chosen by a clinician.
+ */
+export function calculateNews2(obs: EarlyWarningObservations, spo2Scale: 1 | 2 = 1): EarlyWarningResult {
+  const scores: ParameterScore[] = [];
+  const onOxygen = !!obs.on_supplemental_oxygen;
+
+  if (obs.respiratory_rate !== undefined) {
+    scores.push({
+      parameter: 'respiratory_rate',
+      value: obs.respiratory_rate,
+      score: band(obs.respiratory_rate, [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]])
+    });
+  }
+  if (obs.oxygen_saturation !== undefined) {
+    const spo2 = obs.oxygen_saturation;
+    const score = spo2Scale === 1
+      ? band(spo2, [[91, 3], [93, 2], [95, 1], [Infinity, 0]])
+      : spo2 <= 87 || !onOxygen
+        ? band(spo2, [[83, 3], [85, 2], [87, 1], [Infinity, 0]])
+        : band(spo2, [[92, 0], [94, 1], [96, 2], [Infinity, 3]]);
+    scores.push({ parameter: 'oxygen_saturation', value: spo2, score });
+  }
+  if (obs.on_supplemental_oxygen !== undefined) {
+    scores.push({ parameter: 'supplemental_oxygen', value: onOxygen, score: onOxygen ? 2 : 0 });
+  }
+  if (obs.systolic_bp !== undefined) {
+    scores.push({
+      parameter: 'systolic_bp',
+      value: obs.systolic_bp,
+      score: band(obs.systolic_bp, [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]])
+    });
+  }
+  if (obs.heart_rate !== undefined) {
+    scores.push({
+      parameter: 'heart_rate',
+      value: obs.heart_rate,
+      score: band(obs.heart_rate, [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]])
+    });
+  }
+  if (obs.consciousness) {
+    scores.push({ parameter: 'consciousness', value: obs.consciousness, score: obs.consciousness === 'A' ? 0 : 3 });
+  }
+  if (obs.temperature !== undefined) {
+    scores.push({ parameter: 'temperature', value: obs.temperature, score: temperatureScore(obs.temperature) });
+  }
+  return result('news2', scores);
+}
+
+// APLS normal ranges by age: [up to age in years, respiration rate, heart rate, systolic BP]
+const PAEDIATRIC_RANGES: Array<{ under: number; rr: [number, number]; hr: [number, number]; sbp: [number, number] }> = [
+  { under: 1, rr: [30, 40], hr: [110, 160], sbp: [70, 90] },
+  { under: 2, rr: [25, 35], hr: [100, 150], sbp: [80, 95] },
+  { under: 5, rr: [25, 30], hr: [95, 140], sbp: [80, 100] },
+  { under: 12, rr: [20, 25], hr: [80, 120], sbp: [90, 110] },
+  { under: Infinity, rr: [15, 20], hr: [60, 100], sbp: [100, 120] }
+];
+
+// 0 inside the normal range, then 1, 2 or 3 as the value moves up to 10%,
+// up to 25% and beyond 25% outside it
+function deviationScore(value: number, [low, high]: [number, number]): number {
+  if (value >= low && value <= high) return 0;
+  const off = value < low ? (low - value) / low : (value - high) / high;
+  if (off <= 0.1) return 1;
+  if (off <= 0.25) return 2;
+  return 3;
+}
+
+/**
+ * Vitals-based paediatric early warning score. Respiration rate, pulse and
+ * systolic BP are scored against APLS normal ranges for the child's age;
+ * oxygen, consciousness and temperature are scored as in NEWS2.
+ */
+export function calculatePews(obs: EarlyWarningObservations, ageYears: number): EarlyWarningResult {
+  const ranges = PAEDIATRIC_RANGES.find(r => ageYears < r.under)!;
+  const scores: ParameterScore[] = [];
+
+  if (obs.respiratory_rate !== undefined) {
+    scores.push({ parameter: 'respiratory_rate', value: obs.respiratory_rate, score: deviationScore(obs.respiratory_rate, ranges.rr) });
+  }
+  if (obs.oxygen_saturation !== undefined) {
+    scores.push({
+      parameter: 'oxygen_saturation',
+      value: obs.oxygen_saturation,
+      score: band(obs.oxygen_saturation, [[90, 3], [92, 2], [94, 1], [Infinity, 0]])
+    });
+  }
+  if (obs.on_supplemental_oxygen !== undefined) {
+    scores.push({ parameter: 'supplemental_oxygen', value: obs.on_supplemental_oxygen, score: obs.on_supplemental_oxygen ? 2 : 0 });
+  }
+  if (obs.systolic_bp !== undefined) {
+    scores.push({ parameter: 'systolic_bp', value: obs.systolic_bp, score: deviationScore(obs.systolic_bp, ranges.sbp) });
+  }
+  if (obs.heart_rate !== undefined) {
+    scores.push({ parameter: 'heart_rate', value: obs.heart_rate, score: deviationScore(obs.heart_rate, ranges.hr) });
+  }
+  if (obs.consciousness) {
+    scores.push({ parameter: 'consciousness', value: obs.consciousness, score: obs.consciousness === 'A' ? 0 : 3 });
+  }
+  if (obs.temperature !== undefined) {
+    scores.push({ parameter: 'temperature', value: obs.temperature, score: temperatureScore(obs.temperature) });
+  }
+  return result('pews', scores);
+}
+
+// Age in whole years on a date, from a date of birth
+export function ageInYears(dob: string, on: Date = new Date()): number | undefined {
+  const birth = new Date(dob);
+  if (Number.isNaN(birth.getTime())) return undefined;
+  let age = on.getFullYear() - birth.getFullYear();
+  const hadBirthday = on.getMonth() > birth.getMonth() || (on.getMonth() === birth.getMonth() && on.getDate() >= birth.getDate());
+  if (!hadBirthday) age--;
+  return age;
+}
+
+/**
+ * The latest value of each scored parameter from an encounter's vitals,
+ * ignoring anything older than the observation window.
+ */
+export function latestObservations(vitals: Vital[], now: Date = new Date()): { observations: EarlyWarningObservations; vitals: Vital[] } {
+  const cutoff = now.getTime() - OBSERVATION_WINDOW_HOURS * 60 * 60 * 1000;
+  const latest: Partial<Record<Vital['type'], Vital>> = {};
+  for (const vital of vitals) {
+    const t = new Date(vital.measured_at).getTime();
+    if (t < cutoff || !EARLY_WARNING_VITALS.includes(vital.type)) continue;
+    const current = latest[vital.type];
+    if (!current || t > new Date(current.measured_at).getTime()) latest[vital.type] = vital;
+  }
+
+  const observations: EarlyWarningObservations = {};
+  if (latest.respiratory_rate?.value_quantity !== undefined) observations.respiratory_rate = latest.respiratory_rate.value_quantity;
+  if (latest.oxygen_saturation?.value_quantity !== undefined) {
+    observations.oxygen_saturation = latest.oxygen_saturation.value_quantity;
+    observations.on_supplemental_oxygen = !!latest.oxygen_saturation.on_supplemental_oxygen;
+  }
+  if (latest.blood_pressure?.systolic !== undefined) observations.systolic_bp = latest.blood_pressure.systolic;
+  if (latest.heart_rate?.value_quantity !== undefined) observations.heart_rate = latest.heart_rate.value_quantity;
+  if (latest.consciousness?.value_string) observations.consciousness = latest.consciousness.value_string as Consciousness;
+  if (latest.temperature?.value_quantity !== undefined) observations.temperature = latest.temperature.value_quantity;
+
+  return { observations, vitals: Object.values(latest) as Vital[] };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export class EarlyWarningService {
+
+  // Score an encounter from its latest vitals. The scale follows the patient's
+  // age; when no age or SpO2 scale is given the previous score's are kept.
+  static async scoreEncounter(encounterId: string, options: {
+    age_years?: number;
+    spo2_scale?: 1 | 2;
+    calculated_by?: string;
+  } = {}): Promise<EarlyWarningScore | null> {
+    try {
+      const encounter = await githubDB.findById(collections.encounters, encounterId);
+      if (!encounter) throw new Error('Encounter not found');
+
+      const [vitals, previous] = await Promise.all([
+        githubDB.find(collections.vitals, { encounter_id: encounterId }),
+        this.getLatestScore(encounterId)
+      ]);
+      const { observations, vitals: used } = latestObservations(vitals);
+      if (used.length === 0) return null;
+
+      const ageYears = options.age_years ?? previous?.age_years;
+      const spo2Scale = options.spo2_scale ?? previous?.spo2_scale ?? 1;
+      const scored = ageYears !== undefined && ageYears < PAEDIATRIC_AGE_YEARS
+        ? calculatePews(observations, ageYears)
+        : calculateNews2(observations, spo2Scale);
+
+      // Escalate when the patient moves into a higher band that needs a response
+      const escalated = scored.risk !== 'low' && RISK_RANK[scored.risk] > RISK_RANK[previous?.risk || 'low'];
+      const recipients = escalated
+        ? [...new Set([encounter.attending_physician_id, encounter.assigned_nurse_id].filter(Boolean))] as string[]
+        : [];
+
+      const now = new Date().toISOString();
+      const score = await githubDB.insert(collections.early_warning_scores, {
+        ...scored,
+        patient_id: encounter.patient_id,
+        encounter_id: encounterId,
+        entity_id: encounter.entity_id,
+        spo2_scale: spo2Scale,
+        age_years: ageYears,
+        vital_ids: used.map(v => v.id),
+        measured_at: used.map(v => v.measured_at).sort().pop(),
+        escalated,
+        escalated_at: escalated ? now : undefined,
+        notified_user_ids: escalated ? recipients : undefined,
+        calculated_by: options.calculated_by,
+        created_at: now,
+        updated_at: now
+      }) as EarlyWarningScore;
+
+      if (escalated) await this.notifyEscalation(score, encounter, recipients);
+
+      logger.info('early_warning_scored', 'Early warning score calculated', {
+        score_id: score.id,
+        encounter_id: encounterId,
+        scale: score.scale,
+        total: score.total,
+        risk: score.risk,
+        escalated
+      });
+
+      return score;
+    } catch (error) {
+      logger.error('early_warning_score_failed', 'Failed to calculate early warning score', {
+        encounter_id: encounterId,
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  // Acknowledge an escalation; the response time runs from when it was raised
+  static async acknowledgeEscalation(score: EarlyWarningScore, acknowledgedBy: string, notes?: string): Promise<EarlyWarningScore> {
+    if (!score.escalated) throw new Error('This score was not escalated');
+    if (score.acknowledged_at) throw new Error('This escalation has already been acknowledged');
+
+    const now = new Date();
+    const updated = await githubDB.update(collections.early_warning_scores, score.id, {
+      acknowledged_at: now.toISOString(),
+      acknowledged_by: acknowledgedBy,
+      acknowledgement_notes: notes?.trim() || undefined,
+      response_minutes: Math.round((now.getTime() - new Date(score.escalated_at!).getTime()) / 60000),
+      updated_at: now.toISOString()
+    });
+
+    await this.logAuditEvent('early_warning_acknowledged', score.id, acknowledgedBy, {
+      encounter_id: score.encounter_id,
+      risk: score.risk
+    });
+
+    return { ...score, ...updated };
+  }
+
+  // Scores for an encounter in time order (the trend)
+  static async getEncounterScores(encounterId: string): Promise<EarlyWarningScore[]> {
+    try {
+      const scores: EarlyWarningScore[] = await githubDB.find(collections.early_warning_scores, { encounter_id: encounterId });
+      return scores.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    } catch (error) {
+      logger.error('get_early_warning_scores_failed', 'Failed to get early warning scores', {
+        encounter_id: encounterId,
+        error: error.message
+      });
+      return [];
+    }
+  }
+
+  static async getLatestScore(encounterId: string): Promise<EarlyWarningScore | null> {
+    const scores = await this.getEncounterScores(encounterId);
+    return scores[scores.length - 1] || null;
+  }
+
+  // Latest score for several encounters at once, keyed by encounter id
+  static async getLatestScores(encounterIds: string[]): Promise<Record<string, EarlyWarningScore>> {
+    const latest: Record<string, EarlyWarningScore> = {};
+    await Promise.all(
+      [...new Set(encounterIds)].map(async (id) => {
+        const score = await this.getLatestScore(id);
+        if (score) latest[id] = score;
+      })
+    );
+    return latest;
+  }
+
+  // Escalations still waiting for someone to acknowledge them
+  static async getOpenEscalations(encounterId: string): Promise<EarlyWarningScore[]> {
+    const scores = await this.getEncounterScores(encounterId);
+    return scores.filter(s => s.escalated && !s.acknowledged_at);
+  }
+
+  // Escalations raised at an entity over a period, with acknowledgement times
+  static async getEscalationStats(entityId: string, startDate: string, endDate: string): Promise<EscalationStats> {
+    const scores: EarlyWarningScore[] = await githubDB.find(collections.early_warning_scores, { entity_id: entityId, escalated: true });
+    const inRange = scores.filter(s => s.escalated_at && s.escalated_at >= startDate && s.escalated_at < endDate);
+    const acknowledged = inRange.filter(s => s.response_minutes !== undefined && s.response_minutes !== null);
+
+    const byRisk: EscalationStats['by_risk'] = {};
+    for (const risk of Object.keys(RESPONSE_TARGET_MINUTES)) {
+      const group = inRange.filter(s => s.risk === risk);
+      const groupAcknowledged = group.filter(s => s.response_minutes !== undefined && s.response_minutes !== null);
+      byRisk[risk] = {
+        escalations: group.length,
+        acknowledged: groupAcknowledged.length,
+        median_response_minutes: median(groupAcknowledged.map(s => s.response_minutes!))
+      };
+    }
+
+    const withinTarget = acknowledged.filter(
+      s => s.response_minutes! <= RESPONSE_TARGET_MINUTES[s.risk as keyof typeof RESPONSE_TARGET_MINUTES]
+    );
+
+    return {
+      escalations: inRange.length,
+      acknowledged: acknowledged.length,
+      pending: inRange.length - acknowledged.length,
+      median_response_minutes: median(acknowledged.map(s => s.response_minutes!)),
+      within_target_rate: acknowledged.length > 0 ? (withinTarget.length / acknowledged.length) * 100 : null,
+      by_risk: byRisk
+    };
+  }
+
+  // Tell the patient's attending physician and assigned nurse; with neither
+  // assigned, the entity is told instead
+  private static async notifyEscalation(score: EarlyWarningScore, encounter: any, recipients: string[]): Promise<void> {
+    const label = score.scale === 'news2' ? 'NEWS2' : 'PEWS';
+    const notification = {
+      type: 'early_warning_escalation',
+      title: `${label} ${score.total} — ${RISK_LABELS[score.risk]} risk`,
+      message: `${encounter.encounter_code || 'Encounter'}${encounter.ward ? ` (${encounter.ward}${encounter.bed_id ? `, bed ${encounter.bed_id}` : ''})` : ''}: ${CLINICAL_RESPONSES[score.risk]}.`,
+      data: {
+        score_id: score.id,
+        encounter_id: score.encounter_id,
+        patient_id: score.patient_id,
+        total: score.total,
+        risk: score.risk
+      },
+      priority: score.risk === 'high' ? 'urgent' : 'high',
+      is_read: false,
+      created_at: new Date().toISOString()
+    };
+
+    try {
+      if (recipients.length === 0) {
+        await githubDB.insert(collections.notifications, {
+          ...notification,
+          recipient_type: 'entity',
+          recipient_id: score.entity_id
+        });
+      }
+      for (const userId of recipients) {
+        await githubDB.insert(collections.notifications, { ...notification, user_id: userId });
+      }
+
+      logger.warn('early_warning_escalated', 'Early warning score escalated', {
+        score_id: score.id,
+        encounter_id: score.encounter_id,
+        risk: score.risk,
+        notified: recipients.length
+      });
+    } catch (error) {
+      logger.error('early_warning_notify_failed', 'Failed to send early warning escalation', { error: error.message });
+    }
+  }
+
+  // Log audit events
+  private static async logAuditEvent(action: string, scoreId: string, userId: string, metadata?: any): Promise<void> {
+    try {
+      await githubDB.insert(collections.audit_logs, {
+        action,
+        resource_type: 'early_warning_score',
+        resource_id: scoreId,
+        user_id: userId,
+        metadata: metadata || {},
+        timestamp: new Date().toISOString(),
+        ip_address: 'unknown',
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown'
+      });
+    } catch (error) {
+      logger.error('audit_log_failed', 'Failed to log audit event', { error: error.message });
+    }
+  }
+}
+
+export default EarlyWarningService;
@@ -56,6 +56,8 @@ export enum NotificationType {
   NEW_REVIEW_RECEIVED = 'new_review_received',
   BOOKING_REQUEST = 'booking_request',
   PATIENT_MESSAGE = 'patient_message',
+  STAFF_INVITATION = 'staff_invitation',
+  STAFF_INVITATION_ACCEPTED = 'staff_invitation_accepted',
   
   // System Notifications
   NEWSLETTER_SUBSCRIPTION = 'newsletter_subscription',
@@ -425,6 +427,18 @@ class EmailNotificationService {
         subject: 'Data Backup Complete - CareConnect',
         htmlContent: this.getDataBackupCompleteTemplate(),
         textContent: 'Your data backup has been completed successfully.'
+      },
+
+      [NotificationType.STAFF_INVITATION]: {
+        subject: 'You are invited to join {{entityName}} on CareConnect',
+        htmlContent: this.getStaffInvitationTemplate(),
+        textContent: '{{inviterEmail}} invited you to join {{entityName}} as {{roleName}}. Accept before {{expiresAt}}: {{acceptUrl}}'
+      },
+
+      [NotificationType.STAFF_INVITATION_ACCEPTED]: {
+        subject: '{{memberEmail}} joined {{entityName}}',
+        htmlContent: this.getStaffInvitationAcceptedTemplate(),
+        textContent: '{{memberEmail}} accepted your invitation and joined {{entityName}} as {{roleName}}.'
       }
     };
 
@@ -876,6 +890,54 @@ class EmailNotificationService {
     return this.getBasicTemplate('Data Backup Complete', 'Your data backup has been completed successfully.');
   }
 
+  private getStaffInvitationTemplate(): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Staff Invitation</title>
+      <style>
+        .container { max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; }
+        .header { background: #05B34D; padding: 20px; text-align: center; }
+        .header h1 { color: white; margin: 0; }
+        .content { padding: 30px 20px; background: white; }
+        .invite-box { background: #F0FDF4; border: 1px solid #05B34D; padding: 20px; border-radius: 8px; margin: 20px 0; }
+        .button { background: #05B34D; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; }
+        .footer { background: #f8f9fa; padding: 20px; text-align: center; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>You're Invited</h1>
+        </div>
+        <div class="content">
+          <h2>Hello!</h2>
+          <p>{{inviterEmail}} has invited you to join the team on CareConnect.</p>
+          <div class="invite-box">
+            <p><strong>Organisation:</strong> {{entityName}}</p>
+            <p><strong>Role:</strong> {{roleName}}</p>
+            <p><strong>Expires:</strong> {{expiresAt}}</p>
+          </div>
+          <p>Sign in or create an account with this email address to accept. {{licenseNote}}</p>
+          <p><a href="{{acceptUrl}}" class="button">Accept Invitation</a></p>
+          <p>If you were not expecting this invitation, you can safely ignore this email.</p>
+          <p>Best regards,<br>The CareConnect Team</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 CareConnect Healthcare Platform. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+
+  private getStaffInvitationAcceptedTemplate(): string {
+    return this.getBasicTemplate('Invitation Accepted', '{{memberEmail}} accepted your invitation and joined {{entityName}} as {{roleName}}.');
+  }
+
   // Basic template for simple notifications
   private getBasicTemplate(title: string, message: string): string {
     return `
@@ -1110,6 +1172,43 @@ export const sendVitalSignsAlert = async (
   });
 };
 
+export const sendStaffInvitation = async (
+  inviteeEmail: string,
+  invitation: { entityName: string; role: string; inviterEmail: string; token: string; expiresAt: string; licenseRequired: boolean }
+) => {
+  return await emailService.sendNotification({
+    type: NotificationType.STAFF_INVITATION,
+    recipient: inviteeEmail,
+    data: {
+      entityName: invitation.entityName,
+      roleName: invitation.role.replace(/_/g, ' '),
+      inviterEmail: invitation.inviterEmail,
+      expiresAt: new Date(invitation.expiresAt).toLocaleString(),
+      licenseNote: invitation.licenseRequired ? 'You will be asked for your professional licence number.' : '',
+      acceptUrl: `${window.location.origin}/invite/accept?token=${invitation.token}`
+    },
+    priority: 'high'
+  });
+};
+
+export const sendStaffInvitationAccepted = async (
+  adminEmail: string,
+  acceptance: { memberEmail: string; entityName: string; role: string }
+) => {
+  return await emailService.sendNotification({
+    type: NotificationType.STAFF_INVITATION_ACCEPTED,
+    recipient: adminEmail,
+    data: {
+      recipientName: adminEmail.split('@')[0],
+      memberEmail: acceptance.memberEmail,
+      entityName: acceptance.entityName,
+      roleName: acceptance.role.replace(/_/g, ' '),
+      dashboardUrl: `${window.location.origin}/dashboard/entity/team`
+    },
+    priority: 'normal'
+  });
+};
+
 // Queue for batch email processing
 export class EmailQueue {
   private static queue: NotificationData[] = [];
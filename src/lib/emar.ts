@@ -0,0 +1,427 @@
+// Electronic Medication Administration Record (eMAR) for inpatients
+// Scheduled doses are worked out from each medication request's frequency and
+// duration rather than stored; nurses record what happened to each dose (given,
+// held or refused) against its scheduled time. PRN ("as needed") doses have no
+// schedule; each one given is followed up for effectiveness.
+import { githubDB, collections } from './database';
+import { logger } from './observability';
+import type { MedicationRequest } from './medications';
+
+export type AdministrationStatus = 'given' | 'held' | 'refused';
+export type PrnEffectiveness = 'effective' | 'partially_effective' | 'not_effective';
+export type DoseState = 'given' | 'held' | 'refused' | 'overdue' | 'due' | 'upcoming';
+
+export interface MedicationAdministration {
+  id: string;
+  patient_id: string;
+  encounter_id: string;
+  entity_id: string;
+  medication_request_id: string;
+  medication_index: number;
+  drug_name: string;
+
+  // Scheduled dose this records; null for PRN and other unscheduled doses
+  scheduled_for: string | null;
+  prn: boolean;
+  prn_reason?: string;
+
+  // What happened
+  status: AdministrationStatus;
+  administered_at: string;
+  dose?: string;
+  route?: string;
+  site?: string;
+  reason?: string; // why a dose was held or refused
+  notes?: string;
+  administered_by: string;
+
+  // PRN follow-up
+  effectiveness_due_at?: string;
+  effectiveness?: PrnEffectiveness;
+  effectiveness_notes?: string;
+  effectiveness_recorded_at?: string;
+  effectiveness_recorded_by?: string;
+
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DoseFrequency {
+  prn: boolean;
+  once: boolean;
+  // Hours of the day doses fall at, on days the medication is due
+  times: number[];
+  // Q#H orders: every N hours from the first dose
+  interval_hours?: number;
+  // 1 for daily, 2 for alternate days, 7 for weekly
+  every_days: number;
+}
+
+export interface MarDose {
+  scheduled_for: string;
+  state: DoseState;
+  administration?: MedicationAdministration;
+}
+
+export interface MarEntry {
+  request: MedicationRequest;
+  medication_index: number;
+  medication: MedicationRequest['medications'][number];
+  // null when the frequency could not be read; doses are then recorded unscheduled
+  frequency: DoseFrequency | null;
+  starts_at: string;
+  ends_at: string | null;
+  doses: MarDose[];
+  unscheduled_administrations: MedicationAdministration[];
+}
+
+// A scheduled dose with no record this long after its time is overdue
+export const OVERDUE_AFTER_MINUTES = 60;
+// PRN doses are reviewed for effectiveness this long after being given
+export const PRN_FOLLOW_UP_MINUTES = 60;
+
+// Requests whose doses are still given (a dispensed request is 'completed')
+const SCHEDULED_REQUEST_STATUSES = ['active', 'completed'];
+// Requests that stopped producing doses when they were last updated
+const ENDED_REQUEST_STATUSES = ['stopped', 'cancelled', 'on_hold'];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const STANDARD_TIMES: Array<{ pattern: RegExp; times: number[]; every_days?: number }> = [
+  { pattern: /^(qd|od|daily|once daily|once a day|qam|mane|every morning)$/, times: [8] },
+  { pattern: /^(qhs|hs|nocte|at bedtime|at night|every night)$/, times: [22] },
+  { pattern: /^(bid|bd|twice daily|twice a day|2x daily|2 times daily)$/, times: [8, 20] },
+  { pattern: /^(tid|tds|three times daily|three times a day|3x daily|3 times daily)$/, times: [8, 14, 20] },
+  { pattern: /^(qid|qds|four times daily|four times a day|4x daily|4 times daily)$/, times: [8, 12, 16, 20] },
+  { pattern: /^(qod|every other day|alternate days)$/, times: [8], every_days: 2 },
+  { pattern: /^(weekly|once weekly|once a week|qw|qwk)$/, times: [8], every_days: 7 }
+];
+
+/**
+ * Read a prescription frequency such as "BID", "Q6H", "TDS" or "Q4H PRN".
+ * Returns null when the frequency is not recognised.
+ */
+export function parseFrequency(frequency: string | undefined): DoseFrequency | null {
+  const text = (frequency || '').toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  const prn = /\bprn\b|as needed|as required/.test(text);
+  const interval = text.match(/\bq\s?(\d+)\s?h(?:rs?|ours?)?\b|every (\d+) hours?/);
+  const intervalHours = interval ? Number(interval[1] || interval[2]) : undefined;
+
+  if (prn) return { prn: true, once: false, times: [], interval_hours: intervalHours, every_days: 1 };
+  if (/^(stat|once|one dose|single dose|now)$/.test(text)) return { prn: false, once: true, times: [], every_days: 1 };
+  if (intervalHours && intervalHours > 0) return { prn: false, once: false, times: [], interval_hours: intervalHours, every_days: 1 };
+
+  const standard = STANDARD_TIMES.find(s => s.pattern.test(text));
+  return standard ? { prn: false, once: false, times: standard.times, every_days: standard.every_days || 1 } : null;
+}
+
+/**
+ * Days covered by a duration such as "7 days", "2 weeks" or "x 10d".
+ * Returns null when no duration is given or it cannot be read.
+ */
+export function parseDurationDays(duration: string | undefined): number | null {
+  const match = (duration || '').toLowerCase().match(/(\d+)\s*(d|days?|w|wks?|weeks?|m|mo|months?)\b/);
+  if (!match) return null;
+  const n = Number(match[1]);
+  if (match[2].startsWith('w')) return n * 7;
+  if (match[2].startsWith('m')) return n * 30;
+  return n;
+}
+
+function medicationPeriod(request: MedicationRequest, duration?: string): { start: Date; end: Date | null } {
+  const start = new Date(request.validity_period?.start || request.authored_on);
+  const days = parseDurationDays(duration);
+  let end = days ? new Date(start.getTime() + days * DAY) : request.validity_period?.end ? new Date(request.validity_period.end) : null;
+  if (ENDED_REQUEST_STATUSES.includes(request.status)) {
+    const stoppedAt = new Date(request.updated_at);
+    if (!end || stoppedAt < end) end = stoppedAt;
+  }
+  return { start, end };
+}
+
+/**
+ * Scheduled dose times for one medication that fall inside [from, to).
+ */
+export function buildDoseSchedule(
+  frequency: DoseFrequency | null,
+  period: { start: Date; end: Date | null },
+  window: { from: Date; to: Date }
+): Date[] {
+  if (!frequency || frequency.prn) return [];
+  const from = Math.max(window.from.getTime(), period.start.getTime());
+  const to = Math.min(window.to.getTime(), period.end ? period.end.getTime() : Infinity);
+  if (from >= to) return [];
+
+  if (frequency.once) {
+    const t = period.start.getTime();
+    return t >= window.from.getTime() && t < to ? [period.start] : [];
+  }
+
+  const doses: Date[] = [];
+  if (frequency.interval_hours) {
+    const step = frequency.interval_hours * HOUR;
+    const first = period.start.getTime() + Math.max(0, Math.ceil((from - period.start.getTime()) / step)) * step;
+    for (let t = first; t < to; t += step) doses.push(new Date(t));
+    return doses;
+  }
+
+  // Standard administration times, on the days the medication is due
+  const startDay = new Date(period.start);
+  startDay.setHours(0, 0, 0, 0);
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+  for (; day.getTime() < to; day.setDate(day.getDate() + 1)) {
+    const dayNumber = Math.round((day.getTime() - startDay.getTime()) / DAY);
+    if (dayNumber % frequency.every_days !== 0) continue;
+    for (const hour of frequency.times) {
+      const dose = new Date(day);
+      dose.setHours(hour, 0, 0, 0);
+      if (dose.getTime() >= from && dose.getTime() < to) doses.push(dose);
+    }
+  }
+  return doses;
+}
+
+function doseState(scheduledFor: Date, now: Date, administration?: MedicationAdministration): DoseState {
+  if (administration) return administration.status;
+  const minutes = (now.getTime() - scheduledFor.getTime()) / 60000;
+  if (minutes > OVERDUE_AFTER_MINUTES) return 'overdue';
+  if (minutes >= -OVERDUE_AFTER_MINUTES) return 'due';
+  return 'upcoming';
+}
+
+export class EMARService {
+
+  // The MAR for an encounter over a time window: every medication ordered in
+  // the encounter with its scheduled doses and any PRN doses given
+  static async getEncounterMar(encounterId: string, window: { from: Date; to: Date }, now: Date = new Date()): Promise<MarEntry[]> {
+    const [requests, administrations] = await Promise.all([
+      githubDB.find(collections.medication_requests, { encounter_id: encounterId }),
+      githubDB.find(collections.medication_administrations, { encounter_id: encounterId })
+    ]);
+
+    const entries: MarEntry[] = [];
+    for (const request of requests as MedicationRequest[]) {
+      if (![...SCHEDULED_REQUEST_STATUSES, ...ENDED_REQUEST_STATUSES].includes(request.status)) continue;
+      (request.medications || []).forEach((medication, index) => {
+        const frequency = parseFrequency(medication.frequency);
+        const period = medicationPeriod(request, medication.duration);
+        const recorded = (administrations as MedicationAdministration[]).filter(
+          a => a.medication_request_id === request.id && a.medication_index === index
+        );
+        const inWindow = (iso: string) => {
+          const t = new Date(iso).getTime();
+          return t >= window.from.getTime() && t < window.to.getTime();
+        };
+
+        const doses = buildDoseSchedule(frequency, period, window).map(scheduledFor => {
+          const administration = recorded.find(a => a.scheduled_for === scheduledFor.toISOString());
+          return { scheduled_for: scheduledFor.toISOString(), state: doseState(scheduledFor, now, administration), administration };
+        });
+
+        entries.push({
+          request,
+          medication_index: index,
+          medication,
+          frequency,
+          starts_at: period.start.toISOString(),
+          ends_at: period.end ? period.end.toISOString() : null,
+          doses,
+          unscheduled_administrations: recorded
+            .filter(a => !a.scheduled_for && inWindow(a.administered_at))
+            .sort((a, b) => a.administered_at.localeCompare(b.administered_at))
+        });
+      });
+    }
+    return entries;
+  }
+
+  // Record a given, held or refused dose. Scheduled doses carry their
+  // scheduled time; PRN doses carry the reason they were given. A medication
+  // whose frequency cannot be read has no schedule and is recorded unscheduled.
+  static async recordAdministration(input: {
+    request: MedicationRequest;
+    medication_index: number;
+    encounter_id: string;
+    scheduled_for?: string | null;
+    status: AdministrationStatus;
+    administered_at: string;
+    dose?: string;
+    route?: string;
+    site?: string;
+    reason?: string;
+    prn_reason?: string;
+    notes?: string;
+    administered_by: string;
+  }): Promise<MedicationAdministration> {
+    const medication = input.request.medications?.[input.medication_index];
+    if (!medication) throw new Error('This medication is not on the prescription');
+    const frequency = parseFrequency(medication.frequency);
+    const prn = !input.scheduled_for && !!frequency?.prn;
+    if (input.status === 'given' && (!input.dose?.trim() || !input.route?.trim())) {
+      throw new Error('Record the dose and route given');
+    }
+    if (input.status !== 'given' && !input.reason?.trim()) {
+      throw new Error(`Give a reason the dose was ${input.status}`);
+    }
+    if (prn && input.status === 'given' && !input.prn_reason?.trim()) {
+      throw new Error('Give the reason this as-needed dose was given');
+    }
+    if (new Date(input.administered_at).getTime() > Date.now() + 5 * 60000) {
+      throw new Error('The administration time cannot be in the future');
+    }
+
+    const existing: MedicationAdministration[] = await githubDB.find(collections.medication_administrations, {
+      medication_request_id: input.request.id
+    });
+    const forMedication = existing.filter(a => a.medication_index === input.medication_index);
+    if (input.scheduled_for && forMedication.some(a => a.scheduled_for === input.scheduled_for)) {
+      throw new Error('This dose has already been recorded');
+    }
+
+    // PRN spacing, when the order gives one (e.g. "Q4H PRN")
+    if (prn && input.status === 'given' && frequency?.interval_hours) {
+      const last = forMedication
+        .filter(a => a.prn && a.status === 'given')
+        .sort((a, b) => b.administered_at.localeCompare(a.administered_at))[0];
+      const gap = last ? (new Date(input.administered_at).getTime() - new Date(last.administered_at).getTime()) / HOUR : Infinity;
+      if (gap < frequency.interval_hours) {
+        throw new Error(
+          `${medication.drug_name} was last given at ${new Date(last!.administered_at).toLocaleTimeString()}; ` +
+          `the order allows a dose every ${frequency.interval_hours} hours`
+        );
+      }
+    }
+
+    try {
+      const now = new Date().toISOString();
+      const administration = await githubDB.insert(collections.medication_administrations, {
+        patient_id: input.request.patient_id,
+        encounter_id: input.encounter_id,
+        entity_id: input.request.entity_id,
+        medication_request_id: input.request.id,
+        medication_index: input.medication_index,
+        drug_name: medication.drug_name,
+        scheduled_for: input.scheduled_for || null,
+        prn,
+        prn_reason: input.prn_reason?.trim() || undefined,
+        status: input.status,
+        administered_at: new Date(input.administered_at).toISOString(),
+        dose: input.dose?.trim() || undefined,
+        route: input.route?.trim() || undefined,
+        site: input.site?.trim() || undefined,
+        reason: input.reason?.trim() || undefined,
+        notes: input.notes?.trim() || undefined,
+        administered_by: input.administered_by,
+        effectiveness_due_at: prn && input.status === 'given'
+          ? new Date(new Date(input.administered_at).getTime() + PRN_FOLLOW_UP_MINUTES * 60000).toISOString()
+          : undefined,
+        created_at: now,
+        updated_at: now
+      });
+
+      await this.logAuditEvent(`medication_${input.status}`, administration.id, input.administered_by, {
+        medication_request_id: input.request.id,
+        drug_name: medication.drug_name,
+        scheduled_for: input.scheduled_for || null,
+        reason: input.reason
+      });
+
+      logger.info('medication_administration_recorded', 'Medication administration recorded', {
+        administration_id: administration.id,
+        encounter_id: input.encounter_id,
+        status: input.status,
+        prn
+      });
+
+      return administration as MedicationAdministration;
+    } catch (error) {
+      logger.error('medication_administration_failed', 'Failed to record medication administration', { error: error.message });
+      throw error;
+    }
+  }
+
+  // Record how well a PRN dose worked
+  static async recordPrnEffectiveness(
+    administration: MedicationAdministration,
+    effectiveness: PrnEffectiveness,
+    notes: string | undefined,
+    recordedBy: string
+  ): Promise<MedicationAdministration> {
+    if (!administration.prn || administration.status !== 'given') {
+      throw new Error('Effectiveness is only recorded for as-needed doses that were given');
+    }
+    if (administration.effectiveness) throw new Error('Effectiveness has already been recorded for this dose');
+
+    const now = new Date().toISOString();
+    const updated = await githubDB.update(collections.medication_administrations, administration.id, {
+      effectiveness,
+      effectiveness_notes: notes?.trim() || undefined,
+      effectiveness_recorded_at: now,
+      effectiveness_recorded_by: recordedBy,
+      updated_at: now
+    });
+    await this.logAuditEvent('prn_effectiveness_recorded', administration.id, recordedBy, { effectiveness });
+    return { ...administration, ...updated };
+  }
+
+  // Admitted patients at an entity: in-progress inpatient encounters
+  static async getInpatientEncounters(entityId: string): Promise<any[]> {
+    const encounters = await githubDB.find(collections.encounters, {
+      entity_id: entityId,
+      type: 'inpatient',
+      status: 'in_progress'
+    });
+    return encounters.sort((a: any, b: any) => (a.ward || '').localeCompare(b.ward || '') || (a.bed_id || '').localeCompare(b.bed_id || ''));
+  }
+
+  // Overdue scheduled doses and PRN follow-ups that are due, per encounter,
+  // over the last day (used by the encounter board)
+  static async getAttentionCounts(encounterIds: string[], now: Date = new Date()): Promise<Record<string, { overdue: number; follow_ups: number }>> {
+    const counts: Record<string, { overdue: number; follow_ups: number }> = {};
+    await Promise.all(
+      [...new Set(encounterIds)].map(async (encounterId) => {
+        const mar = await this.getEncounterMar(encounterId, { from: new Date(now.getTime() - DAY), to: now }, now);
+        counts[encounterId] = {
+          overdue: mar.reduce((n, e) => n + e.doses.filter(d => d.state === 'overdue').length, 0),
+          follow_ups: mar.reduce((n, e) => n + e.unscheduled_administrations.filter(a => isFollowUpDue(a, now)).length, 0)
+        };
+      })
+    );
+    return counts;
+  }
+
+  // Log audit events
+  private static async logAuditEvent(action: string, administrationId: string, userId: string, metadata?: any): Promise<void> {
+    try {
+      await githubDB.insert(collections.audit_logs, {
+        action,
+        resource_type: 'medication_administration',
+        resource_id: administrationId,
+        user_id: userId,
+        metadata: metadata || {},
+        timestamp: new Date().toISOString(),
+        ip_address: 'unknown',
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown'
+      });
+    } catch (error) {
+      logger.error('audit_log_failed', 'Failed to log audit event', { error: error.message });
+    }
+  }
+}
+
+// A given PRN dose whose effectiveness review is due and not yet recorded
+export function isFollowUpDue(administration: MedicationAdministration, now: Date = new Date()): boolean {
+  return (
+    administration.prn &&
+    administration.status === 'given' &&
+    !administration.effectiveness &&
+    !!administration.effectiveness_due_at &&
+    new Date(administration.effectiveness_due_at) <= now
+  );
+}
+
+export default EMARService;
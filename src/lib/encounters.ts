@@ -1,6 +1,7 @@
 // Encounter Management Service for Hospital Management System
 import { githubDB, collections } from './database';
 import { logger } from './observability';
+import { versionOf } from './version-conflict';
 import { BedService } from './bed-management';
 
 // Encounter Interface
@@ -42,6 +43,7 @@ export interface Encounter {
   created_by: string;
   created_at: string;
   updated_at: string;
+  version?: number;
   notes?: string;
 }
 
@@ -125,7 +127,9 @@ export class EncounterService {
   }
   
   // Update encounter status
-  static async updateStatus(encounterId: string, newStatus: Encounter['status'], updatedBy: string, reason?: string): Promise<Encounter> {
+  // `expectedVersion` is the version the caller displayed; when omitted the
+  // version read here is used, so the status change never overwrites a newer edit.
+  static async updateStatus(encounterId: string, newStatus: Encounter['status'], updatedBy: string, reason?: string, expectedVersion?: number): Promise<Encounter> {
     try {
       const encounter = await githubDB.findById(collections.encounters, encounterId);
       if (!encounter) throw new Error('Encounter not found');
@@ -151,7 +155,9 @@ export class EncounterService {
         updates.actual_end = new Date().toISOString();
       }
       
-      const updatedEncounter = await githubDB.update(collections.encounters, encounterId, updates);
+      const updatedEncounter = await githubDB.update(collections.encounters, encounterId, updates, {
+        expectedVersion: expectedVersion ?? versionOf(encounter)
+      });
       
       // Log status change
       await this.logStatusChange(encounterId, oldStatus, newStatus, updatedBy, reason);
@@ -194,17 +200,17 @@ export class EncounterService {
   // Get encounters by patient
   static async getPatientEncounters(patientId: string, limit?: number, status?: Encounter['status']): Promise<Encounter[]> {
     try {
-      const filters: any = { patient_id: patientId };
-      if (status) filters.status = status;
-      
-      let encounters = await githubDB.find(collections.encounters, filters);
-      
-      // Sort by scheduled_start descending
-      encounters.sort((a, b) => new Date(b.scheduled_start).getTime() - new Date(a.scheduled_start).getTime());
-      
-      if (limit) encounters = encounters.slice(0, limit);
+      const where: any = { patient_id: patientId };
+      if (status) where.status = status;
+      
+      // Sorted and limited server-side (most recent first)
+      const { data } = await githubDB.query(collections.encounters, {
+        where,
+        sort: '-scheduled_start',
+        limit
+      });
       
-      return encounters;
+      return data;
     } catch (error) {
       logger.error('get_patient_encounters_failed', 'Failed to get patient encounters', { 
         patient_id: patientId, 
@@ -217,21 +223,19 @@ export class EncounterService {
   // Get encounters by entity and date range
   static async getEntityEncounters(entityId: string, startDate: string, endDate: string, type?: Encounter['type']): Promise<Encounter[]> {
     try {
-      const filters: any = { entity_id: entityId };
-      if (type) filters.type = type;
-      
-      let encounters = await githubDB.find(collections.encounters, filters);
+      const where: any = {
+        entity_id: entityId,
+        scheduled_start: { gte: startDate, lte: endDate }
+      };
+      if (type) where.type = type;
       
-      // Filter by date range
-      encounters = encounters.filter(encounter => {
-        const encounterDate = encounter.scheduled_start;
-        return encounterDate >= startDate && encounterDate <= endDate;
+      // Date range and ordering are evaluated by the storage layer
+      const { data } = await githubDB.query(collections.encounters, {
+        where,
+        sort: 'scheduled_start'
       });
       
-      // Sort by scheduled_start
-      encounters.sort((a, b) => new Date(a.scheduled_start).getTime() - new Date(b.scheduled_start).getTime());
-      
-      return encounters;
+      return data;
     } catch (error) {
       logger.error('get_entity_encounters_failed', 'Failed to get entity encounters', { 
         entity_id: entityId, 
@@ -243,6 +247,7 @@ export class EncounterService {
   
   // Update encounter details
   static async updateEncounter(encounterId: string, updates: Partial<{
+    priority: Encounter['priority'];
     chief_complaint: string;
     reason_for_visit: string;
     department: string;
@@ -1,5 +1,6 @@
 // Client-side encryption for BYOK (Bring Your Own Key) pattern
 // Encrypts provider API keys and sensitive data before storing in GitHub DB
+import { usesBackend } from './database';
 
 export class EncryptionService {
   private static async deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
@@ -105,3 +106,15 @@ export function decrypt(encryptedText: string): string {
     return '';
   }
 }
+
+// PHI fields (patient demographics, identifiers, access grant contact and PIN).
+// With the backend, values travel as plaintext over TLS and the server seals
+// them with per-entity AES-GCM envelope encryption at rest. GitHub storage mode
+// has no server-held key, so it keeps the legacy encoding above.
+export function encryptPHI(text: string): string {
+  return usesBackend ? text : encrypt(text);
+}
+
+export function decryptPHI(value: string): string {
+  return usesBackend ? value : decrypt(value);
+}
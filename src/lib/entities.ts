@@ -104,6 +104,8 @@ export interface HealthcareEntity {
     emergency_services: boolean;
     insurance_accepted: string[];
     payment_methods: string[];
+    // ED acuity scale; ESI when unset
+    triage_scale?: 'esi' | 'manchester';
   };
   
   // Status
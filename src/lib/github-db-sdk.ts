@@ -1,5 +1,6 @@
 // Real GitHub DB SDK Implementation
 // Based on the provided comprehensive SDK specification
+import { VersionConflictError, versionOf } from './version-conflict';
 
 interface CloudinaryConfig {
   uploadPreset?: string;
@@ -76,6 +77,136 @@ interface QueryBuilder<T = any> {
   exec(): Promise<T[]>;
 }
 
+// Server-side query (mirrors GET /api/data/:collection query params).
+// where: { field: value } for equality, or { field: { gte, lt, in, ... } }.
+// sort: "-created_at,name" (leading '-' = descending).
+interface DataQuery {
+  where?: Record<string, any>;
+  sort?: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  fields?: string[];
+}
+
+interface DataQueryResult<T = any> {
+  data: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Handle passed to transaction() callbacks; writes made through it are undone
+// if the callback throws.
+interface DataTransaction {
+  get<T = any>(collection: string): Promise<T[]>;
+  find<T = any>(collection: string, filterFnOrObject?: ((item: T) => boolean) | Record<string, any>): Promise<T[]>;
+  findById<T = any>(collection: string, id: string): Promise<T | null>;
+  query<T = any>(collection: string, q?: DataQuery): Promise<DataQueryResult<T>>;
+  insert<T = any>(collection: string, item: Partial<T>): Promise<T & { id: string; uid: string }>;
+  update<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): Promise<T>;
+  delete(collection: string, key: string): Promise<void>;
+}
+
+// Optimistic concurrency: pass the `version` the update was based on to have a
+// stale write rejected with VersionConflictError instead of overwriting.
+interface UpdateOptions {
+  expectedVersion?: number;
+}
+
+const QUERY_OPS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'exists'];
+
+function matchesQueryValue(value: any, spec: any): boolean {
+  const isOps = spec && typeof spec === 'object' && !Array.isArray(spec) &&
+    Object.keys(spec).length > 0 && Object.keys(spec).every(k => QUERY_OPS.includes(k));
+  if (!isOps) return value === spec;
+  return Object.entries(spec).every(([op, v]: [string, any]) => {
+    switch (op) {
+      case 'eq': return v === null ? value == null : value === v;
+      case 'ne': return v === null ? value != null : value !== v;
+      case 'gt': return value != null && value > v;
+      case 'gte': return value != null && value >= v;
+      case 'lt': return value != null && value < v;
+      case 'lte': return value != null && value <= v;
+      case 'in': return (v as any[]).includes(value);
+      case 'nin': return !(v as any[]).includes(value);
+      case 'exists': return v ? value !== undefined : value === undefined;
+      default: return false;
+    }
+  });
+}
+
+// In-memory evaluation of a DataQuery, used where there is no backend to push it to.
+function runQueryInMemory<T = any>(records: T[], q: DataQuery): DataQueryResult<T> {
+  let rows = records.filter(r => Object.entries(q.where || {}).every(([f, spec]) => matchesQueryValue((r as any)[f], spec)));
+  const keys = (q.sort || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (keys.length) {
+    rows = [...rows].sort((a: any, b: any) => {
+      for (const k of keys) {
+        const desc = k.startsWith('-');
+        const f = k.replace(/^[-+]/, '');
+        if (a[f] === b[f]) continue;
+        const d = a[f] == null ? -1 : b[f] == null ? 1 : a[f] < b[f] ? -1 : 1;
+        return desc ? -d : d;
+      }
+      return 0;
+    });
+  }
+  const offset = q.cursor ? Number(q.cursor) || 0 : q.offset || 0;
+  const page = q.limit ? rows.slice(offset, offset + q.limit) : rows.slice(offset);
+  const hasMore = !!q.limit && offset + q.limit < rows.length;
+  const data = q.fields?.length
+    ? page.map((r: any) => Object.fromEntries(['id', 'uid', 'version', ...q.fields!].filter(f => f in r).map(f => [f, r[f]])) as T)
+    : page;
+  return { data, nextCursor: hasMore ? String(offset + (q.limit || 0)) : null, hasMore };
+}
+
+// Neither the GitHub store nor the REST client can hold a lock across requests,
+// so transactions are compensating: every write is logged and, if the callback
+// throws, undone in reverse order before the error is rethrown.
+async function runCompensating<R>(sdk: Omit<DataTransaction, 'get'> & { get<T = any>(collection: string, force?: boolean): Promise<T[]> }, fn: (tx: DataTransaction) => Promise<R>): Promise<R> {
+  const undo: Array<() => Promise<unknown>> = [];
+  const tx: DataTransaction = {
+    get: (collection) => sdk.get(collection, true),
+    find: (collection, filter) => sdk.find(collection, filter),
+    findById: (collection, id) => sdk.findById(collection, id),
+    query: (collection, q) => sdk.query(collection, q),
+    insert: async (collection, item) => {
+      const created = await sdk.insert(collection, item);
+      undo.push(() => sdk.delete(collection, created.id));
+      return created;
+    },
+    update: async (collection, key, updates, options) => {
+      const previous: any = await sdk.findById(collection, key);
+      const updated = await sdk.update(collection, key, updates, options);
+      if (previous) {
+        // Fields the update introduced are cleared; the rest get their old values back.
+        const restore = { ...previous };
+        for (const field of Object.keys(updates)) if (!(field in previous)) restore[field] = null;
+        undo.push(() => sdk.update(collection, key, restore));
+      }
+      return updated;
+    },
+    delete: async (collection, key) => {
+      const previous = await sdk.findById(collection, key);
+      await sdk.delete(collection, key);
+      if (previous) undo.push(() => sdk.insert(collection, previous));
+    },
+  };
+
+  try {
+    return await fn(tx);
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      try {
+        await step();
+      } catch (undoError) {
+        console.error('Transaction rollback step failed:', undoError);
+      }
+    }
+    throw error;
+  }
+}
+
 interface CloudinaryUploadResult {
   public_id: string;
   secure_url: string;
@@ -368,6 +499,22 @@ class UniversalSDK {
           is_abnormal: false
         }
       },
+      early_warning_scores: {
+        required: ['patient_id', 'encounter_id', 'entity_id', 'scale', 'total', 'risk'],
+        types: {
+          patient_id: 'string',
+          encounter_id: 'string',
+          entity_id: 'string',
+          scale: 'string',
+          total: 'number',
+          risk: 'string',
+          escalated: 'boolean',
+          response_minutes: 'number'
+        },
+        defaults: {
+          escalated: false
+        }
+      },
       conditions: {
         required: ['patient_id', 'entity_id', 'condition_name', 'category', 'recorded_by'],
         types: {
@@ -389,12 +536,23 @@ class UniversalSDK {
           patient_id: 'string',
           entity_id: 'string',
           allergen: 'string',
+          allergen_code: 'string',
+          code_system: 'string',
+          category: 'string',
+          reaction: 'string',
+          severity: 'string',
           criticality: 'string',
-          status: 'string'
+          status: 'string',
+          verification_status: 'string',
+          onset_date: 'string',
+          no_known_allergies: 'boolean'
         },
         defaults: {
+          category: 'medication',
           criticality: 'low',
-          status: 'active'
+          status: 'active',
+          verification_status: 'unconfirmed',
+          no_known_allergies: false
         }
       },
       medication_requests: {
@@ -430,6 +588,24 @@ class UniversalSDK {
           patient_acknowledged: false
         }
       },
+      medication_administrations: {
+        required: ['patient_id', 'encounter_id', 'medication_request_id', 'medication_index', 'status', 'administered_at', 'administered_by'],
+        types: {
+          patient_id: 'string',
+          encounter_id: 'string',
+          entity_id: 'string',
+          medication_request_id: 'string',
+          medication_index: 'number',
+          scheduled_for: 'string',
+          prn: 'boolean',
+          status: 'string',
+          administered_at: 'string',
+          effectiveness: 'string'
+        },
+        defaults: {
+          prn: false
+        }
+      },
       lab_orders: {
         required: ['patient_id', 'entity_id', 'orderer_id', 'order_number', 'tests', 'reason_for_test'],
         types: {
@@ -563,10 +739,16 @@ class UniversalSDK {
           patient_id: 'string',
           encounter_id: 'string',
           entity_id: 'string',
-          acuity_level: 'string'
+          scale: 'string',
+          acuity_level: 'string',
+          acuity_rank: 'number',
+          status: 'string',
+          superseded: 'boolean'
         },
         defaults: {
-          acuity_level: 'routine'
+          scale: 'esi',
+          status: 'waiting',
+          superseded: false
         }
       },
       pharmacy_inventory: {
@@ -779,7 +961,8 @@ class UniversalSDK {
     if (schema?.defaults) item = { ...schema.defaults, ...item };
     this.validateSchema(collection, item);
     const id = (Math.max(0, ...arr.map((x: any) => +x.id || 0)) + 1).toString();
-    const newItem = { uid: crypto.randomUUID(), id, ...item } as T & { id: string; uid: string };
+    const { version: _ignored, ...fields } = item as any;
+    const newItem = { uid: crypto.randomUUID(), id, ...fields, version: 1 } as T & { id: string; uid: string };
     arr.push(newItem);
     await this.save(collection, arr);
     this._audit(collection, newItem, "insert");
@@ -887,7 +1070,15 @@ class UniversalSDK {
     });
   }
 
-  async update<T = any>(collection: string, key: string, updates: Partial<T>): Promise<T> {
+  async query<T = any>(collection: string, q: DataQuery = {}): Promise<DataQueryResult<T>> {
+    return runQueryInMemory(await this.get<T>(collection), q);
+  }
+
+  async transaction<R>(fn: (tx: DataTransaction) => Promise<R>): Promise<R> {
+    return runCompensating(this, fn);
+  }
+
+  async update<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): Promise<T> {
     await this.get(collection, true); // Ensure we have latest data
     const arr = [...(this.cache[collection]?.data || [])];
     
@@ -896,7 +1087,12 @@ class UniversalSDK {
       throw new Error(`Item with key "${key}" not found in collection "${collection}".`);
     }
 
-    const updatedItem = { ...arr[itemIndex], ...updates, updated_at: new Date().toISOString() };
+    const current = arr[itemIndex];
+    if (options?.expectedVersion !== undefined && versionOf(current) !== options.expectedVersion) {
+      throw new VersionConflictError(`Version conflict on ${collection}/${key}`, current);
+    }
+    const { version: _ignored, ...changes } = updates as any;
+    const updatedItem = { ...current, ...changes, version: versionOf(current) + 1, updated_at: new Date().toISOString() };
     this.validateSchema(collection, updatedItem);
     arr[itemIndex] = updatedItem;
 
@@ -951,6 +1147,7 @@ class SQLiteClientSDK {
     if (token) headers['Authorization'] = `Bearer ${token}`;
     const res = await fetch(`${this.apiBase}${path}`, { ...options, headers });
     const data = await res.json();
+    if (res.status === 409 && data.current) throw new VersionConflictError(data.error || 'Version conflict', data.current);
     if (!res.ok) throw new Error(data.error || `API error: ${res.status}`);
     return data;
   }
@@ -972,15 +1169,33 @@ class SQLiteClientSDK {
   }
 
   async find<T = any>(collection: string, filterFnOrObject?: ((item: T) => boolean) | Record<string, any>): Promise<T[]> {
-    const arr = await this.get<T>(collection);
-    if (!filterFnOrObject) return arr;
-    if (typeof filterFnOrObject === 'function') return arr.filter(filterFnOrObject as (item: T) => boolean);
-    return arr.filter(record => {
-      for (const [key, value] of Object.entries(filterFnOrObject)) {
-        if ((record as any)[key] !== value) return false;
-      }
-      return true;
-    });
+    if (!filterFnOrObject) return this.get<T>(collection);
+    if (typeof filterFnOrObject === 'function') {
+      const arr = await this.get<T>(collection);
+      return arr.filter(filterFnOrObject as (item: T) => boolean);
+    }
+    // Object filters are evaluated by the backend instead of loading the whole collection.
+    try {
+      const res = await this.req(`/data/${collection}?filter=${encodeURIComponent(JSON.stringify(filterFnOrObject))}`);
+      return res.data || [];
+    } catch { return []; }
+  }
+
+  async query<T = any>(collection: string, q: DataQuery = {}): Promise<DataQueryResult<T>> {
+    const params = new URLSearchParams();
+    if (q.where && Object.keys(q.where).length) params.set('where', JSON.stringify(q.where));
+    if (q.sort) params.set('sort', q.sort);
+    if (q.limit !== undefined) params.set('limit', String(q.limit));
+    if (q.offset !== undefined) params.set('offset', String(q.offset));
+    if (q.cursor) params.set('cursor', q.cursor);
+    if (q.fields?.length) params.set('fields', q.fields.join(','));
+    const qs = params.toString();
+    const res = await this.req(`/data/${collection}${qs ? `?${qs}` : ''}`);
+    return {
+      data: res.data || [],
+      nextCursor: res.page?.nextCursor ?? null,
+      hasMore: !!res.page?.hasMore,
+    };
   }
 
   async insert<T = any>(collection: string, item: Partial<T>): Promise<T & { id: string; uid: string }> {
@@ -991,8 +1206,13 @@ class SQLiteClientSDK {
     return res.data;
   }
 
-  async update<T = any>(collection: string, key: string, updates: Partial<T>): Promise<T> {
-    const res = await this.req(`/data/${collection}/${key}`, { method: 'PUT', body: JSON.stringify(updates) });
+  async transaction<R>(fn: (tx: DataTransaction) => Promise<R>): Promise<R> {
+    return runCompensating(this, fn);
+  }
+
+  async update<T = any>(collection: string, key: string, updates: Partial<T>, options?: UpdateOptions): Promise<T> {
+    const headers: Record<string, string> = options?.expectedVersion !== undefined ? { 'If-Match': `"${options.expectedVersion}"` } : {};
+    const res = await this.req(`/data/${collection}/${key}`, { method: 'PUT', headers, body: JSON.stringify(updates) });
     await this.get(collection, true);
     return res.data;
   }
@@ -1024,6 +1244,10 @@ export type {
   User,
   Session,
   QueryBuilder,
+  DataQuery,
+  DataQueryResult,
+  DataTransaction,
+  UpdateOptions,
   CloudinaryUploadResult
 };
 
@@ -1053,4 +1277,5 @@ const sqliteSDKInstance = new SQLiteClientSDK(allSchemas);
 // is selected server-side via STORAGE_PROVIDER: lightbase primary, sqlite fallback).
 const USE_BACKEND = DB_MODE === 'sqlite' || DB_MODE === 'api' || DB_MODE === 'lightbase';
 export const githubDB = USE_BACKEND ? sqliteSDKInstance : githubSDKInstance;
-export const dbProvider = DB_MODE;
\ No newline at end of file
+export const dbProvider = DB_MODE;
+export const usesBackend = USE_BACKEND;
\ No newline at end of file
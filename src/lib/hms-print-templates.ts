@@ -400,6 +400,47 @@ function patientBanner(patient: any, extraFields: Array<{ label: string; value:
   </div>`;
 }
 
+/**
+ * Build the allergy section printed under the patient banner. A patient whose
+ * allergy status was not supplied is shown as not recorded, never as allergy-free.
+ */
+function allergySection(allergies: PrintAllergies | undefined): string {
+  let content: string;
+  if (allergies?.status === 'allergic' && allergies.allergies.length) {
+    const rows = allergies.allergies
+      .map((a) => {
+        const code = a.allergen_code ? `${esc(a.code_system || '')}: ${esc(a.allergen_code)}` : '—';
+        const severity = a.severity === 'severe'
+          ? `<span class="critical">${esc(a.severity)}</span>`
+          : esc(a.severity || '—');
+        return `<tr>
+            <td><strong>${esc(a.allergen)}</strong></td>
+            <td>${code}</td>
+            <td>${esc(a.category || '—')}</td>
+            <td>${esc(a.reaction || '—')}</td>
+            <td>${severity}</td>
+            <td>${esc((a.verification_status || '—').replace(/_/g, ' '))}</td>
+            <td>${fmtDate(a.onset_date)}</td>
+          </tr>`;
+      })
+      .join('');
+    content = `<table class="data">
+          <thead>
+            <tr><th>Allergen</th><th>Code</th><th>Category</th><th>Reaction</th><th>Severity</th><th>Verification</th><th>Onset</th></tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>`;
+  } else if (allergies?.status === 'nka') {
+    content = `<p style="margin:0;"><strong>No known allergies</strong>${allergies.attestation?.recorded_at ? ` (attested ${fmtDate(allergies.attestation.recorded_at)})` : ''}</p>`;
+  } else {
+    content = `<p class="abnormal" style="margin:0;">Allergy status not recorded. Confirm allergies with the patient.</p>`;
+  }
+  return `<div class="section">
+      <div class="section-title">Allergies & Intolerances</div>
+      <div class="section-body">${content}</div>
+    </div>`;
+}
+
 /**
  * Resolve facility info from a loosely-typed entity record (or build a default).
  */
@@ -474,6 +515,24 @@ export interface PrintPatient {
   phone?: string;
   primary_phone?: string;
   address?: any;
+  allergies?: PrintAllergies;
+}
+
+export interface PrintAllergy {
+  allergen: string;
+  allergen_code?: string;
+  code_system?: string;
+  category?: string;
+  reaction?: string;
+  severity?: string;
+  verification_status?: string;
+  onset_date?: string;
+}
+
+export interface PrintAllergies {
+  status: 'unknown' | 'nka' | 'allergic';
+  allergies: PrintAllergy[];
+  attestation?: { recorded_at?: string };
 }
 
 export interface PrintVital {
@@ -680,6 +739,7 @@ export function generateEncounterSummary(
     ${patientBanner(patient, [
       { label: 'Encounter Date', value: fmtDate(pick(encounter, 'scheduled_start')) }
     ])}
+    ${allergySection(patient.allergies)}
     <div class="section">
       <div class="section-title">Encounter Information</div>
       <div class="section-body">
@@ -801,6 +861,7 @@ export function generatePrescription(
     ${patientBanner(patient, [
       { label: 'Date Prescribed', value: fmtDate(pick(medicationRequest, 'authored_on')) }
     ])}
+    ${allergySection(patient.allergies)}
     ${rxHeader}
     ${prescriberBlock}
     <div class="section">
@@ -983,6 +1044,7 @@ export function generateDischargeSummary(
       { label: 'Admission Date', value: fmtDate(pick(encounter, 'actual_start')) },
       { label: 'Discharge Date', value: fmtDate(pick(encounter, 'actual_end')) }
     ])}
+    ${allergySection(patient.allergies)}
     <div class="section">
       <div class="section-title">Admission & Discharge Details</div>
       <div class="section-body">
@@ -1037,6 +1099,129 @@ export function generateDischargeSummary(
   return buildDocumentShell('Discharge Summary', facilityInfo, body);
 }
 
+export interface PrintMarAdministration {
+  scheduled_for?: string | null;
+  status: string;
+  administered_at?: string;
+  dose?: string;
+  route?: string;
+  site?: string;
+  reason?: string;
+  prn_reason?: string;
+  notes?: string;
+  administered_by?: string;
+  effectiveness?: string;
+  effectiveness_notes?: string;
+}
+
+export interface PrintMarEntry {
+  drug_name: string;
+  generic_name?: string;
+  strength?: string;
+  route?: string;
+  frequency?: string;
+  instructions?: string;
+  starts_at?: string;
+  ends_at?: string | null;
+  prescription_number?: string;
+  // Scheduled doses; a dose with no administration is still outstanding
+  doses: Array<{ scheduled_for: string; state: string; administration?: PrintMarAdministration }>;
+  // PRN and other unscheduled doses
+  unscheduled: PrintMarAdministration[];
+}
+
+/**
+ * Generate a printable medication administration record (MAR) sheet for an
+ * inpatient encounter over a period.
+ */
+export function generateMarSheet(
+  encounter: PrintEncounter,
+  patient: PrintPatient,
+  entries: PrintMarEntry[],
+  period: { from: string; to: string },
+  facility: PrintFacilityOverride & { entity?: any } = {}
+): string {
+  const facilityInfo = resolveFacility(facility.entity, facility);
+
+  const stateCell = (state: string) => {
+    const label = state.replace(/_/g, ' ').toUpperCase();
+    if (state === 'overdue' || state === 'refused') return `<span class="critical">${esc(label)}</span>`;
+    if (state === 'held') return `<span class="abnormal">${esc(label)}</span>`;
+    return esc(label);
+  };
+
+  const medicationBlocks = entries.length
+    ? entries
+        .map((e) => {
+          const order = [e.strength, e.route, e.frequency].filter(Boolean).join(' • ');
+          const course = `${fmtDate(e.starts_at)} – ${e.ends_at ? fmtDate(e.ends_at) : 'until stopped'}`;
+          const doseRows = e.doses.length
+            ? e.doses
+                .map((d) => {
+                  const a = d.administration;
+                  return `<tr>
+            <td>${fmtDateTime(d.scheduled_for)}</td>
+            <td>${stateCell(d.state)}</td>
+            <td>${a ? fmtDateTime(a.administered_at) : '—'}</td>
+            <td>${esc(a?.dose || '—')}</td>
+            <td>${esc(a?.route || '—')}</td>
+            <td>${esc(a?.site || '—')}</td>
+            <td>${esc(a?.reason || a?.notes || '—')}</td>
+            <td>${esc(a?.administered_by || '')}</td>
+          </tr>`;
+                })
+                .join('')
+            : `<tr><td colspan="8" style="text-align:center;color:#94a3b8;">No scheduled doses in this period.</td></tr>`;
+          const unscheduledRows = e.unscheduled
+            .map(
+              (a) => `<tr>
+            <td>${fmtDateTime(a.administered_at)}</td>
+            <td>${stateCell(a.status)}</td>
+            <td>${esc(a.dose || '—')}</td>
+            <td>${esc(a.route || '—')}</td>
+            <td>${esc(a.site || '—')}</td>
+            <td>${esc(a.prn_reason || a.reason || '—')}</td>
+            <td>${esc(a.effectiveness ? `${a.effectiveness.replace(/_/g, ' ')}${a.effectiveness_notes ? ` – ${a.effectiveness_notes}` : ''}` : '—')}</td>
+            <td>${esc(a.administered_by || '')}</td>
+          </tr>`
+            )
+            .join('');
+          return `<div class="section">
+      <div class="section-title">${esc(e.drug_name)}${e.generic_name ? ` (${esc(e.generic_name)})` : ''}</div>
+      <div class="section-body">
+        <p style="margin:0 0 6px 0;"><strong>Order:</strong> ${esc(order || '—')}${e.prescription_number ? ` • Rx ${esc(e.prescription_number)}` : ''} • ${course}</p>
+        ${e.instructions ? `<p style="margin:0 0 6px 0;"><strong>SIG:</strong> ${esc(e.instructions)}</p>` : ''}
+        <table class="data">
+          <thead>
+            <tr><th>Scheduled</th><th>Status</th><th>Time Given</th><th>Dose</th><th>Route</th><th>Site</th><th>Reason / Notes</th><th>By</th></tr>
+          </thead>
+          <tbody>${doseRows}</tbody>
+        </table>
+        ${unscheduledRows ? `<table class="data" style="margin-top:8px;">
+          <thead>
+            <tr><th>PRN / Unscheduled</th><th>Status</th><th>Dose</th><th>Route</th><th>Site</th><th>Reason</th><th>Effectiveness</th><th>By</th></tr>
+          </thead>
+          <tbody>${unscheduledRows}</tbody>
+        </table>` : ''}
+      </div>
+    </div>`;
+        })
+        .join('')
+    : `<div class="section"><div class="section-body"><div class="notes">No medications ordered for this encounter.</div></div></div>`;
+
+  const body = `
+    ${patientBanner(patient, [
+      { label: 'Encounter', value: pick(encounter, 'encounter_code', '—') },
+      { label: 'Ward / Bed', value: `${pick(encounter, 'ward', '—')} / ${pick(encounter, 'bed_id', '—')}` },
+      { label: 'MAR Period', value: `${fmtDateTime(period.from)} – ${fmtDateTime(period.to)}` }
+    ])}
+    ${allergySection(patient.allergies)}
+    ${medicationBlocks}
+  `;
+
+  return buildDocumentShell('Medication Administration Record', facilityInfo, body);
+}
+
 /**
  * Generate a printable bed occupancy report (used by BedManagementPage reports tab).
  */
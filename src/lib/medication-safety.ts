@@ -0,0 +1,259 @@
+// Medication Safety Checks for prescribing and dispensing
+// Screens new medications against the drug knowledge base: ingredient- and
+// class-level interactions (with each other and the patient's active
+// medications), the patient's recorded allergies including class
+// cross-sensitivity, and duplicate therapy. Major and contraindicated alerts
+// stop the prescription or dispense unless the clinician gives a reason.
+import { githubDB, collections } from './database';
+import {
+  DrugKnowledgeBase,
+  DrugIndex,
+  InteractionSeverity,
+  ResolvedDrug,
+  SEVERITY_RANK
+} from './drug-knowledge';
+
+export type SafetyAlertType = 'interaction' | 'allergy' | 'cross_sensitivity' | 'duplicate_therapy';
+
+export interface SafetyAlert {
+  type: SafetyAlertType;
+  severity: InteractionSeverity;
+  drugs: string[];
+  description: string;
+  management?: string;
+  allergy_id?: string;
+}
+
+export interface SafetyOverride {
+  reason: string;
+  overridden_by: string;
+  overridden_at: string;
+  alerts: SafetyAlert[];
+}
+
+// Alerts at these severities need an override reason to proceed
+export const OVERRIDE_SEVERITIES: InteractionSeverity[] = ['major', 'contraindicated'];
+
+export class MedicationSafetyError extends Error {
+  readonly alerts: SafetyAlert[];
+
+  constructor(alerts: SafetyAlert[]) {
+    super(
+      `${alerts.length === 1 ? 'A medication safety alert needs' : `${alerts.length} medication safety alerts need`} an override reason: ` +
+      alerts.map(a => a.description).join('; ')
+    );
+    this.name = 'MedicationSafetyError';
+    this.alerts = alerts;
+  }
+}
+
+export function isMedicationSafetyError(error: unknown): error is MedicationSafetyError {
+  return error instanceof MedicationSafetyError;
+}
+
+export function blockingAlerts(alerts: SafetyAlert[]): SafetyAlert[] {
+  return alerts.filter(a => OVERRIDE_SEVERITIES.includes(a.severity));
+}
+
+interface DrugInput {
+  drug_name: string;
+  generic_name?: string;
+}
+
+interface AllergyRecord {
+  id: string;
+  allergen: string;
+  criticality?: string;
+  status?: string;
+  verification_status?: string;
+  no_known_allergies?: boolean;
+}
+
+const INACTIVE_ALLERGY_STATUSES = ['inactive', 'resolved', 'refuted', 'entered_in_error'];
+
+function screensAllergy(allergy: AllergyRecord): boolean {
+  return (
+    !!allergy.allergen &&
+    !allergy.no_known_allergies &&
+    !INACTIVE_ALLERGY_STATUSES.includes(allergy.status || '') &&
+    !INACTIVE_ALLERGY_STATUSES.includes(allergy.verification_status || '')
+  );
+}
+
+function resolveInput(index: DrugIndex, drug: DrugInput): ResolvedDrug {
+  const resolved = index.resolve(drug.drug_name);
+  if (!resolved.entry && drug.generic_name) {
+    const generic = index.resolve(drug.generic_name);
+    if (generic.entry) return { ...generic, name: drug.drug_name };
+  }
+  return resolved;
+}
+
+function matchesRef(ref: string, drug: ResolvedDrug): boolean {
+  return ref.startsWith('class:')
+    ? drug.classes.includes(ref.slice(6))
+    : drug.ingredients.includes(ref.trim().toLowerCase());
+}
+
+function sameProduct(a: ResolvedDrug, b: ResolvedDrug): boolean {
+  return a.entry ? a.entry === b.entry : !b.entry && a.ingredients[0] === b.ingredients[0];
+}
+
+/**
+ * Pure check over already-loaded data; `current` are the patient's active
+ * medications, which are only compared against the new ones.
+ */
+export function evaluateMedicationSafety(
+  index: DrugIndex,
+  input: { newDrugs: DrugInput[]; currentDrugs: DrugInput[]; allergies: AllergyRecord[] }
+): SafetyAlert[] {
+  const added = input.newDrugs.map(d => resolveInput(index, d));
+  const current = input.currentDrugs.map(d => resolveInput(index, d));
+  const alerts: SafetyAlert[] = [];
+
+  // Every pair with at least one new drug
+  const pairs: Array<[ResolvedDrug, ResolvedDrug]> = [];
+  added.forEach((a, i) => {
+    added.slice(i + 1).forEach(b => pairs.push([a, b]));
+    current.forEach(b => pairs.push([a, b]));
+  });
+
+  for (const [a, b] of pairs) {
+    const drugs = [a.name, b.name];
+
+    // Duplicate therapy: a shared ingredient, or two of a class that should not be doubled
+    const sharedIngredient = a.ingredients.find(i => b.ingredients.includes(i));
+    const sharedClass = a.classes.find(c => b.classes.includes(c) && index.isDuplicateTherapyClass(c));
+    if (sharedIngredient) {
+      alerts.push({
+        type: 'duplicate_therapy',
+        severity: 'major',
+        drugs,
+        description: `${a.name} and ${b.name} both contain ${sharedIngredient}`,
+        management: 'Stop one of them unless the duplication is intended'
+      });
+    } else if (sharedClass) {
+      alerts.push({
+        type: 'duplicate_therapy',
+        severity: 'moderate',
+        drugs,
+        description: `${a.name} and ${b.name} are both ${index.className(sharedClass)}`,
+        management: 'Confirm both are needed'
+      });
+    }
+
+    if (sameProduct(a, b)) continue;
+    for (const rule of index.dictionary.interactions) {
+      const [x, y] = rule.between;
+      if ((matchesRef(x, a) && matchesRef(y, b)) || (matchesRef(x, b) && matchesRef(y, a))) {
+        alerts.push({
+          type: 'interaction',
+          severity: rule.severity,
+          drugs,
+          description: `${a.name} + ${b.name}: ${rule.description}`,
+          management: rule.management
+        });
+      }
+    }
+  }
+
+  for (const allergy of input.allergies) {
+    if (!screensAllergy(allergy)) continue;
+    const namedClasses = index.classesNamed(allergy.allergen);
+    const allergen = index.resolve(allergy.allergen);
+    const allergenIngredients = allergen.entry || namedClasses.length === 0 ? allergen.ingredients : [];
+    // A drug allergy extends to the drug's cross-reactive classes
+    const memberClasses = allergen.entry ? allergen.classes.filter(c => index.isCrossReactiveClass(c)) : [];
+    const allergyClasses = [...namedClasses, ...memberClasses];
+
+    for (const drug of added) {
+      const ingredient = drug.ingredients.find(i => allergenIngredients.includes(i));
+      const named = drug.classes.find(c => namedClasses.includes(c));
+      const member = drug.classes.find(c => memberClasses.includes(c));
+      if (ingredient || named) {
+        alerts.push({
+          type: 'allergy',
+          severity: 'contraindicated',
+          drugs: [drug.name],
+          description: `Patient is allergic to ${allergy.allergen}; ${drug.name} ${ingredient ? `contains ${ingredient}` : `is one of the ${index.className(named!)}`}`,
+          management: 'Choose an agent from another class',
+          allergy_id: allergy.id
+        });
+        continue;
+      }
+      if (member) {
+        alerts.push({
+          type: 'allergy',
+          severity: allergy.criticality === 'low' ? 'moderate' : 'major',
+          drugs: [drug.name],
+          description: `Patient is allergic to ${allergy.allergen}; ${drug.name} is in the same class (${index.className(member)})`,
+          management: 'Confirm the allergy history before giving',
+          allergy_id: allergy.id
+        });
+        continue;
+      }
+      for (const rule of index.dictionary.cross_sensitivities) {
+        const [c1, c2] = rule.classes;
+        const crosses =
+          (allergyClasses.includes(c1) && drug.classes.includes(c2)) ||
+          (allergyClasses.includes(c2) && drug.classes.includes(c1));
+        if (crosses) {
+          alerts.push({
+            type: 'cross_sensitivity',
+            severity: rule.severity,
+            drugs: [drug.name],
+            description: `Patient is allergic to ${allergy.allergen}; ${rule.description}`,
+            allergy_id: allergy.id
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  // One alert per finding, most severe first
+  const seen = new Set<string>();
+  return alerts
+    .filter(alert => {
+      const key = `${alert.type}|${[...alert.drugs].sort().join('|')}|${alert.description}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+export class MedicationSafetyService {
+  // Screen medications for a patient. `excludeRequestId` leaves out the active
+  // medications a prescription itself added (used when dispensing it).
+  static async checkMedications(
+    patientId: string,
+    drugs: DrugInput[],
+    options: { excludeRequestId?: string } = {}
+  ): Promise<SafetyAlert[]> {
+    const [index, activeMeds, allergies] = await Promise.all([
+      DrugKnowledgeBase.getIndex(),
+      githubDB.find(collections.medications, { patient_id: patientId, status: 'active' }),
+      githubDB.find(collections.allergies, { patient_id: patientId })
+    ]);
+    const currentDrugs = activeMeds.filter(
+      (m: any) => !options.excludeRequestId || m.medication_request_id !== options.excludeRequestId
+    );
+    return evaluateMedicationSafety(index, { newDrugs: drugs, currentDrugs, allergies });
+  }
+
+  // Build the override record, or throw if blocking alerts have no reason
+  static resolveOverride(alerts: SafetyAlert[], reason: string | undefined, userId: string): SafetyOverride | null {
+    const blocking = blockingAlerts(alerts);
+    if (blocking.length === 0) return null;
+    if (!reason?.trim()) throw new MedicationSafetyError(blocking);
+    return {
+      reason: reason.trim(),
+      overridden_by: userId,
+      overridden_at: new Date().toISOString(),
+      alerts: blocking
+    };
+  }
+}
+
+export default MedicationSafetyService;
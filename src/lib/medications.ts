@@ -2,6 +2,8 @@
 import { githubDB, collections } from './database';
 import { logger } from './observability';
 import { emailService, NotificationType } from './email-notifications';
+import { CredentialService } from './credentials';
+import { MedicationSafetyService, SafetyAlert, SafetyOverride } from './medication-safety';
 
 // Medication Request Interface (eRx)
 export interface MedicationRequest {
@@ -45,6 +47,10 @@ export interface MedicationRequest {
   reason_code?: string;
   reason_reference?: string;
   
+  // Medication safety screening at signing
+  safety_alerts?: SafetyAlert[];
+  safety_override?: SafetyOverride | null;
+  
   // Metadata
   created_at: string;
   updated_at: string;
@@ -148,31 +154,6 @@ export interface DrugInteraction {
   management?: string;
 }
 
-// Basic drug interactions database (would be expanded in production)
-const DRUG_INTERACTIONS: DrugInteraction[] = [
-  {
-    drug1: 'warfarin',
-    drug2: 'aspirin',
-    severity: 'major',
-    description: 'Increased risk of bleeding',
-    management: 'Monitor INR closely, consider alternative antiplatelet'
-  },
-  {
-    drug1: 'metformin',
-    drug2: 'contrast dye',
-    severity: 'major',
-    description: 'Risk of lactic acidosis',
-    management: 'Discontinue metformin before contrast procedures'
-  },
-  {
-    drug1: 'digoxin',
-    drug2: 'furosemide',
-    severity: 'moderate',
-    description: 'Increased digoxin toxicity risk due to hypokalemia',
-    management: 'Monitor potassium and digoxin levels'
-  }
-];
-
 export class MedicationService {
   
   // Create medication request (eRx)
@@ -187,36 +168,42 @@ export class MedicationService {
     validity_period?: MedicationRequest['validity_period'];
     notes?: string;
     reason_code?: string;
+    // Required when the safety check raises major or contraindicated alerts
+    override_reason?: string;
   }): Promise<MedicationRequest> {
     try {
+      // Prescribers with a lapsed licence or malpractice cover cannot sign
+      await CredentialService.assertCanPrescribe(requestData.prescriber_id);
+
       // Generate prescription number
       const prescriptionNumber = await this.generatePrescriptionNumber();
       
-      // Check for drug interactions
-      const interactions = await this.checkDrugInteractions(
-        requestData.patient_id,
-        requestData.medications.map(m => m.drug_name)
-      );
-      
-      if (interactions.some(i => i.severity === 'contraindicated')) {
-        logger.warn('contraindicated_interaction_detected', 'Contraindicated drug interaction detected', {
-          patient_id: requestData.patient_id,
-          interactions: interactions.filter(i => i.severity === 'contraindicated')
-        });
-      }
+      // Screen for interactions, allergies and duplicate therapy
+      const { override_reason, ...request } = requestData;
+      const alerts = await MedicationSafetyService.checkMedications(request.patient_id, request.medications);
+      const override = MedicationSafetyService.resolveOverride(alerts, override_reason, request.prescriber_id);
       
       const medicationRequest = await githubDB.insert(collections.medication_requests, {
-        ...requestData,
+        ...request,
         prescription_number: prescriptionNumber,
         status: 'active',
         intent: 'order',
+        safety_alerts: alerts,
+        safety_override: override,
         authored_on: new Date().toISOString(),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       });
       
+      if (override) {
+        await this.logAuditEvent('medication_safety_override', medicationRequest.id, request.prescriber_id, {
+          reason: override.reason,
+          alerts: override.alerts.map(a => a.description)
+        });
+      }
+      
       // Add medications to patient's medication list
-      for (const med of requestData.medications) {
+      for (const med of request.medications) {
         await this.addToPatientMedicationList({
           patient_id: requestData.patient_id,
           drug_name: med.drug_name,
@@ -443,37 +430,22 @@ export class MedicationService {
     }
   }
   
-  // Check drug interactions
+  // Check drug interactions (ingredient- and class-level, via the drug knowledge base)
   static async checkDrugInteractions(patientId: string, newDrugs: string[]): Promise<DrugInteraction[]> {
     try {
-      // Get current active medications
-      const currentMeds = await this.getPatientActiveMedications(patientId);
-      const currentDrugs = currentMeds.map(med => med.drug_name.toLowerCase());
-      
-      // Combine with new drugs
-      const allDrugs = [...currentDrugs, ...newDrugs.map(d => d.toLowerCase())];
-      
-      const interactions: DrugInteraction[] = [];
-      
-      // Check all combinations
-      for (let i = 0; i < allDrugs.length; i++) {
-        for (let j = i + 1; j < allDrugs.length; j++) {
-          const drug1 = allDrugs[i];
-          const drug2 = allDrugs[j];
-          
-          // Check both directions
-          const interaction = DRUG_INTERACTIONS.find(inter => 
-            (inter.drug1.toLowerCase() === drug1 && inter.drug2.toLowerCase() === drug2) ||
-            (inter.drug1.toLowerCase() === drug2 && inter.drug2.toLowerCase() === drug1)
-          );
-          
-          if (interaction) {
-            interactions.push(interaction);
-          }
-        }
-      }
-      
-      return interactions;
+      const alerts = await MedicationSafetyService.checkMedications(
+        patientId,
+        newDrugs.map(drug_name => ({ drug_name }))
+      );
+      return alerts
+        .filter(alert => alert.type === 'interaction')
+        .map(alert => ({
+          drug1: alert.drugs[0],
+          drug2: alert.drugs[1],
+          severity: alert.severity,
+          description: alert.description,
+          management: alert.management
+        }));
     } catch (error) {
       logger.error('check_drug_interactions_failed', 'Failed to check drug interactions', { error: error.message });
       return [];
@@ -0,0 +1,311 @@
+// Staff Memberships and Active Entity for the Hospital Management System
+// A user can work at several entities (entity_staff), each with its own role
+// and permissions. The dashboard works in one active entity at a time; in
+// backend mode the choice travels as X-Active-Entity and every HMS call is
+// checked against that membership. Staff join by invitation: the admin
+// invites an email with a role and the invitee accepts with that account.
+import { create } from 'zustand';
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
+import { getDefaultPermissions, useAuth, User, UserType } from './auth';
+import { sendStaffInvitation, sendStaffInvitationAccepted } from './email-notifications';
+
+// Roles a membership can hold (STAFF_ROLES in the backend authorization service)
+export const STAFF_ROLES = ['hospital_admin', 'practitioner', 'physician', 'nurse', 'pharmacist', 'lab_tech', 'imaging_tech', 'billing_clerk'];
+
+// Roles that must record a professional licence when they join
+export const CLINICAL_ROLES = ['practitioner', 'physician', 'nurse', 'pharmacist', 'lab_tech', 'imaging_tech'];
+
+const INVITATION_EXPIRY_DAYS = 7;
+
+export interface StaffMembership {
+  entity_id: string;
+  entity_name: string;
+  entity_type: string | null;
+  role: string;
+  permissions: string[];
+  // The entity on users.entity_id (registered with or provisioned into)
+  home: boolean;
+}
+
+export interface StaffInvitation {
+  id: string;
+  entity_id: string;
+  email: string;
+  role: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  license_required: boolean;
+  invited_by: string;
+  invited_by_email: string;
+  expires_at: string;
+  expired?: boolean;
+  created_at: string;
+}
+
+export interface InvitationPreview {
+  email: string;
+  role: string;
+  entity_id: string;
+  entity_name: string;
+  license_required: boolean;
+  expires_at: string;
+  has_account: boolean;
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export class MembershipService {
+  // Entities the user works at, home entity first
+  static async getMyMemberships(user: User): Promise<StaffMembership[]> {
+    if (usesBackend) return apiClient.getMemberships();
+
+    const memberships: StaffMembership[] = [];
+    const add = async (entityId: string, role: string, permissions: string[], home: boolean) => {
+      if (memberships.some(m => m.entity_id === entityId)) return;
+      const entity = await githubDB.findById(collections.entities, entityId);
+      memberships.push({
+        entity_id: entityId,
+        entity_name: entity?.name || 'Unknown entity',
+        entity_type: entity?.entity_type || null,
+        role,
+        permissions,
+        home
+      });
+    };
+
+    if (user.entity_id) await add(user.entity_id, user.user_type, user.permissions, true);
+    const rows = await githubDB.find(collections.entity_staff, { user_id: user.id });
+    for (const row of rows.filter((r: any) => !r.status || r.status === 'active')) {
+      const permissions = Array.isArray(row.permissions) && row.permissions.length
+        ? row.permissions
+        : getDefaultPermissions(row.role as UserType);
+      await add(row.entity_id, row.role, permissions, false);
+    }
+    return memberships.sort((a, b) => Number(b.home) - Number(a.home) || a.entity_name.localeCompare(b.entity_name));
+  }
+
+  // An entity's staff with their effective permissions (entity admins, backend mode)
+  static async getEntityStaff(entityId: string): Promise<any[]> {
+    if (!usesBackend) return [];
+    return apiClient.getEntityStaff(entityId);
+  }
+
+  static async updateMembership(id: string, patch: { role?: string; permissions?: string[] | null }) {
+    return apiClient.updateStaffMembership(id, patch);
+  }
+
+  // Suspend, reinstate or remove a member; removal is final until they are invited again
+  static async setMembershipStatus(id: string, status: 'active' | 'suspended' | 'removed') {
+    if (usesBackend) return apiClient.setStaffMembershipStatus(id, status);
+    const now = new Date().toISOString();
+    return githubDB.update(collections.entity_staff, id, {
+      status,
+      updated_at: now,
+      ...(status === 'suspended' ? { suspended_at: now } : {}),
+      ...(status === 'removed' ? { removed_at: now } : {})
+    });
+  }
+
+  // Pending invitations for an entity, newest first
+  static async getInvitations(entityId: string): Promise<StaffInvitation[]> {
+    if (usesBackend) return apiClient.getStaffInvitations(entityId);
+    const rows = await githubDB.find(collections.staff_invitations, { entity_id: entityId, status: 'pending' });
+    const now = new Date().toISOString();
+    return rows
+      .map((row: any) => ({ ...row, token: undefined, expired: row.expires_at <= now }))
+      .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at));
+  }
+
+  // Invite an email to the entity with a role and email them the acceptance link
+  static async invite(
+    invite: { entityId: string; email: string; role: string },
+    inviter: { id: string; email: string }
+  ): Promise<StaffInvitation> {
+    const email = invite.email.trim().toLowerCase();
+    if (!STAFF_ROLES.includes(invite.role)) throw new Error(`Unknown staff role '${invite.role}'`);
+
+    let invitation: StaffInvitation;
+    let entityName: string;
+    let token: string;
+    if (usesBackend) {
+      const created = await apiClient.inviteStaff({ entity_id: invite.entityId, email, role: invite.role });
+      ({ invitation, entity_name: entityName, token } = created);
+    } else {
+      const entity = await githubDB.findById(collections.entities, invite.entityId);
+      if (!entity) throw new Error('Entity not found');
+      entityName = entity.name;
+      const pending = await githubDB.find(collections.staff_invitations, { entity_id: invite.entityId, email, status: 'pending' });
+      for (const row of pending) {
+        await githubDB.update(collections.staff_invitations, row.id, { status: 'revoked' });
+      }
+      token = crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '');
+      invitation = await githubDB.insert(collections.staff_invitations, {
+        entity_id: invite.entityId,
+        email,
+        role: invite.role,
+        token: await hashToken(token),
+        status: 'pending',
+        license_required: CLINICAL_ROLES.includes(invite.role),
+        invited_by: inviter.id,
+        invited_by_email: inviter.email,
+        expires_at: new Date(Date.now() + INVITATION_EXPIRY_DAYS * 86400000).toISOString(),
+        created_at: new Date().toISOString()
+      });
+    }
+
+    await sendStaffInvitation(email, {
+      entityName,
+      role: invitation.role,
+      inviterEmail: inviter.email,
+      token,
+      expiresAt: invitation.expires_at,
+      licenseRequired: invitation.license_required
+    });
+    return invitation;
+  }
+
+  static async revokeInvitation(id: string): Promise<void> {
+    if (usesBackend) return apiClient.revokeStaffInvitation(id);
+    await githubDB.update(collections.staff_invitations, id, { status: 'revoked' });
+  }
+
+  private static async findPendingInvitation(token: string): Promise<any> {
+    const row = (await githubDB.find(collections.staff_invitations, { token: await hashToken(token) }))[0];
+    if (!row || row.status !== 'pending') throw new Error('This invitation is no longer valid');
+    if (row.expires_at <= new Date().toISOString()) {
+      throw new Error('This invitation has expired; ask your administrator for a new one');
+    }
+    return row;
+  }
+
+  // What the invitee sees before accepting
+  static async previewInvitation(token: string): Promise<InvitationPreview> {
+    if (usesBackend) return apiClient.getInvitation(token);
+    const row = await this.findPendingInvitation(token);
+    const entity = await githubDB.findById(collections.entities, row.entity_id);
+    const users = await githubDB.find(collections.users, { email: row.email });
+    return {
+      email: row.email,
+      role: row.role,
+      entity_id: row.entity_id,
+      entity_name: entity?.name || 'Unknown entity',
+      license_required: !!row.license_required,
+      expires_at: row.expires_at,
+      has_account: users.length > 0
+    };
+  }
+
+  // Accept as the signed-in user (who must hold the invited email) and tell the inviting admin
+  static async acceptInvitation(
+    token: string,
+    license: { license_number?: string; license_authority?: string },
+    user: User
+  ): Promise<void> {
+    let entityName: string;
+    let role: string;
+    let invitedBy: string;
+    if (usesBackend) {
+      const accepted = await apiClient.acceptInvitation(token, license);
+      entityName = accepted.entity_name;
+      role = accepted.membership.role;
+      invitedBy = accepted.invited_by_email;
+    } else {
+      const row = await this.findPendingInvitation(token);
+      if (user.email.toLowerCase() !== row.email) {
+        throw new Error(`This invitation was sent to ${row.email}; sign in with that email to accept it`);
+      }
+      if (row.license_required && !license.license_number?.trim()) {
+        throw new Error('A licence number is required for this role');
+      }
+      const now = new Date().toISOString();
+      const fields = {
+        role: row.role,
+        permissions: null,
+        status: 'active',
+        license_number: license.license_number?.trim() || null,
+        license_authority: license.license_authority?.trim() || null,
+        invitation_id: row.id,
+        joined_at: now
+      };
+      const existing = (await githubDB.find(collections.entity_staff, { user_id: user.id, entity_id: row.entity_id }))[0];
+      if (existing && existing.status !== 'removed') throw new Error('You are already a member of this entity');
+      if (existing) await githubDB.update(collections.entity_staff, existing.id, fields);
+      else await githubDB.insert(collections.entity_staff, { user_id: user.id, entity_id: row.entity_id, ...fields });
+      await githubDB.update(collections.staff_invitations, row.id, { status: 'accepted', accepted_by: user.id, accepted_at: now });
+      const entity = await githubDB.findById(collections.entities, row.entity_id);
+      entityName = entity?.name || 'Unknown entity';
+      role = row.role;
+      invitedBy = row.invited_by_email;
+    }
+
+    if (invitedBy) {
+      await sendStaffInvitationAccepted(invitedBy, { memberEmail: user.email, entityName, role });
+    }
+    // The new entity shows up in the switcher straight away
+    await useActiveEntity.getState().loadMemberships(user);
+  }
+}
+
+interface ActiveEntityState {
+  memberships: StaffMembership[];
+  activeEntityId: string | null;
+  isLoading: boolean;
+  loadMemberships: (user: User) => Promise<void>;
+  setActiveEntity: (entityId: string) => void;
+  clear: () => void;
+}
+
+export const useActiveEntity = create<ActiveEntityState>((set, get) => ({
+  memberships: [],
+  activeEntityId: apiClient.getActiveEntity(),
+  isLoading: false,
+
+  loadMemberships: async (user: User) => {
+    set({ isLoading: true });
+    try {
+      const memberships = await MembershipService.getMyMemberships(user);
+      // Keep the stored choice while it is still a membership; otherwise fall back to the home entity.
+      const stored = get().activeEntityId;
+      const activeEntityId = memberships.some(m => m.entity_id === stored)
+        ? stored
+        : memberships[0]?.entity_id || null;
+      apiClient.setActiveEntity(activeEntityId);
+      set({ memberships, activeEntityId, isLoading: false });
+    } catch (error) {
+      console.error('Failed to load memberships:', error);
+      set({ isLoading: false });
+    }
+  },
+
+  setActiveEntity: (entityId: string) => {
+    if (!get().memberships.some(m => m.entity_id === entityId)) return;
+    apiClient.setActiveEntity(entityId);
+    set({ activeEntityId: entityId });
+  },
+
+  clear: () => {
+    apiClient.setActiveEntity(null);
+    set({ memberships: [], activeEntityId: null });
+  }
+}));
+
+// Entity the HMS pages work in: the active membership, else the user's own entity
+export function useActiveEntityId(): string | undefined {
+  const user = useAuth(state => state.user);
+  const activeEntityId = useActiveEntity(state => state.activeEntityId);
+  return activeEntityId || user?.entity_id;
+}
+
+// Membership for the active entity, if memberships have loaded
+export function useActiveMembership(): StaffMembership | undefined {
+  const { memberships, activeEntityId } = useActiveEntity();
+  return memberships.find(m => m.entity_id === activeEntityId);
+}
+
+// Forget the active entity on sign-out so the next user starts at their own home entity
+useAuth.subscribe((state, previous) => {
+  if (previous.user && !state.user) useActiveEntity.getState().clear();
+});
@@ -1,6 +1,7 @@
 // Observation Management Service for Hospital Management System
 import { githubDB, collections } from './database';
 import { logger } from './observability';
+import { EarlyWarningService, EarlyWarningScore, EARLY_WARNING_VITALS, Consciousness } from './early-warning';
 
 // Vital Signs Interface
 export interface Vital {
@@ -10,7 +11,7 @@ export interface Vital {
   entity_id: string;
   
   // Observation details
-  type: 'blood_pressure' | 'heart_rate' | 'respiratory_rate' | 'temperature' | 'oxygen_saturation' | 'height' | 'weight' | 'bmi' | 'pain_scale' | 'glucose' | 'other';
+  type: 'blood_pressure' | 'heart_rate' | 'respiratory_rate' | 'temperature' | 'oxygen_saturation' | 'consciousness' | 'height' | 'weight' | 'bmi' | 'pain_scale' | 'glucose' | 'other';
   code?: string; // LOINC-like code
   display_name: string;
   
@@ -23,6 +24,9 @@ export interface Vital {
   systolic?: number;
   diastolic?: number;
   
+  // SpO2 readings: whether the patient was on supplemental oxygen
+  on_supplemental_oxygen?: boolean;
+  
   // Reference ranges
   reference_range?: {
     low?: number;
@@ -78,6 +82,12 @@ export const VITAL_TEMPLATES = {
     unit: '%',
     reference_range: { low: 95, high: 100, text: '95-100%' }
   },
+  consciousness: {
+    type: 'consciousness',
+    display_name: 'Level of Consciousness',
+    unit: 'ACVPU',
+    reference_range: { text: 'A (alert)' }
+  },
   height: {
     type: 'height',
     display_name: 'Height',
@@ -122,6 +132,7 @@ export class ObservationService {
     value_string?: string;
     systolic?: number;
     diastolic?: number;
+    on_supplemental_oxygen?: boolean;
     unit?: string;
     measured_at?: string;
     performer_id: string;
@@ -129,7 +140,7 @@ export class ObservationService {
     method?: string;
     body_site?: string;
     notes?: string;
-  }): Promise<Vital> {
+  }, options: { scoreEarlyWarning?: boolean } = {}): Promise<Vital> {
     try {
       const template = VITAL_TEMPLATES[vitalData.type];
       const measuredAt = vitalData.measured_at || new Date().toISOString();
@@ -172,7 +183,8 @@ export class ObservationService {
         vitalData.type,
         vitalData.value_quantity,
         vitalData.systolic,
-        vitalData.diastolic
+        vitalData.diastolic,
+        vitalData.value_string
       );
       
       const vital = await githubDB.insert(collections.vitals, {
@@ -202,6 +214,16 @@ export class ObservationService {
       
       await this.logAuditEvent('vital_recorded', vital.id, vitalData.performer_id);
       
+      // Re-score the encounter's early warning score; a failure here must not
+      // lose the vital that was just recorded
+      if (vitalData.encounter_id && options.scoreEarlyWarning !== false && EARLY_WARNING_VITALS.includes(vitalData.type)) {
+        try {
+          await EarlyWarningService.scoreEncounter(vitalData.encounter_id, { calculated_by: vitalData.performer_id });
+        } catch (error) {
+          logger.error('early_warning_rescore_failed', 'Failed to re-score early warning', { vital_id: vital.id });
+        }
+      }
+      
       logger.info('vital_recorded', 'Vital sign recorded successfully', {
         vital_id: vital.id,
         patient_id: vitalData.patient_id,
@@ -216,6 +238,51 @@ export class ObservationService {
     }
   }
   
+  // Record a full set of observations taken together at the bedside, then
+  // score the encounter once for the whole set
+  static async recordObservationSet(set: {
+    patient_id: string;
+    encounter_id: string;
+    entity_id: string;
+    performer_id: string;
+    measured_at?: string;
+    respiratory_rate?: number;
+    oxygen_saturation?: number;
+    on_supplemental_oxygen?: boolean;
+    systolic?: number;
+    diastolic?: number;
+    heart_rate?: number;
+    consciousness?: Consciousness;
+    temperature?: number;
+  }, scoring: { age_years?: number; spo2_scale?: 1 | 2 } = {}): Promise<{ vitals: Vital[]; score: EarlyWarningScore | null }> {
+    const common = {
+      patient_id: set.patient_id,
+      encounter_id: set.encounter_id,
+      entity_id: set.entity_id,
+      performer_id: set.performer_id,
+      measured_at: set.measured_at || new Date().toISOString()
+    };
+    const readings: Array<Parameters<typeof ObservationService.recordVital>[0]> = [];
+    if (set.respiratory_rate !== undefined) readings.push({ ...common, type: 'respiratory_rate', value_quantity: set.respiratory_rate });
+    if (set.oxygen_saturation !== undefined) {
+      readings.push({ ...common, type: 'oxygen_saturation', value_quantity: set.oxygen_saturation, on_supplemental_oxygen: !!set.on_supplemental_oxygen });
+    }
+    if (set.systolic !== undefined && set.diastolic !== undefined) {
+      readings.push({ ...common, type: 'blood_pressure', systolic: set.systolic, diastolic: set.diastolic });
+    }
+    if (set.heart_rate !== undefined) readings.push({ ...common, type: 'heart_rate', value_quantity: set.heart_rate });
+    if (set.consciousness) readings.push({ ...common, type: 'consciousness', value_string: set.consciousness });
+    if (set.temperature !== undefined) readings.push({ ...common, type: 'temperature', value_quantity: set.temperature });
+    if (readings.length === 0) throw new Error('Record at least one observation');
+
+    const vitals: Vital[] = [];
+    for (const reading of readings) {
+      vitals.push(await this.recordVital(reading, { scoreEarlyWarning: false }));
+    }
+    const score = await EarlyWarningService.scoreEncounter(set.encounter_id, { ...scoring, calculated_by: set.performer_id });
+    return { vitals, score };
+  }
+  
   // Get patient vitals
   static async getPatientVitals(patientId: string, type?: Vital['type'], limit?: number): Promise<Vital[]> {
     try {
@@ -298,12 +365,13 @@ export class ObservationService {
       
       // Re-assess abnormal status if values changed
       let assessmentUpdates = {};
-      if (updates.value_quantity !== undefined || updates.systolic !== undefined || updates.diastolic !== undefined) {
+      if (updates.value_quantity !== undefined || updates.systolic !== undefined || updates.diastolic !== undefined || updates.value_string !== undefined) {
         const { isAbnormal, abnormalFlag } = this.assessAbnormalValue(
           vital.type,
           updates.value_quantity ?? vital.value_quantity,
           updates.systolic ?? vital.systolic,
-          updates.diastolic ?? vital.diastolic
+          updates.diastolic ?? vital.diastolic,
+          updates.value_string ?? vital.value_string
         );
         assessmentUpdates = { is_abnormal: isAbnormal, abnormal_flag: abnormalFlag };
       }
@@ -360,10 +428,15 @@ export class ObservationService {
   }
   
   // Assess if vital value is abnormal
-  private static assessAbnormalValue(type: Vital['type'], quantity?: number, systolic?: number, diastolic?: number): {
+  private static assessAbnormalValue(type: Vital['type'], quantity?: number, systolic?: number, diastolic?: number, text?: string): {
     isAbnormal: boolean;
     abnormalFlag?: Vital['abnormal_flag'];
   } {
+    // Anything other than alert on ACVPU is a red flag
+    if (type === 'consciousness') {
+      return text && text !== 'A' ? { isAbnormal: true, abnormalFlag: 'critical_low' } : { isAbnormal: false };
+    }
+    
     const template = VITAL_TEMPLATES[type];
     if (!template?.reference_range) {
       return { isAbnormal: false };
@@ -1,4 +1,5 @@
-import { githubDB as db, collections } from './database';
+import { githubDB as db, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
 import { encrypt, decrypt } from './encryption';
 
 export interface PasswordResetToken {
@@ -14,7 +15,35 @@ export interface PasswordResetToken {
 
 const RESET_TOKEN_EXPIRY_HOURS = 1;
 
+// With the backend configured, reset tokens live server-side: the backend emails
+// the link and a completed reset signs the user out of every session.
 export class PasswordResetService {
+  /** Email a reset link. Resolves the same way whether or not the account exists. */
+  static async requestReset(email: string): Promise<void> {
+    if (usesBackend) {
+      await apiClient.requestPasswordReset(email);
+      return;
+    }
+    const { token } = await this.createResetToken(email);
+    const url = this.generateResetURL(token);
+    // Send the reset link via the backend email service (SMTP creds stay server-side).
+    // Never display the reset URL in the UI — that is a security hole.
+    try {
+      const apiBase = (import.meta as any).env?.VITE_API_BASE_URL || '/api';
+      await fetch(`${apiBase}/email/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to: email,
+          subject: 'Reset Your CareConnect Password',
+          html: `<p>We received a request to reset your CareConnect account password.</p><p>Click the link below to reset it (valid for 1 hour):</p><p><a href="${url}">${url}</a></p><p>If you did not request this, you can safely ignore this email.</p>`,
+        }),
+      });
+    } catch (emailErr) {
+      console.warn('Failed to send reset email:', emailErr);
+    }
+  }
+
   static async createResetToken(email: string): Promise<{ token: string; expires_at: string }> {
     const users = await db.find(collections.users, { email });
     if (users.length === 0) throw new Error('No account found with this email address');
@@ -47,6 +76,7 @@ export class PasswordResetService {
   }
 
   static async verifyResetToken(token: string): Promise<{ valid: boolean; user_id: string; email: string }> {
+    if (usesBackend) return { valid: await apiClient.verifyPasswordResetToken(token), user_id: '', email: '' };
     const encryptedToken = encrypt(token);
     const tokens = await db.find(collections.session_tokens, (t: any) =>
       t.type === 'password_reset' && !t.used && new Date(t.expires_at) > new Date()
@@ -60,6 +90,10 @@ export class PasswordResetService {
 
   static async resetPassword(token: string, newPassword: string): Promise<boolean> {
     if (newPassword.length < 8) throw new Error('Password must be at least 8 characters');
+    if (usesBackend) {
+      await apiClient.confirmPasswordReset(token, newPassword);
+      return true;
+    }
 
     const verification = await this.verifyResetToken(token);
     if (!verification.valid) throw new Error('Invalid or expired reset token');
@@ -0,0 +1,143 @@
+// Duplicate Patient Detection and Merge Service for Hospital Management System
+import { usesBackend } from './database';
+import { apiClient } from './api-client';
+import { logger } from './observability';
+
+// Scored candidate returned by the duplicate check
+export interface PatientMatch {
+  patient_id: string;
+  patient_code: string;
+  name_snippet: string;
+  primary_entity_id: string | null;
+  score: number;
+  level: 'likely' | 'possible';
+  reasons: string[];
+}
+
+interface PatientSummary {
+  id: string;
+  patient_code: string;
+  name_snippet: string;
+  primary_entity_id: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+// Pair queued for review when a registration looks like an existing patient
+export interface DuplicateFlag {
+  id: string;
+  patient_id: string;
+  candidate_id: string;
+  entity_id: string | null;
+  score: number;
+  level: 'likely' | 'possible';
+  reasons: string[];
+  status: 'open' | 'merged' | 'dismissed';
+  notes?: string;
+  created_at: string;
+  patient: PatientSummary;
+  candidate: PatientSummary;
+}
+
+// Completed merge; `moved` lists the record ids re-pointed per collection
+export interface PatientMerge {
+  id: string;
+  survivor_id: string;
+  merged_id: string;
+  flag_id: string | null;
+  reason: string;
+  moved: Record<string, string[]>;
+  links_moved: string[];
+  links_deactivated: string[];
+  user_id_moved?: string | null;
+  status: 'merged' | 'unmerged';
+  merged_by: string;
+  merged_at: string;
+  unmerged_by?: string;
+  unmerged_at?: string;
+  unmerge_reason?: string;
+}
+
+// Matching runs over the encrypted search index, so it needs the backend.
+const BACKEND_ONLY = 'Duplicate detection and merging require the CareConnect backend';
+
+export class PatientMergeService {
+
+  // Existing patients that look like the person being registered, best match first
+  static async findMatches(probe: {
+    name: string;
+    dob?: string;
+    sex?: string;
+    phones?: string[];
+    identifiers?: Array<{ type: string; value: string; issuer?: string }>;
+  }, excludeId?: string): Promise<PatientMatch[]> {
+    if (!usesBackend) return [];
+    try {
+      return await apiClient.matchPatients<PatientMatch>({ ...probe, exclude_id: excludeId });
+    } catch (error) {
+      logger.error('patient_match_failed', 'Failed to check for duplicate patients', { error: error.message });
+      return [];
+    }
+  }
+
+  static async getDuplicateFlags(status: DuplicateFlag['status'] = 'open'): Promise<DuplicateFlag[]> {
+    if (!usesBackend) return [];
+    try {
+      return await apiClient.getDuplicatePatients<DuplicateFlag>(status);
+    } catch (error) {
+      logger.error('get_duplicate_flags_failed', 'Failed to get duplicate patients', { error: error.message });
+      return [];
+    }
+  }
+
+  // Mark a flagged pair as different people
+  static async dismissFlag(flagId: string, notes?: string): Promise<DuplicateFlag> {
+    if (!usesBackend) throw new Error(BACKEND_ONLY);
+    try {
+      return await apiClient.dismissDuplicatePatient<DuplicateFlag>(flagId, notes);
+    } catch (error) {
+      logger.error('dismiss_duplicate_failed', 'Failed to dismiss duplicate patient flag', { flag_id: flagId, error: error.message });
+      throw error;
+    }
+  }
+
+  // Move the duplicate's records to the survivor and deactivate the duplicate
+  static async merge(request: { survivor_id: string; merged_id: string; flag_id?: string; reason: string }): Promise<PatientMerge> {
+    if (!usesBackend) throw new Error(BACKEND_ONLY);
+    try {
+      const merge = await apiClient.mergePatients<PatientMerge>(request);
+      logger.warn('patients_merged', 'Patient records merged', {
+        merge_id: merge.id,
+        survivor_id: request.survivor_id,
+        merged_id: request.merged_id
+      });
+      return merge;
+    } catch (error) {
+      logger.error('patient_merge_failed', 'Failed to merge patients', { error: error.message });
+      throw error;
+    }
+  }
+
+  static async getMerges(patientId?: string): Promise<PatientMerge[]> {
+    if (!usesBackend) return [];
+    try {
+      return await apiClient.getPatientMerges<PatientMerge>(patientId);
+    } catch (error) {
+      logger.error('get_patient_merges_failed', 'Failed to get patient merges', { error: error.message });
+      return [];
+    }
+  }
+
+  // Undo a merge; records added to the survivor since then stay with it
+  static async unmerge(mergeId: string, reason: string): Promise<PatientMerge> {
+    if (!usesBackend) throw new Error(BACKEND_ONLY);
+    try {
+      const merge = await apiClient.unmergePatients<PatientMerge>(mergeId, reason);
+      logger.warn('patients_unmerged', 'Patient merge undone', { merge_id: mergeId });
+      return merge;
+    } catch (error) {
+      logger.error('patient_unmerge_failed', 'Failed to undo patient merge', { merge_id: mergeId, error: error.message });
+      throw error;
+    }
+  }
+}
@@ -1,8 +1,10 @@
 // Patient Management Service for Hospital Management System
-import { githubDB, collections } from './database';
-import { encrypt, decrypt } from './encryption';
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
+import { encryptPHI, decryptPHI } from './encryption';
 import { UserType } from './auth';
 import { logger } from './observability';
+import { BreakGlassService } from './break-glass';
 
 // Patient Interface
 export interface Patient {
@@ -73,6 +75,11 @@ export interface DecryptedPatient extends Omit<Patient, 'encrypted_name' | 'encr
     postal_code: string;
     country: string;
   };
+  /** Set when the record was opened through break-the-glass emergency access */
+  emergency_access?: {
+    grant_id: string;
+    expires_at: string;
+  };
   emergency_contacts: Array<{
     name: string;
     relationship: string;
@@ -81,6 +88,32 @@ export interface DecryptedPatient extends Omit<Patient, 'encrypted_name' | 'encr
   }>;
 }
 
+// Safe search projection (name snippet only)
+export interface PatientSearchResult {
+  id: string;
+  patient_code: string;
+  name_snippet: string;
+  primary_entity_id: string;
+  is_active: boolean;
+}
+
+// Structured search; with the backend each field is an exact keyed-hash (blind index) lookup
+export interface PatientSearchCriteria {
+  surname?: string;
+  dob?: string;
+  phone?: string;
+  mrn?: string;
+}
+
+const nameSnippetOf = (name: string): string => {
+  const nameWords = name.trim().split(/\s+/);
+  return nameWords.length > 1
+    ? `${nameWords[0]} ${nameWords[nameWords.length - 1][0]}***`
+    : `${nameWords[0].substring(0, 3)}***`;
+};
+
+const phoneDigits = (phone: string): string => phone.replace(/\D/g, '').slice(-10);
+
 export class PatientService {
   
   // Create patient with encrypted PHI
@@ -113,13 +146,13 @@ export class PatientService {
       
       // Encrypt sensitive fields
       const encryptedData = {
-        encrypted_name: await encrypt(patientData.name),
-        encrypted_dob: await encrypt(patientData.dob),
-        encrypted_sex: await encrypt(patientData.sex),
-        encrypted_phones: await encrypt(JSON.stringify(patientData.phones)),
-        encrypted_emails: await encrypt(JSON.stringify(patientData.emails)),
-        encrypted_address: await encrypt(JSON.stringify(patientData.address)),
-        encrypted_emergency_contacts: await encrypt(JSON.stringify(patientData.emergency_contacts))
+        encrypted_name: await encryptPHI(patientData.name),
+        encrypted_dob: await encryptPHI(patientData.dob),
+        encrypted_sex: await encryptPHI(patientData.sex),
+        encrypted_phones: await encryptPHI(JSON.stringify(patientData.phones)),
+        encrypted_emails: await encryptPHI(JSON.stringify(patientData.emails)),
+        encrypted_address: await encryptPHI(JSON.stringify(patientData.address)),
+        encrypted_emergency_contacts: await encryptPHI(JSON.stringify(patientData.emergency_contacts))
       };
       
       const patient = await githubDB.insert(collections.patients, {
@@ -179,13 +212,13 @@ export class PatientService {
       const encryptedUpdates: any = {};
       
       // Encrypt any sensitive field updates
-      if (updates.name) encryptedUpdates.encrypted_name = await encrypt(updates.name);
-      if (updates.dob) encryptedUpdates.encrypted_dob = await encrypt(updates.dob);
-      if (updates.sex) encryptedUpdates.encrypted_sex = await encrypt(updates.sex);
-      if (updates.phones) encryptedUpdates.encrypted_phones = await encrypt(JSON.stringify(updates.phones));
-      if (updates.emails) encryptedUpdates.encrypted_emails = await encrypt(JSON.stringify(updates.emails));
-      if (updates.address) encryptedUpdates.encrypted_address = await encrypt(JSON.stringify(updates.address));
-      if (updates.emergency_contacts) encryptedUpdates.encrypted_emergency_contacts = await encrypt(JSON.stringify(updates.emergency_contacts));
+      if (updates.name) encryptedUpdates.encrypted_name = await encryptPHI(updates.name);
+      if (updates.dob) encryptedUpdates.encrypted_dob = await encryptPHI(updates.dob);
+      if (updates.sex) encryptedUpdates.encrypted_sex = await encryptPHI(updates.sex);
+      if (updates.phones) encryptedUpdates.encrypted_phones = await encryptPHI(JSON.stringify(updates.phones));
+      if (updates.emails) encryptedUpdates.encrypted_emails = await encryptPHI(JSON.stringify(updates.emails));
+      if (updates.address) encryptedUpdates.encrypted_address = await encryptPHI(JSON.stringify(updates.address));
+      if (updates.emergency_contacts) encryptedUpdates.encrypted_emergency_contacts = await encryptPHI(JSON.stringify(updates.emergency_contacts));
       
       // Add non-encrypted updates
       if (updates.preferences) encryptedUpdates.preferences = updates.preferences;
@@ -211,16 +244,15 @@ export class PatientService {
     }
   }
   
-  // Search patients with safe projections
-  static async searchPatients(query: string, entityId?: string, limit: number = 50): Promise<Array<{
-    id: string;
-    patient_code: string;
-    name_snippet: string;
-    primary_entity_id: string;
-    is_active: boolean;
-  }>> {
+  // Search patients with safe projections. The backend matches surname, date of
+  // birth, phone, MRN or patient code through blind indexes; GitHub mode scans.
+  static async searchPatients(query: string, entityId?: string, limit: number = 50): Promise<PatientSearchResult[]> {
     try {
-      let patients = await githubDB.find(collections.patients, { is_active: true });
+      if (usesBackend) {
+        return await apiClient.searchPatients<PatientSearchResult>({ q: query, entity_id: entityId, limit });
+      }
+
+      const where: any = { is_active: true };
       
       // Filter by entity if specified
       if (entityId) {
@@ -228,31 +260,30 @@ export class PatientService {
           entity_id: entityId,
           status: 'active'
         });
-        const linkedPatientIds = links.map(link => link.patient_id);
-        patients = patients.filter(patient => linkedPatientIds.includes(patient.id));
+        where.id = { in: links.map(link => link.patient_id) };
       }
       
+      const { data: patients } = await githubDB.query(collections.patients, {
+        where,
+        fields: ['patient_code', 'encrypted_name', 'primary_entity_id', 'is_active']
+      });
+      
       // Search and return safe projections
       const results = [];
       
       for (const patient of patients.slice(0, limit)) {
         try {
-          const decryptedName = await decrypt(patient.encrypted_name);
+          const decryptedName = await decryptPHI(patient.encrypted_name);
           
           // Check if query matches
           if (decryptedName.toLowerCase().includes(query.toLowerCase()) || 
               patient.patient_code.toLowerCase().includes(query.toLowerCase())) {
             
             // Return safe snippet
-            const nameWords = decryptedName.split(' ');
-            const nameSnippet = nameWords.length > 1 
-              ? `${nameWords[0]} ${nameWords[nameWords.length - 1][0]}***`
-              : `${nameWords[0].substring(0, 3)}***`;
-            
             results.push({
               id: patient.id,
               patient_code: patient.patient_code,
-              name_snippet: nameSnippet,
+              name_snippet: nameSnippetOf(decryptedName),
               primary_entity_id: patient.primary_entity_id,
               is_active: patient.is_active
             });
@@ -270,6 +301,52 @@ export class PatientService {
     }
   }
   
+  // Search by exact surname, date of birth, phone and/or MRN (all given must match)
+  static async searchPatientsBy(criteria: PatientSearchCriteria, entityId?: string, limit: number = 50): Promise<PatientSearchResult[]> {
+    try {
+      if (usesBackend) {
+        return await apiClient.searchPatients<PatientSearchResult>({ ...criteria, entity_id: entityId, limit });
+      }
+
+      let patients = await githubDB.find(collections.patients, entityId ? { primary_entity_id: entityId, is_active: true } : { is_active: true });
+      if (criteria.mrn) {
+        const mrn = criteria.mrn.trim().toUpperCase();
+        const identifiers = await githubDB.find(collections.patient_identifiers, { type: 'mrn' });
+        const ids = new Set(identifiers.filter(i => decryptPHI(i.encrypted_value).trim().toUpperCase() === mrn).map(i => i.patient_id));
+        patients = patients.filter(p => ids.has(p.id));
+      }
+
+      const results: PatientSearchResult[] = [];
+      for (const patient of patients) {
+        if (results.length >= limit) break;
+        try {
+          const name = decryptPHI(patient.encrypted_name);
+          const nameWords = name.trim().split(/\s+/);
+          if (criteria.surname && nameWords[nameWords.length - 1].toLowerCase() !== criteria.surname.trim().toLowerCase()) continue;
+          if (criteria.dob && decryptPHI(patient.encrypted_dob) !== criteria.dob) continue;
+          if (criteria.phone) {
+            const phones: string[] = JSON.parse(decryptPHI(patient.encrypted_phones) || '[]');
+            if (!phones.some(phone => phoneDigits(phone) === phoneDigits(criteria.phone!))) continue;
+          }
+          results.push({
+            id: patient.id,
+            patient_code: patient.patient_code,
+            name_snippet: nameSnippetOf(name),
+            primary_entity_id: patient.primary_entity_id,
+            is_active: patient.is_active
+          });
+        } catch (decryptError) {
+          // Skip patients with decryption errors
+          continue;
+        }
+      }
+      return results;
+    } catch (error) {
+      logger.error('patient_search_failed', 'Failed to search patients', { error: error.message });
+      return [];
+    }
+  }
+
   // Get full patient details (decrypted)
   static async getPatientDetails(patientId: string, requestingUserId: string): Promise<DecryptedPatient | null> {
     try {
@@ -279,17 +356,31 @@ export class PatientService {
       // Decrypt sensitive fields
       const decryptedPatient: DecryptedPatient = {
         ...patient,
-        name: await decrypt(patient.encrypted_name),
-        dob: await decrypt(patient.encrypted_dob),
-        sex: await decrypt(patient.encrypted_sex),
-        phones: JSON.parse(await decrypt(patient.encrypted_phones)),
-        emails: JSON.parse(await decrypt(patient.encrypted_emails)),
-        address: JSON.parse(await decrypt(patient.encrypted_address)),
-        emergency_contacts: JSON.parse(await decrypt(patient.encrypted_emergency_contacts))
+        name: await decryptPHI(patient.encrypted_name),
+        dob: await decryptPHI(patient.encrypted_dob),
+        sex: await decryptPHI(patient.encrypted_sex),
+        phones: JSON.parse(await decryptPHI(patient.encrypted_phones)),
+        emails: JSON.parse(await decryptPHI(patient.encrypted_emails)),
+        address: JSON.parse(await decryptPHI(patient.encrypted_address)),
+        emergency_contacts: JSON.parse(await decryptPHI(patient.encrypted_emergency_contacts))
       };
       
-      // Log access
-      await this.logAuditEvent('patient_accessed', patientId, requestingUserId);
+      // Flag access made under a break-the-glass grant
+      const emergencyGrant = patient.user_id !== requestingUserId
+        ? await BreakGlassService.getActiveGrant(patientId, requestingUserId)
+        : null;
+      if (emergencyGrant) {
+        decryptedPatient.emergency_access = {
+          grant_id: emergencyGrant.id,
+          expires_at: emergencyGrant.expires_at!
+        };
+        await this.logAuditEvent('patient_accessed_emergency', patientId, requestingUserId, {
+          access_grant_id: emergencyGrant.id,
+          break_glass: true
+        });
+      } else {
+        await this.logAuditEvent('patient_accessed', patientId, requestingUserId);
+      }
       
       return decryptedPatient;
     } catch (error) {
@@ -357,7 +448,7 @@ export class PatientService {
       const identifier = await githubDB.insert(collections.patient_identifiers, {
         patient_id: patientId,
         type: type,
-        encrypted_value: await encrypt(value),
+        encrypted_value: await encryptPHI(value),
         issuer: issuer,
         is_primary: isPrimary,
         created_at: new Date().toISOString()
@@ -1,7 +1,9 @@
 // Pharmacy Management Service for Hospital Management System
-import { githubDB, collections } from './database';
+import { githubDB, collections, usesBackend } from './database';
+import { apiClient } from './api-client';
 import { logger } from './observability';
 import { emailService, NotificationType } from './email-notifications';
+import { SafetyOverride } from './medication-safety';
 
 // Pharmacy Inventory Interface
 export interface PharmacyInventory {
@@ -179,51 +181,97 @@ export class PharmacyService {
     counseling_provided: boolean;
     pickup_method: 'in_person' | 'delivery' | 'mail' | 'curbside';
     notes?: string;
+    // Reason the pharmacist gave for dispensing despite major safety alerts
+    safety_override?: SafetyOverride | null;
   }): Promise<void> {
     try {
-      // Check inventory availability
-      for (const med of dispenseData.medications) {
-        const inventory = await this.findInventoryByDrug(dispenseData.pharmacy_entity_id, med.drug_name);
-        if (!inventory || inventory.quantity_on_hand < med.quantity_dispensed) {
-          throw new Error(`Insufficient inventory for ${med.drug_name}`);
-        }
-      }
-      
-      // Update inventory quantities
-      for (const med of dispenseData.medications) {
-        const inventory = await this.findInventoryByDrug(dispenseData.pharmacy_entity_id, med.drug_name);
-        if (inventory) {
-          await this.updateInventoryQuantity(
-            inventory.id, 
-            -med.quantity_dispensed, 
-            `Dispensed to patient ${dispenseData.patient_id}`,
-            dispenseData.dispenser_id
-          );
+      if (usesBackend) {
+        // The backend runs stock, dispense and request updates in one database transaction.
+        const { dispenser_id, ...payload } = dispenseData;
+        await apiClient.dispenseMedication(payload);
+      } else {
+        await githubDB.transaction(async (tx) => {
+          const now = new Date().toISOString();
+
+          for (const med of dispenseData.medications) {
+            const [inventory] = await tx.find<PharmacyInventory>(collections.pharmacy_inventory, {
+              entity_id: dispenseData.pharmacy_entity_id,
+              drug_name: med.drug_name,
+              is_active: true
+            });
+            if (!inventory || inventory.quantity_on_hand < med.quantity_dispensed) {
+              throw new Error(`Insufficient inventory for ${med.drug_name}`);
+            }
+
+            const newQuantity = inventory.quantity_on_hand - med.quantity_dispensed;
+            await tx.update(collections.pharmacy_inventory, inventory.id, {
+              quantity_on_hand: newQuantity,
+              updated_at: now
+            });
+            if (newQuantity <= inventory.reorder_point) {
+              await tx.insert(collections.notifications, {
+                recipient_type: 'entity',
+                recipient_id: inventory.entity_id,
+                type: 'low_stock_alert',
+                title: 'Low Stock Alert',
+                message: `${inventory.drug_name} is running low (${newQuantity} ${inventory.unit_of_measure} remaining)`,
+                data: {
+                  inventory_id: inventory.id,
+                  drug_name: inventory.drug_name,
+                  current_quantity: newQuantity,
+                  reorder_point: inventory.reorder_point
+                },
+                priority: 'medium',
+                is_read: false,
+                created_at: now
+              });
+            }
+          }
+
+          const dispense = await tx.insert(collections.medication_dispenses, {
+            medication_request_id: dispenseData.medication_request_id,
+            pharmacy_entity_id: dispenseData.pharmacy_entity_id,
+            patient_id: dispenseData.patient_id,
+            status: 'completed',
+            dispensed_medications: dispenseData.medications.map(med => ({
+              drug_name: med.drug_name,
+              quantity_dispensed: med.quantity_dispensed,
+              lot_number: med.lot_number,
+              expiry_date: med.expiry_date
+            })),
+            dispenser_id: dispenseData.dispenser_id,
+            counseling_provided: dispenseData.counseling_provided,
+            pickup_method: dispenseData.pickup_method,
+            patient_acknowledged: true,
+            dispensed_at: now,
+            notes: dispenseData.notes,
+            safety_override: dispenseData.safety_override || null,
+            created_at: now,
+            updated_at: now
+          });
+
+          if (await tx.findById(collections.medication_requests, dispenseData.medication_request_id)) {
+            await tx.update(collections.medication_requests, dispenseData.medication_request_id, {
+              status: 'completed',
+              dispense_id: dispense.id,
+              dispensed_at: now,
+              updated_at: now
+            });
+          }
+        });
+
+        await this.logAuditEvent('medication_dispensed', dispenseData.medication_request_id, dispenseData.dispenser_id, {
+          patient_id: dispenseData.patient_id,
+          items: dispenseData.medications.length
+        });
+        if (dispenseData.safety_override) {
+          await this.logAuditEvent('medication_safety_override', dispenseData.medication_request_id, dispenseData.dispenser_id, {
+            reason: dispenseData.safety_override.reason,
+            alerts: dispenseData.safety_override.alerts.map(a => a.description)
+          });
         }
       }
       
-      // Create dispense record (this would integrate with MedicationService)
-      await githubDB.insert(collections.medication_dispenses, {
-        medication_request_id: dispenseData.medication_request_id,
-        pharmacy_entity_id: dispenseData.pharmacy_entity_id,
-        patient_id: dispenseData.patient_id,
-        status: 'completed',
-        dispensed_medications: dispenseData.medications.map(med => ({
-          drug_name: med.drug_name,
-          quantity_dispensed: med.quantity_dispensed,
-          lot_number: med.lot_number,
-          expiry_date: med.expiry_date
-        })),
-        dispenser_id: dispenseData.dispenser_id,
-        counseling_provided: dispenseData.counseling_provided,
-        pickup_method: dispenseData.pickup_method,
-        patient_acknowledged: true,
-        dispensed_at: new Date().toISOString(),
-        notes: dispenseData.notes,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      });
-      
       logger.info('medication_dispensed', 'Medication dispensed successfully', {
         request_id: dispenseData.medication_request_id,
         pharmacy_id: dispenseData.pharmacy_entity_id,
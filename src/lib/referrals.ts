@@ -2,6 +2,7 @@
 import { githubDB, collections } from './database';
 import { logger } from './observability';
 import { emailService, NotificationType } from './email-notifications';
+import { AllergyService, formatAllergySummary } from './allergies';
 
 // Referral Interface
 export interface Referral {
@@ -66,7 +67,7 @@ export interface Referral {
 
 export class ReferralService {
   
-  // Create referral
+  // Create referral; allergies are filled from the patient's allergy record unless given
   static async createReferral(referralData: {
     patient_id: string;
     encounter_id?: string;
@@ -91,9 +92,12 @@ export class ReferralService {
   }): Promise<Referral> {
     try {
       const referralNumber = await this.generateReferralNumber();
+      const allergies = referralData.allergies ??
+        formatAllergySummary(await AllergyService.getAllergySummary(referralData.patient_id));
       
       const referral = await githubDB.insert(collections.referrals, {
         ...referralData,
+        allergies,
         referral_number: referralNumber,
         status: 'draft',
         created_at: new Date().toISOString(),
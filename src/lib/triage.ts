@@ -0,0 +1,446 @@
+// Emergency Department Triage Service for Hospital Management System
+// Patients arriving at the ED are triaged on the entity's acuity scale (ESI or
+// Manchester). Triage opens an emergency encounter whose priority follows the
+// acuity, records triage vitals through ObservationService, and places the
+// patient in the waiting room until a doctor sees them. Re-triage adds a new
+// note and supersedes the old one, so the acuity history is kept.
+import { githubDB, collections } from './database';
+import { logger } from './observability';
+import { EncounterService, Encounter } from './encounters';
+import { EntityService } from './entities';
+import { ObservationService } from './observations';
+import type { Consciousness } from './early-warning';
+
+export type TriageScale = 'esi' | 'manchester';
+export type TriageStatus = 'waiting' | 'seen' | 'left';
+
+export interface AcuityLevel {
+  value: string;
+  label: string;
+  description: string;
+  // 1 is the most urgent, on either scale
+  rank: number;
+  priority: Encounter['priority'];
+  // Longest wait before a doctor should see the patient
+  target_minutes: number;
+  colour: string;
+}
+
+export interface TriageVitals {
+  respiratory_rate?: number;
+  oxygen_saturation?: number;
+  on_supplemental_oxygen?: boolean;
+  systolic?: number;
+  diastolic?: number;
+  heart_rate?: number;
+  consciousness?: Consciousness;
+  temperature?: number;
+  pain_score?: number;
+}
+
+export interface TriageNote {
+  id: string;
+  patient_id: string;
+  encounter_id: string;
+  entity_id: string;
+
+  scale: TriageScale;
+  acuity_level: string;
+  acuity_rank: number;
+  target_minutes: number;
+  chief_complaint: string;
+  notes?: string;
+  vital_ids: string[];
+
+  // Door time, carried over on re-triage
+  arrived_at: string;
+  triaged_at: string;
+  triage_nurse_id: string;
+
+  status: TriageStatus;
+  provider_seen_at?: string;
+  provider_id?: string;
+  left_at?: string;
+
+  // Re-triage
+  retriage_of?: string;
+  retriage_reason?: string;
+  superseded: boolean;
+
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WaitingPatient extends TriageNote {
+  wait_minutes: number;
+  over_target: boolean;
+}
+
+export interface DoorToDoctorStats {
+  arrivals: number;
+  seen: number;
+  waiting: number;
+  left_without_being_seen: number;
+  median_door_to_triage_minutes: number | null;
+  median_door_to_doctor_minutes: number | null;
+  average_door_to_doctor_minutes: number | null;
+  within_target_rate: number | null;
+  by_acuity: Array<{ level: string; label: string; seen: number; median_door_to_doctor_minutes: number | null; within_target: number }>;
+}
+
+export const ACUITY_SCALES: Record<TriageScale, { label: string; levels: AcuityLevel[] }> = {
+  esi: {
+    label: 'Emergency Severity Index (ESI)',
+    levels: [
+      { value: '1', label: 'ESI 1 — Resuscitation', description: 'Needs an immediate life-saving intervention', rank: 1, priority: 'emergency', target_minutes: 0, colour: 'bg-red-600 text-white' },
+      { value: '2', label: 'ESI 2 — Emergent', description: 'High-risk situation, confused/lethargic, or severe pain or distress', rank: 2, priority: 'emergency', target_minutes: 10, colour: 'bg-orange-500 text-white' },
+      { value: '3', label: 'ESI 3 — Urgent', description: 'Stable, needs two or more resources', rank: 3, priority: 'urgent', target_minutes: 30, colour: 'bg-yellow-400 text-gray-900' },
+      { value: '4', label: 'ESI 4 — Less urgent', description: 'Stable, needs one resource', rank: 4, priority: 'routine', target_minutes: 60, colour: 'bg-green-500 text-white' },
+      { value: '5', label: 'ESI 5 — Non-urgent', description: 'Stable, needs no resources', rank: 5, priority: 'routine', target_minutes: 120, colour: 'bg-blue-500 text-white' }
+    ]
+  },
+  manchester: {
+    label: 'Manchester Triage System',
+    levels: [
+      { value: 'red', label: 'Red — Immediate', description: 'Immediate resuscitation', rank: 1, priority: 'emergency', target_minutes: 0, colour: 'bg-red-600 text-white' },
+      { value: 'orange', label: 'Orange — Very urgent', description: 'Seen within 10 minutes', rank: 2, priority: 'emergency', target_minutes: 10, colour: 'bg-orange-500 text-white' },
+      { value: 'yellow', label: 'Yellow — Urgent', description: 'Seen within 60 minutes', rank: 3, priority: 'urgent', target_minutes: 60, colour: 'bg-yellow-400 text-gray-900' },
+      { value: 'green', label: 'Green — Standard', description: 'Seen within 120 minutes', rank: 4, priority: 'routine', target_minutes: 120, colour: 'bg-green-500 text-white' },
+      { value: 'blue', label: 'Blue — Non-urgent', description: 'Seen within 240 minutes', rank: 5, priority: 'routine', target_minutes: 240, colour: 'bg-blue-500 text-white' }
+    ]
+  }
+};
+
+export const DEFAULT_TRIAGE_SCALE: TriageScale = 'esi';
+
+export function acuityLevel(scale: TriageScale, value: string): AcuityLevel | undefined {
+  return ACUITY_SCALES[scale]?.levels.find(l => l.value === value);
+}
+
+const minutesBetween = (from: string, to: string | Date) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Waiting room order: most urgent first, then longest wait
+export function sortWaitingRoom(notes: TriageNote[], now: Date = new Date()): WaitingPatient[] {
+  return notes
+    .map(note => {
+      const wait = minutesBetween(note.arrived_at, now);
+      return { ...note, wait_minutes: wait, over_target: wait > note.target_minutes };
+    })
+    .sort((a, b) => a.acuity_rank - b.acuity_rank || a.arrived_at.localeCompare(b.arrived_at));
+}
+
+export class TriageService {
+
+  // The acuity scale an entity triages on
+  static async getTriageScale(entityId: string): Promise<TriageScale> {
+    const entity = await EntityService.getEntity(entityId);
+    return entity?.features?.triage_scale || DEFAULT_TRIAGE_SCALE;
+  }
+
+  static async setTriageScale(entityId: string, scale: TriageScale, updatedBy: string): Promise<void> {
+    if (!ACUITY_SCALES[scale]) throw new Error(`Unknown triage scale: ${scale}`);
+    const entity = await EntityService.getEntity(entityId);
+    if (!entity) throw new Error('Entity not found');
+    await EntityService.updateEntity(entityId, { features: { ...entity.features, triage_scale: scale } });
+    await this.logAuditEvent('triage_scale_changed', entityId, updatedBy, { scale });
+  }
+
+  // Triage an arriving patient: open an emergency encounter at the acuity's
+  // priority, record the triage vitals and put the patient in the queue
+  static async triagePatient(input: {
+    patient_id: string;
+    entity_id: string;
+    acuity_level: string;
+    chief_complaint: string;
+    arrived_at?: string;
+    vitals?: TriageVitals;
+    notes?: string;
+    triage_nurse_id: string;
+  }): Promise<{ triage: TriageNote; encounter: Encounter }> {
+    const scale = await this.getTriageScale(input.entity_id);
+    const level = acuityLevel(scale, input.acuity_level);
+    if (!level) throw new Error(`Choose an acuity level on the ${ACUITY_SCALES[scale].label}`);
+    if (!input.chief_complaint.trim()) throw new Error('A chief complaint is required');
+
+    const now = new Date().toISOString();
+    const arrivedAt = input.arrived_at ? new Date(input.arrived_at).toISOString() : now;
+    if (arrivedAt > now) throw new Error('The arrival time cannot be in the future');
+
+    try {
+      const encounter = await EncounterService.createEncounter({
+        patient_id: input.patient_id,
+        entity_id: input.entity_id,
+        type: 'emergency',
+        priority: level.priority,
+        scheduled_start: arrivedAt,
+        reason_for_visit: input.chief_complaint.trim(),
+        chief_complaint: input.chief_complaint.trim(),
+        department: 'Emergency',
+        assigned_nurse_id: input.triage_nurse_id,
+        created_by: input.triage_nurse_id
+      });
+
+      const vitalIds = await this.recordVitals(input.vitals, {
+        patient_id: input.patient_id,
+        encounter_id: encounter.id,
+        entity_id: input.entity_id,
+        performer_id: input.triage_nurse_id
+      });
+
+      const triage = await githubDB.insert(collections.triage_notes, {
+        patient_id: input.patient_id,
+        encounter_id: encounter.id,
+        entity_id: input.entity_id,
+        scale,
+        acuity_level: level.value,
+        acuity_rank: level.rank,
+        target_minutes: level.target_minutes,
+        chief_complaint: input.chief_complaint.trim(),
+        notes: input.notes?.trim() || undefined,
+        vital_ids: vitalIds,
+        arrived_at: arrivedAt,
+        triaged_at: now,
+        triage_nurse_id: input.triage_nurse_id,
+        status: 'waiting',
+        superseded: false,
+        created_at: now,
+        updated_at: now
+      }) as TriageNote;
+
+      await this.logAuditEvent('patient_triaged', triage.id, input.triage_nurse_id, {
+        encounter_id: encounter.id,
+        scale,
+        acuity_level: level.value
+      });
+
+      logger.info('patient_triaged', 'ED patient triaged', {
+        triage_id: triage.id,
+        encounter_id: encounter.id,
+        acuity_level: level.value,
+        priority: level.priority
+      });
+
+      return { triage, encounter };
+    } catch (error) {
+      logger.error('triage_failed', 'Failed to triage patient', { error: error.message });
+      throw error;
+    }
+  }
+
+  // Re-triage a waiting patient; the new note supersedes the old one and the
+  // encounter's priority follows the new acuity
+  static async retriage(current: TriageNote, input: {
+    acuity_level: string;
+    chief_complaint?: string;
+    reason: string;
+    vitals?: TriageVitals;
+    notes?: string;
+    triage_nurse_id: string;
+  }): Promise<TriageNote> {
+    if (current.superseded) throw new Error('This triage has already been superseded; re-triage from the latest one');
+    if (current.status !== 'waiting') throw new Error('Only patients still waiting can be re-triaged');
+    const level = acuityLevel(current.scale, input.acuity_level);
+    if (!level) throw new Error(`Choose an acuity level on the ${ACUITY_SCALES[current.scale].label}`);
+    if (!input.reason.trim()) throw new Error('Give a reason for re-triage');
+
+    try {
+      const vitalIds = await this.recordVitals(input.vitals, {
+        patient_id: current.patient_id,
+        encounter_id: current.encounter_id,
+        entity_id: current.entity_id,
+        performer_id: input.triage_nurse_id
+      });
+
+      const now = new Date().toISOString();
+      const triage = await githubDB.insert(collections.triage_notes, {
+        patient_id: current.patient_id,
+        encounter_id: current.encounter_id,
+        entity_id: current.entity_id,
+        scale: current.scale,
+        acuity_level: level.value,
+        acuity_rank: level.rank,
+        target_minutes: level.target_minutes,
+        chief_complaint: input.chief_complaint?.trim() || current.chief_complaint,
+        notes: input.notes?.trim() || undefined,
+        vital_ids: vitalIds,
+        arrived_at: current.arrived_at,
+        triaged_at: now,
+        triage_nurse_id: input.triage_nurse_id,
+        status: 'waiting',
+        retriage_of: current.id,
+        retriage_reason: input.reason.trim(),
+        superseded: false,
+        created_at: now,
+        updated_at: now
+      }) as TriageNote;
+      await githubDB.update(collections.triage_notes, current.id, { superseded: true, updated_at: now });
+
+      if (level.priority !== acuityLevel(current.scale, current.acuity_level)?.priority) {
+        await EncounterService.updateEncounter(current.encounter_id, { priority: level.priority }, input.triage_nurse_id);
+      }
+
+      await this.logAuditEvent('patient_retriaged', triage.id, input.triage_nurse_id, {
+        encounter_id: current.encounter_id,
+        from: current.acuity_level,
+        to: level.value,
+        reason: input.reason.trim()
+      });
+
+      return triage;
+    } catch (error) {
+      logger.error('retriage_failed', 'Failed to re-triage patient', { triage_id: current.id, error: error.message });
+      throw error;
+    }
+  }
+
+  // A doctor has seen the patient: this stops the door-to-doctor clock and
+  // starts the encounter
+  static async markSeen(triage: TriageNote, providerId: string): Promise<TriageNote> {
+    if (triage.status !== 'waiting') throw new Error('This patient is no longer waiting');
+
+    const now = new Date().toISOString();
+    const updated = await githubDB.update(collections.triage_notes, triage.id, {
+      status: 'seen',
+      provider_seen_at: now,
+      provider_id: providerId,
+      updated_at: now
+    });
+    await EncounterService.updateEncounter(triage.encounter_id, { attending_physician_id: providerId }, providerId);
+    await EncounterService.updateStatus(triage.encounter_id, 'in_progress', providerId);
+
+    await this.logAuditEvent('triage_seen_by_provider', triage.id, providerId, {
+      encounter_id: triage.encounter_id,
+      door_to_doctor_minutes: minutesBetween(triage.arrived_at, now)
+    });
+
+    return { ...triage, ...updated } as TriageNote;
+  }
+
+  // The patient left before a doctor saw them
+  static async markLeftWithoutBeingSeen(triage: TriageNote, recordedBy: string): Promise<TriageNote> {
+    if (triage.status !== 'waiting') throw new Error('This patient is no longer waiting');
+
+    const now = new Date().toISOString();
+    const updated = await githubDB.update(collections.triage_notes, triage.id, {
+      status: 'left',
+      left_at: now,
+      updated_at: now
+    });
+    await EncounterService.updateStatus(triage.encounter_id, 'cancelled', recordedBy, 'Left without being seen');
+
+    await this.logAuditEvent('triage_left_without_being_seen', triage.id, recordedBy, {
+      encounter_id: triage.encounter_id
+    });
+
+    return { ...triage, ...updated } as TriageNote;
+  }
+
+  // Patients waiting to see a doctor, most urgent and longest waiting first
+  static async getWaitingRoom(entityId: string, now: Date = new Date()): Promise<WaitingPatient[]> {
+    try {
+      const notes: TriageNote[] = await githubDB.find(collections.triage_notes, { entity_id: entityId, status: 'waiting' });
+      return sortWaitingRoom(notes.filter(n => !n.superseded), now);
+    } catch (error) {
+      logger.error('get_waiting_room_failed', 'Failed to get ED waiting room', { entity_id: entityId, error: error.message });
+      return [];
+    }
+  }
+
+  // Every triage for an encounter, oldest first
+  static async getTriageHistory(encounterId: string): Promise<TriageNote[]> {
+    const notes: TriageNote[] = await githubDB.find(collections.triage_notes, { encounter_id: encounterId });
+    return notes.sort((a, b) => a.triaged_at.localeCompare(b.triaged_at));
+  }
+
+  // Door-to-triage and door-to-doctor times for ED arrivals over a period
+  static async getDoorToDoctorStats(entityId: string, startDate: string, endDate: string): Promise<DoorToDoctorStats> {
+    const notes: TriageNote[] = await githubDB.find(collections.triage_notes, { entity_id: entityId });
+    const inRange = notes.filter(n => n.arrived_at >= startDate && n.arrived_at < endDate);
+
+    // One visit per encounter: its first triage for door-to-triage, its latest for the outcome
+    const visits = new Map<string, { first: TriageNote; current: TriageNote }>();
+    for (const note of inRange.sort((a, b) => a.triaged_at.localeCompare(b.triaged_at))) {
+      const visit = visits.get(note.encounter_id);
+      if (visit) visit.current = note;
+      else visits.set(note.encounter_id, { first: note, current: note });
+    }
+    const all = [...visits.values()];
+    const seen = all.filter(v => v.current.status === 'seen' && v.current.provider_seen_at);
+    const doorToDoctor = (v: { current: TriageNote }) => minutesBetween(v.current.arrived_at, v.current.provider_seen_at!);
+    const withinTarget = (v: { current: TriageNote }) => doorToDoctor(v) <= v.current.target_minutes;
+
+    const scale = await this.getTriageScale(entityId);
+    const byAcuity = ACUITY_SCALES[scale].levels.map(level => {
+      const group = seen.filter(v => v.current.scale === scale && v.current.acuity_level === level.value);
+      return {
+        level: level.value,
+        label: level.label,
+        seen: group.length,
+        median_door_to_doctor_minutes: median(group.map(doorToDoctor)),
+        within_target: group.filter(withinTarget).length
+      };
+    });
+
+    const d2d = seen.map(doorToDoctor);
+    return {
+      arrivals: all.length,
+      seen: seen.length,
+      waiting: all.filter(v => v.current.status === 'waiting').length,
+      left_without_being_seen: all.filter(v => v.current.status === 'left').length,
+      median_door_to_triage_minutes: median(all.map(v => minutesBetween(v.first.arrived_at, v.first.triaged_at))),
+      median_door_to_doctor_minutes: median(d2d),
+      average_door_to_doctor_minutes: d2d.length > 0 ? d2d.reduce((sum, m) => sum + m, 0) / d2d.length : null,
+      within_target_rate: seen.length > 0 ? (seen.filter(withinTarget).length / seen.length) * 100 : null,
+      by_acuity: byAcuity
+    };
+  }
+
+  // Triage vitals go through ObservationService, which also scores NEWS2/PEWS
+  private static async recordVitals(vitals: TriageVitals | undefined, context: {
+    patient_id: string;
+    encounter_id: string;
+    entity_id: string;
+    performer_id: string;
+  }): Promise<string[]> {
+    if (!vitals) return [];
+    const { pain_score, ...observations } = vitals;
+    const ids: string[] = [];
+    if (Object.values(observations).some(v => v !== undefined)) {
+      const { vitals: recorded } = await ObservationService.recordObservationSet({ ...context, ...observations });
+      ids.push(...recorded.map(v => v.id));
+    }
+    if (pain_score !== undefined) {
+      const pain = await ObservationService.recordVital({ ...context, type: 'pain_scale', value_quantity: pain_score });
+      ids.push(pain.id);
+    }
+    return ids;
+  }
+
+  // Log audit events
+  private static async logAuditEvent(action: string, triageId: string, userId: string, metadata?: any): Promise<void> {
+    try {
+      await githubDB.insert(collections.audit_logs, {
+        action,
+        resource_type: 'triage_note',
+        resource_id: triageId,
+        user_id: userId,
+        metadata: metadata || {},
+        timestamp: new Date().toISOString(),
+        ip_address: 'unknown',
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown'
+      });
+    } catch (error) {
+      logger.error('audit_log_failed', 'Failed to log audit event', { error: error.message });
+    }
+  }
+}
+
+export default TriageService;
@@ -0,0 +1,22 @@
+// Optimistic concurrency on the client: records carry a `version`, updates may
+// pass the version they were based on, and a stale one raises this error with
+// the record as it is now stored so the UI can offer to merge and retry.
+
+export class VersionConflictError extends Error {
+  readonly current: any;
+
+  constructor(message: string, current: any) {
+    super(message);
+    this.name = 'VersionConflictError';
+    this.current = current;
+  }
+}
+
+export function isVersionConflict(error: unknown): error is VersionConflictError {
+  return error instanceof VersionConflictError;
+}
+
+/** Records written before versioning count as version 0 (matches the backend). */
+export function versionOf(record: any): number {
+  return Number.isInteger(record?.version) ? record.version : 0;
+}
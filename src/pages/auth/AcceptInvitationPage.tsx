@@ -0,0 +1,151 @@
+// Staff invitation acceptance page. Invitees land here from the invitation
+// email; they sign in (or register) with the invited email, give their
+// licence details when the role is clinical, and join the entity.
+import React, { useState, useEffect } from 'react';
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '../../lib/auth';
+import { MembershipService, InvitationPreview, useActiveEntity } from '../../lib/memberships';
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+export default function AcceptInvitationPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token') || '';
+  const { user, isAuthenticated } = useAuth();
+
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [licenseNumber, setLicenseNumber] = useState('');
+  const [licenseAuthority, setLicenseAuthority] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This invitation link is incomplete.');
+      setLoading(false);
+      return;
+    }
+    MembershipService.previewInvitation(token)
+      .then(setInvitation)
+      .catch((err: any) => setError(err.message || 'This invitation is no longer valid.'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const returnPath = `/invite/accept?token=${token}`;
+  const wrongAccount = !!(user && invitation && user.email.toLowerCase() !== invitation.email);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !invitation) return;
+    setError('');
+    setAccepting(true);
+    try {
+      await MembershipService.acceptInvitation(
+        token,
+        { license_number: licenseNumber, license_authority: licenseAuthority },
+        user
+      );
+      useActiveEntity.getState().setActiveEntity(invitation.entity_id);
+      navigate('/dashboard/hms');
+    } catch (err: any) {
+      setError(err.message || 'Failed to accept the invitation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-teal-50 to-white dark:from-gray-900 dark:to-gray-800 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Join Your Team</h1>
+          {invitation && (
+            <p className="text-gray-600 dark:text-gray-400 mt-2">
+              You have been invited to join <strong>{invitation.entity_name}</strong> as{' '}
+              <strong className="capitalize">{invitation.role.replace(/_/g, ' ')}</strong>.
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading && <p className="text-center text-sm text-gray-500">Checking your invitation...</p>}
+
+        {invitation && !isAuthenticated && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Sign in as <strong>{invitation.email}</strong> to accept. The invitation expires on{' '}
+              {new Date(invitation.expires_at).toLocaleString()}.
+            </p>
+            {invitation.has_account ? (
+              <Link
+                to={`/login?redirect=${encodeURIComponent(returnPath)}`}
+                className="block w-full py-3 text-center bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg transition"
+              >
+                Sign In to Accept
+              </Link>
+            ) : (
+              <Link
+                to={`/register?email=${encodeURIComponent(invitation.email)}&redirect=${encodeURIComponent(returnPath)}`}
+                className="block w-full py-3 text-center bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg transition"
+              >
+                Create Account to Accept
+              </Link>
+            )}
+          </div>
+        )}
+
+        {invitation && isAuthenticated && wrongAccount && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            This invitation was sent to <strong>{invitation.email}</strong>, but you are signed in as{' '}
+            <strong>{user!.email}</strong>. Sign out and sign in with the invited email to accept it.
+          </p>
+        )}
+
+        {invitation && isAuthenticated && !wrongAccount && (
+          <form onSubmit={handleAccept} className="space-y-4">
+            {invitation.license_required && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Licence Number</label>
+                  <input
+                    type="text"
+                    value={licenseNumber}
+                    onChange={e => setLicenseNumber(e.target.value)}
+                    required
+                    className={inputClass}
+                    placeholder="Your professional licence or registration number"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Issuing Body</label>
+                  <input
+                    type="text"
+                    value={licenseAuthority}
+                    onChange={e => setLicenseAuthority(e.target.value)}
+                    className={inputClass}
+                    placeholder="e.g. Medical and Dental Council"
+                  />
+                </div>
+              </>
+            )}
+            <button
+              type="submit"
+              disabled={accepting}
+              className="w-full py-3 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+            >
+              {accepting ? 'Joining...' : 'Accept Invitation'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
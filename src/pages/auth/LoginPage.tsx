@@ -3,6 +3,8 @@ import React, { useState } from 'react';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth, UserType } from '../../lib/auth';
 import { useToast } from '../../components/ui/Toast';
+import { apiClient } from '../../lib/api-client';
+import { usesBackend } from '../../lib/database';
 import {
   Mail,
   Lock,
@@ -10,13 +12,15 @@ import {
   EyeOff,
   AlertCircle,
   Loader2,
-  Stethoscope
+  Stethoscope,
+  ShieldCheck,
+  Building2
 } from 'lucide-react';
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { login, user, isAuthenticated } = useAuth();
+  const { login, verifyMfa, cancelMfa, mfaChallenge, user, isAuthenticated } = useAuth();
   const { success, error: showError, info } = useToast();
   
   const [formData, setFormData] = useState({
@@ -25,7 +29,10 @@ const LoginPage: React.FC = () => {
   });
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState(searchParams.get('sso_error') || '');
+  const [mfaCode, setMfaCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [ssoConnections, setSsoConnections] = useState<Array<{ id: string; name: string }>>([]);
 
   const redirectTo = searchParams.get('redirect') || '/';
   const message = searchParams.get('message');
@@ -67,6 +74,15 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const goToDashboard = () => {
+    success('Welcome back!', 'You have been successfully signed in.');
+    // Get updated user from auth store
+    const currentUser = useAuth.getState().user;
+    const dashboardRoute = currentUser ? getDashboardRoute(currentUser.user_type) : '/dashboard';
+    const finalRedirect = redirectTo === '/' ? dashboardRoute : redirectTo;
+    navigate(finalRedirect);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -75,12 +91,10 @@ const LoginPage: React.FC = () => {
     try {
       const loginSuccess = await login(formData.email, formData.password);
       if (loginSuccess) {
-        success('Welcome back!', 'You have been successfully signed in.');
-        // Get updated user from auth store
-        const currentUser = useAuth.getState().user;
-        const dashboardRoute = currentUser ? getDashboardRoute(currentUser.user_type) : '/dashboard';
-        const finalRedirect = redirectTo === '/' ? dashboardRoute : redirectTo;
-        navigate(finalRedirect);
+        goToDashboard();
+      } else if (useAuth.getState().mfaChallenge) {
+        // Password accepted; the MFA step renders next.
+        setMfaCode('');
       } else {
         showError('Login Failed', 'Invalid email or password. Please check your credentials and try again.');
         setError('Invalid email or password. Please try again.');
@@ -93,6 +107,110 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  // Single sign-on: find the organisation's identity provider from the email
+  // domain and hand the browser over to it. It returns via /sso/complete.
+  const handleSso = async () => {
+    setError('');
+    if (!formData.email.includes('@')) {
+      setError('Enter your work email to sign in with your organisation.');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const connections = await apiClient.discoverSso(formData.email);
+      if (connections.length === 1) {
+        window.location.href = apiClient.ssoStartUrl(connections[0].id);
+        return;
+      }
+      setSsoConnections(connections);
+      if (connections.length === 0) setError('Single sign-on is not set up for this email domain. Sign in with your password.');
+    } catch (err: any) {
+      setError(err.message || 'Could not look up single sign-on.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      if (await verifyMfa(mfaCode)) goToDashboard();
+    } catch (err: any) {
+      setError(err.message || 'Verification failed. Please try again.');
+      setMfaCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMfaCancel = () => {
+    cancelMfa();
+    setError('');
+    setMfaCode('');
+    setUseBackupCode(false);
+  };
+
+  const renderMfaStep = () => (
+    <form className="space-y-6" onSubmit={handleMfaSubmit}>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <ShieldCheck className="w-8 h-8 text-primary flex-shrink-0" />
+        <p className="text-sm text-gray-600">
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved when you set up MFA. Each code works once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      <input
+        type="text"
+        autoComplete="one-time-code"
+        autoFocus
+        required
+        value={mfaCode}
+        onChange={(e) => setMfaCode(useBackupCode ? e.target.value.slice(0, 11) : e.target.value.replace(/\D/g, '').slice(0, 6))}
+        placeholder={useBackupCode ? 'xxxxx-xxxxx' : '000000'}
+        className="block w-full px-3 py-3 border border-gray-300 rounded-lg text-center text-lg tracking-widest focus:ring-2 focus:ring-primary focus:border-transparent"
+      />
+
+      <button
+        type="submit"
+        disabled={isLoading || (!useBackupCode && mfaCode.length !== 6)}
+        className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          'Verify'
+        )}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-primary hover:text-primary/80 font-medium"
+          onClick={() => { setUseBackupCode(!useBackupCode); setMfaCode(''); setError(''); }}
+        >
+          {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+        </button>
+        <button type="button" className="text-gray-500 hover:text-gray-700" onClick={handleMfaCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -113,12 +231,13 @@ const LoginPage: React.FC = () => {
             Welcome back to CareConnect
           </h2>
           <p className="mt-2 text-sm text-gray-600">
-            Sign in to access your healthcare dashboard
+            {mfaChallenge ? 'Two-step verification' : 'Sign in to access your healthcare dashboard'}
           </p>
         </div>
 
         {/* Login Form */}
         <div className="bg-white py-8 px-6 shadow-lg rounded-xl">
+          {mfaChallenge ? renderMfaStep() : (
           <form className="space-y-6" onSubmit={handleSubmit}>
             {/* Error Message */}
             {error && (
@@ -211,6 +330,30 @@ const LoginPage: React.FC = () => {
               )}
             </button>
           </form>
+          )}
+
+          {usesBackend && !mfaChallenge && (
+            <div className="mt-6 pt-6 border-t border-gray-200 space-y-2">
+              <button
+                type="button"
+                onClick={handleSso}
+                disabled={isLoading}
+                className="w-full flex justify-center items-center py-3 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Building2 className="w-4 h-4 mr-2" />
+                Sign in with your organisation (SSO)
+              </button>
+              {ssoConnections.length > 1 && ssoConnections.map((connection) => (
+                <a
+                  key={connection.id}
+                  href={apiClient.ssoStartUrl(connection.id)}
+                  className="block w-full text-center py-2 text-sm text-primary hover:text-primary/80 font-medium"
+                >
+                  Continue with {connection.name}
+                </a>
+              ))}
+            </div>
+          )}
 
         </div>
 
@@ -24,6 +24,8 @@ const RegisterPage: React.FC = () => {
   const { success, error: showError } = useToast();
   
   const defaultUserType = searchParams.get('type') === 'provider' ? UserType.PRACTITIONER : UserType.PUBLIC_USER;
+  // Staff invitations send invitees here with their email and a way back to the acceptance page
+  const redirectAfterLogin = searchParams.get('redirect');
   
   const [step, setStep] = useState(1);
   const [formData, setFormData] = useState({
@@ -31,7 +33,7 @@ const RegisterPage: React.FC = () => {
     user_type: defaultUserType,
     
     // Step 2: Basic Info
-    email: '',
+    email: searchParams.get('email') || '',
     password: '',
     confirmPassword: '',
     first_name: '',
@@ -204,7 +206,7 @@ const RegisterPage: React.FC = () => {
       if (registrationSuccess) {
         success('Account Created!', 'Welcome to CareConnect. Your account has been created successfully. Please login to continue.');
         // Navigate to login page instead of auto-login
-        navigate('/login?message=registration_success');
+        navigate(`/login?message=registration_success${redirectAfterLogin ? `&redirect=${encodeURIComponent(redirectAfterLogin)}` : ''}`);
       } else {
         showError('Registration Failed', 'Unable to create your account. Please try again.');
         setError('Registration failed. Please try again.');
@@ -0,0 +1,42 @@
+// Single sign-on return page. The backend redirects here with a one-time
+// code after the identity provider signs the user in; swapping it for a
+// session finishes the sign-in. The login page then routes to the dashboard,
+// or asks for the MFA code when the account has MFA on.
+import React, { useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '../../lib/auth';
+
+const SsoCallbackPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { completeSso } = useAuth();
+  const started = useRef(false);
+
+  useEffect(() => {
+    // The code is single-use; guard against the effect running twice.
+    if (started.current) return;
+    started.current = true;
+    const code = searchParams.get('code');
+    if (!code) {
+      navigate('/login?sso_error=' + encodeURIComponent('Sign-in response was incomplete. Please try again.'), { replace: true });
+      return;
+    }
+    completeSso(code)
+      .then(() => navigate('/login', { replace: true }))
+      .catch((err: any) => {
+        navigate('/login?sso_error=' + encodeURIComponent(err.message || 'Single sign-on failed. Please try again.'), { replace: true });
+      });
+  }, [searchParams, completeSso, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin mx-auto mb-3" />
+        <p className="text-sm text-gray-600">Signing you in...</p>
+      </div>
+    </div>
+  );
+};
+
+export default SsoCallbackPage;
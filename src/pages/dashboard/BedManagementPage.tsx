@@ -8,11 +8,15 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { BedService } from '@/lib/bed-management';
+import { AllergyService, AllergySummary } from '@/lib/allergies';
 import { getEntity } from '@/lib/entities';
 import { githubDB as dbHelpers, collections } from '@/lib/database';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
 import { generateBedOccupancyReport } from '@/lib/hms-print-templates';
 import PrintButton from '@/components/hms/PrintButton';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import { 
   Bed, 
   Plus, 
@@ -31,8 +35,10 @@ import {
 
 export default function BedManagementPage() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const toast = useToastService();
   const [beds, setBeds] = useState([]);
+  const [allergySummaries, setAllergySummaries] = useState<Record<string, AllergySummary>>({});
   const [occupancyStats, setOccupancyStats] = useState(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
@@ -47,23 +53,31 @@ export default function BedManagementPage() {
   const [reportDateTo, setReportDateTo] = useState<string>(new Date().toISOString().split('T')[0]);
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadBedData();
       loadEntityInfo();
     }
-  }, [user?.entity_id, selectedWard]);
+  }, [entityId, selectedWard]);
+
+  // Bed moves by other staff (admissions, transfers, cleaning) show up without a reload.
+  const { connected: live } = useLiveUpdates([collections.bed_management], {
+    onChanges: (changes) => {
+      if (changes.some(c => !c.record || c.record.entity_id === entityId)) loadBedData(true);
+    },
+    onResync: () => loadBedData(true)
+  }, !!entityId);
 
   // Load bed data when the Reports tab is opened.
   useEffect(() => {
-    if (activeTab === 'reports' && user?.entity_id) {
+    if (activeTab === 'reports' && entityId) {
       loadReportBeds();
     }
-  }, [activeTab, user?.entity_id]);
+  }, [activeTab, entityId]);
 
   const loadEntityInfo = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     try {
-      const ent = await getEntity(user.entity_id);
+      const ent = await getEntity(entityId);
       setEntityInfo(ent);
     } catch (e) {
       setEntityInfo(null);
@@ -71,11 +85,11 @@ export default function BedManagementPage() {
   };
 
   const loadReportBeds = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     setReportLoading(true);
     setReportError('');
     try {
-      const allBeds = await dbHelpers.find(collections.bed_management, { entity_id: user.entity_id });
+      const allBeds = await dbHelpers.find(collections.bed_management, { entity_id: entityId });
       setReportBeds(Array.isArray(allBeds) ? allBeds : []);
     } catch (err) {
       console.error('Failed to load bed report data:', err);
@@ -86,20 +100,21 @@ export default function BedManagementPage() {
     }
   };
 
-  const loadBedData = async () => {
-    if (!user?.entity_id) return;
+  const loadBedData = async (silent = false) => {
+    if (!entityId) return;
 
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       
       const [wardOccupancy, wardBeds] = await Promise.all([
-        BedService.getWardOccupancy(user.entity_id, selectedWard === 'all' ? undefined : selectedWard),
+        BedService.getWardOccupancy(entityId, selectedWard === 'all' ? undefined : selectedWard),
         selectedWard === 'all' 
-          ? await getBedsByEntity(user.entity_id)
-          : BedService.getBedsByWard(user.entity_id, selectedWard)
+          ? await getBedsByEntity(entityId)
+          : BedService.getBedsByWard(entityId, selectedWard)
       ]);
       
       setOccupancyStats(wardOccupancy);
+      setAllergySummaries(await AllergyService.getAllergySummaries(wardBeds.map((b: any) => b.current_patient_id)));
       setBeds(wardBeds);
     } catch (error) {
       console.error('Failed to load bed data:', error);
@@ -219,6 +234,9 @@ export default function BedManagementPage() {
                 Since: {new Date(bed.occupied_since).toLocaleDateString()}
               </p>
             )}
+            <div className="mt-2">
+              <AllergyBanner patientId={bed.current_patient_id} summary={allergySummaries[bed.current_patient_id]} compact />
+            </div>
           </div>
         )}
         
@@ -361,7 +379,10 @@ export default function BedManagementPage() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Bed Management</h1>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Bed Management
+            {live && <Badge variant="outline" className="ml-3 align-middle text-green-600">Live</Badge>}
+          </h1>
           <p className="text-muted-foreground">
             Monitor bed occupancy and manage ward operations
           </p>
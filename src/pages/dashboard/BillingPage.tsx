@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { BillingService } from '@/lib/billing';
 import { githubDB as dbHelpers, collections } from '@/lib/database';
 import {
@@ -23,7 +24,8 @@ import {
 } from 'lucide-react';
 
 export default function BillingPage() {
-  const { user, hasPermission } = useAuth();
+  const { hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const [invoices, setInvoices] = useState([]);
   const [claims, setClaims] = useState([]);
   const [billingSummary, setBillingSummary] = useState(null);
@@ -34,7 +36,7 @@ export default function BillingPage() {
 
   useEffect(() => {
     let cancelled = false;
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     (async () => {
       setLoading(true);
       setError(null);
@@ -45,9 +47,9 @@ export default function BillingPage() {
         const endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString();
 
         const [summary, realInvoices, realClaims] = await Promise.all([
-          BillingService.getBillingSummary(user.entity_id, startDate, endDate).catch(() => null),
-          dbHelpers.find(collections.billing_items, { entity_id: user.entity_id }).catch(() => []),
-          dbHelpers.find(collections.insurance_claims, { entity_id: user.entity_id }).catch(() => [])
+          BillingService.getBillingSummary(entityId, startDate, endDate).catch(() => null),
+          dbHelpers.find(collections.billing_items, { entity_id: entityId }).catch(() => []),
+          dbHelpers.find(collections.insurance_claims, { entity_id: entityId }).catch(() => [])
         ]);
         if (cancelled) return;
 
@@ -75,7 +77,7 @@ export default function BillingPage() {
     return () => {
       cancelled = true;
     };
-  }, [user?.entity_id]);
+  }, [entityId]);
 
   const getInvoiceStatusBadge = (status: string) => {
     const variants = {
@@ -7,8 +7,11 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { CarePlanService } from '@/lib/care-plans';
+import { AllergyService, AllergySummary } from '@/lib/allergies';
 import PatientSearch from '@/components/ui/PatientSearch';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import { 
   ClipboardList, 
   Plus, 
@@ -25,7 +28,9 @@ import {
 
 export default function CarePlansPage() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const [carePlans, setCarePlans] = useState([]);
+  const [allergySummaries, setAllergySummaries] = useState<Record<string, AllergySummary>>({});
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('active');
   const [showPlanForm, setShowPlanForm] = useState(false);
@@ -33,17 +38,18 @@ export default function CarePlansPage() {
   const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadCarePlansData();
     }
-  }, [user?.entity_id, activeTab]);
+  }, [entityId, activeTab]);
 
   const loadCarePlansData = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     try {
       setLoading(true);
-      const plans = await CarePlanService.getActiveCarePlans(user.entity_id);
+      const plans = await CarePlanService.getActiveCarePlans(entityId);
+      setAllergySummaries(await AllergyService.getAllergySummaries(plans.map(p => p.patient_id)));
       setCarePlans(plans);
     } catch (error) {
       console.error('Failed to load care plans:', error);
@@ -61,7 +67,7 @@ export default function CarePlansPage() {
     try {
       await CarePlanService.createCarePlan({
         ...planData,
-        entity_id: user?.entity_id,
+        entity_id: entityId,
         created_by: user?.id,
         goals: [],
         activities: [],
@@ -144,7 +150,7 @@ export default function CarePlansPage() {
         <PatientSearch
           onPatientSelect={setSelectedPatient}
           placeholder="Search for patient..."
-          entityId={user?.entity_id}
+          entityId={entityId}
         />
         
         {selectedPatient && (
@@ -337,6 +343,9 @@ export default function CarePlansPage() {
                               <p className="text-sm text-muted-foreground">
                                 Patient: {plan.patient_id}
                               </p>
+                              <div className="mt-1">
+                                <AllergyBanner patientId={plan.patient_id} summary={allergySummaries[plan.patient_id]} compact />
+                              </div>
                               <div className="flex items-center space-x-2 mt-1">
                                 {getCategoryBadge(plan.category)}
                                 {getStatusBadge(plan.status)}
@@ -0,0 +1,459 @@
+// Staff Credentials Page - practitioner licences, certifications and insurance
+// Clinicians submit their credentials with scanned documents; entity admins
+// review them here the same way the verification queue handles entities.
+import React, { useState, useEffect } from 'react';
+import { useToastService } from '../../lib/toast-service';
+import { Badge } from '../../components/ui/badge';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { useAuth, Permission } from '../../lib/auth';
+import { useActiveEntityId, useActiveMembership } from '../../lib/memberships';
+import CredentialService, {
+  CREDENTIAL_TYPES,
+  PRESCRIBING_CREDENTIALS,
+  CredentialDocument,
+  CredentialStatus,
+  CredentialType,
+  StaffCredential
+} from '../../lib/credentials';
+import { Eye, Download, CheckCircle, XCircle, Clock, FileText, Upload, AlertTriangle } from 'lucide-react';
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const emptyForm = {
+  credential_type: 'license' as CredentialType,
+  issuing_body: '',
+  number: '',
+  issued_at: '',
+  expires_at: ''
+};
+
+const typeLabel = (type: string) => CREDENTIAL_TYPES.find(t => t.value === type)?.label || type;
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return <Clock className="h-4 w-4 text-yellow-500" />;
+    case 'verified':
+      return <CheckCircle className="h-4 w-4 text-green-500" />;
+    case 'rejected':
+      return <XCircle className="h-4 w-4 text-red-500" />;
+    case 'expired':
+      return <AlertTriangle className="h-4 w-4 text-orange-500" />;
+    default:
+      return <Clock className="h-4 w-4 text-gray-500" />;
+  }
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'verified':
+      return 'bg-green-100 text-green-800';
+    case 'rejected':
+      return 'bg-red-100 text-red-800';
+    case 'expired':
+      return 'bg-orange-100 text-orange-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const CredentialsPage: React.FC = () => {
+  const toast = useToastService();
+  const { user } = useAuth();
+  const entityId = useActiveEntityId();
+  const activeMembership = useActiveMembership();
+  const canReview = (activeMembership?.permissions || user?.permissions || []).includes(Permission.UPDATE_ENTITY);
+
+  const [tab, setTab] = useState<'mine' | 'review'>('mine');
+  const [myCredentials, setMyCredentials] = useState<StaffCredential[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [queue, setQueue] = useState<StaffCredential[]>([]);
+  const [filter, setFilter] = useState<string>('pending');
+  const [selected, setSelected] = useState<StaffCredential | null>(null);
+  const [documents, setDocuments] = useState<CredentialDocument[]>([]);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) loadMyCredentials();
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (tab === 'review' && entityId && canReview) loadQueue();
+  }, [tab, filter, entityId, canReview]);
+
+  const loadMyCredentials = async () => {
+    try {
+      setLoading(true);
+      setMyCredentials(await CredentialService.getMyCredentials(user!.id));
+    } catch (error) {
+      console.error('Failed to load credentials:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadQueue = async () => {
+    try {
+      const status = filter === 'all' ? undefined : (filter as CredentialStatus);
+      setQueue(await CredentialService.getReviewQueue(entityId!, status));
+    } catch (error) {
+      console.error('Failed to load credential queue:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !entityId) return;
+    setSubmitting(true);
+    try {
+      await CredentialService.submitCredential(
+        {
+          entity_id: entityId,
+          credential_type: form.credential_type,
+          issuing_body: form.issuing_body,
+          number: form.number,
+          issued_at: form.issued_at || undefined,
+          expires_at: form.expires_at || undefined
+        },
+        files,
+        user.id
+      );
+      setForm(emptyForm);
+      setFiles([]);
+      await loadMyCredentials();
+      toast.showSuccess('Credential submitted for review');
+    } catch (error: any) {
+      toast.showError(error.message || 'Failed to submit credential');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSelect = async (credential: StaffCredential) => {
+    setSelected(credential);
+    setReviewNotes('');
+    try {
+      setDocuments(await CredentialService.getDocuments(credential.id));
+    } catch (error) {
+      console.error('Failed to load documents:', error);
+    }
+  };
+
+  const handleReview = async (status: 'verified' | 'rejected') => {
+    if (!selected || !user) return;
+    try {
+      await CredentialService.reviewCredential(selected, status, { id: user.id, email: user.email }, reviewNotes);
+      setSelected(null);
+      setReviewNotes('');
+      await loadQueue();
+      toast.showSuccess(`Credential ${status}`);
+    } catch (error: any) {
+      toast.showError(error.message || 'Failed to review credential');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const expiryRequired = PRESCRIBING_CREDENTIALS.includes(form.credential_type);
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Credentials</h1>
+        <p className="text-gray-600">
+          Practising licences, board certifications and malpractice insurance. A lapsed licence or
+          insurance policy blocks prescribing until a current one is verified.
+        </p>
+      </div>
+
+      {canReview && (
+        <div className="mb-6 flex gap-2">
+          <Button variant={tab === 'mine' ? 'default' : 'outline'} onClick={() => setTab('mine')}>
+            My Credentials
+          </Button>
+          <Button variant={tab === 'review' ? 'default' : 'outline'} onClick={() => setTab('review')}>
+            Review Queue
+          </Button>
+        </div>
+      )}
+
+      {tab === 'mine' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-1">
+            <Card className="p-4">
+              <h2 className="text-lg font-semibold mb-4">Submit a Credential</h2>
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={form.credential_type}
+                    onChange={e => setForm({ ...form, credential_type: e.target.value as CredentialType })}
+                    className={inputClass}
+                  >
+                    {CREDENTIAL_TYPES.map(t => (
+                      <option key={t.value} value={t.value}>{t.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Issuing Body</label>
+                  <input
+                    type="text"
+                    value={form.issuing_body}
+                    onChange={e => setForm({ ...form, issuing_body: e.target.value })}
+                    required
+                    className={inputClass}
+                    placeholder="e.g. Medical and Dental Council"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Number</label>
+                  <input
+                    type="text"
+                    value={form.number}
+                    onChange={e => setForm({ ...form, number: e.target.value })}
+                    required
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Issued</label>
+                    <input
+                      type="date"
+                      value={form.issued_at}
+                      onChange={e => setForm({ ...form, issued_at: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+                    <input
+                      type="date"
+                      value={form.expires_at}
+                      onChange={e => setForm({ ...form, expires_at: e.target.value })}
+                      required={expiryRequired}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Documents</label>
+                  <input
+                    type="file"
+                    multiple
+                    accept=".pdf,.jpg,.jpeg,.png,.webp"
+                    onChange={e => setFiles(Array.from(e.target.files || []))}
+                    className="w-full text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Up to 5 files, 5MB each</p>
+                </div>
+                <Button type="submit" disabled={submitting || !entityId} className="w-full">
+                  <Upload className="h-4 w-4 mr-2" />
+                  {submitting ? 'Submitting...' : 'Submit for Review'}
+                </Button>
+              </form>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2">
+            <Card className="p-4">
+              <h2 className="text-lg font-semibold mb-4">My Credentials</h2>
+              <div className="space-y-3">
+                {myCredentials.map(credential => (
+                  <div key={credential.id} className="flex items-start justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium text-sm">
+                        {typeLabel(credential.credential_type)} • {credential.number}
+                      </p>
+                      <p className="text-xs text-gray-600">{credential.issuing_body}</p>
+                      <p className="text-xs text-gray-500">
+                        {credential.expires_at
+                          ? `Expires ${new Date(credential.expires_at).toLocaleDateString()}`
+                          : 'No expiry'}
+                      </p>
+                      {credential.status === 'rejected' && credential.review_notes && (
+                        <p className="text-xs text-red-600 mt-1">Rejected: {credential.review_notes}</p>
+                      )}
+                    </div>
+                    <Badge className={getStatusColor(credential.status)}>{credential.status}</Badge>
+                  </div>
+                ))}
+                {myCredentials.length === 0 && (
+                  <p className="text-gray-500 text-center py-4">No credentials submitted yet</p>
+                )}
+              </div>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      {tab === 'review' && canReview && (
+        <>
+          <div className="mb-6 flex gap-2">
+            {['all', 'pending', 'verified', 'rejected', 'expired'].map(status => (
+              <Button
+                key={status}
+                variant={filter === status ? 'default' : 'outline'}
+                onClick={() => setFilter(status)}
+                className="capitalize"
+              >
+                {status}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Credentials List */}
+            <div className="lg:col-span-1">
+              <Card className="p-4">
+                <h2 className="text-lg font-semibold mb-4">Submitted Credentials</h2>
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                  {queue.map(credential => (
+                    <div
+                      key={credential.id}
+                      className={`p-3 border rounded-lg cursor-pointer hover:bg-gray-50 ${
+                        selected?.id === credential.id ? 'ring-2 ring-blue-500' : ''
+                      }`}
+                      onClick={() => handleSelect(credential)}
+                    >
+                      <div className="flex justify-between items-start mb-2">
+                        <span className="font-medium text-sm">
+                          {credential.holder_name || credential.holder_email || credential.user_id}
+                        </span>
+                        {getStatusIcon(credential.status)}
+                      </div>
+                      <Badge className={`${getStatusColor(credential.status)} mb-2`}>{credential.status}</Badge>
+                      <p className="text-xs text-gray-600">{typeLabel(credential.credential_type)}</p>
+                      <p className="text-xs text-gray-500">{new Date(credential.created_at).toLocaleDateString()}</p>
+                    </div>
+                  ))}
+                  {queue.length === 0 && (
+                    <p className="text-gray-500 text-center py-4">No credentials found</p>
+                  )}
+                </div>
+              </Card>
+            </div>
+
+            {/* Credential Details */}
+            <div className="lg:col-span-2">
+              {selected ? (
+                <Card className="p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <h2 className="text-xl font-semibold">{typeLabel(selected.credential_type)}</h2>
+                    <Badge className={getStatusColor(selected.status)}>{selected.status}</Badge>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4 mb-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Holder</label>
+                      <p className="text-sm text-gray-900">{selected.holder_name || '—'}</p>
+                      <p className="text-xs text-gray-500">{selected.holder_email}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Issuing Body</label>
+                      <p className="text-sm text-gray-900">{selected.issuing_body}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Number</label>
+                      <p className="text-sm text-gray-900">{selected.number}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Valid</label>
+                      <p className="text-sm text-gray-900">
+                        {selected.issued_at ? new Date(selected.issued_at).toLocaleDateString() : '—'} to{' '}
+                        {selected.expires_at ? new Date(selected.expires_at).toLocaleDateString() : 'no expiry'}
+                      </p>
+                    </div>
+                  </div>
+
+                  {selected.reviewed_at && (
+                    <div className="bg-gray-50 p-4 rounded-lg mb-6">
+                      <h3 className="font-medium mb-2">Review Information</h3>
+                      <p className="text-sm text-gray-900">
+                        Reviewed {new Date(selected.reviewed_at).toLocaleString()}
+                      </p>
+                      {selected.review_notes && <p className="text-sm text-gray-700 mt-2">{selected.review_notes}</p>}
+                    </div>
+                  )}
+
+                  {/* Documents */}
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold mb-3">Documents</h3>
+                    <div className="space-y-3">
+                      {documents.map(doc => (
+                        <div key={doc.id} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div className="flex items-center gap-3">
+                            <FileText className="h-5 w-5 text-gray-500" />
+                            <div>
+                              <p className="font-medium text-sm">{doc.file_name}</p>
+                              <p className="text-xs text-gray-500">{(doc.file_size / 1024).toFixed(1)} KB</p>
+                            </div>
+                          </div>
+                          <Button variant="outline" size="sm" onClick={() => CredentialService.downloadDocument(doc)}>
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      {documents.length === 0 && <p className="text-sm text-gray-500">No documents attached</p>}
+                    </div>
+                  </div>
+
+                  {/* Review Actions */}
+                  {selected.status === 'pending' && selected.user_id !== user?.id && (
+                    <div className="border-t pt-6">
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Review Notes</label>
+                        <textarea
+                          value={reviewNotes}
+                          onChange={e => setReviewNotes(e.target.value)}
+                          rows={3}
+                          className={inputClass}
+                          placeholder="Required when rejecting..."
+                        />
+                      </div>
+                      <div className="flex gap-3">
+                        <Button onClick={() => handleReview('verified')} className="bg-green-600 hover:bg-green-700">
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Verify
+                        </Button>
+                        <Button onClick={() => handleReview('rejected')} variant="destructive">
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </Card>
+              ) : (
+                <Card className="p-6">
+                  <div className="text-center py-12">
+                    <Eye className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">Select a Credential</h3>
+                    <p className="text-gray-500">Choose a credential from the list to review it</p>
+                  </div>
+                </Card>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CredentialsPage;
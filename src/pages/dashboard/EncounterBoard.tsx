@@ -1,5 +1,6 @@
 // Encounter Board - HMS Encounter Management
 import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { useToastService } from '../../lib/toast-service';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -16,13 +17,22 @@ import {
   DialogTitle
 } from '@/components/ui/dialog';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { EncounterService } from '@/lib/encounters';
+import { AllergyService, AllergySummary } from '@/lib/allergies';
+import { EMARService } from '@/lib/emar';
+import { EarlyWarningService, EarlyWarningScore } from '@/lib/early-warning';
 import { PatientService } from '@/lib/patients';
 import { getEntity } from '@/lib/entities';
 import { githubDB as dbHelpers, collections } from '@/lib/database';
+import { isVersionConflict, versionOf } from '@/lib/version-conflict';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
 import { generateEncounterSummary } from '@/lib/hms-print-templates';
 import { validateICD10 } from '@/lib/hms-code-validators';
 import PrintButton from '@/components/hms/PrintButton';
+import AllergyBanner from '@/components/hms/AllergyBanner';
+import EarlyWarningBadge from '@/components/hms/EarlyWarningBadge';
+import EarlyWarningDialog from '@/components/hms/EarlyWarningDialog';
 import { 
   Calendar, 
   Clock, 
@@ -39,7 +49,8 @@ import {
   XCircle,
   Activity,
   Printer,
-  Loader2
+  Loader2,
+  Pill
 } from 'lucide-react';
 
 interface EncounterWithPatient {
@@ -59,12 +70,18 @@ interface EncounterWithPatient {
   department?: string;
   bed_id?: string;
   ward?: string;
+  version?: number;
 }
 
 export default function EncounterBoard() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const toast = useToastService();
   const [encounters, setEncounters] = useState<EncounterWithPatient[]>([]);
+  const [allergySummaries, setAllergySummaries] = useState<Record<string, AllergySummary>>({});
+  const [marAttention, setMarAttention] = useState<Record<string, { overdue: number; follow_ups: number }>>({});
+  const [earlyWarning, setEarlyWarning] = useState<Record<string, EarlyWarningScore>>({});
+  const [observationsEncounter, setObservationsEncounter] = useState<EncounterWithPatient | null>(null);
   const [entityInfo, setEntityInfo] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
@@ -85,27 +102,35 @@ export default function EncounterBoard() {
   const [conditionSubmitting, setConditionSubmitting] = useState(false);
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadEncounters();
       loadEntityInfo();
     }
-  }, [user?.entity_id, selectedDate]);
+  }, [entityId, selectedDate]);
+
+  // Refresh quietly when another user changes an encounter or records a score at this entity.
+  const { connected: live } = useLiveUpdates([collections.encounters, collections.early_warning_scores], {
+    onChanges: (changes) => {
+      if (changes.some(c => !c.record || c.record.entity_id === entityId)) loadEncounters(true);
+    },
+    onResync: () => loadEncounters(true)
+  }, !!entityId);
 
   const loadEntityInfo = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     try {
-      const ent = await getEntity(user.entity_id);
+      const ent = await getEntity(entityId);
       setEntityInfo(ent);
     } catch (e) {
       setEntityInfo(null);
     }
   };
 
-  const loadEncounters = async () => {
-    if (!user?.entity_id) return;
+  const loadEncounters = async (silent = false) => {
+    if (!entityId) return;
 
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       
       // Calculate date range (selected date + next day for comparison)
       const startDate = selectedDate;
@@ -115,7 +140,7 @@ export default function EncounterBoard() {
 
       // Get encounters for the selected date
       const encounterData = await EncounterService.getEntityEncounters(
-        user.entity_id, 
+        entityId, 
         startDate, 
         endDateStr
       );
@@ -127,7 +152,7 @@ export default function EncounterBoard() {
             // Get safe patient search result to get name snippet
             const patientResults = await PatientService.searchPatients(
               encounter.patient_id,
-              user.entity_id,
+              entityId,
               1
             );
             
@@ -144,6 +169,14 @@ export default function EncounterBoard() {
         })
       );
 
+      setAllergySummaries(await AllergyService.getAllergySummaries(enhancedEncounters.map(e => e.patient_id)));
+      // Overdue doses and PRN follow-ups for admitted patients
+      setMarAttention(await EMARService.getAttentionCounts(
+        enhancedEncounters.filter(e => e.type === 'inpatient' && e.status === 'in_progress').map(e => e.id)
+      ));
+      setEarlyWarning(await EarlyWarningService.getLatestScores(
+        enhancedEncounters.filter(e => e.status === 'in_progress').map(e => e.id)
+      ));
       setEncounters(enhancedEncounters);
     } catch (error) {
       console.error('Failed to load encounters:', error);
@@ -152,16 +185,31 @@ export default function EncounterBoard() {
     }
   };
 
-  const updateEncounterStatus = async (encounterId: string, newStatus: string) => {
+  const updateEncounterStatus = async (encounterId: string, newStatus: string, expectedVersion?: number) => {
     if (!hasPermission(Permission.MANAGE_ENCOUNTERS)) {
       toast.showSuccess('You do not have permission to update encounter status');
       return;
     }
 
     try {
-      await EncounterService.updateStatus(encounterId, newStatus as any, user?.id || '');
+      await EncounterService.updateStatus(encounterId, newStatus as any, user?.id || '', undefined, expectedVersion);
       loadEncounters(); // Reload to reflect changes
     } catch (error) {
+      if (isVersionConflict(error)) {
+        // Someone else changed this encounter since the board loaded: show what
+        // it is now and let the user re-apply their change on top of it.
+        const current = error.current;
+        const reapply = window.confirm(
+          `This encounter was updated by someone else (status is now "${String(current.status).replace('_', ' ')}"). ` +
+          `Apply "${newStatus.replace('_', ' ')}" to the latest version?`
+        );
+        if (reapply && current.status !== newStatus) {
+          await updateEncounterStatus(encounterId, newStatus, versionOf(current));
+        } else {
+          loadEncounters();
+        }
+        return;
+      }
       console.error('Failed to update encounter status:', error);
       toast.showSuccess('Failed to update encounter status');
     }
@@ -217,7 +265,7 @@ export default function EncounterBoard() {
           <Button
             key="start"
             size="sm"
-            onClick={() => updateEncounterStatus(encounter.id, 'in_progress')}
+            onClick={() => updateEncounterStatus(encounter.id, 'in_progress', versionOf(encounter))}
           >
             <Activity className="h-3 w-3 mr-1" />
             Start
@@ -228,7 +276,7 @@ export default function EncounterBoard() {
             key="cancel"
             variant="outline"
             size="sm"
-            onClick={() => updateEncounterStatus(encounter.id, 'cancelled')}
+            onClick={() => updateEncounterStatus(encounter.id, 'cancelled', versionOf(encounter))}
           >
             <XCircle className="h-3 w-3 mr-1" />
             Cancel
@@ -241,7 +289,7 @@ export default function EncounterBoard() {
           <Button
             key="complete"
             size="sm"
-            onClick={() => updateEncounterStatus(encounter.id, 'completed')}
+            onClick={() => updateEncounterStatus(encounter.id, 'completed', versionOf(encounter))}
           >
             <CheckCircle className="h-3 w-3 mr-1" />
             Complete
@@ -290,7 +338,8 @@ export default function EncounterBoard() {
           details?.encounter || encounter,
           {
             name: encounter.patient_name || 'Patient',
-            patient_code: encounter.patient_id
+            patient_code: encounter.patient_id,
+            allergies: await AllergyService.getAllergySummary(encounter.patient_id)
           },
           details?.vitals || [],
           details?.conditions || [],
@@ -375,7 +424,7 @@ export default function EncounterBoard() {
   };
 
   const handleConditionSubmit = async () => {
-    if (!conditionEncounter || !user?.entity_id) return;
+    if (!conditionEncounter || !entityId) return;
 
     if (!conditionForm.condition_name.trim()) {
       toast.showError('Condition name is required.');
@@ -392,7 +441,7 @@ export default function EncounterBoard() {
       await dbHelpers.insert(collections.conditions, {
         patient_id: conditionEncounter.patient_id,
         encounter_id: conditionEncounter.id,
-        entity_id: user.entity_id,
+        entity_id: entityId,
         condition_name: conditionForm.condition_name.trim(),
         code: icd10Validation?.formatted || conditionForm.code.trim() || undefined,
         code_system: conditionForm.code.trim() ? conditionForm.code_system : undefined,
@@ -429,7 +478,12 @@ export default function EncounterBoard() {
               <span className="font-medium text-sm">{encounter.encounter_code}</span>
               {getPriorityBadge(encounter.priority)}
             </div>
-            {getStatusBadge(encounter.status)}
+            <div className="flex items-center space-x-1">
+              {earlyWarning[encounter.id] && (
+                <EarlyWarningBadge score={earlyWarning[encounter.id]} onClick={() => setObservationsEncounter(encounter)} />
+              )}
+              {getStatusBadge(encounter.status)}
+            </div>
           </div>
           
           {/* Patient Info */}
@@ -437,6 +491,14 @@ export default function EncounterBoard() {
             <User className="h-4 w-4 text-muted-foreground" />
             <span className="font-medium">{encounter.patient_name}</span>
           </div>
+          <AllergyBanner
+            patientId={encounter.patient_id}
+            entityId={entityId}
+            summary={allergySummaries[encounter.patient_id]}
+            editable={hasPermission(Permission.MANAGE_CONDITIONS)}
+            compact
+            onChange={(summary) => setAllergySummaries((prev) => ({ ...prev, [encounter.patient_id]: summary }))}
+          />
           
           {/* Time Info */}
           <div className="flex items-center space-x-4 text-sm text-muted-foreground">
@@ -468,11 +530,33 @@ export default function EncounterBoard() {
               {encounter.bed_id && ` • Bed: ${encounter.bed_id}`}
             </div>
           )}
+
+          {/* Medication Administration */}
+          {(marAttention[encounter.id]?.overdue > 0 || marAttention[encounter.id]?.follow_ups > 0) && (
+            <Link
+              to={`/dashboard/hms/mar?encounter=${encounter.id}`}
+              className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-800 hover:bg-red-100"
+            >
+              <Pill className="h-3 w-3" />
+              {marAttention[encounter.id].overdue > 0 && (
+                <span>{marAttention[encounter.id].overdue} overdue dose{marAttention[encounter.id].overdue === 1 ? '' : 's'}</span>
+              )}
+              {marAttention[encounter.id].follow_ups > 0 && (
+                <span>{marAttention[encounter.id].follow_ups} PRN follow-up{marAttention[encounter.id].follow_ups === 1 ? '' : 's'} due</span>
+              )}
+            </Link>
+          )}
           
           {/* Actions */}
           <div className="flex flex-wrap gap-2 pt-2">
             {getStatusActions(encounter)}
             <EncounterPrintButton encounter={encounter} />
+            {encounter.status === 'in_progress' && (
+              <Button size="sm" variant="outline" onClick={() => setObservationsEncounter(encounter)}>
+                <Activity className="h-3 w-3 mr-1" />
+                Observations
+              </Button>
+            )}
             {hasPermission(Permission.MANAGE_CONDITIONS) && (
               <Button
                 size="sm"
@@ -517,7 +601,10 @@ export default function EncounterBoard() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Encounter Board</h1>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Encounter Board
+            {live && <Badge variant="outline" className="ml-3 align-middle text-green-600">Live</Badge>}
+          </h1>
           <p className="text-muted-foreground">
             Manage patient encounters and appointments
           </p>
@@ -685,6 +772,18 @@ export default function EncounterBoard() {
         </TabsContent>
       </Tabs>
 
+      {/* Observations & Early Warning Score */}
+      {observationsEncounter && (
+        <EarlyWarningDialog
+          open={!!observationsEncounter}
+          onOpenChange={(open) => !open && setObservationsEncounter(null)}
+          encounter={{ ...observationsEncounter, entity_id: entityId }}
+          onChange={(latest) => {
+            if (latest) setEarlyWarning((prev) => ({ ...prev, [latest.encounter_id]: latest }));
+          }}
+        />
+      )}
+
       {/* Add Condition Dialog (ICD-10 validated) */}
       <Dialog open={conditionDialogOpen} onOpenChange={setConditionDialogOpen}>
         <DialogContent className="max-w-2xl">
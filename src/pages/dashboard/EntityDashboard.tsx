@@ -2,13 +2,15 @@ import { useState, useEffect } from 'react';
 import { useToastService } from '../../lib/toast-service';
 import { Routes, Route, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../lib/auth';
-import { githubDB, dbHelpers, collections } from '../../lib/database';
+import { githubDB, dbHelpers, collections, usesBackend } from '../../lib/database';
+import { MembershipService, StaffInvitation, STAFF_ROLES, CLINICAL_ROLES, useActiveEntityId } from '../../lib/memberships';
 import { EntityService, HealthcareEntity } from '../../lib/entities';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import LmsManagementPage from './LmsManagementPage';
 import BlogManagementPage from './BlogManagementPage';
 import CausesManagementPage from './CausesManagementPage';
 import ShopManagementPage from './ShopManagementPage';
+import SsoConnectionsPanel from '../../components/hms/SsoConnectionsPanel';
 
 const OverviewSection = ({ entity }: { entity: HealthcareEntity | null }) => {
   const entityId = entity?.id || null;
@@ -501,42 +503,191 @@ const LocationModal = ({ location, onClose, onSave }: any) => {
 };
 
 const TeamSection = ({ entityId }: { entityId: string | null }) => {
+  const { user } = useAuth();
+  const toast = useToastService();
   const [staff, setStaff] = useState<any[]>([]);
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [showInvite, setShowInvite] = useState(false);
+  const [invite, setInvite] = useState({ email: '', role: 'nurse' });
+  const [isInviting, setIsInviting] = useState(false);
+
+  const fetchStaff = async () => {
+    if (!entityId) return;
+    try {
+      const [entityStaff, pending] = await Promise.all([
+        usesBackend
+          ? MembershipService.getEntityStaff(entityId)
+          : githubDB.find(collections.entity_staff, { entity_id: entityId }),
+        MembershipService.getInvitations(entityId)
+      ]);
+      setStaff(entityStaff.filter((member: any) => member.status !== 'removed'));
+      setInvitations(pending);
+    } catch (error) {
+      console.error("Failed to fetch staff:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   useEffect(() => {
-    const fetchStaff = async () => {
-      if (!entityId) return;
-      try {
-        const entityStaff = await githubDB.find(collections.entity_staff, { entityId });
-        setStaff(entityStaff);
-      } catch (error) {
-        console.error("Failed to fetch staff:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
     fetchStaff();
   }, [entityId]);
 
+  const sendInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entityId || !user) return;
+    setIsInviting(true);
+    try {
+      await MembershipService.invite({ entityId, email: invite.email, role: invite.role }, { id: user.id, email: user.email });
+      toast.showSuccess(`Invitation sent to ${invite.email}.`);
+      setInvite({ email: '', role: invite.role });
+      setShowInvite(false);
+      await fetchStaff();
+    } catch (error: any) {
+      toast.showError(error.message || 'Failed to send invitation.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const revokeInvite = async (invitation: StaffInvitation) => {
+    try {
+      await MembershipService.revokeInvitation(invitation.id);
+      await fetchStaff();
+    } catch (error: any) {
+      toast.showError(error.message || 'Failed to revoke invitation.');
+    }
+  };
+
+  const changeRole = async (member: any, role: string) => {
+    try {
+      // A new role starts from that role's default permissions
+      await MembershipService.updateMembership(member.id, { role, permissions: null });
+      toast.showSuccess(`${member.name || member.email} is now ${role.replace(/_/g, ' ')}.`);
+      await fetchStaff();
+    } catch (error: any) {
+      toast.showError(error.message || 'Failed to change role.');
+    }
+  };
+
+  const changeStatus = async (member: any, status: 'active' | 'suspended' | 'removed') => {
+    if (status === 'removed' && !window.confirm(`Remove ${member.name || member.email} from the team? They will need a new invitation to return.`)) return;
+    try {
+      await MembershipService.setMembershipStatus(member.id, status);
+      await fetchStaff();
+    } catch (error: any) {
+      toast.showError(error.message || 'Failed to update membership.');
+    }
+  };
+
   if (isLoading) return <LoadingSpinner />;
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-dark">Team & Staff Management</h2>
-        <button className="bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary/90">
+        <button onClick={() => setShowInvite(!showInvite)} className="bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary/90">
           Add Staff Member
         </button>
       </div>
-      
+
+      {showInvite && (
+        <form onSubmit={sendInvite} className="bg-white rounded-lg shadow-sm p-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+            <input
+              type="email"
+              required
+              value={invite.email}
+              onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              className="w-full p-3 border border-gray-300 rounded-lg"
+              placeholder="colleague@hospital.org"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+            <select
+              value={invite.role}
+              onChange={(e) => setInvite({ ...invite, role: e.target.value })}
+              className="w-full p-3 border border-gray-300 rounded-lg capitalize"
+            >
+              {STAFF_ROLES.map((role) => (
+                <option key={role} value={role}>{role.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <button type="submit" disabled={isInviting} className="bg-primary text-white px-4 py-3 rounded-lg hover:bg-primary/90 disabled:opacity-50">
+            {isInviting ? 'Sending...' : 'Send Invitation'}
+          </button>
+          {CLINICAL_ROLES.includes(invite.role) && (
+            <p className="md:col-span-3 text-xs text-gray-500">The invitee will be asked for their licence number when they accept.</p>
+          )}
+        </form>
+      )}
+
+      {invitations.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="font-semibold mb-3">Pending Invitations</h3>
+          <div className="divide-y divide-gray-100">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex justify-between items-center py-2 text-sm">
+                <div>
+                  <span className="font-medium">{invitation.email}</span>
+                  <span className="text-gray-500 capitalize"> • {invitation.role.replace(/_/g, ' ')}</span>
+                  <span className={invitation.expired ? 'text-red-600' : 'text-gray-500'}>
+                    {' '}• {invitation.expired ? 'Expired' : `Expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                  </span>
+                </div>
+                <button onClick={() => revokeInvite(invitation)} className="text-red-600 hover:underline">Revoke</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow-sm p-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {staff.map((member) => (
             <div key={member.id} className="border border-gray-200 rounded-lg p-4">
-              <h3 className="font-semibold">{member.name}</h3>
-              <p className="text-gray-600">{member.role}</p>
+              <div className="flex justify-between items-start">
+                <h3 className="font-semibold">{member.name}</h3>
+                {member.status === 'suspended' && (
+                  <span className="px-2 py-1 rounded-full text-xs bg-yellow-100 text-yellow-800">Suspended</span>
+                )}
+              </div>
+              {usesBackend && member.user_id !== user?.id ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => changeRole(member, e.target.value)}
+                  className="mt-1 p-1 border border-gray-200 rounded text-sm capitalize"
+                >
+                  {STAFF_ROLES.map((role) => (
+                    <option key={role} value={role}>{role.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
+              ) : (
+                <p className="text-gray-600">{member.role}</p>
+              )}
               <p className="text-sm text-gray-500">{member.email}</p>
+              {member.license_number && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Licence {member.license_number}{member.license_authority ? ` (${member.license_authority})` : ''}
+                </p>
+              )}
+              {member.effective_permissions && (
+                <p className="text-xs text-gray-400 mt-1">{member.effective_permissions.length} permissions</p>
+              )}
+              {member.user_id !== user?.id && (
+                <div className="flex space-x-3 mt-3 text-sm">
+                  {member.status === 'suspended' ? (
+                    <button onClick={() => changeStatus(member, 'active')} className="text-primary hover:underline">Reinstate</button>
+                  ) : (
+                    <button onClick={() => changeStatus(member, 'suspended')} className="text-yellow-700 hover:underline">Suspend</button>
+                  )}
+                  <button onClick={() => changeStatus(member, 'removed')} className="text-red-600 hover:underline">Remove</button>
+                </div>
+              )}
             </div>
           ))}
           {staff.length === 0 && (
@@ -699,6 +850,7 @@ const IntegrationsSection = ({ entityId }: { entityId: string | null }) => {
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-dark">Integrations</h2>
+      {entityId && <SsoConnectionsPanel entityId={entityId} />}
       <div className="bg-white rounded-lg shadow-sm p-6">
         <div className="text-center py-8 text-gray-500">
           Integration management will be implemented here.
@@ -723,14 +875,15 @@ const BillingSection = ({ entityId }: { entityId: string | null }) => {
 
 const EntityDashboard = () => {
   const { user } = useAuth();
+  const entityId = useActiveEntityId();
   const [entity, setEntity] = useState<HealthcareEntity | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   
   const fetchEntity = async () => {
-    if (user?.entity_id) {
+    if (entityId) {
       try {
         setIsLoading(true);
-        const entityData = await EntityService.getEntity(user.entity_id);
+        const entityData = await EntityService.getEntity(entityId);
         setEntity(entityData);
       } catch (error) {
         console.error("Failed to fetch entity data:", error);
@@ -746,13 +899,13 @@ const EntityDashboard = () => {
     if (user) {
       fetchEntity();
     }
-  }, [user]);
+  }, [user, entityId]);
 
   if (isLoading) {
     return <div className="min-h-screen flex items-center justify-center"><LoadingSpinner size="lg" /></div>;
   }
 
-  if (!user?.entity_id) {
+  if (!entityId) {
     return (
       <div className="text-center py-8">
         <h2 className="text-2xl font-bold text-gray-900 mb-4">No Entity Associated</h2>
@@ -765,19 +918,19 @@ const EntityDashboard = () => {
     <Routes>
       <Route path="overview" element={<OverviewSection entity={entity} />} />
       <Route path="details" element={<ProfileManagementSection entity={entity} onUpdate={fetchEntity} />} />
-      <Route path="locations" element={<LocationsSection entityId={user.entity_id} />} />
-      <Route path="team" element={<TeamSection entityId={user.entity_id} />} />
-      <Route path="services" element={<ServicesSection entityId={user.entity_id} />} />
-      <Route path="coaching" element={<CoachingSection entityId={user.entity_id} />} />
+      <Route path="locations" element={<LocationsSection entityId={entityId} />} />
+      <Route path="team" element={<TeamSection entityId={entityId} />} />
+      <Route path="services" element={<ServicesSection entityId={entityId} />} />
+      <Route path="coaching" element={<CoachingSection entityId={entityId} />} />
       <Route path="lms" element={<LmsManagementPage />} />
       <Route path="blog" element={<BlogManagementPage />} />
       <Route path="causes" element={<CausesManagementPage />} />
       <Route path="ecommerce" element={<ShopManagementPage />} />
-      <Route path="reviews" element={<ReviewsSection entityId={user.entity_id} />} />
-      <Route path="messages" element={<MessagesSection entityId={user.entity_id} />} />
-      <Route path="analytics" element={<AnalyticsSection entityId={user.entity_id} />} />
-      <Route path="integrations" element={<IntegrationsSection entityId={user.entity_id} />} />
-      <Route path="billing" element={<BillingSection entityId={user.entity_id} />} />
+      <Route path="reviews" element={<ReviewsSection entityId={entityId} />} />
+      <Route path="messages" element={<MessagesSection entityId={entityId} />} />
+      <Route path="analytics" element={<AnalyticsSection entityId={entityId} />} />
+      <Route path="integrations" element={<IntegrationsSection entityId={entityId} />} />
+      <Route path="billing" element={<BillingSection entityId={entityId} />} />
       <Route path="" element={<OverviewSection entity={entity} />} />
     </Routes>
   );
@@ -1,9 +1,11 @@
 // HMS Dashboard - Hospital Management System Main Dashboard
 import React, { useState, useEffect } from 'react';
 import { Routes, Route } from 'react-router-dom';
-import { useAuth } from '../../lib/auth';
+import { useAuth, Permission } from '../../lib/auth';
+import { useActiveEntityId, useActiveMembership } from '../../lib/memberships';
 import { githubDB as dbHelpers, collections } from '../../lib/database';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import BreakGlassReviewPanel from '../../components/hms/BreakGlassReviewPanel';
 import PatientRegistry from './PatientRegistry';
 import EncounterBoard from './EncounterBoard';
 import LabOrdersPage from './LabOrdersPage';
@@ -14,12 +16,20 @@ import BedManagementPage from './BedManagementPage';
 import ReferralsPage from './ReferralsPage';
 import ReportsHMS from './ReportsHMS';
 import CarePlansPage from './CarePlansPage';
+import CredentialsPage from './CredentialsPage';
+import MarPage from './MarPage';
+import TriagePage from './TriagePage';
 
 const HMSDashboard = () => {
   const { user } = useAuth();
+  const activeMembership = useActiveMembership();
 
-  // Ensure user has access to HMS
-  const hasHMSAccess = user && ['health_center', 'hospital', 'clinic'].includes(user.user_type);
+  // Ensure user has access to HMS through their role at the active entity
+  const role = activeMembership?.role || user?.user_type;
+  const hasHMSAccess = !!role && [
+    'health_center', 'hospital', 'clinic',
+    'hospital_admin', 'physician', 'nurse', 'pharmacist', 'lab_tech', 'imaging_tech', 'billing_clerk'
+  ].includes(role);
 
   if (!hasHMSAccess) {
     return (
@@ -42,6 +52,9 @@ const HMSDashboard = () => {
       <Route path="referrals" element={<ReferralsPage />} />
       <Route path="reports" element={<ReportsHMS />} />
       <Route path="care-plans" element={<CarePlansPage />} />
+      <Route path="credentials" element={<CredentialsPage />} />
+      <Route path="mar" element={<MarPage />} />
+      <Route path="triage" element={<TriagePage />} />
       <Route path="" element={<HMSOverview />} />
     </Routes>
   );
@@ -88,8 +101,8 @@ const isToday = (iso?: string) => {
 };
 
 const HMSOverview = () => {
-  const { user } = useAuth();
-  const entityId = user?.entity_id || null;
+  const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId() || null;
   const [stats, setStats] = useState<HmsStats | null>(null);
   const [admissions, setAdmissions] = useState<AdmissionRecord[]>([]);
   const [urgentItems, setUrgentItems] = useState<UrgentItem[]>([]);
@@ -353,6 +366,10 @@ const HMSOverview = () => {
               )}
             </div>
           </div>
+
+          {(hasPermission(Permission.AUDIT_LOGS) || hasPermission(Permission.UPDATE_ENTITY)) && user && (
+            <BreakGlassReviewPanel entityId={entityId || undefined} reviewerId={user.id} />
+          )}
         </>
       )}
     </div>
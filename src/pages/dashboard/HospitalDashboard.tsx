@@ -5,6 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { EncounterService } from '@/lib/encounters';
 import { PatientService } from '@/lib/patients';
 import { BedService } from '@/lib/bed-management';
@@ -34,6 +35,7 @@ interface DashboardStats {
 
 export default function HospitalDashboard() {
   const { user } = useAuth();
+  const entityId = useActiveEntityId();
   const [stats, setStats] = useState<DashboardStats>({
     todayEncounters: 0,
     activePatients: 0,
@@ -48,13 +50,13 @@ export default function HospitalDashboard() {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadDashboardData();
     }
-  }, [user?.entity_id]);
+  }, [entityId]);
 
   const loadDashboardData = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     try {
       setLoading(true);
@@ -72,15 +74,15 @@ export default function HospitalDashboard() {
         bedData,
         criticalVitalsData
       ] = await Promise.all([
-        EncounterService.getEntityEncounters(user.entity_id, today, tomorrowStr),
-        EncounterService.getEntityEncounters(user.entity_id, today, tomorrowStr),
-        BedService.getWardOccupancy(user.entity_id),
-        ObservationService.getAbnormalVitals(user.entity_id, 24)
+        EncounterService.getEntityEncounters(entityId, today, tomorrowStr),
+        EncounterService.getEntityEncounters(entityId, today, tomorrowStr),
+        BedService.getWardOccupancy(entityId),
+        ObservationService.getAbnormalVitals(entityId, 24)
       ]);
 
       // Get pending lab results
-      const pendingLabs = await LabService.getEntityLabOrders(user.entity_id, 'in_progress');
-      const criticalResults = await LabService.getCriticalResults(user.entity_id);
+      const pendingLabs = await LabService.getEntityLabOrders(entityId, 'in_progress');
+      const criticalResults = await LabService.getCriticalResults(entityId);
 
       // Calculate statistics
       const activePatients = new Set(todayEncounters.map(e => e.patient_id)).size;
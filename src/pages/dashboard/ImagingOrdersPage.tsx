@@ -7,9 +7,12 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { ImagingService, IMAGING_TEMPLATES } from '@/lib/imaging';
+import { AllergyService, AllergySummary } from '@/lib/allergies';
 import { githubDB } from '@/lib/database';
 import PatientSearch from '@/components/ui/PatientSearch';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import { 
   Image as ImageIcon,
   Plus, 
@@ -25,7 +28,9 @@ import {
 
 export default function ImagingOrdersPage() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const [imagingOrders, setImagingOrders] = useState([]);
+  const [allergySummaries, setAllergySummaries] = useState<Record<string, AllergySummary>>({});
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('pending');
   const [showOrderForm, setShowOrderForm] = useState(false);
@@ -33,20 +38,21 @@ export default function ImagingOrdersPage() {
   const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadImagingData();
     }
-  }, [user?.entity_id, activeTab]);
+  }, [entityId, activeTab]);
 
   const loadImagingData = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     try {
       setLoading(true);
-      const orders = await ImagingService.getEntityImagingOrders?.(user.entity_id).catch(async () => {
+      const orders = await ImagingService.getEntityImagingOrders?.(entityId).catch(async () => {
         // Fallback to generic finder if helper not present
-        return await githubDB.find('imaging_orders', { entity_id: user.entity_id });
+        return await githubDB.find('imaging_orders', { entity_id: entityId });
       });
+      setAllergySummaries(await AllergyService.getAllergySummaries((orders || []).map((o: any) => o.patient_id)));
       setImagingOrders(orders || []);
     } catch (error) {
       console.error('Failed to load imaging data:', error);
@@ -64,7 +70,7 @@ export default function ImagingOrdersPage() {
     try {
       await ImagingService.createImagingOrder({
         ...orderData,
-        entity_id: user?.entity_id,
+        entity_id: entityId,
         orderer_id: user?.id,
         priority: 'routine',
         modality: 'x_ray',
@@ -139,7 +145,7 @@ export default function ImagingOrdersPage() {
         <PatientSearch
           onPatientSelect={setSelectedPatient}
           placeholder="Search for patient..."
-          entityId={user?.entity_id}
+          entityId={entityId}
         />
         
         {selectedPatient && (
@@ -319,6 +325,9 @@ export default function ImagingOrdersPage() {
                             <p className="text-sm text-muted-foreground">
                               Patient: {order.patient_id} • {order.modality?.toUpperCase()}
                             </p>
+                            <div className="mt-1">
+                              <AllergyBanner patientId={order.patient_id} summary={allergySummaries[order.patient_id]} compact />
+                            </div>
                             <p className="text-xs text-muted-foreground">
                               Ordered: {new Date(order.ordered_at).toLocaleString()}
                             </p>
@@ -8,12 +8,15 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { LabService, LAB_TEST_TEMPLATES } from '@/lib/labs';
+import { AllergyService, AllergySummary } from '@/lib/allergies';
 import { getEntity } from '@/lib/entities';
 import { githubDB as dbHelpers, collections } from '@/lib/database';
 import { generateLabReport } from '@/lib/hms-print-templates';
 import { validateLOINC } from '@/lib/hms-code-validators';
 import PrintButton from '@/components/hms/PrintButton';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import PatientSearch from '@/components/ui/PatientSearch';
 import { 
   TestTube, 
@@ -35,8 +38,10 @@ import {
 
 export default function LabOrdersPage() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const toast = useToastService();
   const [labOrders, setLabOrders] = useState([]);
+  const [allergySummaries, setAllergySummaries] = useState<Record<string, AllergySummary>>({});
   const [labResults, setLabResults] = useState([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('pending');
@@ -56,16 +61,16 @@ export default function LabOrdersPage() {
   const [orderSubmitting, setOrderSubmitting] = useState(false);
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadLabData();
       loadEntityInfo();
     }
-  }, [user?.entity_id, activeTab]);
+  }, [entityId, activeTab]);
 
   const loadEntityInfo = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     try {
-      const ent = await getEntity(user.entity_id);
+      const ent = await getEntity(entityId);
       setEntityInfo(ent);
     } catch (e) {
       setEntityInfo(null);
@@ -73,16 +78,17 @@ export default function LabOrdersPage() {
   };
 
   const loadLabData = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     try {
       setLoading(true);
       
       const [orders, criticalResults] = await Promise.all([
-        LabService.getEntityLabOrders(user.entity_id),
-        LabService.getCriticalResults(user.entity_id)
+        LabService.getEntityLabOrders(entityId),
+        LabService.getCriticalResults(entityId)
       ]);
 
+      setAllergySummaries(await AllergyService.getAllergySummaries(orders.map(o => o.patient_id)));
       setLabOrders(orders);
       setLabResults(criticalResults);
     } catch (error) {
@@ -101,7 +107,7 @@ export default function LabOrdersPage() {
     try {
       await LabService.createLabOrder({
         ...orderData,
-        entity_id: user?.entity_id,
+        entity_id: entityId,
         orderer_id: user?.id
       });
       
@@ -353,7 +359,7 @@ export default function LabOrdersPage() {
         <PatientSearch
           onPatientSelect={setSelectedPatient}
           placeholder="Search for patient..."
-          entityId={user?.entity_id}
+          entityId={entityId}
         />
         
         {selectedPatient && (
@@ -656,6 +662,9 @@ export default function LabOrdersPage() {
                             <p className="text-sm text-muted-foreground">
                               Patient: {order.patient_id} • {order.category}
                             </p>
+                            <div className="mt-1">
+                              <AllergyBanner patientId={order.patient_id} summary={allergySummaries[order.patient_id]} compact />
+                            </div>
                             <p className="text-xs text-muted-foreground">
                               Ordered: {new Date(order.ordered_at).toLocaleString()}
                             </p>
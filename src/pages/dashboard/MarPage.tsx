@@ -0,0 +1,698 @@
+// Medication Administration Record (eMAR) - HMS inpatient medication rounds
+// One admitted patient at a time: each medication ordered in the encounter with
+// its scheduled doses for the day, and any PRN doses given. Nurses record each
+// dose as given, held or refused, and follow up PRN doses for effectiveness.
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useToastService } from '../../lib/toast-service';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
+import {
+  EMARService,
+  MarEntry,
+  MarDose,
+  MedicationAdministration,
+  AdministrationStatus,
+  PrnEffectiveness,
+  DoseState,
+  isFollowUpDue
+} from '@/lib/emar';
+import { AllergyService } from '@/lib/allergies';
+import { PatientService } from '@/lib/patients';
+import { getEntity } from '@/lib/entities';
+import { githubDB as dbHelpers, collections } from '@/lib/database';
+import { generateMarSheet, PrintMarAdministration } from '@/lib/hms-print-templates';
+import PrintButton from '@/components/hms/PrintButton';
+import AllergyBanner from '@/components/hms/AllergyBanner';
+import { Pill, Bed, Clock, AlertTriangle, Plus, Printer, Loader2 } from 'lucide-react';
+
+const selectClass =
+  'w-full h-10 px-3 py-2 rounded-md border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 text-sm';
+
+const DOSE_STYLES: Record<DoseState, string> = {
+  given: 'bg-green-100 text-green-800 border-green-300',
+  held: 'bg-amber-100 text-amber-800 border-amber-300',
+  refused: 'bg-red-50 text-red-700 border-red-300',
+  overdue: 'bg-red-600 text-white border-red-700',
+  due: 'bg-blue-100 text-blue-800 border-blue-300',
+  upcoming: 'bg-gray-50 text-gray-600 border-gray-200'
+};
+
+const EFFECTIVENESS_LABELS: Record<PrnEffectiveness, string> = {
+  effective: 'Effective',
+  partially_effective: 'Partially effective',
+  not_effective: 'Not effective'
+};
+
+// Value for a datetime-local input, in local time
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const dayWindow = (day: string) => {
+  const from = new Date(`${day}T00:00:00`);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return { from, to };
+};
+
+interface AdmittedPatient {
+  id: string;
+  patient_id: string;
+  patient_name: string;
+  encounter_code: string;
+  ward?: string;
+  bed_id?: string;
+  department?: string;
+  [key: string]: any;
+}
+
+export default function MarPage() {
+  const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
+  const toast = useToastService();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const canRecord = hasPermission(Permission.RECORD_VITALS);
+
+  const [admitted, setAdmitted] = useState<AdmittedPatient[]>([]);
+  const [entityInfo, setEntityInfo] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState(toLocalInput(new Date()).slice(0, 10));
+  const [mar, setMar] = useState<MarEntry[]>([]);
+  const [marLoading, setMarLoading] = useState(false);
+  const [printHtml, setPrintHtml] = useState('');
+  const [printLoading, setPrintLoading] = useState(false);
+
+  const encounterId = searchParams.get('encounter') || '';
+  const encounter = admitted.find(e => e.id === encounterId) || null;
+
+  // Record dialog: `dose` is the scheduled dose, or null for a PRN/unscheduled dose
+  const [recordTarget, setRecordTarget] = useState<{ entry: MarEntry; dose: MarDose | null } | null>(null);
+  const [recordForm, setRecordForm] = useState({
+    status: 'given' as AdministrationStatus,
+    administered_at: '',
+    dose: '',
+    route: '',
+    site: '',
+    reason: '',
+    prn_reason: '',
+    notes: ''
+  });
+  const [recordError, setRecordError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [followUp, setFollowUp] = useState<MedicationAdministration | null>(null);
+  const [followUpForm, setFollowUpForm] = useState({ effectiveness: 'effective' as PrnEffectiveness, notes: '' });
+
+  useEffect(() => {
+    if (entityId) {
+      loadAdmitted();
+      getEntity(entityId).then(setEntityInfo).catch(() => setEntityInfo(null));
+    }
+  }, [entityId]);
+
+  useEffect(() => {
+    if (encounterId) loadMar();
+    else setMar([]);
+  }, [encounterId, selectedDate]);
+
+  const loadAdmitted = async () => {
+    if (!entityId) return;
+    try {
+      setLoading(true);
+      const encounters = await EMARService.getInpatientEncounters(entityId);
+      const withNames = await Promise.all(
+        encounters.map(async (e) => {
+          try {
+            const results = await PatientService.searchPatients(e.patient_id, entityId, 1);
+            return { ...e, patient_name: results[0]?.name_snippet || 'Unknown Patient' };
+          } catch (error) {
+            return { ...e, patient_name: 'Unknown Patient' };
+          }
+        })
+      );
+      setAdmitted(withNames);
+    } catch (error) {
+      console.error('Failed to load admitted patients:', error);
+      toast.showError('Failed to load admitted patients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMar = useCallback(async () => {
+    if (!encounterId) return;
+    try {
+      setMarLoading(true);
+      setPrintHtml('');
+      setMar(await EMARService.getEncounterMar(encounterId, dayWindow(selectedDate)));
+    } catch (error) {
+      console.error('Failed to load MAR:', error);
+      toast.showError('Failed to load the medication record');
+    } finally {
+      setMarLoading(false);
+    }
+  }, [encounterId, selectedDate]);
+
+  const selectEncounter = (id: string) => {
+    setSearchParams(id ? { encounter: id } : {});
+  };
+
+  const openRecord = (entry: MarEntry, dose: MarDose | null) => {
+    const scheduled = dose ? new Date(dose.scheduled_for) : null;
+    // Default to the scheduled time, unless that is still ahead of us
+    const at = scheduled && scheduled < new Date() ? scheduled : new Date();
+    setRecordTarget({ entry, dose });
+    setRecordForm({
+      status: 'given',
+      administered_at: toLocalInput(at),
+      dose: entry.medication.strength || '',
+      route: entry.medication.route || '',
+      site: '',
+      reason: '',
+      prn_reason: '',
+      notes: ''
+    });
+    setRecordError('');
+  };
+
+  const handleRecord = async () => {
+    if (!recordTarget || !user || !encounter) return;
+    try {
+      setSaving(true);
+      setRecordError('');
+      const given = recordForm.status === 'given';
+      await EMARService.recordAdministration({
+        request: recordTarget.entry.request,
+        medication_index: recordTarget.entry.medication_index,
+        encounter_id: encounter.id,
+        scheduled_for: recordTarget.dose?.scheduled_for || null,
+        status: recordForm.status,
+        administered_at: new Date(recordForm.administered_at).toISOString(),
+        dose: given ? recordForm.dose : undefined,
+        route: given ? recordForm.route : undefined,
+        site: given ? recordForm.site : undefined,
+        reason: given ? undefined : recordForm.reason,
+        prn_reason: recordTarget.dose ? undefined : recordForm.prn_reason,
+        notes: recordForm.notes,
+        administered_by: user.id
+      });
+      toast.showSuccess(`${recordTarget.entry.medication.drug_name} recorded as ${recordForm.status}`);
+      setRecordTarget(null);
+      loadMar();
+    } catch (error) {
+      setRecordError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFollowUp = async () => {
+    if (!followUp || !user) return;
+    try {
+      setSaving(true);
+      await EMARService.recordPrnEffectiveness(followUp, followUpForm.effectiveness, followUpForm.notes, user.id);
+      toast.showSuccess('Effectiveness recorded');
+      setFollowUp(null);
+      loadMar();
+    } catch (error) {
+      toast.showError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreparePrint = async () => {
+    if (!encounter || printLoading) return;
+    setPrintLoading(true);
+    try {
+      // Resolve who recorded each dose (best-effort)
+      const recorded = mar.flatMap(e => [
+        ...e.doses.map(d => d.administration).filter(Boolean),
+        ...e.unscheduled_administrations
+      ]) as MedicationAdministration[];
+      const names: Record<string, string> = {};
+      await Promise.all(
+        [...new Set(recorded.map(a => a.administered_by))].map(async (userId) => {
+          try {
+            const profile = await dbHelpers.find(collections.profiles, { user_id: userId });
+            if (profile && profile.length > 0) {
+              names[userId] = [profile[0].first_name, profile[0].last_name].filter(Boolean).join(' ');
+            }
+          } catch (_) {
+            // ignore profile lookup failure
+          }
+        })
+      );
+      const forPrint = (a: MedicationAdministration): PrintMarAdministration => ({
+        ...a,
+        administered_by: names[a.administered_by] || a.administered_by
+      });
+
+      const day = dayWindow(selectedDate);
+      const generated = generateMarSheet(
+        encounter,
+        {
+          name: encounter.patient_name,
+          patient_code: encounter.patient_id,
+          allergies: await AllergyService.getAllergySummary(encounter.patient_id)
+        },
+        mar.map(e => ({
+          drug_name: e.medication.drug_name,
+          generic_name: e.medication.generic_name,
+          strength: e.medication.strength,
+          route: e.medication.route,
+          frequency: e.medication.frequency,
+          instructions: e.medication.instructions,
+          starts_at: e.starts_at,
+          ends_at: e.ends_at,
+          prescription_number: e.request.prescription_number,
+          doses: e.doses.map(d => ({
+            scheduled_for: d.scheduled_for,
+            state: d.state,
+            administration: d.administration ? forPrint(d.administration) : undefined
+          })),
+          unscheduled: e.unscheduled_administrations.map(forPrint)
+        })),
+        { from: day.from.toISOString(), to: day.to.toISOString() },
+        {
+          name: entityInfo?.name,
+          type: entityInfo?.entity_type ? String(entityInfo.entity_type).replace(/_/g, ' ') : undefined,
+          address: entityInfo?.address,
+          phone: entityInfo?.phone,
+          email: entityInfo?.email,
+          website: entityInfo?.website
+        }
+      );
+      setPrintHtml(generated);
+    } catch (error) {
+      console.error('Failed to generate MAR sheet:', error);
+      toast.showError('Failed to generate MAR sheet.');
+    } finally {
+      setPrintLoading(false);
+    }
+  };
+
+  const describeAdministration = (a: MedicationAdministration) =>
+    a.status === 'given'
+      ? `Given ${formatTime(a.administered_at)} • ${[a.dose, a.route, a.site].filter(Boolean).join(' ')}`
+      : `${a.status === 'held' ? 'Held' : 'Refused'} ${formatTime(a.administered_at)} • ${a.reason}`;
+
+  const renderEntry = (entry: MarEntry) => {
+    const { medication, frequency } = entry;
+    const unscheduledOnly = !frequency || frequency.prn;
+    return (
+      <Card key={`${entry.request.id}-${entry.medication_index}`}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2">
+                <h4 className="font-semibold">{medication.drug_name}</h4>
+                {medication.generic_name && (
+                  <span className="text-sm text-muted-foreground">({medication.generic_name})</span>
+                )}
+                {frequency?.prn && <Badge variant="outline">PRN</Badge>}
+                {!frequency && <Badge variant="outline">Unscheduled</Badge>}
+                {entry.request.status !== 'active' && entry.request.status !== 'completed' && (
+                  <Badge className="bg-gray-100 text-gray-800">{entry.request.status.replace(/_/g, ' ')}</Badge>
+                )}
+              </div>
+              <p className="text-sm text-gray-600">
+                {[medication.strength, medication.route, medication.frequency].filter(Boolean).join(' • ')}
+                {medication.instructions && ` — ${medication.instructions}`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Rx {entry.request.prescription_number} • from {new Date(entry.starts_at).toLocaleDateString()}
+                {entry.ends_at ? ` to ${new Date(entry.ends_at).toLocaleDateString()}` : ''}
+              </p>
+            </div>
+            {unscheduledOnly && canRecord && (
+              <Button size="sm" variant="outline" onClick={() => openRecord(entry, null)}>
+                <Plus className="h-3 w-3 mr-1" />
+                Record Dose
+              </Button>
+            )}
+          </div>
+
+          {entry.doses.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {entry.doses.map((dose) => (
+                <button
+                  key={dose.scheduled_for}
+                  type="button"
+                  disabled={!!dose.administration || !canRecord}
+                  onClick={() => openRecord(entry, dose)}
+                  title={dose.administration ? describeAdministration(dose.administration) : `${dose.state} — click to record`}
+                  className={`rounded-md border px-3 py-1.5 text-xs text-left ${DOSE_STYLES[dose.state]} ${
+                    dose.administration || !canRecord ? 'cursor-default' : 'hover:opacity-80'
+                  }`}
+                >
+                  <div className="font-semibold">{formatTime(dose.scheduled_for)}</div>
+                  <div className="capitalize">{dose.state}</div>
+                </button>
+              ))}
+            </div>
+          )}
+          {!unscheduledOnly && entry.doses.length === 0 && (
+            <p className="text-xs text-muted-foreground">No doses scheduled on this day.</p>
+          )}
+
+          {entry.unscheduled_administrations.length > 0 && (
+            <div className="space-y-1">
+              {entry.unscheduled_administrations.map((a) => (
+                <div key={a.id} className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2 text-sm">
+                  <div>
+                    <span>{describeAdministration(a)}</span>
+                    {a.prn_reason && <span className="text-muted-foreground"> • for {a.prn_reason}</span>}
+                    {a.effectiveness && (
+                      <span className="text-muted-foreground"> • {EFFECTIVENESS_LABELS[a.effectiveness]}</span>
+                    )}
+                  </div>
+                  {isFollowUpDue(a) && (
+                    <div className="flex items-center gap-2">
+                      <Badge className="bg-amber-100 text-amber-800">Follow-up due</Badge>
+                      {canRecord && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setFollowUp(a);
+                            setFollowUpForm({ effectiveness: 'effective', notes: '' });
+                          }}
+                        >
+                          Record Effectiveness
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const overdue = mar.reduce((n, e) => n + e.doses.filter(d => d.state === 'overdue').length, 0);
+  const followUps = mar.reduce((n, e) => n + e.unscheduled_administrations.filter(a => isFollowUpDue(a)).length, 0);
+  const isPrn = recordTarget && !recordTarget.dose && recordTarget.entry.frequency?.prn;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Medication Administration</h1>
+          <p className="text-gray-600">Record doses given to admitted patients</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Input
+            type="date"
+            value={selectedDate}
+            onChange={(e) => setSelectedDate(e.target.value)}
+            className="w-40"
+          />
+          {encounter && (printHtml ? (
+            <PrintButton
+              html={printHtml}
+              filename={`mar-${encounter.encounter_code || encounter.id}-${selectedDate}.html`}
+              label="Print MAR"
+              autoPrint
+              onError={(msg) => toast.showError(msg)}
+            />
+          ) : (
+            <Button variant="outline" size="sm" onClick={handlePreparePrint} disabled={printLoading || marLoading}>
+              {printLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Printer className="h-4 w-4 mr-2" />}
+              Print MAR
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bed className="h-5 w-5" />
+              Admitted Patients
+            </CardTitle>
+            <CardDescription>{admitted.length} in progress</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading && <div className="h-16 rounded-md bg-gray-100 animate-pulse" />}
+            {!loading && admitted.length === 0 && (
+              <p className="text-sm text-muted-foreground">No admitted patients.</p>
+            )}
+            {admitted.map((e) => (
+              <button
+                key={e.id}
+                type="button"
+                onClick={() => selectEncounter(e.id)}
+                className={`w-full rounded-md border p-3 text-left text-sm ${
+                  e.id === encounterId ? 'border-green-500 bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium">{e.patient_name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {e.encounter_code}
+                  {e.ward && ` • ${e.ward}`}
+                  {e.bed_id && ` • Bed ${e.bed_id}`}
+                </div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3 space-y-4">
+          {!encounter && (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                <Pill className="h-8 w-8 mx-auto mb-2" />
+                Select an admitted patient to see their medication record.
+              </CardContent>
+            </Card>
+          )}
+
+          {encounter && (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold">{encounter.patient_name}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {encounter.encounter_code}
+                    {encounter.department && ` • ${encounter.department}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {overdue > 0 && (
+                    <Badge className="bg-red-100 text-red-800">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      {overdue} overdue
+                    </Badge>
+                  )}
+                  {followUps > 0 && (
+                    <Badge className="bg-amber-100 text-amber-800">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {followUps} PRN follow-up{followUps === 1 ? '' : 's'} due
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <AllergyBanner patientId={encounter.patient_id} entityId={entityId} editable />
+
+              {marLoading && <div className="h-32 rounded-md bg-gray-100 animate-pulse" />}
+              {!marLoading && mar.length === 0 && (
+                <Card>
+                  <CardContent className="p-8 text-center text-muted-foreground">
+                    No medications have been prescribed in this encounter.
+                  </CardContent>
+                </Card>
+              )}
+              {!marLoading && mar.map(renderEntry)}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Record Dose Dialog */}
+      <Dialog open={!!recordTarget} onOpenChange={(open) => !open && setRecordTarget(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Dose</DialogTitle>
+            <DialogDescription>
+              {recordTarget && (
+                <>
+                  {recordTarget.entry.medication.drug_name} {recordTarget.entry.medication.strength}
+                  {recordTarget.dose
+                    ? ` — scheduled ${formatTime(recordTarget.dose.scheduled_for)}`
+                    : isPrn
+                      ? ' — as needed'
+                      : ' — unscheduled'}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="mar-status">Outcome</Label>
+                <select
+                  id="mar-status"
+                  value={recordForm.status}
+                  onChange={(e) => setRecordForm(p => ({ ...p, status: e.target.value as AdministrationStatus }))}
+                  className={selectClass}
+                >
+                  <option value="given">Given</option>
+                  <option value="held">Held</option>
+                  <option value="refused">Refused</option>
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="mar-time">Time</Label>
+                <Input
+                  id="mar-time"
+                  type="datetime-local"
+                  value={recordForm.administered_at}
+                  onChange={(e) => setRecordForm(p => ({ ...p, administered_at: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {recordForm.status === 'given' ? (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="mar-dose">Dose *</Label>
+                  <Input
+                    id="mar-dose"
+                    value={recordForm.dose}
+                    onChange={(e) => setRecordForm(p => ({ ...p, dose: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="mar-route">Route *</Label>
+                  <Input
+                    id="mar-route"
+                    value={recordForm.route}
+                    onChange={(e) => setRecordForm(p => ({ ...p, route: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="mar-site">Site</Label>
+                  <Input
+                    id="mar-site"
+                    value={recordForm.site}
+                    onChange={(e) => setRecordForm(p => ({ ...p, site: e.target.value }))}
+                    placeholder="e.g. left deltoid"
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-1.5">
+                <Label htmlFor="mar-reason">Reason *</Label>
+                <Input
+                  id="mar-reason"
+                  value={recordForm.reason}
+                  onChange={(e) => setRecordForm(p => ({ ...p, reason: e.target.value }))}
+                  placeholder={recordForm.status === 'held' ? 'e.g. BP 88/50, nil by mouth' : 'e.g. patient declined'}
+                />
+              </div>
+            )}
+
+            {isPrn && recordForm.status === 'given' && (
+              <div className="space-y-1.5">
+                <Label htmlFor="mar-prn-reason">Given For *</Label>
+                <Input
+                  id="mar-prn-reason"
+                  value={recordForm.prn_reason}
+                  onChange={(e) => setRecordForm(p => ({ ...p, prn_reason: e.target.value }))}
+                  placeholder="e.g. pain 7/10, nausea"
+                />
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <Label htmlFor="mar-notes">Notes</Label>
+              <Input
+                id="mar-notes"
+                value={recordForm.notes}
+                onChange={(e) => setRecordForm(p => ({ ...p, notes: e.target.value }))}
+              />
+            </div>
+            {recordError && <p className="text-sm text-red-600">{recordError}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecordTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRecord} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* PRN Effectiveness Dialog */}
+      <Dialog open={!!followUp} onOpenChange={(open) => !open && setFollowUp(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>PRN Effectiveness</DialogTitle>
+            <DialogDescription>
+              {followUp && `${followUp.drug_name} given ${formatTime(followUp.administered_at)} for ${followUp.prn_reason}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="prn-effectiveness">Effect</Label>
+              <select
+                id="prn-effectiveness"
+                value={followUpForm.effectiveness}
+                onChange={(e) => setFollowUpForm(p => ({ ...p, effectiveness: e.target.value as PrnEffectiveness }))}
+                className={selectClass}
+              >
+                {(Object.keys(EFFECTIVENESS_LABELS) as PrnEffectiveness[]).map((value) => (
+                  <option key={value} value={value}>{EFFECTIVENESS_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="prn-notes">Notes</Label>
+              <Input
+                id="prn-notes"
+                value={followUpForm.notes}
+                onChange={(e) => setFollowUpForm(p => ({ ...p, notes: e.target.value }))}
+                placeholder="e.g. pain now 3/10"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFollowUp(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleFollowUp} disabled={saving}>
+              Record
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -7,8 +7,13 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, Permission } from '@/lib/auth';
-import { PatientService } from '@/lib/patients';
+import { useActiveEntityId } from '@/lib/memberships';
+import { PatientService, PatientSearchCriteria } from '@/lib/patients';
 import { EncounterService } from '@/lib/encounters';
+import { BreakGlassService, BREAK_GLASS_DURATIONS, BREAK_GLASS_MIN_REASON } from '@/lib/break-glass';
+import { PatientMergeService, PatientMatch } from '@/lib/patient-merge';
+import DuplicatePatientsPanel from '@/components/hms/DuplicatePatientsPanel';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import { 
   Search, 
   Plus, 
@@ -20,6 +25,7 @@ import {
   Edit,
   Eye,
   Shield,
+  ShieldAlert,
   AlertCircle
 } from 'lucide-react';
 
@@ -33,32 +39,56 @@ interface PatientSummary {
   encounter_count: number;
 }
 
+const EMPTY_REGISTRATION = {
+  first_name: '',
+  last_name: '',
+  dob: '',
+  sex: '',
+  phone: '',
+  email: '',
+  national_id: '',
+  street: '',
+  city: '',
+  state: '',
+  postal_code: ''
+};
+
 export default function PatientRegistry() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
+  const toast = useToastService();
   const [patients, setPatients] = useState<PatientSummary[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
+  const [criteria, setCriteria] = useState<PatientSearchCriteria>({});
   const [loading, setLoading] = useState(true);
   const [selectedPatient, setSelectedPatient] = useState(null);
   const [showPatientForm, setShowPatientForm] = useState(false);
+  const [showEmergencyForm, setShowEmergencyForm] = useState(false);
+  const [emergencyRequest, setEmergencyRequest] = useState({ patient_code: '', reason: '', duration_minutes: 60 });
+  const [requestingEmergency, setRequestingEmergency] = useState(false);
+  const [newPatient, setNewPatient] = useState(EMPTY_REGISTRATION);
+  // null until the duplicate check has run for the current form values
+  const [duplicateMatches, setDuplicateMatches] = useState<PatientMatch[] | null>(null);
+  const [registering, setRegistering] = useState(false);
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadPatients();
     }
-  }, [user?.entity_id, searchQuery]);
+  }, [entityId, searchQuery, criteria]);
 
   const loadPatients = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     try {
       setLoading(true);
       
-      // Search patients with safe projections
-      const searchResults = await PatientService.searchPatients(
-        searchQuery || '', 
-        user.entity_id, 
-        50
-      );
+      // Search patients with safe projections (structured fields take precedence)
+      const hasCriteria = showAdvancedSearch && Object.values(criteria).some(value => value?.trim());
+      const searchResults = hasCriteria
+        ? await PatientService.searchPatientsBy(criteria, entityId, 50)
+        : await PatientService.searchPatients(searchQuery || '', entityId, 50);
 
       // Get encounter counts for each patient
       const patientsWithEncounters = await Promise.all(
@@ -97,6 +127,175 @@ export default function PatientRegistry() {
     }
   };
 
+  const handleEmergencyAccess = async () => {
+    if (!user) return;
+    try {
+      setRequestingEmergency(true);
+      const grant = await BreakGlassService.requestAccess({
+        patient_code: emergencyRequest.patient_code.trim(),
+        reason: emergencyRequest.reason,
+        duration_minutes: emergencyRequest.duration_minutes,
+        entity_id: entityId
+      }, { id: user.id, email: user.email });
+      setShowEmergencyForm(false);
+      setEmergencyRequest({ patient_code: '', reason: '', duration_minutes: 60 });
+      toast.showWarning(`Emergency access granted until ${new Date(grant.expires_at!).toLocaleTimeString()}. This access is logged and will be reviewed.`);
+      await handlePatientSelect(grant.patient_id);
+    } catch (error) {
+      console.error('Failed to request emergency access:', error);
+      toast.showError(error.message || 'Failed to request emergency access');
+    } finally {
+      setRequestingEmergency(false);
+    }
+  };
+
+  const handleEndEmergencyAccess = async (grantId: string) => {
+    try {
+      await BreakGlassService.endAccess(grantId);
+      setSelectedPatient(null);
+      toast.showInfo('Emergency access ended');
+    } catch (error) {
+      console.error('Failed to end emergency access:', error);
+      toast.showError('Failed to end emergency access');
+    }
+  };
+
+  const updateNewPatient = (changes: Partial<typeof EMPTY_REGISTRATION>) => {
+    setNewPatient({ ...newPatient, ...changes });
+    setDuplicateMatches(null);
+  };
+
+  const closePatientForm = () => {
+    setShowPatientForm(false);
+    setNewPatient(EMPTY_REGISTRATION);
+    setDuplicateMatches(null);
+  };
+
+  const openExistingPatient = async (patientId: string) => {
+    closePatientForm();
+    await handlePatientSelect(patientId);
+  };
+
+  // First click checks for existing records; registering after a warning is a deliberate second click
+  const handleRegisterPatient = async () => {
+    if (!entityId) return;
+    const name = `${newPatient.first_name.trim()} ${newPatient.last_name.trim()}`;
+    const phones = newPatient.phone.trim() ? [newPatient.phone.trim()] : [];
+    try {
+      setRegistering(true);
+      if (duplicateMatches === null) {
+        const matches = await PatientMergeService.findMatches({
+          name,
+          dob: newPatient.dob,
+          sex: newPatient.sex,
+          phones,
+          identifiers: newPatient.national_id.trim() ? [{ type: 'national_id', value: newPatient.national_id.trim() }] : []
+        });
+        setDuplicateMatches(matches);
+        if (matches.length > 0) return;
+      }
+
+      const patient = await PatientService.createPatient({
+        name,
+        dob: newPatient.dob,
+        sex: newPatient.sex,
+        phones,
+        emails: newPatient.email.trim() ? [newPatient.email.trim()] : [],
+        address: {
+          street: newPatient.street,
+          city: newPatient.city,
+          state: newPatient.state,
+          postal_code: newPatient.postal_code,
+          country: ''
+        },
+        emergency_contacts: [],
+        primary_entity_id: entityId,
+        preferences: { language: 'en', communication_method: 'sms', privacy_level: 'standard' },
+        created_by: user.id
+      });
+      if (newPatient.national_id.trim()) {
+        await PatientService.addIdentifier(patient.id, 'national_id', newPatient.national_id.trim(), undefined, true);
+      }
+      closePatientForm();
+      toast.showSuccess(`Patient registered (${patient.patient_code})`);
+      await loadPatients();
+      await handlePatientSelect(patient.id);
+    } catch (error) {
+      console.error('Failed to register patient:', error);
+      toast.showError(error.message || 'Failed to register patient');
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  // Rendered inline (not as a nested component) so the inputs keep focus while typing
+  const renderEmergencyForm = () => (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-red-700">
+          <ShieldAlert className="h-5 w-5" />
+          <span>Emergency Access (Break the Glass)</span>
+        </CardTitle>
+        <CardDescription>
+          Open a patient who is not registered with your facility when consent cannot be obtained.
+          Access is read-only, expires automatically, is flagged in the audit trail, and the patient
+          and your privacy officer are notified. Every use is reviewed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="text-sm font-medium">Patient ID *</label>
+          <Input
+            placeholder="Patient code, e.g. from their card or wristband"
+            value={emergencyRequest.patient_code}
+            onChange={(e) => setEmergencyRequest({ ...emergencyRequest, patient_code: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium">Clinical reason *</label>
+          <textarea
+            className="w-full p-2 border rounded-md mt-1 text-sm"
+            rows={3}
+            placeholder="Describe the emergency and why the record is needed now"
+            value={emergencyRequest.reason}
+            onChange={(e) => setEmergencyRequest({ ...emergencyRequest, reason: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium">Access for</label>
+          <select
+            className="w-full p-2 border rounded-md"
+            value={emergencyRequest.duration_minutes}
+            onChange={(e) => setEmergencyRequest({ ...emergencyRequest, duration_minutes: Number(e.target.value) })}
+          >
+            {BREAK_GLASS_DURATIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex space-x-2 pt-2">
+          <Button
+            variant="destructive"
+            onClick={handleEmergencyAccess}
+            disabled={
+              requestingEmergency ||
+              !emergencyRequest.patient_code.trim() ||
+              emergencyRequest.reason.trim().length < BREAK_GLASS_MIN_REASON
+            }
+          >
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            {requestingEmergency ? 'Requesting...' : 'Break the Glass'}
+          </Button>
+          <Button variant="outline" onClick={() => setShowEmergencyForm(false)}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   const PatientCard = ({ patient }: { patient: PatientSummary }) => (
     <Card className="hover:shadow-md transition-shadow cursor-pointer" 
           onClick={() => handlePatientSelect(patient.id)}>
@@ -155,6 +354,27 @@ export default function PatientRegistry() {
         </div>
       </CardHeader>
       <CardContent>
+        {patient.emergency_access && (
+          <div className="mb-4 p-3 rounded-lg border border-red-200 bg-red-50 flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-sm text-red-800">
+              <ShieldAlert className="h-4 w-4" />
+              <span>
+                Emergency access until {new Date(patient.emergency_access.expires_at).toLocaleTimeString()}.
+                Everything you view is logged for review.
+              </span>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => handleEndEmergencyAccess(patient.emergency_access.grant_id)}>
+              End Access
+            </Button>
+          </div>
+        )}
+        <div className="mb-4">
+          <AllergyBanner
+            patientId={patient.id}
+            entityId={entityId}
+            editable={hasPermission(Permission.MANAGE_CONDITIONS)}
+          />
+        </div>
         <Tabs defaultValue="demographics" className="w-full">
           <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="demographics">Demographics</TabsTrigger>
@@ -261,7 +481,8 @@ export default function PatientRegistry() {
     </Card>
   );
 
-  const PatientForm = () => (
+  // Rendered inline (not as a nested component) so the inputs keep focus while typing
+  const renderPatientForm = () => (
     <Card>
       <CardHeader>
         <CardTitle>Register New Patient</CardTitle>
@@ -274,22 +495,22 @@ export default function PatientRegistry() {
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="text-sm font-medium">First Name *</label>
-              <Input placeholder="Enter first name" />
+              <Input placeholder="Enter first name" value={newPatient.first_name} onChange={(e) => updateNewPatient({ first_name: e.target.value })} />
             </div>
             <div>
               <label className="text-sm font-medium">Last Name *</label>
-              <Input placeholder="Enter last name" />
+              <Input placeholder="Enter last name" value={newPatient.last_name} onChange={(e) => updateNewPatient({ last_name: e.target.value })} />
             </div>
           </div>
           
           <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="text-sm font-medium">Date of Birth *</label>
-              <Input type="date" />
+              <Input type="date" value={newPatient.dob} onChange={(e) => updateNewPatient({ dob: e.target.value })} />
             </div>
             <div>
               <label className="text-sm font-medium">Sex *</label>
-              <select className="w-full p-2 border rounded-md">
+              <select className="w-full p-2 border rounded-md" value={newPatient.sex} onChange={(e) => updateNewPatient({ sex: e.target.value })}>
                 <option value="">Select sex</option>
                 <option value="Male">Male</option>
                 <option value="Female">Female</option>
@@ -298,31 +519,57 @@ export default function PatientRegistry() {
             </div>
             <div>
               <label className="text-sm font-medium">Phone</label>
-              <Input placeholder="Phone number" />
+              <Input placeholder="Phone number" value={newPatient.phone} onChange={(e) => updateNewPatient({ phone: e.target.value })} />
             </div>
           </div>
           
-          <div>
-            <label className="text-sm font-medium">Email</label>
-            <Input type="email" placeholder="Email address" />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium">Email</label>
+              <Input type="email" placeholder="Email address" value={newPatient.email} onChange={(e) => updateNewPatient({ email: e.target.value })} />
+            </div>
+            <div>
+              <label className="text-sm font-medium">National ID</label>
+              <Input placeholder="National identity number" value={newPatient.national_id} onChange={(e) => updateNewPatient({ national_id: e.target.value })} />
+            </div>
           </div>
           
           <div className="space-y-2">
             <label className="text-sm font-medium">Address</label>
-            <Input placeholder="Street address" />
+            <Input placeholder="Street address" value={newPatient.street} onChange={(e) => updateNewPatient({ street: e.target.value })} />
             <div className="grid grid-cols-3 gap-2">
-              <Input placeholder="City" />
-              <Input placeholder="State" />
-              <Input placeholder="Postal Code" />
+              <Input placeholder="City" value={newPatient.city} onChange={(e) => updateNewPatient({ city: e.target.value })} />
+              <Input placeholder="State" value={newPatient.state} onChange={(e) => updateNewPatient({ state: e.target.value })} />
+              <Input placeholder="Postal Code" value={newPatient.postal_code} onChange={(e) => updateNewPatient({ postal_code: e.target.value })} />
             </div>
           </div>
+
+          {duplicateMatches && duplicateMatches.length > 0 && (
+            <div className="p-3 rounded-lg border border-yellow-200 bg-yellow-50 space-y-2">
+              <div className="flex items-center space-x-2 text-sm text-yellow-800">
+                <AlertCircle className="h-4 w-4" />
+                <span>This person may already be registered. Open the existing record instead of creating a duplicate.</span>
+              </div>
+              {duplicateMatches.map((match) => (
+                <div key={match.patient_id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{match.name_snippet} • {match.patient_code}</p>
+                    <p className="text-xs text-muted-foreground">{Math.round(match.score * 100)}% {match.level}: {match.reasons.join(', ')}</p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => openExistingPatient(match.patient_id)}>
+                    Open existing
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
           
           <div className="flex space-x-2 pt-4">
-            <Button>
+            <Button onClick={handleRegisterPatient} disabled={registering || !newPatient.first_name.trim() || !newPatient.last_name.trim() || !newPatient.dob || !newPatient.sex}>
               <Plus className="h-4 w-4 mr-2" />
-              Register Patient
+              {registering ? 'Checking...' : duplicateMatches?.length ? 'Register Anyway' : 'Register Patient'}
             </Button>
-            <Button variant="outline" onClick={() => setShowPatientForm(false)}>
+            <Button variant="outline" onClick={() => closePatientForm()}>
               Cancel
             </Button>
           </div>
@@ -341,12 +588,20 @@ export default function PatientRegistry() {
             Manage patient records and information
           </p>
         </div>
-        {hasPermission(Permission.MANAGE_PATIENTS) && (
-          <Button onClick={() => setShowPatientForm(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Register New Patient
-          </Button>
-        )}
+        <div className="flex space-x-2">
+          {hasPermission(Permission.VIEW_PATIENT_DATA) && (
+            <Button variant="outline" className="text-red-700 border-red-200" onClick={() => setShowEmergencyForm(true)}>
+              <ShieldAlert className="mr-2 h-4 w-4" />
+              Emergency Access
+            </Button>
+          )}
+          {hasPermission(Permission.MANAGE_PATIENTS) && (
+            <Button onClick={() => setShowPatientForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Register New Patient
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Search */}
@@ -357,20 +612,58 @@ export default function PatientRegistry() {
               <div className="relative">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by name, patient ID, phone, or email..."
+                  placeholder="Search by surname, date of birth, phone, MRN or patient ID..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
+                  disabled={showAdvancedSearch}
                 />
               </div>
             </div>
-            <Button variant="outline">
-              Advanced Search
+            <Button
+              variant="outline"
+              onClick={() => {
+                setShowAdvancedSearch(!showAdvancedSearch);
+                setCriteria({});
+              }}
+            >
+              {showAdvancedSearch ? 'Simple Search' : 'Advanced Search'}
             </Button>
           </div>
+          {showAdvancedSearch && (
+            <div className="mt-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Input
+                  placeholder="Surname"
+                  value={criteria.surname || ''}
+                  onChange={(e) => setCriteria({ ...criteria, surname: e.target.value })}
+                />
+                <Input
+                  type="date"
+                  value={criteria.dob || ''}
+                  onChange={(e) => setCriteria({ ...criteria, dob: e.target.value })}
+                />
+                <Input
+                  placeholder="Phone number"
+                  value={criteria.phone || ''}
+                  onChange={(e) => setCriteria({ ...criteria, phone: e.target.value })}
+                />
+                <Input
+                  placeholder="MRN"
+                  value={criteria.mrn || ''}
+                  onChange={(e) => setCriteria({ ...criteria, mrn: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Every field you fill must match exactly, e.g. surname and date of birth together.
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {hasPermission(Permission.MANAGE_PATIENTS) && <DuplicatePatientsPanel onChange={loadPatients} />}
+
       {/* Content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Patient List */}
@@ -418,8 +711,10 @@ export default function PatientRegistry() {
 
         {/* Patient Details */}
         <div className="lg:col-span-2">
-          {showPatientForm ? (
-            <PatientForm />
+          {showEmergencyForm ? (
+            renderEmergencyForm()
+          ) : showPatientForm ? (
+            renderPatientForm()
           ) : selectedPatient ? (
             <PatientDetails patient={selectedPatient} />
           ) : (
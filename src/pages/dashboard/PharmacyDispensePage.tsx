@@ -16,13 +16,17 @@ import {
   DialogTitle
 } from '@/components/ui/dialog';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { PharmacyService } from '@/lib/pharmacy';
 import { MedicationService } from '@/lib/medications';
+import { MedicationSafetyService, SafetyAlert, blockingAlerts } from '@/lib/medication-safety';
+import { AllergyService, AllergySummary } from '@/lib/allergies';
 import { getEntity } from '@/lib/entities';
 import { githubDB as dbHelpers, collections } from '@/lib/database';
 import { generatePrescription } from '@/lib/hms-print-templates';
 import { validateNDC } from '@/lib/hms-code-validators';
 import PrintButton from '@/components/hms/PrintButton';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import { 
   Pill, 
   Package, 
@@ -42,8 +46,10 @@ import {
 
 export default function PharmacyDispensePage() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const toast = useToastService();
   const [pendingRx, setPendingRx] = useState([]);
+  const [allergySummaries, setAllergySummaries] = useState<Record<string, AllergySummary>>({});
   const [inventory, setInventory] = useState([]);
   const [lowStockItems, setLowStockItems] = useState([]);
   const [expiringItems, setExpiringItems] = useState([]);
@@ -66,19 +72,22 @@ export default function PharmacyDispensePage() {
   });
   const [ndcValidation, setNdcValidation] = useState<{ valid: boolean; formatted?: string; description?: string } | null>(null);
   const [inventorySubmitting, setInventorySubmitting] = useState(false);
+  const [safetyReview, setSafetyReview] = useState<{ rx: any; alerts: SafetyAlert[] } | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [checkingRx, setCheckingRx] = useState<string | null>(null);
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadPharmacyData();
       loadEntityInfo();
       loadInventory();
     }
-  }, [user?.entity_id]);
+  }, [entityId]);
 
   const loadEntityInfo = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     try {
-      const ent = await getEntity(user.entity_id);
+      const ent = await getEntity(entityId);
       setEntityInfo(ent);
     } catch (e) {
       setEntityInfo(null);
@@ -86,9 +95,9 @@ export default function PharmacyDispensePage() {
   };
 
   const loadInventory = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     try {
-      const items = await dbHelpers.find(collections.pharmacy_inventory, { entity_id: user.entity_id });
+      const items = await dbHelpers.find(collections.pharmacy_inventory, { entity_id: entityId });
       setInventory(items || []);
     } catch (e) {
       setInventory([]);
@@ -96,7 +105,7 @@ export default function PharmacyDispensePage() {
   };
 
   const loadPharmacyData = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     try {
       setLoading(true);
@@ -106,11 +115,12 @@ export default function PharmacyDispensePage() {
         lowStock,
         expiring
       ] = await Promise.all([
-        MedicationService.getPharmacyPendingRequests(user.entity_id),
-        PharmacyService.getLowStockItems(user.entity_id),
-        PharmacyService.getExpiringItems(user.entity_id, 90)
+        MedicationService.getPharmacyPendingRequests(entityId),
+        PharmacyService.getLowStockItems(entityId),
+        PharmacyService.getExpiringItems(entityId, 90)
       ]);
 
+      setAllergySummaries(await AllergyService.getAllergySummaries(pendingRequests.map(rx => rx.patient_id)));
       setPendingRx(pendingRequests);
       setLowStockItems(lowStock);
       setExpiringItems(expiring);
@@ -121,7 +131,7 @@ export default function PharmacyDispensePage() {
     }
   };
 
-  const handleDispense = async (requestId: string, medicationData: any) => {
+  const handleDispense = async (rx: any, overrideReasonText?: string, alerts: SafetyAlert[] = []) => {
     if (!hasPermission(Permission.DISPENSE_MEDICATIONS)) {
       toast.showSuccess('You do not have permission to dispense medications');
       return;
@@ -129,15 +139,21 @@ export default function PharmacyDispensePage() {
 
     try {
       await PharmacyService.processMedicationDispense({
-        medication_request_id: requestId,
-        pharmacy_entity_id: user?.entity_id || '',
-        patient_id: medicationData.patient_id,
-        medications: medicationData.medications,
+        medication_request_id: rx.id,
+        pharmacy_entity_id: entityId || '',
+        patient_id: rx.patient_id,
+        medications: rx.medications.map(med => ({
+          drug_name: med.drug_name,
+          quantity_dispensed: parseInt(med.quantity) || 1
+        })),
         dispenser_id: user?.id || '',
         counseling_provided: true,
-        pickup_method: 'in_person'
+        pickup_method: 'in_person',
+        safety_override: MedicationSafetyService.resolveOverride(alerts, overrideReasonText, user?.id || '')
       });
       
+      setSafetyReview(null);
+      setOverrideReason('');
       loadPharmacyData();
     } catch (error) {
       console.error('Failed to dispense medication:', error);
@@ -145,6 +161,38 @@ export default function PharmacyDispensePage() {
     }
   };
 
+  // Screen the prescription against the patient's current medications and
+  // allergies; any alert is shown before dispensing, major ones need a reason
+  const handleReviewAndDispense = async (rx: any) => {
+    setCheckingRx(rx.id);
+    try {
+      const alerts = await MedicationSafetyService.checkMedications(rx.patient_id, rx.medications || [], {
+        excludeRequestId: rx.id
+      });
+      if (alerts.length === 0) {
+        await handleDispense(rx);
+      } else {
+        setOverrideReason('');
+        setSafetyReview({ rx, alerts });
+      }
+    } catch (error) {
+      console.error('Failed to run medication safety check:', error);
+      toast.showError('Could not run the medication safety check. Please try again.');
+    } finally {
+      setCheckingRx(null);
+    }
+  };
+
+  const getSeverityBadge = (severity: SafetyAlert['severity']) => {
+    const colors = {
+      contraindicated: 'bg-red-100 text-red-800',
+      major: 'bg-orange-100 text-orange-800',
+      moderate: 'bg-yellow-100 text-yellow-800',
+      minor: 'bg-gray-100 text-gray-700'
+    };
+    return <Badge className={colors[severity]}>{severity}</Badge>;
+  };
+
   const getStatusBadge = (status: string) => {
     const variants = {
       'active': { variant: 'default', color: 'text-blue-600' },
@@ -206,7 +254,7 @@ export default function PharmacyDispensePage() {
 
         const generated = generatePrescription(
           rx,
-          { name: patientName, patient_code: rx.patient_id },
+          { name: patientName, patient_code: rx.patient_id, allergies: await AllergyService.getAllergySummary(rx.patient_id) },
           prescriber,
           {
             name: entityInfo?.name,
@@ -290,7 +338,7 @@ export default function PharmacyDispensePage() {
   };
 
   const handleInventorySubmit = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     if (!inventoryForm.drug_name.trim()) {
       toast.showError('Drug name is required.');
@@ -304,7 +352,7 @@ export default function PharmacyDispensePage() {
     setInventorySubmitting(true);
     try {
       await dbHelpers.insert(collections.pharmacy_inventory, {
-        entity_id: user.entity_id,
+        entity_id: entityId,
         drug_name: inventoryForm.drug_name.trim(),
         generic_name: inventoryForm.generic_name.trim() || undefined,
         ndc_number: ndcValidation?.formatted || inventoryForm.ndc_number.trim() || undefined,
@@ -468,20 +516,23 @@ export default function PharmacyDispensePage() {
 
                           <Button 
                             size="sm"
-                            onClick={() => handleDispense(rx.id, {
-                              patient_id: rx.patient_id,
-                              medications: rx.medications.map(med => ({
-                                drug_name: med.drug_name,
-                                quantity_dispensed: parseInt(med.quantity) || 1
-                              }))
-                            })}
+                            onClick={() => handleReviewAndDispense(rx)}
+                            disabled={checkingRx === rx.id}
                           >
-                            <CheckCircle className="h-3 w-3 mr-1" />
+                            {checkingRx === rx.id ? (
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            ) : (
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                            )}
                             Dispense
                           </Button>
                         </div>
                       </div>
                     </div>
+
+                    <div className="mt-4">
+                      <AllergyBanner patientId={rx.patient_id} summary={allergySummaries[rx.patient_id]} compact />
+                    </div>
                     
                     <div className="mt-4">
                       <p className="text-sm font-medium">Medications:</p>
@@ -674,6 +725,63 @@ export default function PharmacyDispensePage() {
         </TabsContent>
       </Tabs>
 
+      {/* Medication Safety Review Dialog */}
+      <Dialog open={!!safetyReview} onOpenChange={(open) => !open && setSafetyReview(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-500" />
+              Medication Safety Alerts
+            </DialogTitle>
+            <DialogDescription>
+              Rx #{safetyReview?.rx.prescription_number} was screened against the patient's active medications and recorded allergies.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {safetyReview?.alerts.map((alert, index) => (
+              <div key={index} className="p-3 border rounded-lg">
+                <div className="flex items-center gap-2 mb-1">
+                  {getSeverityBadge(alert.severity)}
+                  <span className="text-xs text-muted-foreground capitalize">{alert.type.replace(/_/g, ' ')}</span>
+                </div>
+                <p className="text-sm">{alert.description}</p>
+                {alert.management && (
+                  <p className="text-xs text-muted-foreground mt-1">{alert.management}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {safetyReview && blockingAlerts(safetyReview.alerts).length > 0 && (
+            <div className="space-y-1.5">
+              <Label htmlFor="safety-override">Override reason (required for major and contraindicated alerts)</Label>
+              <textarea
+                id="safety-override"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 rounded-md border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 text-sm"
+                placeholder="e.g. Discussed with prescriber; benefit outweighs risk, INR monitoring arranged"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSafetyReview(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => safetyReview && handleDispense(safetyReview.rx, overrideReason, safetyReview.alerts)}
+              disabled={!!safetyReview && blockingAlerts(safetyReview.alerts).length > 0 && !overrideReason.trim()}
+            >
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Dispense
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Add Inventory Dialog (NDC validated) */}
       <Dialog open={addInventoryOpen} onOpenChange={setAddInventoryOpen}>
         <DialogContent className="max-w-2xl">
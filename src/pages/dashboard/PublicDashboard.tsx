@@ -5,6 +5,7 @@ import { useAuth } from '../../lib/auth';
 import { githubDB, collections } from '../../lib/database';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import MFASetup from '../../components/auth/MFASetup';
+import SignedInDevices from '../../components/auth/SignedInDevices';
 
 // Dashboard sections
 const OverviewSection = () => {
@@ -503,6 +504,7 @@ const SecuritySection = () => {
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-dark">Security Settings</h2>
       <MFASetup />
+      <SignedInDevices />
     </div>
   );
 };
@@ -7,8 +7,10 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { ReferralService } from '@/lib/referrals';
 import PatientSearch from '@/components/ui/PatientSearch';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import { 
   Send, 
   Inbox, 
@@ -25,6 +27,7 @@ import {
 
 export default function ReferralsPage() {
   const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
   const [outgoingReferrals, setOutgoingReferrals] = useState([]);
   const [incomingReferrals, setIncomingReferrals] = useState([]);
   const [loading, setLoading] = useState(true);
@@ -34,19 +37,19 @@ export default function ReferralsPage() {
   const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
-    if (user?.entity_id) {
+    if (entityId) {
       loadReferralsData();
     }
-  }, [user?.entity_id]);
+  }, [entityId]);
 
   const loadReferralsData = async () => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
 
     try {
       setLoading(true);
       const [outgoing, incoming] = await Promise.all([
-        ReferralService.getOutgoingReferrals(user.entity_id),
-        ReferralService.getIncomingReferrals(user.entity_id)
+        ReferralService.getOutgoingReferrals(entityId),
+        ReferralService.getIncomingReferrals(entityId)
       ]);
       
       setOutgoingReferrals(outgoing);
@@ -67,7 +70,7 @@ export default function ReferralsPage() {
     try {
       const referral = await ReferralService.createReferral({
         ...referralData,
-        from_entity_id: user?.entity_id,
+        from_entity_id: entityId,
         referring_provider_id: user?.id,
         created_by: user?.id
       });
@@ -149,11 +152,19 @@ export default function ReferralsPage() {
         <PatientSearch
           onPatientSelect={setSelectedPatient}
           placeholder="Search for patient..."
-          entityId={user?.entity_id}
+          entityId={entityId}
         />
         
         {selectedPatient && (
           <>
+            <div>
+              <label className="text-sm font-medium">Allergies</label>
+              <div className="mt-1">
+                <AllergyBanner patientId={selectedPatient.id} />
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Sent with the referral from the patient's allergy record.</p>
+            </div>
+
             <div>
               <label className="text-sm font-medium">Referring To *</label>
               <select className="w-full p-2 border rounded-md mt-1">
@@ -406,6 +417,11 @@ export default function ReferralsPage() {
                         <p className="text-sm mt-2">
                           <span className="font-medium">Summary:</span> {referral.clinical_summary}
                         </p>
+                        {referral.allergies && (
+                          <p className="text-sm mt-2">
+                            <span className="font-medium">Allergies:</span> {referral.allergies}
+                          </p>
+                        )}
                       </div>
                       
                       {referral.response_notes && (
@@ -501,6 +517,11 @@ export default function ReferralsPage() {
                         <p className="text-sm mt-2">
                           <span className="font-medium">Summary:</span> {referral.clinical_summary}
                         </p>
+                        {referral.allergies && (
+                          <p className="text-sm mt-2">
+                            <span className="font-medium">Allergies:</span> {referral.allergies}
+                          </p>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -5,13 +5,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useAuth } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
 import { EncounterService } from '@/lib/encounters';
 import { LabService } from '@/lib/labs';
 import { MedicationService } from '@/lib/medications';
 import { BedService } from '@/lib/bed-management';
 import { BillingService } from '@/lib/billing';
 import { ReferralService } from '@/lib/referrals';
+import { EarlyWarningService, EscalationStats, RESPONSE_TARGET_MINUTES, RISK_LABELS, EarlyWarningRisk } from '@/lib/early-warning';
+import { TriageService, DoorToDoctorStats } from '@/lib/triage';
 import {
   BarChart3,
   Activity,
@@ -21,11 +23,13 @@ import {
   DollarSign,
   Users,
   Calendar,
-  Search
+  Search,
+  AlertTriangle,
+  Clock
 } from 'lucide-react';
 
 export default function ReportsHMS() {
-  const { user } = useAuth();
+  const entityId = useActiveEntityId();
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
   const [dateFrom, setDateFrom] = useState<string>(() => new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().slice(0, 10));
@@ -37,6 +41,8 @@ export default function ReportsHMS() {
   const [bedStats, setBedStats] = useState<any>(null);
   const [billingSummary, setBillingSummary] = useState<any>(null);
   const [referralStats, setReferralStats] = useState<any>(null);
+  const [escalationStats, setEscalationStats] = useState<EscalationStats | null>(null);
+  const [doorToDoctor, setDoorToDoctor] = useState<DoorToDoctorStats | null>(null);
 
   const range = useMemo(() => ({
     start: new Date(dateFrom).toISOString(),
@@ -44,21 +50,23 @@ export default function ReportsHMS() {
   }), [dateFrom, dateTo]);
 
   useEffect(() => {
-    if (!user?.entity_id) return;
+    if (!entityId) return;
     loadAll();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.entity_id, range.start, range.end]);
+  }, [entityId, range.start, range.end]);
 
   const loadAll = async () => {
     try {
       setLoading(true);
-      const [enc, lab, med, ward, bill, ref] = await Promise.all([
-        EncounterService.getEncounterStats(user!.entity_id, range.start, range.end),
-        LabService.getLabStats(user!.entity_id, range.start, range.end),
-        MedicationService.getMedicationStats(user!.entity_id, range.start, range.end),
-        BedService.getWardOccupancy(user!.entity_id),
-        BillingService.getBillingSummary(user!.entity_id, range.start, range.end),
-        ReferralService.getReferralStats(user!.entity_id, range.start, range.end)
+      const [enc, lab, med, ward, bill, ref, esc, ed] = await Promise.all([
+        EncounterService.getEncounterStats(entityId!, range.start, range.end),
+        LabService.getLabStats(entityId!, range.start, range.end),
+        MedicationService.getMedicationStats(entityId!, range.start, range.end),
+        BedService.getWardOccupancy(entityId!),
+        BillingService.getBillingSummary(entityId!, range.start, range.end),
+        ReferralService.getReferralStats(entityId!, range.start, range.end),
+        EarlyWarningService.getEscalationStats(entityId!, range.start, range.end),
+        TriageService.getDoorToDoctorStats(entityId!, range.start, range.end)
       ]);
       setEncounterStats(enc);
       setLabStats(lab);
@@ -66,6 +74,8 @@ export default function ReportsHMS() {
       setBedStats(ward);
       setBillingSummary(bill);
       setReferralStats(ref);
+      setEscalationStats(esc);
+      setDoorToDoctor(ed);
     } catch (e) {
       console.error('Failed to load reports', e);
     } finally {
@@ -131,12 +141,14 @@ export default function ReportsHMS() {
       </div>
 
       <Tabs defaultValue={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="encounters">Encounters</TabsTrigger>
           <TabsTrigger value="labs">Labs</TabsTrigger>
           <TabsTrigger value="pharmacy">Pharmacy</TabsTrigger>
           <TabsTrigger value="finance">Finance</TabsTrigger>
+          <TabsTrigger value="deterioration">Deterioration</TabsTrigger>
+          <TabsTrigger value="emergency">Emergency</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -308,6 +320,113 @@ export default function ReportsHMS() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="deterioration" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><AlertTriangle className="h-5 w-5" /> Early Warning Escalations</CardTitle>
+              <CardDescription>NEWS2/PEWS escalations and how quickly they were acknowledged</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {escalationStats ? (
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div className="space-y-1">
+                    <div className="flex justify-between"><span>Escalations</span><span className="font-medium">{escalationStats.escalations}</span></div>
+                    <div className="flex justify-between"><span>Acknowledged</span><span className="font-medium text-green-600">{escalationStats.acknowledged}</span></div>
+                    <div className="flex justify-between"><span>Awaiting Acknowledgement</span><span className="font-medium text-red-600">{escalationStats.pending}</span></div>
+                    <div className="flex justify-between">
+                      <span>Median Response</span>
+                      <span className="font-medium">{escalationStats.median_response_minutes !== null ? `${Math.round(escalationStats.median_response_minutes)}m` : '—'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Within Target</span>
+                      <span className="font-medium">{escalationStats.within_target_rate !== null ? `${Math.round(escalationStats.within_target_rate)}%` : '—'}</span>
+                    </div>
+                  </div>
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">By Risk</h4>
+                    <div className="space-y-1">
+                      {Object.entries(escalationStats.by_risk).map(([risk, v]) => (
+                        <div key={risk} className="flex justify-between">
+                          <span>
+                            {RISK_LABELS[risk as EarlyWarningRisk]}
+                            <span className="text-xs text-muted-foreground"> (target {RESPONSE_TARGET_MINUTES[risk as keyof typeof RESPONSE_TARGET_MINUTES]}m)</span>
+                          </span>
+                          <span className="font-medium">
+                            {v.acknowledged}/{v.escalations} acknowledged
+                            {v.median_response_minutes !== null && ` • median ${Math.round(v.median_response_minutes)}m`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-muted-foreground">No escalation data</div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="emergency" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Clock className="h-5 w-5" /> Door-to-Doctor Times</CardTitle>
+              <CardDescription>Emergency arrivals from the door to triage and to being seen by a doctor</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {doorToDoctor ? (
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div className="space-y-1">
+                    <div className="flex justify-between"><span>Arrivals</span><span className="font-medium">{doorToDoctor.arrivals}</span></div>
+                    <div className="flex justify-between"><span>Seen by Doctor</span><span className="font-medium text-green-600">{doorToDoctor.seen}</span></div>
+                    <div className="flex justify-between"><span>Still Waiting</span><span className="font-medium">{doorToDoctor.waiting}</span></div>
+                    <div className="flex justify-between">
+                      <span>Left Without Being Seen</span>
+                      <span className="font-medium text-red-600">
+                        {doorToDoctor.left_without_being_seen}
+                        {doorToDoctor.arrivals > 0 && ` (${Math.round((doorToDoctor.left_without_being_seen / doorToDoctor.arrivals) * 100)}%)`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Median Door-to-Triage</span>
+                      <span className="font-medium">{doorToDoctor.median_door_to_triage_minutes !== null ? `${Math.round(doorToDoctor.median_door_to_triage_minutes)}m` : '—'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Median Door-to-Doctor</span>
+                      <span className="font-medium">{doorToDoctor.median_door_to_doctor_minutes !== null ? `${Math.round(doorToDoctor.median_door_to_doctor_minutes)}m` : '—'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Average Door-to-Doctor</span>
+                      <span className="font-medium">{doorToDoctor.average_door_to_doctor_minutes !== null ? `${Math.round(doorToDoctor.average_door_to_doctor_minutes)}m` : '—'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Seen Within Target</span>
+                      <span className="font-medium">{doorToDoctor.within_target_rate !== null ? `${Math.round(doorToDoctor.within_target_rate)}%` : '—'}</span>
+                    </div>
+                  </div>
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">By Acuity</h4>
+                    <div className="space-y-1">
+                      {doorToDoctor.by_acuity.map((a) => (
+                        <div key={a.level} className="flex justify-between">
+                          <span>{a.label}</span>
+                          <span className="font-medium">
+                            {a.seen} seen
+                            {a.median_door_to_doctor_minutes !== null && ` • median ${Math.round(a.median_door_to_doctor_minutes)}m`}
+                            {a.seen > 0 && ` • ${a.within_target}/${a.seen} in target`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-muted-foreground">No triage data</div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
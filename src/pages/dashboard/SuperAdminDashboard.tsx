@@ -5,6 +5,9 @@ import { apiClient } from '../../lib/api-client';
 import { githubDB as dbHelpers, collections } from '../../lib/database';
 import KeyManagementModule from '../../components/admin/KeyManagementModule';
 import SystemMonitoringModule from '../../components/admin/SystemMonitoringModule';
+import AccountLockoutsModule from '../../components/admin/AccountLockoutsModule';
+import MFAPolicyCard from '../../components/admin/MFAPolicyCard';
+import DrugDictionaryCard from '../../components/admin/DrugDictionaryCard';
 
 interface OverviewStats {
   users: number;
@@ -147,7 +150,7 @@ const OverviewSection = () => {
         // Recent platform activity from audit logs (newest first).
         let logs: AuditLog[] = [];
         try {
-          logs = await apiClient.getAuditLogs();
+          logs = await apiClient.getAuditLogs({ source: 'platform' });
           logs = (logs || [])
             .slice()
             .sort(
@@ -644,6 +647,12 @@ const SettingsSection = () => {
   return (
     <div className="p-8">
       <h2 className="text-2xl font-bold text-dark mb-6">Platform Settings</h2>
+      <div className="mb-6">
+        <MFAPolicyCard />
+      </div>
+      <div className="mb-6">
+        <DrugDictionaryCard />
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div>
           <h3 className="font-semibold text-dark mb-3">System Settings</h3>
@@ -687,6 +696,7 @@ const SuperAdminDashboard = () => {
     { name: 'Content', path: 'content' },
     { name: 'News', path: 'news' },
     { name: 'Key Management', path: 'keys' },
+    { name: 'Account Lockouts', path: 'lockouts' },
     { name: 'System Monitoring', path: 'monitoring' },
     { name: 'Reports', path: 'reports' },
     { name: 'Settings', path: 'settings' }
@@ -726,6 +736,7 @@ const SuperAdminDashboard = () => {
             <Route path="verifications" element={<VerificationsSection />} />
             <Route path="content" element={<ContentModerationSection />} />
             <Route path="keys" element={<KeyManagementModule />} />
+            <Route path="lockouts" element={<AccountLockoutsModule />} />
             <Route path="monitoring" element={<SystemMonitoringModule />} />
             <Route path="reports" element={<ReportsSection />} />
             <Route path="settings" element={<SettingsSection />} />
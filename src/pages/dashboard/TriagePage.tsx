@@ -0,0 +1,563 @@
+// Emergency Department Triage - HMS waiting room
+// Nurses triage arriving patients on the entity's acuity scale, which opens an
+// emergency encounter. The waiting room lists everyone not yet seen, most
+// urgent first and then longest waiting, and flags waits past the target.
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToastService } from '../../lib/toast-service';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import PatientSearch from '@/components/ui/PatientSearch';
+import AllergyBanner from '@/components/hms/AllergyBanner';
+import { useAuth, Permission } from '@/lib/auth';
+import { useActiveEntityId } from '@/lib/memberships';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
+import { collections } from '@/lib/database';
+import { PatientService } from '@/lib/patients';
+import {
+  TriageService,
+  TriageScale,
+  TriageVitals,
+  WaitingPatient,
+  ACUITY_SCALES,
+  acuityLevel
+} from '@/lib/triage';
+import { CONSCIOUSNESS_LEVELS, Consciousness } from '@/lib/early-warning';
+import { Stethoscope, Plus, Clock, AlertTriangle, Loader2, UserX, RefreshCw } from 'lucide-react';
+
+const selectClass =
+  'w-full h-10 px-3 py-2 rounded-md border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 text-sm';
+
+// Value for a datetime-local input, in local time
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const formatWait = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const EMPTY_VITALS = {
+  respiratory_rate: '',
+  oxygen_saturation: '',
+  on_supplemental_oxygen: false,
+  systolic: '',
+  diastolic: '',
+  heart_rate: '',
+  temperature: '',
+  consciousness: '',
+  pain_score: ''
+};
+
+type VitalsForm = typeof EMPTY_VITALS;
+
+const toVitals = (form: VitalsForm): TriageVitals => {
+  const num = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  return {
+    respiratory_rate: num(form.respiratory_rate),
+    oxygen_saturation: num(form.oxygen_saturation),
+    on_supplemental_oxygen: form.oxygen_saturation.trim() !== '' ? form.on_supplemental_oxygen : undefined,
+    systolic: num(form.systolic),
+    diastolic: num(form.diastolic),
+    heart_rate: num(form.heart_rate),
+    temperature: num(form.temperature),
+    consciousness: (form.consciousness || undefined) as Consciousness | undefined,
+    pain_score: num(form.pain_score)
+  };
+};
+
+interface QueueEntry extends WaitingPatient {
+  patient_name: string;
+}
+
+export default function TriagePage() {
+  const { user, hasPermission } = useAuth();
+  const entityId = useActiveEntityId();
+  const toast = useToastService();
+  const canTriage = hasPermission(Permission.RECORD_VITALS) && hasPermission(Permission.CREATE_ENCOUNTERS);
+  const canManage = hasPermission(Permission.MANAGE_ENCOUNTERS);
+  const canConfigure = hasPermission(Permission.UPDATE_ENTITY);
+
+  const [scale, setScale] = useState<TriageScale>('esi');
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  // New triage dialog
+  const [showTriage, setShowTriage] = useState(false);
+  const [patient, setPatient] = useState<{ id: string; name_snippet: string } | null>(null);
+  const [triageForm, setTriageForm] = useState({ acuity_level: '', chief_complaint: '', arrived_at: '', notes: '' });
+  const [vitalsForm, setVitalsForm] = useState<VitalsForm>(EMPTY_VITALS);
+
+  // Re-triage dialog
+  const [retriageTarget, setRetriageTarget] = useState<QueueEntry | null>(null);
+  const [retriageForm, setRetriageForm] = useState({ acuity_level: '', reason: '', notes: '' });
+
+  const levels = ACUITY_SCALES[scale].levels;
+
+  const loadQueue = useCallback(async (silent = false) => {
+    if (!entityId) return;
+    try {
+      if (!silent) setLoading(true);
+      const waiting = await TriageService.getWaitingRoom(entityId);
+      const withNames = await Promise.all(
+        waiting.map(async (w) => {
+          try {
+            const results = await PatientService.searchPatients(w.patient_id, entityId, 1);
+            return { ...w, patient_name: results[0]?.name_snippet || 'Unknown Patient' };
+          } catch (error) {
+            return { ...w, patient_name: 'Unknown Patient' };
+          }
+        })
+      );
+      setQueue(withNames);
+    } catch (error) {
+      console.error('Failed to load waiting room:', error);
+      if (!silent) toast.showError('Failed to load the waiting room');
+    } finally {
+      setLoading(false);
+    }
+  }, [entityId]);
+
+  useEffect(() => {
+    if (entityId) {
+      loadQueue();
+      TriageService.getTriageScale(entityId).then(setScale).catch(() => setScale('esi'));
+    }
+  }, [entityId]);
+
+  // Waits keep growing while nobody touches the queue
+  useEffect(() => {
+    if (!entityId) return;
+    const timer = setInterval(() => loadQueue(true), 60000);
+    return () => clearInterval(timer);
+  }, [entityId, loadQueue]);
+
+  const { connected: live } = useLiveUpdates([collections.triage_notes], {
+    onChanges: (changes) => {
+      if (changes.some(c => !c.record || c.record.entity_id === entityId)) loadQueue(true);
+    },
+    onResync: () => loadQueue(true)
+  }, !!entityId);
+
+  const handleScaleChange = async (value: TriageScale) => {
+    if (!entityId || !user) return;
+    try {
+      await TriageService.setTriageScale(entityId, value, user.id);
+      setScale(value);
+      toast.showSuccess(`Triage now uses the ${ACUITY_SCALES[value].label}`);
+    } catch (error) {
+      toast.showError(error.message);
+    }
+  };
+
+  const openTriage = () => {
+    setPatient(null);
+    setTriageForm({ acuity_level: '', chief_complaint: '', arrived_at: toLocalInput(new Date()), notes: '' });
+    setVitalsForm(EMPTY_VITALS);
+    setFormError('');
+    setShowTriage(true);
+  };
+
+  const handleTriage = async () => {
+    if (!entityId || !user) return;
+    if (!patient) {
+      setFormError('Select the patient being triaged');
+      return;
+    }
+    try {
+      setSaving(true);
+      setFormError('');
+      const { encounter } = await TriageService.triagePatient({
+        patient_id: patient.id,
+        entity_id: entityId,
+        acuity_level: triageForm.acuity_level,
+        chief_complaint: triageForm.chief_complaint,
+        arrived_at: triageForm.arrived_at ? new Date(triageForm.arrived_at).toISOString() : undefined,
+        vitals: toVitals(vitalsForm),
+        notes: triageForm.notes,
+        triage_nurse_id: user.id
+      });
+      toast.showSuccess(`${patient.name_snippet} triaged — encounter ${encounter.encounter_code} opened`);
+      setShowTriage(false);
+      loadQueue(true);
+    } catch (error) {
+      setFormError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openRetriage = (entry: QueueEntry) => {
+    setRetriageTarget(entry);
+    setRetriageForm({ acuity_level: entry.acuity_level, reason: '', notes: '' });
+    setVitalsForm(EMPTY_VITALS);
+    setFormError('');
+  };
+
+  const handleRetriage = async () => {
+    if (!retriageTarget || !user) return;
+    try {
+      setSaving(true);
+      setFormError('');
+      await TriageService.retriage(retriageTarget, {
+        acuity_level: retriageForm.acuity_level,
+        reason: retriageForm.reason,
+        vitals: toVitals(vitalsForm),
+        notes: retriageForm.notes,
+        triage_nurse_id: user.id
+      });
+      toast.showSuccess(`${retriageTarget.patient_name} re-triaged`);
+      setRetriageTarget(null);
+      loadQueue(true);
+    } catch (error) {
+      setFormError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSeen = async (entry: QueueEntry) => {
+    if (!user) return;
+    try {
+      await TriageService.markSeen(entry, user.id);
+      toast.showSuccess(`${entry.patient_name} seen after ${formatWait(entry.wait_minutes)}`);
+      loadQueue(true);
+    } catch (error) {
+      toast.showError(error.message);
+    }
+  };
+
+  const handleLeft = async (entry: QueueEntry) => {
+    if (!user) return;
+    if (!window.confirm(`Record that ${entry.patient_name} left without being seen?`)) return;
+    try {
+      await TriageService.markLeftWithoutBeingSeen(entry, user.id);
+      toast.showWarning(`${entry.patient_name} recorded as left without being seen`);
+      loadQueue(true);
+    } catch (error) {
+      toast.showError(error.message);
+    }
+  };
+
+  const setVital = (field: keyof VitalsForm, value: string | boolean) =>
+    setVitalsForm(p => ({ ...p, [field]: value }));
+
+  const renderVitalsFields = () => (
+    <div className="space-y-3">
+      <Label>Triage Vitals</Label>
+      <div className="grid grid-cols-3 gap-3">
+        <Input type="number" placeholder="Resp. rate" value={vitalsForm.respiratory_rate} onChange={(e) => setVital('respiratory_rate', e.target.value)} />
+        <Input type="number" placeholder="SpO₂ %" value={vitalsForm.oxygen_saturation} onChange={(e) => setVital('oxygen_saturation', e.target.value)} />
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={vitalsForm.on_supplemental_oxygen}
+            onChange={(e) => setVital('on_supplemental_oxygen', e.target.checked)}
+          />
+          On oxygen
+        </label>
+        <Input type="number" placeholder="Systolic" value={vitalsForm.systolic} onChange={(e) => setVital('systolic', e.target.value)} />
+        <Input type="number" placeholder="Diastolic" value={vitalsForm.diastolic} onChange={(e) => setVital('diastolic', e.target.value)} />
+        <Input type="number" placeholder="Heart rate" value={vitalsForm.heart_rate} onChange={(e) => setVital('heart_rate', e.target.value)} />
+        <Input type="number" step="0.1" placeholder="Temp °C" value={vitalsForm.temperature} onChange={(e) => setVital('temperature', e.target.value)} />
+        <select
+          value={vitalsForm.consciousness}
+          onChange={(e) => setVital('consciousness', e.target.value)}
+          className={selectClass}
+        >
+          <option value="">ACVPU…</option>
+          {CONSCIOUSNESS_LEVELS.map((c) => (
+            <option key={c.value} value={c.value}>{c.value} — {c.label}</option>
+          ))}
+        </select>
+        <Input type="number" min={0} max={10} placeholder="Pain 0–10" value={vitalsForm.pain_score} onChange={(e) => setVital('pain_score', e.target.value)} />
+      </div>
+    </div>
+  );
+
+  const renderAcuityOptions = (selected: string, onSelect: (value: string) => void) => (
+    <div className="grid grid-cols-1 gap-2">
+      {levels.map((level) => (
+        <button
+          key={level.value}
+          type="button"
+          onClick={() => onSelect(level.value)}
+          className={`flex items-center justify-between rounded-md border px-3 py-2 text-left text-sm ${
+            selected === level.value ? 'border-green-500 ring-2 ring-green-500' : 'border-gray-200 hover:bg-gray-50'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <span className={`rounded px-2 py-0.5 text-xs font-semibold ${level.colour}`}>{level.label}</span>
+            <span className="text-muted-foreground">{level.description}</span>
+          </div>
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {level.target_minutes === 0 ? 'Immediate' : `≤ ${level.target_minutes} min`}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+
+  const overTarget = queue.filter(q => q.over_target).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            ED Triage
+            {live && <Badge variant="outline" className="ml-3 align-middle text-green-600">Live</Badge>}
+          </h1>
+          <p className="text-gray-600">Triage arrivals and track the emergency waiting room</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {canConfigure ? (
+            <select
+              value={scale}
+              onChange={(e) => handleScaleChange(e.target.value as TriageScale)}
+              className={`${selectClass} w-64`}
+              aria-label="Acuity scale"
+            >
+              {(Object.keys(ACUITY_SCALES) as TriageScale[]).map((value) => (
+                <option key={value} value={value}>{ACUITY_SCALES[value].label}</option>
+              ))}
+            </select>
+          ) : (
+            <Badge variant="outline">{ACUITY_SCALES[scale].label}</Badge>
+          )}
+          {canTriage && (
+            <Button onClick={openTriage}>
+              <Plus className="h-4 w-4 mr-2" />
+              Triage Patient
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Waiting</p>
+            <p className="text-2xl font-bold">{queue.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Past target wait</p>
+            <p className={`text-2xl font-bold ${overTarget > 0 ? 'text-red-600' : ''}`}>{overTarget}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Longest wait</p>
+            <p className="text-2xl font-bold">
+              {queue.length > 0 ? formatWait(Math.max(...queue.map(q => q.wait_minutes))) : '—'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Waiting Room
+          </CardTitle>
+          <CardDescription>Most urgent first, then longest waiting</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading && <div className="h-16 rounded-md bg-gray-100 animate-pulse" />}
+          {!loading && queue.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nobody is waiting to be seen.</p>
+          )}
+          {queue.map((entry) => {
+            const level = acuityLevel(entry.scale, entry.acuity_level);
+            return (
+              <div
+                key={entry.id}
+                className={`rounded-md border p-4 ${entry.over_target ? 'border-red-300 bg-red-50' : 'border-gray-200'}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`rounded px-2 py-0.5 text-xs font-semibold ${level?.colour || 'bg-gray-200'}`}>
+                        {level?.label || entry.acuity_level}
+                      </span>
+                      <h4 className="font-semibold">{entry.patient_name}</h4>
+                      {entry.retriage_of && <Badge variant="outline">Re-triaged</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-700">{entry.chief_complaint}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Arrived {new Date(entry.arrived_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {' • '}triaged {new Date(entry.triaged_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {entry.retriage_reason && ` • ${entry.retriage_reason}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <div className={`flex items-center justify-end gap-1 font-semibold ${entry.over_target ? 'text-red-600' : ''}`}>
+                      {entry.over_target && <AlertTriangle className="h-4 w-4" />}
+                      {formatWait(entry.wait_minutes)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      target {entry.target_minutes === 0 ? 'immediate' : formatWait(entry.target_minutes)}
+                    </div>
+                  </div>
+                </div>
+                <div className="mt-3">
+                  <AllergyBanner patientId={entry.patient_id} />
+                </div>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {canManage && (
+                    <Button size="sm" onClick={() => handleSeen(entry)}>
+                      <Stethoscope className="h-3 w-3 mr-1" />
+                      Seen by Doctor
+                    </Button>
+                  )}
+                  {canTriage && (
+                    <Button size="sm" variant="outline" onClick={() => openRetriage(entry)}>
+                      <RefreshCw className="h-3 w-3 mr-1" />
+                      Re-triage
+                    </Button>
+                  )}
+                  {canManage && (
+                    <Button size="sm" variant="outline" onClick={() => handleLeft(entry)}>
+                      <UserX className="h-3 w-3 mr-1" />
+                      Left Without Being Seen
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* New Triage Dialog */}
+      <Dialog open={showTriage} onOpenChange={setShowTriage}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Triage Patient</DialogTitle>
+            <DialogDescription>
+              Opens an emergency encounter at the priority for the acuity chosen ({ACUITY_SCALES[scale].label})
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label>Patient *</Label>
+              <PatientSearch
+                entityId={entityId}
+                onPatientSelect={(p) => setPatient({ id: p.id, name_snippet: p.name_snippet })}
+                placeholder="Search by name or patient code"
+                showSelectedPatient
+              />
+            </div>
+            {patient && <AllergyBanner patientId={patient.id} />}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="triage-complaint">Chief Complaint *</Label>
+                <Input
+                  id="triage-complaint"
+                  value={triageForm.chief_complaint}
+                  onChange={(e) => setTriageForm(p => ({ ...p, chief_complaint: e.target.value }))}
+                  placeholder="e.g. chest pain radiating to left arm"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="triage-arrived">Arrived</Label>
+                <Input
+                  id="triage-arrived"
+                  type="datetime-local"
+                  value={triageForm.arrived_at}
+                  onChange={(e) => setTriageForm(p => ({ ...p, arrived_at: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Acuity *</Label>
+              {renderAcuityOptions(triageForm.acuity_level, (value) => setTriageForm(p => ({ ...p, acuity_level: value })))}
+            </div>
+            {renderVitalsFields()}
+            <div className="space-y-1.5">
+              <Label htmlFor="triage-notes">Notes</Label>
+              <Input
+                id="triage-notes"
+                value={triageForm.notes}
+                onChange={(e) => setTriageForm(p => ({ ...p, notes: e.target.value }))}
+              />
+            </div>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowTriage(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleTriage} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Triage
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Re-triage Dialog */}
+      <Dialog open={!!retriageTarget} onOpenChange={(open) => !open && setRetriageTarget(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Re-triage</DialogTitle>
+            <DialogDescription>
+              {retriageTarget && `${retriageTarget.patient_name} — ${retriageTarget.chief_complaint}, waiting ${formatWait(retriageTarget.wait_minutes)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {retriageTarget && (
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label>Acuity *</Label>
+                {renderAcuityOptions(retriageForm.acuity_level, (value) => setRetriageForm(p => ({ ...p, acuity_level: value })))}
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="retriage-reason">Reason *</Label>
+                <Input
+                  id="retriage-reason"
+                  value={retriageForm.reason}
+                  onChange={(e) => setRetriageForm(p => ({ ...p, reason: e.target.value }))}
+                  placeholder="e.g. pain worsening, now diaphoretic"
+                />
+              </div>
+              {renderVitalsFields()}
+              <div className="space-y-1.5">
+                <Label htmlFor="retriage-notes">Notes</Label>
+                <Input
+                  id="retriage-notes"
+                  value={retriageForm.notes}
+                  onChange={(e) => setRetriageForm(p => ({ ...p, notes: e.target.value }))}
+                />
+              </div>
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRetriageTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRetriage} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Re-triage
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
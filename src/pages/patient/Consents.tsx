@@ -8,7 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/lib/auth';
 import { PatientService } from '@/lib/patients';
 import { ConsentService } from '@/lib/consents';
-import { AccessGrantService } from '@/lib/access-grants';
+import { AccessGrantService, AccessReportEntry, AccessIncident } from '@/lib/access-grants';
 import { 
   Shield, 
   Users, 
@@ -20,16 +20,35 @@ import {
   Plus,
   AlertTriangle,
   Download,
-  Settings
+  Settings,
+  History,
+  Flag
 } from 'lucide-react';
 
+const SECTION_LABELS: Record<string, string> = {
+  demographics: 'Personal Information',
+  medical_history: 'Medical History',
+  medications: 'Medications',
+  lab_results: 'Lab Results',
+  imaging: 'Imaging',
+  billing: 'Billing',
+  consents: 'Consents & Access'
+};
+
 export default function Consents() {
   const { user } = useAuth();
+  const toast = useToastService();
   const [patientData, setPatientData] = useState(null);
   const [consents, setConsents] = useState([]);
   const [accessGrants, setAccessGrants] = useState([]);
   const [loading, setLoading] = useState(true);
   const [showGrantForm, setShowGrantForm] = useState(false);
+  const [accessReport, setAccessReport] = useState<AccessReportEntry[]>([]);
+  const [incidents, setIncidents] = useState<AccessIncident[]>([]);
+  const [sectionFilter, setSectionFilter] = useState('all');
+  const [flagged, setFlagged] = useState<string[]>([]);
+  const [reportReason, setReportReason] = useState('');
+  const [reporting, setReporting] = useState(false);
 
   useEffect(() => {
     if (user?.id) {
@@ -53,15 +72,19 @@ export default function Consents() {
       // Load consent and access grant data
       const [
         patientConsents,
-        patientAccessGrants
+        patientAccessGrants,
+        report
       ] = await Promise.all([
         ConsentService.getPatientConsents(patientDetails.id),
-        AccessGrantService.getPatientAccessGrants(patientDetails.id)
+        AccessGrantService.getPatientAccessGrants(patientDetails.id),
+        AccessGrantService.getAccessReport(patientDetails.id)
       ]);
 
       setPatientData(patientDetails);
       setConsents(patientConsents);
       setAccessGrants(patientAccessGrants);
+      setAccessReport(report.entries);
+      setIncidents(report.incidents);
 
     } catch (error) {
       console.error('Failed to load consent data:', error);
@@ -127,6 +150,30 @@ export default function Consents() {
     }
   };
 
+  const toggleFlagged = (entryId: string) => {
+    setFlagged(prev => prev.includes(entryId) ? prev.filter(id => id !== entryId) : [...prev, entryId]);
+  };
+
+  const handleReportSuspicious = async () => {
+    if (!patientData || flagged.length === 0 || !reportReason.trim()) return;
+    try {
+      setReporting(true);
+      const entries = accessReport.filter(e => flagged.includes(e.id));
+      const opened = await AccessGrantService.reportSuspiciousAccess(patientData.id, entries, reportReason.trim(), user?.id || '');
+      setIncidents(prev => [...opened, ...prev]);
+      setFlagged([]);
+      setReportReason('');
+      toast.showSuccess('Your report was sent to the care provider\'s administrators for review');
+    } catch (error) {
+      console.error('Failed to report suspicious access:', error);
+      toast.showError('Failed to report suspicious access');
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  const visibleAccess = accessReport.filter(e => sectionFilter === 'all' || e.section === sectionFilter);
+
   const AccessGrantForm = () => (
     <Card>
       <CardHeader>
@@ -335,9 +382,10 @@ export default function Consents() {
         <AccessGrantForm />
       ) : (
         <Tabs defaultValue="consents" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="consents">Medical Consents ({consents.length})</TabsTrigger>
             <TabsTrigger value="access">Access Grants ({accessGrants.length})</TabsTrigger>
+            <TabsTrigger value="history">Who Accessed My Record</TabsTrigger>
             <TabsTrigger value="privacy">Privacy Settings</TabsTrigger>
           </TabsList>
 
@@ -498,6 +546,125 @@ export default function Consents() {
             )}
           </TabsContent>
 
+          {/* Access History */}
+          <TabsContent value="history" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <h3 className="text-lg font-medium">Who Accessed My Record</h3>
+                <p className="text-sm text-muted-foreground">
+                  Every time a clinician, caregiver or staff member opened your information
+                </p>
+              </div>
+              <select
+                className="p-2 border rounded-md text-sm"
+                value={sectionFilter}
+                onChange={(e) => setSectionFilter(e.target.value)}
+              >
+                <option value="all">All sections</option>
+                {Object.entries(SECTION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {visibleAccess.length > 0 ? (
+              <div className="space-y-3">
+                {visibleAccess.map((entry) => (
+                  <Card key={entry.id} className={entry.emergency ? 'border-red-200' : entry.basis.type === 'none' ? 'border-yellow-200' : ''}>
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex items-start space-x-3">
+                          <input
+                            type="checkbox"
+                            className="rounded mt-1"
+                            checked={flagged.includes(entry.id)}
+                            onChange={() => toggleFlagged(entry.id)}
+                            aria-label="Select to report"
+                          />
+                          <div>
+                            <h4 className="font-medium">
+                              {entry.accessor.name}
+                              {entry.accessor.role && (
+                                <span className="text-sm font-normal text-muted-foreground"> • {entry.accessor.role.replace(/_/g, ' ')}</span>
+                              )}
+                            </h4>
+                            <p className="text-sm text-muted-foreground">
+                              {entry.action.replace(/_/g, ' ')} • {SECTION_LABELS[entry.section] || entry.section.replace(/_/g, ' ')}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(entry.accessed_at).toLocaleString()} • {entry.basis.label}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex flex-col items-end space-y-1">
+                          {entry.emergency && (
+                            <Badge variant="destructive" className="flex items-center space-x-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              <span>EMERGENCY ACCESS</span>
+                            </Badge>
+                          )}
+                          {entry.outcome === 'denied' && <Badge variant="outline">BLOCKED</Badge>}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No access recorded</h3>
+                <p className="text-muted-foreground">
+                  When someone views your records, it will appear here
+                </p>
+              </div>
+            )}
+
+            {flagged.length > 0 && (
+              <Card className="border-orange-200 bg-orange-50">
+                <CardContent className="p-4 space-y-3">
+                  <p className="text-sm font-medium text-orange-800">
+                    Report {flagged.length} access{flagged.length === 1 ? '' : 'es'} as suspicious
+                  </p>
+                  <textarea
+                    className="w-full p-2 border rounded-md text-sm"
+                    rows={3}
+                    placeholder="Tell us why this access looks wrong (e.g. I don't know this person)"
+                    value={reportReason}
+                    onChange={(e) => setReportReason(e.target.value)}
+                  />
+                  <div className="flex space-x-2">
+                    <Button onClick={handleReportSuspicious} disabled={reporting || !reportReason.trim()}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      {reporting ? 'Reporting...' : 'Report Suspicious Access'}
+                    </Button>
+                    <Button variant="outline" onClick={() => setFlagged([])}>
+                      Cancel
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {incidents.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Your Reports</h4>
+                {incidents.map((incident) => (
+                  <div key={incident.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <p className="text-sm">{incident.reason}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {incident.entries.map(e => e.accessor_name).filter((n, i, all) => all.indexOf(n) === i).join(', ')}
+                        {incident.created_at && ` • Reported ${new Date(incident.created_at).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <Badge variant="outline">{incident.status.toUpperCase()}</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
           {/* Privacy Settings */}
           <TabsContent value="privacy" className="space-y-4">
             <Card>
@@ -9,6 +9,8 @@ import { PatientService } from '@/lib/patients';
 import { EncounterService } from '@/lib/encounters';
 import { LabService } from '@/lib/labs';
 import { ConditionService } from '@/lib/conditions';
+import { AllergyService, Allergy } from '@/lib/allergies';
+import AllergyBanner from '@/components/hms/AllergyBanner';
 import { 
   FileText, 
   Calendar, 
@@ -28,6 +30,7 @@ export default function Records() {
   const [encounters, setEncounters] = useState([]);
   const [labResults, setLabResults] = useState([]);
   const [conditions, setConditions] = useState([]);
+  const [allergies, setAllergies] = useState<Allergy[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -53,17 +56,20 @@ export default function Records() {
       const [
         encounterData,
         labData,
-        conditionData
+        conditionData,
+        allergyData
       ] = await Promise.all([
         EncounterService.getPatientEncounters(patientDetails.id),
         LabService.getPatientLabResults(patientDetails.id, true),
-        ConditionService.getPatientConditions(patientDetails.id)
+        ConditionService.getPatientConditions(patientDetails.id),
+        AllergyService.getPatientAllergies(patientDetails.id)
       ]);
 
       setPatientData(patientDetails);
       setEncounters(encounterData);
       setLabResults(labData);
       setConditions(conditionData);
+      setAllergies(allergyData);
 
     } catch (error) {
       console.error('Failed to load patient records:', error);
@@ -139,6 +145,9 @@ export default function Records() {
         </Button>
       </div>
 
+      {/* Allergies */}
+      <AllergyBanner patientId={patientData.id} />
+
       {/* Summary Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -192,10 +201,11 @@ export default function Records() {
 
       {/* Records Content */}
       <Tabs defaultValue="visits" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="visits">Visit History ({encounters.length})</TabsTrigger>
           <TabsTrigger value="labs">Lab Results ({labResults.length})</TabsTrigger>
           <TabsTrigger value="conditions">Conditions ({conditions.length})</TabsTrigger>
+          <TabsTrigger value="allergies">Allergies ({allergies.length})</TabsTrigger>
           <TabsTrigger value="imaging">Imaging (0)</TabsTrigger>
         </TabsList>
 
@@ -377,6 +387,53 @@ export default function Records() {
           )}
         </TabsContent>
 
+        {/* Allergies */}
+        <TabsContent value="allergies" className="space-y-4">
+          {allergies.length > 0 ? (
+            <div className="space-y-4">
+              {allergies.map((allergy) => (
+                <Card key={allergy.id}>
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="font-medium">{allergy.allergen}</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {allergy.category || 'medication'}
+                          {allergy.reaction && ` • Reaction: ${allergy.reaction}`}
+                        </p>
+                        {allergy.onset_date && (
+                          <p className="text-sm text-muted-foreground">
+                            Onset: {new Date(allergy.onset_date).toLocaleDateString()}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="text-right">
+                        <Badge variant={allergy.status === 'active' ? 'default' : 'outline'}>
+                          {(allergy.verification_status || allergy.status).replace(/_/g, ' ').toUpperCase()}
+                        </Badge>
+                        {allergy.severity && (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            Severity: {allergy.severity}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Heart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No allergies recorded</h3>
+              <p className="text-muted-foreground">
+                Allergies your care team records will appear here
+              </p>
+            </div>
+          )}
+        </TabsContent>
+
         {/* Imaging */}
         <TabsContent value="imaging" className="space-y-4">
           <div className="text-center py-12">